@@ -86,7 +86,7 @@ async function main() {
   const walletAddress = '0x...'; // Replace with actual address
 
   // Get trading storage contract
-  const tradingStorage = client['contracts'].get('TradingStorage');
+  const tradingStorage = client['contracts'].TradingStorage;
 
   if (tradingStorage) {
     // Batch read trades 0, 1, 2 for pair 0
@@ -129,7 +129,7 @@ async function main() {
   console.log('\n7. Custom multicall example...');
 
   // Get pair storage contract
-  const pairStorage = client['contracts'].get('PairStorage');
+  const pairStorage = client['contracts'].PairStorage;
 
   if (pairStorage) {
     // Read multiple pairs at once
@@ -138,9 +138,9 @@ async function main() {
     console.log('Fetched', pairs.length, 'pairs');
     pairs.forEach((pair, i) => {
       console.log(`Pair ${i}:`, {
-        from: pair.from,
-        to: pair.to,
-        maxLeverage: pair.maxLeverage.toString(),
+        feedId: pair.feed.feedId,
+        groupIndex: pair.groupIndex.toString(),
+        maxLeverage: pair.leverages.maxLeverage.toString(),
       });
     });
   }
@@ -148,8 +148,8 @@ async function main() {
   // Advanced: Manual multicall with custom calls
   console.log('\n8. Manual multicall with different contracts...');
 
-  const pairInfos = client['contracts'].get('PairInfos');
-  const referral = client['contracts'].get('Referral');
+  const pairInfos = client['contracts'].PairInfos;
+  const referral = client['contracts'].Referral;
 
   if (pairInfos && referral && tradingStorage) {
     const result = await client.multicall.aggregateAndDecode([
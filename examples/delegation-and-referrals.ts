@@ -3,7 +3,7 @@
  * Demonstrates delegation functionality and referral program
  */
 
-import { TraderClient, toBlockchain10, toBlockchain6, toBlockchain18 } from '../src';
+import { TraderClient, toBlockchain6, toBlockchain18 } from '../src';
 
 async function main() {
   // Initialize client
@@ -39,8 +39,8 @@ async function main() {
 
   // Example: Update TP/SL as delegate
   const traderAddress = '0x...'; // Address you're delegating for
-  const newSl = toBlockchain10(47000);
-  const newTp = toBlockchain10(56000);
+  const newSl = 47000;
+  const newTp = 56000;
 
   const callData = client.delegation.encodeUpdateTpAndSl(
     0, // pairIndex
@@ -0,0 +1,98 @@
+/**
+ * Local Fee Engine Example
+ * Quotes fees offline and checks parity against the on-chain views.
+ *
+ * Run against a fork so the engine and the contracts see the same state:
+ *   anvil --fork-url https://mainnet.base.org --chain-id 31337
+ *   FORK_RPC_URL=http://127.0.0.1:8545 npx ts-node examples/fee-engine-parity.ts
+ */
+
+import {
+  TraderClient,
+  LocalFeeEngine,
+  LossProtectionConfig,
+  LOCAL_CHAIN_ID,
+  checkFeeParity,
+  fetchLossProtectionConfig,
+  fetchSkewFeePairs,
+  PairInfos__factory,
+  PairStorage__factory,
+  PriceAggregator__factory,
+} from '../src';
+
+async function main() {
+  const rpcUrl = process.env.FORK_RPC_URL || 'http://127.0.0.1:8545';
+  const client = new TraderClient(rpcUrl, undefined, undefined, { network: LOCAL_CHAIN_ID });
+  const { contracts } = client.network;
+
+  const pairInfos = PairInfos__factory.connect(contracts.PairInfos, client.provider);
+  const pairStorage = PairStorage__factory.connect(contracts.PairStorage, client.provider);
+  const priceAggregator = PriceAggregator__factory.connect(
+    contracts.PriceAggregator,
+    client.provider
+  );
+
+  // ==================== LOAD STATE ====================
+
+  console.log('Loading market state...');
+  const [snapshot, backends, pairsInfo] = await Promise.all([
+    client.snapshotRPC.getSnapshot(),
+    client.snapshotRPC.getAllPairsFullData(),
+    client.pairsCache.getPairsInfo(),
+  ]);
+
+  const pairIndexes = [0, 1];
+  const lossProtection = new Map<number, LossProtectionConfig>();
+  for (const pairIndex of pairIndexes) {
+    lossProtection.set(
+      pairIndex,
+      await fetchLossProtectionConfig(pairInfos, pairStorage, pairIndex)
+    );
+  }
+
+  const skewFeePairs = await fetchSkewFeePairs(pairStorage, pairIndexes);
+
+  const engine = LocalFeeEngine.fromSnapshot(
+    snapshot,
+    backends,
+    pairsInfo,
+    lossProtection,
+    skewFeePairs
+  );
+
+  // ==================== OFFLINE QUOTES ====================
+
+  console.time('10k quotes');
+  for (let i = 0; i < 10_000; i++) {
+    engine.quote({ pairIndex: 0, isLong: i % 2 === 0, collateral: 100 + i, leverage: 10 });
+  }
+  console.timeEnd('10k quotes');
+
+  console.log('Quote:', engine.quote({ pairIndex: 0, isLong: true, collateral: 1000, leverage: 20 }));
+
+  // ==================== PARITY ====================
+
+  const cases = pairIndexes.flatMap((pairIndex) =>
+    [true, false].map((isLong) => ({ pairIndex, isLong, collateral: 1000, leverage: 25 }))
+  );
+
+  const results = await checkFeeParity(
+    engine,
+    { pairInfos, pairStorage, priceAggregator },
+    cases
+  );
+  for (const result of results) {
+    console.log(
+      `pair ${result.input.pairIndex} ${result.input.isLong ? 'long' : 'short'}:`,
+      result.withinTolerance ? 'OK' : 'MISMATCH',
+      result.deltas,
+      result.unmodeled
+    );
+  }
+
+  if (results.some((result) => !result.withinTolerance)) {
+    process.exitCode = 1;
+  }
+}
+
+main().catch(console.error);
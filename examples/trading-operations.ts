@@ -88,8 +88,7 @@ async function main() {
       0, // pairIndex
       0, // tradeIndex
       47000, // New SL: $47,000
-      56000, // New TP: $56,000
-      [] // Price update data (can be empty for now)
+      56000 // New TP: $56,000 (latest Pyth price update is fetched and attached)
     );
 
     console.log('TP/SL updated! Transaction hash:', receipt?.hash);
@@ -106,8 +105,7 @@ async function main() {
       0, // pairIndex
       0, // tradeIndex
       MarginUpdateType.DEPOSIT,
-      50, // Add 50 USDC
-      []
+      50 // Add 50 USDC
     );
 
     console.log('Margin updated! Transaction hash:', receipt?.hash);
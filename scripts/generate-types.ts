@@ -0,0 +1,64 @@
+/**
+ * Generate typed contract bindings (src/typechain) from the ABIs in src/abis
+ *
+ * Usage: npm run generate:types
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join, resolve } from 'path';
+import { runTypeChain } from 'typechain';
+import {
+  ERC20_ABI,
+  MULTICALL_ABI,
+  PAIR_INFOS_ABI,
+  PAIR_STORAGE_ABI,
+  PRICE_AGGREGATOR_ABI,
+  PYTH_ABI,
+  REFERRAL_ABI,
+  TRADING_ABI,
+  TRADING_STORAGE_ABI,
+} from '../src/abis';
+
+// Binding names are taken from the file names
+const CONTRACTS: Record<string, readonly unknown[]> = {
+  Trading: TRADING_ABI,
+  TradingStorage: TRADING_STORAGE_ABI,
+  PairStorage: PAIR_STORAGE_ABI,
+  PairInfos: PAIR_INFOS_ABI,
+  PriceAggregator: PRICE_AGGREGATOR_ABI,
+  Referral: REFERRAL_ABI,
+  Multicall: MULTICALL_ABI,
+  ERC20: ERC20_ABI,
+  Pyth: PYTH_ABI,
+};
+
+async function main() {
+  const root = resolve(__dirname, '..');
+  const abiDir = mkdtempSync(join(tmpdir(), 'avantis-abis-'));
+
+  try {
+    const files = Object.entries(CONTRACTS).map(([name, abi]) => {
+      const file = join(abiDir, `${name}.json`);
+      writeFileSync(file, JSON.stringify(abi, null, 2));
+      return file;
+    });
+
+    const result = await runTypeChain({
+      cwd: root,
+      filesToProcess: files,
+      allFiles: files,
+      outDir: join(root, 'src', 'typechain'),
+      target: 'ethers-v6',
+    });
+
+    console.log(`Generated ${result.filesGenerated} files in src/typechain`);
+  } finally {
+    rmSync(abiDir, { recursive: true, force: true });
+  }
+}
+
+main().catch((error) => {
+  console.error('Error generating contract types:', error);
+  process.exit(1);
+});
@@ -18,6 +18,7 @@ import pairinfos from "./abis/pairInfos"
 import priceAggregator from "./abis/priceAggregator"
 import referral from "./abis/Referral"
 import multicall from "./abis/multicall"
+import pyth from "./abis/pyth"
 
 export const ERC20_ABI = erc20;
 
@@ -53,4 +54,9 @@ export const REFERRAL_ABI = referral;
 /**
  * Multicall Contract ABI
  */
-export const MULTICALL_ABI = multicall;
\ No newline at end of file
+export const MULTICALL_ABI = multicall;
+
+/**
+ * Pyth Oracle Contract ABI (update fee and price updates)
+ */
+export const PYTH_ABI = pyth;
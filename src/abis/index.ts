@@ -5,4 +5,5 @@ export * from "./multicall"
 export * from "./pairInfos"
 export * from "./pairStorage"
 export * from "./priceAggregator"
+export * from "./pyth"
 export * from "./tardingStorage"
\ No newline at end of file
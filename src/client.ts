@@ -1,9 +1,15 @@
-import { ethers, JsonRpcProvider, Contract, TransactionReceipt, TransactionRequest } from 'ethers';
+import { ethers, Network, TransactionReceipt, TransactionRequest } from 'ethers';
 import { BaseSigner } from './signers/base';
 import { LocalSigner } from './signers/local';
 import { KMSSigner } from './signers/kms';
 import { FeedClient } from './feed/feed_client';
-import { CONTRACTS, getContractAddress } from './config';
+import {
+  ApiEndpoints,
+  BASE_MAINNET_CHAIN_ID,
+  ContractAddresses,
+  NetworkConfig,
+  resolveNetworkConfig,
+} from './config';
 import { PairsCache } from './rpc/pairs_cache';
 import { AssetParametersRPC } from './rpc/asset_parameters';
 import { CategoryParametersRPC } from './rpc/category_parameters';
@@ -17,29 +23,102 @@ import { DelegationRPC } from './rpc/delegation';
 import { PairInfoQueriesRPC } from './rpc/pair_info_queries';
 import { ReferralOperationsRPC } from './rpc/referral_operations';
 import { MulticallRPC } from './rpc/multicall';
-import { fromBlockchain6 } from './types';
+import { BatchingProvider, MulticallBatcherOptions } from './rpc/batching_provider';
+import { NetworkCheckedProvider } from './rpc/network_checked_provider';
+import { PositionAnalyticsRPC } from './rpc/position_analytics';
+import { Portfolio, PortfolioRPC } from './rpc/portfolio';
+import { PositionWatcher, PositionWatcherOptions } from './rpc/position_watcher';
+import { PriceUpdateRPC } from './rpc/price_updates';
+import { EventIndexer } from './rpc/event_indexer';
+import { OrderTracker, OrderHandle, TrackOrderOptions } from './rpc/order_tracker';
+import { TradeBuilder } from './rpc/trade_builder';
+import { UsdcApprovalManager, UsdcApprovalOptions } from './rpc/usdc_approval';
+import {
+  SimulateOptions,
+  SimulationResult,
+  TransactionManager,
+} from './transactions/transaction_manager';
 import {
-  ERC20_ABI,
-  TRADING_ABI,
-  TRADING_STORAGE_ABI,
-  PAIR_STORAGE_ABI,
-  PAIR_INFOS_ABI,
-  PRICE_AGGREGATOR_ABI,
-  REFERRAL_ABI,
-  MULTICALL_ABI,
-} from './abis';
+  Erc20StateOverrides,
+  StateOverrides,
+  mergeStateOverrides,
+} from './simulation/state_overrides';
+import { fromBlockchain6, toBlockchain6, toBlockchain18 } from './types';
+import {
+  ERC20,
+  ERC20__factory,
+  Multicall,
+  Multicall__factory,
+  PairInfos,
+  PairInfos__factory,
+  PairStorage,
+  PairStorage__factory,
+  PriceAggregator,
+  PriceAggregator__factory,
+  Referral,
+  Referral__factory,
+  Trading,
+  Trading__factory,
+  TradingStorage,
+  TradingStorage__factory,
+} from './typechain';
+
+/**
+ * Options for selecting the network a TraderClient targets
+ */
+export interface TraderClientOptions {
+  /** Chain ID of a registered network or a full network configuration (default: Base mainnet) */
+  network?: number | NetworkConfig;
+  /** Contract address overrides applied on top of the selected network */
+  contracts?: Partial<ContractAddresses>;
+  /** Endpoint overrides applied on top of the selected network */
+  endpoints?: Partial<ApiEndpoints>;
+  /** Coalesce view calls made in the same tick into Multicall3 batches (default: false) */
+  batchCalls?: boolean | MulticallBatcherOptions;
+  /** USDC approval mode and pre-trade allowance handling */
+  usdcApproval?: UsdcApprovalOptions;
+}
+
+/**
+ * Options for client.simulate / client.simulateTransaction
+ */
+export interface DryRunOptions extends SimulateOptions {
+  /** ETH balance of the sender (ETH) */
+  ethBalance?: number;
+  /** USDC balance of the sender (USDC) */
+  usdcBalance?: number;
+  /** USDC allowance the sender gave the Trading contract (USDC) */
+  usdcAllowance?: number;
+}
+
+/**
+ * Typed contract instances used by the client
+ */
+interface TraderContracts {
+  TradingStorage: TradingStorage;
+  PairStorage: PairStorage;
+  PairInfos: PairInfos;
+  PriceAggregator: PriceAggregator;
+  USDC: ERC20;
+  Trading: Trading;
+  Referral: Referral;
+  Multicall: Multicall;
+}
 
 /**
  * Main client for interacting with Avantis trading platform
  */
 export class TraderClient {
-  public provider: JsonRpcProvider;
+  public provider: NetworkCheckedProvider;
  signer?: BaseSigner;
   public feedClient?: FeedClient;
-
+  public readonly network: NetworkConfig;
+  public transactions: TransactionManager;
 
   // Contracts
-  private contracts: Map<string, Contract> = new Map();
+  private contracts: TraderContracts;
+  private usdcOverrides: Erc20StateOverrides;
+  private hermesClient: FeedClient;
 
   // RPC modules
   public pairsCache: PairsCache;
@@ -57,29 +136,57 @@ export class TraderClient {
   public pairInfoQueries: PairInfoQueriesRPC;
   public referral: ReferralOperationsRPC;
   public multicall: MulticallRPC;
+  public priceUpdates: PriceUpdateRPC;
+  public positionAnalytics: PositionAnalyticsRPC;
+  public portfolio: PortfolioRPC;
+  public events: EventIndexer;
+  public orderTracker: OrderTracker;
+  public approvals: UsdcApprovalManager;
 
   /**
    * Create a new TraderClient
    * @param providerUrl - Ethereum RPC endpoint
    * @param signer - Transaction signer (optional)
    * @param feedClient - Feed client for price updates (optional)
+   * @param options - Network selection and address/endpoint overrides (optional)
    */
   constructor(
     providerUrl: string,
     signer?: BaseSigner,
-    feedClient?: FeedClient
+    feedClient?: FeedClient,
+    options: TraderClientOptions = {}
   ) {
-    this.provider = new JsonRpcProvider(providerUrl);
+    this.network = resolveNetworkConfig(options.network ?? BASE_MAINNET_CHAIN_ID, {
+      contracts: options.contracts,
+      endpoints: options.endpoints,
+    });
+
+    // The provider rejects every request if the RPC endpoint is connected to
+    // a different chain than the selected network
+    const network = new Network(this.network.name, this.network.chainId);
+    this.provider = options.batchCalls
+      ? new BatchingProvider(
+          providerUrl,
+          network,
+          this.network.contracts.Multicall,
+          options.batchCalls === true ? {} : options.batchCalls
+        )
+      : new NetworkCheckedProvider(providerUrl, network);
     this.signer = signer;
     this.feedClient = feedClient;
 
+    // Every write goes through one pipeline so nonces never collide
+    this.transactions = new TransactionManager(this.provider, this.signer);
 
     // Initialize RPC modules
-    this.initializeContracts();
+    this.contracts = this.initializeContracts();
     this.pairsCache = new PairsCache(
       this.provider,
-      this.getContract('PairStorage')
+      this.getContract('PairStorage'),
+      this.network.endpoints.SOCKET_API
     );
+    // Lets the feed client subscribe by pair name
+    this.feedClient?.setPairsCache(this.pairsCache);
 
     const pairStorage = this.getContract('PairStorage');
     const pairInfos = this.getContract('PairInfos');
@@ -104,6 +211,7 @@ export class TraderClient {
     this.feeParams = new FeeParametersRPC(
       this.provider,
       pairInfos,
+      this.getContract('PriceAggregator'),
       this.pairsCache,
       referral
     );
@@ -111,6 +219,7 @@ export class TraderClient {
     this.tradingParams = new TradingParametersRPC(
       this.provider,
       pairInfos,
+      pairStorage,
       this.pairsCache
     );
 
@@ -120,11 +229,34 @@ export class TraderClient {
       this.pairsCache
     );
 
+    // Price updates only need Hermes over HTTP, so a default feed client is enough
+    const hermesClient =
+      this.feedClient ??
+      new FeedClient(
+        this.network.endpoints.PYTH_WS,
+        undefined,
+        undefined,
+        this.network.endpoints.PYTH_HTTP
+      );
+    this.hermesClient = hermesClient;
+
+    this.priceUpdates = new PriceUpdateRPC(
+      this.getContract('PriceAggregator'),
+      this.pairsCache,
+      hermesClient
+    );
+
+    this.multicall = new MulticallRPC(
+      this.getContract('Multicall')
+    );
+
     this.tradeRPC = new TradeRPC(
       this.provider,
       trading,
-      tradingStorage,
-      this.pairsCache
+      this.multicall,
+      this.pairsCache,
+      this.priceUpdates,
+      this.transactions
     );
 
     this.snapshotRPC = new SnapshotRPC(
@@ -135,69 +267,86 @@ export class TraderClient {
       this.blendedParams
     );
 
+    this.usdcOverrides = new Erc20StateOverrides(this.provider, this.network.contracts.USDC);
+    this.approvals = new UsdcApprovalManager(
+      this.getContract('USDC'),
+      this.network.contracts.Trading,
+      this.transactions,
+      options.usdcApproval,
+      this.usdcOverrides
+    );
+
     // Initialize new trading modules
     this.tradingOps = new TradingOperationsRPC(
       trading,
       tradingStorage,
-      this.signer
+      this.transactions,
+      this.priceUpdates,
+      this.approvals
     );
 
     this.delegation = new DelegationRPC(
       trading,
-      this.signer
+      this.transactions
     );
 
     this.pairInfoQueries = new PairInfoQueriesRPC(
       pairInfos,
-      this.getContract('PriceAggregator')
+      this.getContract('PriceAggregator'),
+      pairStorage
     );
 
     this.referral = new ReferralOperationsRPC(
       referral,
-      this.signer
+      this.transactions
     );
 
-    this.multicall = new MulticallRPC(
-      this.getContract('Multicall')
+    this.positionAnalytics = new PositionAnalyticsRPC(
+      pairInfos,
+      pairStorage,
+      this.pairsCache,
+      hermesClient
+    );
+
+    this.portfolio = new PortfolioRPC(
+      this.provider,
+      this.getContract('USDC'),
+      this.network.contracts.Trading,
+      this.multicall,
+      this.positionAnalytics,
+      this.pairsCache,
+      hermesClient
+    );
+
+    this.events = new EventIndexer(
+      this.provider,
+      trading,
+      tradingStorage
+    );
+
+    this.orderTracker = new OrderTracker(
+      this.provider,
+      trading,
+      tradingStorage
     );
   }
 
   /**
    * Initialize contract instances
    */
-  private initializeContracts(): void {
-    this.contracts.set(
-      'TradingStorage',
-      new Contract(CONTRACTS.TradingStorage, TRADING_STORAGE_ABI, this.provider)
-    );
-    this.contracts.set(
-      'PairStorage',
-      new Contract(CONTRACTS.PairStorage, PAIR_STORAGE_ABI, this.provider)
-    );
-    this.contracts.set(
-      'PairInfos',
-      new Contract(CONTRACTS.PairInfos, PAIR_INFOS_ABI, this.provider)
-    );
-    this.contracts.set(
-      'PriceAggregator',
-      new Contract(CONTRACTS.PriceAggregator, PRICE_AGGREGATOR_ABI, this.provider)
-    );
-    this.contracts.set(
-      'USDC',
-      new Contract(CONTRACTS.USDC, ERC20_ABI, this.provider)
-    );
-    this.contracts.set(
-      'Trading',
-      new Contract(CONTRACTS.Trading, TRADING_ABI, this.provider)
-    );
-    this.contracts.set(
-      'Referral',
-      new Contract(CONTRACTS.Referral, REFERRAL_ABI, this.provider)
-    );
-    this.contracts.set(
-      'Multicall',
-      new Contract(CONTRACTS.Multicall, MULTICALL_ABI, this.provider)
-    );
+  private initializeContracts(): TraderContracts {
+    const addresses = this.network.contracts;
+
+    return {
+      TradingStorage: TradingStorage__factory.connect(addresses.TradingStorage, this.provider),
+      PairStorage: PairStorage__factory.connect(addresses.PairStorage, this.provider),
+      PairInfos: PairInfos__factory.connect(addresses.PairInfos, this.provider),
+      PriceAggregator: PriceAggregator__factory.connect(addresses.PriceAggregator, this.provider),
+      USDC: ERC20__factory.connect(addresses.USDC, this.provider),
+      Trading: Trading__factory.connect(addresses.Trading, this.provider),
+      Referral: Referral__factory.connect(addresses.Referral, this.provider),
+      Multicall: Multicall__factory.connect(addresses.Multicall, this.provider),
+    };
   }
 
   /**
@@ -205,12 +354,8 @@ export class TraderClient {
    * @param name - Contract name
    * @returns Contract instance
    */
-  private getContract(name: string): Contract {
-    const contract = this.contracts.get(name);
-    if (!contract) {
-      throw new Error(`Contract ${name} not initialized`);
-    }
-    return contract;
+  private getContract<K extends keyof TraderContracts>(name: K): TraderContracts[K] {
+    return this.contracts[name];
   }
 
   /**
@@ -219,9 +364,7 @@ export class TraderClient {
    */
   setSigner(signer: BaseSigner): void {
     this.signer = signer;
-    this.tradingOps.setSigner(signer);
-    this.delegation.setSigner(signer);
-    this.referral.setSigner(signer);
+    this.transactions.setSigner(signer);
   }
 
   /**
@@ -273,6 +416,16 @@ export class TraderClient {
     return fromBlockchain6(allowance);
   }
 
+  /**
+   * Get a trader's open trades with PnL, limit orders, pending orders,
+   * balances and totals
+   * @param address - Trader address
+   * @returns Portfolio
+   */
+  async getPortfolio(address: string): Promise<Portfolio> {
+    return await this.portfolio.getPortfolio(address);
+  }
+
   /**
    * Approve USDC for trading
    * @param amount - Amount to approve
@@ -283,18 +436,19 @@ export class TraderClient {
       throw new Error('Signer not set');
     }
 
-    const tradingAddress = await this.getContract('Trading').getAddress();
-    const amountWei = BigInt(Math.floor(amount * 1e6));
-
-    const tx: TransactionRequest = {
-      to: CONTRACTS.USDC,
-      data: this.getContract('USDC').interface.encodeFunctionData('approve', [
-        tradingAddress,
-        amountWei,
-      ]),
-    };
+    return await this.approvals.approve(amount);
+  }
 
-    return await this.signAndGetReceipt(tx);
+  /**
+   * Revoke the Trading contract's USDC allowance
+   * @returns Transaction receipt
+   */
+  async revokeUsdcForTrading(): Promise<TransactionReceipt | null> {
+    if (!this.signer) {
+      throw new Error('Signer not set');
+    }
+
+    return await this.approvals.revoke();
   }
 
   /**
@@ -307,41 +461,120 @@ export class TraderClient {
       throw new Error('Signer not set');
     }
 
-    // Fill in missing transaction fields
-    const address = await this.signer.getAddress();
-    tx.from = address;
+    return await this.transactions.sendAndWait(tx);
+  }
 
-    if (!tx.chainId) {
-      const network = await this.provider.getNetwork();
-      tx.chainId = network.chainId;
-    }
+  /**
+   * Dry-run SDK write calls: every transaction they would send is simulated
+   * with eth_call against the pending block and nothing is signed
+   * @param task - Write calls to run, e.g. `() => client.tradingOps.openTrade(...)`
+   * @param options - Sender, block and balance/allowance overrides
+   * @returns Simulation results (success, decoded revert, gas and fee) in send order
+   */
+  async simulate(
+    task: () => Promise<unknown>,
+    options: DryRunOptions = {}
+  ): Promise<SimulationResult[]> {
+    return await this.transactions.dryRun(task, await this.resolveDryRunOptions(options));
+  }
 
-    if (tx.nonce === undefined) {
-      tx.nonce = await this.provider.getTransactionCount(address);
-    }
+  /**
+   * Simulate a single transaction without signing it
+   * @param tx - Transaction to simulate (e.g. from tradeRPC.buildTradeOpenTx)
+   * @param options - Sender, block and balance/allowance overrides
+   * @returns Simulation result
+   */
+  async simulateTransaction(
+    tx: TransactionRequest,
+    options: DryRunOptions = {}
+  ): Promise<SimulationResult> {
+    return await this.transactions.simulate(tx, await this.resolveDryRunOptions(options));
+  }
+
+  /**
+   * Start building a trade that is validated against the pair's limits
+   * @returns New trade builder
+   */
+  tradeBuilder(): TradeBuilder {
+    return new TradeBuilder(
+      this.provider,
+      this.getContract('Trading'),
+      this.getContract('TradingStorage'),
+      this.getContract('PairStorage'),
+      this.pairsCache,
+      this.hermesClient
+    );
+  }
+
+  /**
+   * Track an order from its transaction receipt to keeper execution or cancellation
+   * @param receipt - Receipt returned by openTrade / closeTradeMarket
+   * @param options - Polling options
+   * @returns Order handle emitting 'pending' then 'executed' | 'canceled' | 'timedOut'
+   */
+  trackOrder(receipt: TransactionReceipt, options?: TrackOrderOptions): OrderHandle {
+    return this.orderTracker.trackOrder(receipt, options);
+  }
 
-    if (!tx.gasLimit) {
-      tx.gasLimit = await this.provider.estimateGas(tx);
+  /**
+   * Stream PnL and liquidation risk of a trader's open trades
+   * @param trader - Trader address
+   * @param options - Risk thresholds and refresh options
+   * @returns Started position watcher
+   */
+  async watchPositions(trader: string, options?: PositionWatcherOptions): Promise<PositionWatcher> {
+    if (!this.feedClient) {
+      throw new Error('FeedClient required to watch positions');
     }
 
-    if (!tx.maxFeePerGas && !tx.gasPrice) {
-      const feeData = await this.provider.getFeeData();
-      if (feeData.maxFeePerGas) {
-        tx.maxFeePerGas = feeData.maxFeePerGas;
-        tx.maxPriorityFeePerGas = feeData.maxPriorityFeePerGas || feeData.maxFeePerGas;
-      } else {
-        tx.gasPrice = feeData.gasPrice || undefined;
-      }
+    const watcher = new PositionWatcher(
+      trader,
+      this.multicall,
+      this.events,
+      this.feedClient,
+      this.pairsCache,
+      options
+    );
+    await watcher.start();
+    return watcher;
+  }
+
+  /**
+   * Turn balance/allowance options into state overrides for the sender
+   */
+  private async resolveDryRunOptions(options: DryRunOptions): Promise<SimulateOptions> {
+    const { ethBalance, usdcBalance, usdcAllowance, ...simulateOptions } = options;
+    if (ethBalance === undefined && usdcBalance === undefined && usdcAllowance === undefined) {
+      return simulateOptions;
     }
 
-    // Sign the transaction
-    const signedTx = await this.signer.signTransaction(tx);
+    const from = options.from ?? (await this.signer?.getAddress());
+    if (!from) {
+      throw new Error('Sender required for simulation');
+    }
 
-    // Send the transaction
-    const txResponse = await this.provider.broadcastTransaction(signedTx);
+    const overrides: StateOverrides[] = [];
+    if (ethBalance !== undefined) {
+      overrides.push({ [from]: { balance: toBlockchain18(ethBalance) } });
+    }
+    if (usdcBalance !== undefined) {
+      overrides.push(await this.usdcOverrides.balance(from, toBlockchain6(usdcBalance)));
+    }
+    if (usdcAllowance !== undefined) {
+      overrides.push(
+        await this.usdcOverrides.allowance(
+          from,
+          this.network.contracts.Trading,
+          toBlockchain6(usdcAllowance)
+        )
+      );
+    }
 
-    // Wait for confirmation
-    return await txResponse.wait();
+    return {
+      ...simulateOptions,
+      from,
+      stateOverrides: mergeStateOverrides(...overrides, simulateOptions.stateOverrides ?? {}),
+    };
   }
 
   /**
@@ -362,6 +595,15 @@ export class TraderClient {
     return await this.provider.getTransactionCount(address);
   }
 
+  /**
+   * Check that the RPC endpoint is connected to the selected network
+   * Runs automatically before the client's first request.
+   * @throws Error if the provider reports a different chain ID
+   */
+  async verifyNetwork(): Promise<void> {
+    await this.provider.verifyNetwork();
+  }
+
   /**
    * Get chain ID
    * @returns Chain ID
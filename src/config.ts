@@ -14,6 +14,25 @@ export interface ContractAddresses {
   Referral: string;
 }
 
+/**
+ * Off-chain service endpoints used by the SDK
+ */
+export interface ApiEndpoints {
+  SOCKET_API: string;
+  PYTH_WS: string;
+  PYTH_HTTP: string;
+}
+
+/**
+ * Chain ID of Base mainnet
+ */
+export const BASE_MAINNET_CHAIN_ID = 8453;
+
+/**
+ * Chain ID used by local Anvil/Hardhat nodes
+ */
+export const LOCAL_CHAIN_ID = 31337;
+
 /**
  * Mainnet contract addresses for Avantis (Base Network)
  */
@@ -31,7 +50,7 @@ export const CONTRACTS: ContractAddresses = {
 /**
  * API endpoints for Avantis services
  */
-export const API_ENDPOINTS = {
+export const API_ENDPOINTS: ApiEndpoints = {
   SOCKET_API: 'https://socket-api-pub.avantisfi.com/socket-api/v1/data',
   PYTH_WS: 'wss://hermes.pyth.network/ws',
   PYTH_HTTP: 'https://hermes.pyth.network/v2/updates/price/latest',
@@ -45,6 +64,105 @@ export interface NetworkConfig {
   name: string;
   rpcUrl: string;
   contracts: ContractAddresses;
+  endpoints: ApiEndpoints;
+}
+
+/**
+ * Built-in network presets
+ * The mainnet preset shares the CONTRACTS and API_ENDPOINTS objects so that
+ * legacy setContractAddresses() calls keep affecting newly created clients.
+ * The local fork preset starts from copies of the mainnet addresses, so those
+ * calls leave it untouched.
+ */
+export const NETWORKS: Readonly<Record<string, NetworkConfig>> = {
+  BASE_MAINNET: {
+    chainId: BASE_MAINNET_CHAIN_ID,
+    name: 'base',
+    rpcUrl: 'https://mainnet.base.org',
+    contracts: CONTRACTS,
+    endpoints: API_ENDPOINTS,
+  },
+  LOCAL_FORK: {
+    chainId: LOCAL_CHAIN_ID,
+    name: 'local-fork',
+    rpcUrl: 'http://127.0.0.1:8545',
+    contracts: { ...CONTRACTS },
+    endpoints: { ...API_ENDPOINTS },
+  },
+};
+
+/**
+ * Registry of known networks keyed by chain ID
+ */
+const networkRegistry = new Map<number, NetworkConfig>(
+  Object.values(NETWORKS).map((network) => [network.chainId, network])
+);
+
+/**
+ * Register a network configuration (or replace an existing one)
+ * @param config - Network configuration
+ */
+export function registerNetwork(config: NetworkConfig): void {
+  if (!Number.isInteger(config.chainId) || config.chainId <= 0) {
+    throw new Error(`Invalid chainId for network ${config.name}: ${config.chainId}`);
+  }
+  networkRegistry.set(config.chainId, config);
+}
+
+/**
+ * Remove a network configuration from the registry
+ * @param chainId - Chain ID
+ * @returns True if a network was removed
+ */
+export function unregisterNetwork(chainId: number): boolean {
+  return networkRegistry.delete(chainId);
+}
+
+/**
+ * Get a registered network configuration
+ * @param chainId - Chain ID
+ * @returns Network configuration or undefined if not registered
+ */
+export function getNetworkConfig(chainId: number): NetworkConfig | undefined {
+  return networkRegistry.get(chainId);
+}
+
+/**
+ * Get all registered network configurations
+ * @returns Array of network configurations
+ */
+export function getRegisteredNetworks(): NetworkConfig[] {
+  return Array.from(networkRegistry.values());
+}
+
+/**
+ * Resolve a network selector into an independent copy of its configuration
+ * Mutating the returned object never affects the registry or other clients.
+ * @param network - Chain ID of a registered network or a full configuration
+ * @param overrides - Contract addresses / endpoints to override
+ * @returns Resolved network configuration
+ */
+export function resolveNetworkConfig(
+  network: number | NetworkConfig = BASE_MAINNET_CHAIN_ID,
+  overrides: {
+    contracts?: Partial<ContractAddresses>;
+    endpoints?: Partial<ApiEndpoints>;
+  } = {}
+): NetworkConfig {
+  const base = typeof network === 'number' ? getNetworkConfig(network) : network;
+  if (!base) {
+    throw new Error(
+      `Network with chainId ${network} is not registered. Use registerNetwork() first.`
+    );
+  }
+
+  return {
+    chainId: base.chainId,
+    name: base.name,
+    rpcUrl: base.rpcUrl,
+    contracts: { ...base.contracts, ...overrides.contracts },
+    endpoints: { ...base.endpoints, ...overrides.endpoints },
+  };
 }
 
 /**
@@ -56,6 +174,8 @@ export function getContractAddress(contractName: keyof ContractAddresses): strin
 
 /**
  * Update contract addresses (useful for testing or different networks)
+ * @deprecated Mutates the global mainnet preset. Register a network with
+ * registerNetwork() or pass overrides to the TraderClient instead.
  */
 export function setContractAddresses(addresses: Partial<ContractAddresses>): void {
   Object.assign(CONTRACTS, addresses);
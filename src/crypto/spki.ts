@@ -1,4 +1,7 @@
-import { keccak256, getBytes, concat, SigningKey } from 'ethers';
+import { keccak256, getBytes, concat, getAddress, toBeHex, SigningKey } from 'ethers';
+
+// secp256k1 curve order
+const SECP256K1_N = 0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141n;
 
 /**
  * Cryptographic utilities for KMS signature handling
@@ -12,16 +15,16 @@ import { keccak256, getBytes, concat, SigningKey } from 'ethers';
  * @returns Ethereum address
  */
 export function publicKeyIntToEthAddress(publicKeyX: bigint, publicKeyY: bigint): string {
-  // Concatenate 0x04 (uncompressed key prefix) + x + y
+  // Concatenate x + y (the address hashes the key without the 0x04 prefix)
   const xBytes = publicKeyX.toString(16).padStart(64, '0');
   const yBytes = publicKeyY.toString(16).padStart(64, '0');
-  const publicKeyHex = '0x04' + xBytes + yBytes;
+  const publicKeyHex = '0x' + xBytes + yBytes;
 
   // Keccak256 hash
   const hash = keccak256(publicKeyHex);
 
   // Take last 20 bytes as address
-  return '0x' + hash.slice(-40);
+  return getAddress('0x' + hash.slice(-40));
 }
 
 /**
@@ -30,33 +33,24 @@ export function publicKeyIntToEthAddress(publicKeyX: bigint, publicKeyY: bigint)
  * @returns Ethereum address
  */
 export function derEncodedPublicKeyToEthAddress(derPublicKey: Uint8Array): string {
-  // Parse the DER structure to extract the public key
-  // DER structure for ECDSA public key (simplified parsing)
-
-  // Find the public key bytes (starts with 0x04 for uncompressed key)
-  let publicKeyStart = -1;
-  for (let i = 0; i < derPublicKey.length - 64; i++) {
-    if (derPublicKey[i] === 0x04) {
-      publicKeyStart = i;
-      break;
-    }
-  }
-
-  if (publicKeyStart === -1) {
+  // The SubjectPublicKeyInfo ends with the BIT STRING holding the uncompressed
+  // key: 0x04 + 32 bytes X + 32 bytes Y
+  const publicKeyStart = derPublicKey.length - 65;
+  if (publicKeyStart < 0 || derPublicKey[publicKeyStart] !== 0x04) {
     throw new Error('Could not find uncompressed public key in DER structure');
   }
 
-  // Extract 65 bytes: 0x04 + 32 bytes X + 32 bytes Y
-  const publicKeyBytes = derPublicKey.slice(publicKeyStart, publicKeyStart + 65);
+  // Extract X and Y (skip the 0x04 prefix)
+  const publicKeyBytes = derPublicKey.slice(publicKeyStart + 1);
 
   // Convert to hex
   const publicKeyHex = '0x' + Buffer.from(publicKeyBytes).toString('hex');
 
-  // Keccak256 hash (skip the 0x04 prefix)
+  // Keccak256 hash
   const hash = keccak256(publicKeyHex);
 
   // Take last 20 bytes as address
-  return '0x' + hash.slice(-40);
+  return getAddress('0x' + hash.slice(-40));
 }
 
 /**
@@ -92,7 +86,7 @@ export function getSigRS(derSignature: Uint8Array): { r: string; s: string } {
     rBytes = rBytes.slice(1);
   }
 
-  const r = '0x' + Buffer.from(rBytes).toString('hex');
+  const r = toBeHex(BigInt('0x' + Buffer.from(rBytes).toString('hex')), 32);
 
   // Read s
   if (derSignature[offset++] !== 0x02) {
@@ -107,7 +101,12 @@ export function getSigRS(derSignature: Uint8Array): { r: string; s: string } {
     sBytes = sBytes.slice(1);
   }
 
-  const s = '0x' + Buffer.from(sBytes).toString('hex');
+  // KMS may return a high s; Ethereum only accepts the low-s form (EIP-2)
+  let sValue = BigInt('0x' + Buffer.from(sBytes).toString('hex'));
+  if (sValue > SECP256K1_N / 2n) {
+    sValue = SECP256K1_N - sValue;
+  }
+  const s = toBeHex(sValue, 32);
 
   return { r, s };
 }
@@ -195,3 +194,46 @@ export function signatureToHex(r: string, s: string, v: number): string {
 
   return '0x' + rHex.padStart(64, '0') + sHex.padStart(64, '0') + vHex;
 }
+
+/**
+ * Convert a PEM-encoded public key to DER
+ * @param pem - PEM string (-----BEGIN PUBLIC KEY----- ...)
+ * @returns DER bytes
+ */
+export function pemToDer(pem: string): Uint8Array {
+  const base64 = pem
+    .replace(/-----(BEGIN|END) [A-Z ]+-----/g, '')
+    .replace(/\s+/g, '');
+
+  return new Uint8Array(Buffer.from(base64, 'base64'));
+}
+
+/**
+ * Convert a raw 64-byte (r || s) signature, as returned by PKCS#11 and JOSE
+ * APIs, to DER
+ * @param rawSignature - 32-byte r followed by 32-byte s
+ * @returns DER-encoded signature
+ */
+export function rawSignatureToDer(rawSignature: Uint8Array): Uint8Array {
+  if (rawSignature.length !== 64) {
+    throw new Error('Invalid raw signature: expected 64 bytes');
+  }
+
+  const encodeInteger = (bytes: Uint8Array): number[] => {
+    let value = Array.from(bytes);
+    // Strip leading zeros, then add one back if the high bit would make it negative
+    while (value.length > 1 && value[0] === 0x00) {
+      value = value.slice(1);
+    }
+    if (value[0] & 0x80) {
+      value = [0x00, ...value];
+    }
+    return [0x02, value.length, ...value];
+  };
+
+  const body = [
+    ...encodeInteger(rawSignature.slice(0, 32)),
+    ...encodeInteger(rawSignature.slice(32)),
+  ];
+  return new Uint8Array([0x30, body.length, ...body]);
+}
@@ -0,0 +1,127 @@
+import { ErrorFragment, Interface, InterfaceAbi, isCallException } from 'ethers';
+import {
+  ERC20__factory,
+  Multicall__factory,
+  PairInfos__factory,
+  PairStorage__factory,
+  PriceAggregator__factory,
+  Referral__factory,
+  TradingStorage__factory,
+  Trading__factory,
+} from '../typechain';
+
+/**
+ * Decoding of revert data returned by the Avantis contracts
+ * Custom errors are looked up in every bundled ABI; `Error(string)` and
+ * `Panic(uint256)` are decoded as Solidity emits them.
+ */
+
+/**
+ * A decoded revert
+ */
+export interface DecodedRevert {
+  /** Error name, e.g. 'Error', 'Panic', 'ERC20InsufficientAllowance' ('Unknown' if not in any ABI) */
+  name: string;
+  /** Error signature, e.g. 'Error(string)' (empty if unknown) */
+  signature: string;
+  /** Decoded error arguments */
+  args: unknown[];
+  /** Revert string, panic description or formatted custom error */
+  message: string;
+  /** Raw revert data */
+  data: string;
+}
+
+const PANIC_REASONS: Record<number, string> = {
+  0x01: 'assertion failed',
+  0x11: 'arithmetic overflow or underflow',
+  0x12: 'division or modulo by zero',
+  0x21: 'invalid enum value',
+  0x22: 'invalid storage byte array',
+  0x31: 'pop from empty array',
+  0x32: 'array index out of bounds',
+  0x41: 'out of memory',
+  0x51: 'call to an uninitialized function',
+};
+
+const BUNDLED_ABIS: InterfaceAbi[] = [
+  Trading__factory.abi,
+  TradingStorage__factory.abi,
+  PairStorage__factory.abi,
+  PairInfos__factory.abi,
+  PriceAggregator__factory.abi,
+  Referral__factory.abi,
+  ERC20__factory.abi,
+  Multicall__factory.abi,
+];
+
+const errorInterface = buildErrorInterface(BUNDLED_ABIS);
+
+/**
+ * Decode revert data
+ * @param data - Revert data returned by eth_call / estimateGas
+ * @returns Decoded revert
+ */
+export function decodeRevertData(data: string | null | undefined): DecodedRevert {
+  const revertData = data ?? '0x';
+  if (revertData === '0x') {
+    return { name: 'Unknown', signature: '', args: [], message: 'execution reverted', data: '0x' };
+  }
+
+  let error = null;
+  try {
+    error = errorInterface.parseError(revertData);
+  } catch {
+    // Selector matched but the arguments do not decode
+  }
+  if (!error) {
+    return {
+      name: 'Unknown',
+      signature: '',
+      args: [],
+      message: `execution reverted (unknown error ${revertData.slice(0, 10)})`,
+      data: revertData,
+    };
+  }
+
+  const args = Array.from(error.args);
+  let message: string;
+  if (error.name === 'Error') {
+    message = String(args[0]);
+  } else if (error.name === 'Panic') {
+    const code = Number(args[0]);
+    message = `panic: ${PANIC_REASONS[code] ?? `code 0x${code.toString(16)}`}`;
+  } else {
+    message = `${error.name}(${args.map(String).join(', ')})`;
+  }
+
+  return { name: error.name, signature: error.signature, args, message, data: revertData };
+}
+
+/**
+ * Get the revert data carried by an ethers error
+ * @param error - Error thrown by a call, gas estimate or JSON-RPC request
+ * @returns Revert data ('0x' if the node returned none), or undefined if the error is not a revert
+ */
+export function getRevertData(error: unknown): string | undefined {
+  if (!isCallException(error)) {
+    return undefined;
+  }
+  return error.data ?? '0x';
+}
+
+function buildErrorInterface(abis: InterfaceAbi[]): Interface {
+  const fragments = new Map<string, ErrorFragment>([
+    ['Error(string)', ErrorFragment.from('error Error(string)')],
+    ['Panic(uint256)', ErrorFragment.from('error Panic(uint256)')],
+  ]);
+
+  // The same error (e.g. Unauthorized()) may be declared by several contracts
+  for (const abi of abis) {
+    new Interface(abi).forEachError((fragment) => {
+      fragments.set(fragment.format('sighash'), fragment);
+    });
+  }
+
+  return new Interface(Array.from(fragments.values()));
+}
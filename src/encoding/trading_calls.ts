@@ -0,0 +1,313 @@
+import {
+  Trade,
+  TradeInput,
+  TradeInputOrderType,
+  MarginUpdateType,
+  toBlockchain6,
+  toBlockchain10,
+  fromBlockchain6,
+  fromBlockchain10,
+} from '../types';
+import { Trading__factory } from '../typechain';
+
+/**
+ * Canonical encoding of Trading contract calls
+ * Every module that builds Trading calldata goes through this file, so order
+ * type semantics and unit conversions live in one place. The interface is
+ * derived from the Trading ABI; amounts are in human units (USDC, prices,
+ * percentages) and converted to contract precision here.
+ */
+
+const tradingInterface = Trading__factory.createInterface();
+
+/** `_type` values accepted by Trading.openTrade */
+export const ORDER_TYPE_VALUES: Readonly<Record<TradeInputOrderType, number>> = {
+  [TradeInputOrderType.MARKET]: 0,
+  [TradeInputOrderType.STOP_LIMIT]: 1,
+  [TradeInputOrderType.LIMIT]: 2,
+  [TradeInputOrderType.MARKET_ZERO_FEE]: 3,
+};
+
+/**
+ * Trade struct passed to openTrade (timestamp defaults to 0; the contract
+ * sets it when the order is stored)
+ */
+export type OpenTradeStruct = Omit<Trade, 'timestamp'> & { timestamp?: number };
+
+/**
+ * A Trading contract call in human units, discriminated by function name
+ */
+export type TradingCall =
+  | {
+      name: 'openTrade';
+      trade: OpenTradeStruct;
+      orderType: TradeInputOrderType;
+      /** Slippage percentage (e.g., 1 for 1%) */
+      slippageP: number;
+    }
+  | {
+      name: 'closeTradeMarket';
+      pairIndex: number;
+      index: number;
+      /** Collateral to close (USDC) */
+      amount: number;
+    }
+  | {
+      name: 'updateMargin';
+      pairIndex: number;
+      index: number;
+      updateType: MarginUpdateType;
+      /** Margin delta (USDC) */
+      amount: number;
+      priceUpdateData: string[];
+    }
+  | {
+      name: 'updateTpAndSl';
+      pairIndex: number;
+      index: number;
+      sl: number;
+      tp: number;
+      priceUpdateData: string[];
+    }
+  | {
+      name: 'updateOpenLimitOrder';
+      pairIndex: number;
+      index: number;
+      price: number;
+      slippageP: number;
+      tp: number;
+      sl: number;
+    }
+  | {
+      name: 'cancelOpenLimitOrder';
+      pairIndex: number;
+      index: number;
+    }
+  | {
+      name: 'setDelegate';
+      delegate: string;
+    }
+  | {
+      name: 'removeDelegate';
+    }
+  | {
+      name: 'delegatedAction';
+      trader: string;
+      /** Encoded inner Trading call */
+      callData: string;
+    };
+
+export type TradingCallName = TradingCall['name'];
+
+/**
+ * Convert an order type to its openTrade `_type` value
+ * @param orderType - Order type
+ * @returns Contract order type value
+ */
+export function toOrderTypeValue(orderType: TradeInputOrderType): number {
+  const value = ORDER_TYPE_VALUES[orderType];
+  if (value === undefined) {
+    throw new Error(`Unknown order type: ${orderType}`);
+  }
+  return value;
+}
+
+/**
+ * Convert an openTrade `_type` value back to its order type
+ * @param value - Contract order type value
+ * @returns Order type
+ */
+export function fromOrderTypeValue(value: number | bigint): TradeInputOrderType {
+  const orderType = (Object.keys(ORDER_TYPE_VALUES) as TradeInputOrderType[]).find(
+    (key) => ORDER_TYPE_VALUES[key] === Number(value)
+  );
+  if (orderType === undefined) {
+    throw new Error(`Unknown order type value: ${value}`);
+  }
+  return orderType;
+}
+
+/**
+ * Build the openTrade struct for a new trade from a trade input
+ * The contract expects the collateral (not collateral × leverage) in
+ * positionSizeUSDC and applies the leverage itself.
+ * @param tradeInput - Trade input parameters
+ * @param pairIndex - Resolved pair index
+ * @param trader - Trader address (the sender of the transaction)
+ * @returns Trade struct in human units
+ */
+export function tradeFromInput(
+  tradeInput: TradeInput,
+  pairIndex: number,
+  trader: string
+): OpenTradeStruct {
+  return {
+    trader,
+    pairIndex,
+    index: 0,
+    initialPosToken: 0,
+    positionSizeUSDC: tradeInput.collateralInTrade,
+    openPrice: tradeInput.openPrice,
+    buy: tradeInput.isLong,
+    leverage: tradeInput.leverage,
+    tp: tradeInput.tp,
+    sl: tradeInput.sl,
+  };
+}
+
+/**
+ * Encode a Trading contract call
+ * @param call - Call in human units
+ * @returns ABI-encoded calldata
+ */
+export function encodeTradingCall(call: TradingCall): string {
+  switch (call.name) {
+    case 'openTrade':
+      return tradingInterface.encodeFunctionData('openTrade', [
+        {
+          trader: call.trade.trader,
+          pairIndex: call.trade.pairIndex,
+          index: call.trade.index,
+          initialPosToken: toBlockchain6(call.trade.initialPosToken),
+          positionSizeUSDC: toBlockchain6(call.trade.positionSizeUSDC),
+          openPrice: toBlockchain10(call.trade.openPrice),
+          buy: call.trade.buy,
+          leverage: toBlockchain10(call.trade.leverage),
+          tp: toBlockchain10(call.trade.tp),
+          sl: toBlockchain10(call.trade.sl),
+          timestamp: call.trade.timestamp ?? 0,
+        },
+        toOrderTypeValue(call.orderType),
+        toBlockchain10(call.slippageP),
+      ]);
+    case 'closeTradeMarket':
+      return tradingInterface.encodeFunctionData('closeTradeMarket', [
+        call.pairIndex,
+        call.index,
+        toBlockchain6(call.amount),
+      ]);
+    case 'updateMargin':
+      return tradingInterface.encodeFunctionData('updateMargin', [
+        call.pairIndex,
+        call.index,
+        call.updateType,
+        toBlockchain6(call.amount),
+        call.priceUpdateData,
+      ]);
+    case 'updateTpAndSl':
+      return tradingInterface.encodeFunctionData('updateTpAndSl', [
+        call.pairIndex,
+        call.index,
+        toBlockchain10(call.sl),
+        toBlockchain10(call.tp),
+        call.priceUpdateData,
+      ]);
+    case 'updateOpenLimitOrder':
+      return tradingInterface.encodeFunctionData('updateOpenLimitOrder', [
+        call.pairIndex,
+        call.index,
+        toBlockchain10(call.price),
+        toBlockchain10(call.slippageP),
+        toBlockchain10(call.tp),
+        toBlockchain10(call.sl),
+      ]);
+    case 'cancelOpenLimitOrder':
+      return tradingInterface.encodeFunctionData('cancelOpenLimitOrder', [
+        call.pairIndex,
+        call.index,
+      ]);
+    case 'setDelegate':
+      return tradingInterface.encodeFunctionData('setDelegate', [call.delegate]);
+    case 'removeDelegate':
+      return tradingInterface.encodeFunctionData('removeDelegate');
+    case 'delegatedAction':
+      return tradingInterface.encodeFunctionData('delegatedAction', [call.trader, call.callData]);
+  }
+}
+
+/**
+ * Decode Trading contract calldata
+ * @param data - ABI-encoded calldata
+ * @returns Call in human units
+ * @throws Error if the data is not a supported Trading call
+ */
+export function decodeTradingCall(data: string): TradingCall {
+  const parsed = tradingInterface.parseTransaction({ data });
+  if (!parsed) {
+    throw new Error('Calldata does not match any Trading function');
+  }
+
+  const args = parsed.args;
+  switch (parsed.name) {
+    case 'openTrade': {
+      const trade = args[0];
+      return {
+        name: 'openTrade',
+        trade: {
+          trader: trade.trader,
+          pairIndex: Number(trade.pairIndex),
+          index: Number(trade.index),
+          initialPosToken: fromBlockchain6(trade.initialPosToken),
+          positionSizeUSDC: fromBlockchain6(trade.positionSizeUSDC),
+          openPrice: fromBlockchain10(trade.openPrice),
+          buy: trade.buy,
+          leverage: fromBlockchain10(trade.leverage),
+          tp: fromBlockchain10(trade.tp),
+          sl: fromBlockchain10(trade.sl),
+          timestamp: Number(trade.timestamp),
+        },
+        orderType: fromOrderTypeValue(args[1]),
+        slippageP: fromBlockchain10(args[2]),
+      };
+    }
+    case 'closeTradeMarket':
+      return {
+        name: 'closeTradeMarket',
+        pairIndex: Number(args[0]),
+        index: Number(args[1]),
+        amount: fromBlockchain6(args[2]),
+      };
+    case 'updateMargin':
+      return {
+        name: 'updateMargin',
+        pairIndex: Number(args[0]),
+        index: Number(args[1]),
+        updateType: Number(args[2]) as MarginUpdateType,
+        amount: fromBlockchain6(args[3]),
+        priceUpdateData: [...args[4]],
+      };
+    case 'updateTpAndSl':
+      return {
+        name: 'updateTpAndSl',
+        pairIndex: Number(args[0]),
+        index: Number(args[1]),
+        sl: fromBlockchain10(args[2]),
+        tp: fromBlockchain10(args[3]),
+        priceUpdateData: [...args[4]],
+      };
+    case 'updateOpenLimitOrder':
+      return {
+        name: 'updateOpenLimitOrder',
+        pairIndex: Number(args[0]),
+        index: Number(args[1]),
+        price: fromBlockchain10(args[2]),
+        slippageP: fromBlockchain10(args[3]),
+        tp: fromBlockchain10(args[4]),
+        sl: fromBlockchain10(args[5]),
+      };
+    case 'cancelOpenLimitOrder':
+      return {
+        name: 'cancelOpenLimitOrder',
+        pairIndex: Number(args[0]),
+        index: Number(args[1]),
+      };
+    case 'setDelegate':
+      return { name: 'setDelegate', delegate: args[0] };
+    case 'removeDelegate':
+      return { name: 'removeDelegate' };
+    case 'delegatedAction':
+      return { name: 'delegatedAction', trader: args[0], callData: args[1] };
+    default:
+      throw new Error(`Unsupported Trading call: ${parsed.name}`);
+  }
+}
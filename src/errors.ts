@@ -0,0 +1,158 @@
+import { DecodedRevert, decodeRevertData, getRevertData } from './encoding/revert_data';
+
+/**
+ * Base class of errors thrown by the SDK
+ * Errors caused by a contract revert carry the decoded revert.
+ */
+export class AvantisError extends Error {
+  /** Decoded revert, when the error comes from a contract */
+  readonly revert?: DecodedRevert;
+  /** Underlying error */
+  readonly cause?: unknown;
+
+  /**
+   * Create an SDK error
+   * @param message - Human-readable message
+   * @param revert - Decoded revert (for contract errors)
+   * @param cause - Underlying error
+   */
+  constructor(message: string, revert?: DecodedRevert, cause?: unknown) {
+    super(message);
+    this.name = new.target.name;
+    this.revert = revert;
+    this.cause = cause;
+  }
+}
+
+/** A contract revert that does not map to a more specific error */
+export class ContractRevertError extends AvantisError {}
+
+/** Leverage is outside the range allowed for the pair */
+export class MaxLeverageExceeded extends AvantisError {}
+
+/** The price moved beyond the allowed slippage or price impact */
+export class SlippageTooHigh extends AvantisError {}
+
+/** The Trading contract may not spend enough of the trader's USDC */
+export class InsufficientAllowance extends AvantisError {}
+
+/** The account does not hold enough tokens */
+export class InsufficientBalance extends AvantisError {}
+
+/** The pair is not listed (or was delisted) */
+export class PairNotListed extends AvantisError {}
+
+/** Trading is paused */
+export class Paused extends AvantisError {}
+
+/** The caller is not allowed to perform the action */
+export class Unauthorized extends AvantisError {}
+
+type AvantisErrorClass = new (
+  message: string,
+  revert?: DecodedRevert,
+  cause?: unknown
+) => AvantisError;
+
+interface RevertRule {
+  error: AvantisErrorClass;
+  description: string;
+  /** Custom error names */
+  errors: string[];
+  /** Pattern matched against revert strings */
+  reason: RegExp;
+}
+
+// Checked in order; the first matching rule wins
+const REVERT_RULES: RevertRule[] = [
+  {
+    error: InsufficientAllowance,
+    description: 'USDC allowance of the Trading contract is too low',
+    errors: ['ERC20InsufficientAllowance'],
+    reason: /allowance/i,
+  },
+  {
+    error: InsufficientBalance,
+    description: 'Insufficient token balance',
+    errors: ['ERC20InsufficientBalance'],
+    reason: /exceeds balance|insufficient.?balance/i,
+  },
+  {
+    error: Paused,
+    description: 'Trading is paused',
+    errors: [],
+    reason: /paused/i,
+  },
+  {
+    error: PairNotListed,
+    description: 'Pair is not listed',
+    errors: [],
+    reason: /not.?listed|delisted|invalid.?pair|wrong.?pair/i,
+  },
+  {
+    error: MaxLeverageExceeded,
+    description: 'Leverage is outside the range allowed for the pair',
+    errors: [],
+    reason: /leverage/i,
+  },
+  {
+    error: SlippageTooHigh,
+    description: 'Price moved beyond the allowed slippage',
+    errors: [],
+    reason: /slippage|price.?impact/i,
+  },
+  {
+    error: Unauthorized,
+    description: 'Caller is not authorized',
+    errors: ['Unauthorized', 'OwnableUnauthorizedAccount'],
+    reason: /unauthori[sz]ed|not.?(owner|gov|delegate|allowed)/i,
+  },
+];
+
+/**
+ * Map a decoded revert to a typed SDK error
+ * @param revert - Decoded revert
+ * @param cause - Underlying error
+ * @returns Typed error (ContractRevertError if no rule matches)
+ */
+export function revertToError(revert: DecodedRevert, cause?: unknown): AvantisError {
+  const rule = REVERT_RULES.find(
+    ({ errors, reason }) =>
+      errors.includes(revert.name) || (revert.name === 'Error' && reason.test(revert.message))
+  );
+  if (!rule) {
+    return new ContractRevertError(`Contract reverted: ${revert.message}`, revert, cause);
+  }
+
+  return new rule.error(`${rule.description} (${revert.message})`, revert, cause);
+}
+
+/**
+ * Turn an error thrown by a contract call, gas estimate or transaction into a typed SDK error
+ * Errors that are not reverts (network failures, SDK errors) are returned unchanged;
+ * thrown values that are not Errors are wrapped in an AvantisError.
+ * @param error - Caught error
+ * @returns Typed error, or the original error
+ */
+export function decodeContractError(error: unknown): Error {
+  if (error instanceof AvantisError) {
+    return error;
+  }
+
+  const data = getRevertData(error);
+  if (data === undefined) {
+    return error instanceof Error ? error : new AvantisError(String(error), undefined, error);
+  }
+
+  return revertToError(decodeRevertData(data), error);
+}
+
+/**
+ * Check whether a call reverted without any revert data
+ * Calls to functions a deployment does not have fail this way.
+ * @param error - Caught error, raw or already decoded
+ */
+export function isEmptyRevert(error: unknown): boolean {
+  const data = error instanceof AvantisError ? error.revert?.data : getRevertData(error);
+  return data === '0x';
+}
@@ -0,0 +1,292 @@
+import { EventEmitter } from 'events';
+import { FeedClient, PairPriceUpdate } from './feed_client';
+
+/**
+ * Supported candle intervals
+ */
+export type CandleInterval = '1s' | '1m' | '5m' | '1h';
+
+export const CANDLE_INTERVAL_SECONDS: Record<CandleInterval, number> = {
+  '1s': 1,
+  '1m': 60,
+  '5m': 300,
+  '1h': 3600,
+};
+
+/**
+ * OHLC bar built from Pyth ticks; volume is the number of ticks in the bar
+ */
+export interface Candle {
+  pair: string;
+  pairIndex: number;
+  interval: CandleInterval;
+  /** Bar start (unix seconds, inclusive) */
+  openTime: number;
+  /** Bar end (unix seconds, exclusive) */
+  closeTime: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+/**
+ * CandleAggregator options
+ */
+export interface CandleAggregatorOptions {
+  /** Intervals to build (default: ['1m']) */
+  intervals?: CandleInterval[];
+  /** Closed bars kept per pair and interval (default: 1000) */
+  maxBars?: number;
+  /**
+   * How often to close bars whose time has passed without a new tick, in
+   * milliseconds (default: 1000, 0 = only close when the next tick arrives)
+   */
+  closeCheckInterval?: number;
+}
+
+const CSV_COLUMNS: (keyof Candle)[] = [
+  'pair',
+  'pairIndex',
+  'interval',
+  'openTime',
+  'closeTime',
+  'open',
+  'high',
+  'low',
+  'close',
+  'volume',
+];
+
+/**
+ * Builds OHLC candles per pair from FeedClient price updates
+ *
+ * Emits 'bar' with the closed Candle whenever a bar closes.
+ */
+export class CandleAggregator extends EventEmitter {
+  private feedClient?: FeedClient;
+  private intervals: CandleInterval[];
+  private maxBars: number;
+  private closeCheckInterval: number;
+  private current: Map<string, Candle> = new Map();
+  private history: Map<string, Candle[]> = new Map();
+  private closedUntil: Map<string, number> = new Map();
+  private unsubscribes: Map<string, () => void> = new Map();
+  private closeTimer?: NodeJS.Timeout;
+
+  /**
+   * Create a CandleAggregator
+   * @param feedClient - Feed client to subscribe through (optional when ticks are fed with ingest())
+   * @param options - Aggregation options
+   */
+  constructor(feedClient?: FeedClient, options: CandleAggregatorOptions = {}) {
+    super();
+    this.feedClient = feedClient;
+    this.intervals = options.intervals ?? ['1m'];
+    this.maxBars = options.maxBars ?? 1000;
+    this.closeCheckInterval = options.closeCheckInterval ?? 1000;
+
+    for (const interval of this.intervals) {
+      if (!(interval in CANDLE_INTERVAL_SECONDS)) {
+        throw new Error(`Unsupported candle interval: ${interval}`);
+      }
+    }
+  }
+
+  /**
+   * Start building candles for a pair
+   * @param pair - Pair name (e.g., "ETH/USD")
+   */
+  async track(pair: string): Promise<void> {
+    if (this.unsubscribes.has(pair)) return;
+
+    const feedClient = this.requireFeedClient();
+    const unsubscribe = await feedClient.subscribePair(pair, (update) => this.ingest(update));
+    this.unsubscribes.set(pair, unsubscribe);
+    this.startCloseTimer();
+  }
+
+  /**
+   * Start building candles for every listed pair
+   */
+  async trackAll(): Promise<void> {
+    if (this.unsubscribes.has('*')) return;
+
+    const feedClient = this.requireFeedClient();
+    const unsubscribe = await feedClient.subscribeAllPairs((update) => this.ingest(update));
+    this.unsubscribes.set('*', unsubscribe);
+    this.startCloseTimer();
+  }
+
+  /**
+   * Stop building candles for a pair (history is kept)
+   * @param pair - Pair name
+   */
+  untrack(pair: string): void {
+    const unsubscribe = this.unsubscribes.get(pair);
+    if (unsubscribe) {
+      unsubscribe();
+      this.unsubscribes.delete(pair);
+    }
+    if (this.unsubscribes.size === 0) {
+      this.stopCloseTimer();
+    }
+  }
+
+  /**
+   * Unsubscribe from every pair and stop the close timer (history is kept)
+   */
+  detach(): void {
+    this.unsubscribes.forEach((unsubscribe) => unsubscribe());
+    this.unsubscribes.clear();
+    this.stopCloseTimer();
+  }
+
+  /**
+   * Add a price tick
+   * Ticks older than the current bar are dropped.
+   * @param update - Normalized pair price update
+   */
+  ingest(update: PairPriceUpdate): void {
+    for (const interval of this.intervals) {
+      const seconds = CANDLE_INTERVAL_SECONDS[interval];
+      const openTime = Math.floor(update.publishTime / seconds) * seconds;
+      const key = candleKey(update.pair, interval);
+      let candle = this.current.get(key);
+
+      if (candle && openTime >= candle.closeTime) {
+        this.closeBar(key, candle);
+        candle = undefined;
+      }
+      if (openTime < (candle?.openTime ?? this.closedUntil.get(key) ?? -Infinity)) {
+        continue;
+      }
+
+      if (!candle) {
+        this.current.set(key, {
+          pair: update.pair,
+          pairIndex: update.pairIndex,
+          interval,
+          openTime,
+          closeTime: openTime + seconds,
+          open: update.price,
+          high: update.price,
+          low: update.price,
+          close: update.price,
+          volume: 1,
+        });
+        continue;
+      }
+
+      candle.high = Math.max(candle.high, update.price);
+      candle.low = Math.min(candle.low, update.price);
+      candle.close = update.price;
+      candle.volume++;
+    }
+  }
+
+  /**
+   * Close every open bar whose interval has ended
+   * @param now - Current time in unix seconds (default: wall clock)
+   */
+  closeElapsed(now: number = Date.now() / 1000): void {
+    this.current.forEach((candle, key) => {
+      if (now >= candle.closeTime) {
+        this.closeBar(key, candle);
+      }
+    });
+  }
+
+  /**
+   * Get closed candles, oldest first
+   * @param pair - Pair name
+   * @param interval - Candle interval
+   * @param limit - Return only the most recent `limit` bars (none when 0 or less)
+   */
+  getCandles(pair: string, interval: CandleInterval, limit?: number): Candle[] {
+    const bars = this.history.get(candleKey(pair, interval)) ?? [];
+    if (limit !== undefined && limit <= 0) {
+      return [];
+    }
+    const recent = limit !== undefined ? bars.slice(-limit) : bars;
+    return recent.map((candle) => ({ ...candle }));
+  }
+
+  /**
+   * Get the bar currently being built
+   * @param pair - Pair name
+   * @param interval - Candle interval
+   */
+  getCurrentCandle(pair: string, interval: CandleInterval): Candle | undefined {
+    const candle = this.current.get(candleKey(pair, interval));
+    return candle ? { ...candle } : undefined;
+  }
+
+  /**
+   * Serialize closed candles to JSON
+   * @param pair - Pair name
+   * @param interval - Candle interval
+   */
+  toJSON(pair: string, interval: CandleInterval): string {
+    return JSON.stringify(this.getCandles(pair, interval));
+  }
+
+  /**
+   * Serialize closed candles to CSV with a header row
+   * @param pair - Pair name
+   * @param interval - Candle interval
+   */
+  toCSV(pair: string, interval: CandleInterval): string {
+    const rows = this.getCandles(pair, interval).map((candle) =>
+      CSV_COLUMNS.map((column) => String(candle[column])).join(',')
+    );
+    return [CSV_COLUMNS.join(','), ...rows].join('\n');
+  }
+
+  /**
+   * Drop all candles
+   */
+  clear(): void {
+    this.current.clear();
+    this.history.clear();
+    this.closedUntil.clear();
+  }
+
+  private closeBar(key: string, candle: Candle): void {
+    this.current.delete(key);
+    this.closedUntil.set(key, candle.closeTime);
+
+    const bars = this.history.get(key) ?? [];
+    bars.push(candle);
+    if (bars.length > this.maxBars) {
+      bars.splice(0, bars.length - this.maxBars);
+    }
+    this.history.set(key, bars);
+
+    this.emit('bar', { ...candle });
+  }
+
+  private requireFeedClient(): FeedClient {
+    if (!this.feedClient) {
+      throw new Error('CandleAggregator has no FeedClient; feed ticks with ingest()');
+    }
+    return this.feedClient;
+  }
+
+  private startCloseTimer(): void {
+    if (this.closeTimer || this.closeCheckInterval <= 0) return;
+    this.closeTimer = setInterval(() => this.closeElapsed(), this.closeCheckInterval);
+  }
+
+  private stopCloseTimer(): void {
+    if (this.closeTimer) {
+      clearInterval(this.closeTimer);
+      this.closeTimer = undefined;
+    }
+  }
+}
+
+function candleKey(pair: string, interval: CandleInterval): string {
+  return `${pair}|${interval}`;
+}
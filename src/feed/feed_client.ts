@@ -1,58 +1,182 @@
+import { EventEmitter } from 'events';
 import WebSocket from 'ws';
-import { PriceFeedResponse, PriceFeedResponseSchema } from '../types';
+import {
+  HermesPrice,
+  HermesPriceFeedSchema,
+  HermesPriceUpdate,
+  HermesPriceUpdateSchema,
+  Price,
+  PriceFeedResponse,
+} from '../types';
 import { API_ENDPOINTS } from '../config';
+import { PairNotListed } from '../errors';
+import type { PairsCache } from '../rpc/pairs_cache';
+import { fromPythPrice, normalizeFeedId } from './pyth';
 
 /**
  * Callback function type for price updates
  */
 export type PriceUpdateCallback = (priceData: PriceFeedResponse) => void;
 
+/**
+ * Price update for a trading pair, with Pyth price/expo normalized to decimals
+ */
+export interface PairPriceUpdate {
+  pair: string;
+  pairIndex: number;
+  price: number;
+  conf: number;
+  ema: number;
+  publishTime: number;
+}
+
+/**
+ * Callback function type for pair price updates
+ */
+export type PairPriceUpdateCallback = (update: PairPriceUpdate) => void;
+
+/**
+ * Reconnect policy: exponential backoff with jitter
+ */
+export interface ReconnectPolicy {
+  /** Delay before the first reconnect in milliseconds (default: 1000) */
+  initialDelay?: number;
+  /** Upper bound for the delay in milliseconds (default: 30000) */
+  maxDelay?: number;
+  /** Growth factor per attempt (default: 2) */
+  multiplier?: number;
+  /** Random spread as a fraction of the delay, 0-1 (default: 0.5) */
+  jitter?: number;
+  /** Give up after this many consecutive attempts (default: Infinity) */
+  maxAttempts?: number;
+}
+
+/**
+ * FeedClient connection options
+ */
+export interface FeedClientOptions {
+  reconnect?: ReconnectPolicy;
+  /** Ping interval in milliseconds; a missing pong drops the connection (default: 10000, 0 = off) */
+  heartbeatInterval?: number;
+  /** A feed is stale after this many milliseconds without an update (default: 10000, 0 = off) */
+  staleAfter?: number;
+  /** Reconnect when every subscribed feed is stale (default: false) */
+  reconnectOnStale?: boolean;
+}
+
+/**
+ * Payload of the 'disconnected' event
+ */
+export interface FeedDisconnectedEvent {
+  code: number;
+  reason: string;
+  /** Whether a reconnect will be attempted */
+  willReconnect: boolean;
+}
+
+/**
+ * Payload of the 'stale' and 'recovered' events
+ */
+export interface FeedStaleEvent {
+  feedId: string;
+  /** Time of the last update (ms since epoch), if any was received */
+  lastUpdate?: number;
+}
+
+interface FeedHealth {
+  lastUpdate?: number;
+  stale: boolean;
+}
+
 /**
  * WebSocket client for real-time price feeds from Pyth Network
+ *
+ * Reconnects with jittered exponential backoff, resubscribes every registered
+ * feed, detects dead connections with ping/pong and silent feeds with a
+ * staleness watchdog. Lifecycle events:
+ * - 'connected'
+ * - 'disconnected' (FeedDisconnectedEvent)
+ * - 'reconnecting' ({ attempt, delay })
+ * - 'stale' / 'recovered' (FeedStaleEvent)
+ * - 'error' (Error): socket, message, callback and reconnect failures; also
+ *   passed to the onError callback. Nothing is logged to the console.
  */
-export class FeedClient {
+export class FeedClient extends EventEmitter {
   private url: string;
+  private httpUrl: string;
   private ws?: WebSocket;
   private callbacks: Map<string, PriceUpdateCallback[]>;
   private onError?: (error: Error) => void;
   private onClose?: () => void;
   private pairFeedMap: Map<string, string>;
+  private pairsCache?: PairsCache;
+  private reconnectPolicy: Required<ReconnectPolicy>;
+  private heartbeatInterval: number;
+  private staleAfter: number;
+  private reconnectOnStale: boolean;
   private reconnectAttempts: number = 0;
-  private maxReconnectAttempts: number = 5;
-  private reconnectDelay: number = 1000;
+  private shouldReconnect: boolean = false;
+  private reconnectTimer?: NodeJS.Timeout;
+  private heartbeatTimer?: NodeJS.Timeout;
+  private watchdogTimer?: NodeJS.Timeout;
+  private awaitingPong: boolean = false;
+  private connectedAt?: number;
+  private feedHealth: Map<string, FeedHealth> = new Map();
 
   /**
    * Create a FeedClient instance
    * @param url - WebSocket URL (default: Pyth Hermes)
    * @param onError - Error callback
    * @param onClose - Close callback
+   * @param httpUrl - Hermes HTTP endpoint for latest price updates (default: Pyth Hermes)
+   * @param options - Reconnect, heartbeat and staleness options
    */
   constructor(
     url: string = API_ENDPOINTS.PYTH_WS,
     onError?: (error: Error) => void,
-    onClose?: () => void
+    onClose?: () => void,
+    httpUrl: string = API_ENDPOINTS.PYTH_HTTP,
+    options: FeedClientOptions = {}
   ) {
+    super();
     this.url = url;
+    this.httpUrl = httpUrl;
     this.callbacks = new Map();
     this.onError = onError;
     this.onClose = onClose;
     this.pairFeedMap = new Map();
+    this.reconnectPolicy = {
+      initialDelay: 1000,
+      maxDelay: 30000,
+      multiplier: 2,
+      jitter: 0.5,
+      maxAttempts: Infinity,
+      ...options.reconnect,
+    };
+    this.heartbeatInterval = options.heartbeatInterval ?? 10000;
+    this.staleAfter = options.staleAfter ?? 10000;
+    this.reconnectOnStale = options.reconnectOnStale ?? false;
   }
 
   /**
    * Register a callback for a specific price feed
+   * Subscribes immediately when already connected.
    * @param feedId - Pyth price feed ID
    * @param callback - Callback function to handle price updates
    */
   registerPriceFeedCallback(feedId: string, callback: PriceUpdateCallback): void {
     if (!this.callbacks.has(feedId)) {
       this.callbacks.set(feedId, []);
+      if (this.isConnected()) {
+        this.subscribeToPriceFeeds([feedId]);
+      }
     }
     this.callbacks.get(feedId)!.push(callback);
   }
 
   /**
    * Unregister a callback for a specific price feed
+   * Unsubscribes from the feed when its last callback is removed.
    * @param feedId - Pyth price feed ID
    * @param callback - Callback function to remove
    */
@@ -63,6 +187,11 @@ export class FeedClient {
       if (index > -1) {
         feedCallbacks.splice(index, 1);
       }
+      if (feedCallbacks.length === 0) {
+        this.callbacks.delete(feedId);
+        this.feedHealth.delete(normalizeFeedId(feedId));
+        this.unsubscribeFromPriceFeeds([feedId]);
+      }
     }
   }
 
@@ -84,29 +213,139 @@ export class FeedClient {
     return this.pairFeedMap.get(pairName);
   }
 
+  /**
+   * Set the pairs cache used to resolve pair names to on-chain feed IDs
+   * @param pairsCache - Pairs cache
+   */
+  setPairsCache(pairsCache: PairsCache): void {
+    this.pairsCache = pairsCache;
+  }
+
+  /**
+   * Subscribe to price updates for a trading pair
+   * The feed ID is read from PairStorage through the pairs cache.
+   * @param pair - Pair name (e.g., "ETH/USD")
+   * @param callback - Callback receiving normalized price updates
+   * @returns Function that removes the subscription
+   */
+  async subscribePair(pair: string, callback: PairPriceUpdateCallback): Promise<() => void> {
+    const feeds = await this.resolvePairFeeds();
+    const feed = feeds.find((candidate) => candidate.pair === pair);
+    if (!feed) {
+      throw new PairNotListed(`Pair ${pair} not found`);
+    }
+
+    return this.registerPairCallback(feed.pair, feed.pairIndex, feed.feedId, callback);
+  }
+
+  /**
+   * Subscribe to price updates for every listed pair
+   * @param callback - Callback receiving normalized price updates
+   * @returns Function that removes all subscriptions
+   */
+  async subscribeAllPairs(callback: PairPriceUpdateCallback): Promise<() => void> {
+    const feeds = await this.resolvePairFeeds();
+    const unsubscribes = feeds.map((feed) =>
+      this.registerPairCallback(feed.pair, feed.pairIndex, feed.feedId, callback)
+    );
+
+    return () => unsubscribes.forEach((unsubscribe) => unsubscribe());
+  }
+
+  private async resolvePairFeeds() {
+    if (!this.pairsCache) {
+      throw new Error('Pairs cache not set. Call setPairsCache() or use TraderClient.feedClient');
+    }
+
+    const feeds = await this.pairsCache.getPairFeeds();
+    for (const feed of feeds) {
+      if (!this.pairFeedMap.has(feed.pair)) {
+        this.pairFeedMap.set(feed.pair, feed.feedId);
+      }
+    }
+    return feeds;
+  }
+
+  private registerPairCallback(
+    pair: string,
+    pairIndex: number,
+    feedId: string,
+    callback: PairPriceUpdateCallback
+  ): () => void {
+    const priceCallback: PriceUpdateCallback = (priceData) => {
+      callback({
+        pair,
+        pairIndex,
+        price: fromPythPrice(priceData.price.price, priceData.price.expo),
+        conf: fromPythPrice(priceData.price.conf, priceData.price.expo),
+        ema: fromPythPrice(priceData.emaPrice.price, priceData.emaPrice.expo),
+        publishTime: priceData.price.publishTime,
+      });
+    };
+
+    this.registerPriceFeedCallback(feedId, priceCallback);
+    return () => this.unregisterPriceFeedCallback(feedId, priceCallback);
+  }
+
   /**
    * Connect to WebSocket and listen for price updates
+   * Once connected, keeps reconnecting according to the reconnect policy until
+   * close(). If the first connection fails, no reconnect is scheduled.
    * @returns Promise that resolves when connection is established
    */
   async listenForPriceUpdates(): Promise<void> {
+    this.shouldReconnect = false;
+    this.clearReconnectTimer();
+    return this.connect();
+  }
+
+  /**
+   * Whether a feed has gone without updates for longer than `staleAfter`
+   * @param feedId - Pyth price feed ID
+   */
+  isFeedStale(feedId: string): boolean {
+    return this.feedHealth.get(normalizeFeedId(feedId))?.stale ?? false;
+  }
+
+  /**
+   * Time of the last update received for a feed
+   * @param feedId - Pyth price feed ID
+   * @returns Milliseconds since epoch, or undefined if none was received
+   */
+  getLastUpdateTime(feedId: string): number | undefined {
+    return this.feedHealth.get(normalizeFeedId(feedId))?.lastUpdate;
+  }
+
+  private connect(): Promise<void> {
     return new Promise((resolve, reject) => {
       try {
-        this.ws = new WebSocket(this.url);
+        const ws = new WebSocket(this.url);
+        this.ws = ws;
 
-        this.ws.on('open', () => {
-          console.log('WebSocket connected to Pyth Network');
+        ws.on('open', () => {
+          this.shouldReconnect = true;
           this.reconnectAttempts = 0;
+          this.connectedAt = Date.now();
+          this.awaitingPong = false;
 
-          // Subscribe to all registered feeds
+          // Resubscribe to every registered feed
           const feedIds = Array.from(this.callbacks.keys());
           if (feedIds.length > 0) {
             this.subscribeToPriceFeeds(feedIds);
           }
 
+          this.startHeartbeat(ws);
+          this.startWatchdog();
+          this.emit('connected');
           resolve();
         });
 
-        this.ws.on('message', (data: WebSocket.Data) => {
+        ws.on('pong', () => {
+          this.awaitingPong = false;
+        });
+
+        ws.on('message', (data: WebSocket.Data) => {
+          this.awaitingPong = false;
           try {
             const message = JSON.parse(data.toString());
 
@@ -115,26 +354,40 @@ export class FeedClient {
               this.handlePriceUpdate(message);
             }
           } catch (error) {
-            console.error('Error parsing WebSocket message:', error);
+            this.reportError(error as Error);
           }
         });
 
-        this.ws.on('error', (error: Error) => {
-          console.error('WebSocket error:', error);
-          if (this.onError) {
-            this.onError(error);
-          }
+        ws.on('error', (error: Error) => {
+          this.reportError(error);
           reject(error);
         });
 
-        this.ws.on('close', () => {
-          console.log('WebSocket connection closed');
+        ws.on('close', (code: number, reason: Buffer) => {
+          if (this.ws !== ws) return;
+
+          this.ws = undefined;
+          this.stopTimers();
           if (this.onClose) {
             this.onClose();
           }
 
-          // Attempt to reconnect
-          this.attemptReconnect();
+          // Attempt to reconnect unless closed by the caller
+          const willReconnect =
+            this.shouldReconnect && this.reconnectAttempts < this.reconnectPolicy.maxAttempts;
+          this.emit('disconnected', {
+            code,
+            reason: reason.toString(),
+            willReconnect,
+          } satisfies FeedDisconnectedEvent);
+
+          if (willReconnect) {
+            this.attemptReconnect();
+          } else if (this.shouldReconnect) {
+            this.reportError(
+              new Error(`Gave up reconnecting after ${this.reconnectAttempts} attempts`)
+            );
+          }
         });
       } catch (error) {
         reject(error);
@@ -147,8 +400,8 @@ export class FeedClient {
    * @param feedIds - Array of feed IDs to subscribe to
    */
   private subscribeToPriceFeeds(feedIds: string[]): void {
+    // Registered feeds are subscribed when the connection opens
     if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
-      console.warn('WebSocket not connected, cannot subscribe');
       return;
     }
 
@@ -158,7 +411,6 @@ export class FeedClient {
     };
 
     this.ws.send(JSON.stringify(subscribeMessage));
-    console.log(`Subscribed to ${feedIds.length} price feeds`);
   }
 
   /**
@@ -180,48 +432,169 @@ export class FeedClient {
 
   /**
    * Handle incoming price update
+   * Hermes sends `{ type: 'price_update', price_feed: { id, price, ema_price } }`
+   * with snake_case fields and feed IDs without the 0x prefix.
    * @param message - Price update message
    */
-  private handlePriceUpdate(message: any): void {
+  private handlePriceUpdate(message: { price_feed?: unknown }): void {
     try {
-      // Validate and parse the price feed response
-      const priceFeed = PriceFeedResponseSchema.parse(message);
-
-      // Trigger callbacks for this feed
-      const callbacks = this.callbacks.get(priceFeed.id);
+      const feed = HermesPriceFeedSchema.parse(message.price_feed);
+      const priceFeed: PriceFeedResponse = {
+        id: feed.id,
+        price: this.toPrice(feed.price),
+        emaPrice: this.toPrice(feed.ema_price),
+      };
+
+      this.markFresh(priceFeed.id);
+
+      // Trigger callbacks for this feed (registered with or without 0x)
+      const callbacks =
+        this.callbacks.get(priceFeed.id) ??
+        this.callbacks.get(`0x${priceFeed.id}`) ??
+        this.callbacks.get(priceFeed.id.replace(/^0x/, ''));
       if (callbacks) {
         callbacks.forEach((callback) => {
           try {
             callback(priceFeed);
           } catch (error) {
-            console.error('Error in price update callback:', error);
+            this.reportError(error as Error);
           }
         });
       }
     } catch (error) {
-      console.error('Error processing price update:', error);
+      this.reportError(error as Error);
     }
   }
 
   /**
-   * Attempt to reconnect to WebSocket
+   * Map a Hermes price object to the Price shape
    */
-  private attemptReconnect(): void {
-    if (this.reconnectAttempts >= this.maxReconnectAttempts) {
-      console.error('Max reconnection attempts reached');
-      return;
+  private toPrice(price: HermesPrice): Price {
+    return {
+      price: price.price,
+      conf: price.conf,
+      expo: price.expo,
+      publishTime: price.publish_time,
+    };
+  }
+
+  /**
+   * Pass an error to the onError callback and 'error' listeners
+   * Without 'error' listeners the event is skipped: emitting it would throw
+   * from a socket or timer callback and crash the process.
+   */
+  private reportError(error: Error): void {
+    this.onError?.(error);
+    if (this.listenerCount('error') > 0) {
+      this.emit('error', error);
     }
+  }
+
+  /**
+   * Record an update and clear the feed's stale flag
+   */
+  private markFresh(feedId: string): void {
+    const id = normalizeFeedId(feedId);
+    const health = this.feedHealth.get(id) ?? { stale: false };
+    health.lastUpdate = Date.now();
+    this.feedHealth.set(id, health);
+
+    if (health.stale) {
+      health.stale = false;
+      this.emit('recovered', { feedId, lastUpdate: health.lastUpdate } satisfies FeedStaleEvent);
+    }
+  }
 
+  /**
+   * Schedule a reconnect with jittered exponential backoff
+   */
+  private attemptReconnect(): void {
     this.reconnectAttempts++;
-    const delay = this.reconnectDelay * Math.pow(2, this.reconnectAttempts - 1);
+    const { initialDelay, maxDelay, multiplier, jitter } = this.reconnectPolicy;
+    const base = Math.min(maxDelay, initialDelay * Math.pow(multiplier, this.reconnectAttempts - 1));
+    const delay = Math.max(0, Math.round(base * (1 + jitter * (2 * Math.random() - 1))));
+
+    this.emit('reconnecting', { attempt: this.reconnectAttempts, delay });
+
+    this.clearReconnectTimer();
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = undefined;
+      if (!this.shouldReconnect) return;
+      // Socket errors are reported by the 'error' handler; 'close' schedules the next attempt
+      this.connect().catch(() => undefined);
+    }, delay);
+  }
+
+  /**
+   * Ping the server; terminate the socket if the previous ping went unanswered
+   */
+  private startHeartbeat(ws: WebSocket): void {
+    if (this.heartbeatInterval <= 0) return;
+
+    this.heartbeatTimer = setInterval(() => {
+      if (this.awaitingPong) {
+        this.reportError(new Error('WebSocket heartbeat timed out, reconnecting'));
+        ws.terminate();
+        return;
+      }
+      this.awaitingPong = true;
+      ws.ping();
+    }, this.heartbeatInterval);
+  }
 
-    console.log(`Attempting to reconnect in ${delay}ms (attempt ${this.reconnectAttempts})`);
+  /**
+   * Flag subscribed feeds that have gone quiet
+   */
+  private startWatchdog(): void {
+    if (this.staleAfter <= 0) return;
 
-    setTimeout(() => {
-      this.listenForPriceUpdates().catch((error) => {
-        console.error('Reconnection failed:', error);
-      });
-    }, delay);
+    const checkInterval = Math.max(50, Math.min(1000, this.staleAfter / 2));
+    this.watchdogTimer = setInterval(() => this.checkStaleFeeds(), checkInterval);
+  }
+
+  private checkStaleFeeds(): void {
+    const now = Date.now();
+    const feedIds = Array.from(this.callbacks.keys());
+    if (feedIds.length === 0) return;
+
+    let staleCount = 0;
+    for (const feedId of feedIds) {
+      const id = normalizeFeedId(feedId);
+      const health = this.feedHealth.get(id) ?? { stale: false };
+      this.feedHealth.set(id, health);
+
+      const since = health.lastUpdate ?? this.connectedAt ?? now;
+      if (now - since > this.staleAfter) {
+        staleCount++;
+        if (!health.stale) {
+          health.stale = true;
+          this.emit('stale', { feedId, lastUpdate: health.lastUpdate } satisfies FeedStaleEvent);
+        }
+      }
+    }
+
+    // Every feed has emitted 'stale'; the reconnect emits 'disconnected' and 'reconnecting'
+    if (this.reconnectOnStale && staleCount === feedIds.length && this.ws) {
+      this.ws.terminate();
+    }
+  }
+
+  private stopTimers(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = undefined;
+    }
+    if (this.watchdogTimer) {
+      clearInterval(this.watchdogTimer);
+      this.watchdogTimer = undefined;
+    }
+  }
+
+  private clearReconnectTimer(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = undefined;
+    }
   }
 
   /**
@@ -229,25 +602,27 @@ export class FeedClient {
    * @param feedIds - Array of feed IDs
    * @returns Promise with price data
    */
-  async getLatestPriceUpdates(feedIds: string[]): Promise<any> {
-    const url = `${API_ENDPOINTS.PYTH_HTTP}?ids[]=${feedIds.join('&ids[]=')}`;
+  async getLatestPriceUpdates(feedIds: string[]): Promise<HermesPriceUpdate> {
+    const url = `${this.httpUrl}?ids[]=${feedIds.join('&ids[]=')}`;
 
     const response = await fetch(url);
     if (!response.ok) {
       throw new Error(`Failed to fetch prices: ${response.statusText}`);
     }
 
-    return await response.json();
+    return HermesPriceUpdateSchema.parse(await response.json());
   }
 
   /**
-   * Close the WebSocket connection
+   * Close the WebSocket connection and stop reconnecting
+   * 'disconnected' (with willReconnect false) and onClose follow once the
+   * socket has closed.
    */
   close(): void {
-    if (this.ws) {
-      this.ws.close();
-      this.ws = undefined;
-    }
+    this.shouldReconnect = false;
+    this.clearReconnectTimer();
+    this.stopTimers();
+    this.ws?.close();
   }
 
   /**
@@ -0,0 +1,16 @@
+/**
+ * Convert a Pyth fixed-point value (mantissa * 10^expo) to a decimal number
+ * @param value - Mantissa as sent by Hermes
+ * @param expo - Price exponent
+ */
+export function fromPythPrice(value: string, expo: number): number {
+  return Number(value) * Math.pow(10, expo);
+}
+
+/**
+ * Normalize a Pyth feed ID for lookups (lowercase, no 0x prefix)
+ * @param feedId - Feed ID with or without the 0x prefix
+ */
+export function normalizeFeedId(feedId: string): string {
+  return feedId.toLowerCase().replace(/^0x/, '');
+}
@@ -6,18 +6,40 @@
  */
 
 // Main client
-export { TraderClient } from './client';
+export { TraderClient, type TraderClientOptions, type DryRunOptions } from './client';
 
 // Signers
 export { BaseSigner } from './signers/base';
 export { LocalSigner } from './signers/local';
 export { KMSSigner } from './signers/kms';
+export { RemoteDigestSigner, resolveToken, type TokenSource } from './signers/remote';
+export { GcpKmsSigner, type GcpKmsSignerOptions } from './signers/gcp_kms';
+export { AzureKeyVaultSigner, type AzureKeyVaultSignerOptions } from './signers/azure_key_vault';
+export { VaultTransitSigner, type VaultTransitSignerOptions } from './signers/vault_transit';
+export { Pkcs11Signer, type Pkcs11Module, type Pkcs11SignerOptions } from './signers/pkcs11';
+export { EthersSignerAdapter, toEthersSigner } from './signers/ethers_adapter';
 
 // Feed client
-export { FeedClient, PriceUpdateCallback } from './feed/feed_client';
+export {
+  FeedClient,
+  type PriceUpdateCallback,
+  type PairPriceUpdate,
+  type PairPriceUpdateCallback,
+  type ReconnectPolicy,
+  type FeedClientOptions,
+  type FeedDisconnectedEvent,
+  type FeedStaleEvent,
+} from './feed/feed_client';
+export {
+  CandleAggregator,
+  CANDLE_INTERVAL_SECONDS,
+  type Candle,
+  type CandleInterval,
+  type CandleAggregatorOptions,
+} from './feed/candle_aggregator';
 
 // RPC modules
-export { PairsCache } from './rpc/pairs_cache';
+export { PairsCache, type PairFeed } from './rpc/pairs_cache';
 export { AssetParametersRPC } from './rpc/asset_parameters';
 export { CategoryParametersRPC } from './rpc/category_parameters';
 export { FeeParametersRPC } from './rpc/fee_parameters';
@@ -29,7 +51,148 @@ export { TradingOperationsRPC } from './rpc/trading_operations';
 export { DelegationRPC } from './rpc/delegation';
 export { PairInfoQueriesRPC } from './rpc/pair_info_queries';
 export { ReferralOperationsRPC } from './rpc/referral_operations';
-export { MulticallRPC, type MulticallCall, type MulticallResult } from './rpc/multicall';
+export {
+  MulticallRPC,
+  type MulticallCall,
+  type MulticallResult,
+  type AggregatedPosition,
+  type AggregatedLimitOrder,
+  type AccountPositions,
+  type AccountOverview,
+  type PendingMarketOrder,
+  type PairMargins,
+  type LongShortRatio,
+} from './rpc/multicall';
+export {
+  PortfolioRPC,
+  type Portfolio,
+  type PortfolioPosition,
+  type PortfolioTotals,
+} from './rpc/portfolio';
+export {
+  PositionWatcher,
+  type PositionState,
+  type PositionRiskEvent,
+  type PositionWatcherOptions,
+} from './rpc/position_watcher';
+export {
+  BatchingProvider,
+  MulticallBatcher,
+  type CallRunner,
+  type MulticallBatcherOptions,
+  type MulticallBatcherStats,
+} from './rpc/batching_provider';
+export { NetworkCheckedProvider } from './rpc/network_checked_provider';
+export {
+  UsdcApprovalManager,
+  type ApprovalMode,
+  type UsdcApprovalOptions,
+  type UsdcPermit,
+  type PermitTransactionResult,
+  type PreTradeIssue,
+  type PreTradeCheck,
+} from './rpc/usdc_approval';
+export { PositionAnalyticsRPC } from './rpc/position_analytics';
+export { PriceUpdateRPC, type PriceUpdate } from './rpc/price_updates';
+export {
+  TradeBuilder,
+  type TradeValidationCode,
+  type TradeValidationError,
+  type TradeValidationResult,
+} from './rpc/trade_builder';
+export { EventIndexer, type EventFilter, type FollowOptions } from './rpc/event_indexer';
+export {
+  OrderTracker,
+  OrderHandle,
+  type OrderStatus,
+  type OrderResult,
+  type TrackOrderOptions,
+} from './rpc/order_tracker';
+
+// Conditional orders
+export {
+  ConditionalOrderEngine,
+  type ConditionalOrderEngineOptions,
+} from './orders/conditional_orders';
+export { MemoryOrderStore, FileOrderStore, type ConditionalOrderStore } from './orders/order_store';
+export {
+  type ConditionalOrder,
+  type ConditionalOrderStatus,
+  type NewConditionalOrder,
+  type TrailingStopOrder,
+  type OcoOrder,
+  type TimeExitOrder,
+  type GoodTillTimeOrder,
+  type PriceTriggerOrder,
+  type PriceTriggerAction,
+} from './orders/types';
+
+// Trading call encoding
+export {
+  ORDER_TYPE_VALUES,
+  toOrderTypeValue,
+  fromOrderTypeValue,
+  tradeFromInput,
+  encodeTradingCall,
+  decodeTradingCall,
+  type TradingCall,
+  type TradingCallName,
+  type OpenTradeStruct,
+} from './encoding/trading_calls';
+export { decodeRevertData, getRevertData, type DecodedRevert } from './encoding/revert_data';
+
+// Errors
+export {
+  AvantisError,
+  ContractRevertError,
+  MaxLeverageExceeded,
+  SlippageTooHigh,
+  InsufficientAllowance,
+  InsufficientBalance,
+  PairNotListed,
+  Paused,
+  Unauthorized,
+  decodeContractError,
+  isEmptyRevert,
+  revertToError,
+} from './errors';
+
+// Typed contract bindings (generated by `npm run generate:types`)
+export * from './typechain';
+
+// Transactions
+export {
+  TransactionManager,
+  type PendingTransaction,
+  type TransactionManagerOptions,
+  type SimulateOptions,
+  type SimulationResult,
+} from './transactions/transaction_manager';
+
+// Simulation
+export {
+  LocalFeeEngine,
+  SKEW_FEE_UNMODELED,
+  type PairMarketState,
+  type LossProtectionConfig,
+  type FeeQuoteInput,
+  type FeeQuote,
+} from './simulation/fee_engine';
+export {
+  checkFeeParity,
+  fetchLossProtectionConfig,
+  fetchSkewFeePairs,
+  type FeeParityResult,
+  type FeeParityContracts,
+  type OnChainFeeValues,
+} from './simulation/fee_parity';
+export {
+  Erc20StateOverrides,
+  mergeStateOverrides,
+  toRpcStateOverrides,
+  type AccountOverride,
+  type StateOverrides,
+} from './simulation/state_overrides';
 
 // Types and enums
 export {
@@ -57,6 +220,21 @@ export {
   type OpenLimitOrder,
   type ReferralTier,
   type ReferralDiscount,
+  type PositionAnalytics,
+  type TradingEvent,
+  type TradingEventName,
+  type MarketOrderInitiatedEvent,
+  type LimitOrderInitiatedEvent,
+  type OpenLimitPlacedEvent,
+  type OpenLimitUpdatedEvent,
+  type OpenLimitCanceledEvent,
+  type MarginUpdatedEvent,
+  type TpUpdatedEvent,
+  type SlUpdatedEvent,
+  type FeesChargedEvent,
+  type TradeReferredEvent,
+  type OIUpdatedEvent,
+  TradingEventSchema,
   type ContractCallOptions,
   type TransactionReceipt,
   type PairsBackendReturn,
@@ -83,8 +261,17 @@ export {
 export {
   CONTRACTS,
   API_ENDPOINTS,
+  NETWORKS,
+  BASE_MAINNET_CHAIN_ID,
+  LOCAL_CHAIN_ID,
   type ContractAddresses,
+  type ApiEndpoints,
   type NetworkConfig,
+  registerNetwork,
+  unregisterNetwork,
+  getNetworkConfig,
+  getRegisteredNetworks,
+  resolveNetworkConfig,
   getContractAddress,
   setContractAddresses,
 } from './config';
@@ -111,4 +298,6 @@ export {
   getSigV,
   getSigRSV,
   signatureToHex,
+  pemToDer,
+  rawSignatureToDer,
 } from './crypto/spki';
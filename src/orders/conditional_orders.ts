@@ -0,0 +1,594 @@
+import { randomUUID } from 'crypto';
+import { EventEmitter } from 'events';
+import type { TraderClient } from '../client';
+import { FeedClient, PairPriceUpdate } from '../feed/feed_client';
+import { tradeFromInput } from '../encoding/trading_calls';
+import { PairNotListed } from '../errors';
+import { TradeInput } from '../types';
+import { ConditionalOrderStore, MemoryOrderStore } from './order_store';
+import {
+  ConditionalOrder,
+  ConditionalOrderStatus,
+  GoodTillTimeOrder,
+  NewConditionalOrder,
+  OcoOrder,
+  PriceTriggerOrder,
+  TrailingStopOrder,
+} from './types';
+
+/**
+ * ConditionalOrderEngine options
+ */
+export interface ConditionalOrderEngineOptions {
+  /** Where orders are persisted (default: in memory) */
+  store?: ConditionalOrderStore;
+  /** Interval for time exits, OCO checks and pending SL updates, in milliseconds (default: 5000) */
+  pollInterval?: number;
+  /** Minimum time between saves of trailing stop moves, in milliseconds (default: 1000) */
+  persistInterval?: number;
+}
+
+/**
+ * Trader and feed client the engine runs with, resolved once by load()
+ */
+interface EngineContext {
+  trader: string;
+  feedClient: FeedClient;
+}
+
+/**
+ * Conditional Order Engine
+ * Runs order types the protocol does not support natively (trailing stops,
+ * OCO, time exits, good-till-time and price triggers) against live Pyth prices,
+ * and executes them through the TraderClient when they fire.
+ *
+ * Orders are persisted after every change, so a restarted engine picks up
+ * where it stopped. Trailing stops ratchet the on-chain SL with updateTpAndSl
+ * once the TP/SL timelock allows it, so the trade stays protected while the
+ * engine is offline.
+ *
+ * Events:
+ * - 'triggered' (ConditionalOrder) after the order's action succeeded
+ * - 'updated' (ConditionalOrder) when a trailing stop moves or its SL is written on-chain
+ * - 'failed' (ConditionalOrder) when the order's action failed
+ * - 'canceled' (ConditionalOrder) when the order is canceled or its trade/limit order is gone
+ * - 'error' (Error) for polling and persistence failures, when a listener is
+ *   attached. Nothing is logged to the console.
+ */
+export class ConditionalOrderEngine extends EventEmitter {
+  private client: TraderClient;
+  private store: ConditionalOrderStore;
+  private pollInterval: number;
+  private persistInterval: number;
+  private orders: Map<string, ConditionalOrder> = new Map();
+  private prices: Map<number, number> = new Map();
+  private subscriptions: Map<number, () => void> = new Map();
+  private inFlight: Set<string> = new Set();
+  private syncing: Set<string> = new Set();
+  private pollTimer?: NodeJS.Timeout;
+  private persistTimer?: NodeJS.Timeout;
+  private polling?: Promise<void>;
+  private loading?: Promise<EngineContext>;
+  private timelock?: number;
+  private running = false;
+
+  /**
+   * Create a ConditionalOrderEngine
+   * @param client - Trader client with a signer and a feed client
+   * @param options - Store and polling options
+   */
+  constructor(client: TraderClient, options: ConditionalOrderEngineOptions = {}) {
+    super();
+    this.client = client;
+    this.store = options.store ?? new MemoryOrderStore();
+    this.pollInterval = options.pollInterval ?? 5000;
+    this.persistInterval = options.persistInterval ?? 1000;
+  }
+
+  /**
+   * Load stored orders, subscribe to their prices and start polling
+   * Connects the feed client if it is not connected yet.
+   */
+  async start(): Promise<void> {
+    if (this.running) return;
+
+    const { feedClient } = await this.load();
+    this.running = true;
+    await this.syncSubscriptions();
+
+    this.pollTimer = setInterval(
+      () => this.poll().catch((error) => this.reportError(error)),
+      this.pollInterval
+    );
+    if (!feedClient.isConnected()) {
+      await feedClient.listenForPriceUpdates();
+    }
+  }
+
+  /**
+   * Stop polling and unsubscribe from prices
+   * Active orders stay in the store; the feed client connection is left open.
+   */
+  stop(): void {
+    this.running = false;
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = undefined;
+    }
+    // Write trailing stop moves that are still waiting for the next save
+    if (this.persistTimer) {
+      this.persist();
+    }
+    this.subscriptions.forEach((unsubscribe) => unsubscribe());
+    this.subscriptions.clear();
+  }
+
+  /**
+   * Add a conditional order
+   * Trailing stops are checked against the open trade and start from its current SL.
+   * @param order - Order definition
+   * @returns Order ID
+   */
+  async add(order: NewConditionalOrder): Promise<string> {
+    const { trader } = await this.load();
+    validateOrder(order);
+
+    const created = {
+      ...order,
+      id: randomUUID(),
+      status: 'active',
+      createdAt: Date.now(),
+    } as ConditionalOrder;
+
+    if (created.kind === 'trailingStop') {
+      const trade = await this.client.tradingOps.getOpenTrade(
+        trader,
+        created.pairIndex,
+        created.tradeIndex
+      );
+      if (trade.leverage === 0) {
+        throw new Error(`Trade ${created.pairIndex}/${created.tradeIndex} not found`);
+      }
+      created.buy = trade.buy;
+      if (trade.sl > 0) {
+        created.stopPrice = trade.sl;
+        created.syncedStopPrice = trade.sl;
+      }
+    }
+
+    this.orders.set(created.id, created);
+    await this.persist();
+
+    if (this.running) {
+      await this.syncSubscriptions();
+      const price = this.prices.get(created.pairIndex);
+      if (price !== undefined) {
+        this.evaluate(created, price);
+      }
+    }
+    return created.id;
+  }
+
+  /**
+   * Cancel an active order
+   * Only stops the engine from acting on it; nothing is sent on-chain.
+   * @param id - Order ID
+   * @returns False if the order is unknown or no longer active
+   */
+  async cancel(id: string): Promise<boolean> {
+    await this.load();
+    const order = this.orders.get(id);
+    if (!order || order.status !== 'active') {
+      return false;
+    }
+
+    await this.complete(order, 'canceled');
+    return true;
+  }
+
+  /**
+   * Get an order by ID
+   * @param id - Order ID
+   */
+  get(id: string): ConditionalOrder | undefined {
+    const order = this.orders.get(id);
+    return order ? { ...order } : undefined;
+  }
+
+  /**
+   * List orders
+   * @param status - Only return orders with this status
+   */
+  list(status?: ConditionalOrderStatus): ConditionalOrder[] {
+    return Array.from(this.orders.values())
+      .filter((order) => status === undefined || order.status === status)
+      .map((order) => ({ ...order }));
+  }
+
+  /**
+   * Apply a price tick to trailing stops and price triggers on the pair
+   * @param pairIndex - Pair index
+   * @param price - Mark price
+   */
+  updatePrice(pairIndex: number, price: number): void {
+    this.prices.set(pairIndex, price);
+    this.orders.forEach((order) => {
+      if (order.status === 'active' && order.pairIndex === pairIndex) {
+        this.evaluate(order, price);
+      }
+    });
+  }
+
+  /**
+   * Run time exits, good-till-time cancels, OCO checks and pending SL updates now
+   * Concurrent calls share one run.
+   */
+  poll(): Promise<void> {
+    if (!this.polling) {
+      this.polling = this.runPoll().finally(() => {
+        this.polling = undefined;
+      });
+    }
+    return this.polling;
+  }
+
+  private async runPoll(): Promise<void> {
+    await this.load();
+    const now = Date.now();
+
+    for (const order of this.orders.values()) {
+      if (order.status !== 'active' || this.inFlight.has(order.id)) continue;
+
+      try {
+        switch (order.kind) {
+          case 'timeExit':
+            if (now >= order.at) {
+              await this.execute(order, () => this.closeTrade(order.pairIndex, order.tradeIndex));
+            }
+            break;
+          case 'goodTillTime':
+            if (now >= order.at) {
+              await this.expireLimitOrder(order);
+            }
+            break;
+          case 'oco':
+            await this.checkOco(order);
+            break;
+          case 'trailingStop':
+            await this.syncTrailingStop(order);
+            break;
+        }
+      } catch (error) {
+        this.reportError(error as Error);
+      }
+    }
+  }
+
+  private evaluate(order: ConditionalOrder, price: number): void {
+    if (this.inFlight.has(order.id)) return;
+
+    if (order.kind === 'trailingStop') {
+      this.evaluateTrailingStop(order, price);
+    } else if (order.kind === 'priceTrigger') {
+      this.evaluatePriceTrigger(order, price);
+    }
+  }
+
+  private evaluateTrailingStop(order: TrailingStopOrder, price: number): void {
+    const direction = order.buy === false ? -1 : 1;
+
+    if (order.stopPrice !== undefined && (price - order.stopPrice) * direction <= 0) {
+      if (order.closeOnTrigger ?? true) {
+        this.execute(order, () => this.closeTrade(order.pairIndex, order.tradeIndex)).catch(
+          (error) => this.reportError(error)
+        );
+      }
+      return;
+    }
+
+    const best =
+      order.bestPrice === undefined
+        ? price
+        : direction > 0
+        ? Math.max(order.bestPrice, price)
+        : Math.min(order.bestPrice, price);
+    const stop = best * (1 - (direction * order.trailP) / 100);
+    order.bestPrice = best;
+
+    // The stop only ever moves in the trade's favour
+    if (order.stopPrice === undefined || (stop - order.stopPrice) * direction > 0) {
+      order.stopPrice = stop;
+      this.emit('updated', { ...order });
+      this.schedulePersist();
+      this.syncTrailingStop(order).catch((error) => this.reportError(error));
+    }
+  }
+
+  private evaluatePriceTrigger(order: PriceTriggerOrder, price: number): void {
+    const crossed = order.when === 'above' ? price >= order.price : price <= order.price;
+    if (!crossed) return;
+
+    const { action } = order;
+    const run =
+      action.type === 'close'
+        ? () => this.closeTrade(order.pairIndex, action.tradeIndex)
+        : () => this.openTrade(action.tradeInput);
+
+    this.execute(order, run).catch((error) => this.reportError(error));
+  }
+
+  /**
+   * Write a trailing stop's current stop price as the trade's on-chain SL
+   * Skipped while the TP/SL timelock is running; the next poll retries. Uses its
+   * own lock so a pending SL update never holds back closing the trade.
+   */
+  private async syncTrailingStop(order: TrailingStopOrder): Promise<void> {
+    if (
+      order.stopPrice === undefined ||
+      order.status !== 'active' ||
+      this.inFlight.has(order.id) ||
+      this.syncing.has(order.id)
+    ) {
+      return;
+    }
+
+    this.syncing.add(order.id);
+    try {
+      const { tradingOps } = this.client;
+      const { trader } = await this.load();
+      const trade = await tradingOps.getOpenTrade(trader, order.pairIndex, order.tradeIndex);
+      // The stop may have been hit while the trade was read
+      if (order.status !== 'active' || this.inFlight.has(order.id)) return;
+      if (trade.leverage === 0) {
+        // Closed on-chain (SL/TP/liquidation) or by hand
+        await this.complete(order, 'canceled', 'Trade closed');
+        return;
+      }
+
+      const stop = order.stopPrice;
+      const minStep = (stop * (order.minStepP ?? 0.1)) / 100;
+      if (order.syncedStopPrice !== undefined && Math.abs(stop - order.syncedStopPrice) < minStep) {
+        return;
+      }
+
+      const [tradeInfo, blockNumber, timelock] = await Promise.all([
+        tradingOps.getOpenTradeInfo(trader, order.pairIndex, order.tradeIndex),
+        this.client.provider.getBlockNumber(),
+        this.getTimelock(),
+      ]);
+      const lastUpdated = Math.max(tradeInfo.tpLastUpdated, tradeInfo.slLastUpdated);
+      if (blockNumber - lastUpdated < timelock || this.inFlight.has(order.id)) {
+        return;
+      }
+
+      await tradingOps.updateTpAndSl(order.pairIndex, order.tradeIndex, stop, trade.tp);
+      order.syncedStopPrice = stop;
+      this.emit('updated', { ...order });
+      await this.persist();
+    } finally {
+      this.syncing.delete(order.id);
+    }
+  }
+
+  private async checkOco(order: OcoOrder): Promise<void> {
+    const { pairIndex, orderIndexes } = order;
+    const { trader } = await this.load();
+    const open = await Promise.all(
+      orderIndexes.map((index) => this.client.tradingOps.hasOpenLimitOrder(trader, pairIndex, index))
+    );
+
+    if (!open[0] && !open[1]) {
+      await this.complete(order, 'canceled', 'Both limit orders are gone');
+    } else if (open[0] !== open[1]) {
+      const remaining = open[0] ? orderIndexes[0] : orderIndexes[1];
+      await this.execute(order, () =>
+        this.client.tradingOps.cancelOpenLimitOrder(pairIndex, remaining)
+      );
+    }
+  }
+
+  private async expireLimitOrder(order: GoodTillTimeOrder): Promise<void> {
+    const { pairIndex, orderIndex } = order;
+    const { trader } = await this.load();
+    const open = await this.client.tradingOps.hasOpenLimitOrder(trader, pairIndex, orderIndex);
+
+    if (!open) {
+      await this.complete(order, 'canceled', 'Limit order is gone');
+      return;
+    }
+    await this.execute(order, () =>
+      this.client.tradingOps.cancelOpenLimitOrder(pairIndex, orderIndex)
+    );
+  }
+
+  /**
+   * Open a trade through tradingOps, which checks USDC and sends any permit first
+   */
+  private async openTrade(tradeInput: TradeInput) {
+    const { trader } = await this.load();
+    const pairIndex = await this.client.pairsCache.getPairIndex(tradeInput.pair);
+    if (pairIndex === undefined) {
+      throw new PairNotListed(`Pair ${tradeInput.pair} not found`);
+    }
+    return await this.client.tradingOps.openTrade(
+      tradeFromInput(tradeInput, pairIndex, trader),
+      tradeInput.orderType,
+      tradeInput.maxSlippageP
+    );
+  }
+
+  private async closeTrade(pairIndex: number, tradeIndex: number) {
+    const { tradingOps } = this.client;
+    const { trader } = await this.load();
+    const trade = await tradingOps.getOpenTrade(trader, pairIndex, tradeIndex);
+    if (trade.leverage === 0) {
+      throw new Error(`Trade ${pairIndex}/${tradeIndex} not found`);
+    }
+    return await tradingOps.closeTradeMarket(pairIndex, tradeIndex, trade.positionSizeUSDC);
+  }
+
+  /**
+   * Run an order's action once and record the outcome
+   */
+  private async execute(order: ConditionalOrder, action: () => Promise<unknown>): Promise<void> {
+    if (this.inFlight.has(order.id) || order.status !== 'active') return;
+
+    this.inFlight.add(order.id);
+    try {
+      await action();
+      await this.complete(order, 'triggered');
+    } catch (error) {
+      await this.complete(order, 'failed', (error as Error).message);
+    } finally {
+      this.inFlight.delete(order.id);
+    }
+  }
+
+  private async complete(
+    order: ConditionalOrder,
+    status: Exclude<ConditionalOrderStatus, 'active'>,
+    reason?: string
+  ): Promise<void> {
+    order.status = status;
+    order.completedAt = Date.now();
+    if (reason !== undefined) {
+      order.error = reason;
+    }
+
+    this.emit(status, { ...order });
+    await this.persist();
+    if (this.running) {
+      await this.syncSubscriptions();
+    }
+  }
+
+  /**
+   * Subscribe to pairs with price-driven orders and drop the rest
+   */
+  private async syncSubscriptions(): Promise<void> {
+    const { feedClient } = await this.load();
+    const pairIndexes = new Set(
+      Array.from(this.orders.values())
+        .filter(
+          (order) =>
+            order.status === 'active' &&
+            (order.kind === 'trailingStop' || order.kind === 'priceTrigger')
+        )
+        .map((order) => order.pairIndex)
+    );
+
+    for (const [pairIndex, unsubscribe] of this.subscriptions) {
+      if (!pairIndexes.has(pairIndex)) {
+        unsubscribe();
+        this.subscriptions.delete(pairIndex);
+        this.prices.delete(pairIndex);
+      }
+    }
+
+    for (const pairIndex of pairIndexes) {
+      if (this.subscriptions.has(pairIndex)) continue;
+
+      const pair = await this.client.pairsCache.getPairName(pairIndex);
+      if (!this.running) return;
+      if (!pair) {
+        this.reportError(new Error(`Pair ${pairIndex} not found`));
+        continue;
+      }
+      const unsubscribe = await feedClient.subscribePair(pair, (update: PairPriceUpdate) =>
+        this.updatePrice(update.pairIndex, update.price)
+      );
+      // stop() ran, or another sync subscribed the pair, while this one waited
+      if (!this.running || this.subscriptions.has(pairIndex)) {
+        unsubscribe();
+        continue;
+      }
+      this.subscriptions.set(pairIndex, unsubscribe);
+    }
+  }
+
+  /**
+   * Resolve the trader address and feed client and load stored orders (once)
+   */
+  private load(): Promise<EngineContext> {
+    if (!this.loading) {
+      this.loading = (async () => {
+        const { signer, feedClient } = this.client;
+        if (!signer) {
+          throw new Error('Signer required for conditional orders');
+        }
+        if (!feedClient) {
+          throw new Error('FeedClient required for conditional orders');
+        }
+        const trader = await signer.getAddress();
+        for (const order of await this.store.load()) {
+          this.orders.set(order.id, order);
+        }
+        return { trader, feedClient };
+      })();
+      this.loading.catch(() => {
+        this.loading = undefined;
+      });
+    }
+    return this.loading;
+  }
+
+  private async getTimelock(): Promise<number> {
+    if (this.timelock === undefined) {
+      this.timelock = await this.client.tradingOps.getLimitOrdersTimelock();
+    }
+    return this.timelock;
+  }
+
+  /**
+   * Save at most once per persistInterval; trailing stops move on every favourable tick
+   */
+  private schedulePersist(): void {
+    if (this.persistTimer) return;
+    this.persistTimer = setTimeout(() => this.persist(), this.persistInterval);
+  }
+
+  private async persist(): Promise<void> {
+    // Every save writes all orders, so it covers a scheduled one
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer);
+      this.persistTimer = undefined;
+    }
+    try {
+      await this.store.save(Array.from(this.orders.values()));
+    } catch (error) {
+      this.reportError(error as Error);
+    }
+  }
+
+  private reportError(error: Error): void {
+    if (this.listenerCount('error') > 0) {
+      this.emit('error', error);
+    }
+  }
+}
+
+function validateOrder(order: NewConditionalOrder): void {
+  switch (order.kind) {
+    case 'trailingStop':
+      if (!(order.trailP > 0 && order.trailP < 100)) {
+        throw new Error('trailP must be between 0 and 100');
+      }
+      break;
+    case 'oco':
+      if (order.orderIndexes[0] === order.orderIndexes[1]) {
+        throw new Error('OCO orders must be different');
+      }
+      break;
+    case 'priceTrigger':
+      if (!(order.price > 0)) {
+        throw new Error('Trigger price must be positive');
+      }
+      break;
+    case 'timeExit':
+    case 'goodTillTime':
+      if (!Number.isFinite(order.at)) {
+        throw new Error('Invalid time');
+      }
+      break;
+  }
+}
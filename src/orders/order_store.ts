@@ -0,0 +1,71 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { ConditionalOrder } from './types';
+
+/**
+ * Persistence for conditional orders
+ */
+export interface ConditionalOrderStore {
+  /** Load every stored order */
+  load(): Promise<ConditionalOrder[]>;
+  /** Replace the stored orders */
+  save(orders: ConditionalOrder[]): Promise<void>;
+}
+
+/**
+ * Keeps orders in memory only (lost on restart)
+ */
+export class MemoryOrderStore implements ConditionalOrderStore {
+  private orders: ConditionalOrder[] = [];
+
+  async load(): Promise<ConditionalOrder[]> {
+    return this.orders.map((order) => ({ ...order }));
+  }
+
+  async save(orders: ConditionalOrder[]): Promise<void> {
+    this.orders = orders.map((order) => ({ ...order }));
+  }
+}
+
+/**
+ * Keeps orders in a JSON file
+ * Writes go to a temporary file first and are renamed into place, so a crash
+ * never leaves a truncated file behind.
+ */
+export class FileOrderStore implements ConditionalOrderStore {
+  private writing: Promise<void> = Promise.resolve();
+
+  /**
+   * Create a FileOrderStore
+   * @param filePath - JSON file to read and write
+   */
+  constructor(private filePath: string) {}
+
+  async load(): Promise<ConditionalOrder[]> {
+    try {
+      const content = await fs.readFile(this.filePath, 'utf8');
+      return JSON.parse(content) as ConditionalOrder[];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  save(orders: ConditionalOrder[]): Promise<void> {
+    const content = JSON.stringify(orders, null, 2);
+
+    // Serialize writes so an older snapshot never overwrites a newer one
+    this.writing = this.writing
+      .catch(() => undefined)
+      .then(async () => {
+        const tmpPath = `${this.filePath}.tmp`;
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.writeFile(tmpPath, content, 'utf8');
+        await fs.rename(tmpPath, this.filePath);
+      });
+
+    return this.writing;
+  }
+}
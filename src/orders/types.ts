@@ -0,0 +1,111 @@
+import { TradeInput } from '../types';
+
+/**
+ * Lifecycle status of a conditional order
+ */
+export type ConditionalOrderStatus = 'active' | 'triggered' | 'failed' | 'canceled';
+
+interface ConditionalOrderBase {
+  id: string;
+  status: ConditionalOrderStatus;
+  /** Creation time (ms since epoch) */
+  createdAt: number;
+  /** Time the order left the active state */
+  completedAt?: number;
+  /** Failure reason */
+  error?: string;
+}
+
+/**
+ * Trailing stop on an open trade
+ * Ratchets the on-chain SL behind the best price seen, and optionally closes
+ * the trade at market if the price crosses the stop before the SL is updated.
+ */
+export interface TrailingStopOrder extends ConditionalOrderBase {
+  kind: 'trailingStop';
+  pairIndex: number;
+  tradeIndex: number;
+  /** Stop distance from the best price, in % */
+  trailP: number;
+  /** Minimum SL improvement in % before sending an update (default: 0.1) */
+  minStepP?: number;
+  /** Close at market when the price crosses the stop (default: true) */
+  closeOnTrigger?: boolean;
+  /** Trade direction, read from the trade when the order is added */
+  buy?: boolean;
+  /** Best price seen since the order was created */
+  bestPrice?: number;
+  /** Current stop price */
+  stopPrice?: number;
+  /** Last SL written on-chain by this order */
+  syncedStopPrice?: number;
+}
+
+/**
+ * One-cancels-other pair of open limit orders
+ * When either order leaves the book (filled or canceled), the other is canceled.
+ */
+export interface OcoOrder extends ConditionalOrderBase {
+  kind: 'oco';
+  pairIndex: number;
+  orderIndexes: [number, number];
+}
+
+/**
+ * Close an open trade at market at a given time
+ */
+export interface TimeExitOrder extends ConditionalOrderBase {
+  kind: 'timeExit';
+  pairIndex: number;
+  tradeIndex: number;
+  /** Close time (ms since epoch) */
+  at: number;
+}
+
+/**
+ * Cancel an open limit order at a given time (time in force)
+ */
+export interface GoodTillTimeOrder extends ConditionalOrderBase {
+  kind: 'goodTillTime';
+  pairIndex: number;
+  orderIndex: number;
+  /** Cancel time (ms since epoch) */
+  at: number;
+}
+
+/**
+ * Action of a price trigger
+ */
+export type PriceTriggerAction =
+  | { type: 'close'; tradeIndex: number }
+  | { type: 'open'; tradeInput: TradeInput };
+
+/**
+ * Run an action when the price crosses a level
+ */
+export interface PriceTriggerOrder extends ConditionalOrderBase {
+  kind: 'priceTrigger';
+  pairIndex: number;
+  when: 'above' | 'below';
+  price: number;
+  action: PriceTriggerAction;
+}
+
+/**
+ * Any conditional order
+ */
+export type ConditionalOrder =
+  | TrailingStopOrder
+  | OcoOrder
+  | TimeExitOrder
+  | GoodTillTimeOrder
+  | PriceTriggerOrder;
+
+/**
+ * Fields supplied when creating an order
+ */
+export type NewConditionalOrder = ConditionalOrder extends infer T
+  ? T extends ConditionalOrder
+    ? Omit<T, 'id' | 'status' | 'createdAt' | 'completedAt' | 'error'>
+    : never
+  : never;
@@ -1,4 +1,4 @@
-import { Contract, Provider } from 'ethers';
+import { Provider } from 'ethers';
 import {
   OpenInterest,
   OpenInterestLimits,
@@ -9,23 +9,25 @@ import {
   fromBlockchain10,
 } from '../types';
 import { PairsCache } from './pairs_cache';
+import { PairInfos, PairStorage, TradingStorage } from '../typechain';
+import { decodeContractError, isEmptyRevert, PairNotListed } from '../errors';
 
 /**
  * RPC module for retrieving asset-level parameters
  */
 export class AssetParametersRPC {
   private provider: Provider;
-  private pairStorageContract: Contract;
-  private pairInfosContract: Contract;
-  private tradingStorageContract: Contract;
+  private pairStorageContract: PairStorage;
+  private pairInfosContract: PairInfos;
+  private tradingStorageContract: TradingStorage;
   private pairsCache: PairsCache;
 
   constructor(
     provider: Provider,
-    pairStorageContract: Contract,
-    pairInfosContract: Contract,
+    pairStorageContract: PairStorage,
+    pairInfosContract: PairInfos,
     pairsCache: PairsCache,
-    tradingStorageContract: Contract
+    tradingStorageContract: TradingStorage
   ) {
     this.provider = provider;
     this.pairStorageContract = pairStorageContract;
@@ -60,30 +62,35 @@ export class AssetParametersRPC {
   async getOI(): Promise<Map<number, OpenInterest>> {
     const pairs = await this.pairsCache.getPairsInfo();
     const oi = new Map<number, OpenInterest>();
-
-    for (const [pairIndex] of pairs) {
-      try {
-        // Use TradingStorage contract which has openInterestUSDC method
-        const pairOILong = await this.tradingStorageContract.openInterestUSDC(pairIndex, 0); // 0 = long
-        const pairOIShort = await this.tradingStorageContract.openInterestUSDC(pairIndex, 1); // 1 = short
-
-        const limits = await this.getOILimits();
-        const maxOI = limits.get(pairIndex)?.maxLong || 0;
-
-        oi.set(pairIndex, {
-          long: fromBlockchain6(pairOILong),
-          short: fromBlockchain6(pairOIShort),
-          max: maxOI,
-        });
-      } catch (error) {
-        console.error(`Error getting OI for pair ${pairIndex}:`, error);
-        // Set default values on error
-        oi.set(pairIndex, {
-          long: 0,
-          short: 0,
-          max: 0,
-        });
-      }
+    const limits = await this.getOILimits();
+
+    // Query all pairs in parallel so the calls can be batched
+    const results = await Promise.all(
+      Array.from(pairs.keys()).map(async (pairIndex) => {
+        try {
+          // Use TradingStorage contract which has openInterestUSDC method
+          const [pairOILong, pairOIShort] = await Promise.all([
+            this.tradingStorageContract.openInterestUSDC(pairIndex, 0), // 0 = long
+            this.tradingStorageContract.openInterestUSDC(pairIndex, 1), // 1 = short
+          ]);
+          const maxOI = limits.get(pairIndex)?.maxLong || 0;
+
+          return {
+            pairIndex,
+            value: {
+              long: fromBlockchain6(pairOILong),
+              short: fromBlockchain6(pairOIShort),
+              max: maxOI,
+            },
+          };
+        } catch (error) {
+          throw decodeContractError(error);
+        }
+      })
+    );
+
+    for (const { pairIndex, value } of results) {
+      oi.set(pairIndex, value);
     }
 
     return oi;
@@ -141,15 +148,15 @@ export class AssetParametersRPC {
     pairIndex: number
   ): Promise<number> {
     try {
-      const result = await this.pairInfosContract.getPriceImpactP(
+      const result = await this.pairInfosContract.getPriceImpactSpread(
         pairIndex,
         isLong,
-        BigInt(Math.floor(positionSize * 1e6))
+        BigInt(Math.floor(positionSize * 1e6)),
+        false
       );
       return fromBlockchain10(result);
     } catch (error) {
-      console.error('Error getting price impact spread:', error);
-      return 0;
+      throw decodeContractError(error);
     }
   }
 
@@ -159,19 +166,14 @@ export class AssetParametersRPC {
    * @returns Skew impact spread
    */
   async getSkewImpactSpread(pairIndex: number): Promise<number> {
-    try {
-      const skewMap = await this.getAssetSkew();
-      const skew = skewMap.get(pairIndex);
+    const skewMap = await this.getAssetSkew();
+    const skew = skewMap.get(pairIndex);
 
-      if (!skew) return 0;
+    if (!skew) return 0;
 
-      // Simple skew impact calculation (can be customized)
-      const deviation = Math.abs(skew.skew - 0.5);
-      return deviation * 100; // Convert to basis points
-    } catch (error) {
-      console.error('Error getting skew impact spread:', error);
-      return 0;
-    }
+    // Simple skew impact calculation (can be customized)
+    const deviation = Math.abs(skew.skew - 0.5);
+    return deviation * 100; // Convert to basis points
   }
 
   /**
@@ -182,7 +184,7 @@ export class AssetParametersRPC {
   async getOpeningPriceImpactSpread(tradeInput: TradeInput): Promise<number> {
     const pairIndex = await this.pairsCache.getPairIndex(tradeInput.pair);
     if (pairIndex === undefined) {
-      throw new Error(`Pair ${tradeInput.pair} not found`);
+      throw new PairNotListed(`Pair ${tradeInput.pair} not found`);
     }
 
     const positionSize = tradeInput.collateralInTrade * tradeInput.leverage;
@@ -197,19 +199,30 @@ export class AssetParametersRPC {
     const pairs = await this.pairsCache.getPairsInfo();
     const depth = new Map<number, { above: number; below: number }>();
 
-    for (const [pairIndex] of pairs) {
-      try {
-        const depthAbove = await this.pairInfosContract.onePercentDepthAboveUsdc(pairIndex);
-        const depthBelow = await this.pairInfosContract.onePercentDepthBelowUsdc(pairIndex);
-
-        depth.set(pairIndex, {
-          above: fromBlockchain6(depthAbove),
-          below: fromBlockchain6(depthBelow),
-        });
-      } catch (error) {
-        // If method doesn't exist, set default values
-        depth.set(pairIndex, { above: 0, below: 0 });
-      }
+    const results = await Promise.all(
+      Array.from(pairs.keys()).map(async (pairIndex) => {
+        try {
+          const [depthAbove, depthBelow] = await Promise.all([
+            this.pairInfosContract.getOnePercentDepthAbove(pairIndex),
+            this.pairInfosContract.getOnePercentDepthBelow(pairIndex),
+          ]);
+
+          return {
+            pairIndex,
+            value: { above: fromBlockchain6(depthAbove), below: fromBlockchain6(depthBelow) },
+          };
+        } catch (error) {
+          // Deployments without depth data revert without a reason: report no depth
+          if (!isEmptyRevert(error)) {
+            throw decodeContractError(error);
+          }
+          return { pairIndex, value: { above: 0, below: 0 } };
+        }
+      })
+    );
+
+    for (const { pairIndex, value } of results) {
+      depth.set(pairIndex, value);
     }
 
     return depth;
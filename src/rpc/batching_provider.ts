@@ -0,0 +1,313 @@
+import {
+  BlockTag,
+  FetchRequest,
+  JsonRpcApiProviderOptions,
+  Networkish,
+  PerformActionRequest,
+  PerformActionTransaction,
+  Provider,
+  TransactionRequest,
+  getAddress,
+  isCallException,
+  makeError,
+} from 'ethers';
+import { Multicall__factory } from '../typechain';
+import { NetworkCheckedProvider } from './network_checked_provider';
+
+/**
+ * Limits used to split queued calls into aggregate3 batches
+ */
+export interface MulticallBatcherOptions {
+  /** Maximum calls per aggregate3 request (default: 200) */
+  maxCallsPerBatch?: number;
+  /** Maximum combined calldata per aggregate3 request in bytes (default: 100000) */
+  maxCalldataBytes?: number;
+  /** How long to wait for more calls before flushing, in milliseconds (default: 0, i.e. the next tick) */
+  batchWindow?: number;
+}
+
+/**
+ * Counters for the calls routed through a batcher
+ */
+export interface MulticallBatcherStats {
+  /** View calls queued */
+  calls: number;
+  /** aggregate3 requests sent */
+  batches: number;
+  /** Calls sent on their own (lone calls, or after a batch was refused) */
+  direct: number;
+}
+
+interface PendingCall {
+  target: string;
+  callData: string;
+  resolve: (data: string) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Anything that can execute an eth_call
+ */
+export type CallRunner = Pick<Provider, 'call'>;
+
+const multicallInterface = Multicall__factory.createInterface();
+
+/** Node errors that mean the batch itself was too large */
+const BATCH_REFUSED =
+  /out of gas|gas (cap|limit)|exceeds block gas|payload|too large|request entity|response size|413/i;
+
+/**
+ * Coalesces view calls made in the same tick into Multicall3 `aggregate3`
+ *
+ * Each call is sent with `allowFailure`, so a revert only rejects its own
+ * promise, with the revert data attached the same way a direct eth_call
+ * would. Batches are split by call count and calldata size; a batch the node
+ * refuses (e.g. over the eth_call gas cap) is halved and retried, and a single
+ * call that still fails is sent on its own. Any other error rejects every call
+ * in the batch.
+ */
+export class MulticallBatcher {
+  private runner: CallRunner;
+  private multicallAddress: string;
+  private maxCallsPerBatch: number;
+  private maxCalldataBytes: number;
+  private batchWindow: number;
+  private queue: PendingCall[] = [];
+  private flushTimer?: NodeJS.Timeout;
+  private stats: MulticallBatcherStats = { calls: 0, batches: 0, direct: 0 };
+
+  /**
+   * Create a MulticallBatcher
+   * @param runner - Provider used to send the aggregate3 calls
+   * @param multicallAddress - Multicall3-compatible contract address
+   * @param options - Batch limits
+   */
+  constructor(runner: CallRunner, multicallAddress: string, options: MulticallBatcherOptions = {}) {
+    this.runner = runner;
+    this.multicallAddress = getAddress(multicallAddress);
+    this.maxCallsPerBatch = options.maxCallsPerBatch ?? 200;
+    this.maxCalldataBytes = options.maxCalldataBytes ?? 100_000;
+    this.batchWindow = options.batchWindow ?? 0;
+  }
+
+  /**
+   * Multicall contract the batcher sends to
+   */
+  get address(): string {
+    return this.multicallAddress;
+  }
+
+  /**
+   * Queue a view call
+   * @param target - Contract address
+   * @param callData - ABI-encoded call data
+   * @returns Return data of the call
+   */
+  call(target: string, callData: string): Promise<string> {
+    this.stats.calls++;
+    return new Promise((resolve, reject) => {
+      this.queue.push({ target, callData, resolve, reject });
+      if (!this.flushTimer) {
+        this.flushTimer = setTimeout(() => this.flush(), this.batchWindow);
+      }
+    });
+  }
+
+  /**
+   * Send every queued call now
+   */
+  async flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = undefined;
+    }
+
+    const pending = this.queue;
+    this.queue = [];
+    await Promise.all(this.split(pending).map((batch) => this.execute(batch)));
+  }
+
+  /**
+   * Get call and batch counters
+   */
+  getStats(): MulticallBatcherStats {
+    return { ...this.stats };
+  }
+
+  private split(calls: PendingCall[]): PendingCall[][] {
+    const batches: PendingCall[][] = [];
+    let batch: PendingCall[] = [];
+    let batchBytes = 0;
+
+    for (const call of calls) {
+      const bytes = (call.callData.length - 2) / 2;
+      if (
+        batch.length > 0 &&
+        (batch.length >= this.maxCallsPerBatch || batchBytes + bytes > this.maxCalldataBytes)
+      ) {
+        batches.push(batch);
+        batch = [];
+        batchBytes = 0;
+      }
+      batch.push(call);
+      batchBytes += bytes;
+    }
+
+    if (batch.length > 0) {
+      batches.push(batch);
+    }
+    return batches;
+  }
+
+  private async execute(batch: PendingCall[]): Promise<void> {
+    if (batch.length === 1) {
+      return this.executeSingle(batch[0]);
+    }
+
+    let results: { success: boolean; returnData: string }[];
+    try {
+      this.stats.batches++;
+      const data = multicallInterface.encodeFunctionData('aggregate3', [
+        batch.map((call) => ({ target: call.target, allowFailure: true, callData: call.callData })),
+      ]);
+      const response = await this.runner.call({ to: this.multicallAddress, data });
+      [results] = multicallInterface.decodeFunctionResult('aggregate3', response);
+    } catch (error) {
+      // Transport failures (network, timeout, rate limit) fail the whole batch
+      if (!isBatchRefused(error)) {
+        batch.forEach((call) => call.reject(error));
+        return;
+      }
+      // The node refused the whole batch (gas cap, payload size); halve and retry
+      const middle = Math.ceil(batch.length / 2);
+      await Promise.all([this.execute(batch.slice(0, middle)), this.execute(batch.slice(middle))]);
+      return;
+    }
+
+    batch.forEach((call, index) => {
+      const { success, returnData } = results[index];
+      if (success) {
+        call.resolve(returnData);
+      } else {
+        call.reject(revertError(call, returnData));
+      }
+    });
+  }
+
+  private async executeSingle(call: PendingCall): Promise<void> {
+    this.stats.direct++;
+    try {
+      call.resolve(await this.runner.call({ to: call.target, data: call.callData }));
+    } catch (error) {
+      call.reject(error);
+    }
+  }
+}
+
+/**
+ * NetworkCheckedProvider that routes plain view calls through a MulticallBatcher
+ *
+ * Calls with a sender, value, gas settings or a historical block tag, and
+ * calls to the Multicall contract itself, are sent directly.
+ */
+export class BatchingProvider extends NetworkCheckedProvider {
+  public readonly batcher: MulticallBatcher;
+
+  /**
+   * Create a BatchingProvider
+   * @param url - RPC endpoint
+   * @param network - Expected network (chain ID, name or Network)
+   * @param multicallAddress - Multicall3-compatible contract address
+   * @param batchOptions - Batch limits
+   * @param options - JsonRpcProvider options
+   */
+  constructor(
+    url: string | FetchRequest,
+    network: Networkish,
+    multicallAddress: string,
+    batchOptions: MulticallBatcherOptions = {},
+    options?: JsonRpcApiProviderOptions
+  ) {
+    super(url, network, options);
+    this.batcher = new MulticallBatcher(
+      { call: (tx) => this.callDirect(tx) },
+      multicallAddress,
+      batchOptions
+    );
+  }
+
+  async _perform<T = any>(req: PerformActionRequest): Promise<T> {
+    if (req.method === 'call' && this.isBatchable(req.transaction, req.blockTag)) {
+      return (await this.batcher.call(req.transaction.to as string, req.transaction.data!)) as T;
+    }
+    return super._perform(req);
+  }
+
+  private async callDirect(tx: TransactionRequest): Promise<string> {
+    return super._perform({
+      method: 'call',
+      transaction: { to: tx.to as string, data: tx.data! },
+      blockTag: 'latest',
+    });
+  }
+
+  private isBatchable(tx: PerformActionTransaction, blockTag: BlockTag): boolean {
+    return (
+      blockTag === 'latest' &&
+      typeof tx.to === 'string' &&
+      typeof tx.data === 'string' &&
+      tx.data.length > 2 &&
+      getAddress(tx.to) !== this.batcher.address &&
+      tx.from == null &&
+      (tx.value == null || BigInt(tx.value) === 0n) &&
+      tx.gasLimit == null &&
+      tx.gasPrice == null &&
+      tx.maxFeePerGas == null
+    );
+  }
+}
+
+function revertError(call: PendingCall, data: string): Error {
+  return makeError('execution reverted', 'CALL_EXCEPTION', {
+    action: 'call',
+    data,
+    reason: null,
+    transaction: { to: call.target, data: call.callData },
+    invocation: null,
+    revert: null,
+  });
+}
+
+/**
+ * Whether an error means the node refused the batch rather than failed to answer
+ * aggregate3 only reverts as a whole when it runs out of gas, so a call
+ * exception counts as a refusal too.
+ */
+function isBatchRefused(error: unknown): boolean {
+  if (isCallException(error)) {
+    return true;
+  }
+
+  const messages: string[] = [];
+  let current: unknown = error;
+  for (let depth = 0; typeof current === 'object' && current !== null && depth < 4; depth++) {
+    if ('message' in current && typeof current.message === 'string') {
+      messages.push(current.message);
+    }
+    if ('shortMessage' in current && typeof current.shortMessage === 'string') {
+      messages.push(current.shortMessage);
+    }
+    current = nestedError(current);
+  }
+  return messages.some((message) => BATCH_REFUSED.test(message));
+}
+
+/**
+ * The error an ethers error wraps: the node's JSON-RPC error in `info.error`,
+ * or the provider's cause in `error`
+ */
+function nestedError(error: object): unknown {
+  const info = 'info' in error && typeof error.info === 'object' ? error.info : null;
+  const rpcError = info !== null && 'error' in info ? info.error : undefined;
+  return rpcError ?? ('error' in error ? error.error : undefined);
+}
@@ -1,4 +1,4 @@
-import { Contract, Provider } from 'ethers';
+import { Provider } from 'ethers';
 import { Utilization, Skew } from '../types';
 import { AssetParametersRPC } from './asset_parameters';
 import { CategoryParametersRPC } from './category_parameters';
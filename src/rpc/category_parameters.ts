@@ -1,18 +1,19 @@
-import { Contract, Provider } from 'ethers';
+import { Provider } from 'ethers';
 import { OpenInterest, Utilization, Skew, fromBlockchain6 } from '../types';
 import { PairsCache } from './pairs_cache';
+import { PairStorage } from '../typechain';
 
 /**
  * RPC module for retrieving category-level parameters
  */
 export class CategoryParametersRPC {
   private provider: Provider;
-  private pairStorageContract: Contract;
+  private pairStorageContract: PairStorage;
   private pairsCache: PairsCache;
 
   constructor(
     provider: Provider,
-    pairStorageContract: Contract,
+    pairStorageContract: PairStorage,
     pairsCache: PairsCache
   ) {
     this.provider = provider;
@@ -31,21 +32,17 @@ export class CategoryParametersRPC {
 
     // Get limits from pair backend data which includes group info
     for (const groupIndex of groupIndexes) {
-      try {
-        // Get first pair in this group to get group max OI
-        const pairsInGroup = await this.pairsCache.getPairsInGroup(groupIndex);
-        if (pairsInGroup.length > 0) {
-          const backendData = await this.pairsCache.getPairBackend(pairsInGroup[0]);
-          const maxOI = Number(backendData.group.maxOpenInterestP) / 1e10; // Convert from 10 decimals to number
-
-          limits.set(groupIndex, {
-            long: maxOI,
-            short: maxOI,
-            max: maxOI,
-          });
-        }
-      } catch (error) {
-        console.error(`Error getting OI limits for group ${groupIndex}:`, error);
+      // Get first pair in this group to get group max OI
+      const pairsInGroup = await this.pairsCache.getPairsInGroup(groupIndex);
+      if (pairsInGroup.length > 0) {
+        const backendData = await this.pairsCache.getPairBackend(pairsInGroup[0]);
+        const maxOI = Number(backendData.group.maxOpenInterestP) / 1e10; // Convert from 10 decimals to number
+
+        limits.set(groupIndex, {
+          long: maxOI,
+          short: maxOI,
+          max: maxOI,
+        });
       }
     }
 
@@ -63,25 +60,21 @@ export class CategoryParametersRPC {
     const limits = await this.getOILimits();
 
     for (const groupIndex of groupIndexes) {
-      try {
-        // Sum up OI from all pairs in this group
-        const pairsInGroup = await this.pairsCache.getPairsInGroup(groupIndex);
-        let totalLongOI = 0;
-        let totalShortOI = 0;
-
-        // This would require asset params to get individual pair OI
-        // For now, return default values
-        // TODO: Properly calculate by summing pair OIs
-        const maxOI = limits.get(groupIndex)?.max || 0;
-
-        oi.set(groupIndex, {
-          long: totalLongOI,
-          short: totalShortOI,
-          max: maxOI,
-        });
-      } catch (error) {
-        console.error(`Error getting OI for group ${groupIndex}:`, error);
-      }
+      // Sum up OI from all pairs in this group
+      const pairsInGroup = await this.pairsCache.getPairsInGroup(groupIndex);
+      let totalLongOI = 0;
+      let totalShortOI = 0;
+
+      // This would require asset params to get individual pair OI
+      // For now, return default values
+      // TODO: Properly calculate by summing pair OIs
+      const maxOI = limits.get(groupIndex)?.max || 0;
+
+      oi.set(groupIndex, {
+        long: totalLongOI,
+        short: totalShortOI,
+        max: maxOI,
+      });
     }
 
     return oi;
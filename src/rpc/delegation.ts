@@ -1,5 +1,8 @@
-import { Contract, TransactionReceipt, TransactionRequest } from 'ethers';
-import { BaseSigner } from '../signers/base';
+import { TransactionReceipt, TransactionRequest } from 'ethers';
+import { TransactionManager } from '../transactions/transaction_manager';
+import { Trading } from '../typechain';
+import { MarginUpdateType, TradeInputOrderType } from '../types';
+import { encodeTradingCall, OpenTradeStruct } from '../encoding/trading_calls';
 
 /**
  * Delegation RPC
@@ -8,8 +11,8 @@ import { BaseSigner } from '../signers/base';
  */
 export class DelegationRPC {
   constructor(
-    private tradingContract: Contract,
-    private signer?: BaseSigner
+    private tradingContract: Trading,
+    private transactions: TransactionManager
   ) {}
 
   /**
@@ -18,16 +21,16 @@ export class DelegationRPC {
    * @returns Transaction receipt
    */
   async setDelegate(delegate: string): Promise<TransactionReceipt | null> {
-    if (!this.signer) {
+    if (!this.transactions.hasSigner()) {
       throw new Error('Signer required for delegation operations');
     }
 
     const tx: TransactionRequest = {
       to: await this.tradingContract.getAddress(),
-      data: this.tradingContract.interface.encodeFunctionData('setDelegate', [delegate]),
+      data: encodeTradingCall({ name: 'setDelegate', delegate }),
     };
 
-    return await this.signAndSend(tx);
+    return await this.transactions.sendAndWait(tx);
   }
 
   /**
@@ -35,16 +38,16 @@ export class DelegationRPC {
    * @returns Transaction receipt
    */
   async removeDelegate(): Promise<TransactionReceipt | null> {
-    if (!this.signer) {
+    if (!this.transactions.hasSigner()) {
       throw new Error('Signer required for delegation operations');
     }
 
     const tx: TransactionRequest = {
       to: await this.tradingContract.getAddress(),
-      data: this.tradingContract.interface.encodeFunctionData('removeDelegate'),
+      data: encodeTradingCall({ name: 'removeDelegate' }),
     };
 
-    return await this.signAndSend(tx);
+    return await this.transactions.sendAndWait(tx);
   }
 
   /**
@@ -68,158 +71,98 @@ export class DelegationRPC {
     callData: string,
     value: bigint = 0n
   ): Promise<TransactionReceipt | null> {
-    if (!this.signer) {
+    if (!this.transactions.hasSigner()) {
       throw new Error('Signer required for delegation operations');
     }
 
     const tx: TransactionRequest = {
       to: await this.tradingContract.getAddress(),
-      data: this.tradingContract.interface.encodeFunctionData('delegatedAction', [
-        trader,
-        callData,
-      ]),
+      data: encodeTradingCall({ name: 'delegatedAction', trader, callData }),
       value,
     };
 
-    return await this.signAndSend(tx);
+    return await this.transactions.sendAndWait(tx);
   }
 
   /**
    * Helper: Create call data for openTrade to be used with delegatedAction
-   * @param tradeStruct - Trade struct with blockchain values
-   * @param orderType - Order type (0-3)
-   * @param slippageP - Slippage percentage in blockchain units
+   * @param trade - Trade parameters
+   * @param orderType - Order type (MARKET, LIMIT, etc.)
+   * @param slippageP - Slippage percentage (e.g., 1 for 1%)
    * @returns Encoded call data
    */
   encodeOpenTrade(
-    tradeStruct: any,
-    orderType: number,
-    slippageP: bigint
+    trade: OpenTradeStruct,
+    orderType: TradeInputOrderType,
+    slippageP: number
   ): string {
-    return this.tradingContract.interface.encodeFunctionData('openTrade', [
-      tradeStruct,
-      orderType,
-      slippageP,
-    ]);
+    return encodeTradingCall({ name: 'openTrade', trade, orderType, slippageP });
   }
 
   /**
    * Helper: Create call data for closeTradeMarket to be used with delegatedAction
    * @param pairIndex - Trading pair index
    * @param index - Trade index
-   * @param amount - Amount to close in blockchain units
+   * @param amount - Collateral to close (USDC)
    * @returns Encoded call data
    */
   encodeCloseTradeMarket(
     pairIndex: number,
     index: number,
-    amount: bigint
+    amount: number
   ): string {
-    return this.tradingContract.interface.encodeFunctionData('closeTradeMarket', [
-      pairIndex,
-      index,
-      amount,
-    ]);
+    return encodeTradingCall({ name: 'closeTradeMarket', pairIndex, index, amount });
   }
 
   /**
    * Helper: Create call data for updateTpAndSl to be used with delegatedAction
    * @param pairIndex - Trading pair index
    * @param index - Trade index
-   * @param newSl - New stop loss in blockchain units
-   * @param newTp - New take profit in blockchain units
+   * @param newSl - New stop loss price
+   * @param newTp - New take profit price
    * @param priceUpdateData - Price update data
    * @returns Encoded call data
    */
   encodeUpdateTpAndSl(
     pairIndex: number,
     index: number,
-    newSl: bigint,
-    newTp: bigint,
+    newSl: number,
+    newTp: number,
     priceUpdateData: string[]
   ): string {
-    return this.tradingContract.interface.encodeFunctionData('updateTpAndSl', [
+    return encodeTradingCall({
+      name: 'updateTpAndSl',
       pairIndex,
       index,
-      newSl,
-      newTp,
+      sl: newSl,
+      tp: newTp,
       priceUpdateData,
-    ]);
+    });
   }
 
   /**
    * Helper: Create call data for updateMargin to be used with delegatedAction
    * @param pairIndex - Trading pair index
    * @param index - Trade index
-   * @param updateType - 0 for DEPOSIT, 1 for WITHDRAW
-   * @param amount - Amount in blockchain units
+   * @param updateType - DEPOSIT or WITHDRAW
+   * @param amount - Margin delta (USDC)
    * @param priceUpdateData - Price update data
    * @returns Encoded call data
    */
   encodeUpdateMargin(
     pairIndex: number,
     index: number,
-    updateType: number,
-    amount: bigint,
+    updateType: MarginUpdateType,
+    amount: number,
     priceUpdateData: string[]
   ): string {
-    return this.tradingContract.interface.encodeFunctionData('updateMargin', [
+    return encodeTradingCall({
+      name: 'updateMargin',
       pairIndex,
       index,
       updateType,
       amount,
       priceUpdateData,
-    ]);
-  }
-
-  /**
-   * Helper method to sign and send transactions
-   */
-  private async signAndSend(tx: TransactionRequest): Promise<TransactionReceipt | null> {
-    if (!this.signer) {
-      throw new Error('Signer not set');
-    }
-
-    const address = await this.signer.getAddress();
-    tx.from = address;
-
-    const provider = this.tradingContract.runner?.provider;
-    if (!provider) {
-      throw new Error('Provider not available');
-    }
-
-    if (!tx.chainId) {
-      const network = await provider.getNetwork();
-      tx.chainId = network.chainId;
-    }
-
-    if (tx.nonce === undefined) {
-      tx.nonce = await provider.getTransactionCount(address);
-    }
-
-    if (!tx.gasLimit) {
-      tx.gasLimit = await provider.estimateGas(tx);
-    }
-
-    if (!tx.maxFeePerGas && !tx.gasPrice) {
-      const feeData = await provider.getFeeData();
-      if (feeData.maxFeePerGas) {
-        tx.maxFeePerGas = feeData.maxFeePerGas;
-        tx.maxPriorityFeePerGas = feeData.maxPriorityFeePerGas || feeData.maxFeePerGas;
-      } else {
-        tx.gasPrice = feeData.gasPrice || undefined;
-      }
-    }
-
-    const signedTx = await this.signer.signTransaction(tx);
-    const txResponse = await provider.broadcastTransaction(signedTx);
-    return await txResponse.wait();
-  }
-
-  /**
-   * Set signer for transactions
-   */
-  setSigner(signer: BaseSigner): void {
-    this.signer = signer;
+    });
   }
 }
@@ -0,0 +1,386 @@
+import { BaseContract, Log, LogDescription, Provider, zeroPadValue } from 'ethers';
+import {
+  TradingEvent,
+  TradingEventName,
+  TradingEventSchema,
+  fromBlockchain6,
+  fromBlockchain10,
+  fromBlockchain18,
+} from '../types';
+import { retryWithBackoff } from '../utils';
+import { Trading, TradingStorage } from '../typechain';
+
+/**
+ * Events emitted by the Trading contract
+ */
+const TRADING_EVENTS: TradingEventName[] = [
+  'MarketOrderInitiated',
+  'LimitOrderInitiated',
+  'OpenLimitPlaced',
+  'OpenLimitUpdated',
+  'OpenLimitCanceled',
+  'MarginUpdated',
+  'TpUpdated',
+  'SlUpdated',
+];
+
+/**
+ * Events emitted by the TradingStorage contract
+ */
+const TRADING_STORAGE_EVENTS: TradingEventName[] = ['FeesCharged', 'TradeReferred', 'OIUpdated'];
+
+/**
+ * Filter applied when fetching events
+ */
+export interface EventFilter {
+  /** Only return these events (default: all) */
+  eventNames?: TradingEventName[];
+  /** Only return events of this trader */
+  trader?: string;
+}
+
+/**
+ * Options for following new blocks
+ */
+export interface FollowOptions extends EventFilter {
+  /** First block to process (default: next block) */
+  fromBlock?: number;
+  /** Polling interval in milliseconds (default: 4000) */
+  pollInterval?: number;
+  /** Blocks to wait before processing a block (default: 0) */
+  confirmations?: number;
+  /** Called when a poll or the callback fails; polling continues */
+  onError: (error: Error) => void;
+}
+
+/**
+ * Event Indexer
+ * Backfills and follows Trading and TradingStorage logs, decoding them
+ * into typed, validated events.
+ */
+export class EventIndexer {
+  private provider: Provider;
+  private tradingContract: Trading;
+  private tradingStorageContract: TradingStorage;
+  private chunkSize: number;
+
+  /**
+   * Create an EventIndexer
+   * @param provider - Ethereum provider
+   * @param tradingContract - Trading contract
+   * @param tradingStorageContract - TradingStorage contract
+   * @param chunkSize - Maximum block range per getLogs request (default: 2000)
+   */
+  constructor(
+    provider: Provider,
+    tradingContract: Trading,
+    tradingStorageContract: TradingStorage,
+    chunkSize: number = 2000
+  ) {
+    this.provider = provider;
+    this.tradingContract = tradingContract;
+    this.tradingStorageContract = tradingStorageContract;
+    this.chunkSize = chunkSize;
+  }
+
+  /**
+   * Fetch events over a block range, in chunks
+   * @param fromBlock - First block (inclusive)
+   * @param toBlock - Last block (inclusive, default: latest)
+   * @param filter - Event names / trader filter
+   * @returns Events ordered by block and log index
+   */
+  async getEvents(
+    fromBlock: number,
+    toBlock?: number,
+    filter: EventFilter = {}
+  ): Promise<TradingEvent[]> {
+    const lastBlock = toBlock ?? (await this.provider.getBlockNumber());
+    const events: TradingEvent[] = [];
+
+    for (let start = fromBlock; start <= lastBlock; start += this.chunkSize) {
+      const end = Math.min(start + this.chunkSize - 1, lastBlock);
+      const chunk = await retryWithBackoff(() => this.getEventsInRange(start, end, filter));
+      events.push(...chunk);
+    }
+
+    return events;
+  }
+
+  /**
+   * Follow new blocks and deliver their events
+   * @param callback - Called once per event, in order
+   * @param options - Start block, polling, filter options and error callback
+   * @returns Function that stops following
+   */
+  follow(callback: (event: TradingEvent) => void, options: FollowOptions): () => void {
+    const pollInterval = options.pollInterval ?? 4000;
+    const confirmations = options.confirmations ?? 0;
+    let nextBlock = options.fromBlock;
+    let stopped = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const poll = async () => {
+      try {
+        const latest = (await this.provider.getBlockNumber()) - confirmations;
+        if (nextBlock === undefined) {
+          nextBlock = latest + 1;
+        }
+
+        if (latest >= nextBlock) {
+          const events = await this.getEvents(nextBlock, latest, options);
+          for (const event of events) {
+            if (stopped) return;
+            try {
+              callback(event);
+            } catch (error) {
+              options.onError(error as Error);
+            }
+          }
+          nextBlock = latest + 1;
+        }
+      } catch (error) {
+        options.onError(error as Error);
+      }
+
+      if (!stopped) {
+        timer = setTimeout(poll, pollInterval);
+      }
+    };
+
+    poll();
+
+    return () => {
+      stopped = true;
+      if (timer) {
+        clearTimeout(timer);
+      }
+    };
+  }
+
+  /**
+   * Decode a raw log from the Trading or TradingStorage contract
+   * @param log - Raw log
+   * @returns Decoded event or null if the log is not an indexed event
+   */
+  decodeLog(log: Log): TradingEvent | null {
+    const contract = this.isTradingLog(log) ? this.tradingContract : this.tradingStorageContract;
+
+    let parsed: LogDescription | null;
+    try {
+      parsed = contract.interface.parseLog({ topics: [...log.topics], data: log.data });
+    } catch (error) {
+      return null;
+    }
+
+    const eventName = parsed?.name as TradingEventName;
+    if (!parsed || !(TRADING_EVENTS.includes(eventName) || TRADING_STORAGE_EVENTS.includes(eventName))) {
+      return null;
+    }
+
+    const meta = {
+      blockNumber: log.blockNumber,
+      transactionHash: log.transactionHash,
+      logIndex: log.index,
+      address: log.address,
+    };
+
+    return TradingEventSchema.parse({ ...meta, ...this.mapArgs(parsed) });
+  }
+
+  private async getEventsInRange(
+    fromBlock: number,
+    toBlock: number,
+    filter: EventFilter
+  ): Promise<TradingEvent[]> {
+    const wanted = filter.eventNames;
+    const tradingEvents = TRADING_EVENTS.filter((name) => !wanted || wanted.includes(name));
+    const storageEvents = TRADING_STORAGE_EVENTS.filter(
+      (name) => !wanted || wanted.includes(name)
+    );
+
+    const [tradingLogs, storageLogs] = await Promise.all([
+      tradingEvents.length > 0
+        ? this.provider.getLogs({
+            address: await this.tradingContract.getAddress(),
+            topics: [
+              this.getTopics(this.tradingContract, tradingEvents),
+              // trader is the only indexed argument of every Trading event
+              ...(filter.trader ? [zeroPadValue(filter.trader, 32)] : []),
+            ],
+            fromBlock,
+            toBlock,
+          })
+        : Promise.resolve([]),
+      storageEvents.length > 0
+        ? this.provider.getLogs({
+            address: await this.tradingStorageContract.getAddress(),
+            topics: [this.getTopics(this.tradingStorageContract, storageEvents)],
+            fromBlock,
+            toBlock,
+          })
+        : Promise.resolve([]),
+    ]);
+
+    const events: TradingEvent[] = [];
+    for (const log of [...tradingLogs, ...storageLogs]) {
+      const event = this.decodeLog(log);
+      if (!event) continue;
+      if (filter.trader && !this.matchesTrader(event, filter.trader)) {
+        continue;
+      }
+      events.push(event);
+    }
+
+    return events.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+  }
+
+  private matchesTrader(event: TradingEvent, trader: string): boolean {
+    return 'trader' in event && event.trader.toLowerCase() === trader.toLowerCase();
+  }
+
+  private getTopics(contract: BaseContract, eventNames: TradingEventName[]): string[] {
+    return eventNames.map((name) => contract.interface.getEvent(name)!.topicHash);
+  }
+
+  private isTradingLog(log: Log): boolean {
+    const tradingAddress = String(this.tradingContract.target).toLowerCase();
+    return log.address.toLowerCase() === tradingAddress;
+  }
+
+  /**
+   * Convert raw event arguments to decimal values
+   */
+  private mapArgs(parsed: LogDescription): Record<string, unknown> {
+    const args = parsed.args;
+    const eventName = parsed.name;
+
+    switch (eventName) {
+      case 'MarketOrderInitiated':
+        return {
+          eventName,
+          trader: args.trader,
+          pairIndex: Number(args.pairIndex),
+          open: args.open,
+          orderId: Number(args.orderId),
+          timestamp: Number(args.timestamp),
+          isBuy: args.isBuy,
+        };
+      case 'LimitOrderInitiated':
+        return {
+          eventName,
+          trader: args.trader,
+          pairIndex: Number(args.pairIndex),
+          orderId: Number(args.orderId),
+          timestamp: Number(args.timestamp),
+        };
+      case 'OpenLimitPlaced':
+        return {
+          eventName,
+          trader: args.trader,
+          pairIndex: Number(args.pairIndex),
+          index: Number(args.index),
+          isBuy: args.isBuy,
+          openPrice: fromBlockchain10(args.openPrice),
+          executionFee: fromBlockchain18(args.executionFee),
+          orderType: Number(args.orderType),
+          slippageP: fromBlockchain10(args.slippageP),
+          collateral: fromBlockchain6(args.collateral),
+        };
+      case 'OpenLimitUpdated':
+        return {
+          eventName,
+          trader: args.trader,
+          pairIndex: Number(args.pairIndex),
+          index: Number(args.index),
+          newPrice: fromBlockchain10(args.newPrice),
+          newTp: fromBlockchain10(args.newTp),
+          newSl: fromBlockchain10(args.newSl),
+          timestamp: Number(args.timestamp),
+        };
+      case 'OpenLimitCanceled':
+        return {
+          eventName,
+          trader: args.trader,
+          pairIndex: Number(args.pairIndex),
+          index: Number(args.index),
+          timestamp: Number(args.timestamp),
+          collateral: fromBlockchain6(args.collateral),
+        };
+      case 'MarginUpdated': {
+        const trade = args.newTrade;
+        return {
+          eventName,
+          trader: args.trader,
+          pairIndex: Number(args.pairIndex),
+          index: Number(args.index),
+          updateType: Number(args._type),
+          newTrade: {
+            trader: trade.trader,
+            pairIndex: Number(trade.pairIndex),
+            index: Number(trade.index),
+            initialPosToken: fromBlockchain6(trade.initialPosToken),
+            positionSizeUSDC: fromBlockchain6(trade.positionSizeUSDC),
+            openPrice: fromBlockchain10(trade.openPrice),
+            buy: trade.buy,
+            leverage: fromBlockchain10(trade.leverage),
+            tp: fromBlockchain10(trade.tp),
+            sl: fromBlockchain10(trade.sl),
+            timestamp: Number(trade.timestamp),
+          },
+          marginFees: fromBlockchain6(args.marginFees),
+          lossProtectionTier: Number(args.lossProtectionTier),
+          timestamp: Number(args.timestamp),
+        };
+      }
+      case 'TpUpdated':
+        return {
+          eventName,
+          trader: args.trader,
+          pairIndex: Number(args.pairIndex),
+          index: Number(args.index),
+          newTp: fromBlockchain10(args.newTp),
+          timestamp: Number(args.timestamp),
+        };
+      case 'SlUpdated':
+        return {
+          eventName,
+          trader: args.trader,
+          pairIndex: Number(args.pairIndex),
+          index: Number(args.index),
+          newSl: fromBlockchain10(args.newSl),
+          timestamp: Number(args.timestamp),
+        };
+      case 'FeesCharged':
+        return {
+          eventName,
+          trader: args._trader,
+          pairIndex: Number(args._pairIndex),
+          buy: args._buy,
+          fee: fromBlockchain6(args.fee),
+        };
+      case 'TradeReferred':
+        return {
+          eventName,
+          trader: args._trader,
+          referrer: args._referrer,
+          leveragedPosition: fromBlockchain6(args._leveragedPosition),
+          traderFeePostDiscount: fromBlockchain6(args._traderFeePostDiscount),
+          startingFees: fromBlockchain6(args._startingFees),
+          referrerRebate: fromBlockchain6(args._referrerRebate),
+          pairIndex: Number(args._pairIndex),
+        };
+      case 'OIUpdated':
+        return {
+          eventName,
+          open: args._open,
+          long: args._long,
+          pairIndex: Number(args._pairIndex),
+          leveragedPos: fromBlockchain6(args._leveragedPos),
+          price: fromBlockchain10(args._price),
+        };
+      default:
+        throw new Error(`Unsupported event ${eventName}`);
+    }
+  }
+}
@@ -1,46 +1,61 @@
-import { Contract, Provider } from 'ethers';
-import { Fee, TradeInput, fromBlockchain10, toBlockchain6 } from '../types';
+import { Provider } from 'ethers';
+import {
+  Fee,
+  TradeInput,
+  fromBlockchain6,
+  fromBlockchain10,
+  fromBlockchain12,
+  toBlockchain6,
+} from '../types';
 import { PairsCache } from './pairs_cache';
+import { PairInfos, PriceAggregator, Referral } from '../typechain';
+import { decodeContractError, PairNotListed } from '../errors';
 
 /**
  * RPC module for fee calculations
  */
 export class FeeParametersRPC {
   private provider: Provider;
-  private pairInfosContract: Contract;
-  private referralContract?: Contract;
+  private pairInfosContract: PairInfos;
+  private priceAggregatorContract: PriceAggregator;
+  private referralContract?: Referral;
   private pairsCache: PairsCache;
 
   constructor(
     provider: Provider,
-    pairInfosContract: Contract,
+    pairInfosContract: PairInfos,
+    priceAggregatorContract: PriceAggregator,
     pairsCache: PairsCache,
-    referralContract?: Contract
+    referralContract?: Referral
   ) {
     this.provider = provider;
     this.pairInfosContract = pairInfosContract;
+    this.priceAggregatorContract = priceAggregatorContract;
     this.pairsCache = pairsCache;
     this.referralContract = referralContract;
   }
 
   /**
-   * Get margin fee for all pairs (in basis points)
+   * Get margin (rollover) fee per block for all pairs
    * @returns Map of pair index to fee
    */
   async getMarginFee(): Promise<Map<number, Fee>> {
     const pairs = await this.pairsCache.getPairsInfo();
     const fees = new Map<number, Fee>();
 
-    for (const [pairIndex] of pairs) {
-      try {
-        const feeP = await this.pairInfosContract.getPairMarginFeeP(pairIndex);
-        fees.set(pairIndex, {
-          feeP: fromBlockchain10(feeP),
-        });
-      } catch (error) {
-        console.error(`Error getting margin fee for pair ${pairIndex}:`, error);
-        fees.set(pairIndex, { feeP: 0 });
-      }
+    const results = await Promise.all(
+      Array.from(pairs.keys()).map(async (pairIndex) => {
+        try {
+          const feeP = await this.pairInfosContract.getRolloverFeePerBlockP(pairIndex);
+          return { pairIndex, fee: { feeP: fromBlockchain10(feeP) } };
+        } catch (error) {
+          throw decodeContractError(error);
+        }
+      })
+    );
+
+    for (const { pairIndex, fee } of results) {
+      fees.set(pairIndex, fee);
     }
 
     return fees;
@@ -75,31 +90,32 @@ export class FeeParametersRPC {
     pairIndex: number
   ): Promise<number> {
     try {
-      const feeUsdc = await this.pairInfosContract.getOpenFeeUsdc(
+      const feeP = await this.priceAggregatorContract.openFeeP(
         pairIndex,
         toBlockchain6(positionSize),
         isLong
       );
-      return fromBlockchain10(feeUsdc);
+      return (positionSize * fromBlockchain12(feeP)) / 100;
     } catch (error) {
-      console.error('Error getting opening fee:', error);
-      return 0;
+      throw decodeContractError(error);
     }
   }
 
   /**
    * Get opening fee for a new trade with referral
    * @param tradeInput - Trade input parameters
+   * @param trader - Trader address whose referral discount applies
    * @param referrer - Referrer address (optional)
    * @returns Opening fee in USDC
    */
   async getNewTradeOpeningFee(
     tradeInput: TradeInput,
+    trader: string,
     referrer?: string
   ): Promise<number> {
     const pairIndex = await this.pairsCache.getPairIndex(tradeInput.pair);
     if (pairIndex === undefined) {
-      throw new Error(`Pair ${tradeInput.pair} not found`);
+      throw new PairNotListed(`Pair ${tradeInput.pair} not found`);
     }
 
     const positionSize = tradeInput.collateralInTrade * tradeInput.leverage;
@@ -107,27 +123,19 @@ export class FeeParametersRPC {
 
     // Apply referral discount if applicable
     if (referrer && this.referralContract) {
-      try {
-        const rebate = await this.getTradeReferralRebate(
-          tradeInput.referrer || referrer,
-          referrer,
-          fee
-        );
-        fee -= rebate;
-      } catch (error) {
-        console.error('Error getting referral rebate:', error);
-      }
+      const discount = await this.getTradeReferralRebate(trader, referrer, fee);
+      fee -= discount;
     }
 
     return fee;
   }
 
   /**
-   * Get trade referral rebate
+   * Get the trader's referral discount on an opening fee
    * @param trader - Trader address
    * @param referrer - Referrer address
    * @param openingFee - Opening fee amount
-   * @returns Rebate amount
+   * @returns Discount taken off the trader's fee
    */
   async getTradeReferralRebate(
     trader: string,
@@ -139,12 +147,17 @@ export class FeeParametersRPC {
     }
 
     try {
-      const rebateP = await this.referralContract.getReferralRebateP(trader, referrer);
-      const rebatePercentage = fromBlockchain10(rebateP);
-      return openingFee * (rebatePercentage / 100);
+      const result = await this.referralContract.traderReferralDiscount.staticCall(
+        trader,
+        toBlockchain6(openingFee)
+      );
+      if (result.referrer.toLowerCase() !== referrer.toLowerCase()) {
+        return 0;
+      }
+      // rebateShare is the referrer's cut; the trader pays traderFeesPostDiscount
+      return openingFee - fromBlockchain6(result.traderFeesPostDiscount);
     } catch (error) {
-      console.error('Error getting referral rebate:', error);
-      return 0;
+      throw decodeContractError(error);
     }
   }
 }
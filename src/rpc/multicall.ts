@@ -1,4 +1,16 @@
-import { Contract } from 'ethers';
+import { BaseContract, Result } from 'ethers';
+import { Multicall, PairStorage, TradingStorage } from '../typechain';
+import type { DefaultReturnType, TypedContractMethod } from '../typechain/common';
+import type { IMulticall, ITradingStorage } from '../typechain/Multicall';
+import type { IPairStorage } from '../typechain/PairStorage';
+import {
+  OpenLimitOrder,
+  Trade,
+  TradeInfo,
+  fromBlockchain10,
+  fromBlockchain18,
+  fromBlockchain6,
+} from '../types';
 
 /**
  * Call structure for multicall
@@ -16,12 +28,95 @@ export interface MulticallResult {
   returnData: string[];
 }
 
+/**
+ * Open trade with its info, accrued rollover fee and liquidation price
+ */
+export interface AggregatedPosition {
+  trade: Trade;
+  tradeInfo: TradeInfo;
+  /** Accrued rollover fee in USDC */
+  rolloverFee: number;
+  liquidationPrice: number;
+  /** Whether the trade uses PnL-based (zero-fee) pricing */
+  isPnl: boolean;
+}
+
+/**
+ * Open limit order with the liquidation price it would have once filled
+ */
+export interface AggregatedLimitOrder {
+  order: OpenLimitOrder;
+  liquidationPrice: number;
+}
+
+/**
+ * Open trades and limit orders of an account
+ */
+export interface AccountPositions {
+  positions: AggregatedPosition[];
+  limitOrders: AggregatedLimitOrder[];
+}
+
+/**
+ * Market order waiting for execution by the keeper
+ */
+export interface PendingMarketOrder {
+  orderId: number;
+  trade: Trade;
+  block: number;
+  wantedPrice: number;
+  slippageP: number;
+}
+
+/**
+ * Rollover fees and open interest of a pair
+ */
+export interface PairMargins {
+  pairIndex: number;
+  rolloverFeePerBlockP: number;
+  rolloverFeePerBlockLong: number;
+  rolloverFeePerBlockShort: number;
+  /** Long open interest in USDC */
+  openInterestLong: number;
+  /** Short open interest in USDC */
+  openInterestShort: number;
+}
+
+/**
+ * Long/short split of a pair's open interest in percent
+ */
+export interface LongShortRatio {
+  pairIndex: number;
+  long: number;
+  short: number;
+}
+
+/**
+ * Everything about an account, read in a single eth_call
+ */
+export interface AccountOverview extends AccountPositions {
+  blockNumber: number;
+  pendingOrders: PendingMarketOrder[];
+  /** Open limit order count per pair index */
+  openLimitOrdersCounts: number[];
+  /** First free trade index per pair index */
+  firstEmptyTradeIndexes: number[];
+  margins: PairMargins[];
+}
+
+/**
+ * Value a typed view method resolves to when called directly
+ */
+type ViewReturn<M> = M extends TypedContractMethod<infer A, infer R, 'view'>
+  ? DefaultReturnType<R>
+  : never;
+
 /**
  * Multicall RPC
  * Allows batching multiple contract view calls into a single request
  */
 export class MulticallRPC {
-  constructor(private multicallContract: Contract) {}
+  constructor(private multicallContract: Multicall) {}
 
   /**
    * Execute multiple calls in a single transaction
@@ -29,11 +124,12 @@ export class MulticallRPC {
    * @returns Block number and return data from each call
    */
   async aggregate(calls: MulticallCall[]): Promise<MulticallResult> {
-    const result = await this.multicallContract.aggregate(calls);
+    // aggregate is not a view function, so it has to be simulated
+    const [blockNumber, returnData] = await this.multicallContract.aggregate.staticCall(calls);
 
     return {
-      blockNumber: Number(result.blockNumber || result[0]),
-      returnData: Array.isArray(result.returnData) ? result.returnData : result[1],
+      blockNumber: Number(blockNumber),
+      returnData: [...returnData],
     };
   }
 
@@ -44,7 +140,7 @@ export class MulticallRPC {
    * @param args - Function arguments
    * @returns Call data object
    */
-  createCall(contract: Contract, functionName: string, args: any[] = []): MulticallCall {
+  createCall(contract: BaseContract, functionName: string, args: unknown[] = []): MulticallCall {
     return {
       target: contract.target as string,
       callData: contract.interface.encodeFunctionData(functionName, args),
@@ -58,7 +154,7 @@ export class MulticallRPC {
    * @param returnData - Raw return data from multicall
    * @returns Decoded result
    */
-  decodeResult(contract: Contract, functionName: string, returnData: string): any {
+  decodeResult(contract: BaseContract, functionName: string, returnData: string): Result {
     return contract.interface.decodeFunctionResult(functionName, returnData);
   }
 
@@ -69,13 +165,13 @@ export class MulticallRPC {
    */
   async aggregateAndDecode(
     calls: Array<{
-      contract: Contract;
+      contract: BaseContract;
       functionName: string;
-      args?: any[];
+      args?: unknown[];
     }>
   ): Promise<{
     blockNumber: number;
-    results: any[];
+    results: Result[];
   }> {
     // Create multicall calls
     const multicallCalls = calls.map((call) =>
@@ -106,19 +202,17 @@ export class MulticallRPC {
    * @returns Array of decoded trade data
    */
   async batchGetOpenTrades(
-    tradingStorageContract: Contract,
+    tradingStorageContract: TradingStorage,
     trader: string,
     pairIndex: number,
     indices: number[]
-  ): Promise<any[]> {
-    const calls = indices.map((index) => ({
-      contract: tradingStorageContract,
-      functionName: 'openTrades',
-      args: [trader, pairIndex, index],
-    }));
+  ): Promise<ITradingStorage.TradeStructOutput[]> {
+    const calls = indices.map((index) =>
+      this.createCall(tradingStorageContract, 'openTrades', [trader, pairIndex, index])
+    );
 
-    const { results } = await this.aggregateAndDecode(calls);
-    return results;
+    const { returnData } = await this.aggregate(calls);
+    return returnData.map((data) => decodeView(tradingStorageContract, 'openTrades', data));
   }
 
   /**
@@ -130,19 +224,17 @@ export class MulticallRPC {
    * @returns Array of decoded trade info data
    */
   async batchGetOpenTradesInfo(
-    tradingStorageContract: Contract,
+    tradingStorageContract: TradingStorage,
     trader: string,
     pairIndex: number,
     indices: number[]
-  ): Promise<any[]> {
-    const calls = indices.map((index) => ({
-      contract: tradingStorageContract,
-      functionName: 'openTradesInfo',
-      args: [trader, pairIndex, index],
-    }));
+  ): Promise<ITradingStorage.TradeInfoStructOutput[]> {
+    const calls = indices.map((index) =>
+      this.createCall(tradingStorageContract, 'openTradesInfo', [trader, pairIndex, index])
+    );
 
-    const { results } = await this.aggregateAndDecode(calls);
-    return results;
+    const { returnData } = await this.aggregate(calls);
+    return returnData.map((data) => decodeView(tradingStorageContract, 'openTradesInfo', data));
   }
 
   /**
@@ -151,14 +243,260 @@ export class MulticallRPC {
    * @param pairIndices - Array of pair indices
    * @returns Array of decoded pair data
    */
-  async batchGetPairs(pairStorageContract: Contract, pairIndices: number[]): Promise<any[]> {
-    const calls = pairIndices.map((pairIndex) => ({
-      contract: pairStorageContract,
-      functionName: 'pairs',
-      args: [pairIndex],
+  async batchGetPairs(
+    pairStorageContract: PairStorage,
+    pairIndices: number[]
+  ): Promise<IPairStorage.PairStructOutput[]> {
+    const calls = pairIndices.map((pairIndex) =>
+      this.createCall(pairStorageContract, 'pairs', [pairIndex])
+    );
+
+    // The pairs getter returns the struct fields as separate outputs
+    const { returnData } = await this.aggregate(calls);
+    return returnData.map((data) => decodeView(pairStorageContract, 'pairs', data));
+  }
+  /**
+   * Get all open trades and limit orders of an account
+   * @param trader - Trader address
+   * @returns Positions with liquidation prices and limit orders
+   */
+  async getPositions(trader: string): Promise<AccountPositions> {
+    const [trades, orders] = await this.multicallContract.getPositions(trader);
+    return toAccountPositions(trades, orders);
+  }
+
+  /**
+   * Get open trades and limit orders of an account for a range of pairs
+   * @param trader - Trader address
+   * @param startPairIndex - First pair index
+   * @param endPairIndex - Last pair index
+   * @param maxTradesPerPair - Maximum trade slots scanned per pair
+   * @returns Positions with liquidation prices and limit orders
+   */
+  async getPositionsForPairIndexes(
+    trader: string,
+    startPairIndex: number,
+    endPairIndex: number,
+    maxTradesPerPair: number
+  ): Promise<AccountPositions> {
+    const [trades, orders] = await this.multicallContract.getPositionsForPairIndexes(
+      trader,
+      startPairIndex,
+      endPairIndex,
+      maxTradesPerPair
+    );
+    return toAccountPositions(trades, orders);
+  }
+
+  /**
+   * Get rollover fees and open interest for all pairs
+   * @returns Margins ordered by pair index
+   */
+  async getMargins(): Promise<PairMargins[]> {
+    const result = await this.multicallContract.getMargins();
+    return toPairMargins(result);
+  }
+
+  /**
+   * Get rollover fees and open interest for a pair
+   * @param pairIndex - Pair index
+   * @returns Pair margins
+   */
+  async getMarginsForPair(pairIndex: number): Promise<PairMargins> {
+    const result = await this.multicallContract.getMarginsForPair(pairIndex);
+
+    return {
+      pairIndex,
+      rolloverFeePerBlockP: fromBlockchain10(result.rolloverFeePerBlockP),
+      rolloverFeePerBlockLong: fromBlockchain10(result.rolloverFeePerBlockLong),
+      rolloverFeePerBlockShort: fromBlockchain10(result.rolloverFeePerBlockShort),
+      openInterestLong: fromBlockchain6(result.openInterestUSDCLong),
+      openInterestShort: fromBlockchain6(result.openInterestUSDCShort),
+    };
+  }
+
+  /**
+   * Get the liquidation price of an open trade
+   * @param trader - Trader address
+   * @param pairIndex - Pair index
+   * @param index - Trade index
+   * @returns Liquidation price
+   */
+  async getLiquidationPrice(trader: string, pairIndex: number, index: number): Promise<number> {
+    const price = await this.multicallContract.getLiquidationPrice(trader, pairIndex, index);
+    return fromBlockchain10(price);
+  }
+
+  /**
+   * Get the long/short open interest split for all pairs
+   * @returns Ratios ordered by pair index
+   */
+  async getLongShortRatios(): Promise<LongShortRatio[]> {
+    const { longRatio, shortRatio } = await this.multicallContract.getLongShortRatios();
+
+    return longRatio.map((long, pairIndex) => ({
+      pairIndex,
+      long: fromBlockchain10(long),
+      short: fromBlockchain10(shortRatio[pairIndex]),
     }));
+  }
 
-    const { results } = await this.aggregateAndDecode(calls);
-    return results;
+  /**
+   * Get the first free trade index for every pair
+   * @param trader - Trader address
+   * @returns Trade index per pair index
+   */
+  async getFirstEmptyTradeIndexes(trader: string): Promise<number[]> {
+    const indexes = await this.multicallContract.getFirstEmptyTradeIndexes(trader);
+    return indexes.map(Number);
+  }
+
+  /**
+   * Get the number of open limit orders for every pair
+   * @param trader - Trader address
+   * @returns Order count per pair index
+   */
+  async getOpenLimitOrdersCounts(trader: string): Promise<number[]> {
+    const counts = await this.multicallContract.getOpenLimitOrdersCounts(trader);
+    return counts.map(Number);
   }
+
+  /**
+   * Get market orders of an account that are waiting for execution
+   * @param trader - Trader address
+   * @returns Pending market orders
+   */
+  async getPendingOrders(trader: string): Promise<PendingMarketOrder[]> {
+    const orders = await this.multicallContract.getPendingOrder(trader);
+    return orders.map((order) => toPendingMarketOrder(order.orderId, order.orderInfo));
+  }
+
+  /**
+   * Get positions, liquidation prices, pending orders and margins in one eth_call
+   * @param trader - Trader address
+   * @returns Account overview
+   */
+  async getAccountOverview(trader: string): Promise<AccountOverview> {
+    const contract = this.multicallContract;
+    const { blockNumber, returnData } = await this.aggregate([
+      this.createCall(contract, 'getPositions', [trader]),
+      this.createCall(contract, 'getPendingOrder', [trader]),
+      this.createCall(contract, 'getOpenLimitOrdersCounts', [trader]),
+      this.createCall(contract, 'getFirstEmptyTradeIndexes', [trader]),
+      this.createCall(contract, 'getMargins'),
+    ]);
+    const [trades, orders] = decodeView(contract, 'getPositions', returnData[0]);
+    const pendingOrders = decodeView(contract, 'getPendingOrder', returnData[1]);
+    const limitOrdersCounts = decodeView(contract, 'getOpenLimitOrdersCounts', returnData[2]);
+    const firstEmptyTradeIndexes = decodeView(contract, 'getFirstEmptyTradeIndexes', returnData[3]);
+    const margins = decodeView(contract, 'getMargins', returnData[4]);
+
+    return {
+      blockNumber,
+      ...toAccountPositions(trades, orders),
+      pendingOrders: pendingOrders.map((order) =>
+        toPendingMarketOrder(order.orderId, order.orderInfo)
+      ),
+      openLimitOrdersCounts: limitOrdersCounts.map(Number),
+      firstEmptyTradeIndexes: firstEmptyTradeIndexes.map(Number),
+      margins: toPairMargins(margins),
+    };
+  }
+}
+
+/**
+ * Decode a view's return data through the contract's typed interface,
+ * unwrapping single outputs the same way a direct contract call does
+ */
+function decodeView<C extends BaseContract, F extends keyof C & string>(
+  contract: C,
+  functionName: F,
+  data: string
+): ViewReturn<C[F]> {
+  const result = contract.interface.decodeFunctionResult(functionName, data);
+  return (result.length === 1 ? result[0] : result) as ViewReturn<C[F]>;
+}
+
+function toTrade(trade: ITradingStorage.TradeStructOutput): Trade {
+  return {
+    trader: trade.trader,
+    pairIndex: Number(trade.pairIndex),
+    index: Number(trade.index),
+    initialPosToken: fromBlockchain6(trade.initialPosToken),
+    positionSizeUSDC: fromBlockchain6(trade.positionSizeUSDC),
+    openPrice: fromBlockchain10(trade.openPrice),
+    buy: trade.buy,
+    leverage: fromBlockchain10(trade.leverage),
+    tp: fromBlockchain10(trade.tp),
+    sl: fromBlockchain10(trade.sl),
+    timestamp: Number(trade.timestamp),
+  };
+}
+
+function toAccountPositions(
+  trades: readonly IMulticall.AggregatedTradeStructOutput[],
+  orders: readonly IMulticall.AggregatedOrderStructOutput[]
+): AccountPositions {
+  return {
+    positions: trades.map((position) => ({
+      trade: toTrade(position.trade),
+      tradeInfo: {
+        openInterestUSDC: fromBlockchain6(position.tradeInfo.openInterestUSDC),
+        tpLastUpdated: Number(position.tradeInfo.tpLastUpdated),
+        slLastUpdated: Number(position.tradeInfo.slLastUpdated),
+        beingMarketClosed: position.tradeInfo.beingMarketClosed,
+        lossProtection: Number(position.tradeInfo.lossProtection),
+      },
+      rolloverFee: fromBlockchain6(position.rolloverFee),
+      liquidationPrice: fromBlockchain10(position.liquidationPrice),
+      isPnl: position.isPnl,
+    })),
+    limitOrders: orders.map(({ order, liquidationPrice }) => ({
+      order: {
+        trader: order.trader,
+        pairIndex: Number(order.pairIndex),
+        index: Number(order.index),
+        positionSize: fromBlockchain6(order.positionSize),
+        buy: order.buy,
+        leverage: fromBlockchain10(order.leverage),
+        tp: fromBlockchain10(order.tp),
+        sl: fromBlockchain10(order.sl),
+        price: fromBlockchain10(order.price),
+        slippageP: fromBlockchain10(order.slippageP),
+        block: Number(order.block),
+        executionFee: fromBlockchain18(order.executionFee),
+      },
+      liquidationPrice: fromBlockchain10(liquidationPrice),
+    })),
+  };
+}
+
+function toPendingMarketOrder(
+  orderId: bigint,
+  order: ITradingStorage.PendingMarketOrderStructOutput
+): PendingMarketOrder {
+  return {
+    orderId: Number(orderId),
+    trade: toTrade(order.trade),
+    block: Number(order.block),
+    wantedPrice: fromBlockchain10(order.wantedPrice),
+    slippageP: fromBlockchain10(order.slippageP),
+  };
+}
+
+function toPairMargins(result: {
+  rolloverFeePerBlockP: readonly bigint[];
+  rolloverFeePerBlockLong: readonly bigint[];
+  rolloverFeePerBlockShort: readonly bigint[];
+  openInterestUSDCLong: readonly bigint[];
+  openInterestUSDCShort: readonly bigint[];
+}): PairMargins[] {
+  return result.rolloverFeePerBlockP.map((feeP, pairIndex) => ({
+    pairIndex,
+    rolloverFeePerBlockP: fromBlockchain10(feeP),
+    rolloverFeePerBlockLong: fromBlockchain10(result.rolloverFeePerBlockLong[pairIndex]),
+    rolloverFeePerBlockShort: fromBlockchain10(result.rolloverFeePerBlockShort[pairIndex]),
+    openInterestLong: fromBlockchain6(result.openInterestUSDCLong[pairIndex]),
+    openInterestShort: fromBlockchain6(result.openInterestUSDCShort[pairIndex]),
+  }));
 }
@@ -0,0 +1,63 @@
+import { FetchRequest, JsonRpcApiProviderOptions, JsonRpcProvider, Network, Networkish } from 'ethers';
+
+/**
+ * JsonRpcProvider that checks the endpoint's chain ID before its first request
+ *
+ * The check runs once; a failed check is retried on the next request. Without
+ * an expected network the endpoint's chain is trusted.
+ */
+export class NetworkCheckedProvider extends JsonRpcProvider {
+  private expectedNetwork?: Network;
+  private networkCheck?: Promise<void>;
+
+  /**
+   * Create a NetworkCheckedProvider
+   * @param url - RPC endpoint
+   * @param network - Expected network (chain ID, name or Network)
+   * @param options - JsonRpcProvider options
+   */
+  constructor(
+    url?: string | FetchRequest,
+    network?: Networkish,
+    options?: JsonRpcApiProviderOptions
+  ) {
+    super(url, network, options);
+    this.expectedNetwork = network === undefined ? undefined : Network.from(network);
+  }
+
+  /**
+   * Check that the RPC endpoint is connected to the expected network
+   * @throws Error if the endpoint reports a different chain ID
+   */
+  async verifyNetwork(): Promise<void> {
+    if (!this.expectedNetwork) return;
+
+    const chainId = BigInt(await super.send('eth_chainId', []));
+    const { name, chainId: expected } = this.expectedNetwork;
+    if (chainId !== expected) {
+      throw new Error(
+        `Provider chainId ${chainId} does not match network ${name} (chainId ${expected})`
+      );
+    }
+  }
+
+  async send(method: string, params: Array<any> | Record<string, any>): Promise<any> {
+    if (method !== 'eth_chainId') {
+      await this.ensureNetwork();
+    }
+    return await super.send(method, params);
+  }
+
+  /**
+   * Run verifyNetwork() once; a failed check is retried on the next request
+   */
+  private ensureNetwork(): Promise<void> {
+    if (!this.networkCheck) {
+      this.networkCheck = this.verifyNetwork().catch((error) => {
+        this.networkCheck = undefined;
+        throw error;
+      });
+    }
+    return this.networkCheck;
+  }
+}
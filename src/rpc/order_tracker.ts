@@ -0,0 +1,334 @@
+import { EventEmitter } from 'events';
+import { Provider, TransactionReceipt, zeroPadValue } from 'ethers';
+import { Trade, fromBlockchain6, fromBlockchain10 } from '../types';
+import { sleep } from '../utils';
+import { Trading, TradingStorage } from '../typechain';
+
+/**
+ * Lifecycle status of a tracked order
+ */
+export type OrderStatus = 'pending' | 'executed' | 'canceled' | 'timedOut';
+
+/**
+ * Final outcome of a tracked order
+ */
+export interface OrderResult {
+  status: Exclude<OrderStatus, 'pending'>;
+  trader: string;
+  pairIndex: number;
+  /** Market order ID (market orders only) */
+  orderId?: number;
+  /** Trade index (limit orders, or the stored trade once executed) */
+  index?: number;
+  /**
+   * Stored trade with the actual open price (executed open orders only, when the
+   * trade is still open and can be told apart from other new trades on the pair)
+   */
+  trade?: Trade;
+}
+
+/**
+ * Options for tracking an order
+ */
+export interface TrackOrderOptions {
+  /** Polling interval in milliseconds (default: 2000) */
+  pollInterval?: number;
+  /** Give up after this many milliseconds (default: 120000, 0 = never) */
+  timeout?: number;
+}
+
+/**
+ * Handle for a tracked order
+ * Emits 'pending', then exactly one of 'executed', 'canceled' or 'timedOut'
+ * with the OrderResult. Polling errors are emitted as 'error' and polling
+ * continues; without an 'error' listener the first one rejects wait().
+ */
+export class OrderHandle extends EventEmitter {
+  public status: OrderStatus = 'pending';
+  private stopped = false;
+  private result: Promise<OrderResult>;
+
+  constructor(
+    public readonly trader: string,
+    public readonly pairIndex: number,
+    public readonly kind: 'marketOpen' | 'marketClose' | 'limit',
+    public readonly orderId: number | undefined,
+    public readonly index: number | undefined,
+    run: (handle: OrderHandle) => Promise<OrderResult>
+  ) {
+    super();
+    this.result = Promise.resolve().then(() => {
+      this.emit('pending', this);
+      return run(this);
+    });
+    this.result.then(
+      (result) => {
+        this.status = result.status;
+        this.emit(result.status, result);
+      },
+      () => undefined
+    );
+  }
+
+  /**
+   * Wait for the order to reach a final state
+   * @returns Order result
+   */
+  wait(): Promise<OrderResult> {
+    return this.result;
+  }
+
+  /**
+   * Stop tracking; wait() resolves with 'timedOut'
+   */
+  stop(): void {
+    this.stopped = true;
+  }
+
+  /**
+   * Whether tracking was stopped by the caller
+   */
+  isStopped(): boolean {
+    return this.stopped;
+  }
+
+  /**
+   * Report a polling error
+   * @throws The error if no 'error' listener is attached
+   */
+  reportError(error: Error): void {
+    if (this.listenerCount('error') === 0) {
+      throw error;
+    }
+    this.emit('error', error);
+  }
+}
+
+/**
+ * Order Tracker
+ * Follows an order from the user's transaction to keeper execution or
+ * cancellation using the pending order registry and TradingStorage state.
+ */
+export class OrderTracker {
+  private provider: Provider;
+  private tradingContract: Trading;
+  private tradingStorageContract: TradingStorage;
+
+  constructor(provider: Provider, tradingContract: Trading, tradingStorageContract: TradingStorage) {
+    this.provider = provider;
+    this.tradingContract = tradingContract;
+    this.tradingStorageContract = tradingStorageContract;
+  }
+
+  /**
+   * Track the order created by a transaction
+   * @param receipt - Receipt of openTrade / closeTradeMarket
+   * @param options - Polling options
+   * @returns Order handle
+   */
+  trackOrder(receipt: TransactionReceipt, options: TrackOrderOptions = {}): OrderHandle {
+    const pollInterval = options.pollInterval ?? 2000;
+    const timeout = options.timeout ?? 120000;
+    const tradingAddress = String(this.tradingContract.target).toLowerCase();
+
+    for (const log of receipt.logs) {
+      if (log.address.toLowerCase() !== tradingAddress) continue;
+
+      const parsed = this.tradingContract.interface.parseLog({
+        topics: [...log.topics],
+        data: log.data,
+      });
+      if (!parsed) continue;
+
+      const trader: string = parsed.args.trader;
+      const pairIndex = Number(parsed.args.pairIndex);
+      const buy: boolean = parsed.args.isBuy;
+
+      if (parsed.name === 'MarketOrderInitiated') {
+        const orderId = Number(parsed.args.orderId);
+        const kind = parsed.args.open ? 'marketOpen' : 'marketClose';
+        return new OrderHandle(trader, pairIndex, kind, orderId, undefined, (handle) =>
+          this.trackMarketOrder(handle, buy, receipt.blockNumber, pollInterval, timeout)
+        );
+      }
+
+      if (parsed.name === 'OpenLimitPlaced') {
+        const index = Number(parsed.args.index);
+        return new OrderHandle(trader, pairIndex, 'limit', undefined, index, (handle) =>
+          this.trackLimitOrder(handle, buy, receipt.blockNumber, pollInterval, timeout)
+        );
+      }
+    }
+
+    throw new Error(`No order found in transaction ${receipt.hash}`);
+  }
+
+  private async trackMarketOrder(
+    handle: OrderHandle,
+    buy: boolean,
+    fromBlock: number,
+    pollInterval: number,
+    timeout: number
+  ): Promise<OrderResult> {
+    const orderId = handle.orderId!;
+    const base = { trader: handle.trader, pairIndex: handle.pairIndex, orderId };
+
+    const pending = await this.waitWhile(handle, pollInterval, timeout, async () => {
+      const [ids, order] = await Promise.all([
+        this.tradingStorageContract.getPendingOrderIds(handle.trader),
+        this.tradingStorageContract.reqIDpendingMarketOrder(orderId),
+      ]);
+      // The order stays registered until a keeper executes or cancels it
+      return ids.some((id) => Number(id) === orderId) || BigInt(order.block) > 0n;
+    });
+    if (pending) {
+      return { ...base, status: 'timedOut' };
+    }
+
+    if (await this.wasMarketOrderCanceled(handle, fromBlock)) {
+      return { ...base, status: 'canceled' };
+    }
+
+    if (handle.kind === 'marketClose') {
+      return { ...base, status: 'executed' };
+    }
+
+    const trade = await this.findStoredTrade(handle, buy, fromBlock);
+    return trade
+      ? { ...base, status: 'executed', index: trade.index, trade }
+      : { ...base, status: 'executed' };
+  }
+
+  private async trackLimitOrder(
+    handle: OrderHandle,
+    buy: boolean,
+    fromBlock: number,
+    pollInterval: number,
+    timeout: number
+  ): Promise<OrderResult> {
+    const index = handle.index!;
+    const base = { trader: handle.trader, pairIndex: handle.pairIndex, index };
+
+    const pending = await this.waitWhile(handle, pollInterval, timeout, async () =>
+      this.tradingStorageContract.hasOpenLimitOrder(handle.trader, handle.pairIndex, index)
+    );
+    if (pending) {
+      return { ...base, status: 'timedOut' };
+    }
+
+    const canceled = await this.tradingContract.queryFilter(
+      this.tradingContract.filters.OpenLimitCanceled(handle.trader),
+      fromBlock
+    );
+    const wasCanceled = canceled.some(
+      (log) =>
+        'args' in log &&
+        Number(log.args.pairIndex) === handle.pairIndex &&
+        Number(log.args.index) === index
+    );
+    if (wasCanceled) {
+      return { ...base, status: 'canceled' };
+    }
+
+    const trade = await this.findStoredTrade(handle, buy, fromBlock);
+    return trade
+      ? { ...base, status: 'executed', index: trade.index, trade }
+      : { ...base, status: 'executed' };
+  }
+
+  /**
+   * Poll until the condition is false
+   * @returns True if still pending when timing out or stopped
+   */
+  private async waitWhile(
+    handle: OrderHandle,
+    pollInterval: number,
+    timeout: number,
+    isPending: () => Promise<boolean>
+  ): Promise<boolean> {
+    const deadline = timeout > 0 ? Date.now() + timeout : Infinity;
+
+    while (!handle.isStopped() && Date.now() < deadline) {
+      try {
+        if (!(await isPending())) {
+          return false;
+        }
+      } catch (error) {
+        handle.reportError(error as Error);
+      }
+      await sleep(pollInterval);
+    }
+
+    return true;
+  }
+
+  private async wasMarketOrderCanceled(handle: OrderHandle, fromBlock: number): Promise<boolean> {
+    const event = this.tradingStorageContract.interface.getEvent('MarketOpenCanceled')!;
+    const logs = await this.provider.getLogs({
+      address: await this.tradingStorageContract.getAddress(),
+      topics: [event.topicHash, zeroPadValue(handle.trader, 32)],
+      fromBlock,
+    });
+
+    return logs.some((log) => {
+      const parsed = this.tradingStorageContract.interface.parseLog({
+        topics: [...log.topics],
+        data: log.data,
+      });
+      return parsed !== null && Number(parsed.args.orderId) === handle.orderId;
+    });
+  }
+
+  /**
+   * Find the trade an executed order opened
+   * The bundled ABIs have no execution event carrying the order ID, so the trade
+   * is only attributed when it is the single open trade on the pair and side
+   * stored since the order's block. Undefined when it was already closed
+   * (TP/SL/liquidation) or other orders opened trades there meanwhile.
+   */
+  private async findStoredTrade(
+    handle: OrderHandle,
+    buy: boolean,
+    fromBlock: number
+  ): Promise<Trade | undefined> {
+    const block = await this.provider.getBlock(fromBlock);
+    const minTimestamp = block?.timestamp ?? 0;
+
+    const maxTrades = Number(await this.tradingStorageContract.maxTradesPerPair());
+    const trades = await Promise.all(
+      Array.from({ length: maxTrades }, (_, index) =>
+        this.getOpenTrade(handle.trader, handle.pairIndex, index)
+      )
+    );
+    const stored = trades.filter(
+      (trade): trade is Trade =>
+        trade !== undefined && trade.buy === buy && trade.timestamp >= minTimestamp
+    );
+    return stored.length === 1 ? stored[0] : undefined;
+  }
+
+  private async getOpenTrade(
+    trader: string,
+    pairIndex: number,
+    index: number
+  ): Promise<Trade | undefined> {
+    const result = await this.tradingStorageContract.openTrades(trader, pairIndex, index);
+    if (BigInt(result.leverage) === 0n) {
+      return undefined;
+    }
+
+    return {
+      trader: result.trader,
+      pairIndex: Number(result.pairIndex),
+      index: Number(result.index),
+      initialPosToken: fromBlockchain6(result.initialPosToken),
+      positionSizeUSDC: fromBlockchain6(result.positionSizeUSDC),
+      openPrice: fromBlockchain10(result.openPrice),
+      buy: result.buy,
+      leverage: fromBlockchain10(result.leverage),
+      tp: fromBlockchain10(result.tp),
+      sl: fromBlockchain10(result.sl),
+      timestamp: Number(result.timestamp),
+    };
+  }
+}
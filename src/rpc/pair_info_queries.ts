@@ -1,5 +1,5 @@
-import { Contract } from 'ethers';
 import { Trade, fromBlockchain6, fromBlockchain10, fromBlockchain12, toBlockchain6, toBlockchain10 } from '../types';
+import { PairInfos, PairStorage, PriceAggregator } from '../typechain';
 
 /**
  * PairInfo Queries RPC
@@ -7,8 +7,9 @@ import { Trade, fromBlockchain6, fromBlockchain10, fromBlockchain12, toBlockchai
  */
 export class PairInfoQueriesRPC {
   constructor(
-    private pairInfosContract: Contract,
-    private priceAggregatorContract: Contract
+    private pairInfosContract: PairInfos,
+    private priceAggregatorContract: PriceAggregator,
+    private pairStorageContract: PairStorage
   ) {}
 
   /**
@@ -98,7 +99,12 @@ export class PairInfoQueriesRPC {
     positionSizeUsdc: number
   ): Promise<number> {
     const positionSize = toBlockchain6(positionSizeUsdc);
-    const impact = await this.pairInfosContract.getPriceImpactP(pairIndex, isLong, positionSize);
+    const impact = await this.pairInfosContract.getPriceImpactSpread(
+      pairIndex,
+      isLong,
+      positionSize,
+      false
+    );
     return fromBlockchain10(impact);
   }
 
@@ -114,9 +120,8 @@ export class PairInfoQueriesRPC {
     positionSizeUsdc: number,
     isLong: boolean
   ): Promise<number> {
-    const positionSize = toBlockchain6(positionSizeUsdc);
-    const fee = await this.pairInfosContract.getOpenFeeUsdc(pairIndex, positionSize, isLong);
-    return fromBlockchain6(fee);
+    const feeP = await this.getOpenFeeP(pairIndex, positionSizeUsdc, isLong);
+    return (positionSizeUsdc * feeP) / 100;
   }
 
   /**
@@ -137,12 +142,12 @@ export class PairInfoQueriesRPC {
   }
 
   /**
-   * Get pair margin fee percentage
+   * Get pair margin (rollover) fee percentage per block
    * @param pairIndex - Trading pair index
    * @returns Margin fee percentage
    */
   async getPairMarginFeeP(pairIndex: number): Promise<number> {
-    const fee = await this.pairInfosContract.getPairMarginFeeP(pairIndex);
+    const fee = await this.pairInfosContract.getRolloverFeePerBlockP(pairIndex);
     return fromBlockchain10(fee);
   }
 
@@ -150,14 +155,31 @@ export class PairInfoQueriesRPC {
    * Get loss protection tier for a pair and position size
    * @param pairIndex - Trading pair index
    * @param positionSizeUsdc - Position size in USDC
+   * @param isLong - True for long position (default: true)
    * @returns Loss protection tier
    */
   async getLossProtectionTierForSize(
     pairIndex: number,
-    positionSizeUsdc: number
+    positionSizeUsdc: number,
+    isLong: boolean = true
   ): Promise<number> {
     const positionSize = toBlockchain6(positionSizeUsdc);
-    const tier = await this.pairInfosContract.getLossProtectionTier(pairIndex, positionSize);
+    const tier = await this.pairInfosContract.lossProtectionTier(
+      {
+        trader: '0x0000000000000000000000000000000000000000',
+        pairIndex,
+        index: 0,
+        initialPosToken: positionSize,
+        positionSizeUSDC: positionSize,
+        openPrice: 0n,
+        buy: isLong,
+        leverage: toBlockchain10(1),
+        tp: 0n,
+        sl: 0n,
+        timestamp: 0,
+      },
+      false
+    );
     return Number(tier);
   }
 
@@ -168,7 +190,7 @@ export class PairInfoQueriesRPC {
    * @returns Loss protection percentage
    */
   async getLossProtectionP(pairIndex: number, tier: number): Promise<number> {
-    const protection = await this.pairInfosContract.getLossProtectionP(pairIndex, tier);
+    const protection = await this.pairStorageContract.lossProtectionMultiplier(pairIndex, tier);
     return fromBlockchain10(protection);
   }
 
@@ -178,7 +200,7 @@ export class PairInfoQueriesRPC {
    * @returns Depth in USDC
    */
   async getOnePercentDepthAboveUsdc(pairIndex: number): Promise<number> {
-    const depth = await this.pairInfosContract.onePercentDepthAboveUsdc(pairIndex);
+    const depth = await this.pairInfosContract.getOnePercentDepthAbove(pairIndex);
     return fromBlockchain6(depth);
   }
 
@@ -188,7 +210,7 @@ export class PairInfoQueriesRPC {
    * @returns Depth in USDC
    */
   async getOnePercentDepthBelowUsdc(pairIndex: number): Promise<number> {
-    const depth = await this.pairInfosContract.onePercentDepthBelowUsdc(pairIndex);
+    const depth = await this.pairInfosContract.getOnePercentDepthBelow(pairIndex);
     return fromBlockchain6(depth);
   }
 
@@ -1,19 +1,37 @@
-import { Contract, Provider } from 'ethers';
+import { Provider } from 'ethers';
 import { ContractPairInfo, PairInfo, PairInfoSchema, PairsBackendReturn, fromBlockchain10, fromBlockchain6 } from '../types';
 import { API_ENDPOINTS } from '../config';
+import { decodeContractError } from '../errors';
+import { PairStorage } from '../typechain';
+
+/**
+ * A pair together with its Pyth price feed
+ */
+export interface PairFeed {
+  pair: string;
+  pairIndex: number;
+  feedId: string;
+}
 
 /**
  * RPC module for caching and managing trading pair information
  */
 export class PairsCache {
   private provider: Provider;
-  private pairStorageContract: Contract;
+  private pairStorageContract: PairStorage;
   private pairsCache?: Map<number, PairInfo>;
   private pairNameToIndexMap?: Map<string, number>;
+  private pairFeedIds?: Map<number, string>;
+  private socketApiUrl: string;
 
-  constructor(provider: Provider, pairStorageContract: Contract) {
+  constructor(
+    provider: Provider,
+    pairStorageContract: PairStorage,
+    socketApiUrl: string = API_ENDPOINTS.SOCKET_API
+  ) {
     this.provider = provider;
     this.pairStorageContract = pairStorageContract;
+    this.socketApiUrl = socketApiUrl;
   }
 
   /**
@@ -28,16 +46,23 @@ export class PairsCache {
 
     const pairs = new Map<number, PairInfo>();
     const pairNameToIndex = new Map<string, number>();
+    const pairFeedIds = new Map<number, string>();
 
     try {
       // Get pairs count
       const pairsCount = await this.pairStorageContract.pairsCount();
       const count = Number(pairsCount);
 
-      // Fetch all pairs
-      for (let i = 0; i < count; i++) {
-        const pairData = await this.getOtherPairInfoFromIndex(i);
-       const pair = await this.getPairInfoNameFromIndex(i)
+      // Fetch all pairs in parallel so the calls can be batched
+      const indexes = Array.from({ length: count }, (_, i) => i);
+      const fetched = await Promise.all(
+        indexes.map((i) =>
+          Promise.all([this.getOtherPairInfoFromIndex(i), this.getPairInfoNameFromIndex(i)])
+        )
+      );
+
+      for (const i of indexes) {
+        const [pairData, pair] = fetched[i];
         const pairInfo: PairInfo = {
           from: pair.from,
           to: pair.to,
@@ -54,15 +79,16 @@ export class PairsCache {
 
         pairs.set(i, pairInfo);
         pairNameToIndex.set(`${pairInfo.from}/${pairInfo.to}`, i);
+        pairFeedIds.set(i, pairData.feed.feedId);
       }
 
       this.pairsCache = pairs;
       this.pairNameToIndexMap = pairNameToIndex;
+      this.pairFeedIds = pairFeedIds;
 
       return pairs;
     } catch (error) {
-      console.error('Error fetching pairs info from blockchain:', error);
-      throw error;
+      throw decodeContractError(error);
     }
   }
 
@@ -178,16 +204,11 @@ const values = pairData[9]
    * @returns Pair information from API
    */
   async getPairInfoFromSocket(): Promise<any> {
-    try {
-      const response = await fetch(API_ENDPOINTS.SOCKET_API);
-      if (!response.ok) {
-        throw new Error(`Failed to fetch from socket API: ${response.statusText}`);
-      }
-      return await response.json();
-    } catch (error) {
-      console.error('Error fetching pair info from socket API:', error);
-      throw error;
+    const response = await fetch(this.socketApiUrl);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch from socket API: ${response.statusText}`);
     }
+    return await response.json();
   }
 
   /**
@@ -215,6 +236,36 @@ const values = pairData[9]
     return pair ? `${pair.from}/${pair.to}` : undefined;
   }
 
+  /**
+   * Get the Pyth feed ID stored on-chain for a pair
+   * @param pairIndex - Pair index
+   * @returns Feed ID (bytes32) or undefined if not found
+   */
+  async getFeedId(pairIndex: number): Promise<string | undefined> {
+    if (!this.pairFeedIds) {
+      await this.getPairsInfo();
+    }
+    return this.pairFeedIds?.get(pairIndex);
+  }
+
+  /**
+   * Get every pair with its Pyth feed ID
+   * @returns Array of pair feeds ordered by pair index
+   */
+  async getPairFeeds(): Promise<PairFeed[]> {
+    const pairs = await this.getPairsInfo();
+    const feeds: PairFeed[] = [];
+
+    pairs.forEach((pair, pairIndex) => {
+      const feedId = this.pairFeedIds?.get(pairIndex);
+      if (feedId) {
+        feeds.push({ pair: `${pair.from}/${pair.to}`, pairIndex, feedId });
+      }
+    });
+
+    return feeds;
+  }
+
   /**
    * Get all unique group indexes
    * @returns Array of group indexes
@@ -264,5 +315,6 @@ const values = pairData[9]
   clearCache(): void {
     this.pairsCache = undefined;
     this.pairNameToIndexMap = undefined;
+    this.pairFeedIds = undefined;
   }
 }
@@ -0,0 +1,209 @@
+import { Provider } from 'ethers';
+import { FeedClient } from '../feed/feed_client';
+import { fromPythPrice, normalizeFeedId } from '../feed/pyth';
+import { decodeContractError } from '../errors';
+import { ERC20 } from '../typechain';
+import { HermesPriceFeed, PositionAnalytics, fromBlockchain18, fromBlockchain6 } from '../types';
+import {
+  AggregatedLimitOrder,
+  AggregatedPosition,
+  MulticallRPC,
+  PendingMarketOrder,
+} from './multicall';
+import { PairsCache } from './pairs_cache';
+import { PositionAnalyticsRPC } from './position_analytics';
+
+/**
+ * Open trade with its live valuation
+ */
+export interface PortfolioPosition extends AggregatedPosition {
+  /** PnL at the current Pyth price (undefined if no price was available) */
+  analytics?: PositionAnalytics;
+  /** Why analytics are missing: the price or the valuation request failed */
+  error?: Error;
+}
+
+/**
+ * Aggregates over all open trades and limit orders
+ */
+export interface PortfolioTotals {
+  /** Collateral in open trades (USDC) */
+  margin: number;
+  /** Leveraged size of open trades (USDC) */
+  exposure: number;
+  longExposure: number;
+  shortExposure: number;
+  /** Net PnL of priced trades after fees (USDC) */
+  unrealizedPnl: number;
+  /** Accrued rollover fees (USDC) */
+  rolloverFees: number;
+  /** Collateral reserved by open limit orders (USDC) */
+  limitOrderMargin: number;
+}
+
+/**
+ * Complete state of a trader account
+ */
+export interface Portfolio {
+  trader: string;
+  blockNumber: number;
+  positions: PortfolioPosition[];
+  limitOrders: AggregatedLimitOrder[];
+  pendingOrders: PendingMarketOrder[];
+  usdcBalance: number;
+  /** USDC the Trading contract may spend */
+  usdcAllowance: number;
+  /** Native balance available for execution fees */
+  ethBalance: number;
+  totals: PortfolioTotals;
+}
+
+/**
+ * Portfolio RPC
+ * Assembles a trader's positions, orders and balances from as few requests
+ * as possible: one Multicall overview, one Hermes request for prices and
+ * parallel valuation calls that a batching provider can coalesce.
+ */
+export class PortfolioRPC {
+  private provider: Provider;
+  private usdcContract: ERC20;
+  private tradingAddress: string;
+  private multicall: MulticallRPC;
+  private positionAnalytics: PositionAnalyticsRPC;
+  private pairsCache: PairsCache;
+  private feedClient?: FeedClient;
+
+  constructor(
+    provider: Provider,
+    usdcContract: ERC20,
+    tradingAddress: string,
+    multicall: MulticallRPC,
+    positionAnalytics: PositionAnalyticsRPC,
+    pairsCache: PairsCache,
+    feedClient?: FeedClient
+  ) {
+    this.provider = provider;
+    this.usdcContract = usdcContract;
+    this.tradingAddress = tradingAddress;
+    this.multicall = multicall;
+    this.positionAnalytics = positionAnalytics;
+    this.pairsCache = pairsCache;
+    this.feedClient = feedClient;
+  }
+
+  /**
+   * Get the complete state of a trader account
+   * @param trader - Trader address
+   * @returns Portfolio
+   */
+  async getPortfolio(trader: string): Promise<Portfolio> {
+    const [overview, usdcBalance, usdcAllowance, ethBalance] = await Promise.all([
+      this.multicall.getAccountOverview(trader),
+      this.usdcContract.balanceOf(trader),
+      this.usdcContract.allowance(trader, this.tradingAddress),
+      this.provider.getBalance(trader),
+    ]);
+
+    const prices = await this.getPrices(overview.positions.map(({ trade }) => trade.pairIndex));
+    const positions = await Promise.all(
+      overview.positions.map(async (position): Promise<PortfolioPosition> => {
+        const price = prices.get(position.trade.pairIndex);
+        if (price instanceof Error) return { ...position, error: price };
+        if (price === undefined) return position;
+
+        try {
+          // The overview already holds the liquidation price and rollover fee
+          const analytics = await this.positionAnalytics.getPositionAnalytics(position, price);
+          return { ...position, analytics };
+        } catch (error) {
+          return { ...position, error: decodeContractError(error) };
+        }
+      })
+    );
+
+    return {
+      trader,
+      blockNumber: overview.blockNumber,
+      positions,
+      limitOrders: overview.limitOrders,
+      pendingOrders: overview.pendingOrders,
+      usdcBalance: fromBlockchain6(usdcBalance),
+      usdcAllowance: fromBlockchain6(usdcAllowance),
+      ethBalance: fromBlockchain18(ethBalance),
+      totals: this.getTotals(positions, overview.limitOrders),
+    };
+  }
+
+  /**
+   * Fetch current prices for the given pairs in a single Hermes request
+   * Pairs whose price could not be fetched map to the error.
+   */
+  private async getPrices(pairIndexes: number[]): Promise<Map<number, number | Error>> {
+    const prices = new Map<number, number | Error>();
+    const uniquePairs = Array.from(new Set(pairIndexes));
+    if (!this.feedClient || uniquePairs.length === 0) {
+      return prices;
+    }
+
+    try {
+      const feedIds = await Promise.all(
+        uniquePairs.map((pairIndex) => this.pairsCache.getFeedId(pairIndex))
+      );
+      const ids = feedIds.filter((feedId): feedId is string => feedId !== undefined);
+      const response = ids.length > 0 ? await this.feedClient.getLatestPriceUpdates(ids) : undefined;
+      const parsed = new Map<string, HermesPriceFeed>(
+        (response?.parsed ?? []).map((feed) => [normalizeFeedId(feed.id), feed])
+      );
+
+      uniquePairs.forEach((pairIndex, i) => {
+        const feedId = feedIds[i];
+        const feed = feedId === undefined ? undefined : parsed.get(normalizeFeedId(feedId));
+        prices.set(
+          pairIndex,
+          feed
+            ? fromPythPrice(feed.price.price, feed.price.expo)
+            : new Error(`No price returned for pair ${pairIndex}`)
+        );
+      });
+    } catch (error) {
+      const failure = decodeContractError(error);
+      uniquePairs.forEach((pairIndex) => prices.set(pairIndex, failure));
+    }
+
+    return prices;
+  }
+
+  private getTotals(
+    positions: PortfolioPosition[],
+    limitOrders: AggregatedLimitOrder[]
+  ): PortfolioTotals {
+    const totals: PortfolioTotals = {
+      margin: 0,
+      exposure: 0,
+      longExposure: 0,
+      shortExposure: 0,
+      unrealizedPnl: 0,
+      rolloverFees: 0,
+      limitOrderMargin: 0,
+    };
+
+    for (const { trade, rolloverFee, analytics } of positions) {
+      const size = trade.positionSizeUSDC * trade.leverage;
+      totals.margin += trade.positionSizeUSDC;
+      totals.exposure += size;
+      if (trade.buy) {
+        totals.longExposure += size;
+      } else {
+        totals.shortExposure += size;
+      }
+      totals.rolloverFees += rolloverFee;
+      totals.unrealizedPnl += analytics?.netPnl ?? 0;
+    }
+
+    for (const { order } of limitOrders) {
+      totals.limitOrderMargin += order.positionSize;
+    }
+
+    return totals;
+  }
+}
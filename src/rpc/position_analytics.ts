@@ -0,0 +1,382 @@
+import {
+  Trade,
+  TradeInput,
+  PositionAnalytics,
+  PairsBackendReturn,
+  fromBlockchain6,
+  fromBlockchain10,
+  toBlockchain6,
+  toBlockchain10,
+} from '../types';
+import { PairsCache } from './pairs_cache';
+import type { AggregatedPosition } from './multicall';
+import { FeedClient } from '../feed/feed_client';
+import { fromPythPrice } from '../feed/pyth';
+import { PairInfos, PairStorage } from '../typechain';
+import { PairNotListed } from '../errors';
+
+/**
+ * Position Analytics RPC
+ * Computes liquidation price, current value and PnL for open trades or
+ * prospective trades using the PairInfos and PairStorage contract math.
+ */
+export class PositionAnalyticsRPC {
+  private pairInfosContract: PairInfos;
+  private pairStorageContract: PairStorage;
+  private pairsCache: PairsCache;
+  private feedClient?: FeedClient;
+
+  constructor(
+    pairInfosContract: PairInfos,
+    pairStorageContract: PairStorage,
+    pairsCache: PairsCache,
+    feedClient?: FeedClient
+  ) {
+    this.pairInfosContract = pairInfosContract;
+    this.pairStorageContract = pairStorageContract;
+    this.pairsCache = pairsCache;
+    this.feedClient = feedClient;
+  }
+
+  /**
+   * Get analytics for an open trade or a trade input
+   * @param position - Open trade (from TradingStorage) or trade input
+   * @param currentPrice - Price to evaluate at (optional, fetched from Pyth if omitted)
+   * @returns Position analytics
+   */
+  async getAnalytics(
+    position: Trade | TradeInput,
+    currentPrice?: number
+  ): Promise<PositionAnalytics> {
+    if ('trader' in position) {
+      return await this.getTradeAnalytics(position, currentPrice);
+    }
+    return await this.getTradeInputAnalytics(position, currentPrice);
+  }
+
+  /**
+   * Get analytics for an open trade
+   * Uses the stored trade's accrued rollover fee and loss protection.
+   * @param trade - Open trade
+   * @param currentPrice - Price to evaluate at (optional, fetched from Pyth if omitted)
+   * @returns Position analytics
+   */
+  async getTradeAnalytics(trade: Trade, currentPrice?: number): Promise<PositionAnalytics> {
+    const backend = await this.pairsCache.getPairBackend(trade.pairIndex);
+    const price = currentPrice ?? (await this.fetchPrice(backend, trade.pairIndex));
+
+    const collateral = toBlockchain6(trade.positionSizeUSDC);
+    const leverage = toBlockchain10(trade.leverage);
+    const openPrice = toBlockchain10(trade.openPrice);
+    const closingFee = this.getClosingFee(backend, collateral, leverage);
+
+    const [liquidationPrice, rolloverFee, percentProfit] = await Promise.all([
+      this.pairInfosContract.getTradeLiquidationPrice(
+        trade.trader,
+        trade.pairIndex,
+        trade.index,
+        openPrice,
+        trade.buy,
+        collateral,
+        leverage
+      ),
+      this.pairInfosContract.getTradeRolloverFee(
+        trade.trader,
+        trade.pairIndex,
+        trade.index,
+        trade.buy,
+        collateral,
+        leverage
+      ),
+      this.getPercentProfit(trade.pairIndex, openPrice, price, trade.buy, leverage),
+    ]);
+
+    return await this.valueTrade(
+      trade,
+      price,
+      closingFee,
+      percentProfit,
+      liquidationPrice,
+      rolloverFee
+    );
+  }
+
+  /**
+   * Get analytics for a position from the Multicall account overview
+   * Reuses the overview's liquidation price and accrued rollover fee, so only
+   * the PnL and the trade value are read from chain.
+   * @param position - Position from MulticallRPC.getPositions() or getAccountOverview()
+   * @param currentPrice - Price to evaluate at (optional, fetched from Pyth if omitted)
+   * @returns Position analytics
+   */
+  async getPositionAnalytics(
+    position: AggregatedPosition,
+    currentPrice?: number
+  ): Promise<PositionAnalytics> {
+    const { trade } = position;
+    const backend = await this.pairsCache.getPairBackend(trade.pairIndex);
+    const price = currentPrice ?? (await this.fetchPrice(backend, trade.pairIndex));
+
+    const collateral = toBlockchain6(trade.positionSizeUSDC);
+    const leverage = toBlockchain10(trade.leverage);
+    const closingFee = this.getClosingFee(backend, collateral, leverage);
+    const percentProfit = await this.getPercentProfit(
+      trade.pairIndex,
+      toBlockchain10(trade.openPrice),
+      price,
+      trade.buy,
+      leverage
+    );
+
+    return await this.valueTrade(
+      trade,
+      price,
+      closingFee,
+      percentProfit,
+      toBlockchain10(position.liquidationPrice),
+      toBlockchain6(position.rolloverFee)
+    );
+  }
+
+  /**
+   * Get analytics for a prospective trade
+   * No rollover fee has accrued yet; market orders are evaluated at the current price.
+   * @param tradeInput - Trade input parameters
+   * @param currentPrice - Price to evaluate at (optional, fetched from Pyth if omitted)
+   * @returns Position analytics
+   */
+  async getTradeInputAnalytics(
+    tradeInput: TradeInput,
+    currentPrice?: number
+  ): Promise<PositionAnalytics> {
+    const pairIndex = await this.pairsCache.getPairIndex(tradeInput.pair);
+    if (pairIndex === undefined) {
+      throw new PairNotListed(`Pair ${tradeInput.pair} not found`);
+    }
+
+    const backend = await this.pairsCache.getPairBackend(pairIndex);
+    const price = currentPrice ?? (await this.fetchPrice(backend, pairIndex));
+    const entryPrice = tradeInput.openPrice > 0 ? tradeInput.openPrice : price;
+
+    const collateral = toBlockchain6(tradeInput.collateralInTrade);
+    const leverage = toBlockchain10(tradeInput.leverage);
+    const openPrice = toBlockchain10(entryPrice);
+    const closingFee = this.getClosingFee(backend, collateral, leverage);
+
+    const [liquidationPrice, percentProfit] = await Promise.all([
+      this.pairInfosContract.getTradeLiquidationPricePure(
+        openPrice,
+        tradeInput.isLong,
+        collateral,
+        leverage,
+        0n
+      ),
+      this.getPercentProfit(pairIndex, openPrice, price, tradeInput.isLong, leverage),
+    ]);
+
+    const [amount] = await this.pairInfosContract.getTradeValuePure(
+      collateral,
+      percentProfit,
+      0n,
+      closingFee,
+      0n
+    );
+
+    return this.buildAnalytics({
+      pairIndex,
+      buy: tradeInput.isLong,
+      collateral: tradeInput.collateralInTrade,
+      leverage: tradeInput.leverage,
+      openPrice: entryPrice,
+      currentPrice: price,
+      liquidationPrice,
+      percentProfit,
+      rolloverFee: 0n,
+      closingFee,
+      amount,
+    });
+  }
+
+  /**
+   * Get liquidation price for an open trade
+   * @param trade - Open trade
+   * @returns Liquidation price
+   */
+  async getLiquidationPrice(trade: Trade): Promise<number> {
+    const liquidationPrice = await this.pairInfosContract.getTradeLiquidationPrice(
+      trade.trader,
+      trade.pairIndex,
+      trade.index,
+      toBlockchain10(trade.openPrice),
+      trade.buy,
+      toBlockchain6(trade.positionSizeUSDC),
+      toBlockchain10(trade.leverage)
+    );
+    return fromBlockchain10(liquidationPrice);
+  }
+
+  /**
+   * Get accrued rollover (borrow) fee for an open trade
+   * @param trade - Open trade
+   * @returns Rollover fee in USDC
+   */
+  async getRolloverFee(trade: Trade): Promise<number> {
+    const fee = await this.pairInfosContract.getTradeRolloverFee(
+      trade.trader,
+      trade.pairIndex,
+      trade.index,
+      trade.buy,
+      toBlockchain6(trade.positionSizeUSDC),
+      toBlockchain10(trade.leverage)
+    );
+    return fromBlockchain6(fee);
+  }
+
+  /**
+   * Get the live Pyth price for a pair
+   * @param pairIndex - Pair index
+   * @returns Current price
+   */
+  async getCurrentPrice(pairIndex: number): Promise<number> {
+    const backend = await this.pairsCache.getPairBackend(pairIndex);
+    return await this.fetchPrice(backend, pairIndex);
+  }
+
+  /**
+   * Set feed client used for live prices
+   */
+  setFeedClient(feedClient: FeedClient): void {
+    this.feedClient = feedClient;
+  }
+
+  private async fetchPrice(backend: PairsBackendReturn, pairIndex: number): Promise<number> {
+    if (!this.feedClient) {
+      throw new Error('FeedClient required for live prices; pass currentPrice instead');
+    }
+
+    const response = await this.feedClient.getLatestPriceUpdates([backend.pair.feed.feedId]);
+    const parsed = response?.parsed?.[0];
+    if (!parsed) {
+      throw new Error(`No price update returned for pair ${pairIndex}`);
+    }
+
+    return fromPythPrice(parsed.price.price, parsed.price.expo);
+  }
+
+  private async getPercentProfit(
+    pairIndex: number,
+    openPrice: bigint,
+    currentPrice: number,
+    buy: boolean,
+    leverage: bigint
+  ): Promise<bigint> {
+    return await this.pairStorageContract.currentPercentProfit(
+      openPrice,
+      toBlockchain10(currentPrice),
+      buy,
+      leverage,
+      pairIndex
+    );
+  }
+
+  /**
+   * Closing fee in USDC (6 decimals); closeFeeP is a 12 decimal percentage
+   */
+  private getClosingFee(
+    backend: PairsBackendReturn,
+    collateral: bigint,
+    leverage: bigint
+  ): bigint {
+    const positionSize = (collateral * leverage) / 10n ** 10n;
+    return (positionSize * backend.fee.closeFeeP) / (100n * 10n ** 12n);
+  }
+
+  /**
+   * Value an open trade through PairInfos.getTradeValue and build its analytics
+   */
+  private async valueTrade(
+    trade: Trade,
+    currentPrice: number,
+    closingFee: bigint,
+    percentProfit: bigint,
+    liquidationPrice: bigint,
+    rolloverFee: bigint
+  ): Promise<PositionAnalytics> {
+    const [amount] = await this.pairInfosContract.getTradeValue.staticCall(
+      this.toTradeStruct(trade),
+      toBlockchain6(trade.positionSizeUSDC),
+      percentProfit,
+      closingFee
+    );
+
+    return this.buildAnalytics({
+      pairIndex: trade.pairIndex,
+      buy: trade.buy,
+      collateral: trade.positionSizeUSDC,
+      leverage: trade.leverage,
+      openPrice: trade.openPrice,
+      currentPrice,
+      liquidationPrice,
+      percentProfit,
+      rolloverFee,
+      closingFee,
+      amount,
+    });
+  }
+
+  private buildAnalytics(params: {
+    pairIndex: number;
+    buy: boolean;
+    collateral: number;
+    leverage: number;
+    openPrice: number;
+    currentPrice: number;
+    liquidationPrice: bigint;
+    percentProfit: bigint;
+    rolloverFee: bigint;
+    closingFee: bigint;
+    amount: bigint;
+  }): PositionAnalytics {
+    const liquidationPrice = fromBlockchain10(params.liquidationPrice);
+    const percentProfit = Number(params.percentProfit) / 1e10;
+    const value = fromBlockchain6(params.amount);
+
+    const distance = params.buy
+      ? params.currentPrice - liquidationPrice
+      : liquidationPrice - params.currentPrice;
+
+    return {
+      pairIndex: params.pairIndex,
+      buy: params.buy,
+      collateral: params.collateral,
+      positionSize: params.collateral * params.leverage,
+      openPrice: params.openPrice,
+      currentPrice: params.currentPrice,
+      liquidationPrice,
+      percentProfit,
+      grossPnl: (params.collateral * percentProfit) / 100,
+      rolloverFee: fromBlockchain6(params.rolloverFee),
+      closingFee: fromBlockchain6(params.closingFee),
+      netPnl: value - params.collateral,
+      value,
+      distanceToLiquidationP:
+        params.currentPrice > 0 ? (distance / params.currentPrice) * 100 : 0,
+    };
+  }
+
+  private toTradeStruct(trade: Trade) {
+    return {
+      trader: trade.trader,
+      pairIndex: trade.pairIndex,
+      index: trade.index,
+      initialPosToken: toBlockchain6(trade.initialPosToken),
+      positionSizeUSDC: toBlockchain6(trade.positionSizeUSDC),
+      openPrice: toBlockchain10(trade.openPrice),
+      buy: trade.buy,
+      leverage: toBlockchain10(trade.leverage),
+      tp: toBlockchain10(trade.tp),
+      sl: toBlockchain10(trade.sl),
+      timestamp: trade.timestamp,
+    };
+  }
+}
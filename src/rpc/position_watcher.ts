@@ -0,0 +1,349 @@
+import { EventEmitter } from 'events';
+import { FeedClient, PairPriceUpdate } from '../feed/feed_client';
+import { Trade, TradeInfo } from '../types';
+import { EventIndexer } from './event_indexer';
+import { MulticallRPC } from './multicall';
+import { PairsCache } from './pairs_cache';
+
+/**
+ * Live risk metrics of an open trade
+ */
+export interface PositionState {
+  trade: Trade;
+  tradeInfo: TradeInfo;
+  /** Liquidation price from the PairInfos liquidation math */
+  liquidationPrice: number;
+  /** Accrued rollover fee in USDC at the last refresh */
+  rolloverFee: number;
+  /** Last mark price (undefined until the first tick) */
+  price?: number;
+  /** Mark-to-market PnL in USDC, net of accrued rollover fee */
+  pnl: number;
+  /** PnL as % of collateral */
+  pnlPercent: number;
+  /** Remaining equity as a fraction of collateral (1 = flat, 0 = wiped out) */
+  marginRatio: number;
+  /** % move of the mark price until liquidation */
+  distanceToLiquidationP: number;
+  /** How far the price has travelled from open toward liquidation (0 = at open, 1 = liquidated) */
+  liquidationProgress: number;
+  /** Time of the last recompute (ms since epoch) */
+  updatedAt: number;
+}
+
+/**
+ * Payload of the 'risk' and 'riskCleared' events
+ */
+export interface PositionRiskEvent {
+  position: PositionState;
+  /** The liquidationProgress threshold that was crossed */
+  threshold: number;
+}
+
+/**
+ * PositionWatcher options
+ */
+export interface PositionWatcherOptions {
+  /** liquidationProgress levels that trigger 'risk' events (default: [0.8]) */
+  thresholds?: number[];
+  /** Re-read open trades at this interval in milliseconds (default: 30000, 0 = off) */
+  refreshInterval?: number;
+  /** Re-read open trades when the trader's Trading/TradingStorage events arrive (default: true) */
+  refreshOnEvents?: boolean;
+  /** Event polling interval in milliseconds (default: 4000) */
+  eventPollInterval?: number;
+}
+
+/**
+ * Position Watcher
+ * Combines a trader's open trades with live Pyth prices and recomputes PnL,
+ * margin ratio and distance to liquidation on every tick.
+ *
+ * Events:
+ * - 'update' (PositionState) on every recompute
+ * - 'opened' / 'closed' (PositionState) when a refresh finds a new or missing trade
+ * - 'risk' / 'riskCleared' (PositionRiskEvent) when liquidationProgress crosses a threshold
+ * - 'error' (Error) for refresh failures, when a listener is attached. Nothing
+ *   is logged to the console.
+ */
+export class PositionWatcher extends EventEmitter {
+  private trader: string;
+  private multicall: MulticallRPC;
+  private events: EventIndexer;
+  private feedClient: FeedClient;
+  private pairsCache: PairsCache;
+  private thresholds: number[];
+  private refreshInterval: number;
+  private refreshOnEvents: boolean;
+  private eventPollInterval: number;
+  private positions: Map<string, PositionState> = new Map();
+  private prices: Map<number, number> = new Map();
+  private crossed: Map<string, Set<number>> = new Map();
+  private subscriptions: Map<number, () => void> = new Map();
+  private refreshTimer?: NodeJS.Timeout;
+  private stopFollowing?: () => void;
+  private refreshing?: Promise<void>;
+  private running = false;
+
+  /**
+   * Create a PositionWatcher
+   * @param trader - Trader address
+   * @param multicall - Multicall RPC (open trades with liquidation prices)
+   * @param events - Event indexer used to refresh on the trader's events
+   * @param feedClient - Feed client for live prices
+   * @param pairsCache - Pairs cache (resolves pair names)
+   * @param options - Thresholds and refresh options
+   */
+  constructor(
+    trader: string,
+    multicall: MulticallRPC,
+    events: EventIndexer,
+    feedClient: FeedClient,
+    pairsCache: PairsCache,
+    options: PositionWatcherOptions = {}
+  ) {
+    super();
+    this.trader = trader;
+    this.multicall = multicall;
+    this.events = events;
+    this.feedClient = feedClient;
+    this.pairsCache = pairsCache;
+    this.thresholds = [...(options.thresholds ?? [0.8])].sort((a, b) => a - b);
+    this.refreshInterval = options.refreshInterval ?? 30000;
+    this.refreshOnEvents = options.refreshOnEvents ?? true;
+    this.eventPollInterval = options.eventPollInterval ?? 4000;
+  }
+
+  /**
+   * Load open trades, subscribe to their prices and start refreshing
+   * Connects the feed client if it is not connected yet. If loading or
+   * connecting fails the watcher is stopped again and start() can be retried.
+   */
+  async start(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      await this.refresh();
+
+      if (this.refreshInterval > 0) {
+        this.refreshTimer = setInterval(() => this.refreshInBackground(), this.refreshInterval);
+      }
+      if (this.refreshOnEvents) {
+        this.stopFollowing = this.events.follow(() => this.refreshInBackground(), {
+          trader: this.trader,
+          pollInterval: this.eventPollInterval,
+          onError: (error) => this.reportError(error),
+        });
+      }
+      if (!this.feedClient.isConnected()) {
+        await this.feedClient.listenForPriceUpdates();
+      }
+    } catch (error) {
+      this.stop();
+      throw error;
+    }
+  }
+
+  /**
+   * Stop refreshing and unsubscribe from prices
+   * The feed client connection is left open.
+   */
+  stop(): void {
+    this.running = false;
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = undefined;
+    }
+    if (this.stopFollowing) {
+      this.stopFollowing();
+      this.stopFollowing = undefined;
+    }
+    this.subscriptions.forEach((unsubscribe) => unsubscribe());
+    this.subscriptions.clear();
+  }
+
+  /**
+   * Current state of every watched trade
+   */
+  getPositions(): PositionState[] {
+    return Array.from(this.positions.values(), (position) => ({ ...position }));
+  }
+
+  /**
+   * Re-read open trades now
+   * Concurrent calls share one request.
+   */
+  refresh(): Promise<void> {
+    if (!this.refreshing) {
+      this.refreshing = this.load().finally(() => {
+        this.refreshing = undefined;
+      });
+    }
+    return this.refreshing;
+  }
+
+  /**
+   * Apply a price tick
+   * @param pairIndex - Pair index
+   * @param price - Mark price
+   */
+  updatePrice(pairIndex: number, price: number): void {
+    this.prices.set(pairIndex, price);
+    this.positions.forEach((position, key) => {
+      if (position.trade.pairIndex === pairIndex) {
+        this.recompute(key, position);
+      }
+    });
+  }
+
+  /**
+   * Refresh from the timer or an event, reporting failures instead of rejecting
+   */
+  private refreshInBackground(): void {
+    this.refresh().catch((error) => this.reportError(error as Error));
+  }
+
+  private async load(): Promise<void> {
+    const { positions: aggregated } = await this.multicall.getPositions(this.trader);
+
+    const seen = new Set<string>();
+    for (const position of aggregated) {
+      const key = positionKey(position.trade);
+      seen.add(key);
+
+      const previous = this.positions.get(key);
+      const state: PositionState = {
+        ...(previous ?? emptyMetrics()),
+        trade: position.trade,
+        tradeInfo: position.tradeInfo,
+        liquidationPrice: position.liquidationPrice,
+        rolloverFee: position.rolloverFee,
+      };
+      this.positions.set(key, state);
+
+      if (!previous) {
+        this.emit('opened', { ...state });
+      }
+      this.recompute(key, state);
+    }
+
+    for (const [key, position] of this.positions) {
+      if (!seen.has(key)) {
+        this.positions.delete(key);
+        this.crossed.delete(key);
+        this.emit('closed', { ...position });
+      }
+    }
+
+    if (this.running) {
+      await this.syncSubscriptions();
+    }
+  }
+
+  /**
+   * Subscribe to pairs with open trades and drop the rest
+   */
+  private async syncSubscriptions(): Promise<void> {
+    const pairIndexes = new Set(
+      Array.from(this.positions.values(), ({ trade }) => trade.pairIndex)
+    );
+
+    for (const [pairIndex, unsubscribe] of this.subscriptions) {
+      if (!pairIndexes.has(pairIndex)) {
+        unsubscribe();
+        this.subscriptions.delete(pairIndex);
+        this.prices.delete(pairIndex);
+      }
+    }
+
+    for (const pairIndex of pairIndexes) {
+      if (this.subscriptions.has(pairIndex)) continue;
+
+      const pair = await this.pairsCache.getPairName(pairIndex);
+      if (!this.running) return;
+      if (!pair) {
+        this.reportError(new Error(`Pair ${pairIndex} not found`));
+        continue;
+      }
+      const unsubscribe = await this.feedClient.subscribePair(pair, (update: PairPriceUpdate) =>
+        this.updatePrice(update.pairIndex, update.price)
+      );
+      // stop() ran, or another sync subscribed the pair, while this one waited
+      if (!this.running || this.subscriptions.has(pairIndex)) {
+        unsubscribe();
+        continue;
+      }
+      this.subscriptions.set(pairIndex, unsubscribe);
+    }
+  }
+
+  private recompute(key: string, position: PositionState): void {
+    const price = this.prices.get(position.trade.pairIndex);
+    if (price === undefined) return;
+
+    const { trade, liquidationPrice, rolloverFee } = position;
+    const direction = trade.buy ? 1 : -1;
+    const collateral = trade.positionSizeUSDC;
+    const priceMove = trade.openPrice > 0 ? (price - trade.openPrice) / trade.openPrice : 0;
+    const pnl = collateral * priceMove * trade.leverage * direction - rolloverFee;
+
+    const toLiquidation = trade.openPrice - liquidationPrice;
+    const liquidationProgress =
+      liquidationPrice > 0 && toLiquidation !== 0
+        ? Math.max(0, (trade.openPrice - price) / toLiquidation)
+        : 0;
+
+    position.price = price;
+    position.pnl = pnl;
+    position.pnlPercent = collateral > 0 ? (pnl / collateral) * 100 : 0;
+    position.marginRatio = collateral > 0 ? (collateral + pnl) / collateral : 0;
+    position.distanceToLiquidationP =
+      liquidationPrice > 0 ? (((price - liquidationPrice) * direction) / price) * 100 : Infinity;
+    position.liquidationProgress = liquidationProgress;
+    position.updatedAt = Date.now();
+
+    this.emit('update', { ...position });
+    this.checkThresholds(key, position);
+  }
+
+  private checkThresholds(key: string, position: PositionState): void {
+    const crossed = this.crossed.get(key) ?? new Set<number>();
+    this.crossed.set(key, crossed);
+
+    for (const threshold of this.thresholds) {
+      const above = position.liquidationProgress >= threshold;
+      if (above && !crossed.has(threshold)) {
+        crossed.add(threshold);
+        this.emit('risk', { position: { ...position }, threshold } satisfies PositionRiskEvent);
+      } else if (!above && crossed.has(threshold)) {
+        crossed.delete(threshold);
+        this.emit('riskCleared', {
+          position: { ...position },
+          threshold,
+        } satisfies PositionRiskEvent);
+      }
+    }
+  }
+
+  private reportError(error: Error): void {
+    if (this.listenerCount('error') > 0) {
+      this.emit('error', error);
+    }
+  }
+}
+
+function positionKey(trade: Trade): string {
+  return `${trade.pairIndex}:${trade.index}`;
+}
+
+function emptyMetrics() {
+  return {
+    pnl: 0,
+    pnlPercent: 0,
+    marginRatio: 1,
+    distanceToLiquidationP: Infinity,
+    liquidationProgress: 0,
+    updatedAt: 0,
+  };
+}
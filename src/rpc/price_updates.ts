@@ -0,0 +1,115 @@
+import { FeedClient } from '../feed/feed_client';
+import { PairsCache } from './pairs_cache';
+import { PriceAggregator, Pyth, Pyth__factory } from '../typechain';
+
+/**
+ * Signed Pyth price update and the fee the oracle charges to verify it
+ */
+export interface PriceUpdate {
+  /** Hex-encoded VAAs passed as `priceUpdateData` */
+  priceUpdateData: string[];
+  /** Pyth update fee in wei, to be added to the transaction value */
+  updateFee: bigint;
+}
+
+/**
+ * Price Update RPC
+ * Fetches the signed Pyth price update (VAA) for a pair from Hermes and
+ * computes the update fee, for Trading calls that take `priceUpdateData`
+ * (updateMargin, updateTpAndSl).
+ */
+export class PriceUpdateRPC {
+  private priceAggregatorContract: PriceAggregator;
+  private pairsCache: PairsCache;
+  private feedClient: FeedClient;
+  private pythContract?: Pyth;
+  private feedIds: Map<number, string> = new Map();
+
+  /**
+   * Create a PriceUpdateRPC
+   * @param priceAggregatorContract - PriceAggregator contract (resolves the Pyth contract)
+   * @param pairsCache - Pairs cache (resolves the pair's feed ID)
+   * @param feedClient - Feed client used to fetch updates from Hermes
+   */
+  constructor(
+    priceAggregatorContract: PriceAggregator,
+    pairsCache: PairsCache,
+    feedClient: FeedClient
+  ) {
+    this.priceAggregatorContract = priceAggregatorContract;
+    this.pairsCache = pairsCache;
+    this.feedClient = feedClient;
+  }
+
+  /**
+   * Get the latest price update for a pair together with its update fee
+   * @param pairIndex - Pair index
+   * @returns Price update data and fee
+   */
+  async getPriceUpdate(pairIndex: number): Promise<PriceUpdate> {
+    const feedId = await this.getFeedId(pairIndex);
+    const priceUpdateData = await this.getPriceUpdateData([feedId]);
+    const updateFee = await this.getUpdateFee(priceUpdateData);
+
+    return { priceUpdateData, updateFee };
+  }
+
+  /**
+   * Fetch the latest signed price updates from Hermes
+   * @param feedIds - Pyth feed IDs
+   * @returns Hex-encoded VAAs
+   */
+  async getPriceUpdateData(feedIds: string[]): Promise<string[]> {
+    const response = await this.feedClient.getLatestPriceUpdates(feedIds);
+    const data: string[] | undefined = response?.binary?.data;
+    if (!data || data.length === 0) {
+      throw new Error(`No price update returned for feeds ${feedIds.join(', ')}`);
+    }
+
+    return data.map((vaa) => (vaa.startsWith('0x') ? vaa : `0x${vaa}`));
+  }
+
+  /**
+   * Get the fee charged by the Pyth contract to verify price updates
+   * @param priceUpdateData - Hex-encoded VAAs
+   * @returns Update fee in wei
+   */
+  async getUpdateFee(priceUpdateData: string[]): Promise<bigint> {
+    if (priceUpdateData.length === 0) {
+      return 0n;
+    }
+
+    const pyth = await this.getPythContract();
+    return await pyth.getUpdateFee(priceUpdateData);
+  }
+
+  /**
+   * Get the Pyth feed ID of a pair
+   * @param pairIndex - Pair index
+   * @returns Feed ID (bytes32)
+   */
+  async getFeedId(pairIndex: number): Promise<string> {
+    let feedId = this.feedIds.get(pairIndex);
+    if (!feedId) {
+      const backend = await this.pairsCache.getPairBackend(pairIndex);
+      feedId = backend.pair.feed.feedId;
+      this.feedIds.set(pairIndex, feedId);
+    }
+    return feedId;
+  }
+
+  /**
+   * Set the feed client used to fetch updates
+   */
+  setFeedClient(feedClient: FeedClient): void {
+    this.feedClient = feedClient;
+  }
+
+  private async getPythContract(): Promise<Pyth> {
+    if (!this.pythContract) {
+      const pythAddress: string = await this.priceAggregatorContract.pyth();
+      this.pythContract = Pyth__factory.connect(pythAddress, this.priceAggregatorContract.runner);
+    }
+    return this.pythContract;
+  }
+}
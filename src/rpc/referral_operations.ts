@@ -1,7 +1,8 @@
-import { Contract, TransactionReceipt, TransactionRequest } from 'ethers';
+import { TransactionReceipt, TransactionRequest } from 'ethers';
 import { ethers } from 'ethers';
 import { ReferralTier, ReferralDiscount } from '../types';
-import { BaseSigner } from '../signers/base';
+import { TransactionManager } from '../transactions/transaction_manager';
+import { Referral } from '../typechain';
 
 /**
  * Referral Operations RPC
@@ -9,8 +10,8 @@ import { BaseSigner } from '../signers/base';
  */
 export class ReferralOperationsRPC {
   constructor(
-    private referralContract: Contract,
-    private signer?: BaseSigner
+    private referralContract: Referral,
+    private transactions: TransactionManager
   ) {}
 
   /**
@@ -43,7 +44,7 @@ export class ReferralOperationsRPC {
    * @returns Tier information with fee discount and rebate percentages
    */
   async getTierInfo(tierId: number): Promise<ReferralTier> {
-    const tier = await this.referralContract.tiers(tierId);
+    const tier = await this.referralContract.referralTiers(tierId);
 
     return {
       feeDiscountPct: Number(tier.feeDiscountPct),
@@ -58,10 +59,11 @@ export class ReferralOperationsRPC {
    * @returns Discount information
    */
   async getTraderReferralDiscount(account: string, fee: number): Promise<ReferralDiscount> {
-    const result = await this.referralContract.traderReferralDiscount(account, fee);
+    // Not declared view in the ABI, so read it with a static call
+    const result = await this.referralContract.traderReferralDiscount.staticCall(account, fee);
 
     return {
-      traderDiscount: Number(result.traderDiscount),
+      traderDiscount: fee - Number(result.traderFeesPostDiscount),
       referrer: result.referrer,
       rebateShare: Number(result.rebateShare),
     };
@@ -73,7 +75,7 @@ export class ReferralOperationsRPC {
    * @returns Transaction receipt
    */
   async setReferralCode(code: string): Promise<TransactionReceipt | null> {
-    if (!this.signer) {
+    if (!this.transactions.hasSigner()) {
       throw new Error('Signer required for setting referral code');
     }
 
@@ -87,7 +89,7 @@ export class ReferralOperationsRPC {
       ]),
     };
 
-    return await this.signAndSend(tx);
+    return await this.transactions.sendAndWait(tx);
   }
 
   /**
@@ -110,55 +112,4 @@ export class ReferralOperationsRPC {
     const discount = await this.getTraderReferralDiscount(account, baseFee);
     return baseFee - discount.traderDiscount;
   }
-
-  /**
-   * Helper method to sign and send transactions
-   */
-  private async signAndSend(tx: TransactionRequest): Promise<TransactionReceipt | null> {
-    if (!this.signer) {
-      throw new Error('Signer not set');
-    }
-
-    const address = await this.signer.getAddress();
-    tx.from = address;
-
-    const provider = this.referralContract.runner?.provider;
-    if (!provider) {
-      throw new Error('Provider not available');
-    }
-
-    if (!tx.chainId) {
-      const network = await provider.getNetwork();
-      tx.chainId = network.chainId;
-    }
-
-    if (tx.nonce === undefined) {
-      tx.nonce = await provider.getTransactionCount(address);
-    }
-
-    if (!tx.gasLimit) {
-      tx.gasLimit = await provider.estimateGas(tx);
-    }
-
-    if (!tx.maxFeePerGas && !tx.gasPrice) {
-      const feeData = await provider.getFeeData();
-      if (feeData.maxFeePerGas) {
-        tx.maxFeePerGas = feeData.maxFeePerGas;
-        tx.maxPriorityFeePerGas = feeData.maxPriorityFeePerGas || feeData.maxFeePerGas;
-      } else {
-        tx.gasPrice = feeData.gasPrice || undefined;
-      }
-    }
-
-    const signedTx = await this.signer.signTransaction(tx);
-    const txResponse = await provider.broadcastTransaction(signedTx);
-    return await txResponse.wait();
-  }
-
-  /**
-   * Set signer for transactions
-   */
-  setSigner(signer: BaseSigner): void {
-    this.signer = signer;
-  }
 }
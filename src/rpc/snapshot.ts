@@ -1,10 +1,11 @@
-import { Contract, Provider } from 'ethers';
+import { Provider } from 'ethers';
 import { Snapshot, Group, PairData, PairsBackendReturn, fromBlockchain10, fromBlockchain6, fromBlockchain12 } from '../types';
 import { PairsCache } from './pairs_cache';
 import { AssetParametersRPC } from './asset_parameters';
 import { CategoryParametersRPC } from './category_parameters';
 import { FeeParametersRPC } from './fee_parameters';
 import { BlendedRPC } from './blended';
+import { decodeContractError, isEmptyRevert } from '../errors';
 
 /**
  * RPC module for aggregating all market data into a snapshot
@@ -37,8 +38,6 @@ export class SnapshotRPC {
    * @returns Snapshot object containing all market parameters
    */
   async getSnapshot(): Promise<Snapshot> {
-    console.log('Fetching market snapshot (optimized)...');
-
     // Get basic pair info first to know how many pairs exist
     const pairs = await this.pairsCache.getPairsInfo();
     const pairIndices = Array.from(pairs.keys());
@@ -76,7 +75,10 @@ export class SnapshotRPC {
       categoryUtilization = await this.categoryParams.getUtilization();
       categorySkew = await this.categoryParams.getCategorySkew();
     } catch (error) {
-      console.warn('Category-level metrics not available:', error);
+      // Deployments without category data revert without a reason; anything else is a real failure
+      if (!isEmptyRevert(error)) {
+        throw decodeContractError(error);
+      }
     }
 
     // Build a map of pairIndex -> backend data
@@ -146,7 +148,6 @@ export class SnapshotRPC {
       snapshot.groups[`group_${groupIndex}`] = group;
     }
 
-    console.log('Market snapshot complete (optimized)');
     return snapshot;
   }
 
@@ -1,74 +1,70 @@
-import { Contract, Provider, TransactionRequest } from 'ethers';
+import { Provider, TransactionRequest } from 'ethers';
 import {
   TradeInput,
   TradeResponse,
   MarginUpdateType,
-  toBlockchain6,
-  toBlockchain10,
-  fromBlockchain6,
-  fromBlockchain10,
 } from '../types';
+import { MulticallRPC } from './multicall';
 import { PairsCache } from './pairs_cache';
+import { PriceUpdateRPC } from './price_updates';
+import { Trading } from '../typechain';
+import { TransactionManager } from '../transactions/transaction_manager';
+import { estimateExecutionFee } from '../utils';
+import { encodeTradingCall, tradeFromInput } from '../encoding/trading_calls';
+import { decodeContractError, PairNotListed } from '../errors';
 
 /**
  * RPC module for trading operations
  */
 export class TradeRPC {
   private provider: Provider;
-  private tradingContract: Contract;
-  private tradingStorageContract: Contract;
+  private tradingContract: Trading;
+  private multicall: MulticallRPC;
   private pairsCache: PairsCache;
+  private priceUpdates: PriceUpdateRPC;
+  private transactions: TransactionManager;
 
   constructor(
     provider: Provider,
-    tradingContract: Contract,
-    tradingStorageContract: Contract,
-    pairsCache: PairsCache
+    tradingContract: Trading,
+    multicall: MulticallRPC,
+    pairsCache: PairsCache,
+    priceUpdates: PriceUpdateRPC,
+    transactions: TransactionManager
   ) {
     this.provider = provider;
     this.tradingContract = tradingContract;
-    this.tradingStorageContract = tradingStorageContract;
+    this.multicall = multicall;
     this.pairsCache = pairsCache;
+    this.priceUpdates = priceUpdates;
+    this.transactions = transactions;
   }
 
   /**
    * Build transaction to open a trade
    * @param tradeInput - Trade input parameters
+   * @param trader - Trader address (default: the signer's address)
    * @returns Transaction request
    */
-  async buildTradeOpenTx(tradeInput: TradeInput): Promise<TransactionRequest> {
+  async buildTradeOpenTx(tradeInput: TradeInput, trader?: string): Promise<TransactionRequest> {
     const pairIndex = await this.pairsCache.getPairIndex(tradeInput.pair);
     if (pairIndex === undefined) {
-      throw new Error(`Pair ${tradeInput.pair} not found`);
+      throw new PairNotListed(`Pair ${tradeInput.pair} not found`);
     }
 
-    // Convert to blockchain format
-    const trade = {
-      trader: '', // Will be filled by signer
-      pairIndex: pairIndex,
-      index: 0,
-      initialPosToken: 0,
-      positionSizeUsdc: toBlockchain6(tradeInput.collateralInTrade * tradeInput.leverage),
-      openPrice: toBlockchain10(tradeInput.openPrice),
-      buy: tradeInput.isLong,
-      leverage: toBlockchain10(tradeInput.leverage),
-      tp: toBlockchain10(tradeInput.tp),
-      sl: toBlockchain10(tradeInput.sl),
-    };
-
-    const orderType = this.getOrderTypeValue(tradeInput.orderType);
-    const slippageP = toBlockchain10(tradeInput.maxSlippageP);
-    const executionFee = await this.getTradeExecutionFee();
-
     return {
       to: await this.tradingContract.getAddress(),
-      data: this.tradingContract.interface.encodeFunctionData('openTrade', [
-        trade,
-        orderType,
-        slippageP,
-        tradeInput.referrer || '0x0000000000000000000000000000000000000000',
-      ]),
-      value: executionFee,
+      data: encodeTradingCall({
+        name: 'openTrade',
+        trade: tradeFromInput(
+          tradeInput,
+          pairIndex,
+          trader ?? (await this.transactions.getSenderAddress())
+        ),
+        orderType: tradeInput.orderType,
+        slippageP: tradeInput.maxSlippageP,
+      }),
+      value: await this.getTradeExecutionFee(),
     };
   }
 
@@ -82,7 +78,7 @@ export class TradeRPC {
     tradeInput: TradeInput,
     trader: string
   ): Promise<TransactionRequest> {
-    const tx = await this.buildTradeOpenTx(tradeInput);
+    const tx = await this.buildTradeOpenTx(tradeInput, trader);
     // Add delegation logic if needed
     return tx;
   }
@@ -91,18 +87,23 @@ export class TradeRPC {
    * Build transaction to close a trade
    * @param pairIndex - Pair index
    * @param tradeIndex - Trade index
+   * @param closeAmount - Collateral to close (USDC)
    * @returns Transaction request
    */
   async buildTradeCloseTx(
     pairIndex: number,
-    tradeIndex: number
+    tradeIndex: number,
+    closeAmount: number
   ): Promise<TransactionRequest> {
     return {
       to: await this.tradingContract.getAddress(),
-      data: this.tradingContract.interface.encodeFunctionData('closeTradeMarket', [
+      data: encodeTradingCall({
+        name: 'closeTradeMarket',
         pairIndex,
-        tradeIndex,
-      ]),
+        index: tradeIndex,
+        amount: closeAmount,
+      }),
+      value: await this.getTradeExecutionFee(),
     };
   }
 
@@ -110,21 +111,23 @@ export class TradeRPC {
    * Build transaction to close a trade via delegation
    * @param pairIndex - Pair index
    * @param tradeIndex - Trade index
+   * @param closeAmount - Collateral to close (USDC)
    * @param trader - Trader address
    * @returns Transaction request
    */
   async buildTradeCloseTxDelegate(
     pairIndex: number,
     tradeIndex: number,
+    closeAmount: number,
     trader: string
   ): Promise<TransactionRequest> {
-    const tx = await this.buildTradeCloseTx(pairIndex, tradeIndex);
+    const tx = await this.buildTradeCloseTx(pairIndex, tradeIndex, closeAmount);
     // Add delegation logic if needed
     return tx;
   }
 
   /**
-   * Build transaction to cancel a pending order
+   * Build transaction to cancel a pending limit order
    * @param pairIndex - Pair index
    * @param orderIndex - Order index
    * @returns Transaction request
@@ -135,15 +138,13 @@ export class TradeRPC {
   ): Promise<TransactionRequest> {
     return {
       to: await this.tradingContract.getAddress(),
-      data: this.tradingContract.interface.encodeFunctionData('cancelOpenOrder', [
-        pairIndex,
-        orderIndex,
-      ]),
+      data: encodeTradingCall({ name: 'cancelOpenLimitOrder', pairIndex, index: orderIndex }),
     };
   }
 
   /**
    * Build transaction to update trade margin
+   * Attaches the latest Pyth price update for the pair and its update fee.
    * @param pairIndex - Pair index
    * @param tradeIndex - Trade index
    * @param marginDelta - Margin change amount (USDC)
@@ -156,21 +157,25 @@ export class TradeRPC {
     marginDelta: number,
     updateType: MarginUpdateType
   ): Promise<TransactionRequest> {
-    const isDeposit = updateType === MarginUpdateType.DEPOSIT;
+    const { priceUpdateData, updateFee } = await this.priceUpdates.getPriceUpdate(pairIndex);
 
     return {
       to: await this.tradingContract.getAddress(),
-      data: this.tradingContract.interface.encodeFunctionData('updateMargin', [
+      data: encodeTradingCall({
+        name: 'updateMargin',
         pairIndex,
-        tradeIndex,
-        toBlockchain6(marginDelta),
-        isDeposit,
-      ]),
+        index: tradeIndex,
+        updateType,
+        amount: marginDelta,
+        priceUpdateData,
+      }),
+      value: updateFee,
     };
   }
 
   /**
    * Build transaction to update take profit and stop loss
+   * Attaches the latest Pyth price update for the pair and its update fee.
    * @param pairIndex - Pair index
    * @param tradeIndex - Trade index
    * @param tp - Take profit price
@@ -183,14 +188,19 @@ export class TradeRPC {
     tp: number,
     sl: number
   ): Promise<TransactionRequest> {
+    const { priceUpdateData, updateFee } = await this.priceUpdates.getPriceUpdate(pairIndex);
+
     return {
       to: await this.tradingContract.getAddress(),
-      data: this.tradingContract.interface.encodeFunctionData('updateTpSl', [
+      data: encodeTradingCall({
+        name: 'updateTpAndSl',
         pairIndex,
-        tradeIndex,
-        toBlockchain10(tp),
-        toBlockchain10(sl),
-      ]),
+        index: tradeIndex,
+        sl,
+        tp,
+        priceUpdateData,
+      }),
+      value: updateFee,
     };
   }
 
@@ -199,12 +209,7 @@ export class TradeRPC {
    * @returns Execution fee in native token (wei)
    */
   async getTradeExecutionFee(): Promise<bigint> {
-    try {
-      return await this.tradingContract.getExecutionFee();
-    } catch (error) {
-      console.error('Error getting execution fee:', error);
-      return BigInt(0);
-    }
+    return await estimateExecutionFee(this.provider);
   }
 
   /**
@@ -214,42 +219,24 @@ export class TradeRPC {
    */
   async getTrades(traderAddress: string): Promise<TradeResponse[]> {
     try {
-      const tradesData = await this.tradingStorageContract.getOpenTrades(traderAddress);
-      const trades: TradeResponse[] = [];
-
-      for (const trade of tradesData) {
-        trades.push({
-          trader: trade.trader,
-          pairIndex: Number(trade.pairIndex),
-          index: Number(trade.index),
-          initialPosUsdc: fromBlockchain6(trade.initialPosToken || trade.positionSizeUsdc),
-          openPrice: fromBlockchain10(trade.openPrice),
-          buy: trade.buy,
-          leverage: Number(fromBlockchain10(trade.leverage)),
-          tp: fromBlockchain10(trade.tp),
-          sl: fromBlockchain10(trade.sl),
-        });
-      }
-
-      return trades;
+      // One eth_call through the Multicall helper instead of a read per pair and slot
+      const { positions } = await this.multicall.getPositions(traderAddress);
+
+      // positionSizeUSDC holds the trade's collateral, not its leveraged size,
+      // so initialPosUsdc is the collateral (the size is collateral × leverage)
+      return positions.map(({ trade }) => ({
+        trader: trade.trader,
+        pairIndex: trade.pairIndex,
+        index: trade.index,
+        initialPosUsdc: trade.positionSizeUSDC,
+        openPrice: trade.openPrice,
+        buy: trade.buy,
+        leverage: trade.leverage,
+        tp: trade.tp,
+        sl: trade.sl,
+      }));
     } catch (error) {
-      console.error('Error getting trades:', error);
-      return [];
+      throw decodeContractError(error);
     }
   }
-
-  /**
-   * Convert order type string to numeric value
-   * @param orderType - Order type string
-   * @returns Numeric order type
-   */
-  private getOrderTypeValue(orderType: string): number {
-    const orderTypes: Record<string, number> = {
-      market: 0,
-      limit: 1,
-      stop_limit: 2,
-      market_zero_fee: 3,
-    };
-    return orderTypes[orderType] || 0;
-  }
 }
@@ -0,0 +1,557 @@
+import { Provider, TransactionRequest, ZeroAddress } from 'ethers';
+import {
+  TradeInput,
+  TradeInputOrderType,
+  PairsBackendReturn,
+  fromBlockchain6,
+  fromBlockchain10,
+} from '../types';
+import { PairsCache } from './pairs_cache';
+import { FeedClient } from '../feed/feed_client';
+import { fromPythPrice } from '../feed/pyth';
+import { PairStorage, Trading, TradingStorage } from '../typechain';
+import { estimateExecutionFee } from '../utils';
+import { encodeTradingCall, tradeFromInput } from '../encoding/trading_calls';
+
+/**
+ * Reason a trade failed validation
+ */
+export type TradeValidationCode =
+  | 'MISSING_FIELD'
+  | 'INVALID_VALUE'
+  | 'PAIR_NOT_FOUND'
+  | 'LEVERAGE_TOO_LOW'
+  | 'LEVERAGE_TOO_HIGH'
+  | 'POSITION_TOO_SMALL'
+  | 'INVALID_TP'
+  | 'INVALID_SL'
+  | 'TP_EXCEEDS_MAX_GAIN'
+  | 'SL_EXCEEDS_MAX_LOSS'
+  | 'PAIR_OI_EXCEEDED'
+  | 'WALLET_OI_EXCEEDED';
+
+/**
+ * A single validation failure
+ */
+export interface TradeValidationError {
+  code: TradeValidationCode;
+  /** TradeInput field (or the trader) the error refers to */
+  field: keyof TradeInput | 'trader';
+  message: string;
+  /** Offending value, when numeric */
+  value?: number;
+  /** Limit that was violated, when numeric */
+  limit?: number;
+}
+
+/**
+ * Result of TradeBuilder.validate()
+ */
+export interface TradeValidationResult {
+  valid: boolean;
+  errors: TradeValidationError[];
+  /** Resolved trade input (only when all required fields are set) */
+  tradeInput?: TradeInput;
+  pairIndex?: number;
+  trader?: string;
+}
+
+type PriceTarget = { price: number } | { percent: number };
+
+/**
+ * Fluent builder for opening trades
+ * Collects the trade parameters, validates them against the pair's on-chain
+ * limits and open interest, and encodes the openTrade transaction.
+ *
+ * TP/SL percentages are expressed as profit/loss on collateral, the same unit
+ * as the pair's maxGainP/maxSlP.
+ */
+export class TradeBuilder {
+  private provider: Provider;
+  private tradingContract: Trading;
+  private tradingStorageContract: TradingStorage;
+  private pairStorageContract: PairStorage;
+  private pairsCache: PairsCache;
+  private feedClient?: FeedClient;
+
+  private pairName?: string;
+  private isLong?: boolean;
+  private collateralAmount?: number;
+  private leverageValue?: number;
+  private openPriceValue?: number;
+  private tpTarget?: PriceTarget;
+  private slTarget?: PriceTarget;
+  private orderTypeValue: TradeInputOrderType = TradeInputOrderType.MARKET;
+  private slippageP: number = 1;
+  private traderAddress?: string;
+
+  constructor(
+    provider: Provider,
+    tradingContract: Trading,
+    tradingStorageContract: TradingStorage,
+    pairStorageContract: PairStorage,
+    pairsCache: PairsCache,
+    feedClient?: FeedClient
+  ) {
+    this.provider = provider;
+    this.tradingContract = tradingContract;
+    this.tradingStorageContract = tradingStorageContract;
+    this.pairStorageContract = pairStorageContract;
+    this.pairsCache = pairsCache;
+    this.feedClient = feedClient;
+  }
+
+  /**
+   * Set the pair to trade
+   * @param pair - Pair name (e.g., "BTC/USD")
+   */
+  pair(pair: string): this {
+    this.pairName = pair;
+    return this;
+  }
+
+  /**
+   * Open a long position
+   */
+  long(): this {
+    this.isLong = true;
+    return this;
+  }
+
+  /**
+   * Open a short position
+   */
+  short(): this {
+    this.isLong = false;
+    return this;
+  }
+
+  /**
+   * Set the collateral
+   * @param amount - Collateral in USDC
+   */
+  collateral(amount: number): this {
+    this.collateralAmount = amount;
+    return this;
+  }
+
+  /**
+   * Set the leverage
+   * @param leverage - Leverage multiplier (e.g., 10 for 10x)
+   */
+  leverage(leverage: number): this {
+    this.leverageValue = leverage;
+    return this;
+  }
+
+  /**
+   * Set the order type (default: market)
+   * @param orderType - Order type
+   */
+  orderType(orderType: TradeInputOrderType): this {
+    this.orderTypeValue = orderType;
+    return this;
+  }
+
+  /**
+   * Set the open price
+   * Required for limit and stop-limit orders. For market orders it defaults
+   * to the latest Pyth price from Hermes.
+   * @param price - Open price
+   */
+  openPrice(price: number): this {
+    this.openPriceValue = price;
+    return this;
+  }
+
+  /**
+   * Set the take profit price
+   * @param price - Take profit price
+   */
+  takeProfit(price: number): this {
+    this.tpTarget = { price };
+    return this;
+  }
+
+  /**
+   * Set the take profit as a profit percentage on collateral
+   * @param percent - Profit percentage (e.g., 50 for +50%)
+   */
+  takeProfitPercent(percent: number): this {
+    this.tpTarget = { percent };
+    return this;
+  }
+
+  /**
+   * Set the stop loss price
+   * @param price - Stop loss price
+   */
+  stopLoss(price: number): this {
+    this.slTarget = { price };
+    return this;
+  }
+
+  /**
+   * Set the stop loss as a loss percentage on collateral
+   * @param percent - Loss percentage (e.g., 25 for -25%)
+   */
+  stopLossPercent(percent: number): this {
+    this.slTarget = { percent };
+    return this;
+  }
+
+  /**
+   * Set the maximum slippage (default: 1%)
+   * @param percent - Slippage percentage
+   */
+  slippage(percent: number): this {
+    this.slippageP = percent;
+    return this;
+  }
+
+  /**
+   * Set the trader (required), filled into the trade struct and used for the
+   * per-wallet open interest check
+   * @param address - Trader address, the sender of the transaction
+   */
+  trader(address: string): this {
+    this.traderAddress = address;
+    return this;
+  }
+
+  /**
+   * Validate the trade against the pair's leverage, position size, TP/SL and
+   * open interest limits
+   * @returns Validation result with structured errors
+   */
+  async validate(): Promise<TradeValidationResult> {
+    const errors: TradeValidationError[] = [];
+
+    if (!this.pairName) {
+      errors.push({ code: 'MISSING_FIELD', field: 'pair', message: 'Pair is required' });
+    }
+    if (this.isLong === undefined) {
+      errors.push({ code: 'MISSING_FIELD', field: 'isLong', message: 'Side is required (long() or short())' });
+    }
+    if (this.collateralAmount === undefined) {
+      errors.push({ code: 'MISSING_FIELD', field: 'collateralInTrade', message: 'Collateral is required' });
+    } else if (!(this.collateralAmount > 0)) {
+      errors.push({
+        code: 'INVALID_VALUE',
+        field: 'collateralInTrade',
+        message: 'Collateral must be positive',
+        value: this.collateralAmount,
+      });
+    }
+    if (this.leverageValue === undefined) {
+      errors.push({ code: 'MISSING_FIELD', field: 'leverage', message: 'Leverage is required' });
+    } else if (!(this.leverageValue > 0)) {
+      errors.push({
+        code: 'INVALID_VALUE',
+        field: 'leverage',
+        message: 'Leverage must be positive',
+        value: this.leverageValue,
+      });
+    }
+    if (!(this.slippageP > 0)) {
+      errors.push({
+        code: 'INVALID_VALUE',
+        field: 'maxSlippageP',
+        message: 'Slippage must be positive',
+        value: this.slippageP,
+      });
+    }
+    if (!this.traderAddress) {
+      errors.push({ code: 'MISSING_FIELD', field: 'trader', message: 'Trader is required' });
+    }
+    if (errors.length > 0) {
+      return { valid: false, errors };
+    }
+
+    const pairName = this.pairName!;
+    const pairIndex = await this.pairsCache.getPairIndex(pairName);
+    if (pairIndex === undefined) {
+      errors.push({ code: 'PAIR_NOT_FOUND', field: 'pair', message: `Pair ${pairName} not found` });
+      return { valid: false, errors };
+    }
+
+    const backend = await this.pairsCache.getPairBackend(pairIndex);
+    const trader = this.traderAddress!;
+    const isLong = this.isLong!;
+    const collateral = this.collateralAmount!;
+    const leverage = this.leverageValue!;
+    const positionSize = collateral * leverage;
+
+    const openPrice = await this.resolveOpenPrice(backend);
+    if (openPrice === undefined || !(openPrice > 0)) {
+      errors.push({
+        code: 'MISSING_FIELD',
+        field: 'openPrice',
+        message: 'Open price is required for this order type (or provide a FeedClient for market orders)',
+      });
+      return { valid: false, errors, pairIndex };
+    }
+
+    this.checkLeverage(backend, leverage, errors);
+    this.checkPositionSize(backend, positionSize, errors);
+
+    const tp = this.resolveTarget(this.tpTarget, openPrice, leverage, isLong, true);
+    const sl = this.resolveTarget(this.slTarget, openPrice, leverage, isLong, false);
+    this.checkTakeProfit(backend, tp, openPrice, leverage, isLong, errors);
+    this.checkStopLoss(backend, sl, openPrice, leverage, isLong, errors);
+
+    await this.checkOpenInterest(pairIndex, trader, positionSize, isLong, errors);
+
+    const tradeInput: TradeInput = {
+      pair: pairName,
+      isLong,
+      collateralInTrade: collateral,
+      leverage,
+      openPrice,
+      tp,
+      sl,
+      referrer: ZeroAddress,
+      orderType: this.orderTypeValue,
+      maxSlippageP: this.slippageP,
+    };
+
+    return { valid: errors.length === 0, errors, tradeInput, pairIndex, trader };
+  }
+
+  /**
+   * Get the validated trade as a TradeInput
+   * @returns Trade input
+   * @throws Error if validation fails
+   */
+  async toTradeInput(): Promise<TradeInput> {
+    const { tradeInput } = await this.validateOrThrow();
+    return tradeInput;
+  }
+
+  /**
+   * Validate the trade and build the openTrade transaction
+   * @returns Transaction request (value includes the execution fee)
+   * @throws Error if validation fails
+   */
+  async build(): Promise<TransactionRequest> {
+    const { tradeInput, pairIndex, trader } = await this.validateOrThrow();
+
+    return {
+      to: await this.tradingContract.getAddress(),
+      data: encodeTradingCall({
+        name: 'openTrade',
+        trade: tradeFromInput(tradeInput, pairIndex, trader),
+        orderType: tradeInput.orderType,
+        slippageP: tradeInput.maxSlippageP,
+      }),
+      value: await estimateExecutionFee(this.provider),
+    };
+  }
+
+  private async validateOrThrow(): Promise<{
+    tradeInput: TradeInput;
+    pairIndex: number;
+    trader: string;
+  }> {
+    const result = await this.validate();
+    if (!result.valid || !result.tradeInput || result.pairIndex === undefined || !result.trader) {
+      const details = result.errors.map((error) => `${error.field}: ${error.message}`).join('; ');
+      throw new Error(`Invalid trade: ${details}`);
+    }
+    return { tradeInput: result.tradeInput, pairIndex: result.pairIndex, trader: result.trader };
+  }
+
+  private async resolveOpenPrice(backend: PairsBackendReturn): Promise<number | undefined> {
+    if (this.openPriceValue !== undefined) {
+      return this.openPriceValue;
+    }
+
+    const isMarket =
+      this.orderTypeValue === TradeInputOrderType.MARKET ||
+      this.orderTypeValue === TradeInputOrderType.MARKET_ZERO_FEE;
+    if (!isMarket || !this.feedClient) {
+      return undefined;
+    }
+
+    const response = await this.feedClient.getLatestPriceUpdates([backend.pair.feed.feedId]);
+    const parsed = response?.parsed?.[0];
+    if (!parsed) return undefined;
+    return fromPythPrice(parsed.price.price, parsed.price.expo);
+  }
+
+  /**
+   * Convert a TP/SL target to a price (0 when unset)
+   */
+  private resolveTarget(
+    target: PriceTarget | undefined,
+    openPrice: number,
+    leverage: number,
+    isLong: boolean,
+    isTp: boolean
+  ): number {
+    if (!target) return 0;
+    if ('price' in target) return target.price;
+
+    const priceMove = (openPrice * target.percent) / 100 / leverage;
+    const up = isTp === isLong;
+    return up ? openPrice + priceMove : openPrice - priceMove;
+  }
+
+  private checkLeverage(
+    backend: PairsBackendReturn,
+    leverage: number,
+    errors: TradeValidationError[]
+  ): void {
+    const { leverages } = backend.pair;
+    const isPnl = this.orderTypeValue === TradeInputOrderType.MARKET_ZERO_FEE;
+    const minLeverage = fromBlockchain10(isPnl ? leverages.pnlMinLeverage : leverages.minLeverage);
+    const maxLeverage = fromBlockchain10(isPnl ? leverages.pnlMaxLeverage : leverages.maxLeverage);
+
+    if (leverage < minLeverage) {
+      errors.push({
+        code: 'LEVERAGE_TOO_LOW',
+        field: 'leverage',
+        message: `Leverage ${leverage}x is below the minimum of ${minLeverage}x`,
+        value: leverage,
+        limit: minLeverage,
+      });
+    }
+    if (maxLeverage > 0 && leverage > maxLeverage) {
+      errors.push({
+        code: 'LEVERAGE_TOO_HIGH',
+        field: 'leverage',
+        message: `Leverage ${leverage}x exceeds the maximum of ${maxLeverage}x`,
+        value: leverage,
+        limit: maxLeverage,
+      });
+    }
+  }
+
+  private checkPositionSize(
+    backend: PairsBackendReturn,
+    positionSize: number,
+    errors: TradeValidationError[]
+  ): void {
+    const minPositionSize = fromBlockchain6(backend.fee.minLevPosUSDC);
+    if (positionSize < minPositionSize) {
+      errors.push({
+        code: 'POSITION_TOO_SMALL',
+        field: 'collateralInTrade',
+        message: `Position size ${positionSize} USDC is below the minimum of ${minPositionSize} USDC`,
+        value: positionSize,
+        limit: minPositionSize,
+      });
+    }
+  }
+
+  private checkTakeProfit(
+    backend: PairsBackendReturn,
+    tp: number,
+    openPrice: number,
+    leverage: number,
+    isLong: boolean,
+    errors: TradeValidationError[]
+  ): void {
+    if (tp === 0) return;
+
+    const gainP = ((isLong ? tp - openPrice : openPrice - tp) / openPrice) * 100 * leverage;
+    if (gainP <= 0) {
+      errors.push({
+        code: 'INVALID_TP',
+        field: 'tp',
+        message: `Take profit must be ${isLong ? 'above' : 'below'} the open price`,
+        value: tp,
+      });
+      return;
+    }
+
+    const maxGainP = fromBlockchain10(backend.pair.values.maxGainP);
+    if (maxGainP > 0 && gainP > maxGainP) {
+      errors.push({
+        code: 'TP_EXCEEDS_MAX_GAIN',
+        field: 'tp',
+        message: `Take profit gain of ${gainP.toFixed(2)}% exceeds the maximum of ${maxGainP}%`,
+        value: gainP,
+        limit: maxGainP,
+      });
+    }
+  }
+
+  private checkStopLoss(
+    backend: PairsBackendReturn,
+    sl: number,
+    openPrice: number,
+    leverage: number,
+    isLong: boolean,
+    errors: TradeValidationError[]
+  ): void {
+    if (sl === 0) return;
+
+    const lossP = ((isLong ? openPrice - sl : sl - openPrice) / openPrice) * 100 * leverage;
+    if (lossP <= 0) {
+      errors.push({
+        code: 'INVALID_SL',
+        field: 'sl',
+        message: `Stop loss must be ${isLong ? 'below' : 'above'} the open price`,
+        value: sl,
+      });
+      return;
+    }
+
+    const maxSlP = fromBlockchain10(backend.pair.values.maxSlP);
+    if (maxSlP > 0 && lossP > maxSlP) {
+      errors.push({
+        code: 'SL_EXCEEDS_MAX_LOSS',
+        field: 'sl',
+        message: `Stop loss of ${lossP.toFixed(2)}% exceeds the maximum of ${maxSlP}%`,
+        value: lossP,
+        limit: maxSlP,
+      });
+    }
+  }
+
+  private async checkOpenInterest(
+    pairIndex: number,
+    trader: string,
+    positionSize: number,
+    isLong: boolean,
+    errors: TradeValidationError[]
+  ): Promise<void> {
+    const [currentOI, maxOI] = await Promise.all([
+      isLong
+        ? this.tradingStorageContract.pairLongOI(pairIndex)
+        : this.tradingStorageContract.pairShortOI(pairIndex),
+      isLong
+        ? this.pairStorageContract.pairMaxLongOI(pairIndex)
+        : this.pairStorageContract.pairMaxShortOI(pairIndex),
+    ]);
+
+    const remainingOI = fromBlockchain6(maxOI) - fromBlockchain6(currentOI);
+    if (positionSize > remainingOI) {
+      errors.push({
+        code: 'PAIR_OI_EXCEEDED',
+        field: 'collateralInTrade',
+        message: `Position size ${positionSize} USDC exceeds the remaining ${isLong ? 'long' : 'short'} open interest of ${Math.max(remainingOI, 0)} USDC`,
+        value: positionSize,
+        limit: Math.max(remainingOI, 0),
+      });
+    }
+
+    const [walletOI, maxWalletOI] = await Promise.all([
+      this.tradingStorageContract.walletOI(trader),
+      this.pairStorageContract.maxWalletOI(pairIndex),
+    ]);
+    if (maxWalletOI === 0n) return;
+
+    const remainingWalletOI = fromBlockchain6(maxWalletOI) - fromBlockchain6(walletOI);
+    if (positionSize > remainingWalletOI) {
+      errors.push({
+        code: 'WALLET_OI_EXCEEDED',
+        field: 'collateralInTrade',
+        message: `Position size ${positionSize} USDC exceeds the wallet's remaining open interest of ${Math.max(remainingWalletOI, 0)} USDC`,
+        value: positionSize,
+        limit: Math.max(remainingWalletOI, 0),
+      });
+    }
+  }
+}
@@ -1,18 +1,21 @@
-import { Contract, TransactionReceipt, TransactionRequest } from 'ethers';
+import { TransactionReceipt, TransactionRequest } from 'ethers';
 import {
   Trade,
   TradeInfo,
   OpenLimitOrder,
   TradeInputOrderType,
   MarginUpdateType,
-  toBlockchain6,
-  toBlockchain10,
   toBlockchain18,
   fromBlockchain6,
   fromBlockchain10,
   fromBlockchain18,
 } from '../types';
-import { BaseSigner } from '../signers/base';
+import { TransactionManager } from '../transactions/transaction_manager';
+import { PriceUpdate, PriceUpdateRPC } from './price_updates';
+import { estimateExecutionFee } from '../utils';
+import { Trading, TradingStorage } from '../typechain';
+import { encodeTradingCall } from '../encoding/trading_calls';
+import { UsdcApprovalManager } from './usdc_approval';
 
 /**
  * Trading Operations RPC
@@ -21,9 +24,11 @@ import { BaseSigner } from '../signers/base';
  */
 export class TradingOperationsRPC {
   constructor(
-    private tradingContract: Contract,
-    private tradingStorageContract: Contract,
-    private signer?: BaseSigner
+    private tradingContract: Trading,
+    private tradingStorageContract: TradingStorage,
+    private transactions: TransactionManager,
+    private priceUpdates: PriceUpdateRPC,
+    private approvals?: UsdcApprovalManager
   ) {}
 
   /**
@@ -31,7 +36,12 @@ export class TradingOperationsRPC {
    * @returns Execution fee in ETH
    */
   async getExecutionFee(): Promise<number> {
-    const fee = await this.tradingContract.getExecutionFee();
+    const provider = this.tradingContract.runner?.provider;
+    if (!provider) {
+      throw new Error('Provider not available');
+    }
+
+    const fee = await estimateExecutionFee(provider);
     return fromBlockchain18(fee);
   }
 
@@ -49,53 +59,43 @@ export class TradingOperationsRPC {
     slippageP: number,
     executionFeeEth?: number
   ): Promise<TransactionReceipt | null> {
-    if (!this.signer) {
+    if (!this.transactions.hasSigner()) {
       throw new Error('Signer required for trading operations');
     }
 
+    // Report missing USDC balance/allowance before anything is broadcast
+    // (a dry run reports them as the simulated revert instead). USDC is pulled
+    // from the sender, so check the signer rather than trade.trader.
+    const approvals = this.transactions.isDryRun() ? undefined : this.approvals;
+    const signer = this.transactions.getSigner();
+    const withPermit =
+      approvals && signer
+        ? await approvals.prepareTrade(await signer.getAddress(), trade.positionSizeUSDC)
+        : false;
+
     // Get execution fee if not provided
     if (!executionFeeEth) {
       executionFeeEth = await this.getExecutionFee();
     }
 
-    // Convert order type to number
-    const orderTypeMap: Record<TradeInputOrderType, number> = {
-      [TradeInputOrderType.MARKET]: 0,
-      [TradeInputOrderType.STOP_LIMIT]: 1,
-      [TradeInputOrderType.LIMIT]: 2,
-      [TradeInputOrderType.MARKET_ZERO_FEE]: 3,
-    };
-
-    // Prepare trade struct with blockchain values
-    const tradeStruct = {
-      trader: trade.trader,
-      pairIndex: trade.pairIndex,
-      index: trade.index,
-      initialPosToken: toBlockchain6(trade.initialPosToken),
-      positionSizeUSDC: toBlockchain6(trade.positionSizeUSDC),
-      openPrice: toBlockchain10(trade.openPrice),
-      buy: trade.buy,
-      leverage: toBlockchain10(trade.leverage),
-      tp: toBlockchain10(trade.tp),
-      sl: toBlockchain10(trade.sl),
-      timestamp: Math.floor(Date.now() / 1000),
-    };
-
-    const slippageBlockchain = toBlockchain10(slippageP);
     const executionFeeWei = toBlockchain18(executionFeeEth);
 
     // Create transaction
     const tx: TransactionRequest = {
       to: await this.tradingContract.getAddress(),
-      data: this.tradingContract.interface.encodeFunctionData('openTrade', [
-        tradeStruct,
-        orderTypeMap[orderType],
-        slippageBlockchain,
-      ]),
+      data: encodeTradingCall({
+        name: 'openTrade',
+        trade: { ...trade, timestamp: Math.floor(Date.now() / 1000) },
+        orderType,
+        slippageP,
+      }),
       value: executionFeeWei,
     };
 
-    return await this.signAndSend(tx);
+    if (approvals && withPermit) {
+      return (await approvals.sendWithPermit(trade.positionSizeUSDC, tx)).receipt;
+    }
+    return await this.transactions.sendAndWait(tx);
   }
 
   /**
@@ -112,7 +112,7 @@ export class TradingOperationsRPC {
     closeAmount: number,
     executionFeeEth?: number
   ): Promise<TransactionReceipt | null> {
-    if (!this.signer) {
+    if (!this.transactions.hasSigner()) {
       throw new Error('Signer required for trading operations');
     }
 
@@ -120,20 +120,15 @@ export class TradingOperationsRPC {
       executionFeeEth = await this.getExecutionFee();
     }
 
-    const closeAmountBlockchain = toBlockchain6(closeAmount);
     const executionFeeWei = toBlockchain18(executionFeeEth);
 
     const tx: TransactionRequest = {
       to: await this.tradingContract.getAddress(),
-      data: this.tradingContract.interface.encodeFunctionData('closeTradeMarket', [
-        pairIndex,
-        index,
-        closeAmountBlockchain,
-      ]),
+      data: encodeTradingCall({ name: 'closeTradeMarket', pairIndex, index, amount: closeAmount }),
       value: executionFeeWei,
     };
 
-    return await this.signAndSend(tx);
+    return await this.transactions.sendAndWait(tx);
   }
 
   /**
@@ -142,7 +137,7 @@ export class TradingOperationsRPC {
    * @param index - Trade index
    * @param updateType - DEPOSIT or WITHDRAW
    * @param amount - Amount to add/remove (USDC)
-   * @param priceUpdateData - Price oracle update data
+   * @param priceUpdateData - Price oracle update data (optional, fetched from Pyth if not provided)
    * @returns Transaction receipt
    */
   async updateMargin(
@@ -150,27 +145,28 @@ export class TradingOperationsRPC {
     index: number,
     updateType: MarginUpdateType,
     amount: number,
-    priceUpdateData: string[] = []
+    priceUpdateData?: string[]
   ): Promise<TransactionReceipt | null> {
-    if (!this.signer) {
+    if (!this.transactions.hasSigner()) {
       throw new Error('Signer required for trading operations');
     }
 
-    const amountBlockchain = toBlockchain6(amount);
+    const priceUpdate = await this.resolvePriceUpdate(pairIndex, priceUpdateData);
 
     const tx: TransactionRequest = {
       to: await this.tradingContract.getAddress(),
-      data: this.tradingContract.interface.encodeFunctionData('updateMargin', [
+      data: encodeTradingCall({
+        name: 'updateMargin',
         pairIndex,
         index,
         updateType,
-        amountBlockchain,
-        priceUpdateData,
-      ]),
-      value: 1n, // 1 wei for price update
+        amount,
+        priceUpdateData: priceUpdate.priceUpdateData,
+      }),
+      value: priceUpdate.updateFee,
     };
 
-    return await this.signAndSend(tx);
+    return await this.transactions.sendAndWait(tx);
   }
 
   /**
@@ -179,7 +175,7 @@ export class TradingOperationsRPC {
    * @param index - Trade index
    * @param newSl - New stop loss price
    * @param newTp - New take profit price
-   * @param priceUpdateData - Price oracle update data
+   * @param priceUpdateData - Price oracle update data (optional, fetched from Pyth if not provided)
    * @returns Transaction receipt
    */
   async updateTpAndSl(
@@ -187,28 +183,28 @@ export class TradingOperationsRPC {
     index: number,
     newSl: number,
     newTp: number,
-    priceUpdateData: string[] = []
+    priceUpdateData?: string[]
   ): Promise<TransactionReceipt | null> {
-    if (!this.signer) {
+    if (!this.transactions.hasSigner()) {
       throw new Error('Signer required for trading operations');
     }
 
-    const slBlockchain = toBlockchain10(newSl);
-    const tpBlockchain = toBlockchain10(newTp);
+    const priceUpdate = await this.resolvePriceUpdate(pairIndex, priceUpdateData);
 
     const tx: TransactionRequest = {
       to: await this.tradingContract.getAddress(),
-      data: this.tradingContract.interface.encodeFunctionData('updateTpAndSl', [
+      data: encodeTradingCall({
+        name: 'updateTpAndSl',
         pairIndex,
         index,
-        slBlockchain,
-        tpBlockchain,
-        priceUpdateData,
-      ]),
-      value: 1n, // 1 wei for price update
+        sl: newSl,
+        tp: newTp,
+        priceUpdateData: priceUpdate.priceUpdateData,
+      }),
+      value: priceUpdate.updateFee,
     };
 
-    return await this.signAndSend(tx);
+    return await this.transactions.sendAndWait(tx);
   }
 
   /**
@@ -221,19 +217,16 @@ export class TradingOperationsRPC {
     pairIndex: number,
     index: number
   ): Promise<TransactionReceipt | null> {
-    if (!this.signer) {
+    if (!this.transactions.hasSigner()) {
       throw new Error('Signer required for trading operations');
     }
 
     const tx: TransactionRequest = {
       to: await this.tradingContract.getAddress(),
-      data: this.tradingContract.interface.encodeFunctionData('cancelOpenLimitOrder', [
-        pairIndex,
-        index,
-      ]),
+      data: encodeTradingCall({ name: 'cancelOpenLimitOrder', pairIndex, index }),
     };
 
-    return await this.signAndSend(tx);
+    return await this.transactions.sendAndWait(tx);
   }
 
   /**
@@ -295,6 +288,26 @@ export class TradingOperationsRPC {
     return Number(count);
   }
 
+  /**
+   * Check whether a limit order is still open
+   * @param trader - Trader address
+   * @param pairIndex - Trading pair index
+   * @param index - Order index
+   * @returns True if the order exists
+   */
+  async hasOpenLimitOrder(trader: string, pairIndex: number, index: number): Promise<boolean> {
+    return await this.tradingStorageContract.hasOpenLimitOrder(trader, pairIndex, index);
+  }
+
+  /**
+   * Get the number of blocks that must pass after a TP/SL or limit order
+   * update before it can change again
+   * @returns Timelock in blocks
+   */
+  async getLimitOrdersTimelock(): Promise<number> {
+    return Number(await this.tradingContract.limitOrdersTimelock());
+  }
+
   /**
    * Get limit order information
    * @param trader - Trader address
@@ -326,53 +339,18 @@ export class TradingOperationsRPC {
   }
 
   /**
-   * Helper method to sign and send transactions
+   * Use the caller's price update data or fetch the latest for the pair
    */
-  private async signAndSend(tx: TransactionRequest): Promise<TransactionReceipt | null> {
-    if (!this.signer) {
-      throw new Error('Signer not set');
-    }
-
-    const address = await this.signer.getAddress();
-    tx.from = address;
-
-    const provider = this.tradingContract.runner?.provider;
-    if (!provider) {
-      throw new Error('Provider not available');
-    }
-
-    if (!tx.chainId) {
-      const network = await provider.getNetwork();
-      tx.chainId = network.chainId;
-    }
-
-    if (tx.nonce === undefined) {
-      tx.nonce = await provider.getTransactionCount(address);
-    }
-
-    if (!tx.gasLimit) {
-      tx.gasLimit = await provider.estimateGas(tx);
-    }
-
-    if (!tx.maxFeePerGas && !tx.gasPrice) {
-      const feeData = await provider.getFeeData();
-      if (feeData.maxFeePerGas) {
-        tx.maxFeePerGas = feeData.maxFeePerGas;
-        tx.maxPriorityFeePerGas = feeData.maxPriorityFeePerGas || feeData.maxFeePerGas;
-      } else {
-        tx.gasPrice = feeData.gasPrice || undefined;
-      }
+  private async resolvePriceUpdate(
+    pairIndex: number,
+    priceUpdateData?: string[]
+  ): Promise<PriceUpdate> {
+    if (priceUpdateData) {
+      return {
+        priceUpdateData,
+        updateFee: await this.priceUpdates.getUpdateFee(priceUpdateData),
+      };
     }
-
-    const signedTx = await this.signer.signTransaction(tx);
-    const txResponse = await provider.broadcastTransaction(signedTx);
-    return await txResponse.wait();
-  }
-
-  /**
-   * Set signer for transactions
-   */
-  setSigner(signer: BaseSigner): void {
-    this.signer = signer;
+    return await this.priceUpdates.getPriceUpdate(pairIndex);
   }
 }
@@ -1,22 +1,34 @@
-import { Contract, Provider } from 'ethers';
-import { TradeInput, LossProtectionInfo, fromBlockchain10, toBlockchain6 } from '../types';
+import { Provider } from 'ethers';
+import {
+  TradeInput,
+  TradeInputOrderType,
+  LossProtectionInfo,
+  fromBlockchain10,
+  toBlockchain6,
+  toBlockchain10,
+} from '../types';
 import { PairsCache } from './pairs_cache';
+import { PairInfos, PairStorage } from '../typechain';
+import { decodeContractError, PairNotListed } from '../errors';
 
 /**
  * RPC module for trading-related parameters
  */
 export class TradingParametersRPC {
   private provider: Provider;
-  private pairInfosContract: Contract;
+  private pairInfosContract: PairInfos;
+  private pairStorageContract: PairStorage;
   private pairsCache: PairsCache;
 
   constructor(
     provider: Provider,
-    pairInfosContract: Contract,
+    pairInfosContract: PairInfos,
+    pairStorageContract: PairStorage,
     pairsCache: PairsCache
   ) {
     this.provider = provider;
     this.pairInfosContract = pairInfosContract;
+    this.pairStorageContract = pairStorageContract;
     this.pairsCache = pairsCache;
   }
 
@@ -28,18 +40,30 @@ export class TradingParametersRPC {
   async getLossProtectionTier(tradeInput: TradeInput): Promise<number> {
     const pairIndex = await this.pairsCache.getPairIndex(tradeInput.pair);
     if (pairIndex === undefined) {
-      throw new Error(`Pair ${tradeInput.pair} not found`);
+      throw new PairNotListed(`Pair ${tradeInput.pair} not found`);
     }
 
     try {
-      const tier = await this.pairInfosContract.getLossProtectionTier(
-        pairIndex,
-        toBlockchain6(tradeInput.collateralInTrade)
+      const collateral = toBlockchain6(tradeInput.collateralInTrade);
+      const tier = await this.pairInfosContract.lossProtectionTier(
+        {
+          trader: '0x0000000000000000000000000000000000000000',
+          pairIndex,
+          index: 0,
+          initialPosToken: collateral,
+          positionSizeUSDC: collateral,
+          openPrice: toBlockchain10(tradeInput.openPrice),
+          buy: tradeInput.isLong,
+          leverage: toBlockchain10(tradeInput.leverage),
+          tp: toBlockchain10(tradeInput.tp),
+          sl: toBlockchain10(tradeInput.sl),
+          timestamp: 0,
+        },
+        tradeInput.orderType === TradeInputOrderType.MARKET_ZERO_FEE
       );
       return Number(tier);
     } catch (error) {
-      console.error('Error getting loss protection tier:', error);
-      return 0;
+      throw decodeContractError(error);
     }
   }
 
@@ -51,11 +75,10 @@ export class TradingParametersRPC {
    */
   async getLossProtectionPercentage(tier: number, pairIndex: number): Promise<number> {
     try {
-      const percentage = await this.pairInfosContract.getLossProtectionP(tier, pairIndex);
+      const percentage = await this.pairStorageContract.lossProtectionMultiplier(pairIndex, tier);
       return fromBlockchain10(percentage);
     } catch (error) {
-      console.error('Error getting loss protection percentage:', error);
-      return 0;
+      throw decodeContractError(error);
     }
   }
 
@@ -89,7 +112,7 @@ export class TradingParametersRPC {
   ): Promise<LossProtectionInfo> {
     const pairIndex = await this.pairsCache.getPairIndex(tradeInput.pair);
     if (pairIndex === undefined) {
-      throw new Error(`Pair ${tradeInput.pair} not found`);
+      throw new PairNotListed(`Pair ${tradeInput.pair} not found`);
     }
 
     const tier = await this.getLossProtectionTier(tradeInput);
@@ -0,0 +1,399 @@
+import { MaxUint256, Signature, TransactionReceipt, TransactionRequest } from 'ethers';
+import { Erc20StateOverrides } from '../simulation/state_overrides';
+import { TransactionManager } from '../transactions/transaction_manager';
+import {
+  AvantisError,
+  InsufficientAllowance,
+  InsufficientBalance,
+  decodeContractError,
+} from '../errors';
+import { ERC20 } from '../typechain';
+import { fromBlockchain6, toBlockchain6 } from '../types';
+
+/**
+ * How missing USDC allowance is granted
+ * - 'exact': approve exactly the amount the trade needs
+ * - 'infinite': approve the maximum uint256 once
+ * - 'permit': sign an EIP-2612 permit for the amount and send it along with the trade
+ */
+export type ApprovalMode = 'exact' | 'infinite' | 'permit';
+
+/**
+ * UsdcApprovalManager options
+ */
+export interface UsdcApprovalOptions {
+  /** How to grant missing allowance (default: 'exact') */
+  mode?: ApprovalMode;
+  /** Grant missing allowance automatically before openTrade (default: false) */
+  autoApprove?: boolean;
+  /** Permit validity in seconds (default: 3600) */
+  permitDeadline?: number;
+}
+
+/**
+ * Signed EIP-2612 permit
+ */
+export interface UsdcPermit {
+  owner: string;
+  spender: string;
+  /** Allowance granted (USDC) */
+  value: number;
+  /** Unix timestamp after which the permit is invalid */
+  deadline: number;
+  nonce: bigint;
+  v: number;
+  r: string;
+  s: string;
+  /** 65-byte signature */
+  signature: string;
+}
+
+/**
+ * Outcome of a transaction sent with a permit
+ */
+export interface PermitTransactionResult {
+  /** Receipt of the transaction spending the allowance */
+  receipt: TransactionReceipt | null;
+  /** Receipt of the permit (null if it failed) */
+  permitReceipt: TransactionReceipt | null;
+  /** Why the permit failed, e.g. it was front-run or its nonce was already used */
+  permitError?: Error;
+}
+
+/**
+ * Problems found by the pre-trade check
+ */
+export type PreTradeIssue = 'insufficient allowance' | 'insufficient balance';
+
+/**
+ * Result of the pre-trade check
+ */
+export interface PreTradeCheck {
+  ok: boolean;
+  issues: PreTradeIssue[];
+  /** Collateral the trade needs (USDC) */
+  required: number;
+  balance: number;
+  allowance: number;
+}
+
+/**
+ * USDC Approval Manager
+ * Checks balance and allowance of the Trading contract before trades and
+ * grants missing allowance with exact approvals, an infinite approval or an
+ * EIP-2612 permit.
+ *
+ * The Trading contract does not take permits, so a permit is a USDC
+ * transaction of its own. `sendWithPermit` broadcasts it right before the
+ * trade, without waiting in between. Anyone can submit a permit: a delegate or
+ * relayer can send `buildPermitTx(permit)` before acting through
+ * `delegatedAction`, so the trader never sends a transaction.
+ */
+export class UsdcApprovalManager {
+  private usdcContract: ERC20;
+  private tradingAddress: string;
+  private transactions: TransactionManager;
+  private mode: ApprovalMode;
+  private autoApprove: boolean;
+  private permitDeadline: number;
+  private stateOverrides?: Erc20StateOverrides;
+
+  /**
+   * Create a UsdcApprovalManager
+   * @param usdcContract - USDC contract
+   * @param tradingAddress - Trading contract (the spender)
+   * @param transactions - Transaction pipeline with the trader's signer
+   * @param options - Approval mode and permit settings
+   * @param stateOverrides - USDC state overrides, used to estimate trades sent with a permit
+   */
+  constructor(
+    usdcContract: ERC20,
+    tradingAddress: string,
+    transactions: TransactionManager,
+    options: UsdcApprovalOptions = {},
+    stateOverrides?: Erc20StateOverrides
+  ) {
+    this.usdcContract = usdcContract;
+    this.tradingAddress = tradingAddress;
+    this.transactions = transactions;
+    this.mode = options.mode ?? 'exact';
+    this.autoApprove = options.autoApprove ?? false;
+    this.permitDeadline = options.permitDeadline ?? 3600;
+    this.stateOverrides = stateOverrides;
+  }
+
+  /**
+   * Get the USDC allowance of the Trading contract
+   * @param owner - Trader address
+   * @returns Allowance in USDC
+   */
+  async getAllowance(owner: string): Promise<number> {
+    return fromBlockchain6(await this.usdcContract.allowance(owner, this.tradingAddress));
+  }
+
+  /**
+   * Check balance and allowance for a trade
+   * @param owner - Trader address
+   * @param amount - Collateral the trade needs (USDC)
+   * @returns Issues found (empty when the trade can be sent)
+   */
+  async checkTrade(owner: string, amount: number): Promise<PreTradeCheck> {
+    const [balance, allowance] = await Promise.all([
+      this.usdcContract.balanceOf(owner),
+      this.usdcContract.allowance(owner, this.tradingAddress),
+    ]);
+    const required = toBlockchain6(amount);
+
+    const issues: PreTradeIssue[] = [];
+    if (balance < required) {
+      issues.push('insufficient balance');
+    }
+    if (allowance < required) {
+      issues.push('insufficient allowance');
+    }
+
+    return {
+      ok: issues.length === 0,
+      issues,
+      required: amount,
+      balance: fromBlockchain6(balance),
+      allowance: fromBlockchain6(allowance),
+    };
+  }
+
+  /**
+   * Run the pre-trade check before a trade is broadcast
+   * Missing allowance is granted when auto-approval is on and the signer owns
+   * the collateral; otherwise the first issue is thrown. In 'permit' mode
+   * nothing is sent yet: the trade goes out with sendWithPermit instead.
+   * @param owner - Trader address
+   * @param amount - Collateral the trade needs (USDC)
+   * @returns True if the trade must be sent with sendWithPermit
+   */
+  async prepareTrade(owner: string, amount: number): Promise<boolean> {
+    const check = await this.checkTrade(owner, amount);
+    if (check.issues.includes('insufficient balance')) {
+      throw new InsufficientBalance(
+        `insufficient balance: ${check.balance} USDC available, ${check.required} required`
+      );
+    }
+    if (check.ok) return false;
+
+    const signer = this.transactions.getSigner();
+    const isOwner =
+      signer !== undefined && (await signer.getAddress()).toLowerCase() === owner.toLowerCase();
+    if (!this.autoApprove || !isOwner) {
+      throw new InsufficientAllowance(
+        `insufficient allowance: ${check.allowance} USDC approved, ${check.required} required`
+      );
+    }
+
+    if (this.mode === 'permit') return true;
+    await this.ensureAllowance(amount);
+    return false;
+  }
+
+  /**
+   * Sign a permit for an amount and send it together with a transaction that spends it
+   * Both are broadcast with consecutive nonces without waiting in between, so
+   * they are usually mined in the same block. The transaction's gas is
+   * estimated with the permitted allowance applied as a state override.
+   * A failed permit does not fail the call: the transaction may still be
+   * mined (e.g. when someone else submitted the permit first), so its receipt
+   * is returned and the permit failure is reported in `permitError`.
+   * @param amount - Allowance the transaction needs (USDC)
+   * @param tx - Transaction spending the allowance, e.g. openTrade
+   * @returns Receipts of the transaction and the permit
+   * @throws Typed SDK error if the transaction would revert even with the allowance
+   */
+  async sendWithPermit(amount: number, tx: TransactionRequest): Promise<PermitTransactionResult> {
+    if (!this.stateOverrides) {
+      throw new Error('State overrides required to send a transaction with a permit');
+    }
+
+    const permit = await this.signPermit(amount);
+    const simulation = await this.transactions.simulate(tx, {
+      stateOverrides: await this.stateOverrides.allowance(
+        permit.owner,
+        this.tradingAddress,
+        toBlockchain6(amount)
+      ),
+    });
+    if (!simulation.success) {
+      throw (
+        simulation.error ??
+        new AvantisError('Transaction would fail with the permitted allowance', simulation.revert)
+      );
+    }
+
+    const permitResponse = await this.transactions.send(await this.buildPermitTx(permit));
+    const response = await this.transactions.send({ ...tx, gasLimit: simulation.gasLimit });
+    const permitOutcome = this.transactions.wait(permitResponse).then(
+      (permitReceipt) => ({ permitReceipt }),
+      (error) => ({ permitReceipt: null, permitError: decodeContractError(error) })
+    );
+
+    const receipt = await this.transactions.wait(response);
+    return { receipt, ...(await permitOutcome) };
+  }
+
+  /**
+   * Grant allowance for an amount if the current allowance is lower
+   * @param amount - Amount the Trading contract must be able to spend (USDC)
+   * @param mode - Approval mode (default: manager setting)
+   * @returns Receipt of the approval or permit, or null if nothing was sent
+   */
+  async ensureAllowance(
+    amount: number,
+    mode: ApprovalMode = this.mode
+  ): Promise<TransactionReceipt | null> {
+    const owner = await this.requireSigner().getAddress();
+    if ((await this.usdcContract.allowance(owner, this.tradingAddress)) >= toBlockchain6(amount)) {
+      return null;
+    }
+
+    switch (mode) {
+      case 'infinite':
+        return await this.approveInfinite();
+      case 'permit':
+        return await this.submitPermit(await this.signPermit(amount));
+      default:
+        return await this.approve(amount);
+    }
+  }
+
+  /**
+   * Approve the Trading contract for an exact amount
+   * @param amount - Allowance in USDC (replaces the current allowance)
+   * @returns Transaction receipt
+   */
+  async approve(amount: number): Promise<TransactionReceipt | null> {
+    return await this.sendApprove(toBlockchain6(amount));
+  }
+
+  /**
+   * Approve the Trading contract for the maximum amount
+   * @returns Transaction receipt
+   */
+  async approveInfinite(): Promise<TransactionReceipt | null> {
+    return await this.sendApprove(MaxUint256);
+  }
+
+  /**
+   * Revoke the Trading contract's allowance
+   * @returns Transaction receipt
+   */
+  async revoke(): Promise<TransactionReceipt | null> {
+    return await this.sendApprove(0n);
+  }
+
+  /**
+   * Sign an EIP-2612 permit for the Trading contract
+   * @param amount - Allowance in USDC
+   * @param deadline - Unix timestamp the permit expires (default: now + permitDeadline)
+   * @returns Signed permit
+   */
+  async signPermit(amount: number, deadline?: number): Promise<UsdcPermit> {
+    const signer = this.requireSigner();
+    const provider = this.usdcContract.runner?.provider;
+    if (!provider) {
+      throw new Error('Provider not available');
+    }
+
+    const owner = await signer.getAddress();
+    const [name, version, nonce, network] = await Promise.all([
+      this.usdcContract.name(),
+      this.usdcContract.version(),
+      this.usdcContract.nonces(owner),
+      provider.getNetwork(),
+    ]);
+    const expiry = deadline ?? Math.floor(Date.now() / 1000) + this.permitDeadline;
+
+    const signature = await signer.signTypedData(
+      {
+        name,
+        version,
+        chainId: network.chainId,
+        verifyingContract: await this.usdcContract.getAddress(),
+      },
+      {
+        Permit: [
+          { name: 'owner', type: 'address' },
+          { name: 'spender', type: 'address' },
+          { name: 'value', type: 'uint256' },
+          { name: 'nonce', type: 'uint256' },
+          { name: 'deadline', type: 'uint256' },
+        ],
+      },
+      {
+        owner,
+        spender: this.tradingAddress,
+        value: toBlockchain6(amount),
+        nonce,
+        deadline: expiry,
+      }
+    );
+    const { v, r, s } = Signature.from(signature);
+
+    return {
+      owner,
+      spender: this.tradingAddress,
+      value: amount,
+      deadline: expiry,
+      nonce,
+      v,
+      r,
+      s,
+      signature,
+    };
+  }
+
+  /**
+   * Build the USDC permit transaction (can be sent by any account)
+   * @param permit - Signed permit
+   * @returns Transaction request
+   */
+  async buildPermitTx(permit: UsdcPermit): Promise<TransactionRequest> {
+    return {
+      to: await this.usdcContract.getAddress(),
+      data: this.usdcContract.interface.encodeFunctionData('permit', [
+        permit.owner,
+        permit.spender,
+        toBlockchain6(permit.value),
+        permit.deadline,
+        permit.v,
+        permit.r,
+        permit.s,
+      ]),
+    };
+  }
+
+  /**
+   * Submit a signed permit with the current signer
+   * @param permit - Signed permit
+   * @returns Transaction receipt
+   */
+  async submitPermit(permit: UsdcPermit): Promise<TransactionReceipt | null> {
+    this.requireSigner();
+    return await this.transactions.sendAndWait(await this.buildPermitTx(permit));
+  }
+
+  private async sendApprove(value: bigint): Promise<TransactionReceipt | null> {
+    this.requireSigner();
+
+    const tx: TransactionRequest = {
+      to: await this.usdcContract.getAddress(),
+      data: this.usdcContract.interface.encodeFunctionData('approve', [this.tradingAddress, value]),
+    };
+
+    return await this.transactions.sendAndWait(tx);
+  }
+
+  private requireSigner() {
+    const signer = this.transactions.getSigner();
+    if (!signer) {
+      throw new Error('Signer not set');
+    }
+    return signer;
+  }
+}
@@ -0,0 +1,121 @@
+import { Provider } from 'ethers';
+import { z } from 'zod';
+import { RemoteDigestSigner, TokenSource, resolveToken } from './remote';
+import { rawSignatureToDer } from '../crypto/spki';
+
+/**
+ * AzureKeyVaultSigner options
+ */
+export interface AzureKeyVaultSignerOptions {
+  /** Vault URL, e.g. https://my-vault.vault.azure.net */
+  vaultUrl: string;
+  /** Key name */
+  keyName: string;
+  /** Key version (default: current version) */
+  keyVersion?: string;
+  /** Access token for https://vault.azure.net (e.g. from @azure/identity) */
+  accessToken: TokenSource;
+  /** REST API version (default: 7.4) */
+  apiVersion?: string;
+}
+
+// GET {vault}/keys/{name}[/{version}]: JSON web key of the key version
+const AzureKeySchema = z.object({
+  key: z.object({
+    kid: z.string(),
+    crv: z.string().optional(),
+    x: z.string().optional(),
+    y: z.string().optional(),
+  }),
+});
+
+// POST {kid}/sign
+const AzureSignatureSchema = z.object({ value: z.string() });
+
+/**
+ * Azure Key Vault signer
+ * Uses an EC key on the P-256K curve (ES256K) through the Key Vault REST API.
+ */
+export class AzureKeyVaultSigner extends RemoteDigestSigner {
+  private vaultUrl: string;
+  private keyName: string;
+  private keyVersion?: string;
+  private accessToken: TokenSource;
+  private apiVersion: string;
+  private keyId?: string;
+
+  /**
+   * Create a Key Vault signer
+   * @param options - Vault, key and credentials
+   * @param provider - Ethereum provider
+   */
+  constructor(options: AzureKeyVaultSignerOptions, provider: Provider) {
+    super(provider);
+    this.vaultUrl = options.vaultUrl.replace(/\/$/, '');
+    this.keyName = options.keyName;
+    this.keyVersion = options.keyVersion;
+    this.accessToken = options.accessToken;
+    this.apiVersion = options.apiVersion ?? '7.4';
+  }
+
+  /**
+   * Get the public key from Key Vault
+   * Also pins the key version used for signing.
+   * @returns Uncompressed public key (0x04 + X + Y)
+   */
+  protected async getPublicKey(): Promise<Uint8Array> {
+    const version = this.keyVersion ? `/${this.keyVersion}` : '';
+    const { key } = AzureKeySchema.parse(
+      await this.request('GET', `${this.vaultUrl}/keys/${this.keyName}${version}`)
+    );
+    if (key.crv !== 'P-256K') {
+      throw new Error(`Key Vault key uses curve ${key.crv}, expected P-256K`);
+    }
+    if (!key.x || !key.y) {
+      throw new Error('Failed to get public key from Key Vault');
+    }
+
+    this.keyId = key.kid;
+    return new Uint8Array([
+      0x04,
+      ...Buffer.from(key.x, 'base64url'),
+      ...Buffer.from(key.y, 'base64url'),
+    ]);
+  }
+
+  /**
+   * Sign a digest with Key Vault
+   * @param digest - 32-byte digest
+   * @returns DER-encoded signature
+   */
+  protected async signDigest(digest: Uint8Array): Promise<Uint8Array> {
+    if (!this.keyId) {
+      await this.getPublicKey();
+    }
+
+    const response = await this.request('POST', `${this.keyId}/sign`, {
+      alg: 'ES256K',
+      value: Buffer.from(digest).toString('base64url'),
+    });
+    const { value } = AzureSignatureSchema.parse(response);
+
+    // Key Vault returns the JOSE (r || s) form
+    return rawSignatureToDer(new Uint8Array(Buffer.from(value, 'base64url')));
+  }
+
+  private async request(method: 'GET' | 'POST', url: string, body?: unknown): Promise<unknown> {
+    const response = await fetch(`${url}?api-version=${this.apiVersion}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${await resolveToken(this.accessToken)}`,
+        'Content-Type': 'application/json',
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    if (!response.ok) {
+      throw new Error(`Key Vault request failed: ${response.status} ${await response.text()}`);
+    }
+
+    return await response.json();
+  }
+}
@@ -1,4 +1,4 @@
-import { TransactionRequest, TransactionResponse } from 'ethers';
+import { TransactionRequest, TypedDataDomain, TypedDataField } from 'ethers';
 
 /**
  * Abstract base class for transaction signers
@@ -24,4 +24,17 @@ export abstract class BaseSigner {
    * @returns Signature
    */
   abstract signMessage(message: string | Uint8Array): Promise<string>;
+
+  /**
+   * Sign EIP-712 typed data
+   * @param domain - EIP-712 domain
+   * @param types - Struct definitions (without EIP712Domain)
+   * @param value - Data to sign
+   * @returns Signature
+   */
+  abstract signTypedData(
+    domain: TypedDataDomain,
+    types: Record<string, TypedDataField[]>,
+    value: Record<string, any>
+  ): Promise<string>;
 }
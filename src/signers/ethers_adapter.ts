@@ -0,0 +1,65 @@
+import {
+  AbstractSigner,
+  Provider,
+  TransactionRequest,
+  TypedDataDomain,
+  TypedDataField,
+} from 'ethers';
+import { BaseSigner } from './base';
+
+/**
+ * ethers AbstractSigner backed by an SDK signer
+ * Lets LocalSigner, KMSSigner or any other BaseSigner be passed to ethers
+ * Contracts and third-party code. Populating, sending and waiting use the
+ * standard ethers implementation; only signing is delegated.
+ */
+export class EthersSignerAdapter extends AbstractSigner {
+  private baseSigner: BaseSigner;
+
+  /**
+   * Create an EthersSignerAdapter
+   * @param baseSigner - SDK signer that produces the signatures
+   * @param provider - Provider used to populate and send transactions
+   */
+  constructor(baseSigner: BaseSigner, provider: Provider | null = null) {
+    super(provider);
+    this.baseSigner = baseSigner;
+  }
+
+  async getAddress(): Promise<string> {
+    return await this.baseSigner.getAddress();
+  }
+
+  connect(provider: Provider | null): EthersSignerAdapter {
+    return new EthersSignerAdapter(this.baseSigner, provider);
+  }
+
+  async signTransaction(tx: TransactionRequest): Promise<string> {
+    return await this.baseSigner.signTransaction(tx);
+  }
+
+  async signMessage(message: string | Uint8Array): Promise<string> {
+    return await this.baseSigner.signMessage(message);
+  }
+
+  async signTypedData(
+    domain: TypedDataDomain,
+    types: Record<string, TypedDataField[]>,
+    value: Record<string, any>
+  ): Promise<string> {
+    return await this.baseSigner.signTypedData(domain, types, value);
+  }
+}
+
+/**
+ * Wrap an SDK signer as an ethers signer
+ * @param baseSigner - SDK signer
+ * @param provider - Provider used to populate and send transactions
+ * @returns ethers AbstractSigner
+ */
+export function toEthersSigner(
+  baseSigner: BaseSigner,
+  provider: Provider | null = null
+): EthersSignerAdapter {
+  return new EthersSignerAdapter(baseSigner, provider);
+}
@@ -0,0 +1,85 @@
+import { Provider } from 'ethers';
+import { z } from 'zod';
+import { RemoteDigestSigner, TokenSource, resolveToken } from './remote';
+import { pemToDer } from '../crypto/spki';
+
+/**
+ * GcpKmsSigner options
+ */
+export interface GcpKmsSignerOptions {
+  /** projects/{p}/locations/{l}/keyRings/{r}/cryptoKeys/{k}/cryptoKeyVersions/{v} */
+  keyVersionName: string;
+  /** OAuth2 access token with the cloudkms scope (e.g. from google-auth-library) */
+  accessToken: TokenSource;
+  /** API endpoint (default: https://cloudkms.googleapis.com), e.g. a local emulator */
+  endpoint?: string;
+}
+
+// GET {keyVersionName}/publicKey
+const GcpPublicKeySchema = z.object({ pem: z.string() });
+
+// POST {keyVersionName}:asymmetricSign
+const GcpSignatureSchema = z.object({ signature: z.string() });
+
+/**
+ * Google Cloud KMS signer
+ * Uses an EC_SIGN_SECP256K1_SHA256 key version through the Cloud KMS REST API.
+ */
+export class GcpKmsSigner extends RemoteDigestSigner {
+  private keyVersionName: string;
+  private accessToken: TokenSource;
+  private endpoint: string;
+
+  /**
+   * Create a Cloud KMS signer
+   * @param options - Key version, credentials and endpoint
+   * @param provider - Ethereum provider
+   */
+  constructor(options: GcpKmsSignerOptions, provider: Provider) {
+    super(provider);
+    this.keyVersionName = options.keyVersionName;
+    this.accessToken = options.accessToken;
+    this.endpoint = (options.endpoint ?? 'https://cloudkms.googleapis.com').replace(/\/$/, '');
+  }
+
+  /**
+   * Get the public key from Cloud KMS
+   * @returns DER-encoded public key
+   */
+  protected async getPublicKey(): Promise<Uint8Array> {
+    const { pem } = GcpPublicKeySchema.parse(
+      await this.request('GET', `${this.keyVersionName}/publicKey`)
+    );
+    return pemToDer(pem);
+  }
+
+  /**
+   * Sign a digest with Cloud KMS
+   * @param digest - 32-byte digest
+   * @returns DER-encoded signature
+   */
+  protected async signDigest(digest: Uint8Array): Promise<Uint8Array> {
+    const response = await this.request('POST', `${this.keyVersionName}:asymmetricSign`, {
+      digest: { sha256: Buffer.from(digest).toString('base64') },
+    });
+    const { signature } = GcpSignatureSchema.parse(response);
+
+    return new Uint8Array(Buffer.from(signature, 'base64'));
+  }
+
+  private async request(method: 'GET' | 'POST', path: string, body?: unknown): Promise<unknown> {
+    const response = await fetch(`${this.endpoint}/v1/${path}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${await resolveToken(this.accessToken)}`,
+        'Content-Type': 'application/json',
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    if (!response.ok) {
+      throw new Error(`Cloud KMS request failed: ${response.status} ${await response.text()}`);
+    }
+
+    return await response.json();
+  }
+}
@@ -1,4 +1,4 @@
-import { Wallet, Provider, TransactionRequest } from 'ethers';
+import { Wallet, Provider, TransactionRequest, TypedDataDomain, TypedDataField } from 'ethers';
 import { BaseSigner } from './base';
 
 /**
@@ -50,6 +50,21 @@ export class LocalSigner extends BaseSigner {
     return await this.wallet.signMessage(message);
   }
 
+  /**
+   * Sign EIP-712 typed data using the private key
+   * @param domain - EIP-712 domain
+   * @param types - Struct definitions (without EIP712Domain)
+   * @param value - Data to sign
+   * @returns Signature
+   */
+  async signTypedData(
+    domain: TypedDataDomain,
+    types: Record<string, TypedDataField[]>,
+    value: Record<string, any>
+  ): Promise<string> {
+    return await this.wallet.signTypedData(domain, types, value);
+  }
+
   /**
    * Get the wallet instance (for advanced usage)
    * @returns Wallet instance
@@ -0,0 +1,178 @@
+import { Provider } from 'ethers';
+import { RemoteDigestSigner } from './remote';
+import { rawSignatureToDer } from '../crypto/spki';
+
+// PKCS#11 constants used by the signer
+const CKF_SERIAL_SESSION = 0x4;
+const CKU_USER = 1;
+const CKA_CLASS = 0x0;
+const CKA_LABEL = 0x3;
+const CKA_EC_PARAMS = 0x180;
+const CKA_EC_POINT = 0x181;
+const CKO_PUBLIC_KEY = 0x2;
+const CKO_PRIVATE_KEY = 0x3;
+const CKM_ECDSA = 0x1041;
+
+// DER-encoded OID 1.3.132.0.10 (secp256k1), as stored in CKA_EC_PARAMS
+const SECP256K1_EC_PARAMS = '06052b8104000a';
+
+type Pkcs11Handle = Buffer;
+
+interface Pkcs11Attribute {
+  type: number;
+  value?: number | boolean | string | Buffer;
+}
+
+/**
+ * Subset of the pkcs11js `PKCS11` API used by Pkcs11Signer
+ * Pass `new pkcs11js.PKCS11()`; the native module is not a dependency of the SDK.
+ */
+export interface Pkcs11Module {
+  load(path: string): void;
+  C_Initialize(): void;
+  C_Finalize(): void;
+  C_GetSlotList(tokenPresent?: boolean): Pkcs11Handle[];
+  C_OpenSession(slot: Pkcs11Handle, flags: number): Pkcs11Handle;
+  C_CloseSession(session: Pkcs11Handle): void;
+  C_Login(session: Pkcs11Handle, userType: number, pin?: string): void;
+  C_Logout(session: Pkcs11Handle): void;
+  C_FindObjectsInit(session: Pkcs11Handle, template: Pkcs11Attribute[]): void;
+  C_FindObjects(session: Pkcs11Handle, maxObjectCount: number): Pkcs11Handle[];
+  C_FindObjectsFinal(session: Pkcs11Handle): void;
+  C_GetAttributeValue(
+    session: Pkcs11Handle,
+    object: Pkcs11Handle,
+    template: Pkcs11Attribute[]
+  ): Pkcs11Attribute[];
+  C_SignInit(session: Pkcs11Handle, mechanism: { mechanism: number }, key: Pkcs11Handle): void;
+  C_Sign(session: Pkcs11Handle, data: Buffer, signature: Buffer): Buffer;
+}
+
+/**
+ * Pkcs11Signer options
+ */
+export interface Pkcs11SignerOptions {
+  /** pkcs11js PKCS11 instance */
+  pkcs11: Pkcs11Module;
+  /** Path of the PKCS#11 library, e.g. /usr/lib/softhsm/libsofthsm2.so */
+  library: string;
+  /** Index into the list of slots with a token (default: 0) */
+  slotIndex?: number;
+  /** User PIN */
+  pin: string;
+  /** CKA_LABEL of the key pair */
+  keyLabel: string;
+}
+
+/**
+ * PKCS#11 signer for HSMs and SoftHSM
+ * Signs with CKM_ECDSA on a secp256k1 key pair found by label.
+ */
+export class Pkcs11Signer extends RemoteDigestSigner {
+  private options: Pkcs11SignerOptions;
+  private session?: Pkcs11Handle;
+
+  /**
+   * Create a PKCS#11 signer
+   * The library is loaded and the session opened on first use.
+   * @param options - Module, library, slot, PIN and key label
+   * @param provider - Ethereum provider
+   */
+  constructor(options: Pkcs11SignerOptions, provider: Provider) {
+    super(provider);
+    this.options = options;
+  }
+
+  /**
+   * Log out, close the session and finalize the library
+   */
+  close(): void {
+    if (!this.session) return;
+
+    const { pkcs11 } = this.options;
+    try {
+      pkcs11.C_Logout(this.session);
+      pkcs11.C_CloseSession(this.session);
+    } finally {
+      this.session = undefined;
+      pkcs11.C_Finalize();
+    }
+  }
+
+  /**
+   * Get the public key of the key pair
+   * @returns Uncompressed public key (0x04 + X + Y)
+   */
+  protected async getPublicKey(): Promise<Uint8Array> {
+    const { pkcs11 } = this.options;
+    const session = this.open();
+    const publicKey = this.findKey(session, CKO_PUBLIC_KEY);
+
+    const [params, point] = pkcs11.C_GetAttributeValue(session, publicKey, [
+      { type: CKA_EC_PARAMS },
+      { type: CKA_EC_POINT },
+    ]);
+    if ((params.value as Buffer).toString('hex') !== SECP256K1_EC_PARAMS) {
+      throw new Error(`PKCS#11 key ${this.options.keyLabel} is not a secp256k1 key`);
+    }
+
+    // CKA_EC_POINT is a DER OCTET STRING wrapping the uncompressed point
+    const encoded = point.value as Buffer;
+    return new Uint8Array(encoded.subarray(encoded.length - 65));
+  }
+
+  /**
+   * Sign a digest with the private key
+   * @param digest - 32-byte digest
+   * @returns DER-encoded signature
+   */
+  protected async signDigest(digest: Uint8Array): Promise<Uint8Array> {
+    const { pkcs11 } = this.options;
+    const session = this.open();
+    const privateKey = this.findKey(session, CKO_PRIVATE_KEY);
+
+    pkcs11.C_SignInit(session, { mechanism: CKM_ECDSA }, privateKey);
+    const signature = pkcs11.C_Sign(session, Buffer.from(digest), Buffer.alloc(64));
+
+    // CKM_ECDSA returns r || s
+    return rawSignatureToDer(new Uint8Array(signature));
+  }
+
+  private open(): Pkcs11Handle {
+    if (this.session) {
+      return this.session;
+    }
+
+    const { pkcs11, library, slotIndex = 0, pin } = this.options;
+    pkcs11.load(library);
+    pkcs11.C_Initialize();
+
+    const slot = pkcs11.C_GetSlotList(true)[slotIndex];
+    if (!slot) {
+      throw new Error(`PKCS#11 slot ${slotIndex} not found`);
+    }
+
+    const session = pkcs11.C_OpenSession(slot, CKF_SERIAL_SESSION);
+    pkcs11.C_Login(session, CKU_USER, pin);
+    this.session = session;
+    return session;
+  }
+
+  private findKey(session: Pkcs11Handle, objectClass: number): Pkcs11Handle {
+    const { pkcs11, keyLabel } = this.options;
+
+    pkcs11.C_FindObjectsInit(session, [
+      { type: CKA_CLASS, value: objectClass },
+      { type: CKA_LABEL, value: keyLabel },
+    ]);
+    try {
+      const [key] = pkcs11.C_FindObjects(session, 1);
+      if (!key) {
+        throw new Error(`PKCS#11 key ${keyLabel} not found`);
+      }
+      return key;
+    } finally {
+      pkcs11.C_FindObjectsFinal(session);
+    }
+  }
+}
@@ -0,0 +1,207 @@
+import {
+  Provider,
+  Transaction,
+  TransactionLike,
+  TransactionRequest,
+  TypedDataDomain,
+  TypedDataEncoder,
+  TypedDataField,
+  getBytes,
+  hashMessage,
+  keccak256,
+  resolveAddress,
+} from 'ethers';
+import { BaseSigner } from './base';
+import { derEncodedPublicKeyToEthAddress, getSigRSV, signatureToHex } from '../crypto/spki';
+
+/**
+ * Bearer token, or a function returning a fresh one (called before every request)
+ */
+export type TokenSource = string | (() => string | Promise<string>);
+
+/**
+ * Base class for signers whose key lives in a remote key store (KMS, HSM, vault)
+ *
+ * A backend only has to return its secp256k1 public key and sign a 32-byte
+ * digest. Address derivation, low-s normalization and recovery of v are shared.
+ */
+export abstract class RemoteDigestSigner extends BaseSigner {
+  protected provider: Provider;
+  private addressCache?: string;
+
+  /**
+   * Create a remote signer
+   * @param provider - Ethereum provider (fills nonce, gas and chain ID)
+   */
+  constructor(provider: Provider) {
+    super();
+    this.provider = provider;
+  }
+
+  /**
+   * Get the public key from the key store
+   * @returns DER-encoded SubjectPublicKeyInfo, or the uncompressed 65-byte point
+   */
+  protected abstract getPublicKey(): Promise<Uint8Array>;
+
+  /**
+   * Sign a digest with the remote key (the digest must not be hashed again)
+   * @param digest - 32-byte digest
+   * @returns DER-encoded ECDSA signature
+   */
+  protected abstract signDigest(digest: Uint8Array): Promise<Uint8Array>;
+
+  /**
+   * Get the Ethereum address derived from the remote key
+   * @returns Ethereum address
+   */
+  async getAddress(): Promise<string> {
+    if (this.addressCache) {
+      return this.addressCache;
+    }
+
+    const publicKey = await this.getPublicKey();
+    if (publicKey.length > 65 && !containsSecp256k1Oid(publicKey)) {
+      throw new Error('Remote key is not a secp256k1 key');
+    }
+    this.addressCache = derEncodedPublicKeyToEthAddress(publicKey);
+    return this.addressCache;
+  }
+
+  /**
+   * Sign a transaction with the remote key
+   * Missing chain ID, nonce, gas limit and fees are filled from the provider.
+   * @param transaction - Transaction to sign
+   * @returns Signed transaction as hex string
+   */
+  async signTransaction(transaction: TransactionRequest): Promise<string> {
+    // Get the address to fill in the 'from' field if not set
+    const address = await this.getAddress();
+
+    // Fill in missing fields
+    const tx: TransactionRequest = {
+      ...transaction,
+      from: address,
+    };
+
+    // Get chain ID if not provided
+    if (!tx.chainId) {
+      const network = await this.provider.getNetwork();
+      tx.chainId = network.chainId;
+    }
+
+    // Get nonce if not provided
+    if (tx.nonce === undefined) {
+      tx.nonce = await this.provider.getTransactionCount(address);
+    }
+
+    // Estimate gas if not provided
+    if (!tx.gasLimit) {
+      tx.gasLimit = await this.provider.estimateGas(tx);
+    }
+
+    // Get gas price if not provided (for legacy transactions)
+    if (!tx.maxFeePerGas && !tx.gasPrice) {
+      const feeData = await this.provider.getFeeData();
+      if (feeData.maxFeePerGas) {
+        tx.maxFeePerGas = feeData.maxFeePerGas;
+        tx.maxPriorityFeePerGas = feeData.maxPriorityFeePerGas || feeData.maxFeePerGas;
+      } else {
+        tx.gasPrice = feeData.gasPrice || undefined;
+      }
+    }
+
+    // Resolve address fields to strings
+    const resolvedTo = tx.to ? await resolveAddress(tx.to, this.provider) : null;
+
+    // Create a transaction object with resolved fields ('from' is implied by the signature)
+    const resolvedTx: TransactionLike<string> = {
+      type: tx.type,
+      to: resolvedTo,
+      nonce: tx.nonce,
+      gasLimit: tx.gasLimit,
+      gasPrice: tx.gasPrice,
+      maxFeePerGas: tx.maxFeePerGas,
+      maxPriorityFeePerGas: tx.maxPriorityFeePerGas,
+      data: tx.data,
+      value: tx.value,
+      chainId: tx.chainId,
+      accessList: tx.accessList,
+    };
+
+    // Create unsigned transaction
+    const unsignedTx = Transaction.from(resolvedTx);
+
+    // Hash the unsigned transaction and sign it remotely
+    const msgHash = keccak256(unsignedTx.unsignedSerialized);
+    const { r, s, v } = await this.signHash(msgHash);
+
+    // Create signed transaction
+    unsignedTx.signature = { r, s, v };
+
+    return unsignedTx.serialized;
+  }
+
+  /**
+   * Sign an EIP-191 personal message with the remote key
+   * @param message - Message to sign
+   * @returns Signature as hex string
+   */
+  async signMessage(message: string | Uint8Array): Promise<string> {
+    const { r, s, v } = await this.signHash(hashMessage(message));
+    return signatureToHex(r, s, v);
+  }
+
+  /**
+   * Sign EIP-712 typed data with the remote key
+   * ENS names in the domain and values are resolved through the provider.
+   * @param domain - EIP-712 domain
+   * @param types - Struct definitions (without EIP712Domain)
+   * @param value - Data to sign
+   * @returns Signature as hex string
+   */
+  async signTypedData(
+    domain: TypedDataDomain,
+    types: Record<string, TypedDataField[]>,
+    value: Record<string, any>
+  ): Promise<string> {
+    const populated = await TypedDataEncoder.resolveNames(domain, types, value, async (name) =>
+      resolveAddress(name, this.provider)
+    );
+
+    const { r, s, v } = await this.signHash(
+      TypedDataEncoder.hash(populated.domain, types, populated.value)
+    );
+    return signatureToHex(r, s, v);
+  }
+
+  /**
+   * Sign a hash remotely and recover the full (r, s, v) signature
+   */
+  private async signHash(hash: string): Promise<{ r: string; s: string; v: number }> {
+    const address = await this.getAddress();
+    const derSignature = await this.signDigest(getBytes(hash));
+    return getSigRSV(derSignature, hash, address);
+  }
+}
+
+/**
+ * Resolve a token source to the current token
+ * @param token - Token or token callback
+ * @returns Token
+ */
+export async function resolveToken(token: TokenSource): Promise<string> {
+  return typeof token === 'function' ? await token() : token;
+}
+
+// DER-encoded OID 1.3.132.0.10 (secp256k1)
+const SECP256K1_OID = [0x06, 0x05, 0x2b, 0x81, 0x04, 0x00, 0x0a];
+
+function containsSecp256k1Oid(der: Uint8Array): boolean {
+  for (let i = 0; i <= der.length - SECP256K1_OID.length; i++) {
+    if (SECP256K1_OID.every((byte, j) => der[i + j] === byte)) {
+      return true;
+    }
+  }
+  return false;
+}
@@ -0,0 +1,139 @@
+import { Provider } from 'ethers';
+import { z } from 'zod';
+import { RemoteDigestSigner, TokenSource, resolveToken } from './remote';
+import { pemToDer } from '../crypto/spki';
+
+/**
+ * VaultTransitSigner options
+ */
+export interface VaultTransitSignerOptions {
+  /** Vault address (default: http://127.0.0.1:8200) */
+  address?: string;
+  /** Vault token */
+  token: TokenSource;
+  /** Transit key name */
+  keyName: string;
+  /** Transit mount path (default: transit) */
+  mount?: string;
+  /** Key version (default: latest) */
+  keyVersion?: number;
+  /** Vault Enterprise namespace */
+  namespace?: string;
+}
+
+// GET {mount}/keys/{name}: public keys of asymmetric keys by version
+const VaultKeySchema = z.object({
+  data: z.object({
+    latest_version: z.number(),
+    keys: z.record(z.union([z.object({ public_key: z.string() }), z.number()])),
+  }),
+});
+
+// POST {mount}/sign/{name}
+const VaultSignatureSchema = z.object({
+  data: z.object({ signature: z.string() }),
+});
+
+/**
+ * HashiCorp Vault Transit signer
+ * Signs prehashed digests with the transit `sign` endpoint.
+ *
+ * Stock Vault Transit has no secp256k1 key type (only the NIST curves, which
+ * are rejected when the address is derived). The signer needs a secrets engine
+ * mounted at `mount` that serves the Transit API for secp256k1 keys:
+ * - GET keys/{name} with the PEM SPKI public key per version in `data.keys`
+ * - POST sign/{name} accepting `prehashed`, `marshaling_algorithm: asn1` and
+ *   `key_version`, returning `vault:v{version}:{base64 DER signature}`
+ * e.g. a Transit-compatible plugin registered with `vault plugin register` and
+ * enabled with `vault secrets enable -path=<mount> <plugin>`. It is only tested
+ * against an emulator of these two endpoints.
+ *
+ * The key version read when the address is derived is pinned for signing, so
+ * a key rotation does not change the address.
+ */
+export class VaultTransitSigner extends RemoteDigestSigner {
+  private address: string;
+  private token: TokenSource;
+  private keyName: string;
+  private mount: string;
+  private keyVersion?: number;
+  private namespace?: string;
+  private signingVersion?: number;
+
+  /**
+   * Create a Vault Transit signer
+   * @param options - Vault address, token and key
+   * @param provider - Ethereum provider
+   */
+  constructor(options: VaultTransitSignerOptions, provider: Provider) {
+    super(provider);
+    this.address = (options.address ?? 'http://127.0.0.1:8200').replace(/\/$/, '');
+    this.token = options.token;
+    this.keyName = options.keyName;
+    this.mount = options.mount ?? 'transit';
+    this.keyVersion = options.keyVersion;
+    this.namespace = options.namespace;
+  }
+
+  /**
+   * Get the public key of the transit key
+   * Also pins the key version used for signing.
+   * @returns DER-encoded public key
+   */
+  protected async getPublicKey(): Promise<Uint8Array> {
+    const { data } = VaultKeySchema.parse(await this.request('GET', `keys/${this.keyName}`));
+    const version = this.keyVersion ?? data.latest_version;
+    const key = data.keys[version];
+    if (typeof key !== 'object') {
+      throw new Error(`Failed to get public key version ${version} from Vault`);
+    }
+
+    this.signingVersion = version;
+    return pemToDer(key.public_key);
+  }
+
+  /**
+   * Sign a digest with the transit key
+   * @param digest - 32-byte digest
+   * @returns DER-encoded signature
+   */
+  protected async signDigest(digest: Uint8Array): Promise<Uint8Array> {
+    if (this.signingVersion === undefined) {
+      await this.getPublicKey();
+    }
+
+    const response = await this.request('POST', `sign/${this.keyName}`, {
+      input: Buffer.from(digest).toString('base64'),
+      prehashed: true,
+      hash_algorithm: 'sha2-256',
+      marshaling_algorithm: 'asn1',
+      key_version: this.signingVersion,
+    });
+    const { data } = VaultSignatureSchema.parse(response);
+
+    // vault:v{version}:{base64 signature}
+    const signature = data.signature.slice(data.signature.lastIndexOf(':') + 1);
+    return new Uint8Array(Buffer.from(signature, 'base64'));
+  }
+
+  private async request(method: 'GET' | 'POST', path: string, body?: unknown): Promise<unknown> {
+    const headers: Record<string, string> = {
+      'X-Vault-Token': await resolveToken(this.token),
+      'Content-Type': 'application/json',
+    };
+    if (this.namespace) {
+      headers['X-Vault-Namespace'] = this.namespace;
+    }
+
+    const response = await fetch(`${this.address}/v1/${this.mount}/${path}`, {
+      method,
+      headers,
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    if (!response.ok) {
+      throw new Error(`Vault request failed: ${response.status} ${await response.text()}`);
+    }
+
+    return await response.json();
+  }
+}
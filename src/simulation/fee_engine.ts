@@ -0,0 +1,460 @@
+import {
+  LossProtectionInfo,
+  PairInfo,
+  PairsBackendReturn,
+  Snapshot,
+  TradeInputOrderType,
+  fromBlockchain10,
+  fromBlockchain12,
+} from '../types';
+
+/**
+ * Unmodeled description of the skew adjustment in PriceAggregator.openFeeP
+ */
+export const SKEW_FEE_UNMODELED = 'openingFeeP: skew adjustment (PairStorage.getSkewParams)';
+
+/**
+ * Dynamic market state of a pair (all values in USDC)
+ */
+export interface PairMarketState {
+  longOI: number;
+  shortOI: number;
+  onePercentDepthAbove: number;
+  onePercentDepthBelow: number;
+  /** Long OI of the pair's group (defaults to the pair's) */
+  groupLongOI?: number;
+  /** Short OI of the pair's group (defaults to the pair's) */
+  groupShortOI?: number;
+}
+
+/**
+ * Loss protection configuration of a pair
+ */
+export interface LossProtectionConfig {
+  /** Blended skew thresholds (% of OI on the long side) at or below which each tier unlocks for longs */
+  longSkewConfig: number[];
+  /** Blended skew thresholds (% of OI on the short side) at or below which each tier unlocks for shorts */
+  shortSkewConfig: number[];
+  /** Loss protection percentage per tier (index = tier) */
+  tierP: number[];
+}
+
+/**
+ * Input for a local fee quote
+ */
+export interface FeeQuoteInput {
+  pairIndex: number;
+  isLong: boolean;
+  collateral: number; // USDC
+  leverage: number;
+  orderType?: TradeInputOrderType;
+  isPnl?: boolean;
+}
+
+/**
+ * Result of a local fee quote
+ */
+export interface FeeQuote {
+  positionSize: number; // USDC
+  openingFeeP: number; // %
+  openingFee: number; // USDC
+  constantSpreadP: number; // %
+  priceImpactP: number; // %
+  skewImpactP: number; // %, negative when the trade reduces skew
+  totalSpreadP: number; // %
+  lossProtection: LossProtectionInfo;
+  /** On-chain fee components this quote leaves out (empty when it matches the contracts) */
+  unmodeled: string[];
+}
+
+interface PairEngineState {
+  backend: PairsBackendReturn;
+  market: PairMarketState;
+  lossProtection?: LossProtectionConfig;
+  /** Whether the pair has skew fee parameters (undefined: not loaded) */
+  skewFee?: boolean;
+}
+
+/**
+ * Local Fee Engine
+ * Deterministic, network-free re-implementation of the opening fee, price
+ * impact, skew impact spread and loss protection tier quotes.
+ *
+ * The engine works from pair configuration (PairsBackendReturn) and a copy of
+ * the OI/depth state, so quotes cost no RPC round-trips. The formulas model
+ * the PairInfos views; use checkFeeParity() against a forked chain to confirm
+ * they still match after a contract upgrade.
+ *
+ * Opening fees are the pair's base fees from PairStorage. The skew-based
+ * adjustment PriceAggregator.openFeeP applies on top (PairStorage.getSkewParams)
+ * is not modeled: market order quotes list it in `unmodeled` for pairs with skew
+ * fee parameters, and for pairs whose parameters were not loaded.
+ */
+export class LocalFeeEngine {
+  private pairs: Map<number, PairEngineState> = new Map();
+
+  /**
+   * Build an engine from a market snapshot
+   * @param snapshot - Snapshot from SnapshotRPC.getSnapshot()
+   * @param backends - Pair configuration from SnapshotRPC.getAllPairsFullData()
+   * @param pairsInfo - Pairs from PairsCache.getPairsInfo() (maps names to indexes)
+   * @param lossProtection - Optional loss protection config per pair index
+   * @param skewFeePairs - Pairs with skew fee parameters, from fetchSkewFeePairs()
+   *   (optional; without it market quotes flag the skew fee as not loaded)
+   * @returns Local fee engine
+   */
+  static fromSnapshot(
+    snapshot: Snapshot,
+    backends: Map<number, PairsBackendReturn>,
+    pairsInfo: Map<number, PairInfo>,
+    lossProtection: Map<number, LossProtectionConfig> = new Map(),
+    skewFeePairs?: Set<number>
+  ): LocalFeeEngine {
+    const engine = new LocalFeeEngine();
+    const pairNameToIndex = new Map<string, number>();
+    pairsInfo.forEach((pair, index) => pairNameToIndex.set(`${pair.from}/${pair.to}`, index));
+
+    for (const group of Object.values(snapshot.groups)) {
+      for (const [pairName, pairData] of Object.entries(group.pairs)) {
+        const pairIndex = pairNameToIndex.get(pairName);
+        if (pairIndex === undefined) continue;
+
+        const backend = backends.get(pairIndex);
+        if (!backend) continue;
+
+        engine.setPair(
+          pairIndex,
+          backend,
+          {
+            longOI: pairData.openInterest?.long ?? 0,
+            shortOI: pairData.openInterest?.short ?? 0,
+            onePercentDepthAbove: pairData.depth?.onePercentDepthAboveUsdc ?? 0,
+            onePercentDepthBelow: pairData.depth?.onePercentDepthBelowUsdc ?? 0,
+            groupLongOI: group.openInterest?.long,
+            groupShortOI: group.openInterest?.short,
+          },
+          lossProtection.get(pairIndex),
+          skewFeePairs?.has(pairIndex)
+        );
+      }
+    }
+
+    return engine;
+  }
+
+  /**
+   * Register or replace a pair's configuration and state
+   * @param pairIndex - Pair index
+   * @param backend - Pair configuration
+   * @param market - OI and depth state
+   * @param lossProtection - Loss protection config (optional, tier 0 if omitted)
+   * @param skewFee - Whether the pair has skew fee parameters (optional, flagged as not loaded if omitted)
+   */
+  setPair(
+    pairIndex: number,
+    backend: PairsBackendReturn,
+    market: PairMarketState,
+    lossProtection?: LossProtectionConfig,
+    skewFee?: boolean
+  ): void {
+    this.pairs.set(pairIndex, { backend, market: { ...market }, lossProtection, skewFee });
+  }
+
+  /**
+   * Update a pair's OI/depth state (e.g. while replaying a backtest)
+   * @param pairIndex - Pair index
+   * @param market - Fields to update
+   */
+  updateMarketState(pairIndex: number, market: Partial<PairMarketState>): void {
+    const pair = this.getPair(pairIndex);
+    pair.market = { ...pair.market, ...market };
+  }
+
+  /**
+   * Get a copy of a pair's OI/depth state
+   * @param pairIndex - Pair index
+   * @returns Market state
+   */
+  getMarketState(pairIndex: number): PairMarketState {
+    return { ...this.getPair(pairIndex).market };
+  }
+
+  /**
+   * Add a filled position to the pair's (and its group's) open interest
+   * @param input - Quote input of the filled trade
+   */
+  applyOpen(input: FeeQuoteInput): void {
+    this.applyOIChange(input, input.collateral * input.leverage);
+  }
+
+  /**
+   * Remove a closed position from the pair's (and its group's) open interest
+   * @param input - Quote input of the closed trade
+   */
+  applyClose(input: FeeQuoteInput): void {
+    this.applyOIChange(input, -input.collateral * input.leverage);
+  }
+
+  /**
+   * Quote all opening costs for a trade
+   * @param input - Quote input
+   * @returns Fee quote
+   */
+  quote(input: FeeQuoteInput): FeeQuote {
+    const positionSize = input.collateral * input.leverage;
+    const openingFeeP = this.getOpeningFeeP(input.pairIndex, input.orderType);
+    const openingFee = (positionSize * openingFeeP) / 100;
+    const constantSpreadP = this.getConstantSpreadP(input.pairIndex, input.isPnl);
+    const priceImpactP = this.getPriceImpactSpread(
+      input.pairIndex,
+      input.isLong,
+      positionSize,
+      input.isPnl
+    );
+    const skewImpactP = this.getSkewImpactSpread(input.pairIndex, input.isLong, positionSize);
+
+    return {
+      positionSize,
+      openingFeeP,
+      openingFee,
+      constantSpreadP,
+      priceImpactP,
+      skewImpactP,
+      totalSpreadP: constantSpreadP + priceImpactP + skewImpactP,
+      lossProtection: this.getLossProtectionInfo(
+        input.pairIndex,
+        input.isLong,
+        openingFee,
+        positionSize
+      ),
+      unmodeled: this.getUnmodeled(input.pairIndex, input.orderType),
+    };
+  }
+
+  /**
+   * On-chain fee components a quote leaves out
+   * Only market orders pay the skew-adjusted PriceAggregator.openFeeP.
+   * @param pairIndex - Pair index
+   * @param orderType - Order type (default: MARKET)
+   * @returns Descriptions of the unmodeled components
+   */
+  getUnmodeled(
+    pairIndex: number,
+    orderType: TradeInputOrderType = TradeInputOrderType.MARKET
+  ): string[] {
+    const { skewFee } = this.getPair(pairIndex);
+    if (orderType !== TradeInputOrderType.MARKET || skewFee === false) {
+      return [];
+    }
+    return skewFee
+      ? [SKEW_FEE_UNMODELED]
+      : ['openingFeeP: skew fee parameters not loaded (PairStorage.getSkewParams)'];
+  }
+
+  /**
+   * Opening fee percentage for an order type
+   * Zero-fee market orders pay PnL-based fees on close instead.
+   * @param pairIndex - Pair index
+   * @param orderType - Order type (default: MARKET)
+   * @returns Opening fee percentage
+   */
+  getOpeningFeeP(
+    pairIndex: number,
+    orderType: TradeInputOrderType = TradeInputOrderType.MARKET
+  ): number {
+    const { fee } = this.getPair(pairIndex).backend;
+
+    switch (orderType) {
+      case TradeInputOrderType.MARKET_ZERO_FEE:
+        return 0;
+      case TradeInputOrderType.LIMIT:
+      case TradeInputOrderType.STOP_LIMIT:
+        return fromBlockchain12(fee.limitOrderFeeP);
+      default:
+        return fromBlockchain12(fee.openFeeP);
+    }
+  }
+
+  /**
+   * Opening fee in USDC
+   * @param pairIndex - Pair index
+   * @param positionSize - Leveraged position size in USDC
+   * @param orderType - Order type (default: MARKET)
+   * @returns Opening fee in USDC
+   */
+  getOpeningFee(
+    pairIndex: number,
+    positionSize: number,
+    orderType: TradeInputOrderType = TradeInputOrderType.MARKET
+  ): number {
+    return (positionSize * this.getOpeningFeeP(pairIndex, orderType)) / 100;
+  }
+
+  /**
+   * Constant spread percentage of a pair
+   * @param pairIndex - Pair index
+   * @param isPnl - Use the zero-fee (PnL) spread
+   * @returns Spread percentage
+   */
+  getConstantSpreadP(pairIndex: number, isPnl: boolean = false): number {
+    const { pair } = this.getPair(pairIndex).backend;
+    return fromBlockchain10(isPnl ? pair.pnlSpreadP : pair.spreadP);
+  }
+
+  /**
+   * Price impact spread: average OI on the trade's side during the fill,
+   * relative to the 1% depth on that side, scaled by the pair multiplier
+   * @param pairIndex - Pair index
+   * @param isLong - Trade direction
+   * @param positionSize - Leveraged position size in USDC
+   * @param isPnl - Zero-fee order (PnL spreads are not dynamic)
+   * @returns Price impact percentage
+   */
+  getPriceImpactSpread(
+    pairIndex: number,
+    isLong: boolean,
+    positionSize: number,
+    isPnl: boolean = false
+  ): number {
+    const { backend, market } = this.getPair(pairIndex);
+    if (isPnl || !backend.group.isSpreadDynamic) {
+      return 0;
+    }
+
+    const depth = isLong ? market.onePercentDepthAbove : market.onePercentDepthBelow;
+    if (depth <= 0) {
+      return 0;
+    }
+
+    const sideOI = isLong ? market.longOI : market.shortOI;
+    const multiplier = fromBlockchain10(backend.pair.priceImpactMultiplier);
+    return ((sideOI + positionSize / 2) / depth) * multiplier;
+  }
+
+  /**
+   * Skew impact spread: signed skew after the trade (from the trade's side),
+   * scaled by the pair multiplier. Negative values reduce the spread.
+   * @param pairIndex - Pair index
+   * @param isLong - Trade direction
+   * @param positionSize - Leveraged position size in USDC
+   * @returns Skew impact percentage
+   */
+  getSkewImpactSpread(pairIndex: number, isLong: boolean, positionSize: number): number {
+    const { backend, market } = this.getPair(pairIndex);
+    const longOI = market.longOI + (isLong ? positionSize : 0);
+    const shortOI = market.shortOI + (isLong ? 0 : positionSize);
+    const total = longOI + shortOI;
+    if (total <= 0) {
+      return 0;
+    }
+
+    const skew = (longOI - shortOI) / total;
+    const directionalSkew = isLong ? skew : -skew;
+    return directionalSkew * fromBlockchain10(backend.pair.skewImpactMultiplier);
+  }
+
+  /**
+   * Blended skew seen by a trade: share of OI on the trade's side once it is
+   * filled, weighted 25% pair and 75% group like BlendedRPC.getBlendedSkew()
+   * @param pairIndex - Pair index
+   * @param isLong - Trade direction
+   * @param positionSize - Leveraged position size in USDC
+   * @returns Skew in % (50 when balanced or empty)
+   */
+  getBlendedSkewP(pairIndex: number, isLong: boolean, positionSize: number = 0): number {
+    const { market } = this.getPair(pairIndex);
+    const sideShare = (longOI: number, shortOI: number): number => {
+      const long = longOI + (isLong ? positionSize : 0);
+      const short = shortOI + (isLong ? 0 : positionSize);
+      const total = long + short;
+      if (total <= 0) {
+        return 50;
+      }
+      return ((isLong ? long : short) / total) * 100;
+    };
+
+    const pairSkew = sideShare(market.longOI, market.shortOI);
+    const groupSkew = sideShare(
+      market.groupLongOI ?? market.longOI,
+      market.groupShortOI ?? market.shortOI
+    );
+    return 0.25 * pairSkew + 0.75 * groupSkew;
+  }
+
+  /**
+   * Loss protection tier: number of the side's skew thresholds the blended
+   * skew is at or below (trades on the smaller side earn higher tiers)
+   * @param pairIndex - Pair index
+   * @param isLong - Trade direction
+   * @param positionSize - Leveraged position size in USDC (default: 0)
+   * @returns Loss protection tier
+   */
+  getLossProtectionTier(pairIndex: number, isLong: boolean, positionSize: number = 0): number {
+    const { lossProtection } = this.getPair(pairIndex);
+    if (!lossProtection) {
+      return 0;
+    }
+
+    const skewP = this.getBlendedSkewP(pairIndex, isLong, positionSize);
+    const thresholds = isLong ? lossProtection.longSkewConfig : lossProtection.shortSkewConfig;
+    const tier = thresholds.filter((threshold) => skewP <= threshold).length;
+
+    return Math.min(tier, Math.max(lossProtection.tierP.length - 1, 0));
+  }
+
+  /**
+   * Complete loss protection info for a trade
+   * @param pairIndex - Pair index
+   * @param isLong - Trade direction
+   * @param openingFee - Opening fee in USDC
+   * @param positionSize - Leveraged position size in USDC (default: 0)
+   * @returns Loss protection info
+   */
+  getLossProtectionInfo(
+    pairIndex: number,
+    isLong: boolean,
+    openingFee: number,
+    positionSize: number = 0
+  ): LossProtectionInfo {
+    const tier = this.getLossProtectionTier(pairIndex, isLong, positionSize);
+    const percentage = this.getPair(pairIndex).lossProtection?.tierP[tier] ?? 0;
+
+    return {
+      tier,
+      percentage,
+      amount: openingFee * (percentage / 100),
+    };
+  }
+
+  /**
+   * Apply an OI change to a pair and to the group OI of every pair in its group
+   */
+  private applyOIChange(input: FeeQuoteInput, delta: number): void {
+    const pair = this.getPair(input.pairIndex);
+    const clamp = (value: number) => Math.max(0, value + delta);
+
+    if (input.isLong) {
+      pair.market.longOI = clamp(pair.market.longOI);
+    } else {
+      pair.market.shortOI = clamp(pair.market.shortOI);
+    }
+
+    for (const other of this.pairs.values()) {
+      if (other.backend.pair.groupIndex !== pair.backend.pair.groupIndex) continue;
+      const { market } = other;
+      if (input.isLong && market.groupLongOI !== undefined) {
+        market.groupLongOI = clamp(market.groupLongOI);
+      } else if (!input.isLong && market.groupShortOI !== undefined) {
+        market.groupShortOI = clamp(market.groupShortOI);
+      }
+    }
+  }
+
+  private getPair(pairIndex: number): PairEngineState {
+    const pair = this.pairs.get(pairIndex);
+    if (!pair) {
+      throw new Error(`Pair ${pairIndex} not loaded in fee engine`);
+    }
+    return pair;
+  }
+}
@@ -0,0 +1,236 @@
+import { BlockTag } from 'ethers';
+import {
+  TradeInputOrderType,
+  fromBlockchain10,
+  fromBlockchain12,
+  toBlockchain6,
+  toBlockchain10,
+} from '../types';
+import {
+  FeeQuoteInput,
+  LocalFeeEngine,
+  LossProtectionConfig,
+  SKEW_FEE_UNMODELED,
+} from './fee_engine';
+import { PairInfos, PairStorage, PriceAggregator } from '../typechain';
+
+/**
+ * On-chain values a local quote is compared against
+ */
+export interface OnChainFeeValues {
+  openingFeeP: number;
+  priceImpactP: number;
+  skewImpactP: number;
+  lossProtectionTier: number;
+}
+
+/**
+ * Outcome of a single parity check
+ */
+export interface FeeParityResult {
+  input: FeeQuoteInput;
+  local: OnChainFeeValues;
+  onChain: OnChainFeeValues;
+  deltas: OnChainFeeValues;
+  withinTolerance: boolean;
+  /** Known differences between the engine and the contracts that apply to this case */
+  unmodeled: string[];
+}
+
+/**
+ * Contracts used by the parity check
+ */
+export interface FeeParityContracts {
+  pairInfos: PairInfos;
+  pairStorage: PairStorage;
+  priceAggregator: PriceAggregator;
+}
+
+/**
+ * Load the loss protection configuration of a pair from chain
+ * @param pairInfosContract - PairInfos contract
+ * @param pairStorageContract - PairStorage contract
+ * @param pairIndex - Pair index
+ * @returns Loss protection config for the local fee engine
+ */
+export async function fetchLossProtectionConfig(
+  pairInfosContract: PairInfos,
+  pairStorageContract: PairStorage,
+  pairIndex: number
+): Promise<LossProtectionConfig> {
+  const numTiers = Number(await pairInfosContract.lossProtectionNumTiers(pairIndex));
+  const tiers = Array.from({ length: numTiers }, (_, i) => i);
+
+  const [longSkewConfig, shortSkewConfig, tierP] = await Promise.all([
+    Promise.all(tiers.map((i) => pairInfosContract.longSkewConfig(pairIndex, i))),
+    Promise.all(tiers.map((i) => pairInfosContract.shortSkewConfig(pairIndex, i))),
+    Promise.all(tiers.map((i) => pairStorageContract.lossProtectionMultiplier(pairIndex, i))),
+  ]);
+
+  return {
+    longSkewConfig: longSkewConfig.map((v) => fromBlockchain10(v)),
+    shortSkewConfig: shortSkewConfig.map((v) => fromBlockchain10(v)),
+    tierP: tierP.map((v) => fromBlockchain10(v)),
+  };
+}
+
+/**
+ * Find the pairs whose opening fee PriceAggregator.openFeeP adjusts by skew
+ * @param pairStorageContract - PairStorage contract
+ * @param pairIndexes - Pairs to check
+ * @returns Indexes of the pairs with skew fee parameters
+ */
+export async function fetchSkewFeePairs(
+  pairStorageContract: PairStorage,
+  pairIndexes: number[]
+): Promise<Set<number>> {
+  const params = await Promise.all(
+    pairIndexes.map((pairIndex) => pairStorageContract.getSkewParams(pairIndex))
+  );
+  return new Set(pairIndexes.filter((_, i) => params[i].eqParams.length > 0));
+}
+
+/**
+ * Parity test mode for the local fee engine
+ * Quotes every case locally and through the on-chain views at the same block,
+ * typically against a forked chain whose state the engine was loaded from.
+ * Market opening fees are compared against PriceAggregator.openFeeP, limit
+ * order fees against PairStorage.pairLimitOrderFeeP. openFeeP adds a skew
+ * adjustment the engine does not model; cases on pairs with skew fee
+ * parameters list it in `unmodeled` and show the difference in their deltas.
+ * @param engine - Local fee engine loaded with the fork's state
+ * @param contracts - PairInfos, PairStorage and PriceAggregator contracts on the fork
+ * @param cases - Trades to quote
+ * @param tolerance - Maximum absolute difference per value (default: 1e-6)
+ * @param blockTag - Block to read on-chain values at (default: latest)
+ * @returns One result per case
+ */
+export async function checkFeeParity(
+  engine: LocalFeeEngine,
+  contracts: FeeParityContracts,
+  cases: FeeQuoteInput[],
+  tolerance: number = 1e-6,
+  blockTag: BlockTag = 'latest'
+): Promise<FeeParityResult[]> {
+  const results: FeeParityResult[] = [];
+
+  for (const input of cases) {
+    const quote = engine.quote(input);
+    const local: OnChainFeeValues = {
+      openingFeeP: quote.openingFeeP,
+      priceImpactP: quote.priceImpactP,
+      skewImpactP: quote.skewImpactP,
+      lossProtectionTier: quote.lossProtection.tier,
+    };
+
+    const [onChain, unmodeled] = await Promise.all([
+      getOnChainFeeValues(contracts, input, blockTag),
+      getUnmodeledFeatures(contracts.pairStorage, input, blockTag),
+    ]);
+
+    const deltas: OnChainFeeValues = {
+      openingFeeP: local.openingFeeP - onChain.openingFeeP,
+      priceImpactP: local.priceImpactP - onChain.priceImpactP,
+      skewImpactP: local.skewImpactP - onChain.skewImpactP,
+      lossProtectionTier: local.lossProtectionTier - onChain.lossProtectionTier,
+    };
+
+    results.push({
+      input,
+      local,
+      onChain,
+      deltas,
+      withinTolerance: Object.values(deltas).every((delta) => Math.abs(delta) <= tolerance),
+      unmodeled,
+    });
+  }
+
+  return results;
+}
+
+async function getOnChainFeeValues(
+  contracts: FeeParityContracts,
+  input: FeeQuoteInput,
+  blockTag: BlockTag
+): Promise<OnChainFeeValues> {
+  const isPnl = input.isPnl ?? false;
+  const positionSize = toBlockchain6(input.collateral * input.leverage);
+  const overrides = { blockTag };
+
+  const tradeStruct = {
+    trader: '0x0000000000000000000000000000000000000000',
+    pairIndex: input.pairIndex,
+    index: 0,
+    initialPosToken: toBlockchain6(input.collateral),
+    positionSizeUSDC: toBlockchain6(input.collateral),
+    openPrice: 0n,
+    buy: input.isLong,
+    leverage: toBlockchain10(input.leverage),
+    tp: 0n,
+    sl: 0n,
+    timestamp: 0,
+  };
+
+  const [openingFeeP, priceImpact, skewImpact, tier] = await Promise.all([
+    getOpeningFeeP(contracts, input, positionSize, blockTag),
+    contracts.pairInfos.getPriceImpactSpread(
+      input.pairIndex,
+      input.isLong,
+      positionSize,
+      isPnl,
+      overrides
+    ),
+    contracts.pairInfos.getSkewImpactSpread(
+      input.pairIndex,
+      input.isLong,
+      positionSize,
+      isPnl,
+      overrides
+    ),
+    contracts.pairInfos.lossProtectionTier(tradeStruct, isPnl, overrides),
+  ]);
+
+  return {
+    openingFeeP,
+    priceImpactP: fromBlockchain10(priceImpact),
+    skewImpactP: fromBlockchain10(skewImpact),
+    lossProtectionTier: Number(tier),
+  };
+}
+
+async function getOpeningFeeP(
+  contracts: FeeParityContracts,
+  input: FeeQuoteInput,
+  positionSize: bigint,
+  blockTag: BlockTag
+): Promise<number> {
+  switch (input.orderType ?? TradeInputOrderType.MARKET) {
+    case TradeInputOrderType.MARKET_ZERO_FEE:
+      return 0;
+    case TradeInputOrderType.LIMIT:
+    case TradeInputOrderType.STOP_LIMIT:
+      return fromBlockchain12(
+        await contracts.pairStorage.pairLimitOrderFeeP(input.pairIndex, { blockTag })
+      );
+    default:
+      return fromBlockchain12(
+        await contracts.priceAggregator.openFeeP(input.pairIndex, positionSize, input.isLong, {
+          blockTag,
+        })
+      );
+  }
+}
+
+async function getUnmodeledFeatures(
+  pairStorage: PairStorage,
+  input: FeeQuoteInput,
+  blockTag: BlockTag
+): Promise<string[]> {
+  const orderType = input.orderType ?? TradeInputOrderType.MARKET;
+  if (orderType !== TradeInputOrderType.MARKET) {
+    return [];
+  }
+
+  const { eqParams } = await pairStorage.getSkewParams(input.pairIndex, { blockTag });
+  return eqParams.length > 0 ? [SKEW_FEE_UNMODELED] : [];
+}
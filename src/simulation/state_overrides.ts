@@ -0,0 +1,155 @@
+import { AbiCoder, JsonRpcApiProvider, keccak256, toBeHex, toQuantity } from 'ethers';
+import { ERC20__factory } from '../typechain';
+
+/**
+ * State override for one account, applied to eth_call / eth_estimateGas only
+ */
+export interface AccountOverride {
+  /** ETH balance in wei */
+  balance?: bigint;
+  nonce?: number;
+  /** Runtime bytecode */
+  code?: string;
+  /** Storage slots to change (other slots keep their values) */
+  stateDiff?: Record<string, string>;
+}
+
+/**
+ * State overrides keyed by account address
+ */
+export type StateOverrides = Record<string, AccountOverride>;
+
+const MAX_MAPPING_SLOT = 64;
+const PROBE = toBeHex(0x5eedn, 32);
+
+const erc20Interface = ERC20__factory.createInterface();
+const coder = AbiCoder.defaultAbiCoder();
+
+/**
+ * Merge state overrides, combining the storage changes of the same account
+ * @param overrides - Overrides to merge (later ones win per field and slot)
+ * @returns Merged overrides
+ */
+export function mergeStateOverrides(...overrides: StateOverrides[]): StateOverrides {
+  const merged: StateOverrides = {};
+
+  for (const override of overrides) {
+    for (const [address, account] of Object.entries(override)) {
+      const key = address.toLowerCase();
+      const current = merged[key] ?? {};
+      merged[key] = {
+        ...current,
+        ...account,
+        stateDiff:
+          current.stateDiff || account.stateDiff
+            ? { ...current.stateDiff, ...account.stateDiff }
+            : undefined,
+      };
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Convert state overrides to the JSON-RPC format of eth_call's third parameter
+ * @param overrides - State overrides
+ * @returns JSON-RPC state override object
+ */
+export function toRpcStateOverrides(overrides: StateOverrides): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+
+  for (const [address, account] of Object.entries(overrides)) {
+    const entry: Record<string, unknown> = {};
+    if (account.balance !== undefined) entry.balance = toQuantity(account.balance);
+    if (account.nonce !== undefined) entry.nonce = toQuantity(account.nonce);
+    if (account.code !== undefined) entry.code = account.code;
+    if (account.stateDiff !== undefined) entry.stateDiff = account.stateDiff;
+    result[address] = entry;
+  }
+
+  return result;
+}
+
+/**
+ * ERC20 balance and allowance overrides
+ * The storage slots of the token's balance and allowance mappings are found
+ * by probing with eth_call overrides, so nothing about the token's layout
+ * needs to be known (proxies such as USDC included). Slots are cached per token.
+ */
+export class Erc20StateOverrides {
+  private provider: JsonRpcApiProvider;
+  private token: string;
+  private balanceSlot?: bigint;
+  private allowanceSlot?: bigint;
+
+  /**
+   * Create ERC20 overrides for a token
+   * @param provider - JSON-RPC provider (the node must support eth_call state overrides)
+   * @param token - Token address
+   */
+  constructor(provider: JsonRpcApiProvider, token: string) {
+    this.provider = provider;
+    this.token = token;
+  }
+
+  /**
+   * Override the token balance of an account
+   * @param holder - Account address
+   * @param amount - Balance in token units
+   * @returns State overrides
+   */
+  async balance(holder: string, amount: bigint): Promise<StateOverrides> {
+    if (this.balanceSlot === undefined) {
+      this.balanceSlot = await this.findSlot(
+        (slot) => balanceKey(holder, slot),
+        erc20Interface.encodeFunctionData('balanceOf', [holder])
+      );
+    }
+    return this.storageOverride(balanceKey(holder, this.balanceSlot), amount);
+  }
+
+  /**
+   * Override the allowance an owner gave a spender
+   * @param owner - Token owner
+   * @param spender - Spender address
+   * @param amount - Allowance in token units
+   * @returns State overrides
+   */
+  async allowance(owner: string, spender: string, amount: bigint): Promise<StateOverrides> {
+    if (this.allowanceSlot === undefined) {
+      this.allowanceSlot = await this.findSlot(
+        (slot) => allowanceKey(owner, spender, slot),
+        erc20Interface.encodeFunctionData('allowance', [owner, spender])
+      );
+    }
+    return this.storageOverride(allowanceKey(owner, spender, this.allowanceSlot), amount);
+  }
+
+  private storageOverride(key: string, amount: bigint): StateOverrides {
+    return { [this.token]: { stateDiff: { [key]: toBeHex(amount, 32) } } };
+  }
+
+  private async findSlot(keyFor: (slot: bigint) => string, data: string): Promise<bigint> {
+    for (let slot = 0n; slot < MAX_MAPPING_SLOT; slot++) {
+      const result = await this.provider.send('eth_call', [
+        { to: this.token, data },
+        'latest',
+        { [this.token]: { stateDiff: { [keyFor(slot)]: PROBE } } },
+      ]);
+      if (result === PROBE) {
+        return slot;
+      }
+    }
+
+    throw new Error(`Could not find the storage mapping of token ${this.token}`);
+  }
+}
+
+function balanceKey(holder: string, slot: bigint): string {
+  return keccak256(coder.encode(['address', 'uint256'], [holder, slot]));
+}
+
+function allowanceKey(owner: string, spender: string, slot: bigint): string {
+  return keccak256(coder.encode(['address', 'bytes32'], [spender, balanceKey(owner, slot)]));
+}
@@ -0,0 +1,498 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import {
+  BlockTag,
+  JsonRpcApiProvider,
+  Provider,
+  TransactionReceipt,
+  TransactionRequest,
+  TransactionResponse,
+  isError,
+  toQuantity,
+} from 'ethers';
+import { BaseSigner } from '../signers/base';
+import { DecodedRevert, decodeRevertData, getRevertData } from '../encoding/revert_data';
+import { StateOverrides, toRpcStateOverrides } from '../simulation/state_overrides';
+import { AvantisError, decodeContractError, revertToError } from '../errors';
+import { fromBlockchain18 } from '../types';
+
+/**
+ * A broadcast transaction that has not been mined yet
+ */
+export interface PendingTransaction {
+  nonce: number;
+  hash: string;
+  request: TransactionRequest;
+}
+
+/**
+ * Options for the transaction manager
+ */
+export interface TransactionManagerOptions {
+  /** Fee increase in percent used by speedUp/cancel (default: 15, minimum 10) */
+  feeBumpPercent?: number;
+}
+
+/**
+ * Options for simulating transactions
+ */
+export interface SimulateOptions {
+  /** Sender (default: signer address) */
+  from?: string;
+  /** Block to simulate against (default: 'pending') */
+  blockTag?: BlockTag;
+  /** Account state to override for the simulation (requires a JSON-RPC provider) */
+  stateOverrides?: StateOverrides;
+}
+
+/**
+ * Outcome of a simulated transaction
+ */
+export interface SimulationResult {
+  /** Simulated transaction, with the sender filled in */
+  request: TransactionRequest;
+  /** Whether the call succeeded */
+  success: boolean;
+  /** Return data, or revert data if the call reverted */
+  returnData: string;
+  /** Decoded revert (when the call reverted) */
+  revert?: DecodedRevert;
+  /** Typed SDK error for the revert, e.g. SlippageTooHigh (when the call reverted) */
+  error?: AvantisError;
+  /** Estimated gas (when the call succeeded) */
+  gasLimit?: bigint;
+  maxFeePerGas?: bigint;
+  maxPriorityFeePerGas?: bigint;
+  gasPrice?: bigint;
+  /** Estimated network fee in ETH: gasLimit × max fee (or gas price) */
+  fee?: number;
+}
+
+interface DryRunScope {
+  options: SimulateOptions;
+  results: SimulationResult[];
+}
+
+/**
+ * Transaction Manager
+ * Single pipeline for every write made by the SDK. Nonces are handed out
+ * locally so concurrent sends never collide, broadcasts are queued in nonce
+ * order, gas and fees are filled in one place, and stuck transactions can be
+ * sped up or cancelled with replace-by-fee.
+ */
+export class TransactionManager {
+  private provider: Provider;
+  private signer?: BaseSigner;
+  private feeBumpPercent: bigint;
+  private nextNonce?: number;
+  private nonceAddress?: string;
+  private queue: Promise<unknown> = Promise.resolve();
+  private pending: Map<number, PendingTransaction> = new Map();
+  private dryRunScope = new AsyncLocalStorage<DryRunScope>();
+
+  /**
+   * Create a transaction manager
+   * @param provider - Ethereum provider
+   * @param signer - Transaction signer (optional)
+   * @param options - Fee bump options
+   */
+  constructor(provider: Provider, signer?: BaseSigner, options: TransactionManagerOptions = {}) {
+    this.provider = provider;
+    this.signer = signer;
+    this.feeBumpPercent = BigInt(Math.max(10, Math.ceil(options.feeBumpPercent ?? 15)));
+  }
+
+  /**
+   * Set signer for transactions (resets the local nonce)
+   */
+  setSigner(signer: BaseSigner): void {
+    this.signer = signer;
+    this.nextNonce = undefined;
+    this.nonceAddress = undefined;
+    this.pending.clear();
+  }
+
+  /**
+   * Check whether a signer is set
+   * Inside a dry run with an explicit sender nothing is signed, so no signer is needed.
+   */
+  hasSigner(): boolean {
+    return this.signer !== undefined || this.dryRunScope.getStore()?.options.from !== undefined;
+  }
+
+  /**
+   * Check whether the caller runs inside dryRun()
+   */
+  isDryRun(): boolean {
+    return this.dryRunScope.getStore() !== undefined;
+  }
+
+  /**
+   * Get the current signer
+   */
+  getSigner(): BaseSigner | undefined {
+    return this.signer;
+  }
+
+  /**
+   * Get the address transactions are sent from
+   * Inside a dry run with an explicit sender this is that sender, otherwise the signer.
+   * @throws Error if no signer is set
+   */
+  async getSenderAddress(): Promise<string> {
+    const from = this.dryRunScope.getStore()?.options.from;
+    if (from !== undefined) {
+      return from;
+    }
+    return await this.requireSigner().getAddress();
+  }
+
+  /**
+   * Fill chain ID, sender, gas limit and fee fields (the nonce is assigned when queued)
+   * @param tx - Transaction to populate
+   * @returns Populated copy of the transaction
+   */
+  async populate(tx: TransactionRequest): Promise<TransactionRequest> {
+    const signer = this.requireSigner();
+    const populated: TransactionRequest = { ...tx, from: await signer.getAddress() };
+
+    if (!populated.chainId) {
+      const network = await this.provider.getNetwork();
+      populated.chainId = network.chainId;
+    }
+
+    if (!populated.gasLimit) {
+      try {
+        populated.gasLimit = await this.provider.estimateGas(populated);
+      } catch (error) {
+        // A revert during estimation is the transaction's own revert: surface it typed
+        throw decodeContractError(error);
+      }
+    }
+
+    if (!populated.maxFeePerGas && !populated.gasPrice) {
+      const feeData = await this.provider.getFeeData();
+      if (feeData.maxFeePerGas) {
+        populated.maxFeePerGas = feeData.maxFeePerGas;
+        populated.maxPriorityFeePerGas = feeData.maxPriorityFeePerGas || feeData.maxFeePerGas;
+      } else {
+        populated.gasPrice = feeData.gasPrice || undefined;
+      }
+    }
+
+    return populated;
+  }
+
+  /**
+   * Populate, sign and broadcast a transaction
+   * @param tx - Transaction to send
+   * @returns Transaction response
+   */
+  async send(tx: TransactionRequest): Promise<TransactionResponse> {
+    if (this.isDryRun()) {
+      throw new Error('Transactions cannot be broadcast during a dry run');
+    }
+
+    const populated = await this.populate(tx);
+
+    return await this.enqueue(async () => {
+      const nonce = populated.nonce ?? (await this.allocateNonce());
+      return await this.broadcast({ ...populated, nonce });
+    });
+  }
+
+  /**
+   * Send a transaction and wait for it to be mined
+   * Receipts of sped-up replacements are returned in place of the original.
+   * @param tx - Transaction to send
+   * @param confirmations - Confirmations to wait for (default: 1)
+   * @returns Transaction receipt
+   */
+  async sendAndWait(
+    tx: TransactionRequest,
+    confirmations: number = 1
+  ): Promise<TransactionReceipt | null> {
+    // Inside a dry run the transaction is simulated and recorded instead
+    const dryRun = this.dryRunScope.getStore();
+    if (dryRun) {
+      dryRun.results.push(await this.simulate(tx, dryRun.options));
+      return null;
+    }
+
+    const response = await this.send(tx);
+    return await this.wait(response, confirmations);
+  }
+
+  /**
+   * Simulate a transaction with eth_call and estimate its gas and fee, without signing
+   * Reverts are returned decoded rather than thrown.
+   * @param tx - Transaction to simulate
+   * @param options - Sender, block and state overrides
+   * @returns Simulation result
+   */
+  async simulate(tx: TransactionRequest, options: SimulateOptions = {}): Promise<SimulationResult> {
+    const from = options.from ?? (await this.signer?.getAddress());
+    if (!from) {
+      throw new Error('Sender required for simulation');
+    }
+
+    const request: TransactionRequest = { ...tx, from };
+    const blockTag = options.blockTag ?? 'pending';
+
+    try {
+      const returnData = await this.callWithOverrides('eth_call', request, blockTag, options);
+      const gasLimit = BigInt(
+        await this.callWithOverrides('eth_estimateGas', request, blockTag, options)
+      );
+      const feeData = await this.provider.getFeeData();
+      const feePerGas = feeData.maxFeePerGas ?? feeData.gasPrice ?? 0n;
+
+      return {
+        request,
+        success: true,
+        returnData,
+        gasLimit,
+        maxFeePerGas: feeData.maxFeePerGas ?? undefined,
+        maxPriorityFeePerGas: feeData.maxPriorityFeePerGas ?? undefined,
+        gasPrice: feeData.gasPrice ?? undefined,
+        fee: fromBlockchain18(gasLimit * feePerGas),
+      };
+    } catch (error) {
+      const revertData = getRevertData(error);
+      if (revertData === undefined) {
+        throw error;
+      }
+      const revert = decodeRevertData(revertData);
+      return {
+        request,
+        success: false,
+        returnData: revertData,
+        revert,
+        error: revertToError(revert, error),
+      };
+    }
+  }
+
+  /**
+   * Run SDK write calls without broadcasting anything
+   * Every transaction the task would send is simulated instead, and the write
+   * methods resolve with a null receipt.
+   * @param task - Calls to run, e.g. `() => client.tradingOps.closeTradeMarket(0, 0, 100)`
+   * @param options - Sender, block and state overrides
+   * @returns Simulation results in send order
+   */
+  async dryRun(
+    task: () => Promise<unknown>,
+    options: SimulateOptions = {}
+  ): Promise<SimulationResult[]> {
+    const scope: DryRunScope = { options, results: [] };
+    await this.dryRunScope.run(scope, task);
+    return scope.results;
+  }
+
+  /**
+   * Wait for a transaction sent through this manager
+   * @param response - Transaction response
+   * @param confirmations - Confirmations to wait for (default: 1)
+   * @returns Transaction receipt
+   * @throws Typed SDK error (e.g. SlippageTooHigh) if the transaction reverted
+   */
+  async wait(
+    response: TransactionResponse,
+    confirmations: number = 1
+  ): Promise<TransactionReceipt | null> {
+    try {
+      const receipt = await response.wait(confirmations);
+      this.pending.delete(response.nonce);
+      return receipt;
+    } catch (error) {
+      this.pending.delete(response.nonce);
+      if (isError(error, 'TRANSACTION_REPLACED') && !error.cancelled) {
+        if (error.receipt.status === 0) {
+          throw await this.decodeReverted(error.replacement, error.receipt, error);
+        }
+        return error.receipt;
+      }
+      if (isError(error, 'CALL_EXCEPTION') && error.receipt) {
+        throw await this.decodeReverted(response, error.receipt, error);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Replace a pending transaction with the same one at higher fees
+   * @param nonce - Nonce of the stuck transaction
+   * @param bumpPercent - Fee increase in percent (default: manager setting)
+   * @returns Replacement transaction response
+   */
+  async speedUp(nonce: number, bumpPercent?: number): Promise<TransactionResponse> {
+    const original = this.getPending(nonce);
+    return await this.enqueue(() =>
+      this.broadcast(this.bumpFees(original.request, bumpPercent))
+    );
+  }
+
+  /**
+   * Cancel a pending transaction by replacing it with an empty self-transfer
+   * @param nonce - Nonce of the stuck transaction
+   * @param bumpPercent - Fee increase in percent (default: manager setting)
+   * @returns Replacement transaction response
+   */
+  async cancel(nonce: number, bumpPercent?: number): Promise<TransactionResponse> {
+    const original = this.getPending(nonce);
+    const from = await this.requireSigner().getAddress();
+
+    const replacement = this.bumpFees(
+      {
+        ...original.request,
+        to: from,
+        data: '0x',
+        value: 0n,
+        gasLimit: 21000n,
+      },
+      bumpPercent
+    );
+
+    return await this.enqueue(() => this.broadcast(replacement));
+  }
+
+  /**
+   * Re-read the nonce from chain and forget transactions that were mined or dropped
+   * @returns Next nonce that will be used
+   */
+  async resync(): Promise<number> {
+    return await this.enqueue(() => this.syncNonce());
+  }
+
+  /**
+   * Get transactions broadcast by this manager that are not mined yet
+   */
+  getPendingTransactions(): PendingTransaction[] {
+    return Array.from(this.pending.values()).sort((a, b) => a.nonce - b.nonce);
+  }
+
+  private requireSigner(): BaseSigner {
+    if (!this.signer) {
+      throw new Error('Signer not set');
+    }
+    return this.signer;
+  }
+
+  private async callWithOverrides(
+    method: 'eth_call' | 'eth_estimateGas',
+    tx: TransactionRequest,
+    blockTag: BlockTag,
+    options: SimulateOptions
+  ): Promise<string> {
+    if (!options.stateOverrides) {
+      return method === 'eth_call'
+        ? await this.provider.call({ ...tx, blockTag })
+        : (await this.provider.estimateGas({ ...tx, blockTag })).toString();
+    }
+
+    if (!(this.provider instanceof JsonRpcApiProvider)) {
+      throw new Error('State overrides require a JSON-RPC provider');
+    }
+    return await this.provider.send(method, [
+      this.provider.getRpcTransaction(tx),
+      typeof blockTag === 'string' ? blockTag : toQuantity(blockTag),
+      toRpcStateOverrides(options.stateOverrides),
+    ]);
+  }
+
+  /**
+   * Turn a reverted transaction into a typed error
+   * Receipts carry no revert data, so the transaction is replayed with eth_call
+   * at its block to recover it.
+   */
+  private async decodeReverted(
+    tx: TransactionResponse,
+    receipt: TransactionReceipt,
+    cause: unknown
+  ): Promise<AvantisError> {
+    let revertData = '0x';
+    try {
+      await this.provider.call({
+        to: tx.to,
+        from: tx.from,
+        data: tx.data,
+        value: tx.value,
+        gasLimit: tx.gasLimit,
+        blockTag: receipt.blockNumber,
+      });
+    } catch (error) {
+      revertData = getRevertData(error) ?? revertData;
+    }
+
+    return revertToError(decodeRevertData(revertData), cause);
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task, task);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async allocateNonce(): Promise<number> {
+    const address = await this.requireSigner().getAddress();
+    if (this.nextNonce === undefined || this.nonceAddress !== address) {
+      await this.syncNonce();
+    }
+    return this.nextNonce!++;
+  }
+
+  private async syncNonce(): Promise<number> {
+    const address = await this.requireSigner().getAddress();
+    const [pendingCount, latestCount] = await Promise.all([
+      this.provider.getTransactionCount(address, 'pending'),
+      this.provider.getTransactionCount(address, 'latest'),
+    ]);
+
+    for (const nonce of this.pending.keys()) {
+      if (nonce < latestCount) {
+        this.pending.delete(nonce);
+      }
+    }
+
+    this.nonceAddress = address;
+    this.nextNonce = pendingCount;
+    return pendingCount;
+  }
+
+  private async broadcast(tx: TransactionRequest): Promise<TransactionResponse> {
+    try {
+      const signedTx = await this.requireSigner().signTransaction(tx);
+      const response = await this.provider.broadcastTransaction(signedTx);
+      this.pending.set(response.nonce, { nonce: response.nonce, hash: response.hash, request: tx });
+      return response;
+    } catch (error) {
+      // The nonce may not have been consumed (or a transaction was dropped): resync on next send
+      this.nextNonce = undefined;
+      throw error;
+    }
+  }
+
+  private getPending(nonce: number): PendingTransaction {
+    const pending = this.pending.get(nonce);
+    if (!pending) {
+      throw new Error(`No pending transaction with nonce ${nonce}`);
+    }
+    return pending;
+  }
+
+  private bumpFees(tx: TransactionRequest, bumpPercent?: number): TransactionRequest {
+    const percent =
+      bumpPercent !== undefined ? BigInt(Math.max(10, Math.ceil(bumpPercent))) : this.feeBumpPercent;
+    const bump = (value: bigint) => (value * (100n + percent)) / 100n + 1n;
+
+    if (tx.maxFeePerGas) {
+      return {
+        ...tx,
+        maxFeePerGas: bump(BigInt(tx.maxFeePerGas)),
+        maxPriorityFeePerGas: bump(BigInt(tx.maxPriorityFeePerGas ?? tx.maxFeePerGas)),
+      };
+    }
+
+    return { ...tx, gasPrice: bump(BigInt(tx.gasPrice ?? 0)) };
+  }
+}
@@ -0,0 +1,873 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedListener,
+  TypedContractMethod,
+} from "./common";
+
+export declare namespace Multicall3 {
+  export type CallStruct = { target: AddressLike; callData: BytesLike };
+
+  export type CallStructOutput = [target: string, callData: string] & {
+    target: string;
+    callData: string;
+  };
+
+  export type Call3Struct = {
+    target: AddressLike;
+    allowFailure: boolean;
+    callData: BytesLike;
+  };
+
+  export type Call3StructOutput = [
+    target: string,
+    allowFailure: boolean,
+    callData: string
+  ] & { target: string; allowFailure: boolean; callData: string };
+
+  export type ResultStruct = { success: boolean; returnData: BytesLike };
+
+  export type ResultStructOutput = [success: boolean, returnData: string] & {
+    success: boolean;
+    returnData: string;
+  };
+
+  export type Call3ValueStruct = {
+    target: AddressLike;
+    allowFailure: boolean;
+    value: BigNumberish;
+    callData: BytesLike;
+  };
+
+  export type Call3ValueStructOutput = [
+    target: string,
+    allowFailure: boolean,
+    value: bigint,
+    callData: string
+  ] & {
+    target: string;
+    allowFailure: boolean;
+    value: bigint;
+    callData: string;
+  };
+}
+
+export declare namespace ITradingStorage {
+  export type TradeStruct = {
+    trader: AddressLike;
+    pairIndex: BigNumberish;
+    index: BigNumberish;
+    initialPosToken: BigNumberish;
+    positionSizeUSDC: BigNumberish;
+    openPrice: BigNumberish;
+    buy: boolean;
+    leverage: BigNumberish;
+    tp: BigNumberish;
+    sl: BigNumberish;
+    timestamp: BigNumberish;
+  };
+
+  export type TradeStructOutput = [
+    trader: string,
+    pairIndex: bigint,
+    index: bigint,
+    initialPosToken: bigint,
+    positionSizeUSDC: bigint,
+    openPrice: bigint,
+    buy: boolean,
+    leverage: bigint,
+    tp: bigint,
+    sl: bigint,
+    timestamp: bigint
+  ] & {
+    trader: string;
+    pairIndex: bigint;
+    index: bigint;
+    initialPosToken: bigint;
+    positionSizeUSDC: bigint;
+    openPrice: bigint;
+    buy: boolean;
+    leverage: bigint;
+    tp: bigint;
+    sl: bigint;
+    timestamp: bigint;
+  };
+
+  export type PendingMarketOrderStruct = {
+    trade: ITradingStorage.TradeStruct;
+    block: BigNumberish;
+    wantedPrice: BigNumberish;
+    slippageP: BigNumberish;
+  };
+
+  export type PendingMarketOrderStructOutput = [
+    trade: ITradingStorage.TradeStructOutput,
+    block: bigint,
+    wantedPrice: bigint,
+    slippageP: bigint
+  ] & {
+    trade: ITradingStorage.TradeStructOutput;
+    block: bigint;
+    wantedPrice: bigint;
+    slippageP: bigint;
+  };
+
+  export type TradeInfoStruct = {
+    openInterestUSDC: BigNumberish;
+    tpLastUpdated: BigNumberish;
+    slLastUpdated: BigNumberish;
+    beingMarketClosed: boolean;
+    lossProtection: BigNumberish;
+  };
+
+  export type TradeInfoStructOutput = [
+    openInterestUSDC: bigint,
+    tpLastUpdated: bigint,
+    slLastUpdated: bigint,
+    beingMarketClosed: boolean,
+    lossProtection: bigint
+  ] & {
+    openInterestUSDC: bigint;
+    tpLastUpdated: bigint;
+    slLastUpdated: bigint;
+    beingMarketClosed: boolean;
+    lossProtection: bigint;
+  };
+
+  export type OpenLimitOrderStruct = {
+    trader: AddressLike;
+    pairIndex: BigNumberish;
+    index: BigNumberish;
+    positionSize: BigNumberish;
+    buy: boolean;
+    leverage: BigNumberish;
+    tp: BigNumberish;
+    sl: BigNumberish;
+    price: BigNumberish;
+    slippageP: BigNumberish;
+    block: BigNumberish;
+    executionFee: BigNumberish;
+  };
+
+  export type OpenLimitOrderStructOutput = [
+    trader: string,
+    pairIndex: bigint,
+    index: bigint,
+    positionSize: bigint,
+    buy: boolean,
+    leverage: bigint,
+    tp: bigint,
+    sl: bigint,
+    price: bigint,
+    slippageP: bigint,
+    block: bigint,
+    executionFee: bigint
+  ] & {
+    trader: string;
+    pairIndex: bigint;
+    index: bigint;
+    positionSize: bigint;
+    buy: boolean;
+    leverage: bigint;
+    tp: bigint;
+    sl: bigint;
+    price: bigint;
+    slippageP: bigint;
+    block: bigint;
+    executionFee: bigint;
+  };
+}
+
+export declare namespace IMulticall {
+  export type AggregatedPendingOrderStruct = {
+    orderId: BigNumberish;
+    orderInfo: ITradingStorage.PendingMarketOrderStruct;
+  };
+
+  export type AggregatedPendingOrderStructOutput = [
+    orderId: bigint,
+    orderInfo: ITradingStorage.PendingMarketOrderStructOutput
+  ] & {
+    orderId: bigint;
+    orderInfo: ITradingStorage.PendingMarketOrderStructOutput;
+  };
+
+  export type AggregatedTradeStruct = {
+    trade: ITradingStorage.TradeStruct;
+    tradeInfo: ITradingStorage.TradeInfoStruct;
+    rolloverFee: BigNumberish;
+    liquidationPrice: BigNumberish;
+    isPnl: boolean;
+  };
+
+  export type AggregatedTradeStructOutput = [
+    trade: ITradingStorage.TradeStructOutput,
+    tradeInfo: ITradingStorage.TradeInfoStructOutput,
+    rolloverFee: bigint,
+    liquidationPrice: bigint,
+    isPnl: boolean
+  ] & {
+    trade: ITradingStorage.TradeStructOutput;
+    tradeInfo: ITradingStorage.TradeInfoStructOutput;
+    rolloverFee: bigint;
+    liquidationPrice: bigint;
+    isPnl: boolean;
+  };
+
+  export type AggregatedOrderStruct = {
+    order: ITradingStorage.OpenLimitOrderStruct;
+    liquidationPrice: BigNumberish;
+  };
+
+  export type AggregatedOrderStructOutput = [
+    order: ITradingStorage.OpenLimitOrderStructOutput,
+    liquidationPrice: bigint
+  ] & {
+    order: ITradingStorage.OpenLimitOrderStructOutput;
+    liquidationPrice: bigint;
+  };
+}
+
+export interface MulticallInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "aggregate"
+      | "aggregate3"
+      | "aggregate3Value"
+      | "blockAndAggregate"
+      | "getBasefee"
+      | "getBlockHash"
+      | "getBlockNumber"
+      | "getChainId"
+      | "getCurrentBlockCoinbase"
+      | "getCurrentBlockDifficulty"
+      | "getCurrentBlockGasLimit"
+      | "getCurrentBlockTimestamp"
+      | "getEthBalance"
+      | "getFirstEmptyTradeIndexes"
+      | "getLastBlockHash"
+      | "getLiquidationPrice"
+      | "getLongShortRatios"
+      | "getMargins"
+      | "getMarginsForPair"
+      | "getOpenLimitOrdersCounts"
+      | "getPendingOrder"
+      | "getPositions"
+      | "getPositionsForPairIndexes"
+      | "tryAggregate"
+      | "tryBlockAndAggregate"
+      | "updateContracts"
+  ): FunctionFragment;
+
+  encodeFunctionData(
+    functionFragment: "aggregate",
+    values: [Multicall3.CallStruct[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "aggregate3",
+    values: [Multicall3.Call3Struct[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "aggregate3Value",
+    values: [Multicall3.Call3ValueStruct[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "blockAndAggregate",
+    values: [Multicall3.CallStruct[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getBasefee",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getBlockHash",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getBlockNumber",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getChainId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getCurrentBlockCoinbase",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getCurrentBlockDifficulty",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getCurrentBlockGasLimit",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getCurrentBlockTimestamp",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEthBalance",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getFirstEmptyTradeIndexes",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getLastBlockHash",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getLiquidationPrice",
+    values: [AddressLike, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getLongShortRatios",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getMargins",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getMarginsForPair",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getOpenLimitOrdersCounts",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getPendingOrder",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getPositions",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getPositionsForPairIndexes",
+    values: [AddressLike, BigNumberish, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "tryAggregate",
+    values: [boolean, Multicall3.CallStruct[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "tryBlockAndAggregate",
+    values: [boolean, Multicall3.CallStruct[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "updateContracts",
+    values: [AddressLike, AddressLike, AddressLike, AddressLike]
+  ): string;
+
+  decodeFunctionResult(functionFragment: "aggregate", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "aggregate3", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "aggregate3Value",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "blockAndAggregate",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getBasefee", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getBlockHash",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getBlockNumber",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getChainId", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getCurrentBlockCoinbase",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getCurrentBlockDifficulty",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getCurrentBlockGasLimit",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getCurrentBlockTimestamp",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getEthBalance",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getFirstEmptyTradeIndexes",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getLastBlockHash",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getLiquidationPrice",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getLongShortRatios",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getMargins", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getMarginsForPair",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getOpenLimitOrdersCounts",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getPendingOrder",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getPositions",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getPositionsForPairIndexes",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "tryAggregate",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "tryBlockAndAggregate",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "updateContracts",
+    data: BytesLike
+  ): Result;
+}
+
+export interface Multicall extends BaseContract {
+  connect(runner?: ContractRunner | null): Multicall;
+  waitForDeployment(): Promise<this>;
+
+  interface: MulticallInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  aggregate: TypedContractMethod<
+    [calls: Multicall3.CallStruct[]],
+    [[bigint, string[]] & { blockNumber: bigint; returnData: string[] }],
+    "payable"
+  >;
+
+  aggregate3: TypedContractMethod<
+    [calls: Multicall3.Call3Struct[]],
+    [Multicall3.ResultStructOutput[]],
+    "payable"
+  >;
+
+  aggregate3Value: TypedContractMethod<
+    [calls: Multicall3.Call3ValueStruct[]],
+    [Multicall3.ResultStructOutput[]],
+    "payable"
+  >;
+
+  blockAndAggregate: TypedContractMethod<
+    [calls: Multicall3.CallStruct[]],
+    [
+      [bigint, string, Multicall3.ResultStructOutput[]] & {
+        blockNumber: bigint;
+        blockHash: string;
+        returnData: Multicall3.ResultStructOutput[];
+      }
+    ],
+    "payable"
+  >;
+
+  getBasefee: TypedContractMethod<[], [bigint], "view">;
+
+  getBlockHash: TypedContractMethod<
+    [blockNumber: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  getBlockNumber: TypedContractMethod<[], [bigint], "view">;
+
+  getChainId: TypedContractMethod<[], [bigint], "view">;
+
+  getCurrentBlockCoinbase: TypedContractMethod<[], [string], "view">;
+
+  getCurrentBlockDifficulty: TypedContractMethod<[], [bigint], "view">;
+
+  getCurrentBlockGasLimit: TypedContractMethod<[], [bigint], "view">;
+
+  getCurrentBlockTimestamp: TypedContractMethod<[], [bigint], "view">;
+
+  getEthBalance: TypedContractMethod<[addr: AddressLike], [bigint], "view">;
+
+  getFirstEmptyTradeIndexes: TypedContractMethod<
+    [userAddress: AddressLike],
+    [bigint[]],
+    "view"
+  >;
+
+  getLastBlockHash: TypedContractMethod<[], [string], "view">;
+
+  getLiquidationPrice: TypedContractMethod<
+    [trader: AddressLike, pairIndex: BigNumberish, index: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  getLongShortRatios: TypedContractMethod<
+    [],
+    [[bigint[], bigint[]] & { longRatio: bigint[]; shortRatio: bigint[] }],
+    "view"
+  >;
+
+  getMargins: TypedContractMethod<
+    [],
+    [
+      [bigint[], bigint[], bigint[], bigint[], bigint[]] & {
+        rolloverFeePerBlockP: bigint[];
+        rolloverFeePerBlockLong: bigint[];
+        rolloverFeePerBlockShort: bigint[];
+        openInterestUSDCLong: bigint[];
+        openInterestUSDCShort: bigint[];
+      }
+    ],
+    "view"
+  >;
+
+  getMarginsForPair: TypedContractMethod<
+    [pairIndex: BigNumberish],
+    [
+      [bigint, bigint, bigint, bigint, bigint] & {
+        rolloverFeePerBlockP: bigint;
+        rolloverFeePerBlockLong: bigint;
+        rolloverFeePerBlockShort: bigint;
+        openInterestUSDCLong: bigint;
+        openInterestUSDCShort: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getOpenLimitOrdersCounts: TypedContractMethod<
+    [userAddress: AddressLike],
+    [bigint[]],
+    "view"
+  >;
+
+  getPendingOrder: TypedContractMethod<
+    [_trader: AddressLike],
+    [IMulticall.AggregatedPendingOrderStructOutput[]],
+    "view"
+  >;
+
+  getPositions: TypedContractMethod<
+    [userAddress: AddressLike],
+    [
+      [
+        IMulticall.AggregatedTradeStructOutput[],
+        IMulticall.AggregatedOrderStructOutput[]
+      ]
+    ],
+    "view"
+  >;
+
+  getPositionsForPairIndexes: TypedContractMethod<
+    [
+      userAddress: AddressLike,
+      startPairIndex: BigNumberish,
+      endPairIndex: BigNumberish,
+      maxTradesPerPair: BigNumberish
+    ],
+    [
+      [
+        IMulticall.AggregatedTradeStructOutput[],
+        IMulticall.AggregatedOrderStructOutput[]
+      ]
+    ],
+    "view"
+  >;
+
+  tryAggregate: TypedContractMethod<
+    [requireSuccess: boolean, calls: Multicall3.CallStruct[]],
+    [Multicall3.ResultStructOutput[]],
+    "payable"
+  >;
+
+  tryBlockAndAggregate: TypedContractMethod<
+    [requireSuccess: boolean, calls: Multicall3.CallStruct[]],
+    [
+      [bigint, string, Multicall3.ResultStructOutput[]] & {
+        blockNumber: bigint;
+        blockHash: string;
+        returnData: Multicall3.ResultStructOutput[];
+      }
+    ],
+    "payable"
+  >;
+
+  updateContracts: TypedContractMethod<
+    [
+      _storage: AddressLike,
+      _pairInfos: AddressLike,
+      _pairsStorage: AddressLike,
+      _trading: AddressLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "aggregate"
+  ): TypedContractMethod<
+    [calls: Multicall3.CallStruct[]],
+    [[bigint, string[]] & { blockNumber: bigint; returnData: string[] }],
+    "payable"
+  >;
+  getFunction(
+    nameOrSignature: "aggregate3"
+  ): TypedContractMethod<
+    [calls: Multicall3.Call3Struct[]],
+    [Multicall3.ResultStructOutput[]],
+    "payable"
+  >;
+  getFunction(
+    nameOrSignature: "aggregate3Value"
+  ): TypedContractMethod<
+    [calls: Multicall3.Call3ValueStruct[]],
+    [Multicall3.ResultStructOutput[]],
+    "payable"
+  >;
+  getFunction(
+    nameOrSignature: "blockAndAggregate"
+  ): TypedContractMethod<
+    [calls: Multicall3.CallStruct[]],
+    [
+      [bigint, string, Multicall3.ResultStructOutput[]] & {
+        blockNumber: bigint;
+        blockHash: string;
+        returnData: Multicall3.ResultStructOutput[];
+      }
+    ],
+    "payable"
+  >;
+  getFunction(
+    nameOrSignature: "getBasefee"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getBlockHash"
+  ): TypedContractMethod<[blockNumber: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "getBlockNumber"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getChainId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getCurrentBlockCoinbase"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "getCurrentBlockDifficulty"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getCurrentBlockGasLimit"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getCurrentBlockTimestamp"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getEthBalance"
+  ): TypedContractMethod<[addr: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getFirstEmptyTradeIndexes"
+  ): TypedContractMethod<[userAddress: AddressLike], [bigint[]], "view">;
+  getFunction(
+    nameOrSignature: "getLastBlockHash"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "getLiquidationPrice"
+  ): TypedContractMethod<
+    [trader: AddressLike, pairIndex: BigNumberish, index: BigNumberish],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getLongShortRatios"
+  ): TypedContractMethod<
+    [],
+    [[bigint[], bigint[]] & { longRatio: bigint[]; shortRatio: bigint[] }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getMargins"
+  ): TypedContractMethod<
+    [],
+    [
+      [bigint[], bigint[], bigint[], bigint[], bigint[]] & {
+        rolloverFeePerBlockP: bigint[];
+        rolloverFeePerBlockLong: bigint[];
+        rolloverFeePerBlockShort: bigint[];
+        openInterestUSDCLong: bigint[];
+        openInterestUSDCShort: bigint[];
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getMarginsForPair"
+  ): TypedContractMethod<
+    [pairIndex: BigNumberish],
+    [
+      [bigint, bigint, bigint, bigint, bigint] & {
+        rolloverFeePerBlockP: bigint;
+        rolloverFeePerBlockLong: bigint;
+        rolloverFeePerBlockShort: bigint;
+        openInterestUSDCLong: bigint;
+        openInterestUSDCShort: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getOpenLimitOrdersCounts"
+  ): TypedContractMethod<[userAddress: AddressLike], [bigint[]], "view">;
+  getFunction(
+    nameOrSignature: "getPendingOrder"
+  ): TypedContractMethod<
+    [_trader: AddressLike],
+    [IMulticall.AggregatedPendingOrderStructOutput[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getPositions"
+  ): TypedContractMethod<
+    [userAddress: AddressLike],
+    [
+      [
+        IMulticall.AggregatedTradeStructOutput[],
+        IMulticall.AggregatedOrderStructOutput[]
+      ]
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getPositionsForPairIndexes"
+  ): TypedContractMethod<
+    [
+      userAddress: AddressLike,
+      startPairIndex: BigNumberish,
+      endPairIndex: BigNumberish,
+      maxTradesPerPair: BigNumberish
+    ],
+    [
+      [
+        IMulticall.AggregatedTradeStructOutput[],
+        IMulticall.AggregatedOrderStructOutput[]
+      ]
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "tryAggregate"
+  ): TypedContractMethod<
+    [requireSuccess: boolean, calls: Multicall3.CallStruct[]],
+    [Multicall3.ResultStructOutput[]],
+    "payable"
+  >;
+  getFunction(
+    nameOrSignature: "tryBlockAndAggregate"
+  ): TypedContractMethod<
+    [requireSuccess: boolean, calls: Multicall3.CallStruct[]],
+    [
+      [bigint, string, Multicall3.ResultStructOutput[]] & {
+        blockNumber: bigint;
+        blockHash: string;
+        returnData: Multicall3.ResultStructOutput[];
+      }
+    ],
+    "payable"
+  >;
+  getFunction(
+    nameOrSignature: "updateContracts"
+  ): TypedContractMethod<
+    [
+      _storage: AddressLike,
+      _pairInfos: AddressLike,
+      _pairsStorage: AddressLike,
+      _trading: AddressLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  filters: {};
+}
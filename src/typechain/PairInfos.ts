@@ -0,0 +1,1869 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "./common";
+
+export declare namespace IPairInfos {
+  export type PairParamsStruct = {
+    onePercentDepthAbove: BigNumberish;
+    onePercentDepthBelow: BigNumberish;
+    rolloverFeePerBlockP: BigNumberish;
+  };
+
+  export type PairParamsStructOutput = [
+    onePercentDepthAbove: bigint,
+    onePercentDepthBelow: bigint,
+    rolloverFeePerBlockP: bigint
+  ] & {
+    onePercentDepthAbove: bigint;
+    onePercentDepthBelow: bigint;
+    rolloverFeePerBlockP: bigint;
+  };
+
+  export type PairRolloverFeesStruct = {
+    accPerOiLong: BigNumberish;
+    accPerOiShort: BigNumberish;
+    lastUpdateBlock: BigNumberish;
+  };
+
+  export type PairRolloverFeesStructOutput = [
+    accPerOiLong: bigint,
+    accPerOiShort: bigint,
+    lastUpdateBlock: bigint
+  ] & { accPerOiLong: bigint; accPerOiShort: bigint; lastUpdateBlock: bigint };
+}
+
+export declare namespace ITradingStorage {
+  export type TradeStruct = {
+    trader: AddressLike;
+    pairIndex: BigNumberish;
+    index: BigNumberish;
+    initialPosToken: BigNumberish;
+    positionSizeUSDC: BigNumberish;
+    openPrice: BigNumberish;
+    buy: boolean;
+    leverage: BigNumberish;
+    tp: BigNumberish;
+    sl: BigNumberish;
+    timestamp: BigNumberish;
+  };
+
+  export type TradeStructOutput = [
+    trader: string,
+    pairIndex: bigint,
+    index: bigint,
+    initialPosToken: bigint,
+    positionSizeUSDC: bigint,
+    openPrice: bigint,
+    buy: boolean,
+    leverage: bigint,
+    tp: bigint,
+    sl: bigint,
+    timestamp: bigint
+  ] & {
+    trader: string;
+    pairIndex: bigint;
+    index: bigint;
+    initialPosToken: bigint;
+    positionSizeUSDC: bigint;
+    openPrice: bigint;
+    buy: boolean;
+    leverage: bigint;
+    tp: bigint;
+    sl: bigint;
+    timestamp: bigint;
+  };
+}
+
+export interface PairInfosInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "getAccRolloverFeesLong"
+      | "getAccRolloverFeesShort"
+      | "getAccRolloverFeesUpdateBlock"
+      | "getBlendedSkew"
+      | "getBlendedUtilizationRatio"
+      | "getOnePercentDepthAbove"
+      | "getOnePercentDepthBelow"
+      | "getPairInfos"
+      | "getPendingAccRolloverFees"
+      | "getPriceImpactSpread"
+      | "getRolloverFeePerBlockP"
+      | "getSkewImpactSpread"
+      | "getTradeInitialAccRolloverFeesPerCollateral"
+      | "getTradeLiquidationPrice"
+      | "getTradeLiquidationPricePure"
+      | "getTradePriceImpact"
+      | "getTradeRolloverFee"
+      | "getTradeRolloverFeePure"
+      | "getTradeValue"
+      | "getTradeValuePure"
+      | "initialize"
+      | "keeper"
+      | "liqThreshold"
+      | "longSkewConfig"
+      | "lossProtectionNumTiers"
+      | "lossProtectionTier"
+      | "manager"
+      | "minMaxRollOverFee"
+      | "pairParams"
+      | "pairRolloverFees"
+      | "pairsStorage"
+      | "resetTradeInitialAccess"
+      | "setKeeper"
+      | "setLossProtectionConfig"
+      | "setManager"
+      | "setOnePercentDepth"
+      | "setOnePercentDepthArray"
+      | "setPairParams"
+      | "setPairParamsArray"
+      | "setRolloverFeePerBlockP"
+      | "shortSkewConfig"
+      | "storageT"
+      | "storeTradeInitialAccFees"
+      | "tradeInitialAccFees"
+      | "udpateLiquidationThreshold"
+      | "updatePairStorage"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "AccRolloverFeesStored"
+      | "CoeffUpdated"
+      | "DenomUpdated"
+      | "FeesCharged"
+      | "Initialized"
+      | "KeeperUpdated"
+      | "LiqThresholdUpdated"
+      | "LossProtectionConfigSet"
+      | "ManagerUpdated"
+      | "MaxNegativePnlOnOpenPUpdated"
+      | "MultiplierUpdated"
+      | "OnePercentDepthUpdated"
+      | "PairParamsUpdated"
+      | "PairStorageUpdated"
+      | "RolloverFeePerBlockPUpdated"
+      | "TradeInitialAccFeesStored"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "getAccRolloverFeesLong",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getAccRolloverFeesShort",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getAccRolloverFeesUpdateBlock",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getBlendedSkew",
+    values: [BigNumberish, boolean, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getBlendedUtilizationRatio",
+    values: [BigNumberish, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getOnePercentDepthAbove",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getOnePercentDepthBelow",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getPairInfos",
+    values: [BigNumberish[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getPendingAccRolloverFees",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getPriceImpactSpread",
+    values: [BigNumberish, boolean, BigNumberish, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getRolloverFeePerBlockP",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getSkewImpactSpread",
+    values: [BigNumberish, boolean, BigNumberish, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getTradeInitialAccRolloverFeesPerCollateral",
+    values: [AddressLike, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getTradeLiquidationPrice",
+    values: [
+      AddressLike,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish,
+      boolean,
+      BigNumberish,
+      BigNumberish
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getTradeLiquidationPricePure",
+    values: [BigNumberish, boolean, BigNumberish, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getTradePriceImpact",
+    values: [BigNumberish, BigNumberish, boolean, BigNumberish, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getTradeRolloverFee",
+    values: [
+      AddressLike,
+      BigNumberish,
+      BigNumberish,
+      boolean,
+      BigNumberish,
+      BigNumberish
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getTradeRolloverFeePure",
+    values: [BigNumberish, BigNumberish, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getTradeValue",
+    values: [
+      ITradingStorage.TradeStruct,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getTradeValuePure",
+    values: [
+      BigNumberish,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "initialize",
+    values: [AddressLike, AddressLike]
+  ): string;
+  encodeFunctionData(functionFragment: "keeper", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "liqThreshold",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "longSkewConfig",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "lossProtectionNumTiers",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "lossProtectionTier",
+    values: [ITradingStorage.TradeStruct, boolean]
+  ): string;
+  encodeFunctionData(functionFragment: "manager", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "minMaxRollOverFee",
+    values: [
+      AddressLike,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "pairParams",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "pairRolloverFees",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "pairsStorage",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "resetTradeInitialAccess",
+    values: [AddressLike, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setKeeper",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setLossProtectionConfig",
+    values: [BigNumberish, BigNumberish[], BigNumberish[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setManager",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setOnePercentDepth",
+    values: [BigNumberish, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setOnePercentDepthArray",
+    values: [BigNumberish[], BigNumberish[], BigNumberish[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setPairParams",
+    values: [BigNumberish, IPairInfos.PairParamsStruct]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setPairParamsArray",
+    values: [BigNumberish[], IPairInfos.PairParamsStruct[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setRolloverFeePerBlockP",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "shortSkewConfig",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "storageT", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "storeTradeInitialAccFees",
+    values: [AddressLike, BigNumberish, BigNumberish, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "tradeInitialAccFees",
+    values: [AddressLike, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "udpateLiquidationThreshold",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "updatePairStorage",
+    values: [AddressLike]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "getAccRolloverFeesLong",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getAccRolloverFeesShort",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getAccRolloverFeesUpdateBlock",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getBlendedSkew",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getBlendedUtilizationRatio",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getOnePercentDepthAbove",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getOnePercentDepthBelow",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getPairInfos",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getPendingAccRolloverFees",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getPriceImpactSpread",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getRolloverFeePerBlockP",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getSkewImpactSpread",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getTradeInitialAccRolloverFeesPerCollateral",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getTradeLiquidationPrice",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getTradeLiquidationPricePure",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getTradePriceImpact",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getTradeRolloverFee",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getTradeRolloverFeePure",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getTradeValue",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getTradeValuePure",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "initialize", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "keeper", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "liqThreshold",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "longSkewConfig",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "lossProtectionNumTiers",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "lossProtectionTier",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "manager", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "minMaxRollOverFee",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "pairParams", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "pairRolloverFees",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "pairsStorage",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "resetTradeInitialAccess",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "setKeeper", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "setLossProtectionConfig",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "setManager", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "setOnePercentDepth",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setOnePercentDepthArray",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setPairParams",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setPairParamsArray",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setRolloverFeePerBlockP",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "shortSkewConfig",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "storageT", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "storeTradeInitialAccFees",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "tradeInitialAccFees",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "udpateLiquidationThreshold",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "updatePairStorage",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace AccRolloverFeesStoredEvent {
+  export type InputTuple = [
+    pairIndex: BigNumberish,
+    valueLong: BigNumberish,
+    valueShort: BigNumberish
+  ];
+  export type OutputTuple = [
+    pairIndex: bigint,
+    valueLong: bigint,
+    valueShort: bigint
+  ];
+  export interface OutputObject {
+    pairIndex: bigint;
+    valueLong: bigint;
+    valueShort: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CoeffUpdatedEvent {
+  export type InputTuple = [
+    multiplierCoeffMax: BigNumberish,
+    groupId: BigNumberish
+  ];
+  export type OutputTuple = [multiplierCoeffMax: bigint, groupId: bigint];
+  export interface OutputObject {
+    multiplierCoeffMax: bigint;
+    groupId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DenomUpdatedEvent {
+  export type InputTuple = [
+    multiplierDenom: BigNumberish,
+    groupId: BigNumberish
+  ];
+  export type OutputTuple = [multiplierDenom: bigint, groupId: bigint];
+  export interface OutputObject {
+    multiplierDenom: bigint;
+    groupId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace FeesChargedEvent {
+  export type InputTuple = [
+    buy: boolean,
+    collateral: BigNumberish,
+    leverage: BigNumberish,
+    percentProfit: BigNumberish,
+    r: BigNumberish,
+    closingFee: BigNumberish,
+    lossProtection: BigNumberish
+  ];
+  export type OutputTuple = [
+    buy: boolean,
+    collateral: bigint,
+    leverage: bigint,
+    percentProfit: bigint,
+    r: bigint,
+    closingFee: bigint,
+    lossProtection: bigint
+  ];
+  export interface OutputObject {
+    buy: boolean;
+    collateral: bigint;
+    leverage: bigint;
+    percentProfit: bigint;
+    r: bigint;
+    closingFee: bigint;
+    lossProtection: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace InitializedEvent {
+  export type InputTuple = [version: BigNumberish];
+  export type OutputTuple = [version: bigint];
+  export interface OutputObject {
+    version: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace KeeperUpdatedEvent {
+  export type InputTuple = [keeper: AddressLike];
+  export type OutputTuple = [keeper: string];
+  export interface OutputObject {
+    keeper: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace LiqThresholdUpdatedEvent {
+  export type InputTuple = [newThreshold: BigNumberish];
+  export type OutputTuple = [newThreshold: bigint];
+  export interface OutputObject {
+    newThreshold: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace LossProtectionConfigSetEvent {
+  export type InputTuple = [
+    numTiers: BigNumberish,
+    longSkewConfig: BigNumberish[],
+    shortSkewConfig: BigNumberish[]
+  ];
+  export type OutputTuple = [
+    numTiers: bigint,
+    longSkewConfig: bigint[],
+    shortSkewConfig: bigint[]
+  ];
+  export interface OutputObject {
+    numTiers: bigint;
+    longSkewConfig: bigint[];
+    shortSkewConfig: bigint[];
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ManagerUpdatedEvent {
+  export type InputTuple = [value: AddressLike];
+  export type OutputTuple = [value: string];
+  export interface OutputObject {
+    value: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace MaxNegativePnlOnOpenPUpdatedEvent {
+  export type InputTuple = [value: BigNumberish];
+  export type OutputTuple = [value: bigint];
+  export interface OutputObject {
+    value: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace MultiplierUpdatedEvent {
+  export type InputTuple = [
+    minMultiplierRate: BigNumberish,
+    maxMultiplierRate: BigNumberish,
+    groupId: BigNumberish
+  ];
+  export type OutputTuple = [
+    minMultiplierRate: bigint,
+    maxMultiplierRate: bigint,
+    groupId: bigint
+  ];
+  export interface OutputObject {
+    minMultiplierRate: bigint;
+    maxMultiplierRate: bigint;
+    groupId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OnePercentDepthUpdatedEvent {
+  export type InputTuple = [
+    pairIndex: BigNumberish,
+    valueAbove: BigNumberish,
+    valueBelow: BigNumberish
+  ];
+  export type OutputTuple = [
+    pairIndex: bigint,
+    valueAbove: bigint,
+    valueBelow: bigint
+  ];
+  export interface OutputObject {
+    pairIndex: bigint;
+    valueAbove: bigint;
+    valueBelow: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PairParamsUpdatedEvent {
+  export type InputTuple = [
+    pairIndex: BigNumberish,
+    value: IPairInfos.PairParamsStruct
+  ];
+  export type OutputTuple = [
+    pairIndex: bigint,
+    value: IPairInfos.PairParamsStructOutput
+  ];
+  export interface OutputObject {
+    pairIndex: bigint;
+    value: IPairInfos.PairParamsStructOutput;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PairStorageUpdatedEvent {
+  export type InputTuple = [newPairStorage: AddressLike];
+  export type OutputTuple = [newPairStorage: string];
+  export interface OutputObject {
+    newPairStorage: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RolloverFeePerBlockPUpdatedEvent {
+  export type InputTuple = [pairIndex: BigNumberish, fee: BigNumberish];
+  export type OutputTuple = [pairIndex: bigint, fee: bigint];
+  export interface OutputObject {
+    pairIndex: bigint;
+    fee: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TradeInitialAccFeesStoredEvent {
+  export type InputTuple = [
+    trader: AddressLike,
+    pairIndex: BigNumberish,
+    index: BigNumberish,
+    rollover: BigNumberish
+  ];
+  export type OutputTuple = [
+    trader: string,
+    pairIndex: bigint,
+    index: bigint,
+    rollover: bigint
+  ];
+  export interface OutputObject {
+    trader: string;
+    pairIndex: bigint;
+    index: bigint;
+    rollover: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface PairInfos extends BaseContract {
+  connect(runner?: ContractRunner | null): PairInfos;
+  waitForDeployment(): Promise<this>;
+
+  interface: PairInfosInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  getAccRolloverFeesLong: TypedContractMethod<
+    [pairIndex: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  getAccRolloverFeesShort: TypedContractMethod<
+    [pairIndex: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  getAccRolloverFeesUpdateBlock: TypedContractMethod<
+    [pairIndex: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  getBlendedSkew: TypedContractMethod<
+    [
+      _pairIndex: BigNumberish,
+      _long: boolean,
+      _longOI: BigNumberish,
+      _shortOI: BigNumberish
+    ],
+    [bigint],
+    "view"
+  >;
+
+  getBlendedUtilizationRatio: TypedContractMethod<
+    [_pairIndex: BigNumberish, _longOI: BigNumberish, _shortOI: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  getOnePercentDepthAbove: TypedContractMethod<
+    [pairIndex: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  getOnePercentDepthBelow: TypedContractMethod<
+    [pairIndex: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  getPairInfos: TypedContractMethod<
+    [indices: BigNumberish[]],
+    [
+      [
+        IPairInfos.PairParamsStructOutput[],
+        IPairInfos.PairRolloverFeesStructOutput[]
+      ]
+    ],
+    "view"
+  >;
+
+  getPendingAccRolloverFees: TypedContractMethod<
+    [pairIndex: BigNumberish],
+    [[bigint, bigint] & { valueLong: bigint; valueShort: bigint }],
+    "view"
+  >;
+
+  getPriceImpactSpread: TypedContractMethod<
+    [
+      _pairIndex: BigNumberish,
+      _isBuy: boolean,
+      _leveragePosition: BigNumberish,
+      isPnl: boolean
+    ],
+    [bigint],
+    "view"
+  >;
+
+  getRolloverFeePerBlockP: TypedContractMethod<
+    [pairIndex: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  getSkewImpactSpread: TypedContractMethod<
+    [
+      _pairIndex: BigNumberish,
+      _isBuy: boolean,
+      _leveragePosition: BigNumberish,
+      isPnl: boolean
+    ],
+    [bigint],
+    "view"
+  >;
+
+  getTradeInitialAccRolloverFeesPerCollateral: TypedContractMethod<
+    [trader: AddressLike, pairIndex: BigNumberish, index: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  getTradeLiquidationPrice: TypedContractMethod<
+    [
+      trader: AddressLike,
+      pairIndex: BigNumberish,
+      index: BigNumberish,
+      openPrice: BigNumberish,
+      long: boolean,
+      collateral: BigNumberish,
+      leverage: BigNumberish
+    ],
+    [bigint],
+    "view"
+  >;
+
+  getTradeLiquidationPricePure: TypedContractMethod<
+    [
+      openPrice: BigNumberish,
+      long: boolean,
+      collateral: BigNumberish,
+      leverage: BigNumberish,
+      rolloverFee: BigNumberish
+    ],
+    [bigint],
+    "view"
+  >;
+
+  getTradePriceImpact: TypedContractMethod<
+    [
+      openPrice: BigNumberish,
+      pairIndex: BigNumberish,
+      long: boolean,
+      tradeOpenInterest: BigNumberish,
+      isPnl: boolean
+    ],
+    [bigint],
+    "view"
+  >;
+
+  getTradeRolloverFee: TypedContractMethod<
+    [
+      trader: AddressLike,
+      pairIndex: BigNumberish,
+      index: BigNumberish,
+      long: boolean,
+      collateral: BigNumberish,
+      leverage: BigNumberish
+    ],
+    [bigint],
+    "view"
+  >;
+
+  getTradeRolloverFeePure: TypedContractMethod<
+    [
+      accRolloverFeesPerOi: BigNumberish,
+      endAccRolloverFeesPerOi: BigNumberish,
+      collateral: BigNumberish,
+      leverage: BigNumberish
+    ],
+    [bigint],
+    "view"
+  >;
+
+  getTradeValue: TypedContractMethod<
+    [
+      _trade: ITradingStorage.TradeStruct,
+      collateral: BigNumberish,
+      percentProfit: BigNumberish,
+      closingFee: BigNumberish
+    ],
+    [[bigint, bigint, bigint] & { amount: bigint; pnl: bigint; fees: bigint }],
+    "nonpayable"
+  >;
+
+  getTradeValuePure: TypedContractMethod<
+    [
+      collateral: BigNumberish,
+      percentProfit: BigNumberish,
+      rolloverFee: BigNumberish,
+      closingFee: BigNumberish,
+      lossProtection: BigNumberish
+    ],
+    [[bigint, bigint, bigint]],
+    "view"
+  >;
+
+  initialize: TypedContractMethod<
+    [_storageT: AddressLike, _pairsStorage: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  keeper: TypedContractMethod<[], [string], "view">;
+
+  liqThreshold: TypedContractMethod<[], [bigint], "view">;
+
+  longSkewConfig: TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  lossProtectionNumTiers: TypedContractMethod<
+    [arg0: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  lossProtectionTier: TypedContractMethod<
+    [_trade: ITradingStorage.TradeStruct, isPnl: boolean],
+    [bigint],
+    "view"
+  >;
+
+  manager: TypedContractMethod<[], [string], "view">;
+
+  minMaxRollOverFee: TypedContractMethod<
+    [
+      trader: AddressLike,
+      pairIndex: BigNumberish,
+      index: BigNumberish,
+      collateral: BigNumberish,
+      leverage: BigNumberish
+    ],
+    [[bigint, bigint] & { minBorrowFee: bigint; maxBorrowFee: bigint }],
+    "view"
+  >;
+
+  pairParams: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, bigint, bigint] & {
+        onePercentDepthAbove: bigint;
+        onePercentDepthBelow: bigint;
+        rolloverFeePerBlockP: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  pairRolloverFees: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, bigint, bigint] & {
+        accPerOiLong: bigint;
+        accPerOiShort: bigint;
+        lastUpdateBlock: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  pairsStorage: TypedContractMethod<[], [string], "view">;
+
+  resetTradeInitialAccess: TypedContractMethod<
+    [trader: AddressLike, pairIndex: BigNumberish, index: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setKeeper: TypedContractMethod<[_keeper: AddressLike], [void], "nonpayable">;
+
+  setLossProtectionConfig: TypedContractMethod<
+    [
+      _pairIndex: BigNumberish,
+      _longSkewConfig: BigNumberish[],
+      _shortSkewConfig: BigNumberish[]
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  setManager: TypedContractMethod<
+    [_manager: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  setOnePercentDepth: TypedContractMethod<
+    [
+      pairIndex: BigNumberish,
+      valueAbove: BigNumberish,
+      valueBelow: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  setOnePercentDepthArray: TypedContractMethod<
+    [
+      indices: BigNumberish[],
+      valuesAbove: BigNumberish[],
+      valuesBelow: BigNumberish[]
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  setPairParams: TypedContractMethod<
+    [pairIndex: BigNumberish, value: IPairInfos.PairParamsStruct],
+    [void],
+    "nonpayable"
+  >;
+
+  setPairParamsArray: TypedContractMethod<
+    [indices: BigNumberish[], values: IPairInfos.PairParamsStruct[]],
+    [void],
+    "nonpayable"
+  >;
+
+  setRolloverFeePerBlockP: TypedContractMethod<
+    [pairIndex: BigNumberish, value: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  shortSkewConfig: TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  storageT: TypedContractMethod<[], [string], "view">;
+
+  storeTradeInitialAccFees: TypedContractMethod<
+    [
+      trader: AddressLike,
+      pairIndex: BigNumberish,
+      index: BigNumberish,
+      long: boolean
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  tradeInitialAccFees: TypedContractMethod<
+    [arg0: AddressLike, arg1: BigNumberish, arg2: BigNumberish],
+    [[bigint, boolean] & { rollover: bigint; openedAfterUpdate: boolean }],
+    "view"
+  >;
+
+  udpateLiquidationThreshold: TypedContractMethod<
+    [_newThreshold: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  updatePairStorage: TypedContractMethod<
+    [_newPairStorage: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "getAccRolloverFeesLong"
+  ): TypedContractMethod<[pairIndex: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getAccRolloverFeesShort"
+  ): TypedContractMethod<[pairIndex: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getAccRolloverFeesUpdateBlock"
+  ): TypedContractMethod<[pairIndex: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getBlendedSkew"
+  ): TypedContractMethod<
+    [
+      _pairIndex: BigNumberish,
+      _long: boolean,
+      _longOI: BigNumberish,
+      _shortOI: BigNumberish
+    ],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getBlendedUtilizationRatio"
+  ): TypedContractMethod<
+    [_pairIndex: BigNumberish, _longOI: BigNumberish, _shortOI: BigNumberish],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getOnePercentDepthAbove"
+  ): TypedContractMethod<[pairIndex: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getOnePercentDepthBelow"
+  ): TypedContractMethod<[pairIndex: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getPairInfos"
+  ): TypedContractMethod<
+    [indices: BigNumberish[]],
+    [
+      [
+        IPairInfos.PairParamsStructOutput[],
+        IPairInfos.PairRolloverFeesStructOutput[]
+      ]
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getPendingAccRolloverFees"
+  ): TypedContractMethod<
+    [pairIndex: BigNumberish],
+    [[bigint, bigint] & { valueLong: bigint; valueShort: bigint }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getPriceImpactSpread"
+  ): TypedContractMethod<
+    [
+      _pairIndex: BigNumberish,
+      _isBuy: boolean,
+      _leveragePosition: BigNumberish,
+      isPnl: boolean
+    ],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getRolloverFeePerBlockP"
+  ): TypedContractMethod<[pairIndex: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getSkewImpactSpread"
+  ): TypedContractMethod<
+    [
+      _pairIndex: BigNumberish,
+      _isBuy: boolean,
+      _leveragePosition: BigNumberish,
+      isPnl: boolean
+    ],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getTradeInitialAccRolloverFeesPerCollateral"
+  ): TypedContractMethod<
+    [trader: AddressLike, pairIndex: BigNumberish, index: BigNumberish],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getTradeLiquidationPrice"
+  ): TypedContractMethod<
+    [
+      trader: AddressLike,
+      pairIndex: BigNumberish,
+      index: BigNumberish,
+      openPrice: BigNumberish,
+      long: boolean,
+      collateral: BigNumberish,
+      leverage: BigNumberish
+    ],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getTradeLiquidationPricePure"
+  ): TypedContractMethod<
+    [
+      openPrice: BigNumberish,
+      long: boolean,
+      collateral: BigNumberish,
+      leverage: BigNumberish,
+      rolloverFee: BigNumberish
+    ],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getTradePriceImpact"
+  ): TypedContractMethod<
+    [
+      openPrice: BigNumberish,
+      pairIndex: BigNumberish,
+      long: boolean,
+      tradeOpenInterest: BigNumberish,
+      isPnl: boolean
+    ],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getTradeRolloverFee"
+  ): TypedContractMethod<
+    [
+      trader: AddressLike,
+      pairIndex: BigNumberish,
+      index: BigNumberish,
+      long: boolean,
+      collateral: BigNumberish,
+      leverage: BigNumberish
+    ],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getTradeRolloverFeePure"
+  ): TypedContractMethod<
+    [
+      accRolloverFeesPerOi: BigNumberish,
+      endAccRolloverFeesPerOi: BigNumberish,
+      collateral: BigNumberish,
+      leverage: BigNumberish
+    ],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getTradeValue"
+  ): TypedContractMethod<
+    [
+      _trade: ITradingStorage.TradeStruct,
+      collateral: BigNumberish,
+      percentProfit: BigNumberish,
+      closingFee: BigNumberish
+    ],
+    [[bigint, bigint, bigint] & { amount: bigint; pnl: bigint; fees: bigint }],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "getTradeValuePure"
+  ): TypedContractMethod<
+    [
+      collateral: BigNumberish,
+      percentProfit: BigNumberish,
+      rolloverFee: BigNumberish,
+      closingFee: BigNumberish,
+      lossProtection: BigNumberish
+    ],
+    [[bigint, bigint, bigint]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "initialize"
+  ): TypedContractMethod<
+    [_storageT: AddressLike, _pairsStorage: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "keeper"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "liqThreshold"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "longSkewConfig"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "lossProtectionNumTiers"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "lossProtectionTier"
+  ): TypedContractMethod<
+    [_trade: ITradingStorage.TradeStruct, isPnl: boolean],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "manager"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "minMaxRollOverFee"
+  ): TypedContractMethod<
+    [
+      trader: AddressLike,
+      pairIndex: BigNumberish,
+      index: BigNumberish,
+      collateral: BigNumberish,
+      leverage: BigNumberish
+    ],
+    [[bigint, bigint] & { minBorrowFee: bigint; maxBorrowFee: bigint }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "pairParams"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, bigint, bigint] & {
+        onePercentDepthAbove: bigint;
+        onePercentDepthBelow: bigint;
+        rolloverFeePerBlockP: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "pairRolloverFees"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, bigint, bigint] & {
+        accPerOiLong: bigint;
+        accPerOiShort: bigint;
+        lastUpdateBlock: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "pairsStorage"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "resetTradeInitialAccess"
+  ): TypedContractMethod<
+    [trader: AddressLike, pairIndex: BigNumberish, index: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setKeeper"
+  ): TypedContractMethod<[_keeper: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setLossProtectionConfig"
+  ): TypedContractMethod<
+    [
+      _pairIndex: BigNumberish,
+      _longSkewConfig: BigNumberish[],
+      _shortSkewConfig: BigNumberish[]
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setManager"
+  ): TypedContractMethod<[_manager: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setOnePercentDepth"
+  ): TypedContractMethod<
+    [
+      pairIndex: BigNumberish,
+      valueAbove: BigNumberish,
+      valueBelow: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setOnePercentDepthArray"
+  ): TypedContractMethod<
+    [
+      indices: BigNumberish[],
+      valuesAbove: BigNumberish[],
+      valuesBelow: BigNumberish[]
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setPairParams"
+  ): TypedContractMethod<
+    [pairIndex: BigNumberish, value: IPairInfos.PairParamsStruct],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setPairParamsArray"
+  ): TypedContractMethod<
+    [indices: BigNumberish[], values: IPairInfos.PairParamsStruct[]],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setRolloverFeePerBlockP"
+  ): TypedContractMethod<
+    [pairIndex: BigNumberish, value: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "shortSkewConfig"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "storageT"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "storeTradeInitialAccFees"
+  ): TypedContractMethod<
+    [
+      trader: AddressLike,
+      pairIndex: BigNumberish,
+      index: BigNumberish,
+      long: boolean
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "tradeInitialAccFees"
+  ): TypedContractMethod<
+    [arg0: AddressLike, arg1: BigNumberish, arg2: BigNumberish],
+    [[bigint, boolean] & { rollover: bigint; openedAfterUpdate: boolean }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "udpateLiquidationThreshold"
+  ): TypedContractMethod<[_newThreshold: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "updatePairStorage"
+  ): TypedContractMethod<[_newPairStorage: AddressLike], [void], "nonpayable">;
+
+  getEvent(
+    key: "AccRolloverFeesStored"
+  ): TypedContractEvent<
+    AccRolloverFeesStoredEvent.InputTuple,
+    AccRolloverFeesStoredEvent.OutputTuple,
+    AccRolloverFeesStoredEvent.OutputObject
+  >;
+  getEvent(
+    key: "CoeffUpdated"
+  ): TypedContractEvent<
+    CoeffUpdatedEvent.InputTuple,
+    CoeffUpdatedEvent.OutputTuple,
+    CoeffUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DenomUpdated"
+  ): TypedContractEvent<
+    DenomUpdatedEvent.InputTuple,
+    DenomUpdatedEvent.OutputTuple,
+    DenomUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "FeesCharged"
+  ): TypedContractEvent<
+    FeesChargedEvent.InputTuple,
+    FeesChargedEvent.OutputTuple,
+    FeesChargedEvent.OutputObject
+  >;
+  getEvent(
+    key: "Initialized"
+  ): TypedContractEvent<
+    InitializedEvent.InputTuple,
+    InitializedEvent.OutputTuple,
+    InitializedEvent.OutputObject
+  >;
+  getEvent(
+    key: "KeeperUpdated"
+  ): TypedContractEvent<
+    KeeperUpdatedEvent.InputTuple,
+    KeeperUpdatedEvent.OutputTuple,
+    KeeperUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "LiqThresholdUpdated"
+  ): TypedContractEvent<
+    LiqThresholdUpdatedEvent.InputTuple,
+    LiqThresholdUpdatedEvent.OutputTuple,
+    LiqThresholdUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "LossProtectionConfigSet"
+  ): TypedContractEvent<
+    LossProtectionConfigSetEvent.InputTuple,
+    LossProtectionConfigSetEvent.OutputTuple,
+    LossProtectionConfigSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "ManagerUpdated"
+  ): TypedContractEvent<
+    ManagerUpdatedEvent.InputTuple,
+    ManagerUpdatedEvent.OutputTuple,
+    ManagerUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "MaxNegativePnlOnOpenPUpdated"
+  ): TypedContractEvent<
+    MaxNegativePnlOnOpenPUpdatedEvent.InputTuple,
+    MaxNegativePnlOnOpenPUpdatedEvent.OutputTuple,
+    MaxNegativePnlOnOpenPUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "MultiplierUpdated"
+  ): TypedContractEvent<
+    MultiplierUpdatedEvent.InputTuple,
+    MultiplierUpdatedEvent.OutputTuple,
+    MultiplierUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OnePercentDepthUpdated"
+  ): TypedContractEvent<
+    OnePercentDepthUpdatedEvent.InputTuple,
+    OnePercentDepthUpdatedEvent.OutputTuple,
+    OnePercentDepthUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PairParamsUpdated"
+  ): TypedContractEvent<
+    PairParamsUpdatedEvent.InputTuple,
+    PairParamsUpdatedEvent.OutputTuple,
+    PairParamsUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PairStorageUpdated"
+  ): TypedContractEvent<
+    PairStorageUpdatedEvent.InputTuple,
+    PairStorageUpdatedEvent.OutputTuple,
+    PairStorageUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RolloverFeePerBlockPUpdated"
+  ): TypedContractEvent<
+    RolloverFeePerBlockPUpdatedEvent.InputTuple,
+    RolloverFeePerBlockPUpdatedEvent.OutputTuple,
+    RolloverFeePerBlockPUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "TradeInitialAccFeesStored"
+  ): TypedContractEvent<
+    TradeInitialAccFeesStoredEvent.InputTuple,
+    TradeInitialAccFeesStoredEvent.OutputTuple,
+    TradeInitialAccFeesStoredEvent.OutputObject
+  >;
+
+  filters: {
+    "AccRolloverFeesStored(uint256,uint256,uint256)": TypedContractEvent<
+      AccRolloverFeesStoredEvent.InputTuple,
+      AccRolloverFeesStoredEvent.OutputTuple,
+      AccRolloverFeesStoredEvent.OutputObject
+    >;
+    AccRolloverFeesStored: TypedContractEvent<
+      AccRolloverFeesStoredEvent.InputTuple,
+      AccRolloverFeesStoredEvent.OutputTuple,
+      AccRolloverFeesStoredEvent.OutputObject
+    >;
+
+    "CoeffUpdated(uint256,uint256)": TypedContractEvent<
+      CoeffUpdatedEvent.InputTuple,
+      CoeffUpdatedEvent.OutputTuple,
+      CoeffUpdatedEvent.OutputObject
+    >;
+    CoeffUpdated: TypedContractEvent<
+      CoeffUpdatedEvent.InputTuple,
+      CoeffUpdatedEvent.OutputTuple,
+      CoeffUpdatedEvent.OutputObject
+    >;
+
+    "DenomUpdated(uint256,uint256)": TypedContractEvent<
+      DenomUpdatedEvent.InputTuple,
+      DenomUpdatedEvent.OutputTuple,
+      DenomUpdatedEvent.OutputObject
+    >;
+    DenomUpdated: TypedContractEvent<
+      DenomUpdatedEvent.InputTuple,
+      DenomUpdatedEvent.OutputTuple,
+      DenomUpdatedEvent.OutputObject
+    >;
+
+    "FeesCharged(bool,uint256,uint256,int256,uint256,uint256,uint256)": TypedContractEvent<
+      FeesChargedEvent.InputTuple,
+      FeesChargedEvent.OutputTuple,
+      FeesChargedEvent.OutputObject
+    >;
+    FeesCharged: TypedContractEvent<
+      FeesChargedEvent.InputTuple,
+      FeesChargedEvent.OutputTuple,
+      FeesChargedEvent.OutputObject
+    >;
+
+    "Initialized(uint8)": TypedContractEvent<
+      InitializedEvent.InputTuple,
+      InitializedEvent.OutputTuple,
+      InitializedEvent.OutputObject
+    >;
+    Initialized: TypedContractEvent<
+      InitializedEvent.InputTuple,
+      InitializedEvent.OutputTuple,
+      InitializedEvent.OutputObject
+    >;
+
+    "KeeperUpdated(address)": TypedContractEvent<
+      KeeperUpdatedEvent.InputTuple,
+      KeeperUpdatedEvent.OutputTuple,
+      KeeperUpdatedEvent.OutputObject
+    >;
+    KeeperUpdated: TypedContractEvent<
+      KeeperUpdatedEvent.InputTuple,
+      KeeperUpdatedEvent.OutputTuple,
+      KeeperUpdatedEvent.OutputObject
+    >;
+
+    "LiqThresholdUpdated(uint256)": TypedContractEvent<
+      LiqThresholdUpdatedEvent.InputTuple,
+      LiqThresholdUpdatedEvent.OutputTuple,
+      LiqThresholdUpdatedEvent.OutputObject
+    >;
+    LiqThresholdUpdated: TypedContractEvent<
+      LiqThresholdUpdatedEvent.InputTuple,
+      LiqThresholdUpdatedEvent.OutputTuple,
+      LiqThresholdUpdatedEvent.OutputObject
+    >;
+
+    "LossProtectionConfigSet(uint256,uint256[],uint256[])": TypedContractEvent<
+      LossProtectionConfigSetEvent.InputTuple,
+      LossProtectionConfigSetEvent.OutputTuple,
+      LossProtectionConfigSetEvent.OutputObject
+    >;
+    LossProtectionConfigSet: TypedContractEvent<
+      LossProtectionConfigSetEvent.InputTuple,
+      LossProtectionConfigSetEvent.OutputTuple,
+      LossProtectionConfigSetEvent.OutputObject
+    >;
+
+    "ManagerUpdated(address)": TypedContractEvent<
+      ManagerUpdatedEvent.InputTuple,
+      ManagerUpdatedEvent.OutputTuple,
+      ManagerUpdatedEvent.OutputObject
+    >;
+    ManagerUpdated: TypedContractEvent<
+      ManagerUpdatedEvent.InputTuple,
+      ManagerUpdatedEvent.OutputTuple,
+      ManagerUpdatedEvent.OutputObject
+    >;
+
+    "MaxNegativePnlOnOpenPUpdated(uint256)": TypedContractEvent<
+      MaxNegativePnlOnOpenPUpdatedEvent.InputTuple,
+      MaxNegativePnlOnOpenPUpdatedEvent.OutputTuple,
+      MaxNegativePnlOnOpenPUpdatedEvent.OutputObject
+    >;
+    MaxNegativePnlOnOpenPUpdated: TypedContractEvent<
+      MaxNegativePnlOnOpenPUpdatedEvent.InputTuple,
+      MaxNegativePnlOnOpenPUpdatedEvent.OutputTuple,
+      MaxNegativePnlOnOpenPUpdatedEvent.OutputObject
+    >;
+
+    "MultiplierUpdated(uint256,uint256,uint256)": TypedContractEvent<
+      MultiplierUpdatedEvent.InputTuple,
+      MultiplierUpdatedEvent.OutputTuple,
+      MultiplierUpdatedEvent.OutputObject
+    >;
+    MultiplierUpdated: TypedContractEvent<
+      MultiplierUpdatedEvent.InputTuple,
+      MultiplierUpdatedEvent.OutputTuple,
+      MultiplierUpdatedEvent.OutputObject
+    >;
+
+    "OnePercentDepthUpdated(uint256,uint256,uint256)": TypedContractEvent<
+      OnePercentDepthUpdatedEvent.InputTuple,
+      OnePercentDepthUpdatedEvent.OutputTuple,
+      OnePercentDepthUpdatedEvent.OutputObject
+    >;
+    OnePercentDepthUpdated: TypedContractEvent<
+      OnePercentDepthUpdatedEvent.InputTuple,
+      OnePercentDepthUpdatedEvent.OutputTuple,
+      OnePercentDepthUpdatedEvent.OutputObject
+    >;
+
+    "PairParamsUpdated(uint256,tuple)": TypedContractEvent<
+      PairParamsUpdatedEvent.InputTuple,
+      PairParamsUpdatedEvent.OutputTuple,
+      PairParamsUpdatedEvent.OutputObject
+    >;
+    PairParamsUpdated: TypedContractEvent<
+      PairParamsUpdatedEvent.InputTuple,
+      PairParamsUpdatedEvent.OutputTuple,
+      PairParamsUpdatedEvent.OutputObject
+    >;
+
+    "PairStorageUpdated(address)": TypedContractEvent<
+      PairStorageUpdatedEvent.InputTuple,
+      PairStorageUpdatedEvent.OutputTuple,
+      PairStorageUpdatedEvent.OutputObject
+    >;
+    PairStorageUpdated: TypedContractEvent<
+      PairStorageUpdatedEvent.InputTuple,
+      PairStorageUpdatedEvent.OutputTuple,
+      PairStorageUpdatedEvent.OutputObject
+    >;
+
+    "RolloverFeePerBlockPUpdated(uint256,uint256)": TypedContractEvent<
+      RolloverFeePerBlockPUpdatedEvent.InputTuple,
+      RolloverFeePerBlockPUpdatedEvent.OutputTuple,
+      RolloverFeePerBlockPUpdatedEvent.OutputObject
+    >;
+    RolloverFeePerBlockPUpdated: TypedContractEvent<
+      RolloverFeePerBlockPUpdatedEvent.InputTuple,
+      RolloverFeePerBlockPUpdatedEvent.OutputTuple,
+      RolloverFeePerBlockPUpdatedEvent.OutputObject
+    >;
+
+    "TradeInitialAccFeesStored(address,uint256,uint256,uint256)": TypedContractEvent<
+      TradeInitialAccFeesStoredEvent.InputTuple,
+      TradeInitialAccFeesStoredEvent.OutputTuple,
+      TradeInitialAccFeesStoredEvent.OutputObject
+    >;
+    TradeInitialAccFeesStored: TypedContractEvent<
+      TradeInitialAccFeesStoredEvent.InputTuple,
+      TradeInitialAccFeesStoredEvent.OutputTuple,
+      TradeInitialAccFeesStoredEvent.OutputObject
+    >;
+  };
+}
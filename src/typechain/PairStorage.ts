@@ -0,0 +1,2675 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "./common";
+
+export declare namespace IPairStorage {
+  export type AdditionalPairParamsStruct = {
+    utilizationThreshold: BigNumberish;
+    borrowFeesMultiplier: BigNumberish;
+    param_11: BigNumberish;
+    param_12: BigNumberish;
+    param_13: BigNumberish;
+    param_14: BigNumberish;
+    param_15: BigNumberish;
+    param_16: BigNumberish;
+    param_17: BigNumberish;
+    param_18: BigNumberish;
+  };
+
+  export type AdditionalPairParamsStructOutput = [
+    utilizationThreshold: bigint,
+    borrowFeesMultiplier: bigint,
+    param_11: bigint,
+    param_12: bigint,
+    param_13: bigint,
+    param_14: bigint,
+    param_15: bigint,
+    param_16: bigint,
+    param_17: bigint,
+    param_18: bigint
+  ] & {
+    utilizationThreshold: bigint;
+    borrowFeesMultiplier: bigint;
+    param_11: bigint;
+    param_12: bigint;
+    param_13: bigint;
+    param_14: bigint;
+    param_15: bigint;
+    param_16: bigint;
+    param_17: bigint;
+    param_18: bigint;
+  };
+
+  export type PairParamsStruct = {
+    posSpreadCap: BigNumberish;
+    negSpreadCap: BigNumberish;
+    isPnlTypeAllowed: BigNumberish;
+    pnlPriceImpactMultiplier: BigNumberish;
+    pnlSkewImpactMultiplier: BigNumberish;
+    pnlPosSpreadCap: BigNumberish;
+    pnlNegSpreadCap: BigNumberish;
+    minBorrowFee: BigNumberish;
+    param_7: BigNumberish;
+    param_8: BigNumberish;
+  };
+
+  export type PairParamsStructOutput = [
+    posSpreadCap: bigint,
+    negSpreadCap: bigint,
+    isPnlTypeAllowed: bigint,
+    pnlPriceImpactMultiplier: bigint,
+    pnlSkewImpactMultiplier: bigint,
+    pnlPosSpreadCap: bigint,
+    pnlNegSpreadCap: bigint,
+    minBorrowFee: bigint,
+    param_7: bigint,
+    param_8: bigint
+  ] & {
+    posSpreadCap: bigint;
+    negSpreadCap: bigint;
+    isPnlTypeAllowed: bigint;
+    pnlPriceImpactMultiplier: bigint;
+    pnlSkewImpactMultiplier: bigint;
+    pnlPosSpreadCap: bigint;
+    pnlNegSpreadCap: bigint;
+    minBorrowFee: bigint;
+    param_7: bigint;
+    param_8: bigint;
+  };
+
+  export type PnlFeesStruct = {
+    numTiers: BigNumberish;
+    tierP: BigNumberish[];
+    feesP: BigNumberish[];
+  };
+
+  export type PnlFeesStructOutput = [
+    numTiers: bigint,
+    tierP: bigint[],
+    feesP: bigint[]
+  ] & { numTiers: bigint; tierP: bigint[]; feesP: bigint[] };
+
+  export type FeeStruct = {
+    openFeeP: BigNumberish;
+    closeFeeP: BigNumberish;
+    limitOrderFeeP: BigNumberish;
+    minLevPosUSDC: BigNumberish;
+    pnlFees: IPairStorage.PnlFeesStruct;
+  };
+
+  export type FeeStructOutput = [
+    openFeeP: bigint,
+    closeFeeP: bigint,
+    limitOrderFeeP: bigint,
+    minLevPosUSDC: bigint,
+    pnlFees: IPairStorage.PnlFeesStructOutput
+  ] & {
+    openFeeP: bigint;
+    closeFeeP: bigint;
+    limitOrderFeeP: bigint;
+    minLevPosUSDC: bigint;
+    pnlFees: IPairStorage.PnlFeesStructOutput;
+  };
+
+  export type GroupStruct = {
+    name: string;
+    maxOpenInterestP: BigNumberish;
+    isSpreadDynamic: boolean;
+  };
+
+  export type GroupStructOutput = [
+    name: string,
+    maxOpenInterestP: bigint,
+    isSpreadDynamic: boolean
+  ] & { name: string; maxOpenInterestP: bigint; isSpreadDynamic: boolean };
+
+  export type FeedStruct = {
+    maxOpenDeviationP: BigNumberish;
+    maxCloseDeviationP: BigNumberish;
+    feedId: BytesLike;
+  };
+
+  export type FeedStructOutput = [
+    maxOpenDeviationP: bigint,
+    maxCloseDeviationP: bigint,
+    feedId: string
+  ] & { maxOpenDeviationP: bigint; maxCloseDeviationP: bigint; feedId: string };
+
+  export type BackupFeedStruct = {
+    maxDeviationP: BigNumberish;
+    feedId: AddressLike;
+  };
+
+  export type BackupFeedStructOutput = [
+    maxDeviationP: bigint,
+    feedId: string
+  ] & { maxDeviationP: bigint; feedId: string };
+
+  export type LeverageStruct = {
+    minLeverage: BigNumberish;
+    maxLeverage: BigNumberish;
+    pnlMinLeverage: BigNumberish;
+    pnlMaxLeverage: BigNumberish;
+  };
+
+  export type LeverageStructOutput = [
+    minLeverage: bigint,
+    maxLeverage: bigint,
+    pnlMinLeverage: bigint,
+    pnlMaxLeverage: bigint
+  ] & {
+    minLeverage: bigint;
+    maxLeverage: bigint;
+    pnlMinLeverage: bigint;
+    pnlMaxLeverage: bigint;
+  };
+
+  export type ValuesStruct = {
+    maxGainP: BigNumberish;
+    maxSlP: BigNumberish;
+    maxLongOiP: BigNumberish;
+    maxShortOiP: BigNumberish;
+    groupOpenInterestPercentageP: BigNumberish;
+    maxWalletOIP: BigNumberish;
+    isUSDCAligned: boolean;
+  };
+
+  export type ValuesStructOutput = [
+    maxGainP: bigint,
+    maxSlP: bigint,
+    maxLongOiP: bigint,
+    maxShortOiP: bigint,
+    groupOpenInterestPercentageP: bigint,
+    maxWalletOIP: bigint,
+    isUSDCAligned: boolean
+  ] & {
+    maxGainP: bigint;
+    maxSlP: bigint;
+    maxLongOiP: bigint;
+    maxShortOiP: bigint;
+    groupOpenInterestPercentageP: bigint;
+    maxWalletOIP: bigint;
+    isUSDCAligned: boolean;
+  };
+
+  export type PairStruct = {
+    feed: IPairStorage.FeedStruct;
+    backupFeed: IPairStorage.BackupFeedStruct;
+    spreadP: BigNumberish;
+    pnlSpreadP: BigNumberish;
+    leverages: IPairStorage.LeverageStruct;
+    priceImpactMultiplier: BigNumberish;
+    skewImpactMultiplier: BigNumberish;
+    groupIndex: BigNumberish;
+    feeIndex: BigNumberish;
+    values: IPairStorage.ValuesStruct;
+  };
+
+  export type PairStructOutput = [
+    feed: IPairStorage.FeedStructOutput,
+    backupFeed: IPairStorage.BackupFeedStructOutput,
+    spreadP: bigint,
+    pnlSpreadP: bigint,
+    leverages: IPairStorage.LeverageStructOutput,
+    priceImpactMultiplier: bigint,
+    skewImpactMultiplier: bigint,
+    groupIndex: bigint,
+    feeIndex: bigint,
+    values: IPairStorage.ValuesStructOutput
+  ] & {
+    feed: IPairStorage.FeedStructOutput;
+    backupFeed: IPairStorage.BackupFeedStructOutput;
+    spreadP: bigint;
+    pnlSpreadP: bigint;
+    leverages: IPairStorage.LeverageStructOutput;
+    priceImpactMultiplier: bigint;
+    skewImpactMultiplier: bigint;
+    groupIndex: bigint;
+    feeIndex: bigint;
+    values: IPairStorage.ValuesStructOutput;
+  };
+
+  export type SkewFeeStruct = { eqParams: [BigNumberish, BigNumberish][] };
+
+  export type SkewFeeStructOutput = [eqParams: [bigint, bigint][]] & {
+    eqParams: [bigint, bigint][];
+  };
+}
+
+export interface PairStorageInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "addFee"
+      | "addGroup"
+      | "addPair"
+      | "addSkewOpenFees"
+      | "addtionalPairParams"
+      | "blockOILimit"
+      | "correctSl"
+      | "correctTp"
+      | "currentOrderId"
+      | "currentPercentProfit"
+      | "delistPair"
+      | "fees"
+      | "feesCount"
+      | "getOIMultiplier"
+      | "getPairData"
+      | "getPnlBasedFee"
+      | "getPosType"
+      | "getSkewParams"
+      | "groupMaxOI"
+      | "groupOI"
+      | "groupOIs"
+      | "groups"
+      | "groupsCount"
+      | "guaranteedSlEnabled"
+      | "initialize"
+      | "isDynamicSpreadEnabled"
+      | "isPairListed"
+      | "isPnlOrderTypeAllowed"
+      | "isUSDCAligned"
+      | "lossProtection"
+      | "lossProtectionMultiplier"
+      | "maxProfitP"
+      | "maxWalletOI"
+      | "minBorrowFee"
+      | "oiMultiplier"
+      | "openCloseThreshold"
+      | "openPosType"
+      | "pairBackupFeed"
+      | "pairBorrowFeesMultiplier"
+      | "pairCloseFeeP"
+      | "pairData"
+      | "pairFeed"
+      | "pairGroupIndex"
+      | "pairJob"
+      | "pairLimitOrderFeeP"
+      | "pairMaxLeverage(uint256)"
+      | "pairMaxLeverage(uint256,bool)"
+      | "pairMaxLongOI"
+      | "pairMaxOI"
+      | "pairMaxShortOI"
+      | "pairMinLevPosUSDC"
+      | "pairMinLeverage(uint256)"
+      | "pairMinLeverage(uint256,bool)"
+      | "pairOpenFeeP"
+      | "pairParams"
+      | "pairPriceImpactMultiplier(uint256,bool)"
+      | "pairPriceImpactMultiplier(uint256)"
+      | "pairSkewImpactMultiplier(uint256,bool)"
+      | "pairSkewImpactMultiplier(uint256)"
+      | "pairSpreadP(uint256,bool)"
+      | "pairSpreadP(uint256)"
+      | "pairUtililizationThreshold"
+      | "pairs"
+      | "pairsBackend"
+      | "pairsCount"
+      | "resetPosType"
+      | "setBlockOILImits"
+      | "setOIMultiplier"
+      | "setPairData"
+      | "skewedFeesCount"
+      | "spreadCaps"
+      | "storageT"
+      | "storePosType"
+      | "udpateSkewOpenFees"
+      | "updateAdditionalPairParams"
+      | "updateFee"
+      | "updateGroup"
+      | "updateGroupOI"
+      | "updateLossProtectionMultiplier"
+      | "updatePair"
+      | "updatePairParams"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "AdditionalPairParamsUpdated"
+      | "BlockOILimitsSet"
+      | "FeeAdded"
+      | "FeeUpdated"
+      | "GroupAdded"
+      | "GroupUpdated"
+      | "Initialized"
+      | "LossProtectionAdded"
+      | "OIMultiplierUpdated"
+      | "OrderLimitsSet"
+      | "PairAdded"
+      | "PairDataUpdated"
+      | "PairDelisted"
+      | "PairParamsUpdated"
+      | "PairUpdated"
+      | "SkewFeeAdded"
+      | "SkewFeeUpdated"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "addFee",
+    values: [IPairStorage.FeeStruct]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "addGroup",
+    values: [IPairStorage.GroupStruct]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "addPair",
+    values: [IPairStorage.PairStruct]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "addSkewOpenFees",
+    values: [IPairStorage.SkewFeeStruct]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "addtionalPairParams",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "blockOILimit",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "correctSl",
+    values: [BigNumberish, BigNumberish, BigNumberish, boolean, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "correctTp",
+    values: [BigNumberish, BigNumberish, BigNumberish, boolean, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "currentOrderId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "currentPercentProfit",
+    values: [BigNumberish, BigNumberish, boolean, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "delistPair",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "fees", values: [BigNumberish]): string;
+  encodeFunctionData(functionFragment: "feesCount", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "getOIMultiplier",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getPairData",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getPnlBasedFee",
+    values: [BigNumberish, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getPosType",
+    values: [AddressLike, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getSkewParams",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "groupMaxOI",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "groupOI",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "groupOIs",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "groups",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "groupsCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "guaranteedSlEnabled",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "initialize",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isDynamicSpreadEnabled",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isPairListed",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isPnlOrderTypeAllowed",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isUSDCAligned",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "lossProtection",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "lossProtectionMultiplier",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "maxProfitP",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "maxWalletOI",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "minBorrowFee",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "oiMultiplier",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "openCloseThreshold",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "openPosType",
+    values: [AddressLike, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "pairBackupFeed",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "pairBorrowFeesMultiplier",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "pairCloseFeeP",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "pairData",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "pairFeed",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "pairGroupIndex",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "pairJob",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "pairLimitOrderFeeP",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "pairMaxLeverage(uint256)",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "pairMaxLeverage(uint256,bool)",
+    values: [BigNumberish, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "pairMaxLongOI",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "pairMaxOI",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "pairMaxShortOI",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "pairMinLevPosUSDC",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "pairMinLeverage(uint256)",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "pairMinLeverage(uint256,bool)",
+    values: [BigNumberish, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "pairOpenFeeP",
+    values: [BigNumberish, BigNumberish, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "pairParams",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "pairPriceImpactMultiplier(uint256,bool)",
+    values: [BigNumberish, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "pairPriceImpactMultiplier(uint256)",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "pairSkewImpactMultiplier(uint256,bool)",
+    values: [BigNumberish, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "pairSkewImpactMultiplier(uint256)",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "pairSpreadP(uint256,bool)",
+    values: [BigNumberish, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "pairSpreadP(uint256)",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "pairUtililizationThreshold",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "pairs", values: [BigNumberish]): string;
+  encodeFunctionData(
+    functionFragment: "pairsBackend",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "pairsCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "resetPosType",
+    values: [AddressLike, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setBlockOILImits",
+    values: [BigNumberish[], BigNumberish[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setOIMultiplier",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setPairData",
+    values: [
+      BigNumberish,
+      string,
+      string,
+      BigNumberish,
+      BigNumberish[],
+      BigNumberish[]
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "skewedFeesCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "spreadCaps",
+    values: [BigNumberish, boolean]
+  ): string;
+  encodeFunctionData(functionFragment: "storageT", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "storePosType",
+    values: [AddressLike, BigNumberish, BigNumberish, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "udpateSkewOpenFees",
+    values: [BigNumberish, IPairStorage.SkewFeeStruct]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "updateAdditionalPairParams",
+    values: [BigNumberish, IPairStorage.AdditionalPairParamsStruct]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "updateFee",
+    values: [BigNumberish, IPairStorage.FeeStruct]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "updateGroup",
+    values: [BigNumberish, IPairStorage.GroupStruct]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "updateGroupOI",
+    values: [BigNumberish, BigNumberish, boolean, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "updateLossProtectionMultiplier",
+    values: [BigNumberish, BigNumberish[], BigNumberish[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "updatePair",
+    values: [BigNumberish, IPairStorage.PairStruct]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "updatePairParams",
+    values: [BigNumberish, IPairStorage.PairParamsStruct]
+  ): string;
+
+  decodeFunctionResult(functionFragment: "addFee", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "addGroup", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "addPair", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "addSkewOpenFees",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "addtionalPairParams",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "blockOILimit",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "correctSl", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "correctTp", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "currentOrderId",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "currentPercentProfit",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "delistPair", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "fees", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "feesCount", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getOIMultiplier",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getPairData",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getPnlBasedFee",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getPosType", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getSkewParams",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "groupMaxOI", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "groupOI", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "groupOIs", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "groups", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "groupsCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "guaranteedSlEnabled",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "initialize", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "isDynamicSpreadEnabled",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isPairListed",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isPnlOrderTypeAllowed",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isUSDCAligned",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "lossProtection",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "lossProtectionMultiplier",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "maxProfitP", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "maxWalletOI",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "minBorrowFee",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "oiMultiplier",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "openCloseThreshold",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "openPosType",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "pairBackupFeed",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "pairBorrowFeesMultiplier",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "pairCloseFeeP",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "pairData", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "pairFeed", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "pairGroupIndex",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "pairJob", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "pairLimitOrderFeeP",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "pairMaxLeverage(uint256)",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "pairMaxLeverage(uint256,bool)",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "pairMaxLongOI",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "pairMaxOI", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "pairMaxShortOI",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "pairMinLevPosUSDC",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "pairMinLeverage(uint256)",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "pairMinLeverage(uint256,bool)",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "pairOpenFeeP",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "pairParams", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "pairPriceImpactMultiplier(uint256,bool)",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "pairPriceImpactMultiplier(uint256)",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "pairSkewImpactMultiplier(uint256,bool)",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "pairSkewImpactMultiplier(uint256)",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "pairSpreadP(uint256,bool)",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "pairSpreadP(uint256)",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "pairUtililizationThreshold",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "pairs", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "pairsBackend",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "pairsCount", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "resetPosType",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setBlockOILImits",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setOIMultiplier",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setPairData",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "skewedFeesCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "spreadCaps", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "storageT", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "storePosType",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "udpateSkewOpenFees",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "updateAdditionalPairParams",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "updateFee", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "updateGroup",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "updateGroupOI",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "updateLossProtectionMultiplier",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "updatePair", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "updatePairParams",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace AdditionalPairParamsUpdatedEvent {
+  export type InputTuple = [params: IPairStorage.AdditionalPairParamsStruct];
+  export type OutputTuple = [
+    params: IPairStorage.AdditionalPairParamsStructOutput
+  ];
+  export interface OutputObject {
+    params: IPairStorage.AdditionalPairParamsStructOutput;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BlockOILimitsSetEvent {
+  export type InputTuple = [pairIndex: BigNumberish[], limits: BigNumberish[]];
+  export type OutputTuple = [pairIndex: bigint[], limits: bigint[]];
+  export interface OutputObject {
+    pairIndex: bigint[];
+    limits: bigint[];
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace FeeAddedEvent {
+  export type InputTuple = [index: BigNumberish];
+  export type OutputTuple = [index: bigint];
+  export interface OutputObject {
+    index: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace FeeUpdatedEvent {
+  export type InputTuple = [index: BigNumberish];
+  export type OutputTuple = [index: bigint];
+  export interface OutputObject {
+    index: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace GroupAddedEvent {
+  export type InputTuple = [index: BigNumberish, name: string];
+  export type OutputTuple = [index: bigint, name: string];
+  export interface OutputObject {
+    index: bigint;
+    name: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace GroupUpdatedEvent {
+  export type InputTuple = [index: BigNumberish];
+  export type OutputTuple = [index: bigint];
+  export interface OutputObject {
+    index: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace InitializedEvent {
+  export type InputTuple = [version: BigNumberish];
+  export type OutputTuple = [version: bigint];
+  export interface OutputObject {
+    version: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace LossProtectionAddedEvent {
+  export type InputTuple = [
+    pairIndex: BigNumberish,
+    tier: BigNumberish[],
+    multiplier: BigNumberish[]
+  ];
+  export type OutputTuple = [
+    pairIndex: bigint,
+    tier: bigint[],
+    multiplier: bigint[]
+  ];
+  export interface OutputObject {
+    pairIndex: bigint;
+    tier: bigint[];
+    multiplier: bigint[];
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OIMultiplierUpdatedEvent {
+  export type InputTuple = [multiplier: BigNumberish];
+  export type OutputTuple = [multiplier: bigint];
+  export interface OutputObject {
+    multiplier: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OrderLimitsSetEvent {
+  export type InputTuple = [pairIndex: BigNumberish[], limits: BigNumberish[]];
+  export type OutputTuple = [pairIndex: bigint[], limits: bigint[]];
+  export interface OutputObject {
+    pairIndex: bigint[];
+    limits: bigint[];
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PairAddedEvent {
+  export type InputTuple = [index: BigNumberish, feedId: BytesLike];
+  export type OutputTuple = [index: bigint, feedId: string];
+  export interface OutputObject {
+    index: bigint;
+    feedId: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PairDataUpdatedEvent {
+  export type InputTuple = [
+    pairIndex: BigNumberish,
+    from: string,
+    to: string,
+    numTiers: BigNumberish,
+    tierthresholds: BigNumberish[],
+    timers: BigNumberish[]
+  ];
+  export type OutputTuple = [
+    pairIndex: bigint,
+    from: string,
+    to: string,
+    numTiers: bigint,
+    tierthresholds: bigint[],
+    timers: bigint[]
+  ];
+  export interface OutputObject {
+    pairIndex: bigint;
+    from: string;
+    to: string;
+    numTiers: bigint;
+    tierthresholds: bigint[];
+    timers: bigint[];
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PairDelistedEvent {
+  export type InputTuple = [index: BigNumberish];
+  export type OutputTuple = [index: bigint];
+  export interface OutputObject {
+    index: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PairParamsUpdatedEvent {
+  export type InputTuple = [params: IPairStorage.PairParamsStruct];
+  export type OutputTuple = [params: IPairStorage.PairParamsStructOutput];
+  export interface OutputObject {
+    params: IPairStorage.PairParamsStructOutput;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PairUpdatedEvent {
+  export type InputTuple = [index: BigNumberish];
+  export type OutputTuple = [index: bigint];
+  export interface OutputObject {
+    index: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SkewFeeAddedEvent {
+  export type InputTuple = [index: BigNumberish];
+  export type OutputTuple = [index: bigint];
+  export interface OutputObject {
+    index: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SkewFeeUpdatedEvent {
+  export type InputTuple = [index: BigNumberish];
+  export type OutputTuple = [index: bigint];
+  export interface OutputObject {
+    index: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface PairStorage extends BaseContract {
+  connect(runner?: ContractRunner | null): PairStorage;
+  waitForDeployment(): Promise<this>;
+
+  interface: PairStorageInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  addFee: TypedContractMethod<
+    [_fee: IPairStorage.FeeStruct],
+    [void],
+    "nonpayable"
+  >;
+
+  addGroup: TypedContractMethod<
+    [_group: IPairStorage.GroupStruct],
+    [void],
+    "nonpayable"
+  >;
+
+  addPair: TypedContractMethod<
+    [_pair: IPairStorage.PairStruct],
+    [void],
+    "nonpayable"
+  >;
+
+  addSkewOpenFees: TypedContractMethod<
+    [_skewFee: IPairStorage.SkewFeeStruct],
+    [void],
+    "nonpayable"
+  >;
+
+  addtionalPairParams: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint
+      ] & {
+        utilizationThreshold: bigint;
+        borrowFeesMultiplier: bigint;
+        param_11: bigint;
+        param_12: bigint;
+        param_13: bigint;
+        param_14: bigint;
+        param_15: bigint;
+        param_16: bigint;
+        param_17: bigint;
+        param_18: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  blockOILimit: TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+
+  correctSl: TypedContractMethod<
+    [
+      openPrice: BigNumberish,
+      leverage: BigNumberish,
+      sl: BigNumberish,
+      buy: boolean,
+      pairIndex: BigNumberish
+    ],
+    [bigint],
+    "view"
+  >;
+
+  correctTp: TypedContractMethod<
+    [
+      openPrice: BigNumberish,
+      leverage: BigNumberish,
+      tp: BigNumberish,
+      buy: boolean,
+      pairIndex: BigNumberish
+    ],
+    [bigint],
+    "view"
+  >;
+
+  currentOrderId: TypedContractMethod<[], [bigint], "view">;
+
+  currentPercentProfit: TypedContractMethod<
+    [
+      openPrice: BigNumberish,
+      currentPrice: BigNumberish,
+      buy: boolean,
+      leverage: BigNumberish,
+      pairIndex: BigNumberish
+    ],
+    [bigint],
+    "view"
+  >;
+
+  delistPair: TypedContractMethod<
+    [_pairIndex: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  fees: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, bigint, bigint, bigint, IPairStorage.PnlFeesStructOutput] & {
+        openFeeP: bigint;
+        closeFeeP: bigint;
+        limitOrderFeeP: bigint;
+        minLevPosUSDC: bigint;
+        pnlFees: IPairStorage.PnlFeesStructOutput;
+      }
+    ],
+    "view"
+  >;
+
+  feesCount: TypedContractMethod<[], [bigint], "view">;
+
+  getOIMultiplier: TypedContractMethod<[], [bigint], "view">;
+
+  getPairData: TypedContractMethod<
+    [_pairIndex: BigNumberish],
+    [
+      [string, string, bigint, bigint[], bigint[]] & {
+        from: string;
+        to: string;
+        numTiers: bigint;
+        tierThresholds: bigint[];
+        timer: bigint[];
+      }
+    ],
+    "view"
+  >;
+
+  getPnlBasedFee: TypedContractMethod<
+    [
+      pairIndex: BigNumberish,
+      collateral: BigNumberish,
+      percentProfit: BigNumberish
+    ],
+    [bigint],
+    "view"
+  >;
+
+  getPosType: TypedContractMethod<
+    [trader: AddressLike, pairIndex: BigNumberish, index: BigNumberish],
+    [boolean],
+    "view"
+  >;
+
+  getSkewParams: TypedContractMethod<
+    [_pairIndex: BigNumberish],
+    [IPairStorage.SkewFeeStructOutput],
+    "view"
+  >;
+
+  groupMaxOI: TypedContractMethod<[_pairIndex: BigNumberish], [bigint], "view">;
+
+  groupOI: TypedContractMethod<[_pairIndex: BigNumberish], [bigint], "view">;
+
+  groupOIs: TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  groups: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, bigint, boolean] & {
+        name: string;
+        maxOpenInterestP: bigint;
+        isSpreadDynamic: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  groupsCount: TypedContractMethod<[], [bigint], "view">;
+
+  guaranteedSlEnabled: TypedContractMethod<
+    [_pairIndex: BigNumberish],
+    [boolean],
+    "view"
+  >;
+
+  initialize: TypedContractMethod<
+    [_storageT: AddressLike, _currentOrderId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  isDynamicSpreadEnabled: TypedContractMethod<
+    [_pairIndex: BigNumberish],
+    [boolean],
+    "view"
+  >;
+
+  isPairListed: TypedContractMethod<[arg0: BytesLike], [boolean], "view">;
+
+  isPnlOrderTypeAllowed: TypedContractMethod<
+    [_pairIndex: BigNumberish],
+    [boolean],
+    "view"
+  >;
+
+  isUSDCAligned: TypedContractMethod<
+    [_pairIndex: BigNumberish],
+    [boolean],
+    "view"
+  >;
+
+  lossProtection: TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  lossProtectionMultiplier: TypedContractMethod<
+    [_pairIndex: BigNumberish, _tier: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  maxProfitP: TypedContractMethod<[pairIndex: BigNumberish], [bigint], "view">;
+
+  maxWalletOI: TypedContractMethod<
+    [_pairIndex: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  minBorrowFee: TypedContractMethod<
+    [_pairIndex: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  oiMultiplier: TypedContractMethod<[], [bigint], "view">;
+
+  openCloseThreshold: TypedContractMethod<
+    [_pairIndex: BigNumberish, _leveragePos: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  openPosType: TypedContractMethod<
+    [arg0: AddressLike, arg1: BigNumberish, arg2: BigNumberish],
+    [boolean],
+    "view"
+  >;
+
+  pairBackupFeed: TypedContractMethod<
+    [_pairIndex: BigNumberish],
+    [IPairStorage.BackupFeedStructOutput],
+    "view"
+  >;
+
+  pairBorrowFeesMultiplier: TypedContractMethod<
+    [_pairIndex: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  pairCloseFeeP: TypedContractMethod<
+    [_pairIndex: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  pairData: TypedContractMethod<
+    [arg0: BigNumberish],
+    [[string, string, bigint] & { from: string; to: string; numTiers: bigint }],
+    "view"
+  >;
+
+  pairFeed: TypedContractMethod<
+    [_pairIndex: BigNumberish],
+    [IPairStorage.FeedStructOutput],
+    "view"
+  >;
+
+  pairGroupIndex: TypedContractMethod<
+    [_pairIndex: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  pairJob: TypedContractMethod<
+    [_pairIndex: BigNumberish],
+    [[string, string, string, string, bigint]],
+    "nonpayable"
+  >;
+
+  pairLimitOrderFeeP: TypedContractMethod<
+    [_pairIndex: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  "pairMaxLeverage(uint256)": TypedContractMethod<
+    [_pairIndex: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  "pairMaxLeverage(uint256,bool)": TypedContractMethod<
+    [_pairIndex: BigNumberish, _isPnl: boolean],
+    [bigint],
+    "view"
+  >;
+
+  pairMaxLongOI: TypedContractMethod<
+    [_pairIndex: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  pairMaxOI: TypedContractMethod<[_pairIndex: BigNumberish], [bigint], "view">;
+
+  pairMaxShortOI: TypedContractMethod<
+    [_pairIndex: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  pairMinLevPosUSDC: TypedContractMethod<
+    [_pairIndex: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  "pairMinLeverage(uint256)": TypedContractMethod<
+    [_pairIndex: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  "pairMinLeverage(uint256,bool)": TypedContractMethod<
+    [_pairIndex: BigNumberish, _isPnl: boolean],
+    [bigint],
+    "view"
+  >;
+
+  pairOpenFeeP: TypedContractMethod<
+    [_pairIndex: BigNumberish, _leveragedPosition: BigNumberish, _buy: boolean],
+    [bigint],
+    "view"
+  >;
+
+  pairParams: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint
+      ] & {
+        posSpreadCap: bigint;
+        negSpreadCap: bigint;
+        isPnlTypeAllowed: bigint;
+        pnlPriceImpactMultiplier: bigint;
+        pnlSkewImpactMultiplier: bigint;
+        pnlPosSpreadCap: bigint;
+        pnlNegSpreadCap: bigint;
+        minBorrowFee: bigint;
+        param_7: bigint;
+        param_8: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  "pairPriceImpactMultiplier(uint256,bool)": TypedContractMethod<
+    [_pairIndex: BigNumberish, isPnl: boolean],
+    [bigint],
+    "view"
+  >;
+
+  "pairPriceImpactMultiplier(uint256)": TypedContractMethod<
+    [_pairIndex: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  "pairSkewImpactMultiplier(uint256,bool)": TypedContractMethod<
+    [_pairIndex: BigNumberish, isPnl: boolean],
+    [bigint],
+    "view"
+  >;
+
+  "pairSkewImpactMultiplier(uint256)": TypedContractMethod<
+    [_pairIndex: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  "pairSpreadP(uint256,bool)": TypedContractMethod<
+    [_pairIndex: BigNumberish, _isPnl: boolean],
+    [bigint],
+    "view"
+  >;
+
+  "pairSpreadP(uint256)": TypedContractMethod<
+    [_pairIndex: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  pairUtililizationThreshold: TypedContractMethod<
+    [_pairIndex: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  pairs: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [
+        IPairStorage.FeedStructOutput,
+        IPairStorage.BackupFeedStructOutput,
+        bigint,
+        bigint,
+        IPairStorage.LeverageStructOutput,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        IPairStorage.ValuesStructOutput
+      ] & {
+        feed: IPairStorage.FeedStructOutput;
+        backupFeed: IPairStorage.BackupFeedStructOutput;
+        spreadP: bigint;
+        pnlSpreadP: bigint;
+        leverages: IPairStorage.LeverageStructOutput;
+        priceImpactMultiplier: bigint;
+        skewImpactMultiplier: bigint;
+        groupIndex: bigint;
+        feeIndex: bigint;
+        values: IPairStorage.ValuesStructOutput;
+      }
+    ],
+    "view"
+  >;
+
+  pairsBackend: TypedContractMethod<
+    [_index: BigNumberish],
+    [
+      [
+        IPairStorage.PairStructOutput,
+        IPairStorage.GroupStructOutput,
+        IPairStorage.FeeStructOutput
+      ]
+    ],
+    "view"
+  >;
+
+  pairsCount: TypedContractMethod<[], [bigint], "view">;
+
+  resetPosType: TypedContractMethod<
+    [trader: AddressLike, pairIndex: BigNumberish, index: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setBlockOILImits: TypedContractMethod<
+    [_pairIndex: BigNumberish[], _limits: BigNumberish[]],
+    [void],
+    "nonpayable"
+  >;
+
+  setOIMultiplier: TypedContractMethod<
+    [_multiplier: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setPairData: TypedContractMethod<
+    [
+      _pairIndex: BigNumberish,
+      from: string,
+      to: string,
+      _numTiers: BigNumberish,
+      _tierThresholds: BigNumberish[],
+      _timer: BigNumberish[]
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  skewedFeesCount: TypedContractMethod<[], [bigint], "view">;
+
+  spreadCaps: TypedContractMethod<
+    [_pairIndex: BigNumberish, isPnl: boolean],
+    [[bigint, bigint]],
+    "view"
+  >;
+
+  storageT: TypedContractMethod<[], [string], "view">;
+
+  storePosType: TypedContractMethod<
+    [
+      trader: AddressLike,
+      pairIndex: BigNumberish,
+      index: BigNumberish,
+      isPnl: boolean
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  udpateSkewOpenFees: TypedContractMethod<
+    [_pairIndex: BigNumberish, _skewFee: IPairStorage.SkewFeeStruct],
+    [void],
+    "nonpayable"
+  >;
+
+  updateAdditionalPairParams: TypedContractMethod<
+    [
+      _pairIndex: BigNumberish,
+      _params: IPairStorage.AdditionalPairParamsStruct
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  updateFee: TypedContractMethod<
+    [_id: BigNumberish, _fee: IPairStorage.FeeStruct],
+    [void],
+    "nonpayable"
+  >;
+
+  updateGroup: TypedContractMethod<
+    [_id: BigNumberish, _group: IPairStorage.GroupStruct],
+    [void],
+    "nonpayable"
+  >;
+
+  updateGroupOI: TypedContractMethod<
+    [
+      _pairIndex: BigNumberish,
+      _amount: BigNumberish,
+      _long: boolean,
+      _increase: boolean
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  updateLossProtectionMultiplier: TypedContractMethod<
+    [
+      _pairIndex: BigNumberish,
+      _tier: BigNumberish[],
+      _multiplierPercent: BigNumberish[]
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  updatePair: TypedContractMethod<
+    [_pairIndex: BigNumberish, _pair: IPairStorage.PairStruct],
+    [void],
+    "nonpayable"
+  >;
+
+  updatePairParams: TypedContractMethod<
+    [_pairIndex: BigNumberish, _params: IPairStorage.PairParamsStruct],
+    [void],
+    "nonpayable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "addFee"
+  ): TypedContractMethod<[_fee: IPairStorage.FeeStruct], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "addGroup"
+  ): TypedContractMethod<
+    [_group: IPairStorage.GroupStruct],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "addPair"
+  ): TypedContractMethod<
+    [_pair: IPairStorage.PairStruct],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "addSkewOpenFees"
+  ): TypedContractMethod<
+    [_skewFee: IPairStorage.SkewFeeStruct],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "addtionalPairParams"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint
+      ] & {
+        utilizationThreshold: bigint;
+        borrowFeesMultiplier: bigint;
+        param_11: bigint;
+        param_12: bigint;
+        param_13: bigint;
+        param_14: bigint;
+        param_15: bigint;
+        param_16: bigint;
+        param_17: bigint;
+        param_18: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "blockOILimit"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "correctSl"
+  ): TypedContractMethod<
+    [
+      openPrice: BigNumberish,
+      leverage: BigNumberish,
+      sl: BigNumberish,
+      buy: boolean,
+      pairIndex: BigNumberish
+    ],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "correctTp"
+  ): TypedContractMethod<
+    [
+      openPrice: BigNumberish,
+      leverage: BigNumberish,
+      tp: BigNumberish,
+      buy: boolean,
+      pairIndex: BigNumberish
+    ],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "currentOrderId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "currentPercentProfit"
+  ): TypedContractMethod<
+    [
+      openPrice: BigNumberish,
+      currentPrice: BigNumberish,
+      buy: boolean,
+      leverage: BigNumberish,
+      pairIndex: BigNumberish
+    ],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "delistPair"
+  ): TypedContractMethod<[_pairIndex: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "fees"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, bigint, bigint, bigint, IPairStorage.PnlFeesStructOutput] & {
+        openFeeP: bigint;
+        closeFeeP: bigint;
+        limitOrderFeeP: bigint;
+        minLevPosUSDC: bigint;
+        pnlFees: IPairStorage.PnlFeesStructOutput;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "feesCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getOIMultiplier"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getPairData"
+  ): TypedContractMethod<
+    [_pairIndex: BigNumberish],
+    [
+      [string, string, bigint, bigint[], bigint[]] & {
+        from: string;
+        to: string;
+        numTiers: bigint;
+        tierThresholds: bigint[];
+        timer: bigint[];
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getPnlBasedFee"
+  ): TypedContractMethod<
+    [
+      pairIndex: BigNumberish,
+      collateral: BigNumberish,
+      percentProfit: BigNumberish
+    ],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getPosType"
+  ): TypedContractMethod<
+    [trader: AddressLike, pairIndex: BigNumberish, index: BigNumberish],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getSkewParams"
+  ): TypedContractMethod<
+    [_pairIndex: BigNumberish],
+    [IPairStorage.SkewFeeStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "groupMaxOI"
+  ): TypedContractMethod<[_pairIndex: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "groupOI"
+  ): TypedContractMethod<[_pairIndex: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "groupOIs"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "groups"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, bigint, boolean] & {
+        name: string;
+        maxOpenInterestP: bigint;
+        isSpreadDynamic: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "groupsCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "guaranteedSlEnabled"
+  ): TypedContractMethod<[_pairIndex: BigNumberish], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "initialize"
+  ): TypedContractMethod<
+    [_storageT: AddressLike, _currentOrderId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "isDynamicSpreadEnabled"
+  ): TypedContractMethod<[_pairIndex: BigNumberish], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "isPairListed"
+  ): TypedContractMethod<[arg0: BytesLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "isPnlOrderTypeAllowed"
+  ): TypedContractMethod<[_pairIndex: BigNumberish], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "isUSDCAligned"
+  ): TypedContractMethod<[_pairIndex: BigNumberish], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "lossProtection"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "lossProtectionMultiplier"
+  ): TypedContractMethod<
+    [_pairIndex: BigNumberish, _tier: BigNumberish],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "maxProfitP"
+  ): TypedContractMethod<[pairIndex: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "maxWalletOI"
+  ): TypedContractMethod<[_pairIndex: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "minBorrowFee"
+  ): TypedContractMethod<[_pairIndex: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "oiMultiplier"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "openCloseThreshold"
+  ): TypedContractMethod<
+    [_pairIndex: BigNumberish, _leveragePos: BigNumberish],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "openPosType"
+  ): TypedContractMethod<
+    [arg0: AddressLike, arg1: BigNumberish, arg2: BigNumberish],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "pairBackupFeed"
+  ): TypedContractMethod<
+    [_pairIndex: BigNumberish],
+    [IPairStorage.BackupFeedStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "pairBorrowFeesMultiplier"
+  ): TypedContractMethod<[_pairIndex: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "pairCloseFeeP"
+  ): TypedContractMethod<[_pairIndex: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "pairData"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [[string, string, bigint] & { from: string; to: string; numTiers: bigint }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "pairFeed"
+  ): TypedContractMethod<
+    [_pairIndex: BigNumberish],
+    [IPairStorage.FeedStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "pairGroupIndex"
+  ): TypedContractMethod<[_pairIndex: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "pairJob"
+  ): TypedContractMethod<
+    [_pairIndex: BigNumberish],
+    [[string, string, string, string, bigint]],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "pairLimitOrderFeeP"
+  ): TypedContractMethod<[_pairIndex: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "pairMaxLeverage(uint256)"
+  ): TypedContractMethod<[_pairIndex: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "pairMaxLeverage(uint256,bool)"
+  ): TypedContractMethod<
+    [_pairIndex: BigNumberish, _isPnl: boolean],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "pairMaxLongOI"
+  ): TypedContractMethod<[_pairIndex: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "pairMaxOI"
+  ): TypedContractMethod<[_pairIndex: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "pairMaxShortOI"
+  ): TypedContractMethod<[_pairIndex: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "pairMinLevPosUSDC"
+  ): TypedContractMethod<[_pairIndex: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "pairMinLeverage(uint256)"
+  ): TypedContractMethod<[_pairIndex: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "pairMinLeverage(uint256,bool)"
+  ): TypedContractMethod<
+    [_pairIndex: BigNumberish, _isPnl: boolean],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "pairOpenFeeP"
+  ): TypedContractMethod<
+    [_pairIndex: BigNumberish, _leveragedPosition: BigNumberish, _buy: boolean],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "pairParams"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint
+      ] & {
+        posSpreadCap: bigint;
+        negSpreadCap: bigint;
+        isPnlTypeAllowed: bigint;
+        pnlPriceImpactMultiplier: bigint;
+        pnlSkewImpactMultiplier: bigint;
+        pnlPosSpreadCap: bigint;
+        pnlNegSpreadCap: bigint;
+        minBorrowFee: bigint;
+        param_7: bigint;
+        param_8: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "pairPriceImpactMultiplier(uint256,bool)"
+  ): TypedContractMethod<
+    [_pairIndex: BigNumberish, isPnl: boolean],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "pairPriceImpactMultiplier(uint256)"
+  ): TypedContractMethod<[_pairIndex: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "pairSkewImpactMultiplier(uint256,bool)"
+  ): TypedContractMethod<
+    [_pairIndex: BigNumberish, isPnl: boolean],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "pairSkewImpactMultiplier(uint256)"
+  ): TypedContractMethod<[_pairIndex: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "pairSpreadP(uint256,bool)"
+  ): TypedContractMethod<
+    [_pairIndex: BigNumberish, _isPnl: boolean],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "pairSpreadP(uint256)"
+  ): TypedContractMethod<[_pairIndex: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "pairUtililizationThreshold"
+  ): TypedContractMethod<[_pairIndex: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "pairs"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [
+        IPairStorage.FeedStructOutput,
+        IPairStorage.BackupFeedStructOutput,
+        bigint,
+        bigint,
+        IPairStorage.LeverageStructOutput,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        IPairStorage.ValuesStructOutput
+      ] & {
+        feed: IPairStorage.FeedStructOutput;
+        backupFeed: IPairStorage.BackupFeedStructOutput;
+        spreadP: bigint;
+        pnlSpreadP: bigint;
+        leverages: IPairStorage.LeverageStructOutput;
+        priceImpactMultiplier: bigint;
+        skewImpactMultiplier: bigint;
+        groupIndex: bigint;
+        feeIndex: bigint;
+        values: IPairStorage.ValuesStructOutput;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "pairsBackend"
+  ): TypedContractMethod<
+    [_index: BigNumberish],
+    [
+      [
+        IPairStorage.PairStructOutput,
+        IPairStorage.GroupStructOutput,
+        IPairStorage.FeeStructOutput
+      ]
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "pairsCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "resetPosType"
+  ): TypedContractMethod<
+    [trader: AddressLike, pairIndex: BigNumberish, index: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setBlockOILImits"
+  ): TypedContractMethod<
+    [_pairIndex: BigNumberish[], _limits: BigNumberish[]],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setOIMultiplier"
+  ): TypedContractMethod<[_multiplier: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setPairData"
+  ): TypedContractMethod<
+    [
+      _pairIndex: BigNumberish,
+      from: string,
+      to: string,
+      _numTiers: BigNumberish,
+      _tierThresholds: BigNumberish[],
+      _timer: BigNumberish[]
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "skewedFeesCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "spreadCaps"
+  ): TypedContractMethod<
+    [_pairIndex: BigNumberish, isPnl: boolean],
+    [[bigint, bigint]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "storageT"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "storePosType"
+  ): TypedContractMethod<
+    [
+      trader: AddressLike,
+      pairIndex: BigNumberish,
+      index: BigNumberish,
+      isPnl: boolean
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "udpateSkewOpenFees"
+  ): TypedContractMethod<
+    [_pairIndex: BigNumberish, _skewFee: IPairStorage.SkewFeeStruct],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "updateAdditionalPairParams"
+  ): TypedContractMethod<
+    [
+      _pairIndex: BigNumberish,
+      _params: IPairStorage.AdditionalPairParamsStruct
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "updateFee"
+  ): TypedContractMethod<
+    [_id: BigNumberish, _fee: IPairStorage.FeeStruct],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "updateGroup"
+  ): TypedContractMethod<
+    [_id: BigNumberish, _group: IPairStorage.GroupStruct],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "updateGroupOI"
+  ): TypedContractMethod<
+    [
+      _pairIndex: BigNumberish,
+      _amount: BigNumberish,
+      _long: boolean,
+      _increase: boolean
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "updateLossProtectionMultiplier"
+  ): TypedContractMethod<
+    [
+      _pairIndex: BigNumberish,
+      _tier: BigNumberish[],
+      _multiplierPercent: BigNumberish[]
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "updatePair"
+  ): TypedContractMethod<
+    [_pairIndex: BigNumberish, _pair: IPairStorage.PairStruct],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "updatePairParams"
+  ): TypedContractMethod<
+    [_pairIndex: BigNumberish, _params: IPairStorage.PairParamsStruct],
+    [void],
+    "nonpayable"
+  >;
+
+  getEvent(
+    key: "AdditionalPairParamsUpdated"
+  ): TypedContractEvent<
+    AdditionalPairParamsUpdatedEvent.InputTuple,
+    AdditionalPairParamsUpdatedEvent.OutputTuple,
+    AdditionalPairParamsUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BlockOILimitsSet"
+  ): TypedContractEvent<
+    BlockOILimitsSetEvent.InputTuple,
+    BlockOILimitsSetEvent.OutputTuple,
+    BlockOILimitsSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "FeeAdded"
+  ): TypedContractEvent<
+    FeeAddedEvent.InputTuple,
+    FeeAddedEvent.OutputTuple,
+    FeeAddedEvent.OutputObject
+  >;
+  getEvent(
+    key: "FeeUpdated"
+  ): TypedContractEvent<
+    FeeUpdatedEvent.InputTuple,
+    FeeUpdatedEvent.OutputTuple,
+    FeeUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "GroupAdded"
+  ): TypedContractEvent<
+    GroupAddedEvent.InputTuple,
+    GroupAddedEvent.OutputTuple,
+    GroupAddedEvent.OutputObject
+  >;
+  getEvent(
+    key: "GroupUpdated"
+  ): TypedContractEvent<
+    GroupUpdatedEvent.InputTuple,
+    GroupUpdatedEvent.OutputTuple,
+    GroupUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "Initialized"
+  ): TypedContractEvent<
+    InitializedEvent.InputTuple,
+    InitializedEvent.OutputTuple,
+    InitializedEvent.OutputObject
+  >;
+  getEvent(
+    key: "LossProtectionAdded"
+  ): TypedContractEvent<
+    LossProtectionAddedEvent.InputTuple,
+    LossProtectionAddedEvent.OutputTuple,
+    LossProtectionAddedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OIMultiplierUpdated"
+  ): TypedContractEvent<
+    OIMultiplierUpdatedEvent.InputTuple,
+    OIMultiplierUpdatedEvent.OutputTuple,
+    OIMultiplierUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OrderLimitsSet"
+  ): TypedContractEvent<
+    OrderLimitsSetEvent.InputTuple,
+    OrderLimitsSetEvent.OutputTuple,
+    OrderLimitsSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "PairAdded"
+  ): TypedContractEvent<
+    PairAddedEvent.InputTuple,
+    PairAddedEvent.OutputTuple,
+    PairAddedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PairDataUpdated"
+  ): TypedContractEvent<
+    PairDataUpdatedEvent.InputTuple,
+    PairDataUpdatedEvent.OutputTuple,
+    PairDataUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PairDelisted"
+  ): TypedContractEvent<
+    PairDelistedEvent.InputTuple,
+    PairDelistedEvent.OutputTuple,
+    PairDelistedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PairParamsUpdated"
+  ): TypedContractEvent<
+    PairParamsUpdatedEvent.InputTuple,
+    PairParamsUpdatedEvent.OutputTuple,
+    PairParamsUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PairUpdated"
+  ): TypedContractEvent<
+    PairUpdatedEvent.InputTuple,
+    PairUpdatedEvent.OutputTuple,
+    PairUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SkewFeeAdded"
+  ): TypedContractEvent<
+    SkewFeeAddedEvent.InputTuple,
+    SkewFeeAddedEvent.OutputTuple,
+    SkewFeeAddedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SkewFeeUpdated"
+  ): TypedContractEvent<
+    SkewFeeUpdatedEvent.InputTuple,
+    SkewFeeUpdatedEvent.OutputTuple,
+    SkewFeeUpdatedEvent.OutputObject
+  >;
+
+  filters: {
+    "AdditionalPairParamsUpdated(tuple)": TypedContractEvent<
+      AdditionalPairParamsUpdatedEvent.InputTuple,
+      AdditionalPairParamsUpdatedEvent.OutputTuple,
+      AdditionalPairParamsUpdatedEvent.OutputObject
+    >;
+    AdditionalPairParamsUpdated: TypedContractEvent<
+      AdditionalPairParamsUpdatedEvent.InputTuple,
+      AdditionalPairParamsUpdatedEvent.OutputTuple,
+      AdditionalPairParamsUpdatedEvent.OutputObject
+    >;
+
+    "BlockOILimitsSet(uint256[],uint256[])": TypedContractEvent<
+      BlockOILimitsSetEvent.InputTuple,
+      BlockOILimitsSetEvent.OutputTuple,
+      BlockOILimitsSetEvent.OutputObject
+    >;
+    BlockOILimitsSet: TypedContractEvent<
+      BlockOILimitsSetEvent.InputTuple,
+      BlockOILimitsSetEvent.OutputTuple,
+      BlockOILimitsSetEvent.OutputObject
+    >;
+
+    "FeeAdded(uint256)": TypedContractEvent<
+      FeeAddedEvent.InputTuple,
+      FeeAddedEvent.OutputTuple,
+      FeeAddedEvent.OutputObject
+    >;
+    FeeAdded: TypedContractEvent<
+      FeeAddedEvent.InputTuple,
+      FeeAddedEvent.OutputTuple,
+      FeeAddedEvent.OutputObject
+    >;
+
+    "FeeUpdated(uint256)": TypedContractEvent<
+      FeeUpdatedEvent.InputTuple,
+      FeeUpdatedEvent.OutputTuple,
+      FeeUpdatedEvent.OutputObject
+    >;
+    FeeUpdated: TypedContractEvent<
+      FeeUpdatedEvent.InputTuple,
+      FeeUpdatedEvent.OutputTuple,
+      FeeUpdatedEvent.OutputObject
+    >;
+
+    "GroupAdded(uint256,string)": TypedContractEvent<
+      GroupAddedEvent.InputTuple,
+      GroupAddedEvent.OutputTuple,
+      GroupAddedEvent.OutputObject
+    >;
+    GroupAdded: TypedContractEvent<
+      GroupAddedEvent.InputTuple,
+      GroupAddedEvent.OutputTuple,
+      GroupAddedEvent.OutputObject
+    >;
+
+    "GroupUpdated(uint256)": TypedContractEvent<
+      GroupUpdatedEvent.InputTuple,
+      GroupUpdatedEvent.OutputTuple,
+      GroupUpdatedEvent.OutputObject
+    >;
+    GroupUpdated: TypedContractEvent<
+      GroupUpdatedEvent.InputTuple,
+      GroupUpdatedEvent.OutputTuple,
+      GroupUpdatedEvent.OutputObject
+    >;
+
+    "Initialized(uint8)": TypedContractEvent<
+      InitializedEvent.InputTuple,
+      InitializedEvent.OutputTuple,
+      InitializedEvent.OutputObject
+    >;
+    Initialized: TypedContractEvent<
+      InitializedEvent.InputTuple,
+      InitializedEvent.OutputTuple,
+      InitializedEvent.OutputObject
+    >;
+
+    "LossProtectionAdded(uint256,uint256[],uint256[])": TypedContractEvent<
+      LossProtectionAddedEvent.InputTuple,
+      LossProtectionAddedEvent.OutputTuple,
+      LossProtectionAddedEvent.OutputObject
+    >;
+    LossProtectionAdded: TypedContractEvent<
+      LossProtectionAddedEvent.InputTuple,
+      LossProtectionAddedEvent.OutputTuple,
+      LossProtectionAddedEvent.OutputObject
+    >;
+
+    "OIMultiplierUpdated(uint256)": TypedContractEvent<
+      OIMultiplierUpdatedEvent.InputTuple,
+      OIMultiplierUpdatedEvent.OutputTuple,
+      OIMultiplierUpdatedEvent.OutputObject
+    >;
+    OIMultiplierUpdated: TypedContractEvent<
+      OIMultiplierUpdatedEvent.InputTuple,
+      OIMultiplierUpdatedEvent.OutputTuple,
+      OIMultiplierUpdatedEvent.OutputObject
+    >;
+
+    "OrderLimitsSet(uint256[],uint256[])": TypedContractEvent<
+      OrderLimitsSetEvent.InputTuple,
+      OrderLimitsSetEvent.OutputTuple,
+      OrderLimitsSetEvent.OutputObject
+    >;
+    OrderLimitsSet: TypedContractEvent<
+      OrderLimitsSetEvent.InputTuple,
+      OrderLimitsSetEvent.OutputTuple,
+      OrderLimitsSetEvent.OutputObject
+    >;
+
+    "PairAdded(uint256,bytes32)": TypedContractEvent<
+      PairAddedEvent.InputTuple,
+      PairAddedEvent.OutputTuple,
+      PairAddedEvent.OutputObject
+    >;
+    PairAdded: TypedContractEvent<
+      PairAddedEvent.InputTuple,
+      PairAddedEvent.OutputTuple,
+      PairAddedEvent.OutputObject
+    >;
+
+    "PairDataUpdated(uint256,string,string,uint256,uint256[],uint256[])": TypedContractEvent<
+      PairDataUpdatedEvent.InputTuple,
+      PairDataUpdatedEvent.OutputTuple,
+      PairDataUpdatedEvent.OutputObject
+    >;
+    PairDataUpdated: TypedContractEvent<
+      PairDataUpdatedEvent.InputTuple,
+      PairDataUpdatedEvent.OutputTuple,
+      PairDataUpdatedEvent.OutputObject
+    >;
+
+    "PairDelisted(uint256)": TypedContractEvent<
+      PairDelistedEvent.InputTuple,
+      PairDelistedEvent.OutputTuple,
+      PairDelistedEvent.OutputObject
+    >;
+    PairDelisted: TypedContractEvent<
+      PairDelistedEvent.InputTuple,
+      PairDelistedEvent.OutputTuple,
+      PairDelistedEvent.OutputObject
+    >;
+
+    "PairParamsUpdated(tuple)": TypedContractEvent<
+      PairParamsUpdatedEvent.InputTuple,
+      PairParamsUpdatedEvent.OutputTuple,
+      PairParamsUpdatedEvent.OutputObject
+    >;
+    PairParamsUpdated: TypedContractEvent<
+      PairParamsUpdatedEvent.InputTuple,
+      PairParamsUpdatedEvent.OutputTuple,
+      PairParamsUpdatedEvent.OutputObject
+    >;
+
+    "PairUpdated(uint256)": TypedContractEvent<
+      PairUpdatedEvent.InputTuple,
+      PairUpdatedEvent.OutputTuple,
+      PairUpdatedEvent.OutputObject
+    >;
+    PairUpdated: TypedContractEvent<
+      PairUpdatedEvent.InputTuple,
+      PairUpdatedEvent.OutputTuple,
+      PairUpdatedEvent.OutputObject
+    >;
+
+    "SkewFeeAdded(uint256)": TypedContractEvent<
+      SkewFeeAddedEvent.InputTuple,
+      SkewFeeAddedEvent.OutputTuple,
+      SkewFeeAddedEvent.OutputObject
+    >;
+    SkewFeeAdded: TypedContractEvent<
+      SkewFeeAddedEvent.InputTuple,
+      SkewFeeAddedEvent.OutputTuple,
+      SkewFeeAddedEvent.OutputObject
+    >;
+
+    "SkewFeeUpdated(uint256)": TypedContractEvent<
+      SkewFeeUpdatedEvent.InputTuple,
+      SkewFeeUpdatedEvent.OutputTuple,
+      SkewFeeUpdatedEvent.OutputObject
+    >;
+    SkewFeeUpdated: TypedContractEvent<
+      SkewFeeUpdatedEvent.InputTuple,
+      SkewFeeUpdatedEvent.OutputTuple,
+      SkewFeeUpdatedEvent.OutputObject
+    >;
+  };
+}
@@ -0,0 +1,912 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "./common";
+
+export declare namespace IPriceAggregator {
+  export type OrderStruct = {
+    pairIndex: BigNumberish;
+    orderType: BigNumberish;
+    job: BytesLike;
+    initiated: boolean;
+  };
+
+  export type OrderStructOutput = [
+    pairIndex: bigint,
+    orderType: bigint,
+    job: string,
+    initiated: boolean
+  ] & { pairIndex: bigint; orderType: bigint; job: string; initiated: boolean };
+
+  export type PendingMarginUpdateStruct = {
+    trader: AddressLike;
+    pairIndex: BigNumberish;
+    index: BigNumberish;
+    _type: BigNumberish;
+    amount: BigNumberish;
+    tier: BigNumberish;
+    marginFees: BigNumberish;
+    oldLeverage: BigNumberish;
+  };
+
+  export type PendingMarginUpdateStructOutput = [
+    trader: string,
+    pairIndex: bigint,
+    index: bigint,
+    _type: bigint,
+    amount: bigint,
+    tier: bigint,
+    marginFees: bigint,
+    oldLeverage: bigint
+  ] & {
+    trader: string;
+    pairIndex: bigint;
+    index: bigint;
+    _type: bigint;
+    amount: bigint;
+    tier: bigint;
+    marginFees: bigint;
+    oldLeverage: bigint;
+  };
+
+  export type PendingSlStruct = {
+    trader: AddressLike;
+    pairIndex: BigNumberish;
+    index: BigNumberish;
+    openPrice: BigNumberish;
+    buy: boolean;
+    newSl: BigNumberish;
+  };
+
+  export type PendingSlStructOutput = [
+    trader: string,
+    pairIndex: bigint,
+    index: bigint,
+    openPrice: bigint,
+    buy: boolean,
+    newSl: bigint
+  ] & {
+    trader: string;
+    pairIndex: bigint;
+    index: bigint;
+    openPrice: bigint;
+    buy: boolean;
+    newSl: bigint;
+  };
+}
+
+export interface PriceAggregatorInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "chainlinkValidityPeriod"
+      | "executions"
+      | "forceCloseTradeMarket"
+      | "fulfill"
+      | "getOrder"
+      | "getPrice"
+      | "initialize"
+      | "maxDeviationP"
+      | "openFeeP"
+      | "orders"
+      | "ordersAnswers"
+      | "pairsStorage"
+      | "pendingMarginUpdateOrders"
+      | "pendingSlOrders"
+      | "pyth"
+      | "setChainlinkValidityPeriod"
+      | "setPyth"
+      | "storageT"
+      | "storePendingMarginUpdateOrder"
+      | "storePendingSlOrder"
+      | "unregisterPendingMarginUpdateOrder"
+      | "unregisterPendingSlOrder"
+      | "updatePairsStorage"
+      | "useBackUpOracleOnly"
+      | "useBackupOnly"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "AddressUpdated"
+      | "BackUpTriggered"
+      | "BackupPriceReceived"
+      | "Initialized"
+      | "NumberUpdated"
+      | "PriceReceived"
+      | "PythUpdated"
+      | "chainlinkValidityPeriodSet"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "chainlinkValidityPeriod",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "executions",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "forceCloseTradeMarket",
+    values: [
+      AddressLike,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "fulfill",
+    values: [BigNumberish, BytesLike[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getOrder",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getPrice",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "initialize",
+    values: [AddressLike, AddressLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "maxDeviationP",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "openFeeP",
+    values: [BigNumberish, BigNumberish, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "orders",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "ordersAnswers",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "pairsStorage",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "pendingMarginUpdateOrders",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "pendingSlOrders",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "pyth", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "setChainlinkValidityPeriod",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setPyth",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(functionFragment: "storageT", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "storePendingMarginUpdateOrder",
+    values: [BigNumberish, IPriceAggregator.PendingMarginUpdateStruct]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "storePendingSlOrder",
+    values: [BigNumberish, IPriceAggregator.PendingSlStruct]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "unregisterPendingMarginUpdateOrder",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "unregisterPendingSlOrder",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "updatePairsStorage",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "useBackUpOracleOnly",
+    values: [boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "useBackupOnly",
+    values?: undefined
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "chainlinkValidityPeriod",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "executions", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "forceCloseTradeMarket",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "fulfill", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "getOrder", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "getPrice", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "initialize", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "maxDeviationP",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "openFeeP", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "orders", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "ordersAnswers",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "pairsStorage",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "pendingMarginUpdateOrders",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "pendingSlOrders",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "pyth", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "setChainlinkValidityPeriod",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "setPyth", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "storageT", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "storePendingMarginUpdateOrder",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "storePendingSlOrder",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "unregisterPendingMarginUpdateOrder",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "unregisterPendingSlOrder",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "updatePairsStorage",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "useBackUpOracleOnly",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "useBackupOnly",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace AddressUpdatedEvent {
+  export type InputTuple = [name: string, a: AddressLike];
+  export type OutputTuple = [name: string, a: string];
+  export interface OutputObject {
+    name: string;
+    a: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BackUpTriggeredEvent {
+  export type InputTuple = [_start: boolean];
+  export type OutputTuple = [_start: boolean];
+  export interface OutputObject {
+    _start: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BackupPriceReceivedEvent {
+  export type InputTuple = [
+    orderId: BigNumberish,
+    pairIndex: BigNumberish,
+    price: BigNumberish
+  ];
+  export type OutputTuple = [orderId: bigint, pairIndex: bigint, price: bigint];
+  export interface OutputObject {
+    orderId: bigint;
+    pairIndex: bigint;
+    price: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace InitializedEvent {
+  export type InputTuple = [version: BigNumberish];
+  export type OutputTuple = [version: bigint];
+  export interface OutputObject {
+    version: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace NumberUpdatedEvent {
+  export type InputTuple = [name: string, value: BigNumberish];
+  export type OutputTuple = [name: string, value: bigint];
+  export interface OutputObject {
+    name: string;
+    value: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PriceReceivedEvent {
+  export type InputTuple = [
+    orderId: BigNumberish,
+    pairIndex: BigNumberish,
+    price: BigNumberish
+  ];
+  export type OutputTuple = [orderId: bigint, pairIndex: bigint, price: bigint];
+  export interface OutputObject {
+    orderId: bigint;
+    pairIndex: bigint;
+    price: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PythUpdatedEvent {
+  export type InputTuple = [a: AddressLike];
+  export type OutputTuple = [a: string];
+  export interface OutputObject {
+    a: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace chainlinkValidityPeriodSetEvent {
+  export type InputTuple = [_newPeriod: BigNumberish];
+  export type OutputTuple = [_newPeriod: bigint];
+  export interface OutputObject {
+    _newPeriod: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface PriceAggregator extends BaseContract {
+  connect(runner?: ContractRunner | null): PriceAggregator;
+  waitForDeployment(): Promise<this>;
+
+  interface: PriceAggregatorInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  chainlinkValidityPeriod: TypedContractMethod<[], [bigint], "view">;
+
+  executions: TypedContractMethod<[], [string], "view">;
+
+  forceCloseTradeMarket: TypedContractMethod<
+    [
+      _trader: AddressLike,
+      _pairIndex: BigNumberish,
+      _index: BigNumberish,
+      _amount: BigNumberish,
+      _price: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  fulfill: TypedContractMethod<
+    [orderId: BigNumberish, priceUpdateData: BytesLike[]],
+    [void],
+    "payable"
+  >;
+
+  getOrder: TypedContractMethod<
+    [_id: BigNumberish],
+    [IPriceAggregator.OrderStructOutput],
+    "view"
+  >;
+
+  getPrice: TypedContractMethod<
+    [_pairIndex: BigNumberish, _orderType: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+
+  initialize: TypedContractMethod<
+    [
+      _storageT: AddressLike,
+      _pairsStorage: AddressLike,
+      _executions: AddressLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  maxDeviationP: TypedContractMethod<
+    [_pairIndex: BigNumberish, _type: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  openFeeP: TypedContractMethod<
+    [
+      _pairIndex: BigNumberish,
+      _leveragedPositionSize: BigNumberish,
+      _buy: boolean
+    ],
+    [bigint],
+    "view"
+  >;
+
+  orders: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, bigint, string, boolean] & {
+        pairIndex: bigint;
+        orderType: bigint;
+        job: string;
+        initiated: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  ordersAnswers: TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  pairsStorage: TypedContractMethod<[], [string], "view">;
+
+  pendingMarginUpdateOrders: TypedContractMethod<
+    [index: BigNumberish],
+    [IPriceAggregator.PendingMarginUpdateStructOutput],
+    "view"
+  >;
+
+  pendingSlOrders: TypedContractMethod<
+    [index: BigNumberish],
+    [IPriceAggregator.PendingSlStructOutput],
+    "view"
+  >;
+
+  pyth: TypedContractMethod<[], [string], "view">;
+
+  setChainlinkValidityPeriod: TypedContractMethod<
+    [_newPeriod: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setPyth: TypedContractMethod<
+    [pythContract: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  storageT: TypedContractMethod<[], [string], "view">;
+
+  storePendingMarginUpdateOrder: TypedContractMethod<
+    [orderId: BigNumberish, p: IPriceAggregator.PendingMarginUpdateStruct],
+    [void],
+    "nonpayable"
+  >;
+
+  storePendingSlOrder: TypedContractMethod<
+    [orderId: BigNumberish, p: IPriceAggregator.PendingSlStruct],
+    [void],
+    "nonpayable"
+  >;
+
+  unregisterPendingMarginUpdateOrder: TypedContractMethod<
+    [orderId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  unregisterPendingSlOrder: TypedContractMethod<
+    [orderId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  updatePairsStorage: TypedContractMethod<
+    [_pairsStorage: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  useBackUpOracleOnly: TypedContractMethod<
+    [_start: boolean],
+    [void],
+    "nonpayable"
+  >;
+
+  useBackupOnly: TypedContractMethod<[], [boolean], "view">;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "chainlinkValidityPeriod"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "executions"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "forceCloseTradeMarket"
+  ): TypedContractMethod<
+    [
+      _trader: AddressLike,
+      _pairIndex: BigNumberish,
+      _index: BigNumberish,
+      _amount: BigNumberish,
+      _price: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "fulfill"
+  ): TypedContractMethod<
+    [orderId: BigNumberish, priceUpdateData: BytesLike[]],
+    [void],
+    "payable"
+  >;
+  getFunction(
+    nameOrSignature: "getOrder"
+  ): TypedContractMethod<
+    [_id: BigNumberish],
+    [IPriceAggregator.OrderStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getPrice"
+  ): TypedContractMethod<
+    [_pairIndex: BigNumberish, _orderType: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "initialize"
+  ): TypedContractMethod<
+    [
+      _storageT: AddressLike,
+      _pairsStorage: AddressLike,
+      _executions: AddressLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "maxDeviationP"
+  ): TypedContractMethod<
+    [_pairIndex: BigNumberish, _type: BigNumberish],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "openFeeP"
+  ): TypedContractMethod<
+    [
+      _pairIndex: BigNumberish,
+      _leveragedPositionSize: BigNumberish,
+      _buy: boolean
+    ],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "orders"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, bigint, string, boolean] & {
+        pairIndex: bigint;
+        orderType: bigint;
+        job: string;
+        initiated: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "ordersAnswers"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "pairsStorage"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "pendingMarginUpdateOrders"
+  ): TypedContractMethod<
+    [index: BigNumberish],
+    [IPriceAggregator.PendingMarginUpdateStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "pendingSlOrders"
+  ): TypedContractMethod<
+    [index: BigNumberish],
+    [IPriceAggregator.PendingSlStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "pyth"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "setChainlinkValidityPeriod"
+  ): TypedContractMethod<[_newPeriod: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setPyth"
+  ): TypedContractMethod<[pythContract: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "storageT"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "storePendingMarginUpdateOrder"
+  ): TypedContractMethod<
+    [orderId: BigNumberish, p: IPriceAggregator.PendingMarginUpdateStruct],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "storePendingSlOrder"
+  ): TypedContractMethod<
+    [orderId: BigNumberish, p: IPriceAggregator.PendingSlStruct],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "unregisterPendingMarginUpdateOrder"
+  ): TypedContractMethod<[orderId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "unregisterPendingSlOrder"
+  ): TypedContractMethod<[orderId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "updatePairsStorage"
+  ): TypedContractMethod<[_pairsStorage: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "useBackUpOracleOnly"
+  ): TypedContractMethod<[_start: boolean], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "useBackupOnly"
+  ): TypedContractMethod<[], [boolean], "view">;
+
+  getEvent(
+    key: "AddressUpdated"
+  ): TypedContractEvent<
+    AddressUpdatedEvent.InputTuple,
+    AddressUpdatedEvent.OutputTuple,
+    AddressUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BackUpTriggered"
+  ): TypedContractEvent<
+    BackUpTriggeredEvent.InputTuple,
+    BackUpTriggeredEvent.OutputTuple,
+    BackUpTriggeredEvent.OutputObject
+  >;
+  getEvent(
+    key: "BackupPriceReceived"
+  ): TypedContractEvent<
+    BackupPriceReceivedEvent.InputTuple,
+    BackupPriceReceivedEvent.OutputTuple,
+    BackupPriceReceivedEvent.OutputObject
+  >;
+  getEvent(
+    key: "Initialized"
+  ): TypedContractEvent<
+    InitializedEvent.InputTuple,
+    InitializedEvent.OutputTuple,
+    InitializedEvent.OutputObject
+  >;
+  getEvent(
+    key: "NumberUpdated"
+  ): TypedContractEvent<
+    NumberUpdatedEvent.InputTuple,
+    NumberUpdatedEvent.OutputTuple,
+    NumberUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PriceReceived"
+  ): TypedContractEvent<
+    PriceReceivedEvent.InputTuple,
+    PriceReceivedEvent.OutputTuple,
+    PriceReceivedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PythUpdated"
+  ): TypedContractEvent<
+    PythUpdatedEvent.InputTuple,
+    PythUpdatedEvent.OutputTuple,
+    PythUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "chainlinkValidityPeriodSet"
+  ): TypedContractEvent<
+    chainlinkValidityPeriodSetEvent.InputTuple,
+    chainlinkValidityPeriodSetEvent.OutputTuple,
+    chainlinkValidityPeriodSetEvent.OutputObject
+  >;
+
+  filters: {
+    "AddressUpdated(string,address)": TypedContractEvent<
+      AddressUpdatedEvent.InputTuple,
+      AddressUpdatedEvent.OutputTuple,
+      AddressUpdatedEvent.OutputObject
+    >;
+    AddressUpdated: TypedContractEvent<
+      AddressUpdatedEvent.InputTuple,
+      AddressUpdatedEvent.OutputTuple,
+      AddressUpdatedEvent.OutputObject
+    >;
+
+    "BackUpTriggered(bool)": TypedContractEvent<
+      BackUpTriggeredEvent.InputTuple,
+      BackUpTriggeredEvent.OutputTuple,
+      BackUpTriggeredEvent.OutputObject
+    >;
+    BackUpTriggered: TypedContractEvent<
+      BackUpTriggeredEvent.InputTuple,
+      BackUpTriggeredEvent.OutputTuple,
+      BackUpTriggeredEvent.OutputObject
+    >;
+
+    "BackupPriceReceived(uint256,uint256,uint256)": TypedContractEvent<
+      BackupPriceReceivedEvent.InputTuple,
+      BackupPriceReceivedEvent.OutputTuple,
+      BackupPriceReceivedEvent.OutputObject
+    >;
+    BackupPriceReceived: TypedContractEvent<
+      BackupPriceReceivedEvent.InputTuple,
+      BackupPriceReceivedEvent.OutputTuple,
+      BackupPriceReceivedEvent.OutputObject
+    >;
+
+    "Initialized(uint8)": TypedContractEvent<
+      InitializedEvent.InputTuple,
+      InitializedEvent.OutputTuple,
+      InitializedEvent.OutputObject
+    >;
+    Initialized: TypedContractEvent<
+      InitializedEvent.InputTuple,
+      InitializedEvent.OutputTuple,
+      InitializedEvent.OutputObject
+    >;
+
+    "NumberUpdated(string,uint256)": TypedContractEvent<
+      NumberUpdatedEvent.InputTuple,
+      NumberUpdatedEvent.OutputTuple,
+      NumberUpdatedEvent.OutputObject
+    >;
+    NumberUpdated: TypedContractEvent<
+      NumberUpdatedEvent.InputTuple,
+      NumberUpdatedEvent.OutputTuple,
+      NumberUpdatedEvent.OutputObject
+    >;
+
+    "PriceReceived(uint256,uint256,uint256)": TypedContractEvent<
+      PriceReceivedEvent.InputTuple,
+      PriceReceivedEvent.OutputTuple,
+      PriceReceivedEvent.OutputObject
+    >;
+    PriceReceived: TypedContractEvent<
+      PriceReceivedEvent.InputTuple,
+      PriceReceivedEvent.OutputTuple,
+      PriceReceivedEvent.OutputObject
+    >;
+
+    "PythUpdated(address)": TypedContractEvent<
+      PythUpdatedEvent.InputTuple,
+      PythUpdatedEvent.OutputTuple,
+      PythUpdatedEvent.OutputObject
+    >;
+    PythUpdated: TypedContractEvent<
+      PythUpdatedEvent.InputTuple,
+      PythUpdatedEvent.OutputTuple,
+      PythUpdatedEvent.OutputObject
+    >;
+
+    "chainlinkValidityPeriodSet(uint256)": TypedContractEvent<
+      chainlinkValidityPeriodSetEvent.InputTuple,
+      chainlinkValidityPeriodSetEvent.OutputTuple,
+      chainlinkValidityPeriodSetEvent.OutputObject
+    >;
+    chainlinkValidityPeriodSet: TypedContractEvent<
+      chainlinkValidityPeriodSetEvent.InputTuple,
+      chainlinkValidityPeriodSetEvent.OutputTuple,
+      chainlinkValidityPeriodSetEvent.OutputObject
+    >;
+  };
+}
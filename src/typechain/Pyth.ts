@@ -0,0 +1,126 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedListener,
+  TypedContractMethod,
+} from "./common";
+
+export interface PythInterface extends Interface {
+  getFunction(
+    nameOrSignature: "getUpdateFee" | "getValidTimePeriod" | "updatePriceFeeds"
+  ): FunctionFragment;
+
+  encodeFunctionData(
+    functionFragment: "getUpdateFee",
+    values: [BytesLike[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getValidTimePeriod",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "updatePriceFeeds",
+    values: [BytesLike[]]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "getUpdateFee",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getValidTimePeriod",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "updatePriceFeeds",
+    data: BytesLike
+  ): Result;
+}
+
+export interface Pyth extends BaseContract {
+  connect(runner?: ContractRunner | null): Pyth;
+  waitForDeployment(): Promise<this>;
+
+  interface: PythInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  getUpdateFee: TypedContractMethod<
+    [updateData: BytesLike[]],
+    [bigint],
+    "view"
+  >;
+
+  getValidTimePeriod: TypedContractMethod<[], [bigint], "view">;
+
+  updatePriceFeeds: TypedContractMethod<
+    [updateData: BytesLike[]],
+    [void],
+    "payable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "getUpdateFee"
+  ): TypedContractMethod<[updateData: BytesLike[]], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getValidTimePeriod"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "updatePriceFeeds"
+  ): TypedContractMethod<[updateData: BytesLike[]], [void], "payable">;
+
+  filters: {};
+}
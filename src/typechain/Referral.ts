@@ -0,0 +1,1453 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "./common";
+
+export interface ReferralInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "acceptCodeOwnership"
+      | "acceptGovTransfer"
+      | "cancelRequest"
+      | "codeOwners"
+      | "codes"
+      | "discountTiers"
+      | "getTraderReferralInfo"
+      | "gov"
+      | "govSetCodeOwner"
+      | "initialize"
+      | "initiateGovTransfer"
+      | "isHandler"
+      | "isPrivate"
+      | "migrateCode"
+      | "migrateTraderReferrals"
+      | "pause"
+      | "paused"
+      | "pendingCodeOwners"
+      | "pendingGov"
+      | "referralTiers"
+      | "referrerTiers"
+      | "registerCode"
+      | "relinquishCode"
+      | "requestCode"
+      | "requestSpecialCode"
+      | "setDiscountTier"
+      | "setHandler"
+      | "setPendingCodeOwnershipTransfer"
+      | "setReferralTier"
+      | "setReferrerTier"
+      | "setTraderReferralCode"
+      | "setTraderReferralCodeByOwner"
+      | "setTraderReferralCodeByUser"
+      | "setTraderTier"
+      | "traderReferralCodes"
+      | "traderReferralDiscount"
+      | "traderTier"
+      | "traderTiers"
+      | "unpause"
+      | "updateReferral"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "CodeUpdated"
+      | "DiscountTierSet"
+      | "Discounted"
+      | "GovSetCodeOwner"
+      | "GovTransferAccepted"
+      | "GovTransferInitiated"
+      | "Initialized"
+      | "Paused"
+      | "PrivateCodeRequested"
+      | "ReferralTierSet"
+      | "RegisterCode"
+      | "RelinquishedCode"
+      | "RequestCancelled"
+      | "SetCodeOwner"
+      | "SetHandler"
+      | "SetPendingCodeOwner"
+      | "SetReferrerDiscountShare"
+      | "SetReferrerTier"
+      | "SetTraderReferralCode"
+      | "TraderTierUpdated"
+      | "Unpaused"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "acceptCodeOwnership",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "acceptGovTransfer",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cancelRequest",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "codeOwners",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(functionFragment: "codes", values: [AddressLike]): string;
+  encodeFunctionData(
+    functionFragment: "discountTiers",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getTraderReferralInfo",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(functionFragment: "gov", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "govSetCodeOwner",
+    values: [BytesLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "initialize",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "initiateGovTransfer",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isHandler",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isPrivate",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "migrateCode",
+    values: [BytesLike, AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "migrateTraderReferrals",
+    values: [AddressLike, BytesLike]
+  ): string;
+  encodeFunctionData(functionFragment: "pause", values?: undefined): string;
+  encodeFunctionData(functionFragment: "paused", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "pendingCodeOwners",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "pendingGov",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "referralTiers",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "referrerTiers",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "registerCode",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "relinquishCode",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestCode",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestSpecialCode",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setDiscountTier",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setHandler",
+    values: [AddressLike, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setPendingCodeOwnershipTransfer",
+    values: [BytesLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setReferralTier",
+    values: [BigNumberish, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setReferrerTier",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setTraderReferralCode",
+    values: [AddressLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setTraderReferralCodeByOwner",
+    values: [BytesLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setTraderReferralCodeByUser",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setTraderTier",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "traderReferralCodes",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "traderReferralDiscount",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "traderTier",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "traderTiers",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(functionFragment: "unpause", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "updateReferral",
+    values: [BytesLike, boolean]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "acceptCodeOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "acceptGovTransfer",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "cancelRequest",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "codeOwners", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "codes", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "discountTiers",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getTraderReferralInfo",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "gov", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "govSetCodeOwner",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "initialize", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "initiateGovTransfer",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "isHandler", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "isPrivate", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "migrateCode",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "migrateTraderReferrals",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "pause", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "paused", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "pendingCodeOwners",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "pendingGov", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "referralTiers",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "referrerTiers",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "registerCode",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "relinquishCode",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestCode",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestSpecialCode",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setDiscountTier",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "setHandler", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "setPendingCodeOwnershipTransfer",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setReferralTier",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setReferrerTier",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setTraderReferralCode",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setTraderReferralCodeByOwner",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setTraderReferralCodeByUser",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setTraderTier",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "traderReferralCodes",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "traderReferralDiscount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "traderTier", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "traderTiers",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "unpause", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "updateReferral",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace CodeUpdatedEvent {
+  export type InputTuple = [code: BytesLike, isSpecial: boolean];
+  export type OutputTuple = [code: string, isSpecial: boolean];
+  export interface OutputObject {
+    code: string;
+    isSpecial: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DiscountTierSetEvent {
+  export type InputTuple = [tierId: BigNumberish, feeDiscountPct: BigNumberish];
+  export type OutputTuple = [tierId: bigint, feeDiscountPct: bigint];
+  export interface OutputObject {
+    tierId: bigint;
+    feeDiscountPct: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DiscountedEvent {
+  export type InputTuple = [
+    trader: AddressLike,
+    traderTier: BigNumberish,
+    feeDiscount: BigNumberish,
+    traderFeePostDiscount: BigNumberish
+  ];
+  export type OutputTuple = [
+    trader: string,
+    traderTier: bigint,
+    feeDiscount: bigint,
+    traderFeePostDiscount: bigint
+  ];
+  export interface OutputObject {
+    trader: string;
+    traderTier: bigint;
+    feeDiscount: bigint;
+    traderFeePostDiscount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace GovSetCodeOwnerEvent {
+  export type InputTuple = [code: BytesLike, newAccount: AddressLike];
+  export type OutputTuple = [code: string, newAccount: string];
+  export interface OutputObject {
+    code: string;
+    newAccount: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace GovTransferAcceptedEvent {
+  export type InputTuple = [oldGov: AddressLike, newGov: AddressLike];
+  export type OutputTuple = [oldGov: string, newGov: string];
+  export interface OutputObject {
+    oldGov: string;
+    newGov: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace GovTransferInitiatedEvent {
+  export type InputTuple = [oldGov: AddressLike, newGov: AddressLike];
+  export type OutputTuple = [oldGov: string, newGov: string];
+  export interface OutputObject {
+    oldGov: string;
+    newGov: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace InitializedEvent {
+  export type InputTuple = [version: BigNumberish];
+  export type OutputTuple = [version: bigint];
+  export interface OutputObject {
+    version: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PausedEvent {
+  export type InputTuple = [account: AddressLike];
+  export type OutputTuple = [account: string];
+  export interface OutputObject {
+    account: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PrivateCodeRequestedEvent {
+  export type InputTuple = [trader: AddressLike, _code: BytesLike];
+  export type OutputTuple = [trader: string, _code: string];
+  export interface OutputObject {
+    trader: string;
+    _code: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ReferralTierSetEvent {
+  export type InputTuple = [
+    tierId: BigNumberish,
+    feeDiscountPct: BigNumberish,
+    refRebatePct: BigNumberish
+  ];
+  export type OutputTuple = [
+    tierId: bigint,
+    feeDiscountPct: bigint,
+    refRebatePct: bigint
+  ];
+  export interface OutputObject {
+    tierId: bigint;
+    feeDiscountPct: bigint;
+    refRebatePct: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RegisterCodeEvent {
+  export type InputTuple = [account: AddressLike, code: BytesLike];
+  export type OutputTuple = [account: string, code: string];
+  export interface OutputObject {
+    account: string;
+    code: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RelinquishedCodeEvent {
+  export type InputTuple = [account: AddressLike, code: BytesLike];
+  export type OutputTuple = [account: string, code: string];
+  export interface OutputObject {
+    account: string;
+    code: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RequestCancelledEvent {
+  export type InputTuple = [trader: AddressLike, _code: BytesLike];
+  export type OutputTuple = [trader: string, _code: string];
+  export interface OutputObject {
+    trader: string;
+    _code: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SetCodeOwnerEvent {
+  export type InputTuple = [
+    oldOwner: AddressLike,
+    newOwner: AddressLike,
+    code: BytesLike
+  ];
+  export type OutputTuple = [oldOwner: string, newOwner: string, code: string];
+  export interface OutputObject {
+    oldOwner: string;
+    newOwner: string;
+    code: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SetHandlerEvent {
+  export type InputTuple = [handler: AddressLike, isActive: boolean];
+  export type OutputTuple = [handler: string, isActive: boolean];
+  export interface OutputObject {
+    handler: string;
+    isActive: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SetPendingCodeOwnerEvent {
+  export type InputTuple = [
+    account: AddressLike,
+    newAccount: AddressLike,
+    code: BytesLike
+  ];
+  export type OutputTuple = [account: string, newAccount: string, code: string];
+  export interface OutputObject {
+    account: string;
+    newAccount: string;
+    code: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SetReferrerDiscountShareEvent {
+  export type InputTuple = [referrer: AddressLike, discountShare: BigNumberish];
+  export type OutputTuple = [referrer: string, discountShare: bigint];
+  export interface OutputObject {
+    referrer: string;
+    discountShare: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SetReferrerTierEvent {
+  export type InputTuple = [referrer: AddressLike, tierId: BigNumberish];
+  export type OutputTuple = [referrer: string, tierId: bigint];
+  export interface OutputObject {
+    referrer: string;
+    tierId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SetTraderReferralCodeEvent {
+  export type InputTuple = [account: AddressLike, code: BytesLike];
+  export type OutputTuple = [account: string, code: string];
+  export interface OutputObject {
+    account: string;
+    code: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TraderTierUpdatedEvent {
+  export type InputTuple = [trader: AddressLike, _tier: BigNumberish];
+  export type OutputTuple = [trader: string, _tier: bigint];
+  export interface OutputObject {
+    trader: string;
+    _tier: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace UnpausedEvent {
+  export type InputTuple = [account: AddressLike];
+  export type OutputTuple = [account: string];
+  export interface OutputObject {
+    account: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface Referral extends BaseContract {
+  connect(runner?: ContractRunner | null): Referral;
+  waitForDeployment(): Promise<this>;
+
+  interface: ReferralInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  acceptCodeOwnership: TypedContractMethod<
+    [_code: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  acceptGovTransfer: TypedContractMethod<[], [void], "nonpayable">;
+
+  cancelRequest: TypedContractMethod<[], [void], "nonpayable">;
+
+  codeOwners: TypedContractMethod<[arg0: BytesLike], [string], "view">;
+
+  codes: TypedContractMethod<[arg0: AddressLike], [string], "view">;
+
+  discountTiers: TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+
+  getTraderReferralInfo: TypedContractMethod<
+    [_account: AddressLike],
+    [[string, string]],
+    "view"
+  >;
+
+  gov: TypedContractMethod<[], [string], "view">;
+
+  govSetCodeOwner: TypedContractMethod<
+    [_code: BytesLike, _newAccount: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  initialize: TypedContractMethod<[_gov: AddressLike], [void], "nonpayable">;
+
+  initiateGovTransfer: TypedContractMethod<
+    [_newGov: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  isHandler: TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+
+  isPrivate: TypedContractMethod<[arg0: BytesLike], [boolean], "view">;
+
+  migrateCode: TypedContractMethod<
+    [_code: BytesLike, _owner: AddressLike, id: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  migrateTraderReferrals: TypedContractMethod<
+    [_trader: AddressLike, _code: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  pause: TypedContractMethod<[], [void], "nonpayable">;
+
+  paused: TypedContractMethod<[], [boolean], "view">;
+
+  pendingCodeOwners: TypedContractMethod<[arg0: BytesLike], [string], "view">;
+
+  pendingGov: TypedContractMethod<[], [string], "view">;
+
+  referralTiers: TypedContractMethod<
+    [arg0: BigNumberish],
+    [[bigint, bigint] & { feeDiscountPct: bigint; refRebatePct: bigint }],
+    "view"
+  >;
+
+  referrerTiers: TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+
+  registerCode: TypedContractMethod<[_code: BytesLike], [void], "nonpayable">;
+
+  relinquishCode: TypedContractMethod<[], [void], "nonpayable">;
+
+  requestCode: TypedContractMethod<[arg0: AddressLike], [string], "view">;
+
+  requestSpecialCode: TypedContractMethod<
+    [_code: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  setDiscountTier: TypedContractMethod<
+    [_tierId: BigNumberish, _feeDiscountPct: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setHandler: TypedContractMethod<
+    [_handler: AddressLike, _isActive: boolean],
+    [void],
+    "nonpayable"
+  >;
+
+  setPendingCodeOwnershipTransfer: TypedContractMethod<
+    [_code: BytesLike, _newAccount: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  setReferralTier: TypedContractMethod<
+    [
+      _tierId: BigNumberish,
+      _feeDiscountPct: BigNumberish,
+      _refRebatePct: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  setReferrerTier: TypedContractMethod<
+    [_referrer: AddressLike, _tierId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setTraderReferralCode: TypedContractMethod<
+    [_account: AddressLike, _code: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  setTraderReferralCodeByOwner: TypedContractMethod<
+    [_code: BytesLike, _trader: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  setTraderReferralCodeByUser: TypedContractMethod<
+    [_code: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  setTraderTier: TypedContractMethod<
+    [_trader: AddressLike, _tier: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  traderReferralCodes: TypedContractMethod<
+    [arg0: AddressLike],
+    [string],
+    "view"
+  >;
+
+  traderReferralDiscount: TypedContractMethod<
+    [_account: AddressLike, _fee: BigNumberish],
+    [
+      [bigint, string, bigint] & {
+        traderFeesPostDiscount: bigint;
+        referrer: string;
+        rebateShare: bigint;
+      }
+    ],
+    "nonpayable"
+  >;
+
+  traderTier: TypedContractMethod<[_trader: AddressLike], [bigint], "view">;
+
+  traderTiers: TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+
+  unpause: TypedContractMethod<[], [void], "nonpayable">;
+
+  updateReferral: TypedContractMethod<
+    [_code: BytesLike, _isPrivate: boolean],
+    [void],
+    "nonpayable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "acceptCodeOwnership"
+  ): TypedContractMethod<[_code: BytesLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "acceptGovTransfer"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "cancelRequest"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "codeOwners"
+  ): TypedContractMethod<[arg0: BytesLike], [string], "view">;
+  getFunction(
+    nameOrSignature: "codes"
+  ): TypedContractMethod<[arg0: AddressLike], [string], "view">;
+  getFunction(
+    nameOrSignature: "discountTiers"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getTraderReferralInfo"
+  ): TypedContractMethod<[_account: AddressLike], [[string, string]], "view">;
+  getFunction(
+    nameOrSignature: "gov"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "govSetCodeOwner"
+  ): TypedContractMethod<
+    [_code: BytesLike, _newAccount: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "initialize"
+  ): TypedContractMethod<[_gov: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "initiateGovTransfer"
+  ): TypedContractMethod<[_newGov: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "isHandler"
+  ): TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "isPrivate"
+  ): TypedContractMethod<[arg0: BytesLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "migrateCode"
+  ): TypedContractMethod<
+    [_code: BytesLike, _owner: AddressLike, id: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "migrateTraderReferrals"
+  ): TypedContractMethod<
+    [_trader: AddressLike, _code: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "pause"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "paused"
+  ): TypedContractMethod<[], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "pendingCodeOwners"
+  ): TypedContractMethod<[arg0: BytesLike], [string], "view">;
+  getFunction(
+    nameOrSignature: "pendingGov"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "referralTiers"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [[bigint, bigint] & { feeDiscountPct: bigint; refRebatePct: bigint }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "referrerTiers"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "registerCode"
+  ): TypedContractMethod<[_code: BytesLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "relinquishCode"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "requestCode"
+  ): TypedContractMethod<[arg0: AddressLike], [string], "view">;
+  getFunction(
+    nameOrSignature: "requestSpecialCode"
+  ): TypedContractMethod<[_code: BytesLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setDiscountTier"
+  ): TypedContractMethod<
+    [_tierId: BigNumberish, _feeDiscountPct: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setHandler"
+  ): TypedContractMethod<
+    [_handler: AddressLike, _isActive: boolean],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setPendingCodeOwnershipTransfer"
+  ): TypedContractMethod<
+    [_code: BytesLike, _newAccount: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setReferralTier"
+  ): TypedContractMethod<
+    [
+      _tierId: BigNumberish,
+      _feeDiscountPct: BigNumberish,
+      _refRebatePct: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setReferrerTier"
+  ): TypedContractMethod<
+    [_referrer: AddressLike, _tierId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setTraderReferralCode"
+  ): TypedContractMethod<
+    [_account: AddressLike, _code: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setTraderReferralCodeByOwner"
+  ): TypedContractMethod<
+    [_code: BytesLike, _trader: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setTraderReferralCodeByUser"
+  ): TypedContractMethod<[_code: BytesLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setTraderTier"
+  ): TypedContractMethod<
+    [_trader: AddressLike, _tier: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "traderReferralCodes"
+  ): TypedContractMethod<[arg0: AddressLike], [string], "view">;
+  getFunction(
+    nameOrSignature: "traderReferralDiscount"
+  ): TypedContractMethod<
+    [_account: AddressLike, _fee: BigNumberish],
+    [
+      [bigint, string, bigint] & {
+        traderFeesPostDiscount: bigint;
+        referrer: string;
+        rebateShare: bigint;
+      }
+    ],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "traderTier"
+  ): TypedContractMethod<[_trader: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "traderTiers"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "unpause"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "updateReferral"
+  ): TypedContractMethod<
+    [_code: BytesLike, _isPrivate: boolean],
+    [void],
+    "nonpayable"
+  >;
+
+  getEvent(
+    key: "CodeUpdated"
+  ): TypedContractEvent<
+    CodeUpdatedEvent.InputTuple,
+    CodeUpdatedEvent.OutputTuple,
+    CodeUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DiscountTierSet"
+  ): TypedContractEvent<
+    DiscountTierSetEvent.InputTuple,
+    DiscountTierSetEvent.OutputTuple,
+    DiscountTierSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "Discounted"
+  ): TypedContractEvent<
+    DiscountedEvent.InputTuple,
+    DiscountedEvent.OutputTuple,
+    DiscountedEvent.OutputObject
+  >;
+  getEvent(
+    key: "GovSetCodeOwner"
+  ): TypedContractEvent<
+    GovSetCodeOwnerEvent.InputTuple,
+    GovSetCodeOwnerEvent.OutputTuple,
+    GovSetCodeOwnerEvent.OutputObject
+  >;
+  getEvent(
+    key: "GovTransferAccepted"
+  ): TypedContractEvent<
+    GovTransferAcceptedEvent.InputTuple,
+    GovTransferAcceptedEvent.OutputTuple,
+    GovTransferAcceptedEvent.OutputObject
+  >;
+  getEvent(
+    key: "GovTransferInitiated"
+  ): TypedContractEvent<
+    GovTransferInitiatedEvent.InputTuple,
+    GovTransferInitiatedEvent.OutputTuple,
+    GovTransferInitiatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "Initialized"
+  ): TypedContractEvent<
+    InitializedEvent.InputTuple,
+    InitializedEvent.OutputTuple,
+    InitializedEvent.OutputObject
+  >;
+  getEvent(
+    key: "Paused"
+  ): TypedContractEvent<
+    PausedEvent.InputTuple,
+    PausedEvent.OutputTuple,
+    PausedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PrivateCodeRequested"
+  ): TypedContractEvent<
+    PrivateCodeRequestedEvent.InputTuple,
+    PrivateCodeRequestedEvent.OutputTuple,
+    PrivateCodeRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ReferralTierSet"
+  ): TypedContractEvent<
+    ReferralTierSetEvent.InputTuple,
+    ReferralTierSetEvent.OutputTuple,
+    ReferralTierSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "RegisterCode"
+  ): TypedContractEvent<
+    RegisterCodeEvent.InputTuple,
+    RegisterCodeEvent.OutputTuple,
+    RegisterCodeEvent.OutputObject
+  >;
+  getEvent(
+    key: "RelinquishedCode"
+  ): TypedContractEvent<
+    RelinquishedCodeEvent.InputTuple,
+    RelinquishedCodeEvent.OutputTuple,
+    RelinquishedCodeEvent.OutputObject
+  >;
+  getEvent(
+    key: "RequestCancelled"
+  ): TypedContractEvent<
+    RequestCancelledEvent.InputTuple,
+    RequestCancelledEvent.OutputTuple,
+    RequestCancelledEvent.OutputObject
+  >;
+  getEvent(
+    key: "SetCodeOwner"
+  ): TypedContractEvent<
+    SetCodeOwnerEvent.InputTuple,
+    SetCodeOwnerEvent.OutputTuple,
+    SetCodeOwnerEvent.OutputObject
+  >;
+  getEvent(
+    key: "SetHandler"
+  ): TypedContractEvent<
+    SetHandlerEvent.InputTuple,
+    SetHandlerEvent.OutputTuple,
+    SetHandlerEvent.OutputObject
+  >;
+  getEvent(
+    key: "SetPendingCodeOwner"
+  ): TypedContractEvent<
+    SetPendingCodeOwnerEvent.InputTuple,
+    SetPendingCodeOwnerEvent.OutputTuple,
+    SetPendingCodeOwnerEvent.OutputObject
+  >;
+  getEvent(
+    key: "SetReferrerDiscountShare"
+  ): TypedContractEvent<
+    SetReferrerDiscountShareEvent.InputTuple,
+    SetReferrerDiscountShareEvent.OutputTuple,
+    SetReferrerDiscountShareEvent.OutputObject
+  >;
+  getEvent(
+    key: "SetReferrerTier"
+  ): TypedContractEvent<
+    SetReferrerTierEvent.InputTuple,
+    SetReferrerTierEvent.OutputTuple,
+    SetReferrerTierEvent.OutputObject
+  >;
+  getEvent(
+    key: "SetTraderReferralCode"
+  ): TypedContractEvent<
+    SetTraderReferralCodeEvent.InputTuple,
+    SetTraderReferralCodeEvent.OutputTuple,
+    SetTraderReferralCodeEvent.OutputObject
+  >;
+  getEvent(
+    key: "TraderTierUpdated"
+  ): TypedContractEvent<
+    TraderTierUpdatedEvent.InputTuple,
+    TraderTierUpdatedEvent.OutputTuple,
+    TraderTierUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "Unpaused"
+  ): TypedContractEvent<
+    UnpausedEvent.InputTuple,
+    UnpausedEvent.OutputTuple,
+    UnpausedEvent.OutputObject
+  >;
+
+  filters: {
+    "CodeUpdated(bytes32,bool)": TypedContractEvent<
+      CodeUpdatedEvent.InputTuple,
+      CodeUpdatedEvent.OutputTuple,
+      CodeUpdatedEvent.OutputObject
+    >;
+    CodeUpdated: TypedContractEvent<
+      CodeUpdatedEvent.InputTuple,
+      CodeUpdatedEvent.OutputTuple,
+      CodeUpdatedEvent.OutputObject
+    >;
+
+    "DiscountTierSet(uint256,uint256)": TypedContractEvent<
+      DiscountTierSetEvent.InputTuple,
+      DiscountTierSetEvent.OutputTuple,
+      DiscountTierSetEvent.OutputObject
+    >;
+    DiscountTierSet: TypedContractEvent<
+      DiscountTierSetEvent.InputTuple,
+      DiscountTierSetEvent.OutputTuple,
+      DiscountTierSetEvent.OutputObject
+    >;
+
+    "Discounted(address,uint256,uint256,uint256)": TypedContractEvent<
+      DiscountedEvent.InputTuple,
+      DiscountedEvent.OutputTuple,
+      DiscountedEvent.OutputObject
+    >;
+    Discounted: TypedContractEvent<
+      DiscountedEvent.InputTuple,
+      DiscountedEvent.OutputTuple,
+      DiscountedEvent.OutputObject
+    >;
+
+    "GovSetCodeOwner(bytes32,address)": TypedContractEvent<
+      GovSetCodeOwnerEvent.InputTuple,
+      GovSetCodeOwnerEvent.OutputTuple,
+      GovSetCodeOwnerEvent.OutputObject
+    >;
+    GovSetCodeOwner: TypedContractEvent<
+      GovSetCodeOwnerEvent.InputTuple,
+      GovSetCodeOwnerEvent.OutputTuple,
+      GovSetCodeOwnerEvent.OutputObject
+    >;
+
+    "GovTransferAccepted(address,address)": TypedContractEvent<
+      GovTransferAcceptedEvent.InputTuple,
+      GovTransferAcceptedEvent.OutputTuple,
+      GovTransferAcceptedEvent.OutputObject
+    >;
+    GovTransferAccepted: TypedContractEvent<
+      GovTransferAcceptedEvent.InputTuple,
+      GovTransferAcceptedEvent.OutputTuple,
+      GovTransferAcceptedEvent.OutputObject
+    >;
+
+    "GovTransferInitiated(address,address)": TypedContractEvent<
+      GovTransferInitiatedEvent.InputTuple,
+      GovTransferInitiatedEvent.OutputTuple,
+      GovTransferInitiatedEvent.OutputObject
+    >;
+    GovTransferInitiated: TypedContractEvent<
+      GovTransferInitiatedEvent.InputTuple,
+      GovTransferInitiatedEvent.OutputTuple,
+      GovTransferInitiatedEvent.OutputObject
+    >;
+
+    "Initialized(uint8)": TypedContractEvent<
+      InitializedEvent.InputTuple,
+      InitializedEvent.OutputTuple,
+      InitializedEvent.OutputObject
+    >;
+    Initialized: TypedContractEvent<
+      InitializedEvent.InputTuple,
+      InitializedEvent.OutputTuple,
+      InitializedEvent.OutputObject
+    >;
+
+    "Paused(address)": TypedContractEvent<
+      PausedEvent.InputTuple,
+      PausedEvent.OutputTuple,
+      PausedEvent.OutputObject
+    >;
+    Paused: TypedContractEvent<
+      PausedEvent.InputTuple,
+      PausedEvent.OutputTuple,
+      PausedEvent.OutputObject
+    >;
+
+    "PrivateCodeRequested(address,bytes32)": TypedContractEvent<
+      PrivateCodeRequestedEvent.InputTuple,
+      PrivateCodeRequestedEvent.OutputTuple,
+      PrivateCodeRequestedEvent.OutputObject
+    >;
+    PrivateCodeRequested: TypedContractEvent<
+      PrivateCodeRequestedEvent.InputTuple,
+      PrivateCodeRequestedEvent.OutputTuple,
+      PrivateCodeRequestedEvent.OutputObject
+    >;
+
+    "ReferralTierSet(uint256,uint256,uint256)": TypedContractEvent<
+      ReferralTierSetEvent.InputTuple,
+      ReferralTierSetEvent.OutputTuple,
+      ReferralTierSetEvent.OutputObject
+    >;
+    ReferralTierSet: TypedContractEvent<
+      ReferralTierSetEvent.InputTuple,
+      ReferralTierSetEvent.OutputTuple,
+      ReferralTierSetEvent.OutputObject
+    >;
+
+    "RegisterCode(address,bytes32)": TypedContractEvent<
+      RegisterCodeEvent.InputTuple,
+      RegisterCodeEvent.OutputTuple,
+      RegisterCodeEvent.OutputObject
+    >;
+    RegisterCode: TypedContractEvent<
+      RegisterCodeEvent.InputTuple,
+      RegisterCodeEvent.OutputTuple,
+      RegisterCodeEvent.OutputObject
+    >;
+
+    "RelinquishedCode(address,bytes32)": TypedContractEvent<
+      RelinquishedCodeEvent.InputTuple,
+      RelinquishedCodeEvent.OutputTuple,
+      RelinquishedCodeEvent.OutputObject
+    >;
+    RelinquishedCode: TypedContractEvent<
+      RelinquishedCodeEvent.InputTuple,
+      RelinquishedCodeEvent.OutputTuple,
+      RelinquishedCodeEvent.OutputObject
+    >;
+
+    "RequestCancelled(address,bytes32)": TypedContractEvent<
+      RequestCancelledEvent.InputTuple,
+      RequestCancelledEvent.OutputTuple,
+      RequestCancelledEvent.OutputObject
+    >;
+    RequestCancelled: TypedContractEvent<
+      RequestCancelledEvent.InputTuple,
+      RequestCancelledEvent.OutputTuple,
+      RequestCancelledEvent.OutputObject
+    >;
+
+    "SetCodeOwner(address,address,bytes32)": TypedContractEvent<
+      SetCodeOwnerEvent.InputTuple,
+      SetCodeOwnerEvent.OutputTuple,
+      SetCodeOwnerEvent.OutputObject
+    >;
+    SetCodeOwner: TypedContractEvent<
+      SetCodeOwnerEvent.InputTuple,
+      SetCodeOwnerEvent.OutputTuple,
+      SetCodeOwnerEvent.OutputObject
+    >;
+
+    "SetHandler(address,bool)": TypedContractEvent<
+      SetHandlerEvent.InputTuple,
+      SetHandlerEvent.OutputTuple,
+      SetHandlerEvent.OutputObject
+    >;
+    SetHandler: TypedContractEvent<
+      SetHandlerEvent.InputTuple,
+      SetHandlerEvent.OutputTuple,
+      SetHandlerEvent.OutputObject
+    >;
+
+    "SetPendingCodeOwner(address,address,bytes32)": TypedContractEvent<
+      SetPendingCodeOwnerEvent.InputTuple,
+      SetPendingCodeOwnerEvent.OutputTuple,
+      SetPendingCodeOwnerEvent.OutputObject
+    >;
+    SetPendingCodeOwner: TypedContractEvent<
+      SetPendingCodeOwnerEvent.InputTuple,
+      SetPendingCodeOwnerEvent.OutputTuple,
+      SetPendingCodeOwnerEvent.OutputObject
+    >;
+
+    "SetReferrerDiscountShare(address,uint256)": TypedContractEvent<
+      SetReferrerDiscountShareEvent.InputTuple,
+      SetReferrerDiscountShareEvent.OutputTuple,
+      SetReferrerDiscountShareEvent.OutputObject
+    >;
+    SetReferrerDiscountShare: TypedContractEvent<
+      SetReferrerDiscountShareEvent.InputTuple,
+      SetReferrerDiscountShareEvent.OutputTuple,
+      SetReferrerDiscountShareEvent.OutputObject
+    >;
+
+    "SetReferrerTier(address,uint256)": TypedContractEvent<
+      SetReferrerTierEvent.InputTuple,
+      SetReferrerTierEvent.OutputTuple,
+      SetReferrerTierEvent.OutputObject
+    >;
+    SetReferrerTier: TypedContractEvent<
+      SetReferrerTierEvent.InputTuple,
+      SetReferrerTierEvent.OutputTuple,
+      SetReferrerTierEvent.OutputObject
+    >;
+
+    "SetTraderReferralCode(address,bytes32)": TypedContractEvent<
+      SetTraderReferralCodeEvent.InputTuple,
+      SetTraderReferralCodeEvent.OutputTuple,
+      SetTraderReferralCodeEvent.OutputObject
+    >;
+    SetTraderReferralCode: TypedContractEvent<
+      SetTraderReferralCodeEvent.InputTuple,
+      SetTraderReferralCodeEvent.OutputTuple,
+      SetTraderReferralCodeEvent.OutputObject
+    >;
+
+    "TraderTierUpdated(address,uint256)": TypedContractEvent<
+      TraderTierUpdatedEvent.InputTuple,
+      TraderTierUpdatedEvent.OutputTuple,
+      TraderTierUpdatedEvent.OutputObject
+    >;
+    TraderTierUpdated: TypedContractEvent<
+      TraderTierUpdatedEvent.InputTuple,
+      TraderTierUpdatedEvent.OutputTuple,
+      TraderTierUpdatedEvent.OutputObject
+    >;
+
+    "Unpaused(address)": TypedContractEvent<
+      UnpausedEvent.InputTuple,
+      UnpausedEvent.OutputTuple,
+      UnpausedEvent.OutputObject
+    >;
+    Unpaused: TypedContractEvent<
+      UnpausedEvent.InputTuple,
+      UnpausedEvent.OutputTuple,
+      UnpausedEvent.OutputObject
+    >;
+  };
+}
@@ -0,0 +1,1254 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "./common";
+
+export declare namespace ITradingStorage {
+  export type TradeStruct = {
+    trader: AddressLike;
+    pairIndex: BigNumberish;
+    index: BigNumberish;
+    initialPosToken: BigNumberish;
+    positionSizeUSDC: BigNumberish;
+    openPrice: BigNumberish;
+    buy: boolean;
+    leverage: BigNumberish;
+    tp: BigNumberish;
+    sl: BigNumberish;
+    timestamp: BigNumberish;
+  };
+
+  export type TradeStructOutput = [
+    trader: string,
+    pairIndex: bigint,
+    index: bigint,
+    initialPosToken: bigint,
+    positionSizeUSDC: bigint,
+    openPrice: bigint,
+    buy: boolean,
+    leverage: bigint,
+    tp: bigint,
+    sl: bigint,
+    timestamp: bigint
+  ] & {
+    trader: string;
+    pairIndex: bigint;
+    index: bigint;
+    initialPosToken: bigint;
+    positionSizeUSDC: bigint;
+    openPrice: bigint;
+    buy: boolean;
+    leverage: bigint;
+    tp: bigint;
+    sl: bigint;
+    timestamp: bigint;
+  };
+}
+
+export interface TradingInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "_MAX_SLIPPAGE"
+      | "__msgSender"
+      | "cancelOpenLimitOrder"
+      | "cancelPendingMarketOrder"
+      | "closeTradeMarket"
+      | "delegatedAction"
+      | "delegations"
+      | "executeLimitOrder"
+      | "executeMarketOrders"
+      | "initialize"
+      | "isOperator"
+      | "limitOrdersTimelock"
+      | "openTrade"
+      | "operator"
+      | "pairInfos"
+      | "pause"
+      | "paused"
+      | "removeDelegate"
+      | "setDelegate"
+      | "setLimitOrdersTimelock"
+      | "setMarketExecFeeReciever"
+      | "storageT"
+      | "unpause"
+      | "updateMargin"
+      | "updateOpenLimitOrder"
+      | "updateOperator"
+      | "updateTpAndSl"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "Initialized"
+      | "LimitOrderInitiated"
+      | "MarginUpdated"
+      | "MarketOrderInitiated"
+      | "NumberUpdated"
+      | "OpenLimitCanceled"
+      | "OpenLimitPlaced"
+      | "OpenLimitUpdated"
+      | "OperatorUpdated"
+      | "Paused"
+      | "SlUpdateInitiated"
+      | "SlUpdated"
+      | "TpUpdated"
+      | "Unpaused"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "_MAX_SLIPPAGE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "__msgSender",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cancelOpenLimitOrder",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cancelPendingMarketOrder",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "closeTradeMarket",
+    values: [BigNumberish, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "delegatedAction",
+    values: [AddressLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "delegations",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "executeLimitOrder",
+    values: [BigNumberish, AddressLike, BigNumberish, BigNumberish, BytesLike[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "executeMarketOrders",
+    values: [BigNumberish[], BytesLike[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "initialize",
+    values: [AddressLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isOperator",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "limitOrdersTimelock",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "openTrade",
+    values: [ITradingStorage.TradeStruct, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "operator", values?: undefined): string;
+  encodeFunctionData(functionFragment: "pairInfos", values?: undefined): string;
+  encodeFunctionData(functionFragment: "pause", values?: undefined): string;
+  encodeFunctionData(functionFragment: "paused", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "removeDelegate",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setDelegate",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setLimitOrdersTimelock",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setMarketExecFeeReciever",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(functionFragment: "storageT", values?: undefined): string;
+  encodeFunctionData(functionFragment: "unpause", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "updateMargin",
+    values: [
+      BigNumberish,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish,
+      BytesLike[]
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "updateOpenLimitOrder",
+    values: [
+      BigNumberish,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "updateOperator",
+    values: [AddressLike, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "updateTpAndSl",
+    values: [
+      BigNumberish,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish,
+      BytesLike[]
+    ]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "_MAX_SLIPPAGE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "__msgSender",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "cancelOpenLimitOrder",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "cancelPendingMarketOrder",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "closeTradeMarket",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "delegatedAction",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "delegations",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "executeLimitOrder",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "executeMarketOrders",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "initialize", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "isOperator", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "limitOrdersTimelock",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "openTrade", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "operator", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "pairInfos", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "pause", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "paused", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "removeDelegate",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setDelegate",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setLimitOrdersTimelock",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setMarketExecFeeReciever",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "storageT", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "unpause", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "updateMargin",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "updateOpenLimitOrder",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "updateOperator",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "updateTpAndSl",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace InitializedEvent {
+  export type InputTuple = [version: BigNumberish];
+  export type OutputTuple = [version: bigint];
+  export interface OutputObject {
+    version: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace LimitOrderInitiatedEvent {
+  export type InputTuple = [
+    trader: AddressLike,
+    pairIndex: BigNumberish,
+    orderId: BigNumberish,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    trader: string,
+    pairIndex: bigint,
+    orderId: bigint,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    trader: string;
+    pairIndex: bigint;
+    orderId: bigint;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace MarginUpdatedEvent {
+  export type InputTuple = [
+    trader: AddressLike,
+    pairIndex: BigNumberish,
+    index: BigNumberish,
+    _type: BigNumberish,
+    newTrade: ITradingStorage.TradeStruct,
+    marginFees: BigNumberish,
+    lossProtectionTier: BigNumberish,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    trader: string,
+    pairIndex: bigint,
+    index: bigint,
+    _type: bigint,
+    newTrade: ITradingStorage.TradeStructOutput,
+    marginFees: bigint,
+    lossProtectionTier: bigint,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    trader: string;
+    pairIndex: bigint;
+    index: bigint;
+    _type: bigint;
+    newTrade: ITradingStorage.TradeStructOutput;
+    marginFees: bigint;
+    lossProtectionTier: bigint;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace MarketOrderInitiatedEvent {
+  export type InputTuple = [
+    trader: AddressLike,
+    pairIndex: BigNumberish,
+    open: boolean,
+    orderId: BigNumberish,
+    timestamp: BigNumberish,
+    isBuy: boolean
+  ];
+  export type OutputTuple = [
+    trader: string,
+    pairIndex: bigint,
+    open: boolean,
+    orderId: bigint,
+    timestamp: bigint,
+    isBuy: boolean
+  ];
+  export interface OutputObject {
+    trader: string;
+    pairIndex: bigint;
+    open: boolean;
+    orderId: bigint;
+    timestamp: bigint;
+    isBuy: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace NumberUpdatedEvent {
+  export type InputTuple = [name: string, value: BigNumberish];
+  export type OutputTuple = [name: string, value: bigint];
+  export interface OutputObject {
+    name: string;
+    value: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OpenLimitCanceledEvent {
+  export type InputTuple = [
+    trader: AddressLike,
+    pairIndex: BigNumberish,
+    index: BigNumberish,
+    timestamp: BigNumberish,
+    collateral: BigNumberish
+  ];
+  export type OutputTuple = [
+    trader: string,
+    pairIndex: bigint,
+    index: bigint,
+    timestamp: bigint,
+    collateral: bigint
+  ];
+  export interface OutputObject {
+    trader: string;
+    pairIndex: bigint;
+    index: bigint;
+    timestamp: bigint;
+    collateral: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OpenLimitPlacedEvent {
+  export type InputTuple = [
+    trader: AddressLike,
+    pairIndex: BigNumberish,
+    index: BigNumberish,
+    isBuy: boolean,
+    openPrice: BigNumberish,
+    executionFee: BigNumberish,
+    orderType: BigNumberish,
+    slippageP: BigNumberish,
+    collateral: BigNumberish
+  ];
+  export type OutputTuple = [
+    trader: string,
+    pairIndex: bigint,
+    index: bigint,
+    isBuy: boolean,
+    openPrice: bigint,
+    executionFee: bigint,
+    orderType: bigint,
+    slippageP: bigint,
+    collateral: bigint
+  ];
+  export interface OutputObject {
+    trader: string;
+    pairIndex: bigint;
+    index: bigint;
+    isBuy: boolean;
+    openPrice: bigint;
+    executionFee: bigint;
+    orderType: bigint;
+    slippageP: bigint;
+    collateral: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OpenLimitUpdatedEvent {
+  export type InputTuple = [
+    trader: AddressLike,
+    pairIndex: BigNumberish,
+    index: BigNumberish,
+    newPrice: BigNumberish,
+    newTp: BigNumberish,
+    newSl: BigNumberish,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    trader: string,
+    pairIndex: bigint,
+    index: bigint,
+    newPrice: bigint,
+    newTp: bigint,
+    newSl: bigint,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    trader: string;
+    pairIndex: bigint;
+    index: bigint;
+    newPrice: bigint;
+    newTp: bigint;
+    newSl: bigint;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OperatorUpdatedEvent {
+  export type InputTuple = [operator: AddressLike, isOperator: boolean];
+  export type OutputTuple = [operator: string, isOperator: boolean];
+  export interface OutputObject {
+    operator: string;
+    isOperator: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PausedEvent {
+  export type InputTuple = [account: AddressLike];
+  export type OutputTuple = [account: string];
+  export interface OutputObject {
+    account: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SlUpdateInitiatedEvent {
+  export type InputTuple = [
+    trader: AddressLike,
+    pairIndex: BigNumberish,
+    index: BigNumberish,
+    newSl: BigNumberish,
+    orderId: BigNumberish,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    trader: string,
+    pairIndex: bigint,
+    index: bigint,
+    newSl: bigint,
+    orderId: bigint,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    trader: string;
+    pairIndex: bigint;
+    index: bigint;
+    newSl: bigint;
+    orderId: bigint;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SlUpdatedEvent {
+  export type InputTuple = [
+    trader: AddressLike,
+    pairIndex: BigNumberish,
+    index: BigNumberish,
+    newSl: BigNumberish,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    trader: string,
+    pairIndex: bigint,
+    index: bigint,
+    newSl: bigint,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    trader: string;
+    pairIndex: bigint;
+    index: bigint;
+    newSl: bigint;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TpUpdatedEvent {
+  export type InputTuple = [
+    trader: AddressLike,
+    pairIndex: BigNumberish,
+    index: BigNumberish,
+    newTp: BigNumberish,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    trader: string,
+    pairIndex: bigint,
+    index: bigint,
+    newTp: bigint,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    trader: string;
+    pairIndex: bigint;
+    index: bigint;
+    newTp: bigint;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace UnpausedEvent {
+  export type InputTuple = [account: AddressLike];
+  export type OutputTuple = [account: string];
+  export interface OutputObject {
+    account: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface Trading extends BaseContract {
+  connect(runner?: ContractRunner | null): Trading;
+  waitForDeployment(): Promise<this>;
+
+  interface: TradingInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  _MAX_SLIPPAGE: TypedContractMethod<[], [bigint], "view">;
+
+  __msgSender: TypedContractMethod<[], [string], "view">;
+
+  cancelOpenLimitOrder: TypedContractMethod<
+    [_pairIndex: BigNumberish, _index: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  cancelPendingMarketOrder: TypedContractMethod<
+    [_id: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  closeTradeMarket: TypedContractMethod<
+    [_pairIndex: BigNumberish, _index: BigNumberish, _amount: BigNumberish],
+    [bigint],
+    "payable"
+  >;
+
+  delegatedAction: TypedContractMethod<
+    [trader: AddressLike, call_data: BytesLike],
+    [string],
+    "payable"
+  >;
+
+  delegations: TypedContractMethod<[arg0: AddressLike], [string], "view">;
+
+  executeLimitOrder: TypedContractMethod<
+    [
+      _orderType: BigNumberish,
+      _trader: AddressLike,
+      _pairIndex: BigNumberish,
+      _index: BigNumberish,
+      priceUpdateData: BytesLike[]
+    ],
+    [void],
+    "payable"
+  >;
+
+  executeMarketOrders: TypedContractMethod<
+    [orderId: BigNumberish[], priceUpdateData: BytesLike[]],
+    [void],
+    "payable"
+  >;
+
+  initialize: TypedContractMethod<
+    [_storageT: AddressLike, _pairInfos: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  isOperator: TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+
+  limitOrdersTimelock: TypedContractMethod<[], [bigint], "view">;
+
+  openTrade: TypedContractMethod<
+    [
+      t: ITradingStorage.TradeStruct,
+      _type: BigNumberish,
+      _slippageP: BigNumberish
+    ],
+    [bigint],
+    "payable"
+  >;
+
+  operator: TypedContractMethod<[], [string], "view">;
+
+  pairInfos: TypedContractMethod<[], [string], "view">;
+
+  pause: TypedContractMethod<[], [void], "nonpayable">;
+
+  paused: TypedContractMethod<[], [boolean], "view">;
+
+  removeDelegate: TypedContractMethod<[], [void], "nonpayable">;
+
+  setDelegate: TypedContractMethod<
+    [delegate: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  setLimitOrdersTimelock: TypedContractMethod<
+    [_blocks: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setMarketExecFeeReciever: TypedContractMethod<
+    [_reciever: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  storageT: TypedContractMethod<[], [string], "view">;
+
+  unpause: TypedContractMethod<[], [void], "nonpayable">;
+
+  updateMargin: TypedContractMethod<
+    [
+      _pairIndex: BigNumberish,
+      _index: BigNumberish,
+      _type: BigNumberish,
+      _amount: BigNumberish,
+      priceUpdateData: BytesLike[]
+    ],
+    [bigint],
+    "payable"
+  >;
+
+  updateOpenLimitOrder: TypedContractMethod<
+    [
+      _pairIndex: BigNumberish,
+      _index: BigNumberish,
+      _price: BigNumberish,
+      _slippageP: BigNumberish,
+      _tp: BigNumberish,
+      _sl: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  updateOperator: TypedContractMethod<
+    [_operator: AddressLike, _isOperator: boolean],
+    [void],
+    "nonpayable"
+  >;
+
+  updateTpAndSl: TypedContractMethod<
+    [
+      _pairIndex: BigNumberish,
+      _index: BigNumberish,
+      _newSl: BigNumberish,
+      _newTP: BigNumberish,
+      priceUpdateData: BytesLike[]
+    ],
+    [void],
+    "payable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "_MAX_SLIPPAGE"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "__msgSender"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "cancelOpenLimitOrder"
+  ): TypedContractMethod<
+    [_pairIndex: BigNumberish, _index: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "cancelPendingMarketOrder"
+  ): TypedContractMethod<[_id: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "closeTradeMarket"
+  ): TypedContractMethod<
+    [_pairIndex: BigNumberish, _index: BigNumberish, _amount: BigNumberish],
+    [bigint],
+    "payable"
+  >;
+  getFunction(
+    nameOrSignature: "delegatedAction"
+  ): TypedContractMethod<
+    [trader: AddressLike, call_data: BytesLike],
+    [string],
+    "payable"
+  >;
+  getFunction(
+    nameOrSignature: "delegations"
+  ): TypedContractMethod<[arg0: AddressLike], [string], "view">;
+  getFunction(
+    nameOrSignature: "executeLimitOrder"
+  ): TypedContractMethod<
+    [
+      _orderType: BigNumberish,
+      _trader: AddressLike,
+      _pairIndex: BigNumberish,
+      _index: BigNumberish,
+      priceUpdateData: BytesLike[]
+    ],
+    [void],
+    "payable"
+  >;
+  getFunction(
+    nameOrSignature: "executeMarketOrders"
+  ): TypedContractMethod<
+    [orderId: BigNumberish[], priceUpdateData: BytesLike[]],
+    [void],
+    "payable"
+  >;
+  getFunction(
+    nameOrSignature: "initialize"
+  ): TypedContractMethod<
+    [_storageT: AddressLike, _pairInfos: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "isOperator"
+  ): TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "limitOrdersTimelock"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "openTrade"
+  ): TypedContractMethod<
+    [
+      t: ITradingStorage.TradeStruct,
+      _type: BigNumberish,
+      _slippageP: BigNumberish
+    ],
+    [bigint],
+    "payable"
+  >;
+  getFunction(
+    nameOrSignature: "operator"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "pairInfos"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "pause"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "paused"
+  ): TypedContractMethod<[], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "removeDelegate"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setDelegate"
+  ): TypedContractMethod<[delegate: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setLimitOrdersTimelock"
+  ): TypedContractMethod<[_blocks: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setMarketExecFeeReciever"
+  ): TypedContractMethod<[_reciever: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "storageT"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "unpause"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "updateMargin"
+  ): TypedContractMethod<
+    [
+      _pairIndex: BigNumberish,
+      _index: BigNumberish,
+      _type: BigNumberish,
+      _amount: BigNumberish,
+      priceUpdateData: BytesLike[]
+    ],
+    [bigint],
+    "payable"
+  >;
+  getFunction(
+    nameOrSignature: "updateOpenLimitOrder"
+  ): TypedContractMethod<
+    [
+      _pairIndex: BigNumberish,
+      _index: BigNumberish,
+      _price: BigNumberish,
+      _slippageP: BigNumberish,
+      _tp: BigNumberish,
+      _sl: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "updateOperator"
+  ): TypedContractMethod<
+    [_operator: AddressLike, _isOperator: boolean],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "updateTpAndSl"
+  ): TypedContractMethod<
+    [
+      _pairIndex: BigNumberish,
+      _index: BigNumberish,
+      _newSl: BigNumberish,
+      _newTP: BigNumberish,
+      priceUpdateData: BytesLike[]
+    ],
+    [void],
+    "payable"
+  >;
+
+  getEvent(
+    key: "Initialized"
+  ): TypedContractEvent<
+    InitializedEvent.InputTuple,
+    InitializedEvent.OutputTuple,
+    InitializedEvent.OutputObject
+  >;
+  getEvent(
+    key: "LimitOrderInitiated"
+  ): TypedContractEvent<
+    LimitOrderInitiatedEvent.InputTuple,
+    LimitOrderInitiatedEvent.OutputTuple,
+    LimitOrderInitiatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "MarginUpdated"
+  ): TypedContractEvent<
+    MarginUpdatedEvent.InputTuple,
+    MarginUpdatedEvent.OutputTuple,
+    MarginUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "MarketOrderInitiated"
+  ): TypedContractEvent<
+    MarketOrderInitiatedEvent.InputTuple,
+    MarketOrderInitiatedEvent.OutputTuple,
+    MarketOrderInitiatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "NumberUpdated"
+  ): TypedContractEvent<
+    NumberUpdatedEvent.InputTuple,
+    NumberUpdatedEvent.OutputTuple,
+    NumberUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OpenLimitCanceled"
+  ): TypedContractEvent<
+    OpenLimitCanceledEvent.InputTuple,
+    OpenLimitCanceledEvent.OutputTuple,
+    OpenLimitCanceledEvent.OutputObject
+  >;
+  getEvent(
+    key: "OpenLimitPlaced"
+  ): TypedContractEvent<
+    OpenLimitPlacedEvent.InputTuple,
+    OpenLimitPlacedEvent.OutputTuple,
+    OpenLimitPlacedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OpenLimitUpdated"
+  ): TypedContractEvent<
+    OpenLimitUpdatedEvent.InputTuple,
+    OpenLimitUpdatedEvent.OutputTuple,
+    OpenLimitUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OperatorUpdated"
+  ): TypedContractEvent<
+    OperatorUpdatedEvent.InputTuple,
+    OperatorUpdatedEvent.OutputTuple,
+    OperatorUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "Paused"
+  ): TypedContractEvent<
+    PausedEvent.InputTuple,
+    PausedEvent.OutputTuple,
+    PausedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SlUpdateInitiated"
+  ): TypedContractEvent<
+    SlUpdateInitiatedEvent.InputTuple,
+    SlUpdateInitiatedEvent.OutputTuple,
+    SlUpdateInitiatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SlUpdated"
+  ): TypedContractEvent<
+    SlUpdatedEvent.InputTuple,
+    SlUpdatedEvent.OutputTuple,
+    SlUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "TpUpdated"
+  ): TypedContractEvent<
+    TpUpdatedEvent.InputTuple,
+    TpUpdatedEvent.OutputTuple,
+    TpUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "Unpaused"
+  ): TypedContractEvent<
+    UnpausedEvent.InputTuple,
+    UnpausedEvent.OutputTuple,
+    UnpausedEvent.OutputObject
+  >;
+
+  filters: {
+    "Initialized(uint8)": TypedContractEvent<
+      InitializedEvent.InputTuple,
+      InitializedEvent.OutputTuple,
+      InitializedEvent.OutputObject
+    >;
+    Initialized: TypedContractEvent<
+      InitializedEvent.InputTuple,
+      InitializedEvent.OutputTuple,
+      InitializedEvent.OutputObject
+    >;
+
+    "LimitOrderInitiated(address,uint256,uint256,uint256)": TypedContractEvent<
+      LimitOrderInitiatedEvent.InputTuple,
+      LimitOrderInitiatedEvent.OutputTuple,
+      LimitOrderInitiatedEvent.OutputObject
+    >;
+    LimitOrderInitiated: TypedContractEvent<
+      LimitOrderInitiatedEvent.InputTuple,
+      LimitOrderInitiatedEvent.OutputTuple,
+      LimitOrderInitiatedEvent.OutputObject
+    >;
+
+    "MarginUpdated(address,uint256,uint256,uint8,tuple,uint256,uint256,uint256)": TypedContractEvent<
+      MarginUpdatedEvent.InputTuple,
+      MarginUpdatedEvent.OutputTuple,
+      MarginUpdatedEvent.OutputObject
+    >;
+    MarginUpdated: TypedContractEvent<
+      MarginUpdatedEvent.InputTuple,
+      MarginUpdatedEvent.OutputTuple,
+      MarginUpdatedEvent.OutputObject
+    >;
+
+    "MarketOrderInitiated(address,uint256,bool,uint256,uint256,bool)": TypedContractEvent<
+      MarketOrderInitiatedEvent.InputTuple,
+      MarketOrderInitiatedEvent.OutputTuple,
+      MarketOrderInitiatedEvent.OutputObject
+    >;
+    MarketOrderInitiated: TypedContractEvent<
+      MarketOrderInitiatedEvent.InputTuple,
+      MarketOrderInitiatedEvent.OutputTuple,
+      MarketOrderInitiatedEvent.OutputObject
+    >;
+
+    "NumberUpdated(string,uint256)": TypedContractEvent<
+      NumberUpdatedEvent.InputTuple,
+      NumberUpdatedEvent.OutputTuple,
+      NumberUpdatedEvent.OutputObject
+    >;
+    NumberUpdated: TypedContractEvent<
+      NumberUpdatedEvent.InputTuple,
+      NumberUpdatedEvent.OutputTuple,
+      NumberUpdatedEvent.OutputObject
+    >;
+
+    "OpenLimitCanceled(address,uint256,uint256,uint256,uint256)": TypedContractEvent<
+      OpenLimitCanceledEvent.InputTuple,
+      OpenLimitCanceledEvent.OutputTuple,
+      OpenLimitCanceledEvent.OutputObject
+    >;
+    OpenLimitCanceled: TypedContractEvent<
+      OpenLimitCanceledEvent.InputTuple,
+      OpenLimitCanceledEvent.OutputTuple,
+      OpenLimitCanceledEvent.OutputObject
+    >;
+
+    "OpenLimitPlaced(address,uint256,uint256,bool,uint256,uint256,uint8,uint256,uint256)": TypedContractEvent<
+      OpenLimitPlacedEvent.InputTuple,
+      OpenLimitPlacedEvent.OutputTuple,
+      OpenLimitPlacedEvent.OutputObject
+    >;
+    OpenLimitPlaced: TypedContractEvent<
+      OpenLimitPlacedEvent.InputTuple,
+      OpenLimitPlacedEvent.OutputTuple,
+      OpenLimitPlacedEvent.OutputObject
+    >;
+
+    "OpenLimitUpdated(address,uint256,uint256,uint256,uint256,uint256,uint256)": TypedContractEvent<
+      OpenLimitUpdatedEvent.InputTuple,
+      OpenLimitUpdatedEvent.OutputTuple,
+      OpenLimitUpdatedEvent.OutputObject
+    >;
+    OpenLimitUpdated: TypedContractEvent<
+      OpenLimitUpdatedEvent.InputTuple,
+      OpenLimitUpdatedEvent.OutputTuple,
+      OpenLimitUpdatedEvent.OutputObject
+    >;
+
+    "OperatorUpdated(address,bool)": TypedContractEvent<
+      OperatorUpdatedEvent.InputTuple,
+      OperatorUpdatedEvent.OutputTuple,
+      OperatorUpdatedEvent.OutputObject
+    >;
+    OperatorUpdated: TypedContractEvent<
+      OperatorUpdatedEvent.InputTuple,
+      OperatorUpdatedEvent.OutputTuple,
+      OperatorUpdatedEvent.OutputObject
+    >;
+
+    "Paused(address)": TypedContractEvent<
+      PausedEvent.InputTuple,
+      PausedEvent.OutputTuple,
+      PausedEvent.OutputObject
+    >;
+    Paused: TypedContractEvent<
+      PausedEvent.InputTuple,
+      PausedEvent.OutputTuple,
+      PausedEvent.OutputObject
+    >;
+
+    "SlUpdateInitiated(address,uint256,uint256,uint256,uint256,uint256)": TypedContractEvent<
+      SlUpdateInitiatedEvent.InputTuple,
+      SlUpdateInitiatedEvent.OutputTuple,
+      SlUpdateInitiatedEvent.OutputObject
+    >;
+    SlUpdateInitiated: TypedContractEvent<
+      SlUpdateInitiatedEvent.InputTuple,
+      SlUpdateInitiatedEvent.OutputTuple,
+      SlUpdateInitiatedEvent.OutputObject
+    >;
+
+    "SlUpdated(address,uint256,uint256,uint256,uint256)": TypedContractEvent<
+      SlUpdatedEvent.InputTuple,
+      SlUpdatedEvent.OutputTuple,
+      SlUpdatedEvent.OutputObject
+    >;
+    SlUpdated: TypedContractEvent<
+      SlUpdatedEvent.InputTuple,
+      SlUpdatedEvent.OutputTuple,
+      SlUpdatedEvent.OutputObject
+    >;
+
+    "TpUpdated(address,uint256,uint256,uint256,uint256)": TypedContractEvent<
+      TpUpdatedEvent.InputTuple,
+      TpUpdatedEvent.OutputTuple,
+      TpUpdatedEvent.OutputObject
+    >;
+    TpUpdated: TypedContractEvent<
+      TpUpdatedEvent.InputTuple,
+      TpUpdatedEvent.OutputTuple,
+      TpUpdatedEvent.OutputObject
+    >;
+
+    "Unpaused(address)": TypedContractEvent<
+      UnpausedEvent.InputTuple,
+      UnpausedEvent.OutputTuple,
+      UnpausedEvent.OutputObject
+    >;
+    Unpaused: TypedContractEvent<
+      UnpausedEvent.InputTuple,
+      UnpausedEvent.OutputTuple,
+      UnpausedEvent.OutputObject
+    >;
+  };
+}
@@ -0,0 +1,2341 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "./common";
+
+export declare namespace ITradingStorage {
+  export type OpenLimitOrderStruct = {
+    trader: AddressLike;
+    pairIndex: BigNumberish;
+    index: BigNumberish;
+    positionSize: BigNumberish;
+    buy: boolean;
+    leverage: BigNumberish;
+    tp: BigNumberish;
+    sl: BigNumberish;
+    price: BigNumberish;
+    slippageP: BigNumberish;
+    block: BigNumberish;
+    executionFee: BigNumberish;
+  };
+
+  export type OpenLimitOrderStructOutput = [
+    trader: string,
+    pairIndex: bigint,
+    index: bigint,
+    positionSize: bigint,
+    buy: boolean,
+    leverage: bigint,
+    tp: bigint,
+    sl: bigint,
+    price: bigint,
+    slippageP: bigint,
+    block: bigint,
+    executionFee: bigint
+  ] & {
+    trader: string;
+    pairIndex: bigint;
+    index: bigint;
+    positionSize: bigint;
+    buy: boolean;
+    leverage: bigint;
+    tp: bigint;
+    sl: bigint;
+    price: bigint;
+    slippageP: bigint;
+    block: bigint;
+    executionFee: bigint;
+  };
+
+  export type TradeStruct = {
+    trader: AddressLike;
+    pairIndex: BigNumberish;
+    index: BigNumberish;
+    initialPosToken: BigNumberish;
+    positionSizeUSDC: BigNumberish;
+    openPrice: BigNumberish;
+    buy: boolean;
+    leverage: BigNumberish;
+    tp: BigNumberish;
+    sl: BigNumberish;
+    timestamp: BigNumberish;
+  };
+
+  export type TradeStructOutput = [
+    trader: string,
+    pairIndex: bigint,
+    index: bigint,
+    initialPosToken: bigint,
+    positionSizeUSDC: bigint,
+    openPrice: bigint,
+    buy: boolean,
+    leverage: bigint,
+    tp: bigint,
+    sl: bigint,
+    timestamp: bigint
+  ] & {
+    trader: string;
+    pairIndex: bigint;
+    index: bigint;
+    initialPosToken: bigint;
+    positionSizeUSDC: bigint;
+    openPrice: bigint;
+    buy: boolean;
+    leverage: bigint;
+    tp: bigint;
+    sl: bigint;
+    timestamp: bigint;
+  };
+
+  export type TradeInfoStruct = {
+    openInterestUSDC: BigNumberish;
+    tpLastUpdated: BigNumberish;
+    slLastUpdated: BigNumberish;
+    beingMarketClosed: boolean;
+    lossProtection: BigNumberish;
+  };
+
+  export type TradeInfoStructOutput = [
+    openInterestUSDC: bigint,
+    tpLastUpdated: bigint,
+    slLastUpdated: bigint,
+    beingMarketClosed: boolean,
+    lossProtection: bigint
+  ] & {
+    openInterestUSDC: bigint;
+    tpLastUpdated: bigint;
+    slLastUpdated: bigint;
+    beingMarketClosed: boolean;
+    lossProtection: bigint;
+  };
+
+  export type PendingLimitOrderStruct = {
+    trader: AddressLike;
+    pairIndex: BigNumberish;
+    index: BigNumberish;
+    orderType: BigNumberish;
+  };
+
+  export type PendingLimitOrderStructOutput = [
+    trader: string,
+    pairIndex: bigint,
+    index: bigint,
+    orderType: bigint
+  ] & { trader: string; pairIndex: bigint; index: bigint; orderType: bigint };
+
+  export type PendingMarketOrderStruct = {
+    trade: ITradingStorage.TradeStruct;
+    block: BigNumberish;
+    wantedPrice: BigNumberish;
+    slippageP: BigNumberish;
+  };
+
+  export type PendingMarketOrderStructOutput = [
+    trade: ITradingStorage.TradeStructOutput,
+    block: bigint,
+    wantedPrice: bigint,
+    slippageP: bigint
+  ] & {
+    trade: ITradingStorage.TradeStructOutput;
+    block: bigint;
+    wantedPrice: bigint;
+    slippageP: bigint;
+  };
+}
+
+export interface TradingStorageInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "addTradingContract"
+      | "applyReferralAndPnlFee"
+      | "blockOI"
+      | "callbacks"
+      | "claimFees"
+      | "claimRebate"
+      | "decrementFees"
+      | "dev"
+      | "devFeesUSDC"
+      | "firstEmptyOpenLimitIndex"
+      | "firstEmptyTradeIndex"
+      | "forceUnregisterPendingMarketOrder"
+      | "getOpenLimitOrder"
+      | "getOpenLimitOrders"
+      | "getPendingOrderIds"
+      | "getUsdOI"
+      | "gov"
+      | "govFeesUSDC"
+      | "govTreasury"
+      | "handleDevGovFees"
+      | "hasOpenLimitOrder"
+      | "incrementClosingFees"
+      | "initialize"
+      | "isTradingContract"
+      | "isValidOI"
+      | "maxOpenInterest"
+      | "maxPendingMarketOrders"
+      | "maxTradesPerPair"
+      | "openInterestUSDC"
+      | "openLimitOrderIds"
+      | "openLimitOrders"
+      | "openLimitOrdersCount"
+      | "openTrades"
+      | "openTradesCount"
+      | "openTradesInfo"
+      | "pairLongOI"
+      | "pairOI"
+      | "pairShortOI"
+      | "pairTraders"
+      | "pairTradersArray"
+      | "pairTradersId"
+      | "pendingMarketCloseCount"
+      | "pendingMarketOpenCount"
+      | "pendingOrderIds"
+      | "pendingOrderIdsCount"
+      | "priceAggregator"
+      | "rebates"
+      | "referral"
+      | "registerPartialTrade"
+      | "removeTradingContract"
+      | "reqIDpendingLimitOrder"
+      | "reqIDpendingMarketOrder"
+      | "requestGov"
+      | "requestedGov"
+      | "setDevAndGovTreasury"
+      | "setGov"
+      | "setMaxPendingMarketOrders"
+      | "setMaxTradesPerPair"
+      | "setSuiteContracts"
+      | "setTvlCap"
+      | "storeOpenLimitOrder"
+      | "storePendingLimitOrder"
+      | "storePendingMarketOrder"
+      | "storeTrade"
+      | "totalOI"
+      | "trading"
+      | "transferUSDC"
+      | "tvlCap"
+      | "unregisterOpenLimitOrder"
+      | "unregisterPendingLimitOrder"
+      | "unregisterPendingMarketOrder"
+      | "unregisterTrade"
+      | "updateOpenLimitOrder"
+      | "updateSl"
+      | "updateTp"
+      | "updateTrade"
+      | "usdOI"
+      | "usdc"
+      | "vaultManager"
+      | "walletOI"
+      | "withinExposureLimits"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "AddressUpdated"
+      | "FeesCharged"
+      | "FeesClaimed"
+      | "FeesDecremented"
+      | "Initialized"
+      | "MarketOpenCanceled"
+      | "NumberUpdated"
+      | "NumberUpdatedPair"
+      | "OIUpdated"
+      | "RebateClaimed"
+      | "SupportedTokenAdded"
+      | "TradeReferred"
+      | "TradingContractAdded"
+      | "TradingContractRemoved"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "addTradingContract",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "applyReferralAndPnlFee",
+    values: [
+      AddressLike,
+      BigNumberish,
+      BigNumberish,
+      boolean,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "blockOI",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "callbacks", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "claimFees",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "claimRebate",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "decrementFees",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "dev", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "devFeesUSDC",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "firstEmptyOpenLimitIndex",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "firstEmptyTradeIndex",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "forceUnregisterPendingMarketOrder",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getOpenLimitOrder",
+    values: [AddressLike, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getOpenLimitOrders",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getPendingOrderIds",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(functionFragment: "getUsdOI", values?: undefined): string;
+  encodeFunctionData(functionFragment: "gov", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "govFeesUSDC",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "govTreasury",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "handleDevGovFees",
+    values: [AddressLike, BigNumberish, BigNumberish, boolean, boolean, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hasOpenLimitOrder",
+    values: [AddressLike, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "incrementClosingFees",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "initialize",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isTradingContract",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isValidOI",
+    values: [BigNumberish, boolean, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "maxOpenInterest",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "maxPendingMarketOrders",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "maxTradesPerPair",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "openInterestUSDC",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "openLimitOrderIds",
+    values: [AddressLike, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "openLimitOrders",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "openLimitOrdersCount",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "openTrades",
+    values: [AddressLike, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "openTradesCount",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "openTradesInfo",
+    values: [AddressLike, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "pairLongOI",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "pairOI",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "pairShortOI",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "pairTraders",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "pairTradersArray",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "pairTradersId",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "pendingMarketCloseCount",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "pendingMarketOpenCount",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "pendingOrderIds",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "pendingOrderIdsCount",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "priceAggregator",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "rebates",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(functionFragment: "referral", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "registerPartialTrade",
+    values: [AddressLike, BigNumberish, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "removeTradingContract",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "reqIDpendingLimitOrder",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "reqIDpendingMarketOrder",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestGov",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestedGov",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setDevAndGovTreasury",
+    values: [AddressLike, AddressLike]
+  ): string;
+  encodeFunctionData(functionFragment: "setGov", values: [AddressLike]): string;
+  encodeFunctionData(
+    functionFragment: "setMaxPendingMarketOrders",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setMaxTradesPerPair",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setSuiteContracts",
+    values: [
+      AddressLike,
+      AddressLike,
+      AddressLike,
+      AddressLike,
+      AddressLike,
+      AddressLike
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setTvlCap",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "storeOpenLimitOrder",
+    values: [ITradingStorage.OpenLimitOrderStruct]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "storePendingLimitOrder",
+    values: [ITradingStorage.PendingLimitOrderStruct, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "storePendingMarketOrder",
+    values: [ITradingStorage.PendingMarketOrderStruct, BigNumberish, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "storeTrade",
+    values: [
+      ITradingStorage.TradeStruct,
+      ITradingStorage.TradeInfoStruct,
+      boolean
+    ]
+  ): string;
+  encodeFunctionData(functionFragment: "totalOI", values?: undefined): string;
+  encodeFunctionData(functionFragment: "trading", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "transferUSDC",
+    values: [AddressLike, AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "tvlCap", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "unregisterOpenLimitOrder",
+    values: [AddressLike, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "unregisterPendingLimitOrder",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "unregisterPendingMarketOrder",
+    values: [BigNumberish, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "unregisterTrade",
+    values: [AddressLike, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "updateOpenLimitOrder",
+    values: [ITradingStorage.OpenLimitOrderStruct]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "updateSl",
+    values: [AddressLike, BigNumberish, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "updateTp",
+    values: [AddressLike, BigNumberish, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "updateTrade",
+    values: [ITradingStorage.TradeStruct]
+  ): string;
+  encodeFunctionData(functionFragment: "usdOI", values: [BigNumberish]): string;
+  encodeFunctionData(functionFragment: "usdc", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "vaultManager",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "walletOI",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "withinExposureLimits",
+    values: [AddressLike, BigNumberish, BigNumberish, boolean]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "addTradingContract",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "applyReferralAndPnlFee",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "blockOI", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "callbacks", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "claimFees", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "claimRebate",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "decrementFees",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "dev", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "devFeesUSDC",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "firstEmptyOpenLimitIndex",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "firstEmptyTradeIndex",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "forceUnregisterPendingMarketOrder",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getOpenLimitOrder",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getOpenLimitOrders",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getPendingOrderIds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getUsdOI", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "gov", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "govFeesUSDC",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "govTreasury",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "handleDevGovFees",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "hasOpenLimitOrder",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "incrementClosingFees",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "initialize", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "isTradingContract",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "isValidOI", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "maxOpenInterest",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "maxPendingMarketOrders",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "maxTradesPerPair",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "openInterestUSDC",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "openLimitOrderIds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "openLimitOrders",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "openLimitOrdersCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "openTrades", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "openTradesCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "openTradesInfo",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "pairLongOI", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "pairOI", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "pairShortOI",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "pairTraders",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "pairTradersArray",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "pairTradersId",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "pendingMarketCloseCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "pendingMarketOpenCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "pendingOrderIds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "pendingOrderIdsCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "priceAggregator",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "rebates", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "referral", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "registerPartialTrade",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "removeTradingContract",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "reqIDpendingLimitOrder",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "reqIDpendingMarketOrder",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "requestGov", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "requestedGov",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setDevAndGovTreasury",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "setGov", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "setMaxPendingMarketOrders",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setMaxTradesPerPair",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setSuiteContracts",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "setTvlCap", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "storeOpenLimitOrder",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "storePendingLimitOrder",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "storePendingMarketOrder",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "storeTrade", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "totalOI", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "trading", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "transferUSDC",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "tvlCap", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "unregisterOpenLimitOrder",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "unregisterPendingLimitOrder",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "unregisterPendingMarketOrder",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "unregisterTrade",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "updateOpenLimitOrder",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "updateSl", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "updateTp", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "updateTrade",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "usdOI", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "usdc", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "vaultManager",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "walletOI", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "withinExposureLimits",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace AddressUpdatedEvent {
+  export type InputTuple = [name: string, a: AddressLike];
+  export type OutputTuple = [name: string, a: string];
+  export interface OutputObject {
+    name: string;
+    a: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace FeesChargedEvent {
+  export type InputTuple = [
+    _trader: AddressLike,
+    _pairIndex: BigNumberish,
+    _buy: boolean,
+    fee: BigNumberish
+  ];
+  export type OutputTuple = [
+    _trader: string,
+    _pairIndex: bigint,
+    _buy: boolean,
+    fee: bigint
+  ];
+  export interface OutputObject {
+    _trader: string;
+    _pairIndex: bigint;
+    _buy: boolean;
+    fee: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace FeesClaimedEvent {
+  export type InputTuple = [
+    govTreasury: AddressLike,
+    govFees: BigNumberish,
+    devTreasury: AddressLike,
+    devFees: BigNumberish
+  ];
+  export type OutputTuple = [
+    govTreasury: string,
+    govFees: bigint,
+    devTreasury: string,
+    devFees: bigint
+  ];
+  export interface OutputObject {
+    govTreasury: string;
+    govFees: bigint;
+    devTreasury: string;
+    devFees: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace FeesDecrementedEvent {
+  export type InputTuple = [devAmount: BigNumberish, govAmount: BigNumberish];
+  export type OutputTuple = [devAmount: bigint, govAmount: bigint];
+  export interface OutputObject {
+    devAmount: bigint;
+    govAmount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace InitializedEvent {
+  export type InputTuple = [version: BigNumberish];
+  export type OutputTuple = [version: bigint];
+  export interface OutputObject {
+    version: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace MarketOpenCanceledEvent {
+  export type InputTuple = [
+    orderId: BigNumberish,
+    trader: AddressLike,
+    pairIndex: BigNumberish
+  ];
+  export type OutputTuple = [
+    orderId: bigint,
+    trader: string,
+    pairIndex: bigint
+  ];
+  export interface OutputObject {
+    orderId: bigint;
+    trader: string;
+    pairIndex: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace NumberUpdatedEvent {
+  export type InputTuple = [name: string, value: BigNumberish];
+  export type OutputTuple = [name: string, value: bigint];
+  export interface OutputObject {
+    name: string;
+    value: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace NumberUpdatedPairEvent {
+  export type InputTuple = [
+    name: string,
+    pairIndex: BigNumberish,
+    value: BigNumberish
+  ];
+  export type OutputTuple = [name: string, pairIndex: bigint, value: bigint];
+  export interface OutputObject {
+    name: string;
+    pairIndex: bigint;
+    value: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OIUpdatedEvent {
+  export type InputTuple = [
+    _open: boolean,
+    _long: boolean,
+    _pairIndex: BigNumberish,
+    _leveragedPos: BigNumberish,
+    _price: BigNumberish
+  ];
+  export type OutputTuple = [
+    _open: boolean,
+    _long: boolean,
+    _pairIndex: bigint,
+    _leveragedPos: bigint,
+    _price: bigint
+  ];
+  export interface OutputObject {
+    _open: boolean;
+    _long: boolean;
+    _pairIndex: bigint;
+    _leveragedPos: bigint;
+    _price: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RebateClaimedEvent {
+  export type InputTuple = [referrer: AddressLike, amount: BigNumberish];
+  export type OutputTuple = [referrer: string, amount: bigint];
+  export interface OutputObject {
+    referrer: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SupportedTokenAddedEvent {
+  export type InputTuple = [a: AddressLike];
+  export type OutputTuple = [a: string];
+  export interface OutputObject {
+    a: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TradeReferredEvent {
+  export type InputTuple = [
+    _trader: AddressLike,
+    _referrer: AddressLike,
+    _leveragedPosition: BigNumberish,
+    _traderFeePostDiscount: BigNumberish,
+    _startingFees: BigNumberish,
+    _referrerRebate: BigNumberish,
+    _pairIndex: BigNumberish
+  ];
+  export type OutputTuple = [
+    _trader: string,
+    _referrer: string,
+    _leveragedPosition: bigint,
+    _traderFeePostDiscount: bigint,
+    _startingFees: bigint,
+    _referrerRebate: bigint,
+    _pairIndex: bigint
+  ];
+  export interface OutputObject {
+    _trader: string;
+    _referrer: string;
+    _leveragedPosition: bigint;
+    _traderFeePostDiscount: bigint;
+    _startingFees: bigint;
+    _referrerRebate: bigint;
+    _pairIndex: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TradingContractAddedEvent {
+  export type InputTuple = [a: AddressLike];
+  export type OutputTuple = [a: string];
+  export interface OutputObject {
+    a: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TradingContractRemovedEvent {
+  export type InputTuple = [a: AddressLike];
+  export type OutputTuple = [a: string];
+  export interface OutputObject {
+    a: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface TradingStorage extends BaseContract {
+  connect(runner?: ContractRunner | null): TradingStorage;
+  waitForDeployment(): Promise<this>;
+
+  interface: TradingStorageInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  addTradingContract: TypedContractMethod<
+    [__trading: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  applyReferralAndPnlFee: TypedContractMethod<
+    [
+      _trader: AddressLike,
+      _fees: BigNumberish,
+      _leveragedPosition: BigNumberish,
+      _isPnl: boolean,
+      _pairIndex: BigNumberish,
+      _percentProfit: BigNumberish,
+      _collateral: BigNumberish
+    ],
+    [[bigint, bigint]],
+    "nonpayable"
+  >;
+
+  blockOI: TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  callbacks: TypedContractMethod<[], [string], "view">;
+
+  claimFees: TypedContractMethod<
+    [_devAmount: BigNumberish, _govAmount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  claimRebate: TypedContractMethod<[], [void], "nonpayable">;
+
+  decrementFees: TypedContractMethod<
+    [_devAmount: BigNumberish, _govAmount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  dev: TypedContractMethod<[], [string], "view">;
+
+  devFeesUSDC: TypedContractMethod<[], [bigint], "view">;
+
+  firstEmptyOpenLimitIndex: TypedContractMethod<
+    [trader: AddressLike, pairIndex: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  firstEmptyTradeIndex: TypedContractMethod<
+    [trader: AddressLike, pairIndex: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  forceUnregisterPendingMarketOrder: TypedContractMethod<
+    [_id: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  getOpenLimitOrder: TypedContractMethod<
+    [_trader: AddressLike, _pairIndex: BigNumberish, _index: BigNumberish],
+    [ITradingStorage.OpenLimitOrderStructOutput],
+    "view"
+  >;
+
+  getOpenLimitOrders: TypedContractMethod<
+    [],
+    [ITradingStorage.OpenLimitOrderStructOutput[]],
+    "view"
+  >;
+
+  getPendingOrderIds: TypedContractMethod<
+    [_trader: AddressLike],
+    [bigint[]],
+    "view"
+  >;
+
+  getUsdOI: TypedContractMethod<[], [[bigint, bigint]], "view">;
+
+  gov: TypedContractMethod<[], [string], "view">;
+
+  govFeesUSDC: TypedContractMethod<[], [bigint], "view">;
+
+  govTreasury: TypedContractMethod<[], [string], "view">;
+
+  handleDevGovFees: TypedContractMethod<
+    [
+      _trader: AddressLike,
+      _pairIndex: BigNumberish,
+      _leveragedPositionSize: BigNumberish,
+      _usdc: boolean,
+      _fullFee: boolean,
+      _buy: boolean
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  hasOpenLimitOrder: TypedContractMethod<
+    [trader: AddressLike, pairIndex: BigNumberish, index: BigNumberish],
+    [boolean],
+    "view"
+  >;
+
+  incrementClosingFees: TypedContractMethod<
+    [devFees: BigNumberish, govFees: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  initialize: TypedContractMethod<[], [void], "nonpayable">;
+
+  isTradingContract: TypedContractMethod<
+    [arg0: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  isValidOI: TypedContractMethod<
+    [_pairIndex: BigNumberish, buy: boolean, leveragedPos: BigNumberish],
+    [boolean],
+    "view"
+  >;
+
+  maxOpenInterest: TypedContractMethod<[], [bigint], "view">;
+
+  maxPendingMarketOrders: TypedContractMethod<[], [bigint], "view">;
+
+  maxTradesPerPair: TypedContractMethod<[], [bigint], "view">;
+
+  openInterestUSDC: TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  openLimitOrderIds: TypedContractMethod<
+    [arg0: AddressLike, arg1: BigNumberish, arg2: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  openLimitOrders: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [
+        string,
+        bigint,
+        bigint,
+        bigint,
+        boolean,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint
+      ] & {
+        trader: string;
+        pairIndex: bigint;
+        index: bigint;
+        positionSize: bigint;
+        buy: boolean;
+        leverage: bigint;
+        tp: bigint;
+        sl: bigint;
+        price: bigint;
+        slippageP: bigint;
+        block: bigint;
+        executionFee: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  openLimitOrdersCount: TypedContractMethod<
+    [arg0: AddressLike, arg1: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  openTrades: TypedContractMethod<
+    [_trader: AddressLike, _pairIndex: BigNumberish, _index: BigNumberish],
+    [ITradingStorage.TradeStructOutput],
+    "view"
+  >;
+
+  openTradesCount: TypedContractMethod<
+    [_trader: AddressLike, _pairIndex: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  openTradesInfo: TypedContractMethod<
+    [_trader: AddressLike, _pairIndex: BigNumberish, _index: BigNumberish],
+    [ITradingStorage.TradeInfoStructOutput],
+    "view"
+  >;
+
+  pairLongOI: TypedContractMethod<[_pairIndex: BigNumberish], [bigint], "view">;
+
+  pairOI: TypedContractMethod<[_pairIndex: BigNumberish], [bigint], "view">;
+
+  pairShortOI: TypedContractMethod<
+    [_pairIndex: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  pairTraders: TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  pairTradersArray: TypedContractMethod<
+    [_pairIndex: BigNumberish],
+    [string[]],
+    "view"
+  >;
+
+  pairTradersId: TypedContractMethod<
+    [arg0: AddressLike, arg1: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  pendingMarketCloseCount: TypedContractMethod<
+    [arg0: AddressLike, arg1: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  pendingMarketOpenCount: TypedContractMethod<
+    [arg0: AddressLike, arg1: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  pendingOrderIds: TypedContractMethod<
+    [arg0: AddressLike, arg1: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  pendingOrderIdsCount: TypedContractMethod<
+    [_trader: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  priceAggregator: TypedContractMethod<[], [string], "view">;
+
+  rebates: TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+
+  referral: TypedContractMethod<[], [string], "view">;
+
+  registerPartialTrade: TypedContractMethod<
+    [
+      trader: AddressLike,
+      pairIndex: BigNumberish,
+      index: BigNumberish,
+      _amountReduced: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  removeTradingContract: TypedContractMethod<
+    [__trading: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  reqIDpendingLimitOrder: TypedContractMethod<
+    [orderId: BigNumberish],
+    [ITradingStorage.PendingLimitOrderStructOutput],
+    "view"
+  >;
+
+  reqIDpendingMarketOrder: TypedContractMethod<
+    [orderId: BigNumberish],
+    [ITradingStorage.PendingMarketOrderStructOutput],
+    "view"
+  >;
+
+  requestGov: TypedContractMethod<[_gov: AddressLike], [void], "nonpayable">;
+
+  requestedGov: TypedContractMethod<[], [string], "view">;
+
+  setDevAndGovTreasury: TypedContractMethod<
+    [_dev: AddressLike, _govTreasury: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  setGov: TypedContractMethod<[_newGov: AddressLike], [void], "nonpayable">;
+
+  setMaxPendingMarketOrders: TypedContractMethod<
+    [_maxPendingMarketOrders: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setMaxTradesPerPair: TypedContractMethod<
+    [_maxTradesPerPair: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setSuiteContracts: TypedContractMethod<
+    [
+      _token: AddressLike,
+      _aggregrator: AddressLike,
+      _vaultManager: AddressLike,
+      _referral: AddressLike,
+      __trading: AddressLike,
+      __callbacks: AddressLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  setTvlCap: TypedContractMethod<[_newCap: BigNumberish], [void], "nonpayable">;
+
+  storeOpenLimitOrder: TypedContractMethod<
+    [o: ITradingStorage.OpenLimitOrderStruct],
+    [void],
+    "nonpayable"
+  >;
+
+  storePendingLimitOrder: TypedContractMethod<
+    [
+      _limitOrder: ITradingStorage.PendingLimitOrderStruct,
+      _orderId: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  storePendingMarketOrder: TypedContractMethod<
+    [
+      _order: ITradingStorage.PendingMarketOrderStruct,
+      _id: BigNumberish,
+      _open: boolean
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  storeTrade: TypedContractMethod<
+    [
+      _trade: ITradingStorage.TradeStruct,
+      _tradeInfo: ITradingStorage.TradeInfoStruct,
+      isPnl: boolean
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  totalOI: TypedContractMethod<[], [bigint], "view">;
+
+  trading: TypedContractMethod<[], [string], "view">;
+
+  transferUSDC: TypedContractMethod<
+    [_from: AddressLike, _to: AddressLike, _amount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  tvlCap: TypedContractMethod<[], [bigint], "view">;
+
+  unregisterOpenLimitOrder: TypedContractMethod<
+    [_trader: AddressLike, _pairIndex: BigNumberish, _index: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  unregisterPendingLimitOrder: TypedContractMethod<
+    [_order: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  unregisterPendingMarketOrder: TypedContractMethod<
+    [_id: BigNumberish, _open: boolean],
+    [void],
+    "nonpayable"
+  >;
+
+  unregisterTrade: TypedContractMethod<
+    [trader: AddressLike, pairIndex: BigNumberish, index: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  updateOpenLimitOrder: TypedContractMethod<
+    [_o: ITradingStorage.OpenLimitOrderStruct],
+    [void],
+    "nonpayable"
+  >;
+
+  updateSl: TypedContractMethod<
+    [
+      _trader: AddressLike,
+      _pairIndex: BigNumberish,
+      _index: BigNumberish,
+      _newSl: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  updateTp: TypedContractMethod<
+    [
+      _trader: AddressLike,
+      _pairIndex: BigNumberish,
+      _index: BigNumberish,
+      _newTp: BigNumberish
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  updateTrade: TypedContractMethod<
+    [_t: ITradingStorage.TradeStruct],
+    [void],
+    "nonpayable"
+  >;
+
+  usdOI: TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+
+  usdc: TypedContractMethod<[], [string], "view">;
+
+  vaultManager: TypedContractMethod<[], [string], "view">;
+
+  walletOI: TypedContractMethod<[_trader: AddressLike], [bigint], "view">;
+
+  withinExposureLimits: TypedContractMethod<
+    [
+      _trader: AddressLike,
+      _pairIndex: BigNumberish,
+      _leveragedPos: BigNumberish,
+      _buy: boolean
+    ],
+    [boolean],
+    "view"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "addTradingContract"
+  ): TypedContractMethod<[__trading: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "applyReferralAndPnlFee"
+  ): TypedContractMethod<
+    [
+      _trader: AddressLike,
+      _fees: BigNumberish,
+      _leveragedPosition: BigNumberish,
+      _isPnl: boolean,
+      _pairIndex: BigNumberish,
+      _percentProfit: BigNumberish,
+      _collateral: BigNumberish
+    ],
+    [[bigint, bigint]],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "blockOI"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "callbacks"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "claimFees"
+  ): TypedContractMethod<
+    [_devAmount: BigNumberish, _govAmount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "claimRebate"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "decrementFees"
+  ): TypedContractMethod<
+    [_devAmount: BigNumberish, _govAmount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "dev"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "devFeesUSDC"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "firstEmptyOpenLimitIndex"
+  ): TypedContractMethod<
+    [trader: AddressLike, pairIndex: BigNumberish],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "firstEmptyTradeIndex"
+  ): TypedContractMethod<
+    [trader: AddressLike, pairIndex: BigNumberish],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "forceUnregisterPendingMarketOrder"
+  ): TypedContractMethod<[_id: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "getOpenLimitOrder"
+  ): TypedContractMethod<
+    [_trader: AddressLike, _pairIndex: BigNumberish, _index: BigNumberish],
+    [ITradingStorage.OpenLimitOrderStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getOpenLimitOrders"
+  ): TypedContractMethod<
+    [],
+    [ITradingStorage.OpenLimitOrderStructOutput[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getPendingOrderIds"
+  ): TypedContractMethod<[_trader: AddressLike], [bigint[]], "view">;
+  getFunction(
+    nameOrSignature: "getUsdOI"
+  ): TypedContractMethod<[], [[bigint, bigint]], "view">;
+  getFunction(
+    nameOrSignature: "gov"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "govFeesUSDC"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "govTreasury"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "handleDevGovFees"
+  ): TypedContractMethod<
+    [
+      _trader: AddressLike,
+      _pairIndex: BigNumberish,
+      _leveragedPositionSize: BigNumberish,
+      _usdc: boolean,
+      _fullFee: boolean,
+      _buy: boolean
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "hasOpenLimitOrder"
+  ): TypedContractMethod<
+    [trader: AddressLike, pairIndex: BigNumberish, index: BigNumberish],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "incrementClosingFees"
+  ): TypedContractMethod<
+    [devFees: BigNumberish, govFees: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "initialize"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "isTradingContract"
+  ): TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "isValidOI"
+  ): TypedContractMethod<
+    [_pairIndex: BigNumberish, buy: boolean, leveragedPos: BigNumberish],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "maxOpenInterest"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "maxPendingMarketOrders"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "maxTradesPerPair"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "openInterestUSDC"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "openLimitOrderIds"
+  ): TypedContractMethod<
+    [arg0: AddressLike, arg1: BigNumberish, arg2: BigNumberish],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "openLimitOrders"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [
+        string,
+        bigint,
+        bigint,
+        bigint,
+        boolean,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint
+      ] & {
+        trader: string;
+        pairIndex: bigint;
+        index: bigint;
+        positionSize: bigint;
+        buy: boolean;
+        leverage: bigint;
+        tp: bigint;
+        sl: bigint;
+        price: bigint;
+        slippageP: bigint;
+        block: bigint;
+        executionFee: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "openLimitOrdersCount"
+  ): TypedContractMethod<
+    [arg0: AddressLike, arg1: BigNumberish],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "openTrades"
+  ): TypedContractMethod<
+    [_trader: AddressLike, _pairIndex: BigNumberish, _index: BigNumberish],
+    [ITradingStorage.TradeStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "openTradesCount"
+  ): TypedContractMethod<
+    [_trader: AddressLike, _pairIndex: BigNumberish],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "openTradesInfo"
+  ): TypedContractMethod<
+    [_trader: AddressLike, _pairIndex: BigNumberish, _index: BigNumberish],
+    [ITradingStorage.TradeInfoStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "pairLongOI"
+  ): TypedContractMethod<[_pairIndex: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "pairOI"
+  ): TypedContractMethod<[_pairIndex: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "pairShortOI"
+  ): TypedContractMethod<[_pairIndex: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "pairTraders"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [string],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "pairTradersArray"
+  ): TypedContractMethod<[_pairIndex: BigNumberish], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "pairTradersId"
+  ): TypedContractMethod<
+    [arg0: AddressLike, arg1: BigNumberish],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "pendingMarketCloseCount"
+  ): TypedContractMethod<
+    [arg0: AddressLike, arg1: BigNumberish],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "pendingMarketOpenCount"
+  ): TypedContractMethod<
+    [arg0: AddressLike, arg1: BigNumberish],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "pendingOrderIds"
+  ): TypedContractMethod<
+    [arg0: AddressLike, arg1: BigNumberish],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "pendingOrderIdsCount"
+  ): TypedContractMethod<[_trader: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "priceAggregator"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "rebates"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "referral"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "registerPartialTrade"
+  ): TypedContractMethod<
+    [
+      trader: AddressLike,
+      pairIndex: BigNumberish,
+      index: BigNumberish,
+      _amountReduced: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "removeTradingContract"
+  ): TypedContractMethod<[__trading: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "reqIDpendingLimitOrder"
+  ): TypedContractMethod<
+    [orderId: BigNumberish],
+    [ITradingStorage.PendingLimitOrderStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "reqIDpendingMarketOrder"
+  ): TypedContractMethod<
+    [orderId: BigNumberish],
+    [ITradingStorage.PendingMarketOrderStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "requestGov"
+  ): TypedContractMethod<[_gov: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "requestedGov"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "setDevAndGovTreasury"
+  ): TypedContractMethod<
+    [_dev: AddressLike, _govTreasury: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setGov"
+  ): TypedContractMethod<[_newGov: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setMaxPendingMarketOrders"
+  ): TypedContractMethod<
+    [_maxPendingMarketOrders: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setMaxTradesPerPair"
+  ): TypedContractMethod<
+    [_maxTradesPerPair: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setSuiteContracts"
+  ): TypedContractMethod<
+    [
+      _token: AddressLike,
+      _aggregrator: AddressLike,
+      _vaultManager: AddressLike,
+      _referral: AddressLike,
+      __trading: AddressLike,
+      __callbacks: AddressLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setTvlCap"
+  ): TypedContractMethod<[_newCap: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "storeOpenLimitOrder"
+  ): TypedContractMethod<
+    [o: ITradingStorage.OpenLimitOrderStruct],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "storePendingLimitOrder"
+  ): TypedContractMethod<
+    [
+      _limitOrder: ITradingStorage.PendingLimitOrderStruct,
+      _orderId: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "storePendingMarketOrder"
+  ): TypedContractMethod<
+    [
+      _order: ITradingStorage.PendingMarketOrderStruct,
+      _id: BigNumberish,
+      _open: boolean
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "storeTrade"
+  ): TypedContractMethod<
+    [
+      _trade: ITradingStorage.TradeStruct,
+      _tradeInfo: ITradingStorage.TradeInfoStruct,
+      isPnl: boolean
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "totalOI"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "trading"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "transferUSDC"
+  ): TypedContractMethod<
+    [_from: AddressLike, _to: AddressLike, _amount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "tvlCap"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "unregisterOpenLimitOrder"
+  ): TypedContractMethod<
+    [_trader: AddressLike, _pairIndex: BigNumberish, _index: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "unregisterPendingLimitOrder"
+  ): TypedContractMethod<[_order: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "unregisterPendingMarketOrder"
+  ): TypedContractMethod<
+    [_id: BigNumberish, _open: boolean],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "unregisterTrade"
+  ): TypedContractMethod<
+    [trader: AddressLike, pairIndex: BigNumberish, index: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "updateOpenLimitOrder"
+  ): TypedContractMethod<
+    [_o: ITradingStorage.OpenLimitOrderStruct],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "updateSl"
+  ): TypedContractMethod<
+    [
+      _trader: AddressLike,
+      _pairIndex: BigNumberish,
+      _index: BigNumberish,
+      _newSl: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "updateTp"
+  ): TypedContractMethod<
+    [
+      _trader: AddressLike,
+      _pairIndex: BigNumberish,
+      _index: BigNumberish,
+      _newTp: BigNumberish
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "updateTrade"
+  ): TypedContractMethod<
+    [_t: ITradingStorage.TradeStruct],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "usdOI"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "usdc"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "vaultManager"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "walletOI"
+  ): TypedContractMethod<[_trader: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "withinExposureLimits"
+  ): TypedContractMethod<
+    [
+      _trader: AddressLike,
+      _pairIndex: BigNumberish,
+      _leveragedPos: BigNumberish,
+      _buy: boolean
+    ],
+    [boolean],
+    "view"
+  >;
+
+  getEvent(
+    key: "AddressUpdated"
+  ): TypedContractEvent<
+    AddressUpdatedEvent.InputTuple,
+    AddressUpdatedEvent.OutputTuple,
+    AddressUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "FeesCharged"
+  ): TypedContractEvent<
+    FeesChargedEvent.InputTuple,
+    FeesChargedEvent.OutputTuple,
+    FeesChargedEvent.OutputObject
+  >;
+  getEvent(
+    key: "FeesClaimed"
+  ): TypedContractEvent<
+    FeesClaimedEvent.InputTuple,
+    FeesClaimedEvent.OutputTuple,
+    FeesClaimedEvent.OutputObject
+  >;
+  getEvent(
+    key: "FeesDecremented"
+  ): TypedContractEvent<
+    FeesDecrementedEvent.InputTuple,
+    FeesDecrementedEvent.OutputTuple,
+    FeesDecrementedEvent.OutputObject
+  >;
+  getEvent(
+    key: "Initialized"
+  ): TypedContractEvent<
+    InitializedEvent.InputTuple,
+    InitializedEvent.OutputTuple,
+    InitializedEvent.OutputObject
+  >;
+  getEvent(
+    key: "MarketOpenCanceled"
+  ): TypedContractEvent<
+    MarketOpenCanceledEvent.InputTuple,
+    MarketOpenCanceledEvent.OutputTuple,
+    MarketOpenCanceledEvent.OutputObject
+  >;
+  getEvent(
+    key: "NumberUpdated"
+  ): TypedContractEvent<
+    NumberUpdatedEvent.InputTuple,
+    NumberUpdatedEvent.OutputTuple,
+    NumberUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "NumberUpdatedPair"
+  ): TypedContractEvent<
+    NumberUpdatedPairEvent.InputTuple,
+    NumberUpdatedPairEvent.OutputTuple,
+    NumberUpdatedPairEvent.OutputObject
+  >;
+  getEvent(
+    key: "OIUpdated"
+  ): TypedContractEvent<
+    OIUpdatedEvent.InputTuple,
+    OIUpdatedEvent.OutputTuple,
+    OIUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RebateClaimed"
+  ): TypedContractEvent<
+    RebateClaimedEvent.InputTuple,
+    RebateClaimedEvent.OutputTuple,
+    RebateClaimedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SupportedTokenAdded"
+  ): TypedContractEvent<
+    SupportedTokenAddedEvent.InputTuple,
+    SupportedTokenAddedEvent.OutputTuple,
+    SupportedTokenAddedEvent.OutputObject
+  >;
+  getEvent(
+    key: "TradeReferred"
+  ): TypedContractEvent<
+    TradeReferredEvent.InputTuple,
+    TradeReferredEvent.OutputTuple,
+    TradeReferredEvent.OutputObject
+  >;
+  getEvent(
+    key: "TradingContractAdded"
+  ): TypedContractEvent<
+    TradingContractAddedEvent.InputTuple,
+    TradingContractAddedEvent.OutputTuple,
+    TradingContractAddedEvent.OutputObject
+  >;
+  getEvent(
+    key: "TradingContractRemoved"
+  ): TypedContractEvent<
+    TradingContractRemovedEvent.InputTuple,
+    TradingContractRemovedEvent.OutputTuple,
+    TradingContractRemovedEvent.OutputObject
+  >;
+
+  filters: {
+    "AddressUpdated(string,address)": TypedContractEvent<
+      AddressUpdatedEvent.InputTuple,
+      AddressUpdatedEvent.OutputTuple,
+      AddressUpdatedEvent.OutputObject
+    >;
+    AddressUpdated: TypedContractEvent<
+      AddressUpdatedEvent.InputTuple,
+      AddressUpdatedEvent.OutputTuple,
+      AddressUpdatedEvent.OutputObject
+    >;
+
+    "FeesCharged(address,uint256,bool,uint256)": TypedContractEvent<
+      FeesChargedEvent.InputTuple,
+      FeesChargedEvent.OutputTuple,
+      FeesChargedEvent.OutputObject
+    >;
+    FeesCharged: TypedContractEvent<
+      FeesChargedEvent.InputTuple,
+      FeesChargedEvent.OutputTuple,
+      FeesChargedEvent.OutputObject
+    >;
+
+    "FeesClaimed(address,uint256,address,uint256)": TypedContractEvent<
+      FeesClaimedEvent.InputTuple,
+      FeesClaimedEvent.OutputTuple,
+      FeesClaimedEvent.OutputObject
+    >;
+    FeesClaimed: TypedContractEvent<
+      FeesClaimedEvent.InputTuple,
+      FeesClaimedEvent.OutputTuple,
+      FeesClaimedEvent.OutputObject
+    >;
+
+    "FeesDecremented(uint256,uint256)": TypedContractEvent<
+      FeesDecrementedEvent.InputTuple,
+      FeesDecrementedEvent.OutputTuple,
+      FeesDecrementedEvent.OutputObject
+    >;
+    FeesDecremented: TypedContractEvent<
+      FeesDecrementedEvent.InputTuple,
+      FeesDecrementedEvent.OutputTuple,
+      FeesDecrementedEvent.OutputObject
+    >;
+
+    "Initialized(uint8)": TypedContractEvent<
+      InitializedEvent.InputTuple,
+      InitializedEvent.OutputTuple,
+      InitializedEvent.OutputObject
+    >;
+    Initialized: TypedContractEvent<
+      InitializedEvent.InputTuple,
+      InitializedEvent.OutputTuple,
+      InitializedEvent.OutputObject
+    >;
+
+    "MarketOpenCanceled(uint256,address,uint256)": TypedContractEvent<
+      MarketOpenCanceledEvent.InputTuple,
+      MarketOpenCanceledEvent.OutputTuple,
+      MarketOpenCanceledEvent.OutputObject
+    >;
+    MarketOpenCanceled: TypedContractEvent<
+      MarketOpenCanceledEvent.InputTuple,
+      MarketOpenCanceledEvent.OutputTuple,
+      MarketOpenCanceledEvent.OutputObject
+    >;
+
+    "NumberUpdated(string,uint256)": TypedContractEvent<
+      NumberUpdatedEvent.InputTuple,
+      NumberUpdatedEvent.OutputTuple,
+      NumberUpdatedEvent.OutputObject
+    >;
+    NumberUpdated: TypedContractEvent<
+      NumberUpdatedEvent.InputTuple,
+      NumberUpdatedEvent.OutputTuple,
+      NumberUpdatedEvent.OutputObject
+    >;
+
+    "NumberUpdatedPair(string,uint256,uint256)": TypedContractEvent<
+      NumberUpdatedPairEvent.InputTuple,
+      NumberUpdatedPairEvent.OutputTuple,
+      NumberUpdatedPairEvent.OutputObject
+    >;
+    NumberUpdatedPair: TypedContractEvent<
+      NumberUpdatedPairEvent.InputTuple,
+      NumberUpdatedPairEvent.OutputTuple,
+      NumberUpdatedPairEvent.OutputObject
+    >;
+
+    "OIUpdated(bool,bool,uint256,uint256,uint256)": TypedContractEvent<
+      OIUpdatedEvent.InputTuple,
+      OIUpdatedEvent.OutputTuple,
+      OIUpdatedEvent.OutputObject
+    >;
+    OIUpdated: TypedContractEvent<
+      OIUpdatedEvent.InputTuple,
+      OIUpdatedEvent.OutputTuple,
+      OIUpdatedEvent.OutputObject
+    >;
+
+    "RebateClaimed(address,uint256)": TypedContractEvent<
+      RebateClaimedEvent.InputTuple,
+      RebateClaimedEvent.OutputTuple,
+      RebateClaimedEvent.OutputObject
+    >;
+    RebateClaimed: TypedContractEvent<
+      RebateClaimedEvent.InputTuple,
+      RebateClaimedEvent.OutputTuple,
+      RebateClaimedEvent.OutputObject
+    >;
+
+    "SupportedTokenAdded(address)": TypedContractEvent<
+      SupportedTokenAddedEvent.InputTuple,
+      SupportedTokenAddedEvent.OutputTuple,
+      SupportedTokenAddedEvent.OutputObject
+    >;
+    SupportedTokenAdded: TypedContractEvent<
+      SupportedTokenAddedEvent.InputTuple,
+      SupportedTokenAddedEvent.OutputTuple,
+      SupportedTokenAddedEvent.OutputObject
+    >;
+
+    "TradeReferred(address,address,uint256,uint256,uint256,uint256,uint256)": TypedContractEvent<
+      TradeReferredEvent.InputTuple,
+      TradeReferredEvent.OutputTuple,
+      TradeReferredEvent.OutputObject
+    >;
+    TradeReferred: TypedContractEvent<
+      TradeReferredEvent.InputTuple,
+      TradeReferredEvent.OutputTuple,
+      TradeReferredEvent.OutputObject
+    >;
+
+    "TradingContractAdded(address)": TypedContractEvent<
+      TradingContractAddedEvent.InputTuple,
+      TradingContractAddedEvent.OutputTuple,
+      TradingContractAddedEvent.OutputObject
+    >;
+    TradingContractAdded: TypedContractEvent<
+      TradingContractAddedEvent.InputTuple,
+      TradingContractAddedEvent.OutputTuple,
+      TradingContractAddedEvent.OutputObject
+    >;
+
+    "TradingContractRemoved(address)": TypedContractEvent<
+      TradingContractRemovedEvent.InputTuple,
+      TradingContractRemovedEvent.OutputTuple,
+      TradingContractRemovedEvent.OutputObject
+    >;
+    TradingContractRemoved: TypedContractEvent<
+      TradingContractRemovedEvent.InputTuple,
+      TradingContractRemovedEvent.OutputTuple,
+      TradingContractRemovedEvent.OutputObject
+    >;
+  };
+}
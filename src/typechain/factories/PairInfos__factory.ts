@@ -0,0 +1,1713 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+
+import { Contract, Interface, type ContractRunner } from "ethers";
+import type { PairInfos, PairInfosInterface } from "../PairInfos";
+
+const _abi = [
+  {
+    inputs: [],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "pairIndex",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "valueLong",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "valueShort",
+        type: "uint256",
+      },
+    ],
+    name: "AccRolloverFeesStored",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "multiplierCoeffMax",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "groupId",
+        type: "uint256",
+      },
+    ],
+    name: "CoeffUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "multiplierDenom",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "groupId",
+        type: "uint256",
+      },
+    ],
+    name: "DenomUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "buy",
+        type: "bool",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "collateral",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "leverage",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "int256",
+        name: "percentProfit",
+        type: "int256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "r",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "closingFee",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "lossProtection",
+        type: "uint256",
+      },
+    ],
+    name: "FeesCharged",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint8",
+        name: "version",
+        type: "uint8",
+      },
+    ],
+    name: "Initialized",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "keeper",
+        type: "address",
+      },
+    ],
+    name: "KeeperUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "newThreshold",
+        type: "uint256",
+      },
+    ],
+    name: "LiqThresholdUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "numTiers",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256[]",
+        name: "longSkewConfig",
+        type: "uint256[]",
+      },
+      {
+        indexed: false,
+        internalType: "uint256[]",
+        name: "shortSkewConfig",
+        type: "uint256[]",
+      },
+    ],
+    name: "LossProtectionConfigSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "value",
+        type: "address",
+      },
+    ],
+    name: "ManagerUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "value",
+        type: "uint256",
+      },
+    ],
+    name: "MaxNegativePnlOnOpenPUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "minMultiplierRate",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "maxMultiplierRate",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "groupId",
+        type: "uint256",
+      },
+    ],
+    name: "MultiplierUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "pairIndex",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "valueAbove",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "valueBelow",
+        type: "uint256",
+      },
+    ],
+    name: "OnePercentDepthUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "pairIndex",
+        type: "uint256",
+      },
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "onePercentDepthAbove",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "onePercentDepthBelow",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "rolloverFeePerBlockP",
+            type: "uint256",
+          },
+        ],
+        indexed: false,
+        internalType: "struct IPairInfos.PairParams",
+        name: "value",
+        type: "tuple",
+      },
+    ],
+    name: "PairParamsUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "newPairStorage",
+        type: "address",
+      },
+    ],
+    name: "PairStorageUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "pairIndex",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "fee",
+        type: "uint256",
+      },
+    ],
+    name: "RolloverFeePerBlockPUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "trader",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "pairIndex",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "rollover",
+        type: "uint256",
+      },
+    ],
+    name: "TradeInitialAccFeesStored",
+    type: "event",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "pairIndex",
+        type: "uint256",
+      },
+    ],
+    name: "getAccRolloverFeesLong",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "pairIndex",
+        type: "uint256",
+      },
+    ],
+    name: "getAccRolloverFeesShort",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "pairIndex",
+        type: "uint256",
+      },
+    ],
+    name: "getAccRolloverFeesUpdateBlock",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_pairIndex",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "_long",
+        type: "bool",
+      },
+      {
+        internalType: "uint256",
+        name: "_longOI",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_shortOI",
+        type: "uint256",
+      },
+    ],
+    name: "getBlendedSkew",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_pairIndex",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_longOI",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_shortOI",
+        type: "uint256",
+      },
+    ],
+    name: "getBlendedUtilizationRatio",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "pairIndex",
+        type: "uint256",
+      },
+    ],
+    name: "getOnePercentDepthAbove",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "pairIndex",
+        type: "uint256",
+      },
+    ],
+    name: "getOnePercentDepthBelow",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256[]",
+        name: "indices",
+        type: "uint256[]",
+      },
+    ],
+    name: "getPairInfos",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "onePercentDepthAbove",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "onePercentDepthBelow",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "rolloverFeePerBlockP",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct IPairInfos.PairParams[]",
+        name: "",
+        type: "tuple[]",
+      },
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "accPerOiLong",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "accPerOiShort",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "lastUpdateBlock",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct IPairInfos.PairRolloverFees[]",
+        name: "",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "pairIndex",
+        type: "uint256",
+      },
+    ],
+    name: "getPendingAccRolloverFees",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "valueLong",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "valueShort",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_pairIndex",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "_isBuy",
+        type: "bool",
+      },
+      {
+        internalType: "uint256",
+        name: "_leveragePosition",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "isPnl",
+        type: "bool",
+      },
+    ],
+    name: "getPriceImpactSpread",
+    outputs: [
+      {
+        internalType: "int256",
+        name: "spread",
+        type: "int256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "pairIndex",
+        type: "uint256",
+      },
+    ],
+    name: "getRolloverFeePerBlockP",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_pairIndex",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "_isBuy",
+        type: "bool",
+      },
+      {
+        internalType: "uint256",
+        name: "_leveragePosition",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "isPnl",
+        type: "bool",
+      },
+    ],
+    name: "getSkewImpactSpread",
+    outputs: [
+      {
+        internalType: "int256",
+        name: "spread",
+        type: "int256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "trader",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "pairIndex",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+    ],
+    name: "getTradeInitialAccRolloverFeesPerCollateral",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "trader",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "pairIndex",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "openPrice",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "long",
+        type: "bool",
+      },
+      {
+        internalType: "uint256",
+        name: "collateral",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "leverage",
+        type: "uint256",
+      },
+    ],
+    name: "getTradeLiquidationPrice",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "openPrice",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "long",
+        type: "bool",
+      },
+      {
+        internalType: "uint256",
+        name: "collateral",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "leverage",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "rolloverFee",
+        type: "uint256",
+      },
+    ],
+    name: "getTradeLiquidationPricePure",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "openPrice",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "pairIndex",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "long",
+        type: "bool",
+      },
+      {
+        internalType: "uint256",
+        name: "tradeOpenInterest",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "isPnl",
+        type: "bool",
+      },
+    ],
+    name: "getTradePriceImpact",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "priceAfterImpact",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "trader",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "pairIndex",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "long",
+        type: "bool",
+      },
+      {
+        internalType: "uint256",
+        name: "collateral",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "leverage",
+        type: "uint256",
+      },
+    ],
+    name: "getTradeRolloverFee",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "accRolloverFeesPerOi",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "endAccRolloverFeesPerOi",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "collateral",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "leverage",
+        type: "uint256",
+      },
+    ],
+    name: "getTradeRolloverFeePure",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        components: [
+          {
+            internalType: "address",
+            name: "trader",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "pairIndex",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "index",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "initialPosToken",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "positionSizeUSDC",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "openPrice",
+            type: "uint256",
+          },
+          {
+            internalType: "bool",
+            name: "buy",
+            type: "bool",
+          },
+          {
+            internalType: "uint256",
+            name: "leverage",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "tp",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "sl",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "timestamp",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct ITradingStorage.Trade",
+        name: "_trade",
+        type: "tuple",
+      },
+      {
+        internalType: "uint256",
+        name: "collateral",
+        type: "uint256",
+      },
+      {
+        internalType: "int256",
+        name: "percentProfit",
+        type: "int256",
+      },
+      {
+        internalType: "uint256",
+        name: "closingFee",
+        type: "uint256",
+      },
+    ],
+    name: "getTradeValue",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+      {
+        internalType: "int256",
+        name: "pnl",
+        type: "int256",
+      },
+      {
+        internalType: "uint256",
+        name: "fees",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "collateral",
+        type: "uint256",
+      },
+      {
+        internalType: "int256",
+        name: "percentProfit",
+        type: "int256",
+      },
+      {
+        internalType: "uint256",
+        name: "rolloverFee",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "closingFee",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "lossProtection",
+        type: "uint256",
+      },
+    ],
+    name: "getTradeValuePure",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "int256",
+        name: "",
+        type: "int256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_storageT",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "_pairsStorage",
+        type: "address",
+      },
+    ],
+    name: "initialize",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "keeper",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "liqThreshold",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "longSkewConfig",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "lossProtectionNumTiers",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        components: [
+          {
+            internalType: "address",
+            name: "trader",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "pairIndex",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "index",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "initialPosToken",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "positionSizeUSDC",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "openPrice",
+            type: "uint256",
+          },
+          {
+            internalType: "bool",
+            name: "buy",
+            type: "bool",
+          },
+          {
+            internalType: "uint256",
+            name: "leverage",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "tp",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "sl",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "timestamp",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct ITradingStorage.Trade",
+        name: "_trade",
+        type: "tuple",
+      },
+      {
+        internalType: "bool",
+        name: "isPnl",
+        type: "bool",
+      },
+    ],
+    name: "lossProtectionTier",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "manager",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "trader",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "pairIndex",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "collateral",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "leverage",
+        type: "uint256",
+      },
+    ],
+    name: "minMaxRollOverFee",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "minBorrowFee",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "maxBorrowFee",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "pairParams",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "onePercentDepthAbove",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "onePercentDepthBelow",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "rolloverFeePerBlockP",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "pairRolloverFees",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "accPerOiLong",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "accPerOiShort",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "lastUpdateBlock",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "pairsStorage",
+    outputs: [
+      {
+        internalType: "contract IPairStorage",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "trader",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "pairIndex",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+    ],
+    name: "resetTradeInitialAccess",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_keeper",
+        type: "address",
+      },
+    ],
+    name: "setKeeper",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_pairIndex",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256[]",
+        name: "_longSkewConfig",
+        type: "uint256[]",
+      },
+      {
+        internalType: "uint256[]",
+        name: "_shortSkewConfig",
+        type: "uint256[]",
+      },
+    ],
+    name: "setLossProtectionConfig",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_manager",
+        type: "address",
+      },
+    ],
+    name: "setManager",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "pairIndex",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "valueAbove",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "valueBelow",
+        type: "uint256",
+      },
+    ],
+    name: "setOnePercentDepth",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256[]",
+        name: "indices",
+        type: "uint256[]",
+      },
+      {
+        internalType: "uint256[]",
+        name: "valuesAbove",
+        type: "uint256[]",
+      },
+      {
+        internalType: "uint256[]",
+        name: "valuesBelow",
+        type: "uint256[]",
+      },
+    ],
+    name: "setOnePercentDepthArray",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "pairIndex",
+        type: "uint256",
+      },
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "onePercentDepthAbove",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "onePercentDepthBelow",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "rolloverFeePerBlockP",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct IPairInfos.PairParams",
+        name: "value",
+        type: "tuple",
+      },
+    ],
+    name: "setPairParams",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256[]",
+        name: "indices",
+        type: "uint256[]",
+      },
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "onePercentDepthAbove",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "onePercentDepthBelow",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "rolloverFeePerBlockP",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct IPairInfos.PairParams[]",
+        name: "values",
+        type: "tuple[]",
+      },
+    ],
+    name: "setPairParamsArray",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "pairIndex",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "value",
+        type: "uint256",
+      },
+    ],
+    name: "setRolloverFeePerBlockP",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "shortSkewConfig",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "storageT",
+    outputs: [
+      {
+        internalType: "contract ITradingStorage",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "trader",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "pairIndex",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "long",
+        type: "bool",
+      },
+    ],
+    name: "storeTradeInitialAccFees",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "tradeInitialAccFees",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "rollover",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "openedAfterUpdate",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_newThreshold",
+        type: "uint256",
+      },
+    ],
+    name: "udpateLiquidationThreshold",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_newPairStorage",
+        type: "address",
+      },
+    ],
+    name: "updatePairStorage",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+export class PairInfos__factory {
+  static readonly abi = _abi;
+  static createInterface(): PairInfosInterface {
+    return new Interface(_abi) as PairInfosInterface;
+  }
+  static connect(address: string, runner?: ContractRunner | null): PairInfos {
+    return new Contract(address, _abi, runner) as unknown as PairInfos;
+  }
+}
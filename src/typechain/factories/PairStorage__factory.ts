@@ -0,0 +1,3149 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+
+import { Contract, Interface, type ContractRunner } from "ethers";
+import type { PairStorage, PairStorageInterface } from "../PairStorage";
+
+const _abi = [
+  {
+    inputs: [],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "utilizationThreshold",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "borrowFeesMultiplier",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "param_11",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "param_12",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "param_13",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "param_14",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "param_15",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "param_16",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "param_17",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "param_18",
+            type: "uint256",
+          },
+        ],
+        indexed: false,
+        internalType: "struct IPairStorage.AdditionalPairParams",
+        name: "params",
+        type: "tuple",
+      },
+    ],
+    name: "AdditionalPairParamsUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256[]",
+        name: "pairIndex",
+        type: "uint256[]",
+      },
+      {
+        indexed: false,
+        internalType: "uint256[]",
+        name: "limits",
+        type: "uint256[]",
+      },
+    ],
+    name: "BlockOILimitsSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+    ],
+    name: "FeeAdded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+    ],
+    name: "FeeUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+    ],
+    name: "GroupAdded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+    ],
+    name: "GroupUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint8",
+        name: "version",
+        type: "uint8",
+      },
+    ],
+    name: "Initialized",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "pairIndex",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256[]",
+        name: "tier",
+        type: "uint256[]",
+      },
+      {
+        indexed: false,
+        internalType: "uint256[]",
+        name: "multiplier",
+        type: "uint256[]",
+      },
+    ],
+    name: "LossProtectionAdded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "multiplier",
+        type: "uint256",
+      },
+    ],
+    name: "OIMultiplierUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256[]",
+        name: "pairIndex",
+        type: "uint256[]",
+      },
+      {
+        indexed: false,
+        internalType: "uint256[]",
+        name: "limits",
+        type: "uint256[]",
+      },
+    ],
+    name: "OrderLimitsSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "feedId",
+        type: "bytes32",
+      },
+    ],
+    name: "PairAdded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "pairIndex",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "from",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "to",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "numTiers",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256[]",
+        name: "tierthresholds",
+        type: "uint256[]",
+      },
+      {
+        indexed: false,
+        internalType: "uint256[]",
+        name: "timers",
+        type: "uint256[]",
+      },
+    ],
+    name: "PairDataUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+    ],
+    name: "PairDelisted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "posSpreadCap",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "negSpreadCap",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "isPnlTypeAllowed",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "pnlPriceImpactMultiplier",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "pnlSkewImpactMultiplier",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "pnlPosSpreadCap",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "pnlNegSpreadCap",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "minBorrowFee",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "param_7",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "param_8",
+            type: "uint256",
+          },
+        ],
+        indexed: false,
+        internalType: "struct IPairStorage.PairParams",
+        name: "params",
+        type: "tuple",
+      },
+    ],
+    name: "PairParamsUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+    ],
+    name: "PairUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+    ],
+    name: "SkewFeeAdded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+    ],
+    name: "SkewFeeUpdated",
+    type: "event",
+  },
+  {
+    inputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "openFeeP",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "closeFeeP",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "limitOrderFeeP",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "minLevPosUSDC",
+            type: "uint256",
+          },
+          {
+            components: [
+              {
+                internalType: "uint256",
+                name: "numTiers",
+                type: "uint256",
+              },
+              {
+                internalType: "uint256[]",
+                name: "tierP",
+                type: "uint256[]",
+              },
+              {
+                internalType: "uint256[]",
+                name: "feesP",
+                type: "uint256[]",
+              },
+            ],
+            internalType: "struct IPairStorage.PnlFees",
+            name: "pnlFees",
+            type: "tuple",
+          },
+        ],
+        internalType: "struct IPairStorage.Fee",
+        name: "_fee",
+        type: "tuple",
+      },
+    ],
+    name: "addFee",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        components: [
+          {
+            internalType: "string",
+            name: "name",
+            type: "string",
+          },
+          {
+            internalType: "uint256",
+            name: "maxOpenInterestP",
+            type: "uint256",
+          },
+          {
+            internalType: "bool",
+            name: "isSpreadDynamic",
+            type: "bool",
+          },
+        ],
+        internalType: "struct IPairStorage.Group",
+        name: "_group",
+        type: "tuple",
+      },
+    ],
+    name: "addGroup",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        components: [
+          {
+            components: [
+              {
+                internalType: "uint256",
+                name: "maxOpenDeviationP",
+                type: "uint256",
+              },
+              {
+                internalType: "uint256",
+                name: "maxCloseDeviationP",
+                type: "uint256",
+              },
+              {
+                internalType: "bytes32",
+                name: "feedId",
+                type: "bytes32",
+              },
+            ],
+            internalType: "struct IPairStorage.Feed",
+            name: "feed",
+            type: "tuple",
+          },
+          {
+            components: [
+              {
+                internalType: "uint256",
+                name: "maxDeviationP",
+                type: "uint256",
+              },
+              {
+                internalType: "address",
+                name: "feedId",
+                type: "address",
+              },
+            ],
+            internalType: "struct IPairStorage.BackupFeed",
+            name: "backupFeed",
+            type: "tuple",
+          },
+          {
+            internalType: "uint256",
+            name: "spreadP",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "pnlSpreadP",
+            type: "uint256",
+          },
+          {
+            components: [
+              {
+                internalType: "uint256",
+                name: "minLeverage",
+                type: "uint256",
+              },
+              {
+                internalType: "uint256",
+                name: "maxLeverage",
+                type: "uint256",
+              },
+              {
+                internalType: "uint256",
+                name: "pnlMinLeverage",
+                type: "uint256",
+              },
+              {
+                internalType: "uint256",
+                name: "pnlMaxLeverage",
+                type: "uint256",
+              },
+            ],
+            internalType: "struct IPairStorage.Leverage",
+            name: "leverages",
+            type: "tuple",
+          },
+          {
+            internalType: "uint256",
+            name: "priceImpactMultiplier",
+            type: "uint256",
+          },
+          {
+            internalType: "int256",
+            name: "skewImpactMultiplier",
+            type: "int256",
+          },
+          {
+            internalType: "uint256",
+            name: "groupIndex",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "feeIndex",
+            type: "uint256",
+          },
+          {
+            components: [
+              {
+                internalType: "int256",
+                name: "maxGainP",
+                type: "int256",
+              },
+              {
+                internalType: "int256",
+                name: "maxSlP",
+                type: "int256",
+              },
+              {
+                internalType: "uint256",
+                name: "maxLongOiP",
+                type: "uint256",
+              },
+              {
+                internalType: "uint256",
+                name: "maxShortOiP",
+                type: "uint256",
+              },
+              {
+                internalType: "uint256",
+                name: "groupOpenInterestPercentageP",
+                type: "uint256",
+              },
+              {
+                internalType: "uint256",
+                name: "maxWalletOIP",
+                type: "uint256",
+              },
+              {
+                internalType: "bool",
+                name: "isUSDCAligned",
+                type: "bool",
+              },
+            ],
+            internalType: "struct IPairStorage.Values",
+            name: "values",
+            type: "tuple",
+          },
+        ],
+        internalType: "struct IPairStorage.Pair",
+        name: "_pair",
+        type: "tuple",
+      },
+    ],
+    name: "addPair",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        components: [
+          {
+            internalType: "int256[2][10]",
+            name: "eqParams",
+            type: "int256[2][10]",
+          },
+        ],
+        internalType: "struct IPairStorage.SkewFee",
+        name: "_skewFee",
+        type: "tuple",
+      },
+    ],
+    name: "addSkewOpenFees",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "addtionalPairParams",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "utilizationThreshold",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "borrowFeesMultiplier",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "param_11",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "param_12",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "param_13",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "param_14",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "param_15",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "param_16",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "param_17",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "param_18",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "blockOILimit",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "openPrice",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "leverage",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "sl",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "buy",
+        type: "bool",
+      },
+      {
+        internalType: "uint256",
+        name: "pairIndex",
+        type: "uint256",
+      },
+    ],
+    name: "correctSl",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "openPrice",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "leverage",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "tp",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "buy",
+        type: "bool",
+      },
+      {
+        internalType: "uint256",
+        name: "pairIndex",
+        type: "uint256",
+      },
+    ],
+    name: "correctTp",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "currentOrderId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "openPrice",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "currentPrice",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "buy",
+        type: "bool",
+      },
+      {
+        internalType: "uint256",
+        name: "leverage",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "pairIndex",
+        type: "uint256",
+      },
+    ],
+    name: "currentPercentProfit",
+    outputs: [
+      {
+        internalType: "int256",
+        name: "p",
+        type: "int256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_pairIndex",
+        type: "uint256",
+      },
+    ],
+    name: "delistPair",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "fees",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "openFeeP",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "closeFeeP",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "limitOrderFeeP",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "minLevPosUSDC",
+        type: "uint256",
+      },
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "numTiers",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256[]",
+            name: "tierP",
+            type: "uint256[]",
+          },
+          {
+            internalType: "uint256[]",
+            name: "feesP",
+            type: "uint256[]",
+          },
+        ],
+        internalType: "struct IPairStorage.PnlFees",
+        name: "pnlFees",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "feesCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getOIMultiplier",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_pairIndex",
+        type: "uint256",
+      },
+    ],
+    name: "getPairData",
+    outputs: [
+      {
+        internalType: "string",
+        name: "from",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "to",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "numTiers",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256[]",
+        name: "tierThresholds",
+        type: "uint256[]",
+      },
+      {
+        internalType: "uint256[]",
+        name: "timer",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "pairIndex",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "collateral",
+        type: "uint256",
+      },
+      {
+        internalType: "int256",
+        name: "percentProfit",
+        type: "int256",
+      },
+    ],
+    name: "getPnlBasedFee",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "trader",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "pairIndex",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+    ],
+    name: "getPosType",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_pairIndex",
+        type: "uint256",
+      },
+    ],
+    name: "getSkewParams",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "int256[2][10]",
+            name: "eqParams",
+            type: "int256[2][10]",
+          },
+        ],
+        internalType: "struct IPairStorage.SkewFee",
+        name: "skewFee",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_pairIndex",
+        type: "uint256",
+      },
+    ],
+    name: "groupMaxOI",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_pairIndex",
+        type: "uint256",
+      },
+    ],
+    name: "groupOI",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "groupOIs",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "groups",
+    outputs: [
+      {
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "maxOpenInterestP",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "isSpreadDynamic",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "groupsCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_pairIndex",
+        type: "uint256",
+      },
+    ],
+    name: "guaranteedSlEnabled",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_storageT",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "_currentOrderId",
+        type: "uint256",
+      },
+    ],
+    name: "initialize",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_pairIndex",
+        type: "uint256",
+      },
+    ],
+    name: "isDynamicSpreadEnabled",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    name: "isPairListed",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_pairIndex",
+        type: "uint256",
+      },
+    ],
+    name: "isPnlOrderTypeAllowed",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_pairIndex",
+        type: "uint256",
+      },
+    ],
+    name: "isUSDCAligned",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "lossProtection",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_pairIndex",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_tier",
+        type: "uint256",
+      },
+    ],
+    name: "lossProtectionMultiplier",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "pairIndex",
+        type: "uint256",
+      },
+    ],
+    name: "maxProfitP",
+    outputs: [
+      {
+        internalType: "int256",
+        name: "",
+        type: "int256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_pairIndex",
+        type: "uint256",
+      },
+    ],
+    name: "maxWalletOI",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_pairIndex",
+        type: "uint256",
+      },
+    ],
+    name: "minBorrowFee",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "oiMultiplier",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_pairIndex",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_leveragePos",
+        type: "uint256",
+      },
+    ],
+    name: "openCloseThreshold",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "openPosType",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_pairIndex",
+        type: "uint256",
+      },
+    ],
+    name: "pairBackupFeed",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "maxDeviationP",
+            type: "uint256",
+          },
+          {
+            internalType: "address",
+            name: "feedId",
+            type: "address",
+          },
+        ],
+        internalType: "struct IPairStorage.BackupFeed",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_pairIndex",
+        type: "uint256",
+      },
+    ],
+    name: "pairBorrowFeesMultiplier",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_pairIndex",
+        type: "uint256",
+      },
+    ],
+    name: "pairCloseFeeP",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "pairData",
+    outputs: [
+      {
+        internalType: "string",
+        name: "from",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "to",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "numTiers",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_pairIndex",
+        type: "uint256",
+      },
+    ],
+    name: "pairFeed",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "maxOpenDeviationP",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "maxCloseDeviationP",
+            type: "uint256",
+          },
+          {
+            internalType: "bytes32",
+            name: "feedId",
+            type: "bytes32",
+          },
+        ],
+        internalType: "struct IPairStorage.Feed",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_pairIndex",
+        type: "uint256",
+      },
+    ],
+    name: "pairGroupIndex",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_pairIndex",
+        type: "uint256",
+      },
+    ],
+    name: "pairJob",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_pairIndex",
+        type: "uint256",
+      },
+    ],
+    name: "pairLimitOrderFeeP",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_pairIndex",
+        type: "uint256",
+      },
+    ],
+    name: "pairMaxLeverage",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_pairIndex",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "_isPnl",
+        type: "bool",
+      },
+    ],
+    name: "pairMaxLeverage",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_pairIndex",
+        type: "uint256",
+      },
+    ],
+    name: "pairMaxLongOI",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_pairIndex",
+        type: "uint256",
+      },
+    ],
+    name: "pairMaxOI",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_pairIndex",
+        type: "uint256",
+      },
+    ],
+    name: "pairMaxShortOI",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_pairIndex",
+        type: "uint256",
+      },
+    ],
+    name: "pairMinLevPosUSDC",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_pairIndex",
+        type: "uint256",
+      },
+    ],
+    name: "pairMinLeverage",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_pairIndex",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "_isPnl",
+        type: "bool",
+      },
+    ],
+    name: "pairMinLeverage",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_pairIndex",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_leveragedPosition",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "_buy",
+        type: "bool",
+      },
+    ],
+    name: "pairOpenFeeP",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "pairParams",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "posSpreadCap",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "negSpreadCap",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "isPnlTypeAllowed",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "pnlPriceImpactMultiplier",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "pnlSkewImpactMultiplier",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "pnlPosSpreadCap",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "pnlNegSpreadCap",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "minBorrowFee",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "param_7",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "param_8",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_pairIndex",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "isPnl",
+        type: "bool",
+      },
+    ],
+    name: "pairPriceImpactMultiplier",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_pairIndex",
+        type: "uint256",
+      },
+    ],
+    name: "pairPriceImpactMultiplier",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_pairIndex",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "isPnl",
+        type: "bool",
+      },
+    ],
+    name: "pairSkewImpactMultiplier",
+    outputs: [
+      {
+        internalType: "int256",
+        name: "",
+        type: "int256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_pairIndex",
+        type: "uint256",
+      },
+    ],
+    name: "pairSkewImpactMultiplier",
+    outputs: [
+      {
+        internalType: "int256",
+        name: "",
+        type: "int256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_pairIndex",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "_isPnl",
+        type: "bool",
+      },
+    ],
+    name: "pairSpreadP",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "spreadP",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_pairIndex",
+        type: "uint256",
+      },
+    ],
+    name: "pairSpreadP",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "spreadP",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_pairIndex",
+        type: "uint256",
+      },
+    ],
+    name: "pairUtililizationThreshold",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "pairs",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "maxOpenDeviationP",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "maxCloseDeviationP",
+            type: "uint256",
+          },
+          {
+            internalType: "bytes32",
+            name: "feedId",
+            type: "bytes32",
+          },
+        ],
+        internalType: "struct IPairStorage.Feed",
+        name: "feed",
+        type: "tuple",
+      },
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "maxDeviationP",
+            type: "uint256",
+          },
+          {
+            internalType: "address",
+            name: "feedId",
+            type: "address",
+          },
+        ],
+        internalType: "struct IPairStorage.BackupFeed",
+        name: "backupFeed",
+        type: "tuple",
+      },
+      {
+        internalType: "uint256",
+        name: "spreadP",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "pnlSpreadP",
+        type: "uint256",
+      },
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "minLeverage",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "maxLeverage",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "pnlMinLeverage",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "pnlMaxLeverage",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct IPairStorage.Leverage",
+        name: "leverages",
+        type: "tuple",
+      },
+      {
+        internalType: "uint256",
+        name: "priceImpactMultiplier",
+        type: "uint256",
+      },
+      {
+        internalType: "int256",
+        name: "skewImpactMultiplier",
+        type: "int256",
+      },
+      {
+        internalType: "uint256",
+        name: "groupIndex",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "feeIndex",
+        type: "uint256",
+      },
+      {
+        components: [
+          {
+            internalType: "int256",
+            name: "maxGainP",
+            type: "int256",
+          },
+          {
+            internalType: "int256",
+            name: "maxSlP",
+            type: "int256",
+          },
+          {
+            internalType: "uint256",
+            name: "maxLongOiP",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "maxShortOiP",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "groupOpenInterestPercentageP",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "maxWalletOIP",
+            type: "uint256",
+          },
+          {
+            internalType: "bool",
+            name: "isUSDCAligned",
+            type: "bool",
+          },
+        ],
+        internalType: "struct IPairStorage.Values",
+        name: "values",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_index",
+        type: "uint256",
+      },
+    ],
+    name: "pairsBackend",
+    outputs: [
+      {
+        components: [
+          {
+            components: [
+              {
+                internalType: "uint256",
+                name: "maxOpenDeviationP",
+                type: "uint256",
+              },
+              {
+                internalType: "uint256",
+                name: "maxCloseDeviationP",
+                type: "uint256",
+              },
+              {
+                internalType: "bytes32",
+                name: "feedId",
+                type: "bytes32",
+              },
+            ],
+            internalType: "struct IPairStorage.Feed",
+            name: "feed",
+            type: "tuple",
+          },
+          {
+            components: [
+              {
+                internalType: "uint256",
+                name: "maxDeviationP",
+                type: "uint256",
+              },
+              {
+                internalType: "address",
+                name: "feedId",
+                type: "address",
+              },
+            ],
+            internalType: "struct IPairStorage.BackupFeed",
+            name: "backupFeed",
+            type: "tuple",
+          },
+          {
+            internalType: "uint256",
+            name: "spreadP",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "pnlSpreadP",
+            type: "uint256",
+          },
+          {
+            components: [
+              {
+                internalType: "uint256",
+                name: "minLeverage",
+                type: "uint256",
+              },
+              {
+                internalType: "uint256",
+                name: "maxLeverage",
+                type: "uint256",
+              },
+              {
+                internalType: "uint256",
+                name: "pnlMinLeverage",
+                type: "uint256",
+              },
+              {
+                internalType: "uint256",
+                name: "pnlMaxLeverage",
+                type: "uint256",
+              },
+            ],
+            internalType: "struct IPairStorage.Leverage",
+            name: "leverages",
+            type: "tuple",
+          },
+          {
+            internalType: "uint256",
+            name: "priceImpactMultiplier",
+            type: "uint256",
+          },
+          {
+            internalType: "int256",
+            name: "skewImpactMultiplier",
+            type: "int256",
+          },
+          {
+            internalType: "uint256",
+            name: "groupIndex",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "feeIndex",
+            type: "uint256",
+          },
+          {
+            components: [
+              {
+                internalType: "int256",
+                name: "maxGainP",
+                type: "int256",
+              },
+              {
+                internalType: "int256",
+                name: "maxSlP",
+                type: "int256",
+              },
+              {
+                internalType: "uint256",
+                name: "maxLongOiP",
+                type: "uint256",
+              },
+              {
+                internalType: "uint256",
+                name: "maxShortOiP",
+                type: "uint256",
+              },
+              {
+                internalType: "uint256",
+                name: "groupOpenInterestPercentageP",
+                type: "uint256",
+              },
+              {
+                internalType: "uint256",
+                name: "maxWalletOIP",
+                type: "uint256",
+              },
+              {
+                internalType: "bool",
+                name: "isUSDCAligned",
+                type: "bool",
+              },
+            ],
+            internalType: "struct IPairStorage.Values",
+            name: "values",
+            type: "tuple",
+          },
+        ],
+        internalType: "struct IPairStorage.Pair",
+        name: "",
+        type: "tuple",
+      },
+      {
+        components: [
+          {
+            internalType: "string",
+            name: "name",
+            type: "string",
+          },
+          {
+            internalType: "uint256",
+            name: "maxOpenInterestP",
+            type: "uint256",
+          },
+          {
+            internalType: "bool",
+            name: "isSpreadDynamic",
+            type: "bool",
+          },
+        ],
+        internalType: "struct IPairStorage.Group",
+        name: "",
+        type: "tuple",
+      },
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "openFeeP",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "closeFeeP",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "limitOrderFeeP",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "minLevPosUSDC",
+            type: "uint256",
+          },
+          {
+            components: [
+              {
+                internalType: "uint256",
+                name: "numTiers",
+                type: "uint256",
+              },
+              {
+                internalType: "uint256[]",
+                name: "tierP",
+                type: "uint256[]",
+              },
+              {
+                internalType: "uint256[]",
+                name: "feesP",
+                type: "uint256[]",
+              },
+            ],
+            internalType: "struct IPairStorage.PnlFees",
+            name: "pnlFees",
+            type: "tuple",
+          },
+        ],
+        internalType: "struct IPairStorage.Fee",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "pairsCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "trader",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "pairIndex",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+    ],
+    name: "resetPosType",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256[]",
+        name: "_pairIndex",
+        type: "uint256[]",
+      },
+      {
+        internalType: "uint256[]",
+        name: "_limits",
+        type: "uint256[]",
+      },
+    ],
+    name: "setBlockOILImits",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_multiplier",
+        type: "uint256",
+      },
+    ],
+    name: "setOIMultiplier",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_pairIndex",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "from",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "to",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "_numTiers",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256[]",
+        name: "_tierThresholds",
+        type: "uint256[]",
+      },
+      {
+        internalType: "uint256[]",
+        name: "_timer",
+        type: "uint256[]",
+      },
+    ],
+    name: "setPairData",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "skewedFeesCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_pairIndex",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "isPnl",
+        type: "bool",
+      },
+    ],
+    name: "spreadCaps",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "storageT",
+    outputs: [
+      {
+        internalType: "contract ITradingStorage",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "trader",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "pairIndex",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "isPnl",
+        type: "bool",
+      },
+    ],
+    name: "storePosType",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_pairIndex",
+        type: "uint256",
+      },
+      {
+        components: [
+          {
+            internalType: "int256[2][10]",
+            name: "eqParams",
+            type: "int256[2][10]",
+          },
+        ],
+        internalType: "struct IPairStorage.SkewFee",
+        name: "_skewFee",
+        type: "tuple",
+      },
+    ],
+    name: "udpateSkewOpenFees",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_pairIndex",
+        type: "uint256",
+      },
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "utilizationThreshold",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "borrowFeesMultiplier",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "param_11",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "param_12",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "param_13",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "param_14",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "param_15",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "param_16",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "param_17",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "param_18",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct IPairStorage.AdditionalPairParams",
+        name: "_params",
+        type: "tuple",
+      },
+    ],
+    name: "updateAdditionalPairParams",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_id",
+        type: "uint256",
+      },
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "openFeeP",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "closeFeeP",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "limitOrderFeeP",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "minLevPosUSDC",
+            type: "uint256",
+          },
+          {
+            components: [
+              {
+                internalType: "uint256",
+                name: "numTiers",
+                type: "uint256",
+              },
+              {
+                internalType: "uint256[]",
+                name: "tierP",
+                type: "uint256[]",
+              },
+              {
+                internalType: "uint256[]",
+                name: "feesP",
+                type: "uint256[]",
+              },
+            ],
+            internalType: "struct IPairStorage.PnlFees",
+            name: "pnlFees",
+            type: "tuple",
+          },
+        ],
+        internalType: "struct IPairStorage.Fee",
+        name: "_fee",
+        type: "tuple",
+      },
+    ],
+    name: "updateFee",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_id",
+        type: "uint256",
+      },
+      {
+        components: [
+          {
+            internalType: "string",
+            name: "name",
+            type: "string",
+          },
+          {
+            internalType: "uint256",
+            name: "maxOpenInterestP",
+            type: "uint256",
+          },
+          {
+            internalType: "bool",
+            name: "isSpreadDynamic",
+            type: "bool",
+          },
+        ],
+        internalType: "struct IPairStorage.Group",
+        name: "_group",
+        type: "tuple",
+      },
+    ],
+    name: "updateGroup",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_pairIndex",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_amount",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "_long",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "_increase",
+        type: "bool",
+      },
+    ],
+    name: "updateGroupOI",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_pairIndex",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256[]",
+        name: "_tier",
+        type: "uint256[]",
+      },
+      {
+        internalType: "uint256[]",
+        name: "_multiplierPercent",
+        type: "uint256[]",
+      },
+    ],
+    name: "updateLossProtectionMultiplier",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_pairIndex",
+        type: "uint256",
+      },
+      {
+        components: [
+          {
+            components: [
+              {
+                internalType: "uint256",
+                name: "maxOpenDeviationP",
+                type: "uint256",
+              },
+              {
+                internalType: "uint256",
+                name: "maxCloseDeviationP",
+                type: "uint256",
+              },
+              {
+                internalType: "bytes32",
+                name: "feedId",
+                type: "bytes32",
+              },
+            ],
+            internalType: "struct IPairStorage.Feed",
+            name: "feed",
+            type: "tuple",
+          },
+          {
+            components: [
+              {
+                internalType: "uint256",
+                name: "maxDeviationP",
+                type: "uint256",
+              },
+              {
+                internalType: "address",
+                name: "feedId",
+                type: "address",
+              },
+            ],
+            internalType: "struct IPairStorage.BackupFeed",
+            name: "backupFeed",
+            type: "tuple",
+          },
+          {
+            internalType: "uint256",
+            name: "spreadP",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "pnlSpreadP",
+            type: "uint256",
+          },
+          {
+            components: [
+              {
+                internalType: "uint256",
+                name: "minLeverage",
+                type: "uint256",
+              },
+              {
+                internalType: "uint256",
+                name: "maxLeverage",
+                type: "uint256",
+              },
+              {
+                internalType: "uint256",
+                name: "pnlMinLeverage",
+                type: "uint256",
+              },
+              {
+                internalType: "uint256",
+                name: "pnlMaxLeverage",
+                type: "uint256",
+              },
+            ],
+            internalType: "struct IPairStorage.Leverage",
+            name: "leverages",
+            type: "tuple",
+          },
+          {
+            internalType: "uint256",
+            name: "priceImpactMultiplier",
+            type: "uint256",
+          },
+          {
+            internalType: "int256",
+            name: "skewImpactMultiplier",
+            type: "int256",
+          },
+          {
+            internalType: "uint256",
+            name: "groupIndex",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "feeIndex",
+            type: "uint256",
+          },
+          {
+            components: [
+              {
+                internalType: "int256",
+                name: "maxGainP",
+                type: "int256",
+              },
+              {
+                internalType: "int256",
+                name: "maxSlP",
+                type: "int256",
+              },
+              {
+                internalType: "uint256",
+                name: "maxLongOiP",
+                type: "uint256",
+              },
+              {
+                internalType: "uint256",
+                name: "maxShortOiP",
+                type: "uint256",
+              },
+              {
+                internalType: "uint256",
+                name: "groupOpenInterestPercentageP",
+                type: "uint256",
+              },
+              {
+                internalType: "uint256",
+                name: "maxWalletOIP",
+                type: "uint256",
+              },
+              {
+                internalType: "bool",
+                name: "isUSDCAligned",
+                type: "bool",
+              },
+            ],
+            internalType: "struct IPairStorage.Values",
+            name: "values",
+            type: "tuple",
+          },
+        ],
+        internalType: "struct IPairStorage.Pair",
+        name: "_pair",
+        type: "tuple",
+      },
+    ],
+    name: "updatePair",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_pairIndex",
+        type: "uint256",
+      },
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "posSpreadCap",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "negSpreadCap",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "isPnlTypeAllowed",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "pnlPriceImpactMultiplier",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "pnlSkewImpactMultiplier",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "pnlPosSpreadCap",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "pnlNegSpreadCap",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "minBorrowFee",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "param_7",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "param_8",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct IPairStorage.PairParams",
+        name: "_params",
+        type: "tuple",
+      },
+    ],
+    name: "updatePairParams",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+export class PairStorage__factory {
+  static readonly abi = _abi;
+  static createInterface(): PairStorageInterface {
+    return new Interface(_abi) as PairStorageInterface;
+  }
+  static connect(address: string, runner?: ContractRunner | null): PairStorage {
+    return new Contract(address, _abi, runner) as unknown as PairStorage;
+  }
+}
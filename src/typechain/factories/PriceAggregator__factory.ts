@@ -0,0 +1,798 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+
+import { Contract, Interface, type ContractRunner } from "ethers";
+import type {
+  PriceAggregator,
+  PriceAggregatorInterface,
+} from "../PriceAggregator";
+
+const _abi = [
+  {
+    inputs: [],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "a",
+        type: "address",
+      },
+    ],
+    name: "AddressUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "_start",
+        type: "bool",
+      },
+    ],
+    name: "BackUpTriggered",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "orderId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "pairIndex",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "price",
+        type: "uint256",
+      },
+    ],
+    name: "BackupPriceReceived",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint8",
+        name: "version",
+        type: "uint8",
+      },
+    ],
+    name: "Initialized",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "value",
+        type: "uint256",
+      },
+    ],
+    name: "NumberUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "orderId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "pairIndex",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "price",
+        type: "uint256",
+      },
+    ],
+    name: "PriceReceived",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "a",
+        type: "address",
+      },
+    ],
+    name: "PythUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_newPeriod",
+        type: "uint256",
+      },
+    ],
+    name: "chainlinkValidityPeriodSet",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "chainlinkValidityPeriod",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "executions",
+    outputs: [
+      {
+        internalType: "contract IExecute",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_trader",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "_pairIndex",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_index",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_amount",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_price",
+        type: "uint256",
+      },
+    ],
+    name: "forceCloseTradeMarket",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "orderId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes[]",
+        name: "priceUpdateData",
+        type: "bytes[]",
+      },
+    ],
+    name: "fulfill",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_id",
+        type: "uint256",
+      },
+    ],
+    name: "getOrder",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "pairIndex",
+            type: "uint256",
+          },
+          {
+            internalType: "enum IPriceAggregator.OrderType",
+            name: "orderType",
+            type: "uint8",
+          },
+          {
+            internalType: "bytes32",
+            name: "job",
+            type: "bytes32",
+          },
+          {
+            internalType: "bool",
+            name: "initiated",
+            type: "bool",
+          },
+        ],
+        internalType: "struct IPriceAggregator.Order",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_pairIndex",
+        type: "uint256",
+      },
+      {
+        internalType: "enum IPriceAggregator.OrderType",
+        name: "_orderType",
+        type: "uint8",
+      },
+    ],
+    name: "getPrice",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_storageT",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "_pairsStorage",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "_executions",
+        type: "address",
+      },
+    ],
+    name: "initialize",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_pairIndex",
+        type: "uint256",
+      },
+      {
+        internalType: "enum IPriceAggregator.OrderType",
+        name: "_type",
+        type: "uint8",
+      },
+    ],
+    name: "maxDeviationP",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_pairIndex",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_leveragedPositionSize",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "_buy",
+        type: "bool",
+      },
+    ],
+    name: "openFeeP",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "orders",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "pairIndex",
+        type: "uint256",
+      },
+      {
+        internalType: "enum IPriceAggregator.OrderType",
+        name: "orderType",
+        type: "uint8",
+      },
+      {
+        internalType: "bytes32",
+        name: "job",
+        type: "bytes32",
+      },
+      {
+        internalType: "bool",
+        name: "initiated",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "ordersAnswers",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "pairsStorage",
+    outputs: [
+      {
+        internalType: "contract IPairStorage",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+    ],
+    name: "pendingMarginUpdateOrders",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "address",
+            name: "trader",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "pairIndex",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "index",
+            type: "uint256",
+          },
+          {
+            internalType: "enum ITradingStorage.updateType",
+            name: "_type",
+            type: "uint8",
+          },
+          {
+            internalType: "uint256",
+            name: "amount",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "tier",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "marginFees",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "oldLeverage",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct IPriceAggregator.PendingMarginUpdate",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+    ],
+    name: "pendingSlOrders",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "address",
+            name: "trader",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "pairIndex",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "index",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "openPrice",
+            type: "uint256",
+          },
+          {
+            internalType: "bool",
+            name: "buy",
+            type: "bool",
+          },
+          {
+            internalType: "uint256",
+            name: "newSl",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct IPriceAggregator.PendingSl",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "pyth",
+    outputs: [
+      {
+        internalType: "contract IPyth",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_newPeriod",
+        type: "uint256",
+      },
+    ],
+    name: "setChainlinkValidityPeriod",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "pythContract",
+        type: "address",
+      },
+    ],
+    name: "setPyth",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "storageT",
+    outputs: [
+      {
+        internalType: "contract ITradingStorage",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "orderId",
+        type: "uint256",
+      },
+      {
+        components: [
+          {
+            internalType: "address",
+            name: "trader",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "pairIndex",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "index",
+            type: "uint256",
+          },
+          {
+            internalType: "enum ITradingStorage.updateType",
+            name: "_type",
+            type: "uint8",
+          },
+          {
+            internalType: "uint256",
+            name: "amount",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "tier",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "marginFees",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "oldLeverage",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct IPriceAggregator.PendingMarginUpdate",
+        name: "p",
+        type: "tuple",
+      },
+    ],
+    name: "storePendingMarginUpdateOrder",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "orderId",
+        type: "uint256",
+      },
+      {
+        components: [
+          {
+            internalType: "address",
+            name: "trader",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "pairIndex",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "index",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "openPrice",
+            type: "uint256",
+          },
+          {
+            internalType: "bool",
+            name: "buy",
+            type: "bool",
+          },
+          {
+            internalType: "uint256",
+            name: "newSl",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct IPriceAggregator.PendingSl",
+        name: "p",
+        type: "tuple",
+      },
+    ],
+    name: "storePendingSlOrder",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "orderId",
+        type: "uint256",
+      },
+    ],
+    name: "unregisterPendingMarginUpdateOrder",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "orderId",
+        type: "uint256",
+      },
+    ],
+    name: "unregisterPendingSlOrder",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_pairsStorage",
+        type: "address",
+      },
+    ],
+    name: "updatePairsStorage",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bool",
+        name: "_start",
+        type: "bool",
+      },
+    ],
+    name: "useBackUpOracleOnly",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "useBackupOnly",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+export class PriceAggregator__factory {
+  static readonly abi = _abi;
+  static createInterface(): PriceAggregatorInterface {
+    return new Interface(_abi) as PriceAggregatorInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): PriceAggregator {
+    return new Contract(address, _abi, runner) as unknown as PriceAggregator;
+  }
+}
@@ -0,0 +1,64 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+
+import { Contract, Interface, type ContractRunner } from "ethers";
+import type { Pyth, PythInterface } from "../Pyth";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "bytes[]",
+        name: "updateData",
+        type: "bytes[]",
+      },
+    ],
+    name: "getUpdateFee",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "feeAmount",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getValidTimePeriod",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "validTimePeriod",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes[]",
+        name: "updateData",
+        type: "bytes[]",
+      },
+    ],
+    name: "updatePriceFeeds",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+] as const;
+
+export class Pyth__factory {
+  static readonly abi = _abi;
+  static createInterface(): PythInterface {
+    return new Interface(_abi) as PythInterface;
+  }
+  static connect(address: string, runner?: ContractRunner | null): Pyth {
+    return new Contract(address, _abi, runner) as unknown as Pyth;
+  }
+}
@@ -0,0 +1,12 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export { ERC20__factory } from "./ERC20__factory";
+export { Multicall__factory } from "./Multicall__factory";
+export { PairInfos__factory } from "./PairInfos__factory";
+export { PairStorage__factory } from "./PairStorage__factory";
+export { PriceAggregator__factory } from "./PriceAggregator__factory";
+export { Pyth__factory } from "./Pyth__factory";
+export { Referral__factory } from "./Referral__factory";
+export { Trading__factory } from "./Trading__factory";
+export { TradingStorage__factory } from "./TradingStorage__factory";
@@ -0,0 +1,22 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export type { ERC20 } from "./ERC20";
+export type { Multicall } from "./Multicall";
+export type { PairInfos } from "./PairInfos";
+export type { PairStorage } from "./PairStorage";
+export type { PriceAggregator } from "./PriceAggregator";
+export type { Pyth } from "./Pyth";
+export type { Referral } from "./Referral";
+export type { Trading } from "./Trading";
+export type { TradingStorage } from "./TradingStorage";
+export * as factories from "./factories";
+export { Trading__factory } from "./factories/Trading__factory";
+export { TradingStorage__factory } from "./factories/TradingStorage__factory";
+export { PairStorage__factory } from "./factories/PairStorage__factory";
+export { PairInfos__factory } from "./factories/PairInfos__factory";
+export { PriceAggregator__factory } from "./factories/PriceAggregator__factory";
+export { Referral__factory } from "./factories/Referral__factory";
+export { Multicall__factory } from "./factories/Multicall__factory";
+export { ERC20__factory } from "./factories/ERC20__factory";
+export { Pyth__factory } from "./factories/Pyth__factory";
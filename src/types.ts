@@ -58,7 +58,7 @@ export const TradeResponseSchema = z.object({
   trader: addressSchema,
   pairIndex: z.number(),
   index: z.number(),
-  initialPosUsdc: z.number(),
+  initialPosUsdc: z.number(), // collateral in USDC (positionSizeUSDC on chain)
   openPrice: z.number(),
   buy: z.boolean(),
   leverage: z.number(),
@@ -89,6 +89,30 @@ export const PriceFeedResponseSchema = z.object({
   emaPrice: EmaPriceSchema,
 });
 
+// Price as sent by Pyth Hermes (snake_case publish time)
+export const HermesPriceSchema = z.object({
+  price: z.string(),
+  conf: z.string(),
+  expo: z.number(),
+  publish_time: z.number(),
+});
+
+// Parsed price feed in a Hermes latest price update
+export const HermesPriceFeedSchema = z.object({
+  id: z.string(),
+  price: HermesPriceSchema,
+  ema_price: HermesPriceSchema,
+});
+
+// Hermes latest price update: signed VAAs and, optionally, the parsed prices
+export const HermesPriceUpdateSchema = z.object({
+  binary: z.object({
+    encoding: z.string(),
+    data: z.array(z.string()),
+  }),
+  parsed: z.array(HermesPriceFeedSchema).optional(),
+});
+
 // OpenInterest schema
 export const OpenInterestSchema = z.object({
   long: z.number(),
@@ -210,6 +234,169 @@ export const ReferralDiscountSchema = z.object({
   rebateShare: z.number(),
 });
 
+// PositionAnalytics schema (derived from PairInfos/PairStorage views)
+export const PositionAnalyticsSchema = z.object({
+  pairIndex: z.number(),
+  buy: z.boolean(),
+  collateral: z.number(), // USDC
+  positionSize: z.number(), // USDC (collateral * leverage)
+  openPrice: z.number(),
+  currentPrice: z.number(),
+  liquidationPrice: z.number(),
+  percentProfit: z.number(), // % of collateral
+  grossPnl: z.number(), // USDC, before fees
+  rolloverFee: z.number(), // USDC, accrued rollover/borrow fee
+  closingFee: z.number(), // USDC
+  netPnl: z.number(), // USDC, after rollover, closing fee and loss protection
+  value: z.number(), // USDC returned to the trader if closed now
+  distanceToLiquidationP: z.number(), // % move of current price until liquidation
+});
+
+// ========== CONTRACT EVENT SCHEMAS ==========
+
+// Log metadata shared by all indexed events
+const EventMetaSchema = z.object({
+  blockNumber: z.number(),
+  transactionHash: z.string(),
+  logIndex: z.number(),
+  address: addressSchema,
+});
+
+// Trading: MarketOrderInitiated
+export const MarketOrderInitiatedEventSchema = EventMetaSchema.extend({
+  eventName: z.literal('MarketOrderInitiated'),
+  trader: addressSchema,
+  pairIndex: z.number(),
+  open: z.boolean(),
+  orderId: z.number(),
+  timestamp: z.number(),
+  isBuy: z.boolean(),
+});
+
+// Trading: LimitOrderInitiated
+export const LimitOrderInitiatedEventSchema = EventMetaSchema.extend({
+  eventName: z.literal('LimitOrderInitiated'),
+  trader: addressSchema,
+  pairIndex: z.number(),
+  orderId: z.number(),
+  timestamp: z.number(),
+});
+
+// Trading: OpenLimitPlaced
+export const OpenLimitPlacedEventSchema = EventMetaSchema.extend({
+  eventName: z.literal('OpenLimitPlaced'),
+  trader: addressSchema,
+  pairIndex: z.number(),
+  index: z.number(),
+  isBuy: z.boolean(),
+  openPrice: z.number(), // 10 decimals
+  executionFee: z.number(), // 18 decimals
+  orderType: z.number(),
+  slippageP: z.number(), // 10 decimals
+  collateral: z.number(), // 6 decimals
+});
+
+// Trading: OpenLimitUpdated
+export const OpenLimitUpdatedEventSchema = EventMetaSchema.extend({
+  eventName: z.literal('OpenLimitUpdated'),
+  trader: addressSchema,
+  pairIndex: z.number(),
+  index: z.number(),
+  newPrice: z.number(), // 10 decimals
+  newTp: z.number(), // 10 decimals
+  newSl: z.number(), // 10 decimals
+  timestamp: z.number(),
+});
+
+// Trading: OpenLimitCanceled
+export const OpenLimitCanceledEventSchema = EventMetaSchema.extend({
+  eventName: z.literal('OpenLimitCanceled'),
+  trader: addressSchema,
+  pairIndex: z.number(),
+  index: z.number(),
+  timestamp: z.number(),
+  collateral: z.number(), // 6 decimals
+});
+
+// Trading: MarginUpdated
+export const MarginUpdatedEventSchema = EventMetaSchema.extend({
+  eventName: z.literal('MarginUpdated'),
+  trader: addressSchema,
+  pairIndex: z.number(),
+  index: z.number(),
+  updateType: z.nativeEnum(MarginUpdateType),
+  newTrade: TradeSchema,
+  marginFees: z.number(), // 6 decimals
+  lossProtectionTier: z.number(),
+  timestamp: z.number(),
+});
+
+// Trading: TpUpdated
+export const TpUpdatedEventSchema = EventMetaSchema.extend({
+  eventName: z.literal('TpUpdated'),
+  trader: addressSchema,
+  pairIndex: z.number(),
+  index: z.number(),
+  newTp: z.number(), // 10 decimals
+  timestamp: z.number(),
+});
+
+// Trading: SlUpdated
+export const SlUpdatedEventSchema = EventMetaSchema.extend({
+  eventName: z.literal('SlUpdated'),
+  trader: addressSchema,
+  pairIndex: z.number(),
+  index: z.number(),
+  newSl: z.number(), // 10 decimals
+  timestamp: z.number(),
+});
+
+// TradingStorage: FeesCharged
+export const FeesChargedEventSchema = EventMetaSchema.extend({
+  eventName: z.literal('FeesCharged'),
+  trader: addressSchema,
+  pairIndex: z.number(),
+  buy: z.boolean(),
+  fee: z.number(), // 6 decimals
+});
+
+// TradingStorage: TradeReferred
+export const TradeReferredEventSchema = EventMetaSchema.extend({
+  eventName: z.literal('TradeReferred'),
+  trader: addressSchema,
+  referrer: addressSchema,
+  leveragedPosition: z.number(), // 6 decimals
+  traderFeePostDiscount: z.number(), // 6 decimals
+  startingFees: z.number(), // 6 decimals
+  referrerRebate: z.number(), // 6 decimals
+  pairIndex: z.number(),
+});
+
+// TradingStorage: OIUpdated
+export const OIUpdatedEventSchema = EventMetaSchema.extend({
+  eventName: z.literal('OIUpdated'),
+  open: z.boolean(),
+  long: z.boolean(),
+  pairIndex: z.number(),
+  leveragedPos: z.number(), // 6 decimals
+  price: z.number(), // 10 decimals
+});
+
+// Any event decoded by the EventIndexer
+export const TradingEventSchema = z.discriminatedUnion('eventName', [
+  MarketOrderInitiatedEventSchema,
+  LimitOrderInitiatedEventSchema,
+  OpenLimitPlacedEventSchema,
+  OpenLimitUpdatedEventSchema,
+  OpenLimitCanceledEventSchema,
+  MarginUpdatedEventSchema,
+  TpUpdatedEventSchema,
+  SlUpdatedEventSchema,
+  FeesChargedEventSchema,
+  TradeReferredEventSchema,
+  OIUpdatedEventSchema,
+]);
+
 // ========== TYPESCRIPT TYPES ==========
 
 export type Spread = z.infer<typeof SpreadSchema>;
@@ -219,6 +406,9 @@ export type TradeResponse = z.infer<typeof TradeResponseSchema>;
 export type Price = z.infer<typeof PriceSchema>;
 export type EmaPrice = z.infer<typeof EmaPriceSchema>;
 export type PriceFeedResponse = z.infer<typeof PriceFeedResponseSchema>;
+export type HermesPrice = z.infer<typeof HermesPriceSchema>;
+export type HermesPriceFeed = z.infer<typeof HermesPriceFeedSchema>;
+export type HermesPriceUpdate = z.infer<typeof HermesPriceUpdateSchema>;
 export type OpenInterest = z.infer<typeof OpenInterestSchema>;
 export type OpenInterestLimits = z.infer<typeof OpenInterestLimitsSchema>;
 export type Utilization = z.infer<typeof UtilizationSchema>;
@@ -234,6 +424,20 @@ export type TradeInfo = z.infer<typeof TradeInfoSchema>;
 export type OpenLimitOrder = z.infer<typeof OpenLimitOrderSchema>;
 export type ReferralTier = z.infer<typeof ReferralTierSchema>;
 export type ReferralDiscount = z.infer<typeof ReferralDiscountSchema>;
+export type PositionAnalytics = z.infer<typeof PositionAnalyticsSchema>;
+export type MarketOrderInitiatedEvent = z.infer<typeof MarketOrderInitiatedEventSchema>;
+export type LimitOrderInitiatedEvent = z.infer<typeof LimitOrderInitiatedEventSchema>;
+export type OpenLimitPlacedEvent = z.infer<typeof OpenLimitPlacedEventSchema>;
+export type OpenLimitUpdatedEvent = z.infer<typeof OpenLimitUpdatedEventSchema>;
+export type OpenLimitCanceledEvent = z.infer<typeof OpenLimitCanceledEventSchema>;
+export type MarginUpdatedEvent = z.infer<typeof MarginUpdatedEventSchema>;
+export type TpUpdatedEvent = z.infer<typeof TpUpdatedEventSchema>;
+export type SlUpdatedEvent = z.infer<typeof SlUpdatedEventSchema>;
+export type FeesChargedEvent = z.infer<typeof FeesChargedEventSchema>;
+export type TradeReferredEvent = z.infer<typeof TradeReferredEventSchema>;
+export type OIUpdatedEvent = z.infer<typeof OIUpdatedEventSchema>;
+export type TradingEvent = z.infer<typeof TradingEventSchema>;
+export type TradingEventName = TradingEvent['eventName'];
 
 // ========== UTILITY TYPES ==========
 
@@ -1,4 +1,4 @@
-import { Interface, Result } from 'ethers';
+import { Interface, Provider, Result } from 'ethers';
 
 /**
  * Utility functions for Web3 decoding and data processing
@@ -54,34 +54,26 @@ export function processOutputTypes(
  * @param functionName - Function name to decode
  * @param output - Raw output data
  * @returns Decoded output as object with named fields
+ * @throws Error if the function is not in the ABI or the output does not match it
  */
-export function decoder(
-  abi: any[],
-  functionName: string,
-  output: any
-): Record<string, any> | null {
-  try {
-    const iface = new Interface(abi);
-    const fragment = iface.getFunction(functionName);
-
-    if (!fragment) {
-      throw new Error(`Function ${functionName} not found in ABI`);
-    }
-
-    // If output is already decoded (Result type), process it
-    if (typeof output === 'object' && !Array.isArray(output) && output.toArray) {
-      return processOutputTypes(fragment.outputs, output);
-    }
+export function decoder(abi: any[], functionName: string, output: any): Record<string, any> {
+  const iface = new Interface(abi);
+  const fragment = iface.getFunction(functionName);
 
-    // Decode the output
-    const decoded = iface.decodeFunctionResult(fragment, output);
+  if (!fragment) {
+    throw new Error(`Function ${functionName} not found in ABI`);
+  }
 
-    // Process and return with named fields
-    return processOutputTypes(fragment.outputs, decoded);
-  } catch (error) {
-    console.error(`Error decoding function ${functionName}:`, error);
-    return null;
+  // If output is already decoded (Result type), process it
+  if (typeof output === 'object' && !Array.isArray(output) && output.toArray) {
+    return processOutputTypes(fragment.outputs, output);
   }
+
+  // Decode the output
+  const decoded = iface.decodeFunctionResult(fragment, output);
+
+  // Process and return with named fields
+  return processOutputTypes(fragment.outputs, decoded);
 }
 
 /**
@@ -145,7 +137,6 @@ export async function retryWithBackoff<T>(
 
       if (i < maxRetries) {
         const delay = baseDelay * Math.pow(2, i);
-        console.log(`Retry ${i + 1}/${maxRetries} after ${delay}ms...`);
         await sleep(delay);
       }
     }
@@ -153,3 +144,21 @@ export async function retryWithBackoff<T>(
 
   throw lastError!;
 }
+
+/**
+ * Gas budget of a keeper order execution, paid for by the execution fee
+ */
+export const EXECUTION_GAS_LIMIT = 850000n;
+
+/**
+ * Estimate the execution fee sent with market orders, limit orders and closes
+ * The Trading contract has no execution fee view; keepers are reimbursed for
+ * the execution gas at the current gas price.
+ * @param provider - Ethereum provider
+ * @returns Execution fee in wei
+ */
+export async function estimateExecutionFee(provider: Provider): Promise<bigint> {
+  const feeData = await provider.getFeeData();
+  const gasPrice = feeData.maxFeePerGas ?? feeData.gasPrice ?? 0n;
+  return gasPrice * EXECUTION_GAS_LIMIT;
+}
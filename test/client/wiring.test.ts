@@ -0,0 +1,185 @@
+/**
+ * TraderClient wiring suite against the in-process mock chain
+ *
+ * Checks that the client's modules encode, sign, send and decode through one
+ * shared provider and transaction manager. The mock chain answers with
+ * programmed contract state rather than executing the contracts, so this is
+ * not end-to-end coverage; test/e2e runs the flow against a forked chain.
+ */
+
+import { ZeroAddress } from 'ethers';
+import { InsufficientAllowance } from '../../src/errors';
+import { MarginUpdateType, TradeInputOrderType } from '../../src/types';
+import { MockEnvironment, createMockEnvironment } from '../harness';
+
+const PAIR = 'ETH/USD';
+const PAIR_INDEX = 0;
+
+describe('TraderClient wiring on the mock chain', () => {
+  let env: MockEnvironment;
+  let tradeIndex: number;
+
+  const track = { pollInterval: 20, timeout: 5_000 };
+
+  beforeAll(async () => {
+    env = await createMockEnvironment();
+  });
+
+  afterAll(async () => {
+    await env.stop();
+  });
+
+  it('rejects a trade without allowance before broadcasting', async () => {
+    // USDC is pulled from the signer, so an unset trader must not fail the balance check
+    const trade = {
+      trader: ZeroAddress,
+      pairIndex: PAIR_INDEX,
+      index: 0,
+      initialPosToken: 0,
+      positionSizeUSDC: 100,
+      openPrice: 3000,
+      buy: true,
+      leverage: 10,
+      tp: 0,
+      sl: 0,
+    };
+
+    await expect(
+      env.client.tradingOps.openTrade(trade, TradeInputOrderType.MARKET, 1)
+    ).rejects.toBeInstanceOf(InsufficientAllowance);
+    expect(env.chain.methods).not.toContain('eth_sendRawTransaction');
+  });
+
+  it('approves USDC for trading', async () => {
+    await env.client.approveUsdcForTrading(1_000);
+
+    expect(await env.client.getUsdcAllowanceForTrading(env.trader)).toBe(1_000);
+  });
+
+  it('opens a market trade and tracks it to execution', async () => {
+    const builder = env.client
+      .tradeBuilder()
+      .pair(PAIR)
+      .long()
+      .collateral(100)
+      .leverage(10)
+      .takeProfitPercent(100)
+      .stopLossPercent(50)
+      .trader(env.trader);
+
+    const validation = await builder.validate();
+    expect(validation.errors).toEqual([]);
+    expect(validation.tradeInput?.openPrice).toBe(3000);
+
+    const receipt = await env.client.signAndGetReceipt(await builder.build());
+    const handle = env.client.trackOrder(receipt!, track);
+    expect(handle.kind).toBe('marketOpen');
+
+    env.setPrice(PAIR_INDEX, 3010);
+    env.chain.executePendingMarketOrders(env.trader);
+    const result = await handle.wait();
+
+    expect(result.status).toBe('executed');
+    expect(result.trade).toMatchObject({
+      trader: env.trader,
+      buy: true,
+      positionSizeUSDC: 100,
+      leverage: 10,
+      openPrice: 3010,
+      tp: 3300,
+      sl: 2850,
+    });
+    tradeIndex = result.trade!.index;
+    expect(await env.client.getUsdcBalance(env.trader)).toBe(9_900);
+  });
+
+  it('updates TP and SL', async () => {
+    await env.client.tradingOps.updateTpAndSl(PAIR_INDEX, tradeIndex, 2900, 3200);
+
+    const trade = await env.client.tradingOps.getOpenTrade(env.trader, PAIR_INDEX, tradeIndex);
+    expect(trade.tp).toBe(3200);
+    expect(trade.sl).toBe(2900);
+  });
+
+  it('deposits margin', async () => {
+    await env.client.tradingOps.updateMargin(PAIR_INDEX, tradeIndex, MarginUpdateType.DEPOSIT, 25);
+
+    const trade = await env.client.tradingOps.getOpenTrade(env.trader, PAIR_INDEX, tradeIndex);
+    expect(trade.positionSizeUSDC).toBe(125);
+    expect(trade.leverage).toBe(8);
+  });
+
+  it('closes the trade at market', async () => {
+    const receipt = await env.client.tradingOps.closeTradeMarket(PAIR_INDEX, tradeIndex, 125);
+    const handle = env.client.trackOrder(receipt!, track);
+    expect(handle.kind).toBe('marketClose');
+
+    env.chain.executePendingMarketOrders(env.trader);
+    expect((await handle.wait()).status).toBe('executed');
+
+    const closed = await env.client.tradingOps.getOpenTrade(env.trader, PAIR_INDEX, tradeIndex);
+    expect(closed.leverage).toBe(0);
+    expect(await env.client.getUsdcBalance(env.trader)).toBe(10_000);
+  });
+
+  it('places and cancels a limit order', async () => {
+    const tx = await env.client
+      .tradeBuilder()
+      .pair(PAIR)
+      .short()
+      .collateral(100)
+      .leverage(10)
+      .orderType(TradeInputOrderType.LIMIT)
+      .openPrice(3500)
+      .trader(env.trader)
+      .build();
+    const receipt = await env.client.signAndGetReceipt(tx);
+    const handle = env.client.trackOrder(receipt!, track);
+    expect(handle.kind).toBe('limit');
+
+    const order = await env.client.tradingOps.getOpenLimitOrder(env.trader, PAIR_INDEX, 0);
+    expect(order).toMatchObject({ buy: false, price: 3500, positionSize: 100 });
+
+    await env.client.tradingOps.cancelOpenLimitOrder(PAIR_INDEX, handle.index!);
+
+    expect((await handle.wait()).status).toBe('canceled');
+    expect(await env.client.getUsdcBalance(env.trader)).toBe(10_000);
+  });
+
+  it('opens TradeRPC trades for the signer', async () => {
+    const tx = await env.client.tradeRPC.buildTradeOpenTx({
+      pair: PAIR,
+      isLong: true,
+      collateralInTrade: 100,
+      leverage: 10,
+      openPrice: 2500,
+      tp: 0,
+      sl: 0,
+      referrer: ZeroAddress,
+      orderType: TradeInputOrderType.LIMIT,
+      maxSlippageP: 1,
+    });
+    await env.client.signAndGetReceipt(tx);
+
+    const order = await env.client.tradingOps.getOpenLimitOrder(env.trader, PAIR_INDEX, 0);
+    expect(order).toMatchObject({ trader: env.trader, buy: true, price: 2500 });
+
+    await env.client.tradingOps.cancelOpenLimitOrder(PAIR_INDEX, 0);
+  });
+
+  it('decodes reverted transactions into typed errors', async () => {
+    await env.client.revokeUsdcForTrading();
+
+    // A fixed gas limit skips estimation, so the transaction is mined and reverts
+    const builder = env.client
+      .tradeBuilder()
+      .pair(PAIR)
+      .long()
+      .collateral(100)
+      .leverage(10)
+      .trader(env.trader);
+    await expect(
+      env.client.signAndGetReceipt({ ...(await builder.build()), gasLimit: 500_000n })
+    ).rejects.toBeInstanceOf(InsufficientAllowance);
+  });
+});
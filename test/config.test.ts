@@ -0,0 +1,159 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { TraderClient } from '../src/client';
+import {
+  BASE_MAINNET_CHAIN_ID,
+  CONTRACTS,
+  LOCAL_CHAIN_ID,
+  NetworkConfig,
+  getNetworkConfig,
+  registerNetwork,
+  resolveNetworkConfig,
+  setContractAddresses,
+  unregisterNetwork,
+} from '../src/config';
+
+const TESTNET: NetworkConfig = {
+  chainId: 84532,
+  name: 'base-sepolia',
+  rpcUrl: 'https://sepolia.base.org',
+  contracts: { ...CONTRACTS, Trading: '0x0000000000000000000000000000000000000001' },
+  endpoints: {
+    SOCKET_API: 'https://socket.example',
+    PYTH_WS: 'wss://hermes.example/ws',
+    PYTH_HTTP: 'https://hermes.example/v2/updates/price/latest',
+  },
+};
+
+describe('network registry', () => {
+  afterEach(() => {
+    unregisterNetwork(TESTNET.chainId);
+  });
+
+  it('resolves Base mainnet by default', () => {
+    const network = resolveNetworkConfig();
+
+    expect(network.chainId).toBe(BASE_MAINNET_CHAIN_ID);
+    expect(network.contracts).toEqual(CONTRACTS);
+  });
+
+  it('registers networks and rejects unknown or invalid chain IDs', () => {
+    expect(() => resolveNetworkConfig(TESTNET.chainId)).toThrow(
+      'Network with chainId 84532 is not registered'
+    );
+
+    registerNetwork(TESTNET);
+    expect(getNetworkConfig(TESTNET.chainId)).toBe(TESTNET);
+    expect(resolveNetworkConfig(TESTNET.chainId).contracts.Trading).toBe(TESTNET.contracts.Trading);
+
+    expect(() => registerNetwork({ ...TESTNET, chainId: 0 })).toThrow('Invalid chainId');
+    expect(unregisterNetwork(TESTNET.chainId)).toBe(true);
+    expect(getNetworkConfig(TESTNET.chainId)).toBeUndefined();
+  });
+
+  it('applies overrides to an independent copy', () => {
+    registerNetwork(TESTNET);
+
+    const network = resolveNetworkConfig(TESTNET.chainId, {
+      contracts: { USDC: '0x0000000000000000000000000000000000000002' },
+      endpoints: { SOCKET_API: 'https://override.example' },
+    });
+    network.contracts.Referral = '0x0000000000000000000000000000000000000003';
+
+    expect(network.contracts.USDC).toBe('0x0000000000000000000000000000000000000002');
+    expect(network.contracts.Trading).toBe(TESTNET.contracts.Trading);
+    expect(network.endpoints.SOCKET_API).toBe('https://override.example');
+    expect(network.endpoints.PYTH_WS).toBe(TESTNET.endpoints.PYTH_WS);
+    expect(TESTNET.contracts.USDC).toBe(CONTRACTS.USDC);
+    expect(TESTNET.contracts.Referral).toBe(CONTRACTS.Referral);
+  });
+
+  it('applies setContractAddresses to mainnet but not the local fork preset', () => {
+    const referral = CONTRACTS.Referral;
+    setContractAddresses({ Referral: '0x0000000000000000000000000000000000000004' });
+
+    try {
+      expect(resolveNetworkConfig().contracts.Referral).toBe(
+        '0x0000000000000000000000000000000000000004'
+      );
+      expect(resolveNetworkConfig(LOCAL_CHAIN_ID).contracts.Referral).toBe(referral);
+    } finally {
+      setContractAddresses({ Referral: referral });
+    }
+  });
+
+  it('accepts a full configuration without registering it', () => {
+    const network = resolveNetworkConfig(TESTNET);
+
+    expect(network).toEqual(TESTNET);
+    expect(network).not.toBe(TESTNET);
+    expect(getNetworkConfig(TESTNET.chainId)).toBeUndefined();
+  });
+});
+
+describe('TraderClient network check', () => {
+  let server: http.Server;
+  let url: string;
+  let chainId: string;
+  const methods: string[] = [];
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        const payload = JSON.parse(body);
+        const respond = (request: { id: number; method: string }) => {
+          methods.push(request.method);
+          const result = request.method === 'eth_chainId' ? chainId : '0x10';
+          return { jsonrpc: '2.0', id: request.id, result };
+        };
+        const result = Array.isArray(payload) ? payload.map(respond) : respond(payload);
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(result));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    methods.length = 0;
+  });
+
+  it('checks the chain ID once before the first request', async () => {
+    chainId = '0x2105';
+    const client = new TraderClient(url);
+    const verifyNetwork = jest.spyOn(client.provider, 'verifyNetwork');
+
+    await client.provider.getBlockNumber();
+    await client.provider.getBalance(TESTNET.contracts.Trading);
+    client.provider.destroy();
+
+    expect(verifyNetwork).toHaveBeenCalledTimes(1);
+    expect(methods).toContain('eth_getBalance');
+    expect(methods.indexOf('eth_chainId')).toBeLessThan(methods.indexOf('eth_blockNumber'));
+  });
+
+  it('rejects requests when the endpoint serves another chain', async () => {
+    chainId = '0x1';
+    const client = new TraderClient(url);
+
+    const batching = new TraderClient(url, undefined, undefined, { batchCalls: true });
+
+    await expect(client.provider.getBlockNumber()).rejects.toThrow(
+      'Provider chainId 1 does not match network base (chainId 8453)'
+    );
+    await expect(batching.provider.getBlockNumber()).rejects.toThrow(
+      'Provider chainId 1 does not match network base (chainId 8453)'
+    );
+    client.provider.destroy();
+    batching.provider.destroy();
+
+    expect(methods).not.toContain('eth_blockNumber');
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * End-to-end TraderClient suite against a forked chain
+ *
+ * Requires the `anvil` binary (Foundry) and FORK_URL pointing at a Base
+ * mainnet RPC endpoint. Skipped when FORK_URL is not set.
+ *
+ *   FORK_URL=https://mainnet.base.org npm run test:e2e
+ */
+
+import { MarginUpdateType, TradeInputOrderType } from '../../src/types';
+import { Trading__factory } from '../../src/typechain';
+import { AnvilNode, TestEnvironment, createTestEnvironment } from '../harness';
+
+const FORK_URL = process.env.FORK_URL;
+const FORK_BLOCK = process.env.FORK_BLOCK ? Number(process.env.FORK_BLOCK) : undefined;
+const PAIR = process.env.E2E_PAIR ?? 'ETH/USD';
+
+const describeFork = FORK_URL ? describe : describe.skip;
+
+describeFork('TraderClient on a forked chain', () => {
+  let env: TestEnvironment;
+  let pairIndex: number;
+  let tradeIndex: number;
+
+  const track = { pollInterval: 250, timeout: 30_000 };
+
+  beforeAll(async () => {
+    if (!(await AnvilNode.isAvailable())) {
+      throw new Error('anvil not found; install Foundry or set ANVIL_PATH');
+    }
+
+    env = await createTestEnvironment({ forkUrl: FORK_URL, forkBlockNumber: FORK_BLOCK });
+    const index = await env.client.pairsCache.getPairIndex(PAIR);
+    if (index === undefined) {
+      throw new Error(`Pair ${PAIR} not found on the fork`);
+    }
+    pairIndex = index;
+  });
+
+  afterAll(async () => {
+    await env?.stop();
+  });
+
+  it('approves USDC for trading', async () => {
+    await env.client.approveUsdcForTrading(1_000);
+
+    const allowance = await env.client.getUsdcAllowanceForTrading(env.trader);
+    expect(allowance).toBeGreaterThanOrEqual(1_000);
+  });
+
+  it('opens a market trade and tracks it to execution', async () => {
+    const builder = env.client
+      .tradeBuilder()
+      .pair(PAIR)
+      .long()
+      .collateral(100)
+      .leverage(10)
+      .takeProfitPercent(100)
+      .stopLossPercent(50)
+      .trader(env.trader);
+
+    const validation = await builder.validate();
+    expect(validation.errors).toEqual([]);
+
+    const receipt = await env.client.signAndGetReceipt(await builder.build());
+    const handle = env.client.trackOrder(receipt!, track);
+    expect(handle.kind).toBe('marketOpen');
+
+    await env.keeper.executePendingMarketOrders(env.trader);
+    const result = await handle.wait();
+
+    expect(result.status).toBe('executed');
+    expect(result.trade?.buy).toBe(true);
+    tradeIndex = result.trade!.index;
+  });
+
+  it('reports the trade in the portfolio', async () => {
+    const portfolio = await env.client.getPortfolio(env.trader);
+
+    const position = portfolio.positions.find(
+      ({ trade }) => trade.pairIndex === pairIndex && trade.index === tradeIndex
+    );
+    expect(position?.trade.leverage).toBeCloseTo(10, 4);
+    expect(position?.liquidationPrice).toBeGreaterThan(0);
+    expect(portfolio.totals.exposure).toBeGreaterThanOrEqual(position!.trade.positionSizeUSDC * 10);
+    expect(portfolio.usdcAllowance).toBeGreaterThan(0);
+    expect(portfolio.ethBalance).toBeGreaterThan(0);
+  });
+
+  it('updates TP and SL', async () => {
+    const before = await env.client.tradingOps.getOpenTrade(env.trader, pairIndex, tradeIndex);
+    const tp = before.openPrice * 1.05;
+    const sl = before.openPrice * 0.97;
+
+    await env.client.tradingOps.updateTpAndSl(pairIndex, tradeIndex, sl, tp);
+
+    const after = await env.client.tradingOps.getOpenTrade(env.trader, pairIndex, tradeIndex);
+    expect(after.tp).toBeCloseTo(tp, 4);
+    expect(after.sl).toBeCloseTo(sl, 4);
+  });
+
+  it('deposits margin', async () => {
+    const before = await env.client.tradingOps.getOpenTrade(env.trader, pairIndex, tradeIndex);
+
+    await env.client.tradingOps.updateMargin(pairIndex, tradeIndex, MarginUpdateType.DEPOSIT, 20);
+    await env.keeper.executePendingMarketOrders(env.trader);
+
+    const after = await env.client.tradingOps.getOpenTrade(env.trader, pairIndex, tradeIndex);
+    expect(after.positionSizeUSDC).toBeGreaterThan(before.positionSizeUSDC);
+    expect(after.leverage).toBeLessThan(before.leverage);
+  });
+
+  it('closes the trade at market', async () => {
+    const trade = await env.client.tradingOps.getOpenTrade(env.trader, pairIndex, tradeIndex);
+
+    const receipt = await env.client.tradingOps.closeTradeMarket(
+      pairIndex,
+      tradeIndex,
+      trade.positionSizeUSDC
+    );
+    const handle = env.client.trackOrder(receipt!, track);
+    expect(handle.kind).toBe('marketClose');
+
+    await env.keeper.executePendingMarketOrders(env.trader);
+    expect((await handle.wait()).status).toBe('executed');
+
+    const closed = await env.client.tradingOps.getOpenTrade(env.trader, pairIndex, tradeIndex);
+    expect(closed.leverage).toBe(0);
+  });
+
+  it('places and cancels a limit order', async () => {
+    const { openPrice: price } = await env.client
+      .tradeBuilder()
+      .pair(PAIR)
+      .long()
+      .collateral(100)
+      .leverage(10)
+      .trader(env.trader)
+      .toTradeInput();
+
+    const tx = await env.client
+      .tradeBuilder()
+      .pair(PAIR)
+      .long()
+      .collateral(100)
+      .leverage(10)
+      .orderType(TradeInputOrderType.LIMIT)
+      .openPrice(price * 0.8)
+      .trader(env.trader)
+      .build();
+    const receipt = await env.client.signAndGetReceipt(tx);
+    const handle = env.client.trackOrder(receipt!, track);
+    expect(handle.kind).toBe('limit');
+
+    const trading = Trading__factory.connect(env.contracts.Trading, env.node.provider);
+    const timelock = await trading.limitOrdersTimelock();
+    await env.node.mine(Number(timelock) + 1);
+    await env.client.tradingOps.cancelOpenLimitOrder(pairIndex, handle.index!);
+
+    expect((await handle.wait()).status).toBe('canceled');
+  });
+});
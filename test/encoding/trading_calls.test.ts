@@ -0,0 +1,142 @@
+import { ZeroAddress } from 'ethers';
+import {
+  ORDER_TYPE_VALUES,
+  TradingCall,
+  decodeTradingCall,
+  encodeTradingCall,
+  fromOrderTypeValue,
+  toOrderTypeValue,
+  tradeFromInput,
+} from '../../src/encoding/trading_calls';
+import { Trading__factory } from '../../src/typechain';
+import { MarginUpdateType, TradeInputOrderType } from '../../src/types';
+
+const TRADER = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+const DELEGATE = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const PRICE_UPDATE = '0x504e4155';
+
+const trading = Trading__factory.createInterface();
+
+const openTrade = (orderType: TradeInputOrderType): TradingCall => ({
+  name: 'openTrade',
+  trade: {
+    trader: TRADER,
+    pairIndex: 1,
+    index: 0,
+    initialPosToken: 0,
+    positionSizeUSDC: 250.5,
+    openPrice: 3123.4567,
+    buy: true,
+    leverage: 12.5,
+    tp: 3500,
+    sl: 2900.25,
+    timestamp: 0,
+  },
+  orderType,
+  slippageP: 0.5,
+});
+
+const CALLS: TradingCall[] = [
+  ...Object.values(TradeInputOrderType).map(openTrade),
+  { name: 'closeTradeMarket', pairIndex: 1, index: 2, amount: 75.25 },
+  {
+    name: 'updateMargin',
+    pairIndex: 1,
+    index: 2,
+    updateType: MarginUpdateType.WITHDRAW,
+    amount: 10,
+    priceUpdateData: [PRICE_UPDATE],
+  },
+  {
+    name: 'updateTpAndSl',
+    pairIndex: 1,
+    index: 2,
+    sl: 2800,
+    tp: 3600.5,
+    priceUpdateData: [PRICE_UPDATE],
+  },
+  {
+    name: 'updateOpenLimitOrder',
+    pairIndex: 1,
+    index: 2,
+    price: 3000,
+    slippageP: 1,
+    tp: 3300,
+    sl: 2700,
+  },
+  { name: 'cancelOpenLimitOrder', pairIndex: 1, index: 2 },
+  { name: 'setDelegate', delegate: DELEGATE },
+  { name: 'removeDelegate' },
+  {
+    name: 'delegatedAction',
+    trader: TRADER,
+    callData: encodeTradingCall({ name: 'cancelOpenLimitOrder', pairIndex: 1, index: 2 }),
+  },
+];
+
+const label = (call: TradingCall) =>
+  call.name === 'openTrade' ? `openTrade (${call.orderType})` : call.name;
+
+describe('trading calls', () => {
+  it('maps order types to the contract values', () => {
+    expect(ORDER_TYPE_VALUES).toEqual({
+      [TradeInputOrderType.MARKET]: 0,
+      [TradeInputOrderType.STOP_LIMIT]: 1,
+      [TradeInputOrderType.LIMIT]: 2,
+      [TradeInputOrderType.MARKET_ZERO_FEE]: 3,
+    });
+    for (const orderType of Object.values(TradeInputOrderType)) {
+      expect(fromOrderTypeValue(BigInt(toOrderTypeValue(orderType)))).toBe(orderType);
+    }
+    expect(() => fromOrderTypeValue(4)).toThrow('Unknown order type value: 4');
+  });
+
+  it.each(CALLS.map((call) => [label(call), call] as const))('round-trips %s', (_, call) => {
+    expect(decodeTradingCall(encodeTradingCall(call))).toEqual(call);
+  });
+
+  it('encodes openTrade in contract precision', () => {
+    const data = encodeTradingCall(openTrade(TradeInputOrderType.LIMIT));
+    const { args } = trading.parseTransaction({ data })!;
+
+    expect(args[0].positionSizeUSDC).toBe(250_500_000n);
+    expect(args[0].openPrice).toBe(31_234_567_000_000n);
+    expect(args[0].leverage).toBe(125_000_000_000n);
+    expect(args[1]).toBe(2n);
+    expect(args[2]).toBe(5_000_000_000n);
+  });
+
+  it('builds the trade struct from a trade input', () => {
+    const input = {
+      pair: 'ETH/USD',
+      isLong: false,
+      collateralInTrade: 100,
+      leverage: 10,
+      openPrice: 3000,
+      tp: 2700,
+      sl: 3150,
+      referrer: ZeroAddress,
+      orderType: TradeInputOrderType.MARKET,
+      maxSlippageP: 1,
+    };
+
+    expect(tradeFromInput(input, 1, TRADER)).toEqual({
+      trader: TRADER,
+      pairIndex: 1,
+      index: 0,
+      initialPosToken: 0,
+      positionSizeUSDC: 100,
+      openPrice: 3000,
+      buy: false,
+      leverage: 10,
+      tp: 2700,
+      sl: 3150,
+    });
+  });
+
+  it('rejects calldata of other contracts', () => {
+    expect(() => decodeTradingCall('0x12345678')).toThrow(
+      'Calldata does not match any Trading function'
+    );
+  });
+});
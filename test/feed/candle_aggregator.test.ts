@@ -0,0 +1,70 @@
+import { Candle, CandleAggregator } from '../../src/feed/candle_aggregator';
+
+function tick(price: number, publishTime: number) {
+  return { pair: 'ETH/USD', pairIndex: 1, price, conf: 0.5, ema: price, publishTime };
+}
+
+describe('CandleAggregator', () => {
+  it('builds OHLC bars with tick counts and emits them on close', () => {
+    const aggregator = new CandleAggregator(undefined, { intervals: ['1m', '5m'] });
+    const bars: Candle[] = [];
+    aggregator.on('bar', (bar: Candle) => bars.push(bar));
+
+    aggregator.ingest(tick(100, 60));
+    aggregator.ingest(tick(105, 75));
+    aggregator.ingest(tick(98, 90));
+    aggregator.ingest(tick(101, 119));
+    aggregator.ingest(tick(102, 120));
+
+    expect(bars).toEqual([
+      {
+        pair: 'ETH/USD',
+        pairIndex: 1,
+        interval: '1m',
+        openTime: 60,
+        closeTime: 120,
+        open: 100,
+        high: 105,
+        low: 98,
+        close: 101,
+        volume: 4,
+      },
+    ]);
+    expect(aggregator.getCurrentCandle('ETH/USD', '5m')).toMatchObject({
+      openTime: 0,
+      volume: 5,
+      close: 102,
+    });
+  });
+
+  it('closes elapsed bars and drops late ticks', () => {
+    const aggregator = new CandleAggregator(undefined, { intervals: ['1s'] });
+
+    aggregator.ingest(tick(100, 10));
+    aggregator.closeElapsed(11);
+    aggregator.ingest(tick(90, 10));
+
+    expect(aggregator.getCandles('ETH/USD', '1s')).toHaveLength(1);
+    expect(aggregator.getCurrentCandle('ETH/USD', '1s')).toBeUndefined();
+  });
+
+  it('keeps a bounded history and serializes it', () => {
+    const aggregator = new CandleAggregator(undefined, { intervals: ['1s'], maxBars: 2 });
+    for (let second = 0; second < 5; second++) {
+      aggregator.ingest(tick(100 + second, second));
+    }
+
+    const bars = aggregator.getCandles('ETH/USD', '1s');
+    expect(bars.map((bar) => bar.openTime)).toEqual([2, 3]);
+    expect(aggregator.getCandles('ETH/USD', '1s', 1).map((bar) => bar.openTime)).toEqual([3]);
+    expect(aggregator.getCandles('ETH/USD', '1s', 0)).toEqual([]);
+    aggregator.getCandles('ETH/USD', '1s', 1)[0].close = 0;
+    expect(aggregator.getCandles('ETH/USD', '1s', 1)[0].close).toBe(103);
+    expect(JSON.parse(aggregator.toJSON('ETH/USD', '1s'))).toEqual(bars);
+    expect(aggregator.toCSV('ETH/USD', '1s').split('\n')).toEqual([
+      'pair,pairIndex,interval,openTime,closeTime,open,high,low,close,volume',
+      'ETH/USD,1,1s,2,3,102,102,102,102,1',
+      'ETH/USD,1,1s,3,4,103,103,103,103,1',
+    ]);
+  });
+});
@@ -0,0 +1,226 @@
+import { FeedClient, PairPriceUpdate } from '../../src/feed/feed_client';
+import { PairsCache } from '../../src/rpc/pairs_cache';
+import { PriceFeedResponse } from '../../src/types';
+import { MockHermesServer, randomWalk } from '../harness';
+
+const FEED_ID = '0xff61491a931112ddf1bd8147cd1b641375f79f5825126d665480874634fd0ace';
+const BTC_FEED_ID = '0xe62df6c8b4a85fe1a67db44dc12de5db330f7ac66b72dc658afedf0f4a415b43';
+
+const pairsCache = {
+  getPairFeeds: async () => [
+    { pair: 'BTC/USD', pairIndex: 0, feedId: BTC_FEED_ID },
+    { pair: 'ETH/USD', pairIndex: 1, feedId: FEED_ID },
+  ],
+} as unknown as PairsCache;
+
+describe('FeedClient against a mock Hermes', () => {
+  let hermes: MockHermesServer;
+  let client: FeedClient;
+
+  beforeEach(async () => {
+    hermes = await MockHermesServer.start();
+    hermes.setPricePath(FEED_ID, randomWalk(3000, 100));
+    client = new FeedClient(hermes.wsUrl, () => undefined, undefined, hermes.httpUrl);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    client.close();
+    await hermes.stop();
+    jest.restoreAllMocks();
+  });
+
+  function nextUpdate(): Promise<PriceFeedResponse> {
+    return new Promise((resolve) => {
+      const callback = (update: PriceFeedResponse) => {
+        client.unregisterPriceFeedCallback(FEED_ID, callback);
+        resolve(update);
+      };
+      client.registerPriceFeedCallback(FEED_ID, callback);
+    });
+  }
+
+  async function waitFor(condition: () => boolean, timeout: number = 5000): Promise<void> {
+    const deadline = Date.now() + timeout;
+    while (!condition()) {
+      if (Date.now() > deadline) throw new Error('Timed out waiting for condition');
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+  }
+
+  it('subscribes and receives price updates', async () => {
+    const update = nextUpdate();
+    await client.listenForPriceUpdates();
+    await waitFor(() => hermes.subscribedIds.length > 0);
+
+    hermes.tick();
+    const priceFeed = await update;
+
+    expect(hermes.received[0]).toEqual({ type: 'subscribe', ids: [FEED_ID] });
+    expect(Number(priceFeed.price.price) * Math.pow(10, priceFeed.price.expo)).toBeCloseTo(3000, 4);
+    expect(priceFeed.emaPrice.publishTime).toBe(priceFeed.price.publishTime);
+  });
+
+  it('reports malformed messages as errors and keeps streaming', async () => {
+    const errors: Error[] = [];
+    client.on('error', (error) => errors.push(error));
+    client.registerPriceFeedCallback(FEED_ID, () => undefined);
+    await client.listenForPriceUpdates();
+    await waitFor(() => hermes.subscribedIds.length > 0);
+
+    hermes.sendMalformed('invalidJson');
+    hermes.sendMalformed('missingFields');
+    hermes.sendMalformed('wrongTypes');
+    const update = nextUpdate();
+    hermes.tick();
+
+    await expect(update).resolves.toMatchObject({ id: FEED_ID.slice(2) });
+    expect(errors).toHaveLength(3);
+  });
+
+  it('reconnects and resubscribes after a disconnect', async () => {
+    client.registerPriceFeedCallback(FEED_ID, () => undefined);
+    await client.listenForPriceUpdates();
+    await waitFor(() => hermes.subscribedIds.length > 0);
+
+    hermes.disconnectAll();
+    await waitFor(() => hermes.connectionCount === 0);
+    await waitFor(() => hermes.subscribedIds.length > 0, 5000);
+
+    expect(hermes.received.filter((message) => message.type === 'subscribe')).toHaveLength(2);
+  });
+
+  it('emits lifecycle events and resubscribes with backoff', async () => {
+    client.close();
+    client = new FeedClient(hermes.wsUrl, undefined, undefined, hermes.httpUrl, {
+      reconnect: { initialDelay: 50, jitter: 0 },
+    });
+    const events: string[] = [];
+    client.on('connected', () => events.push('connected'));
+    client.on('disconnected', () => events.push('disconnected'));
+    client.on('reconnecting', ({ delay }) => events.push(`reconnecting:${delay}`));
+
+    client.registerPriceFeedCallback(FEED_ID, () => undefined);
+    await client.listenForPriceUpdates();
+    hermes.disconnectAll();
+    await waitFor(() => events.filter((event) => event === 'connected').length === 2);
+    await waitFor(() => hermes.subscribedIds.length > 0);
+
+    expect(events).toEqual(['connected', 'disconnected', 'reconnecting:50', 'connected']);
+  });
+
+  it('flags silent feeds as stale and recovers on the next update', async () => {
+    client.close();
+    client = new FeedClient(hermes.wsUrl, undefined, undefined, hermes.httpUrl, {
+      staleAfter: 200,
+    });
+    const stale = jest.fn();
+    const recovered = jest.fn();
+    client.on('stale', stale);
+    client.on('recovered', recovered);
+
+    client.registerPriceFeedCallback(FEED_ID, () => undefined);
+    await client.listenForPriceUpdates();
+    await waitFor(() => hermes.subscribedIds.length > 0);
+    hermes.tick();
+    await waitFor(() => client.getLastUpdateTime(FEED_ID) !== undefined);
+
+    hermes.setStalled(true);
+    await waitFor(() => stale.mock.calls.length > 0);
+    expect(client.isFeedStale(FEED_ID)).toBe(true);
+
+    hermes.setStalled(false);
+    hermes.tick();
+    await waitFor(() => recovered.mock.calls.length > 0);
+    expect(client.isFeedStale(FEED_ID)).toBe(false);
+    expect(stale.mock.calls[0][0]).toMatchObject({ feedId: FEED_ID });
+  });
+
+  it('does not reconnect after close()', async () => {
+    await client.listenForPriceUpdates();
+    const reconnecting = jest.fn();
+    client.on('reconnecting', reconnecting);
+
+    client.close();
+    await waitFor(() => hermes.connectionCount === 0);
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    expect(reconnecting).not.toHaveBeenCalled();
+    expect(client.isConnected()).toBe(false);
+  });
+
+  it('emits disconnected and onClose when closed by the caller', async () => {
+    const onClose = jest.fn();
+    client.close();
+    client = new FeedClient(hermes.wsUrl, undefined, onClose, hermes.httpUrl);
+    await client.listenForPriceUpdates();
+    const disconnected = new Promise((resolve) => client.on('disconnected', resolve));
+
+    client.close();
+
+    await expect(disconnected).resolves.toMatchObject({ willReconnect: false });
+    expect(onClose).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not schedule reconnects when the first connection fails', async () => {
+    client.close();
+    client = new FeedClient('ws://127.0.0.1:1', undefined, undefined, hermes.httpUrl);
+    const reconnecting = jest.fn();
+    client.on('error', () => undefined);
+    client.on('reconnecting', reconnecting);
+
+    await expect(client.listenForPriceUpdates()).rejects.toThrow();
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    expect(reconnecting).not.toHaveBeenCalled();
+  });
+
+  it('subscribes by pair name with normalized prices', async () => {
+    client.setPairsCache(pairsCache);
+    const updates: PairPriceUpdate[] = [];
+    const unsubscribe = await client.subscribePair('ETH/USD', (update) => updates.push(update));
+    await client.listenForPriceUpdates();
+    await waitFor(() => hermes.subscribedIds.length > 0);
+
+    hermes.tick();
+    await waitFor(() => updates.length > 0);
+    unsubscribe();
+
+    expect(updates[0]).toMatchObject({ pair: 'ETH/USD', pairIndex: 1 });
+    expect(updates[0].price).toBeCloseTo(3000, 4);
+    expect(updates[0].ema).toBeCloseTo(updates[0].price, 4);
+    expect(updates[0].conf).toBeGreaterThan(0);
+    expect(client.getFeedIdForPair('BTC/USD')).toBe(BTC_FEED_ID);
+    await expect(client.subscribePair('DOGE/USD', () => undefined)).rejects.toThrow('not found');
+  });
+
+  it('subscribes to every pair', async () => {
+    hermes.setPricePath(BTC_FEED_ID, randomWalk(60000, 100));
+    client.setPairsCache(pairsCache);
+    const pairs = new Set<string>();
+    await client.subscribeAllPairs((update) => pairs.add(update.pair));
+    await client.listenForPriceUpdates();
+    await waitFor(() => hermes.subscribedIds.length === 2);
+
+    hermes.tick();
+    await waitFor(() => pairs.size === 2);
+
+    expect(Array.from(pairs).sort()).toEqual(['BTC/USD', 'ETH/USD']);
+  });
+
+  it('serves VAA-shaped latest updates over HTTP', async () => {
+    const response = await client.getLatestPriceUpdates([FEED_ID]);
+
+    expect(response.binary.encoding).toBe('hex');
+    expect(response.binary.data[0].startsWith('504e4155')).toBe(true);
+    expect(response.parsed?.[0].id).toBe(FEED_ID.slice(2));
+  });
+
+  it('surfaces injected HTTP failures', async () => {
+    hermes.failNextHttpRequests(503);
+
+    await expect(client.getLatestPriceUpdates([FEED_ID])).rejects.toThrow('Failed to fetch prices');
+    await expect(client.getLatestPriceUpdates([FEED_ID])).resolves.toHaveProperty('parsed');
+  });
+});
@@ -0,0 +1,196 @@
+import { ChildProcess, spawn } from 'child_process';
+import { JsonRpcProvider, toBeHex } from 'ethers';
+import { LOCAL_CHAIN_ID } from '../../src/config';
+import { sleep } from '../../src/utils';
+
+/**
+ * Options for starting a local Anvil node
+ */
+export interface AnvilOptions {
+  /** RPC endpoint to fork (e.g. a Base mainnet archive node) */
+  forkUrl?: string;
+  /** Block to fork from (default: latest) */
+  forkBlockNumber?: number;
+  /** Port to listen on (default: 8545) */
+  port?: number;
+  /** Chain ID reported by the node (default: LOCAL_CHAIN_ID) */
+  chainId?: number;
+  /** Path to the anvil binary (default: `anvil` on PATH or $ANVIL_PATH) */
+  binary?: string;
+  /** Give up waiting for the node after this many milliseconds (default: 30000) */
+  startupTimeout?: number;
+}
+
+/**
+ * A local Anvil node started for a test run
+ * Wraps the process and the anvil_* / evm_* cheat-code RPC methods.
+ */
+export class AnvilNode {
+  public readonly rpcUrl: string;
+  public readonly chainId: number;
+  public readonly provider: JsonRpcProvider;
+  private process: ChildProcess;
+
+  private constructor(process: ChildProcess, rpcUrl: string, chainId: number) {
+    this.process = process;
+    this.rpcUrl = rpcUrl;
+    this.chainId = chainId;
+    this.provider = new JsonRpcProvider(rpcUrl, chainId, { staticNetwork: true });
+  }
+
+  /**
+   * Start an Anvil node and wait until it answers RPC requests
+   * @param options - Node options
+   * @returns Running node
+   */
+  static async start(options: AnvilOptions = {}): Promise<AnvilNode> {
+    const port = options.port ?? 8545;
+    const chainId = options.chainId ?? LOCAL_CHAIN_ID;
+    const binary = options.binary ?? process.env.ANVIL_PATH ?? 'anvil';
+
+    const args = ['--port', String(port), '--chain-id', String(chainId), '--silent'];
+    if (options.forkUrl) {
+      args.push('--fork-url', options.forkUrl);
+      if (options.forkBlockNumber !== undefined) {
+        args.push('--fork-block-number', String(options.forkBlockNumber));
+      }
+    }
+
+    const child = spawn(binary, args, { stdio: ['ignore', 'ignore', 'pipe'] });
+    let stderr = '';
+    child.stderr?.on('data', (chunk) => (stderr += chunk.toString()));
+
+    const spawnError = new Promise<never>((_, reject) => {
+      child.once('error', (error) => reject(new Error(`Failed to start anvil: ${error.message}`)));
+      child.once('exit', (code) => reject(new Error(`anvil exited with code ${code}: ${stderr}`)));
+    });
+
+    const node = new AnvilNode(child, `http://127.0.0.1:${port}`, chainId);
+    try {
+      await Promise.race([node.waitUntilReady(options.startupTimeout ?? 30000), spawnError]);
+    } catch (error) {
+      await node.stop();
+      throw error;
+    }
+    return node;
+  }
+
+  /**
+   * Whether an anvil binary can be found
+   * @param binary - Path to the anvil binary (default: `anvil` on PATH or $ANVIL_PATH)
+   */
+  static async isAvailable(binary: string = process.env.ANVIL_PATH ?? 'anvil'): Promise<boolean> {
+    return await new Promise((resolve) => {
+      const child = spawn(binary, ['--version'], { stdio: 'ignore' });
+      child.once('error', () => resolve(false));
+      child.once('exit', (code) => resolve(code === 0));
+    });
+  }
+
+  /**
+   * Stop the node
+   */
+  async stop(): Promise<void> {
+    this.provider.destroy();
+    if (this.process.exitCode !== null || this.process.signalCode !== null) {
+      return;
+    }
+
+    await new Promise<void>((resolve) => {
+      this.process.once('exit', () => resolve());
+      this.process.kill('SIGTERM');
+    });
+  }
+
+  /**
+   * Set the native balance of an account
+   * @param address - Account address
+   * @param balance - Balance in wei
+   */
+  async setBalance(address: string, balance: bigint): Promise<void> {
+    await this.provider.send('anvil_setBalance', [address, toBeHex(balance)]);
+  }
+
+  /**
+   * Replace the code at an address (e.g. to install a mock contract)
+   * @param address - Contract address
+   * @param bytecode - Runtime bytecode
+   */
+  async setCode(address: string, bytecode: string): Promise<void> {
+    await this.provider.send('anvil_setCode', [address, bytecode]);
+  }
+
+  /**
+   * Write a storage slot
+   * @param address - Contract address
+   * @param slot - Storage slot
+   * @param value - 32-byte value
+   */
+  async setStorageAt(address: string, slot: string, value: string): Promise<void> {
+    await this.provider.send('anvil_setStorageAt', [address, slot, value]);
+  }
+
+  /**
+   * Send transactions from an address without its private key
+   * @param address - Address to impersonate
+   * @returns Signer for the impersonated address
+   */
+  async impersonate(address: string) {
+    await this.provider.send('anvil_impersonateAccount', [address]);
+    return await this.provider.getSigner(address);
+  }
+
+  /**
+   * Stop impersonating an address
+   * @param address - Impersonated address
+   */
+  async stopImpersonating(address: string): Promise<void> {
+    await this.provider.send('anvil_stopImpersonatingAccount', [address]);
+  }
+
+  /**
+   * Mine blocks
+   * @param blocks - Number of blocks (default: 1)
+   */
+  async mine(blocks: number = 1): Promise<void> {
+    await this.provider.send('anvil_mine', [toBeHex(blocks)]);
+  }
+
+  /**
+   * Advance the chain time and mine a block
+   * @param seconds - Seconds to advance
+   */
+  async increaseTime(seconds: number): Promise<void> {
+    await this.provider.send('evm_increaseTime', [seconds]);
+    await this.mine();
+  }
+
+  /**
+   * Take a state snapshot
+   * @returns Snapshot ID
+   */
+  async snapshot(): Promise<string> {
+    return await this.provider.send('evm_snapshot', []);
+  }
+
+  /**
+   * Revert to a state snapshot (the snapshot is consumed)
+   * @param snapshotId - Snapshot ID
+   */
+  async revert(snapshotId: string): Promise<void> {
+    await this.provider.send('evm_revert', [snapshotId]);
+  }
+
+  private async waitUntilReady(timeout: number): Promise<void> {
+    const deadline = Date.now() + timeout;
+    while (Date.now() < deadline) {
+      try {
+        await this.provider.send('eth_chainId', []);
+        return;
+      } catch {
+        await sleep(250);
+      }
+    }
+    throw new Error(`anvil did not become ready within ${timeout}ms`);
+  }
+}
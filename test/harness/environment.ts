@@ -0,0 +1,173 @@
+import { Wallet } from 'ethers';
+import { TraderClient } from '../../src/client';
+import { ContractAddresses, LOCAL_CHAIN_ID, NETWORKS } from '../../src/config';
+import { FeedClient } from '../../src/feed/feed_client';
+import { toBlockchain18 } from '../../src/types';
+import { Trading__factory, TradingStorage__factory } from '../../src/typechain';
+import { AnvilNode, AnvilOptions } from './anvil';
+import { MockBytecode, installMocks, setUsdcBalance } from './fixtures';
+import { LocalKeeper } from './keeper';
+import { ETH_USD_FEED_ID, MockChain, MockChainOptions } from './mock_chain';
+import { MockHermesServer } from './mock_hermes';
+
+/** First default Anvil account */
+export const DEFAULT_TRADER_KEY =
+  '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+
+/**
+ * Options for a local test environment
+ */
+export interface TestEnvironmentOptions extends AnvilOptions {
+  /** Contract addresses (default: the LOCAL_FORK network, i.e. mainnet addresses on a fork) */
+  contracts?: Partial<ContractAddresses>;
+  /** Runtime bytecode installed at the contract addresses before the client connects */
+  mocks?: MockBytecode;
+  /** Private key of the trader account (default: first Anvil account) */
+  traderPrivateKey?: string;
+  /** Initial ETH balance of the trader (default: 10) */
+  initialEth?: number;
+  /** Initial USDC balance of the trader (default: 10000) */
+  initialUsdc?: number;
+  /** Feed client used for Pyth updates (default: Hermes from the network endpoints) */
+  feedClient?: FeedClient;
+}
+
+/**
+ * A running local node with a funded trader and a connected TraderClient
+ */
+export interface TestEnvironment {
+  node: AnvilNode;
+  client: TraderClient;
+  trader: string;
+  contracts: ContractAddresses;
+  keeper: LocalKeeper;
+  /** Stop the node and release the client's connections */
+  stop(): Promise<void>;
+}
+
+/**
+ * Start a local node and connect a TraderClient to it
+ * @param options - Environment options
+ * @returns Test environment
+ */
+export async function createTestEnvironment(
+  options: TestEnvironmentOptions = {}
+): Promise<TestEnvironment> {
+  const node = await AnvilNode.start({ chainId: LOCAL_CHAIN_ID, ...options });
+
+  try {
+    const contracts: ContractAddresses = { ...NETWORKS.LOCAL_FORK.contracts, ...options.contracts };
+    if (options.mocks) {
+      await installMocks(node, contracts, options.mocks);
+    }
+
+    const traderKey = options.traderPrivateKey ?? DEFAULT_TRADER_KEY;
+    const trader = new Wallet(traderKey).address;
+    await node.setBalance(trader, toBlockchain18(options.initialEth ?? 10));
+    await setUsdcBalance(node, contracts.USDC, trader, options.initialUsdc ?? 10000);
+
+    const endpoints = NETWORKS.LOCAL_FORK.endpoints;
+    const feedClient =
+      options.feedClient ??
+      new FeedClient(endpoints.PYTH_WS, undefined, undefined, endpoints.PYTH_HTTP);
+
+    const client = new TraderClient(node.rpcUrl, undefined, feedClient, {
+      network: { ...NETWORKS.LOCAL_FORK, chainId: node.chainId, rpcUrl: node.rpcUrl },
+      contracts,
+    });
+    client.setLocalSigner(traderKey);
+
+    const keeper = new LocalKeeper(
+      node,
+      Trading__factory.connect(contracts.Trading, node.provider),
+      TradingStorage__factory.connect(contracts.TradingStorage, node.provider),
+      client.priceUpdates
+    );
+
+    return {
+      node,
+      client,
+      trader,
+      contracts,
+      keeper,
+      stop: async () => {
+        client.provider.destroy();
+        await node.stop();
+      },
+    };
+  } catch (error) {
+    await node.stop();
+    throw error;
+  }
+}
+
+/**
+ * Options for an offline test environment
+ */
+export interface MockEnvironmentOptions extends MockChainOptions {
+  /** Private key of the trader account (default: first Anvil account) */
+  traderPrivateKey?: string;
+  /** Initial USDC balance of the trader (default: 10000) */
+  initialUsdc?: number;
+}
+
+/**
+ * A mock chain and mock Hermes with a funded trader and a connected TraderClient
+ */
+export interface MockEnvironment {
+  chain: MockChain;
+  hermes: MockHermesServer;
+  client: TraderClient;
+  trader: string;
+  /**
+   * Serve a price from Hermes and execute market orders of the pair at it
+   * @param pairIndex - Pair index
+   * @param price - Price
+   */
+  setPrice(pairIndex: number, price: number): void;
+  /** Stop the servers and release the client's connections */
+  stop(): Promise<void>;
+}
+
+/**
+ * Start a mock chain and mock Hermes and connect a TraderClient to them
+ * Runs without anvil or network access; see MockChain for what is simulated.
+ * @param options - Environment options
+ * @returns Mock environment
+ */
+export async function createMockEnvironment(
+  options: MockEnvironmentOptions = {}
+): Promise<MockEnvironment> {
+  const chain = await MockChain.start(options);
+  const hermes = await MockHermesServer.start();
+  const pairs = options.pairs ?? [{ feedId: ETH_USD_FEED_ID }];
+
+  const traderKey = options.traderPrivateKey ?? DEFAULT_TRADER_KEY;
+  const trader = new Wallet(traderKey).address;
+  chain.setUsdcBalance(trader, options.initialUsdc ?? 10000);
+
+  const client = new TraderClient(chain.rpcUrl, undefined, undefined, {
+    network: { ...NETWORKS.LOCAL_FORK, chainId: chain.chainId, rpcUrl: chain.rpcUrl },
+    contracts: chain.contracts,
+    endpoints: { PYTH_WS: hermes.wsUrl, PYTH_HTTP: hermes.httpUrl },
+  });
+  client.setLocalSigner(traderKey);
+
+  const setPrice = (pairIndex: number, price: number) => {
+    hermes.setPricePath(pairs[pairIndex].feedId, [{ price }]);
+    chain.setPrice(pairIndex, price);
+  };
+  pairs.forEach((_, pairIndex) => setPrice(pairIndex, 3000));
+
+  return {
+    chain,
+    hermes,
+    client,
+    trader,
+    setPrice,
+    stop: async () => {
+      client.provider.destroy();
+      await Promise.all([chain.stop(), hermes.stop()]);
+    },
+  };
+}
@@ -0,0 +1,83 @@
+import { AbiCoder, keccak256, toBeHex } from 'ethers';
+import { ContractAddresses } from '../../src/config';
+import { ERC20__factory } from '../../src/typechain';
+import { toBlockchain6 } from '../../src/types';
+import { AnvilNode } from './anvil';
+
+/**
+ * Runtime bytecode to install at the configured contract addresses
+ * (e.g. compiled mock contracts), keyed by contract name
+ */
+export type MockBytecode = Partial<Record<keyof ContractAddresses, string>>;
+
+const MAX_BALANCE_SLOT = 64;
+const balanceSlots = new Map<string, bigint>();
+
+/**
+ * Install mock contract code at the configured addresses
+ * @param node - Anvil node
+ * @param contracts - Contract addresses
+ * @param bytecode - Runtime bytecode per contract
+ */
+export async function installMocks(
+  node: AnvilNode,
+  contracts: ContractAddresses,
+  bytecode: MockBytecode
+): Promise<void> {
+  for (const [name, code] of Object.entries(bytecode)) {
+    if (!code) continue;
+    await node.setCode(contracts[name as keyof ContractAddresses], code);
+  }
+}
+
+/**
+ * Set a USDC balance by writing the token's balance mapping directly
+ * @param node - Anvil node
+ * @param usdc - USDC token address
+ * @param holder - Account to fund
+ * @param amount - Balance in USDC
+ */
+export async function setUsdcBalance(
+  node: AnvilNode,
+  usdc: string,
+  holder: string,
+  amount: number
+): Promise<void> {
+  const slot = await findBalanceSlot(node, usdc, holder);
+  await node.setStorageAt(usdc, balanceKey(holder, slot), toBeHex(toBlockchain6(amount), 32));
+}
+
+/**
+ * Locate the storage slot of an ERC20's balance mapping by probing
+ * Works for tokens that store balances in a `mapping(address => uint256)`
+ * declared at the top level of the implementation (including proxies).
+ */
+async function findBalanceSlot(node: AnvilNode, token: string, holder: string): Promise<bigint> {
+  const cached = balanceSlots.get(token.toLowerCase());
+  if (cached !== undefined) return cached;
+
+  const erc20 = ERC20__factory.connect(token, node.provider);
+  const probe = 0x5eedn;
+
+  for (let slot = 0n; slot < MAX_BALANCE_SLOT; slot++) {
+    const key = balanceKey(holder, slot);
+    const original = await node.provider.getStorage(token, key);
+
+    await node.setStorageAt(token, key, toBeHex(probe, 32));
+    const balance = await erc20.balanceOf(holder);
+    await node.setStorageAt(token, key, original);
+
+    if (balance === probe) {
+      balanceSlots.set(token.toLowerCase(), slot);
+      return slot;
+    }
+  }
+
+  throw new Error(`Could not find the balance mapping of token ${token}`);
+}
+
+function balanceKey(holder: string, slot: bigint): string {
+  return keccak256(
+    AbiCoder.defaultAbiCoder().encode(['address', 'uint256'], [holder, slot])
+  );
+}
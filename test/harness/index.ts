@@ -0,0 +1,21 @@
+export { AnvilNode, type AnvilOptions } from './anvil';
+export { installMocks, setUsdcBalance, type MockBytecode } from './fixtures';
+export { LocalKeeper } from './keeper';
+export {
+  createMockEnvironment,
+  createTestEnvironment,
+  DEFAULT_TRADER_KEY,
+  type MockEnvironment,
+  type MockEnvironmentOptions,
+  type TestEnvironment,
+  type TestEnvironmentOptions,
+} from './environment';
+export { ETH_USD_FEED_ID, MockChain, type MockChainOptions, type MockPair } from './mock_chain';
+export {
+  MockHermesServer,
+  randomWalk,
+  type PricePoint,
+  type RecordedPriceFeed,
+  type MalformedMessageKind,
+  type MockHermesOptions,
+} from './mock_hermes';
@@ -0,0 +1,84 @@
+import { TransactionReceipt } from 'ethers';
+import { PriceUpdateRPC } from '../../src/rpc/price_updates';
+import { Trading, TradingStorage } from '../../src/typechain';
+import { AnvilNode } from './anvil';
+
+/**
+ * Stand-in for the Avantis keepers on a local node
+ * Executes pending orders by impersonating the Trading operator, with real
+ * Pyth updates fetched through PriceUpdateRPC.
+ */
+export class LocalKeeper {
+  constructor(
+    private node: AnvilNode,
+    private tradingContract: Trading,
+    private tradingStorageContract: TradingStorage,
+    private priceUpdates: PriceUpdateRPC
+  ) {}
+
+  /**
+   * Execute every pending market order of a trader
+   * @param trader - Trader address
+   * @returns Receipt, or null when nothing was pending
+   */
+  async executePendingMarketOrders(trader: string): Promise<TransactionReceipt | null> {
+    const orderIds = [...(await this.tradingStorageContract.getPendingOrderIds(trader))];
+    if (orderIds.length === 0) {
+      return null;
+    }
+
+    const pairIndexes = new Set<number>();
+    for (const orderId of orderIds) {
+      const order = await this.tradingStorageContract.reqIDpendingMarketOrder(orderId);
+      pairIndexes.add(Number(order.trade.pairIndex));
+    }
+
+    const feedIds = await Promise.all(
+      [...pairIndexes].map((pairIndex) => this.priceUpdates.getFeedId(pairIndex))
+    );
+    const priceUpdateData = await this.priceUpdates.getPriceUpdateData(feedIds);
+    const updateFee = await this.priceUpdates.getUpdateFee(priceUpdateData);
+
+    return await this.asOperator((trading) =>
+      trading.executeMarketOrders(orderIds, priceUpdateData, { value: updateFee })
+    );
+  }
+
+  /**
+   * Execute a limit order once its trigger price is reached
+   * @param orderType - Limit order type (see Trading.executeLimitOrder)
+   * @param trader - Trader address
+   * @param pairIndex - Pair index
+   * @param index - Order index
+   * @returns Receipt
+   */
+  async executeLimitOrder(
+    orderType: number,
+    trader: string,
+    pairIndex: number,
+    index: number
+  ): Promise<TransactionReceipt | null> {
+    const { priceUpdateData, updateFee } = await this.priceUpdates.getPriceUpdate(pairIndex);
+
+    return await this.asOperator((trading) =>
+      trading.executeLimitOrder(orderType, trader, pairIndex, index, priceUpdateData, {
+        value: updateFee,
+      })
+    );
+  }
+
+  private async asOperator(
+    send: (trading: Trading) => Promise<{ wait(): Promise<TransactionReceipt | null> }>
+  ): Promise<TransactionReceipt | null> {
+    const operator = await this.tradingContract.operator();
+    await this.node.setBalance(operator, 10n ** 18n);
+    const signer = await this.node.impersonate(operator);
+
+    try {
+      const tx = await send(this.tradingContract.connect(signer));
+      return await tx.wait();
+    } finally {
+      await this.node.stopImpersonating(operator);
+    }
+  }
+}
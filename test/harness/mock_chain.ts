@@ -0,0 +1,948 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import {
+  Interface,
+  Result,
+  Transaction,
+  ZeroAddress,
+  getAddress,
+  keccak256,
+  toBeHex,
+  toQuantity,
+} from 'ethers';
+import { ContractAddresses, LOCAL_CHAIN_ID, NETWORKS } from '../../src/config';
+import {
+  ERC20__factory,
+  PairStorage__factory,
+  PriceAggregator__factory,
+  Pyth__factory,
+  TradingStorage__factory,
+  Trading__factory,
+} from '../../src/typechain';
+import { toBlockchain6, toBlockchain10 } from '../../src/types';
+
+/**
+ * A pair listed on the mock chain
+ */
+export interface MockPair {
+  from: string;
+  to: string;
+  /** Pyth feed ID */
+  feedId: string;
+  /** Leverage range (default: 2x-100x) */
+  minLeverage?: number;
+  maxLeverage?: number;
+  /** Minimum leveraged position in USDC (default: 100) */
+  minPositionSize?: number;
+  /** Max open interest per side in USDC (default: 1,000,000) */
+  maxOpenInterest?: number;
+}
+
+/**
+ * Options for the mock chain
+ */
+export interface MockChainOptions {
+  /** Port to listen on (default: 0, any free port) */
+  port?: number;
+  /** Chain ID reported by the node (default: LOCAL_CHAIN_ID) */
+  chainId?: number;
+  /** Contract addresses (default: the LOCAL_FORK network's) */
+  contracts?: Partial<ContractAddresses>;
+  /** Listed pairs (default: ETH/USD) */
+  pairs?: MockPair[];
+}
+
+/** Pyth ETH/USD feed */
+export const ETH_USD_FEED_ID = '0xff61491a931112ddf1bd8147cd1b641375f79f5825126d665480874634fd0ace';
+
+/** Address PriceAggregator.pyth() reports */
+const PYTH = '0x8250f4aF4B972684F7b336503E2D6dFeDeB1487a';
+const MAX_TRADES_PER_PAIR = 40;
+const GAS_LIMIT = 500_000n;
+const GAS_PRICE = 1_000_000_000n;
+const ETH_BALANCE = 10n ** 19n;
+
+interface TradeState {
+  trader: string;
+  pairIndex: bigint;
+  index: bigint;
+  initialPosToken: bigint;
+  positionSizeUSDC: bigint;
+  openPrice: bigint;
+  buy: boolean;
+  leverage: bigint;
+  tp: bigint;
+  sl: bigint;
+  timestamp: bigint;
+}
+
+interface PendingOrder {
+  trade: TradeState;
+  block: bigint;
+  wantedPrice: bigint;
+  slippageP: bigint;
+  open: boolean;
+  /** Collateral to close (close orders) */
+  amount: bigint;
+}
+
+interface LimitOrderState {
+  trader: string;
+  pairIndex: bigint;
+  index: bigint;
+  positionSize: bigint;
+  buy: boolean;
+  leverage: bigint;
+  tp: bigint;
+  sl: bigint;
+  price: bigint;
+  slippageP: bigint;
+  block: bigint;
+  executionFee: bigint;
+}
+
+/**
+ * Contract state; copied for calls and committed by successful transactions
+ */
+interface ChainState {
+  nonces: Map<string, number>;
+  usdcBalances: Map<string, bigint>;
+  usdcAllowances: Map<string, bigint>;
+  trades: Map<string, TradeState>;
+  limitOrders: Map<string, LimitOrderState>;
+  pendingOrders: Map<number, PendingOrder>;
+  nextOrderId: number;
+}
+
+interface MockLog {
+  address: string;
+  topics: string[];
+  data: string;
+}
+
+interface MockBlock {
+  number: number;
+  hash: string;
+  parentHash: string;
+  timestamp: number;
+  transactions: string[];
+  logs: MockLog[];
+}
+
+interface MinedTransaction {
+  tx: Transaction;
+  blockNumber: number;
+  status: number;
+}
+
+interface CallContext {
+  state: ChainState;
+  from: string;
+  value: bigint;
+  block: number;
+  timestamp: number;
+  logs: MockLog[];
+}
+
+type Handler = (ctx: CallContext, args: Result) => unknown[];
+
+interface MockContract {
+  iface: Interface;
+  handlers: Record<string, Handler>;
+}
+
+class Revert {
+  constructor(public readonly data: string) {}
+}
+
+const erc20 = ERC20__factory.createInterface();
+const trading = Trading__factory.createInterface();
+const tradingStorage = TradingStorage__factory.createInterface();
+const pairStorage = PairStorage__factory.createInterface();
+const builtin = new Interface(['error Error(string)']);
+
+const tradeKey = (trader: string, pairIndex: bigint, index: bigint) =>
+  `${trader.toLowerCase()}:${pairIndex}:${index}`;
+const allowanceKey = (owner: string, spender: string) =>
+  `${owner.toLowerCase()}:${spender.toLowerCase()}`;
+const e10 = (value: number) => toBlockchain10(value);
+
+const EMPTY_TRADE: TradeState = {
+  trader: ZeroAddress,
+  pairIndex: 0n,
+  index: 0n,
+  initialPosToken: 0n,
+  positionSizeUSDC: 0n,
+  openPrice: 0n,
+  buy: false,
+  leverage: 0n,
+  tp: 0n,
+  sl: 0n,
+  timestamp: 0n,
+};
+
+/**
+ * In-process EVM JSON-RPC stand-in with the Avantis contracts simulated
+ * Serves the calls a TraderClient makes to USDC, Trading, TradingStorage,
+ * PairStorage and PriceAggregator from in-memory state, mines one block per
+ * transaction, and plays the keeper so orders can be tracked to execution.
+ * No EVM or network is needed; nothing about fees, PnL or the real contracts'
+ * checks is modeled beyond allowance, balance and leverage.
+ */
+export class MockChain {
+  public readonly rpcUrl: string;
+  public readonly chainId: number;
+  public readonly contracts: ContractAddresses;
+  /** Every JSON-RPC method received, in order */
+  public readonly methods: string[] = [];
+
+  private server: Server;
+  private pairs: MockPair[];
+  private state: ChainState = {
+    nonces: new Map(),
+    usdcBalances: new Map(),
+    usdcAllowances: new Map(),
+    trades: new Map(),
+    limitOrders: new Map(),
+    pendingOrders: new Map(),
+    nextOrderId: 1,
+  };
+  private blocks: MockBlock[] = [];
+  private transactions: Map<string, MinedTransaction> = new Map();
+  private prices: Map<number, bigint> = new Map();
+  private handlers: Map<string, MockContract> = new Map();
+
+  private constructor(server: Server, options: MockChainOptions) {
+    const { port } = server.address() as AddressInfo;
+    this.server = server;
+    this.rpcUrl = `http://127.0.0.1:${port}`;
+    this.chainId = options.chainId ?? LOCAL_CHAIN_ID;
+    this.contracts = { ...NETWORKS.LOCAL_FORK.contracts, ...options.contracts };
+    this.pairs = options.pairs ?? [{ from: 'ETH', to: 'USD', feedId: ETH_USD_FEED_ID }];
+    this.mine([], []);
+    this.registerContracts();
+  }
+
+  /**
+   * Start the chain
+   * @param options - Chain options
+   * @returns Running chain
+   */
+  static async start(options: MockChainOptions = {}): Promise<MockChain> {
+    let instance: MockChain | undefined;
+    const server = createServer((req, res) => instance!.handleHttp(req, res));
+    await new Promise<void>((resolve) => server.listen(options.port ?? 0, '127.0.0.1', resolve));
+    instance = new MockChain(server, options);
+    return instance;
+  }
+
+  /**
+   * Stop the server
+   */
+  async stop(): Promise<void> {
+    this.server.closeAllConnections();
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+
+  /**
+   * Set a USDC balance
+   * @param holder - Account address
+   * @param amount - Balance in USDC
+   */
+  setUsdcBalance(holder: string, amount: number): void {
+    this.state.usdcBalances.set(holder.toLowerCase(), toBlockchain6(amount));
+  }
+
+  /**
+   * Set the price the keeper executes market orders of a pair at
+   * (default: each order's wanted price)
+   * @param pairIndex - Pair index
+   * @param price - Price
+   */
+  setPrice(pairIndex: number, price: number): void {
+    this.prices.set(pairIndex, e10(price));
+  }
+
+  /**
+   * Execute pending market orders the way the keepers do, in a new block
+   * Opens store the trade at the first empty index; closes return the closed
+   * collateral to the trader.
+   * @param trader - Only execute this trader's orders (default: all)
+   * @returns Number of orders executed
+   */
+  executePendingMarketOrders(trader?: string): number {
+    const state = this.state;
+    const { number, timestamp } = this.nextBlock();
+    let executed = 0;
+
+    for (const [orderId, order] of state.pendingOrders) {
+      if (trader && order.trade.trader.toLowerCase() !== trader.toLowerCase()) continue;
+      state.pendingOrders.delete(orderId);
+      executed++;
+
+      const { trade } = order;
+      if (order.open) {
+        const index = BigInt(this.firstEmptyTradeIndex(state, trade.trader, trade.pairIndex));
+        state.trades.set(tradeKey(trade.trader, trade.pairIndex, index), {
+          ...trade,
+          index,
+          openPrice: this.prices.get(Number(trade.pairIndex)) ?? order.wantedPrice,
+          timestamp: BigInt(timestamp),
+        });
+        continue;
+      }
+
+      const key = tradeKey(trade.trader, trade.pairIndex, trade.index);
+      const open = state.trades.get(key);
+      if (!open) continue;
+      const amount = order.amount < open.positionSizeUSDC ? order.amount : open.positionSizeUSDC;
+      this.transferUsdc(state, this.contracts.TradingStorage, trade.trader, amount);
+      if (amount === open.positionSizeUSDC) {
+        state.trades.delete(key);
+      } else {
+        state.trades.set(key, { ...open, positionSizeUSDC: open.positionSizeUSDC - amount });
+      }
+    }
+
+    this.mine([], [], number, timestamp);
+    return executed;
+  }
+
+  private registerContracts(): void {
+    this.register(this.contracts.USDC, erc20, {
+      balanceOf: ({ state }, [holder]) => [this.usdcBalance(state, holder)],
+      allowance: ({ state }, [owner, spender]) => [
+        state.usdcAllowances.get(allowanceKey(owner, spender)) ?? 0n,
+      ],
+      approve: (ctx, [spender, amount]) => {
+        ctx.state.usdcAllowances.set(allowanceKey(ctx.from, spender), amount);
+        this.emit(ctx, this.contracts.USDC, erc20, 'Approval', [ctx.from, spender, amount]);
+        return [true];
+      },
+      decimals: () => [6n],
+      name: () => ['USD Coin'],
+      version: () => ['2'],
+    });
+
+    this.register(PYTH, Pyth__factory.createInterface(), {
+      getUpdateFee: (_, [updateData]) => [BigInt(updateData.length)],
+    });
+
+    this.register(this.contracts.PriceAggregator, PriceAggregator__factory.createInterface(), {
+      pyth: () => [PYTH],
+    });
+
+    this.register(this.contracts.PairStorage, pairStorage, {
+      pairsCount: () => [BigInt(this.pairs.length)],
+      pairs: (_, [index]) => this.pairStruct(this.pair(index)),
+      getPairData: (_, [index]) => {
+        const pair = this.pair(index);
+        return [pair.from, pair.to, 0n, [], []];
+      },
+      pairsBackend: (_, [index]) => {
+        const pair = this.pair(index);
+        return [
+          this.pairStruct(pair),
+          ['Crypto', 0n, false],
+          [0n, 0n, 0n, toBlockchain6(pair.minPositionSize ?? 100), [0n, [], []]],
+        ];
+      },
+      pairMaxLongOI: (_, [index]) => [toBlockchain6(this.pair(index).maxOpenInterest ?? 1e6)],
+      pairMaxShortOI: (_, [index]) => [toBlockchain6(this.pair(index).maxOpenInterest ?? 1e6)],
+      maxWalletOI: () => [0n],
+    });
+
+    this.register(this.contracts.TradingStorage, tradingStorage, {
+      openTrades: ({ state }, [trader, pairIndex, index]) => [
+        state.trades.get(tradeKey(trader, pairIndex, index)) ?? EMPTY_TRADE,
+      ],
+      openTradesInfo: ({ state }, [trader, pairIndex, index]) => {
+        const trade = state.trades.get(tradeKey(trader, pairIndex, index));
+        return [[trade ? this.exposure(trade) : 0n, 0n, 0n, false, 0n]];
+      },
+      openTradesCount: ({ state }, [trader, pairIndex]) => [
+        BigInt(
+          [...state.trades.values()].filter(
+            (trade) =>
+              trade.trader.toLowerCase() === trader.toLowerCase() && trade.pairIndex === pairIndex
+          ).length
+        ),
+      ],
+      firstEmptyTradeIndex: ({ state }, [trader, pairIndex]) => [
+        BigInt(this.firstEmptyTradeIndex(state, trader, pairIndex)),
+      ],
+      maxTradesPerPair: () => [BigInt(MAX_TRADES_PER_PAIR)],
+      getPendingOrderIds: ({ state }, [trader]) => [
+        [...state.pendingOrders]
+          .filter(([, order]) => order.trade.trader.toLowerCase() === trader.toLowerCase())
+          .map(([orderId]) => BigInt(orderId)),
+      ],
+      reqIDpendingMarketOrder: ({ state }, [orderId]) => {
+        const order = state.pendingOrders.get(Number(orderId));
+        return [
+          order
+            ? [order.trade, order.block, order.wantedPrice, order.slippageP]
+            : [EMPTY_TRADE, 0n, 0n, 0n],
+        ];
+      },
+      hasOpenLimitOrder: ({ state }, [trader, pairIndex, index]) => [
+        state.limitOrders.has(tradeKey(trader, pairIndex, index)),
+      ],
+      getOpenLimitOrder: ({ state }, [trader, pairIndex, index]) => {
+        const order = state.limitOrders.get(tradeKey(trader, pairIndex, index));
+        if (!order) throw this.revert('NO_LIMIT');
+        return [order];
+      },
+      pairLongOI: ({ state }, [pairIndex]) => [this.openInterest(state, pairIndex, true)],
+      pairShortOI: ({ state }, [pairIndex]) => [this.openInterest(state, pairIndex, false)],
+      walletOI: ({ state }, [trader]) => [
+        [...state.trades.values()]
+          .filter((trade) => trade.trader.toLowerCase() === trader.toLowerCase())
+          .reduce((total, trade) => total + this.exposure(trade), 0n),
+      ],
+    });
+
+    this.register(this.contracts.Trading, trading, {
+      limitOrdersTimelock: () => [0n],
+      openTrade: (ctx, [t, orderType, slippageP]) => this.openTrade(ctx, t, orderType, slippageP),
+      closeTradeMarket: (ctx, [pairIndex, index, amount]) => {
+        const trade = this.requireTrade(ctx, pairIndex, index);
+        const orderId = this.addPendingOrder(ctx, trade, trade.openPrice, 0n, false, amount);
+        this.emit(ctx, this.contracts.Trading, trading, 'MarketOrderInitiated', [
+          ctx.from,
+          pairIndex,
+          false,
+          orderId,
+          ctx.timestamp,
+          trade.buy,
+        ]);
+        return [orderId];
+      },
+      updateTpAndSl: (ctx, [pairIndex, index, sl, tp]) => {
+        const trade = this.requireTrade(ctx, pairIndex, index);
+        ctx.state.trades.set(tradeKey(ctx.from, pairIndex, index), { ...trade, tp, sl });
+        this.emit(ctx, this.contracts.Trading, trading, 'TpUpdated', [
+          ctx.from,
+          pairIndex,
+          index,
+          tp,
+          ctx.timestamp,
+        ]);
+        this.emit(ctx, this.contracts.Trading, trading, 'SlUpdated', [
+          ctx.from,
+          pairIndex,
+          index,
+          sl,
+          ctx.timestamp,
+        ]);
+        return [];
+      },
+      updateMargin: (ctx, [pairIndex, index, updateType, amount]) => {
+        const trade = this.requireTrade(ctx, pairIndex, index);
+        const deposit = Number(updateType) === 0;
+        const collateral = deposit
+          ? trade.positionSizeUSDC + amount
+          : trade.positionSizeUSDC - amount;
+        if (collateral <= 0n) throw this.revert('WITHDRAW_TOO_BIG');
+        if (deposit) {
+          this.pullUsdc(ctx, amount);
+        } else {
+          this.transferUsdc(ctx.state, this.contracts.TradingStorage, ctx.from, amount);
+        }
+
+        // The leveraged size stays the same
+        const updated = {
+          ...trade,
+          positionSizeUSDC: collateral,
+          leverage: (trade.leverage * trade.positionSizeUSDC) / collateral,
+        };
+        ctx.state.trades.set(tradeKey(ctx.from, pairIndex, index), updated);
+        this.emit(ctx, this.contracts.Trading, trading, 'MarginUpdated', [
+          ctx.from,
+          pairIndex,
+          index,
+          updateType,
+          updated,
+          0n,
+          0n,
+          ctx.timestamp,
+        ]);
+        return [0n];
+      },
+      cancelOpenLimitOrder: (ctx, [pairIndex, index]) => {
+        const key = tradeKey(ctx.from, pairIndex, index);
+        const order = ctx.state.limitOrders.get(key);
+        if (!order) throw this.revert('NO_LIMIT');
+        ctx.state.limitOrders.delete(key);
+        this.transferUsdc(ctx.state, this.contracts.TradingStorage, ctx.from, order.positionSize);
+        this.emit(ctx, this.contracts.Trading, trading, 'OpenLimitCanceled', [
+          ctx.from,
+          pairIndex,
+          index,
+          ctx.timestamp,
+          order.positionSize,
+        ]);
+        return [];
+      },
+    });
+  }
+
+  private openTrade(ctx: CallContext, t: Result, orderType: bigint, slippageP: bigint): unknown[] {
+    // Like the Trading contract, only the sender may open trades for itself
+    if (getAddress(t.trader) !== getAddress(ctx.from)) {
+      throw this.revert('WRONG_TRADER');
+    }
+    const pair = this.pair(t.pairIndex);
+    const leverage = BigInt(t.leverage);
+    if (leverage < e10(pair.minLeverage ?? 2) || leverage > e10(pair.maxLeverage ?? 100)) {
+      throw this.revert('LEVERAGE_INCORRECT');
+    }
+
+    const collateral = BigInt(t.positionSizeUSDC);
+    this.pullUsdc(ctx, collateral);
+    const trade: TradeState = {
+      trader: t.trader,
+      pairIndex: BigInt(t.pairIndex),
+      index: 0n,
+      initialPosToken: 0n,
+      positionSizeUSDC: collateral,
+      openPrice: BigInt(t.openPrice),
+      buy: t.buy,
+      leverage,
+      tp: BigInt(t.tp),
+      sl: BigInt(t.sl),
+      timestamp: BigInt(ctx.timestamp),
+    };
+
+    // 0 = market, 3 = market zero fee; 1 and 2 are stop-limit and limit orders
+    if (orderType === 0n || orderType === 3n) {
+      const orderId = this.addPendingOrder(ctx, trade, trade.openPrice, slippageP, true, 0n);
+      this.emit(ctx, this.contracts.Trading, trading, 'MarketOrderInitiated', [
+        ctx.from,
+        trade.pairIndex,
+        true,
+        orderId,
+        ctx.timestamp,
+        trade.buy,
+      ]);
+      return [orderId];
+    }
+
+    let index = 0n;
+    while (ctx.state.limitOrders.has(tradeKey(ctx.from, trade.pairIndex, index))) index++;
+    ctx.state.limitOrders.set(tradeKey(ctx.from, trade.pairIndex, index), {
+      trader: ctx.from,
+      pairIndex: trade.pairIndex,
+      index,
+      positionSize: collateral,
+      buy: trade.buy,
+      leverage,
+      tp: trade.tp,
+      sl: trade.sl,
+      price: trade.openPrice,
+      slippageP,
+      block: BigInt(ctx.block),
+      executionFee: ctx.value,
+    });
+    this.emit(ctx, this.contracts.Trading, trading, 'OpenLimitPlaced', [
+      ctx.from,
+      trade.pairIndex,
+      index,
+      trade.buy,
+      trade.openPrice,
+      ctx.value,
+      orderType,
+      slippageP,
+      collateral,
+    ]);
+    return [0n];
+  }
+
+  private addPendingOrder(
+    ctx: CallContext,
+    trade: TradeState,
+    wantedPrice: bigint,
+    slippageP: bigint,
+    open: boolean,
+    amount: bigint
+  ): bigint {
+    const orderId = ctx.state.nextOrderId++;
+    ctx.state.pendingOrders.set(orderId, {
+      trade,
+      block: BigInt(ctx.block),
+      wantedPrice,
+      slippageP,
+      open,
+      amount,
+    });
+    return BigInt(orderId);
+  }
+
+  private requireTrade(ctx: CallContext, pairIndex: bigint, index: bigint): TradeState {
+    const trade = ctx.state.trades.get(tradeKey(ctx.from, pairIndex, index));
+    if (!trade) throw this.revert('NO_TRADE');
+    return trade;
+  }
+
+  /**
+   * Move USDC from the sender to TradingStorage, as transferFrom by Trading
+   */
+  private pullUsdc(ctx: CallContext, amount: bigint): void {
+    const key = allowanceKey(ctx.from, this.contracts.Trading);
+    const allowance = ctx.state.usdcAllowances.get(key) ?? 0n;
+    if (allowance < amount) {
+      throw new Revert(
+        erc20.encodeErrorResult('ERC20InsufficientAllowance', [
+          this.contracts.Trading,
+          allowance,
+          amount,
+        ])
+      );
+    }
+    const balance = this.usdcBalance(ctx.state, ctx.from);
+    if (balance < amount) {
+      throw new Revert(
+        erc20.encodeErrorResult('ERC20InsufficientBalance', [ctx.from, balance, amount])
+      );
+    }
+
+    ctx.state.usdcAllowances.set(key, allowance - amount);
+    this.transferUsdc(ctx.state, ctx.from, this.contracts.TradingStorage, amount);
+  }
+
+  private transferUsdc(state: ChainState, from: string, to: string, amount: bigint): void {
+    state.usdcBalances.set(from.toLowerCase(), this.usdcBalance(state, from) - amount);
+    state.usdcBalances.set(to.toLowerCase(), this.usdcBalance(state, to) + amount);
+  }
+
+  private usdcBalance(state: ChainState, holder: string): bigint {
+    return state.usdcBalances.get(holder.toLowerCase()) ?? 0n;
+  }
+
+  private firstEmptyTradeIndex(state: ChainState, trader: string, pairIndex: bigint): number {
+    let index = 0;
+    while (state.trades.has(tradeKey(trader, pairIndex, BigInt(index)))) index++;
+    return index;
+  }
+
+  /** Leveraged position size (1e6) */
+  private exposure(trade: TradeState): bigint {
+    return (trade.positionSizeUSDC * trade.leverage) / 10n ** 10n;
+  }
+
+  private openInterest(state: ChainState, pairIndex: bigint, long: boolean): bigint {
+    return [...state.trades.values()]
+      .filter((trade) => trade.pairIndex === pairIndex && trade.buy === long)
+      .reduce((total, trade) => total + this.exposure(trade), 0n);
+  }
+
+  private pair(index: bigint | number): MockPair {
+    const pair = this.pairs[Number(index)];
+    if (!pair) throw this.revert('WRONG_PAIR');
+    return pair;
+  }
+
+  private pairStruct(pair: MockPair): unknown[] {
+    return [
+      [0n, 0n, pair.feedId],
+      [0n, ZeroAddress],
+      0n,
+      0n,
+      [e10(pair.minLeverage ?? 2), e10(pair.maxLeverage ?? 100), e10(75), e10(250)],
+      0n,
+      0n,
+      0n,
+      0n,
+      [e10(500), 0n, 0n, 0n, 0n, 0n, true],
+    ];
+  }
+
+  private register(address: string, iface: Interface, handlers: Record<string, Handler>): void {
+    this.handlers.set(address.toLowerCase(), { iface, handlers });
+  }
+
+  private emit(
+    ctx: CallContext,
+    address: string,
+    iface: Interface,
+    event: string,
+    args: unknown[]
+  ): void {
+    const { data, topics } = iface.encodeEventLog(event, args);
+    ctx.logs.push({ address: getAddress(address), topics, data });
+  }
+
+  private revert(reason: string): Revert {
+    return new Revert(builtin.encodeErrorResult('Error', [reason]));
+  }
+
+  /**
+   * Run a call against a copy of the state
+   */
+  private execute(
+    tx: { from?: string; to?: string; data?: string; value?: string | bigint },
+    block: { number: number; timestamp: number }
+  ): { state: ChainState; result: string; logs: MockLog[] } {
+    const contract = tx.to ? this.handlers.get(tx.to.toLowerCase()) : undefined;
+    if (!contract) {
+      return { state: this.state, result: '0x', logs: [] };
+    }
+
+    const data = tx.data ?? '0x';
+    const fragment = contract.iface.getFunction(data.slice(0, 10));
+    const handler = fragment && contract.handlers[fragment.name];
+    if (!fragment || !handler) {
+      throw new Error(`Mock chain does not implement ${fragment?.name ?? data.slice(0, 10)}`);
+    }
+
+    const ctx: CallContext = {
+      state: structuredClone(this.state),
+      from: getAddress(tx.from ?? ZeroAddress),
+      value: BigInt(tx.value ?? 0),
+      block: block.number,
+      timestamp: block.timestamp,
+      logs: [],
+    };
+    const values = handler(ctx, contract.iface.decodeFunctionData(fragment, data));
+    return {
+      state: ctx.state,
+      result: contract.iface.encodeFunctionResult(fragment, values),
+      logs: ctx.logs,
+    };
+  }
+
+  private nextBlock(): { number: number; timestamp: number } {
+    const head = this.blocks[this.blocks.length - 1];
+    return {
+      number: this.blocks.length,
+      timestamp: Math.max((head?.timestamp ?? 0) + 1, Math.floor(Date.now() / 1000)),
+    };
+  }
+
+  private mine(transactions: string[], logs: MockLog[], number?: number, timestamp?: number): void {
+    const next = this.nextBlock();
+    const blockNumber = number ?? next.number;
+    this.blocks.push({
+      number: blockNumber,
+      hash: keccak256(toBeHex(blockNumber + 1, 32)),
+      parentHash: this.blocks[blockNumber - 1]?.hash ?? toBeHex(0, 32),
+      timestamp: timestamp ?? next.timestamp,
+      transactions,
+      logs,
+    });
+  }
+
+  private sendRawTransaction(raw: string): string {
+    const tx = Transaction.from(raw);
+    const from = tx.from!.toLowerCase();
+    const nonce = this.state.nonces.get(from) ?? 0;
+    if (tx.nonce !== nonce) {
+      throw new Error(`nonce too low: next nonce ${nonce}, tx nonce ${tx.nonce}`);
+    }
+
+    const block = this.nextBlock();
+    let status = 1;
+    let logs: MockLog[] = [];
+    try {
+      const executed = this.execute(
+        { from: tx.from!, to: tx.to ?? undefined, data: tx.data, value: tx.value },
+        block
+      );
+      this.state = executed.state;
+      logs = executed.logs;
+    } catch (error) {
+      if (!(error instanceof Revert)) throw error;
+      status = 0;
+    }
+
+    this.state.nonces.set(from, nonce + 1);
+    this.transactions.set(tx.hash!, { tx, blockNumber: block.number, status });
+    this.mine([tx.hash!], logs, block.number, block.timestamp);
+    return tx.hash!;
+  }
+
+  private blockNumberOf(tag: string): number {
+    if (tag === 'latest' || tag === 'pending' || tag === 'safe' || tag === 'finalized') {
+      return this.blocks.length - 1;
+    }
+    return tag === 'earliest' ? 0 : Number(tag);
+  }
+
+  private getBlock(tag: string): MockBlock | undefined {
+    return this.blocks[this.blockNumberOf(tag)];
+  }
+
+  private formatBlock(block: MockBlock) {
+    return {
+      number: toQuantity(block.number),
+      hash: block.hash,
+      parentHash: block.parentHash,
+      timestamp: toQuantity(block.timestamp),
+      nonce: '0x0000000000000000',
+      difficulty: '0x0',
+      gasLimit: toQuantity(30_000_000),
+      gasUsed: toQuantity(GAS_LIMIT * BigInt(block.transactions.length)),
+      miner: ZeroAddress,
+      extraData: '0x',
+      baseFeePerGas: toQuantity(GAS_PRICE),
+      transactions: block.transactions,
+    };
+  }
+
+  private formatLogs(block: MockBlock) {
+    return block.logs.map((log, index) => ({
+      ...log,
+      blockNumber: toQuantity(block.number),
+      blockHash: block.hash,
+      transactionHash: block.transactions[0] ?? toBeHex(0, 32),
+      transactionIndex: '0x0',
+      logIndex: toQuantity(index),
+      removed: false,
+    }));
+  }
+
+  private getLogs(filter: {
+    address?: string | string[];
+    topics?: (string | string[] | null)[];
+    fromBlock?: string;
+    toBlock?: string;
+  }) {
+    const from = this.blockNumberOf(filter.fromBlock ?? 'latest');
+    const to = this.blockNumberOf(filter.toBlock ?? 'latest');
+    const addresses = [filter.address ?? []].flat().map((address) => address.toLowerCase());
+    const matches = (topic: string, expected: string | string[] | null) =>
+      expected === null || [expected].flat().some((value) => value.toLowerCase() === topic);
+
+    return this.blocks
+      .slice(from, to + 1)
+      .flatMap((block) => this.formatLogs(block))
+      .filter(
+        (log) =>
+          (addresses.length === 0 || addresses.includes(log.address.toLowerCase())) &&
+          (filter.topics ?? []).every(
+            (expected, i) => log.topics[i] !== undefined && matches(log.topics[i], expected)
+          )
+      );
+  }
+
+  private getReceipt(hash: string) {
+    const mined = this.transactions.get(hash);
+    if (!mined) return null;
+    const block = this.blocks[mined.blockNumber];
+
+    return {
+      transactionHash: hash,
+      transactionIndex: '0x0',
+      blockHash: block.hash,
+      blockNumber: toQuantity(block.number),
+      from: mined.tx.from,
+      to: mined.tx.to,
+      contractAddress: null,
+      cumulativeGasUsed: toQuantity(GAS_LIMIT),
+      gasUsed: toQuantity(GAS_LIMIT),
+      effectiveGasPrice: toQuantity(GAS_PRICE),
+      logs: this.formatLogs(block),
+      logsBloom: `0x${'00'.repeat(256)}`,
+      status: toQuantity(mined.status),
+      type: toQuantity(mined.tx.type ?? 0),
+    };
+  }
+
+  private getTransaction(hash: string) {
+    const mined = this.transactions.get(hash);
+    if (!mined) return null;
+    const { tx } = mined;
+
+    return {
+      hash,
+      blockHash: this.blocks[mined.blockNumber].hash,
+      blockNumber: toQuantity(mined.blockNumber),
+      transactionIndex: '0x0',
+      type: toQuantity(tx.type ?? 0),
+      from: tx.from,
+      to: tx.to,
+      nonce: toQuantity(tx.nonce),
+      gas: toQuantity(tx.gasLimit),
+      gasPrice: toQuantity(tx.maxFeePerGas ?? tx.gasPrice ?? 0n),
+      maxFeePerGas: tx.maxFeePerGas === null ? undefined : toQuantity(tx.maxFeePerGas),
+      maxPriorityFeePerGas:
+        tx.maxPriorityFeePerGas === null ? undefined : toQuantity(tx.maxPriorityFeePerGas),
+      value: toQuantity(tx.value),
+      input: tx.data,
+      chainId: toQuantity(tx.chainId),
+      accessList: [],
+      r: tx.signature!.r,
+      s: tx.signature!.s,
+      yParity: toQuantity(tx.signature!.yParity),
+      v: toQuantity(tx.signature!.v),
+    };
+  }
+
+  private handle(method: string, params: any[]): unknown {
+    this.methods.push(method);
+    switch (method) {
+      case 'eth_chainId':
+        return toQuantity(this.chainId);
+      case 'net_version':
+        return String(this.chainId);
+      case 'eth_blockNumber':
+        return toQuantity(this.blocks.length - 1);
+      case 'eth_getBlockByNumber': {
+        const block = this.getBlock(params[0]);
+        return block ? this.formatBlock(block) : null;
+      }
+      case 'eth_gasPrice':
+        return toQuantity(GAS_PRICE);
+      case 'eth_maxPriorityFeePerGas':
+        return toQuantity(GAS_PRICE / 1000n);
+      case 'eth_getBalance':
+        return toQuantity(ETH_BALANCE);
+      case 'eth_getTransactionCount':
+        return toQuantity(this.state.nonces.get(params[0].toLowerCase()) ?? 0);
+      case 'eth_call':
+        return this.execute(params[0], this.nextBlock()).result;
+      case 'eth_estimateGas':
+        this.execute(params[0], this.nextBlock());
+        return toQuantity(GAS_LIMIT);
+      case 'eth_sendRawTransaction':
+        return this.sendRawTransaction(params[0]);
+      case 'eth_getTransactionReceipt':
+        return this.getReceipt(params[0]);
+      case 'eth_getTransactionByHash':
+        return this.getTransaction(params[0]);
+      case 'eth_getLogs':
+        return this.getLogs(params[0]);
+      default:
+        throw new Error(`Mock chain does not support ${method}`);
+    }
+  }
+
+  private respond(request: { id: number; method: string; params?: any[] }) {
+    try {
+      const result = this.handle(request.method, request.params ?? []);
+      return { jsonrpc: '2.0', id: request.id, result };
+    } catch (error) {
+      const revert = error instanceof Revert;
+      return {
+        jsonrpc: '2.0',
+        id: request.id,
+        error: revert
+          ? { code: 3, message: 'execution reverted', data: error.data }
+          : { code: -32603, message: (error as Error).message },
+      };
+    }
+  }
+
+  private handleHttp(req: IncomingMessage, res: ServerResponse): void {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      const payload = JSON.parse(body);
+      const result = Array.isArray(payload)
+        ? payload.map((request) => this.respond(request))
+        : this.respond(payload);
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(result));
+    });
+  }
+}
@@ -0,0 +1,445 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import WebSocket, { WebSocketServer } from 'ws';
+import { sleep } from '../../src/utils';
+
+/**
+ * One step of a price path
+ */
+export interface PricePoint {
+  price: number;
+  /** Confidence interval (default: 0.05% of price) */
+  conf?: number;
+  /** Unix seconds (default: the time the point is served) */
+  publishTime?: number;
+}
+
+/**
+ * A price feed as recorded from Hermes (`parsed` entries or WS `price_feed`)
+ */
+export interface RecordedPriceFeed {
+  id: string;
+  price: { price: string; conf: string; expo: number; publish_time: number };
+  ema_price?: { price: string; conf: string; expo: number; publish_time: number };
+}
+
+/**
+ * Malformed message kinds the server can inject
+ */
+export type MalformedMessageKind = 'invalidJson' | 'unknownType' | 'missingFields' | 'wrongTypes';
+
+/**
+ * Options for the mock server
+ */
+export interface MockHermesOptions {
+  /** Port to listen on (default: 0, any free port) */
+  port?: number;
+  /** Price exponent used for every feed (default: -8) */
+  expo?: number;
+}
+
+interface FeedState {
+  path: PricePoint[];
+  position: number;
+  ema?: number;
+  current?: PricePoint;
+}
+
+/** Magic prefix of Pyth accumulator updates ("PNAU") */
+const ACCUMULATOR_MAGIC = '504e4155';
+
+/**
+ * Local stand-in for Pyth Hermes
+ * Serves the WebSocket stream (`subscribe` / `price_update`) and the
+ * `/v2/updates/price/latest` HTTP endpoint from synthetic or recorded price
+ * paths, with controls for disconnects, latency, stalls and malformed
+ * messages. Binary updates are VAA-shaped but not signed, so they are not
+ * accepted by a real Pyth contract.
+ */
+export class MockHermesServer {
+  public readonly wsUrl: string;
+  public readonly httpUrl: string;
+  /** Every message received from WebSocket clients, parsed */
+  public readonly received: any[] = [];
+
+  private server: Server;
+  private wss: WebSocketServer;
+  private expo: number;
+  private feeds: Map<string, FeedState> = new Map();
+  private subscriptions: Map<WebSocket, { ids: Set<string>; binary: boolean }> = new Map();
+  private latency = 0;
+  private httpFailures: number[] = [];
+  private playTimer?: NodeJS.Timeout;
+  private stalled = false;
+
+  private constructor(server: Server, wss: WebSocketServer, expo: number) {
+    const { port } = server.address() as AddressInfo;
+    this.server = server;
+    this.wss = wss;
+    this.expo = expo;
+    this.wsUrl = `ws://127.0.0.1:${port}/ws`;
+    this.httpUrl = `http://127.0.0.1:${port}/v2/updates/price/latest`;
+
+    wss.on('connection', (socket) => this.handleConnection(socket));
+  }
+
+  /**
+   * Start the server
+   * @param options - Server options
+   * @returns Running server
+   */
+  static async start(options: MockHermesOptions = {}): Promise<MockHermesServer> {
+    let instance: MockHermesServer | undefined;
+    const server = createServer((req, res) => {
+      instance!.handleHttp(req, res).catch((error) => {
+        res.statusCode = 500;
+        res.end(String(error));
+      });
+    });
+    const wss = new WebSocketServer({ server, path: '/ws' });
+
+    await new Promise<void>((resolve) => server.listen(options.port ?? 0, '127.0.0.1', resolve));
+    instance = new MockHermesServer(server, wss, options.expo ?? -8);
+    return instance;
+  }
+
+  /**
+   * Stop the server and close every connection
+   */
+  async stop(): Promise<void> {
+    this.pause();
+    for (const socket of this.wss.clients) {
+      socket.terminate();
+    }
+    await new Promise<void>((resolve) => this.wss.close(() => resolve()));
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+
+  /**
+   * Set the price path served for a feed (replaces any previous path)
+   * @param feedId - Pyth feed ID (with or without 0x)
+   * @param path - Prices served in order; the last one repeats once the path ends
+   */
+  setPricePath(feedId: string, path: PricePoint[]): void {
+    if (path.length === 0) {
+      throw new Error('Price path must not be empty');
+    }
+    this.feeds.set(normalizeId(feedId), { path, position: 0 });
+  }
+
+  /**
+   * Load a recorded Hermes session
+   * @param recording - Price feeds in the order they were received
+   */
+  loadRecording(recording: RecordedPriceFeed[]): void {
+    const paths = new Map<string, PricePoint[]>();
+    for (const feed of recording) {
+      const id = normalizeId(feed.id);
+      const scale = Math.pow(10, feed.price.expo);
+      const points = paths.get(id) ?? [];
+      points.push({
+        price: Number(feed.price.price) * scale,
+        conf: Number(feed.price.conf) * scale,
+        publishTime: feed.price.publish_time,
+      });
+      paths.set(id, points);
+    }
+    paths.forEach((path, id) => this.setPricePath(id, path));
+  }
+
+  /**
+   * Serve the next point of every feed and push it to subscribers
+   */
+  tick(): void {
+    for (const [id, feed] of this.feeds) {
+      this.advance(feed);
+      if (this.stalled) continue;
+
+      for (const [socket, subscription] of this.subscriptions) {
+        if (subscription.ids.has(id)) {
+          this.send(socket, this.priceUpdateMessage(id, feed, subscription.binary));
+        }
+      }
+    }
+  }
+
+  /**
+   * Tick automatically
+   * @param intervalMs - Interval between ticks (default: 400, Hermes' cadence)
+   */
+  play(intervalMs: number = 400): void {
+    this.pause();
+    this.playTimer = setInterval(() => this.tick(), intervalMs);
+  }
+
+  /**
+   * Stop ticking automatically
+   */
+  pause(): void {
+    if (this.playTimer) {
+      clearInterval(this.playTimer);
+      this.playTimer = undefined;
+    }
+  }
+
+  /**
+   * Keep connections open but stop pushing updates (silent stall)
+   * @param stalled - Whether updates are withheld
+   */
+  setStalled(stalled: boolean): void {
+    this.stalled = stalled;
+  }
+
+  /**
+   * Delay every WebSocket message and HTTP response
+   * @param ms - Latency in milliseconds
+   */
+  setLatency(ms: number): void {
+    this.latency = ms;
+  }
+
+  /**
+   * Fail the next HTTP requests
+   * @param status - HTTP status to return
+   * @param count - Number of requests to fail (default: 1)
+   */
+  failNextHttpRequests(status: number, count: number = 1): void {
+    for (let i = 0; i < count; i++) {
+      this.httpFailures.push(status);
+    }
+  }
+
+  /**
+   * Drop every WebSocket connection
+   * @param code - Close code (default: 1006-like abrupt termination)
+   */
+  disconnectAll(code?: number): void {
+    for (const socket of this.wss.clients) {
+      if (code === undefined) {
+        socket.terminate();
+      } else {
+        socket.close(code);
+      }
+    }
+    this.subscriptions.clear();
+  }
+
+  /**
+   * Send a malformed message to every connected client
+   * @param kind - Kind of malformed message
+   */
+  sendMalformed(kind: MalformedMessageKind): void {
+    const payloads: Record<MalformedMessageKind, string> = {
+      invalidJson: '{"type": "price_update", "price_feed": ',
+      unknownType: JSON.stringify({ type: 'unknown_message', data: 42 }),
+      missingFields: JSON.stringify({ type: 'price_update', price_feed: { id: 'ff' } }),
+      wrongTypes: JSON.stringify({
+        type: 'price_update',
+        price_feed: { id: 42, price: { price: null, conf: [], expo: 'x', publish_time: '' } },
+      }),
+    };
+    for (const socket of this.wss.clients) {
+      this.send(socket, payloads[kind]);
+    }
+  }
+
+  /**
+   * Number of open WebSocket connections
+   */
+  get connectionCount(): number {
+    return this.wss.clients.size;
+  }
+
+  /**
+   * Feed IDs a client connection is subscribed to (union over connections)
+   */
+  get subscribedIds(): string[] {
+    const ids = new Set<string>();
+    this.subscriptions.forEach((subscription) => subscription.ids.forEach((id) => ids.add(id)));
+    return [...ids];
+  }
+
+  private handleConnection(socket: WebSocket): void {
+    this.subscriptions.set(socket, { ids: new Set(), binary: false });
+    socket.on('close', () => this.subscriptions.delete(socket));
+    socket.on('message', (data) => {
+      let message: any;
+      try {
+        message = JSON.parse(data.toString());
+      } catch {
+        this.send(socket, JSON.stringify({ type: 'response', status: 'error', error: 'Invalid JSON' }));
+        return;
+      }
+      this.received.push(message);
+
+      const subscription = this.subscriptions.get(socket);
+      if (!subscription || !Array.isArray(message.ids)) {
+        this.send(socket, JSON.stringify({ type: 'response', status: 'error', error: 'Invalid message' }));
+        return;
+      }
+
+      const ids: string[] = message.ids.map(normalizeId);
+      if (message.type === 'subscribe') {
+        ids.forEach((id) => subscription.ids.add(id));
+        subscription.binary = Boolean(message.binary);
+      } else if (message.type === 'unsubscribe') {
+        ids.forEach((id) => subscription.ids.delete(id));
+      }
+      this.send(socket, JSON.stringify({ type: 'response', status: 'success' }));
+    });
+  }
+
+  private async handleHttp(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    if (this.latency > 0) await sleep(this.latency);
+
+    const url = new URL(req.url ?? '/', 'http://127.0.0.1');
+    if (url.pathname !== '/v2/updates/price/latest') {
+      res.statusCode = 404;
+      res.end('Not found');
+      return;
+    }
+
+    const failure = this.httpFailures.shift();
+    if (failure !== undefined) {
+      res.statusCode = failure;
+      res.end('Injected failure');
+      return;
+    }
+
+    const ids = url.searchParams.getAll('ids[]').map(normalizeId);
+    const unknown = ids.filter((id) => !this.feeds.has(id));
+    if (ids.length === 0 || unknown.length > 0) {
+      res.statusCode = 404;
+      res.end(`Price ids not found: ${unknown.join(', ')}`);
+      return;
+    }
+
+    const parsed = ids.map((id) => {
+      const feed = this.feeds.get(id)!;
+      if (!feed.current) this.advance(feed);
+      return this.priceFeed(id, feed);
+    });
+
+    res.setHeader('Content-Type', 'application/json');
+    res.end(
+      JSON.stringify({
+        binary: { encoding: 'hex', data: [encodeUpdate(parsed)] },
+        parsed,
+      })
+    );
+  }
+
+  private advance(feed: FeedState): void {
+    const point = feed.path[Math.min(feed.position, feed.path.length - 1)];
+    feed.position++;
+    feed.current = {
+      price: point.price,
+      conf: point.conf ?? point.price * 0.0005,
+      publishTime: point.publishTime ?? Math.floor(Date.now() / 1000),
+    };
+    // Hermes' EMA is a smoothed price; a simple exponential average is close enough
+    feed.ema = feed.ema === undefined ? point.price : feed.ema * 0.9 + point.price * 0.1;
+  }
+
+  private priceFeed(id: string, feed: FeedState): RecordedPriceFeed {
+    const current = feed.current!;
+    const scale = Math.pow(10, -this.expo);
+    const toPrice = (price: number, conf: number) => ({
+      price: String(Math.round(price * scale)),
+      conf: String(Math.round(conf * scale)),
+      expo: this.expo,
+      publish_time: current.publishTime!,
+    });
+
+    return {
+      id,
+      price: toPrice(current.price, current.conf!),
+      ema_price: toPrice(feed.ema!, current.conf!),
+    };
+  }
+
+  private priceUpdateMessage(id: string, feed: FeedState, binary: boolean): string {
+    const priceFeed: any = this.priceFeed(id, feed);
+    if (binary) {
+      priceFeed.vaa = Buffer.from(encodeUpdate([priceFeed]), 'hex').toString('base64');
+    }
+    return JSON.stringify({ type: 'price_update', price_feed: priceFeed });
+  }
+
+  private send(socket: WebSocket, payload: string): void {
+    const deliver = () => {
+      if (socket.readyState === WebSocket.OPEN) socket.send(payload);
+    };
+    if (this.latency > 0) {
+      setTimeout(deliver, this.latency);
+    } else {
+      deliver();
+    }
+  }
+}
+
+/**
+ * Generate a deterministic random-walk price path
+ * @param start - Starting price
+ * @param steps - Number of points
+ * @param volatility - Per-step standard deviation as a fraction of price (default: 0.001)
+ * @param seed - PRNG seed (default: 1)
+ * @returns Price path
+ */
+export function randomWalk(
+  start: number,
+  steps: number,
+  volatility: number = 0.001,
+  seed: number = 1
+): PricePoint[] {
+  const random = mulberry32(seed);
+  const path: PricePoint[] = [];
+  let price = start;
+
+  for (let i = 0; i < steps; i++) {
+    path.push({ price });
+    // Box-Muller transform for a normally distributed step
+    const gaussian =
+      Math.sqrt(-2 * Math.log(random() || Number.MIN_VALUE)) * Math.cos(2 * Math.PI * random());
+    price = Math.max(price * (1 + volatility * gaussian), Number.EPSILON);
+  }
+
+  return path;
+}
+
+function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function normalizeId(id: string): string {
+  return id.toLowerCase().replace(/^0x/, '');
+}
+
+/**
+ * Encode price feeds in the layout of a Pyth accumulator update
+ * (magic, version, then one price message per feed); unsigned
+ */
+function encodeUpdate(feeds: RecordedPriceFeed[]): string {
+  const int64 = (value: string | number) => BigInt.asUintN(64, BigInt(value)).toString(16).padStart(16, '0');
+  const uint32 = (value: number) => (value >>> 0).toString(16).padStart(8, '0');
+
+  const messages = feeds.map((feed) =>
+    [
+      '00', // price feed message type
+      feed.id.padStart(64, '0'),
+      int64(feed.price.price),
+      int64(feed.price.conf),
+      uint32(feed.price.expo),
+      int64(feed.price.publish_time),
+    ].join('')
+  );
+
+  return ACCUMULATOR_MAGIC + '0100' + messages.length.toString(16).padStart(2, '0') + messages.join('');
+}
@@ -0,0 +1,273 @@
+import { ZeroAddress } from 'ethers';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { TraderClient } from '../../src/client';
+import { PairPriceUpdate } from '../../src/feed/feed_client';
+import { ConditionalOrderEngine } from '../../src/orders/conditional_orders';
+import { FileOrderStore, MemoryOrderStore } from '../../src/orders/order_store';
+import { ConditionalOrder } from '../../src/orders/types';
+import { Trade, TradeInfo, TradeInputOrderType } from '../../src/types';
+
+const TRADER = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+
+describe('ConditionalOrderEngine', () => {
+  let trade: Trade;
+  let tradeInfo: TradeInfo;
+  let blockNumber: number;
+  let openLimitOrders: Set<number>;
+  let calls: string[];
+  let slUpdate: Promise<void>;
+  let priceCallback: ((update: PairPriceUpdate) => void) | undefined;
+  let pairLookup: Promise<void>;
+  let client: TraderClient;
+  let engine: ConditionalOrderEngine;
+
+  const tick = (price: number) =>
+    priceCallback!({ pair: 'ETH/USD', pairIndex: 1, price, conf: 0, ema: price, publishTime: 0 });
+  const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+  beforeEach(() => {
+    trade = {
+      trader: TRADER,
+      pairIndex: 1,
+      index: 0,
+      initialPosToken: 100,
+      positionSizeUSDC: 100,
+      openPrice: 3000,
+      buy: true,
+      leverage: 10,
+      tp: 3600,
+      sl: 0,
+      timestamp: 0,
+    };
+    tradeInfo = {
+      openInterestUSDC: 1000,
+      tpLastUpdated: 0,
+      slLastUpdated: 0,
+      beingMarketClosed: false,
+      lossProtection: 0,
+    };
+    blockNumber = 100;
+    openLimitOrders = new Set([2, 3]);
+    calls = [];
+    slUpdate = Promise.resolve();
+    priceCallback = undefined;
+    pairLookup = Promise.resolve();
+
+    const tradingOps = {
+      getOpenTrade: async () => ({ ...trade }),
+      getOpenTradeInfo: async () => ({ ...tradeInfo }),
+      getLimitOrdersTimelock: async () => 10,
+      hasOpenLimitOrder: async (_trader: string, _pairIndex: number, index: number) =>
+        openLimitOrders.has(index),
+      updateTpAndSl: async (pairIndex: number, index: number, sl: number, tp: number) => {
+        await slUpdate;
+        calls.push(`updateTpAndSl ${pairIndex}/${index} sl=${sl} tp=${tp}`);
+        trade.sl = sl;
+        tradeInfo.slLastUpdated = blockNumber;
+        return null;
+      },
+      closeTradeMarket: async (pairIndex: number, index: number, amount: number) => {
+        calls.push(`closeTradeMarket ${pairIndex}/${index} ${amount}`);
+        return null;
+      },
+      openTrade: async (opened: Omit<Trade, 'timestamp'>, orderType: TradeInputOrderType) => {
+        calls.push(`openTrade ${opened.trader} ${opened.pairIndex} ${orderType}`);
+        return null;
+      },
+      cancelOpenLimitOrder: async (pairIndex: number, index: number) => {
+        calls.push(`cancelOpenLimitOrder ${pairIndex}/${index}`);
+        openLimitOrders.delete(index);
+        return null;
+      },
+    };
+    const feedClient = {
+      isConnected: () => true,
+      subscribePair: async (_pair: string, callback: (update: PairPriceUpdate) => void) => {
+        priceCallback = callback;
+        return () => {
+          priceCallback = undefined;
+        };
+      },
+    };
+
+    client = {
+      signer: { getAddress: async () => TRADER },
+      provider: { getBlockNumber: async () => blockNumber },
+      pairsCache: {
+        getPairName: async () => {
+          await pairLookup;
+          return 'ETH/USD';
+        },
+        getPairIndex: async (pair: string) => (pair === 'ETH/USD' ? 1 : undefined),
+      },
+      feedClient,
+      tradingOps,
+    } as unknown as TraderClient;
+    engine = new ConditionalOrderEngine(client, { pollInterval: 60000 });
+  });
+
+  afterEach(() => engine.stop());
+
+  it('ratchets the on-chain SL behind the best price and closes when crossed', async () => {
+    await engine.start();
+    const id = await engine.add({ kind: 'trailingStop', pairIndex: 1, tradeIndex: 0, trailP: 5 });
+
+    tick(3000);
+    await settle();
+    expect(calls).toEqual(['updateTpAndSl 1/0 sl=2850 tp=3600']);
+
+    // Lower prices never loosen the stop
+    tick(2900);
+    await settle();
+    expect(engine.get(id)).toMatchObject({ bestPrice: 3000, stopPrice: 2850 });
+
+    // Timelock blocks the next update until enough blocks have passed
+    tick(3200);
+    await settle();
+    expect(calls).toHaveLength(1);
+    expect(engine.get(id)).toMatchObject({ stopPrice: 3040, syncedStopPrice: 2850 });
+
+    blockNumber = 110;
+    await engine.poll();
+    expect(calls[1]).toBe('updateTpAndSl 1/0 sl=3040 tp=3600');
+
+    const triggered: ConditionalOrder[] = [];
+    engine.on('triggered', (order: ConditionalOrder) => triggered.push(order));
+    tick(3030);
+    await settle();
+
+    expect(calls[2]).toBe('closeTradeMarket 1/0 100');
+    expect(triggered.map((order) => order.id)).toEqual([id]);
+    expect(priceCallback).toBeUndefined();
+  });
+
+  it('closes the trade while an SL update is still pending', async () => {
+    let confirmSl!: () => void;
+    slUpdate = new Promise((resolve) => (confirmSl = resolve));
+    await engine.start();
+    const id = await engine.add({ kind: 'trailingStop', pairIndex: 1, tradeIndex: 0, trailP: 5 });
+
+    tick(3000);
+    await settle();
+    tick(2840);
+    await settle();
+
+    expect(calls).toEqual(['closeTradeMarket 1/0 100']);
+    expect(engine.get(id)?.status).toBe('triggered');
+
+    confirmSl();
+    await settle();
+    expect(engine.get(id)?.status).toBe('triggered');
+  });
+
+  it('leaves no subscription behind when stopped while subscribing', async () => {
+    let resolvePair!: () => void;
+    pairLookup = new Promise((resolve) => (resolvePair = resolve));
+    await engine.start();
+
+    const added = engine.add({ kind: 'trailingStop', pairIndex: 1, tradeIndex: 0, trailP: 5 });
+    await settle();
+    engine.stop();
+    resolvePair();
+    await added;
+
+    expect(priceCallback).toBeUndefined();
+  });
+
+  it('throttles saves of trailing stop moves and flushes them on stop', async () => {
+    const store = new MemoryOrderStore();
+    const save = jest.spyOn(store, 'save');
+    engine = new ConditionalOrderEngine(client, { store, pollInterval: 60000 });
+    await engine.start();
+    await engine.add({ kind: 'trailingStop', pairIndex: 1, tradeIndex: 0, trailP: 5 });
+    tick(3000);
+    await settle();
+    save.mockClear();
+
+    // The timelock holds the on-chain SL, so only the throttled save could write
+    for (const price of [3100, 3200, 3300, 3400]) {
+      tick(price);
+      await settle();
+    }
+    expect(save).not.toHaveBeenCalled();
+
+    engine.stop();
+    expect(save).toHaveBeenCalledTimes(1);
+    expect(save.mock.calls[0][0][0]).toMatchObject({ bestPrice: 3400, syncedStopPrice: 2850 });
+  });
+
+  it('cancels the other leg of an OCO once one order leaves the book', async () => {
+    await engine.start();
+    const id = await engine.add({ kind: 'oco', pairIndex: 1, orderIndexes: [2, 3] });
+
+    await engine.poll();
+    expect(calls).toEqual([]);
+
+    openLimitOrders.delete(2);
+    await engine.poll();
+
+    expect(calls).toEqual(['cancelOpenLimitOrder 1/3']);
+    expect(engine.get(id)?.status).toBe('triggered');
+  });
+
+  it('opens trades for the signer through tradingOps when a price trigger fires', async () => {
+    await engine.start();
+    const id = await engine.add({
+      kind: 'priceTrigger',
+      pairIndex: 1,
+      when: 'below',
+      price: 2900,
+      action: {
+        type: 'open',
+        tradeInput: {
+          pair: 'ETH/USD',
+          isLong: true,
+          collateralInTrade: 100,
+          leverage: 10,
+          openPrice: 2900,
+          tp: 0,
+          sl: 0,
+          referrer: ZeroAddress,
+          orderType: TradeInputOrderType.MARKET,
+          maxSlippageP: 1,
+        },
+      },
+    });
+
+    tick(2950);
+    await settle();
+    expect(calls).toEqual([]);
+
+    tick(2890);
+    await settle();
+    expect(calls).toEqual([`openTrade ${TRADER} 1 ${TradeInputOrderType.MARKET}`]);
+    expect(engine.get(id)?.status).toBe('triggered');
+  });
+
+  it('persists orders and runs time exits after a restart', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'orders-'));
+    const file = path.join(dir, 'orders.json');
+
+    try {
+      const id = await engine.add({ kind: 'timeExit', pairIndex: 1, tradeIndex: 0, at: 0 });
+      await new FileOrderStore(file).save(engine.list());
+
+      const restarted = new ConditionalOrderEngine(client, {
+        store: new FileOrderStore(file),
+        pollInterval: 60000,
+      });
+      expect(await restarted.cancel('unknown')).toBe(false);
+      await restarted.poll();
+
+      expect(calls).toEqual(['closeTradeMarket 1/0 100']);
+      expect(restarted.get(id)?.status).toBe('triggered');
+
+      const stored = JSON.parse(await fs.readFile(file, 'utf8')) as ConditionalOrder[];
+      expect(stored).toMatchObject([{ id, kind: 'timeExit', status: 'triggered' }]);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,118 @@
+import { AbiCoder, Interface, TransactionRequest, isCallException } from 'ethers';
+import { MulticallBatcher } from '../../src/rpc/batching_provider';
+import { ERC20__factory, Multicall__factory } from '../../src/typechain';
+
+const MULTICALL = '0xb7125506Ff25211c4C51DFD8DdED00BE6Fa8Cbf7';
+const TOKEN = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913';
+const BROKEN = '0x000000000000000000000000000000000000dEaD';
+
+const multicall = Multicall__factory.createInterface();
+const erc20 = ERC20__factory.createInterface();
+const errorData = new Interface(['error Error(string)']).encodeErrorResult('Error', ['broken']);
+
+/**
+ * Fake node: executes aggregate3 against a token whose balanceOf(a) returns
+ * the last byte of `a`, and a contract that always reverts
+ */
+class FakeNode {
+  requests: TransactionRequest[] = [];
+  gasCap = Infinity;
+  offline = false;
+
+  async call(tx: TransactionRequest): Promise<string> {
+    this.requests.push(tx);
+    if (this.offline) {
+      throw new Error('connect ECONNREFUSED 127.0.0.1:8545');
+    }
+    if (tx.to === MULTICALL) {
+      const [calls] = multicall.decodeFunctionData('aggregate3', tx.data!);
+      if (calls.length > this.gasCap) {
+        throw new Error('out of gas');
+      }
+      const results = calls.map((call: { target: string; callData: string }) =>
+        this.execute(call.target, call.callData)
+      );
+      return multicall.encodeFunctionResult('aggregate3', [results]);
+    }
+
+    const result = this.execute(tx.to as string, tx.data!);
+    if (!result.success) throw new Error('execution reverted');
+    return result.returnData;
+  }
+
+  private execute(target: string, callData: string) {
+    if (target === BROKEN) {
+      return { success: false, returnData: errorData };
+    }
+    const [account] = erc20.decodeFunctionData('balanceOf', callData);
+    const balance = BigInt(parseInt(account.slice(-2), 16));
+    return { success: true, returnData: AbiCoder.defaultAbiCoder().encode(['uint256'], [balance]) };
+  }
+}
+
+function balanceOf(batcher: MulticallBatcher, index: number): Promise<bigint> {
+  const account = `0x${index.toString(16).padStart(40, '0')}`;
+  return batcher
+    .call(TOKEN, erc20.encodeFunctionData('balanceOf', [account]))
+    .then((data) => erc20.decodeFunctionResult('balanceOf', data)[0]);
+}
+
+describe('MulticallBatcher', () => {
+  it('coalesces calls made in the same tick into one aggregate3', async () => {
+    const node = new FakeNode();
+    const batcher = new MulticallBatcher(node, MULTICALL);
+
+    const balances = await Promise.all([1, 2, 3, 4].map((index) => balanceOf(batcher, index)));
+
+    expect(balances).toEqual([1n, 2n, 3n, 4n]);
+    expect(node.requests).toHaveLength(1);
+    expect(batcher.getStats()).toEqual({ calls: 4, batches: 1, direct: 0 });
+  });
+
+  it('rejects only the reverting call with its revert data', async () => {
+    const batcher = new MulticallBatcher(new FakeNode(), MULTICALL);
+
+    const [ok, failed] = await Promise.allSettled([
+      balanceOf(batcher, 7),
+      batcher.call(BROKEN, erc20.encodeFunctionData('totalSupply')),
+    ]);
+
+    expect(ok).toEqual({ status: 'fulfilled', value: 7n });
+    expect(failed.status).toBe('rejected');
+    const reason = (failed as PromiseRejectedResult).reason;
+    expect(isCallException(reason)).toBe(true);
+    expect(reason.data).toBe(errorData);
+  });
+
+  it('splits batches by call count', async () => {
+    const node = new FakeNode();
+    const batcher = new MulticallBatcher(node, MULTICALL, { maxCallsPerBatch: 3 });
+
+    await Promise.all([1, 2, 3, 4, 5, 6, 7].map((index) => balanceOf(batcher, index)));
+
+    expect(node.requests).toHaveLength(3);
+  });
+
+  it('halves batches the node refuses', async () => {
+    const node = new FakeNode();
+    node.gasCap = 2;
+    const batcher = new MulticallBatcher(node, MULTICALL);
+
+    const balances = await Promise.all([1, 2, 3, 4, 5].map((index) => balanceOf(batcher, index)));
+
+    expect(balances).toEqual([1n, 2n, 3n, 4n, 5n]);
+    expect(batcher.getStats().direct).toBe(1);
+  });
+
+  it('fails the batch on transport errors without halving', async () => {
+    const node = new FakeNode();
+    node.offline = true;
+    const batcher = new MulticallBatcher(node, MULTICALL);
+
+    const results = await Promise.allSettled([1, 2, 3, 4].map((index) => balanceOf(batcher, index)));
+
+    expect(results.every((result) => result.status === 'rejected')).toBe(true);
+    expect(node.requests).toHaveLength(1);
+    expect(batcher.getStats()).toEqual({ calls: 4, batches: 1, direct: 0 });
+  });
+});
@@ -0,0 +1,251 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { AbiCoder, FeeData, Interface, keccak256, makeError } from 'ethers';
+import { TraderClient } from '../../src/client';
+import { CONTRACTS } from '../../src/config';
+import { decodeRevertData } from '../../src/encoding/revert_data';
+import {
+  ContractRevertError,
+  InsufficientAllowance,
+  Paused,
+  decodeContractError,
+  isEmptyRevert,
+} from '../../src/errors';
+import { LocalSigner } from '../../src/signers/local';
+import { TransactionManager } from '../../src/transactions/transaction_manager';
+import { ERC20__factory, Trading__factory } from '../../src/typechain';
+import { TradeInputOrderType } from '../../src/types';
+
+const PRIVATE_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const TRADER = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+const DELEGATE = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+// Storage layout of the fake USDC: balances at slot 9, allowances at slot 10
+const BALANCE_SLOT = 9n;
+const ALLOWANCE_SLOT = 10n;
+
+const coder = AbiCoder.defaultAbiCoder();
+const erc20 = ERC20__factory.createInterface();
+const trading = Trading__factory.createInterface();
+const builtin = new Interface(['error Error(string)', 'error Panic(uint256)']);
+
+const balanceKey = (holder: string, slot: bigint) =>
+  keccak256(coder.encode(['address', 'uint256'], [holder, slot]));
+const allowanceKey = (owner: string, spender: string, slot: bigint) =>
+  keccak256(coder.encode(['address', 'bytes32'], [spender, balanceKey(owner, slot)]));
+
+class RevertError {
+  constructor(public data: string) {}
+}
+
+/**
+ * Executes calls against fake USDC, Trading and Referral contracts, honouring
+ * eth_call state overrides of the USDC storage
+ */
+function execute(
+  tx: { to: string; data: string },
+  overrides: Record<string, { stateDiff?: Record<string, string> }> = {}
+): string {
+  const storage: Record<string, string> =
+    Object.entries(overrides).find(
+      ([address]) => address.toLowerCase() === CONTRACTS.USDC.toLowerCase()
+    )?.[1]?.stateDiff ?? {};
+  const read = (key: string) => BigInt(storage[key] ?? 0);
+
+  const to = tx.to.toLowerCase();
+  if (to === CONTRACTS.USDC.toLowerCase()) {
+    const { name, args } = erc20.parseTransaction({ data: tx.data })!;
+    const key =
+      name === 'balanceOf'
+        ? balanceKey(args[0], BALANCE_SLOT)
+        : allowanceKey(args[0], args[1], ALLOWANCE_SLOT);
+    return coder.encode(['uint256'], [read(key)]);
+  }
+
+  if (to === CONTRACTS.Referral.toLowerCase()) {
+    throw new RevertError(builtin.encodeErrorResult('Error', ['Code taken']));
+  }
+
+  const { name } = trading.parseTransaction({ data: tx.data })!;
+  if (name === 'closeTradeMarket') {
+    throw new RevertError(builtin.encodeErrorResult('Error', ['PAUSED']));
+  }
+  if (name === 'openTrade') {
+    const allowance = read(allowanceKey(TRADER, CONTRACTS.Trading, ALLOWANCE_SLOT));
+    if (allowance < 100_000_000n) {
+      throw new RevertError(
+        erc20.encodeErrorResult('ERC20InsufficientAllowance', [
+          CONTRACTS.Trading,
+          allowance,
+          100_000_000n,
+        ])
+      );
+    }
+  }
+  return '0x';
+}
+
+const methods: string[] = [];
+
+function handle(method: string, params: any[]): unknown {
+  methods.push(method);
+  switch (method) {
+    case 'eth_chainId':
+      return '0x2105';
+    case 'eth_call':
+      return execute(params[0], params[2]);
+    case 'eth_estimateGas':
+      execute(params[0], params[2]);
+      return '0xea60';
+    default:
+      throw new Error(`Unexpected method ${method}`);
+  }
+}
+
+function respond(request: { id: number; method: string; params: any[] }) {
+  try {
+    return { jsonrpc: '2.0', id: request.id, result: handle(request.method, request.params) };
+  } catch (error) {
+    if (!(error instanceof RevertError)) throw error;
+    return {
+      jsonrpc: '2.0',
+      id: request.id,
+      error: { code: 3, message: 'execution reverted', data: error.data },
+    };
+  }
+}
+
+describe('dry runs', () => {
+  let server: http.Server;
+  let client: TraderClient;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        const payload = JSON.parse(body);
+        const result = Array.isArray(payload) ? payload.map(respond) : respond(payload);
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(result));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+    client = new TraderClient(`http://127.0.0.1:${(server.address() as AddressInfo).port}`);
+    jest
+      .spyOn(client.provider, 'getFeeData')
+      .mockResolvedValue(new FeeData(null, 2_000_000_000n, 1_000_000n));
+  });
+
+  afterAll(async () => {
+    client.provider.destroy();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    methods.length = 0;
+  });
+
+  it('simulates write calls without a signer and estimates gas and fee', async () => {
+    const results = await client.simulate(() => client.delegation.setDelegate(DELEGATE), {
+      from: TRADER,
+    });
+
+    expect(results).toHaveLength(1);
+    expect(results[0]).toMatchObject({
+      success: true,
+      gasLimit: 60_000n,
+      maxFeePerGas: 2_000_000_000n,
+      fee: 0.00012,
+    });
+    expect(results[0].request.from).toBe(TRADER);
+    expect(methods).not.toContain('eth_sendRawTransaction');
+  });
+
+  it('decodes revert strings', async () => {
+    const [result] = await client.simulate(() => client.referral.setReferralCode('taken'), {
+      from: TRADER,
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.gasLimit).toBeUndefined();
+    expect(result.revert).toMatchObject({ name: 'Error', message: 'Code taken' });
+    expect(result.error).toBeInstanceOf(ContractRevertError);
+  });
+
+  it('applies USDC balance and allowance overrides found by probing', async () => {
+    const trade = {
+      trader: TRADER,
+      pairIndex: 1,
+      index: 0,
+      initialPosToken: 0,
+      positionSizeUSDC: 100,
+      openPrice: 3000,
+      buy: true,
+      leverage: 10,
+      tp: 3300,
+      sl: 2800,
+    };
+    const openTrade = () =>
+      client.tradingOps.openTrade(trade, TradeInputOrderType.MARKET, 1, 0.0001);
+
+    const [rejected] = await client.simulate(openTrade, { from: TRADER });
+    expect(rejected.revert).toMatchObject({
+      name: 'ERC20InsufficientAllowance',
+      args: [CONTRACTS.Trading, 0n, 100_000_000n],
+    });
+    expect(rejected.error).toBeInstanceOf(InsufficientAllowance);
+
+    const [accepted] = await client.simulate(openTrade, {
+      from: TRADER,
+      usdcBalance: 100,
+      usdcAllowance: 100,
+    });
+    expect(accepted.success).toBe(true);
+  });
+
+  it('refuses to broadcast inside a dry run', async () => {
+    await expect(
+      client.simulate(() => client.transactions.send({ to: DELEGATE }), { from: TRADER })
+    ).rejects.toThrow('Transactions cannot be broadcast during a dry run');
+  });
+
+  it('throws typed errors when gas estimation reverts', async () => {
+    const transactions = new TransactionManager(
+      client.provider,
+      new LocalSigner(PRIVATE_KEY, client.provider)
+    );
+    const tx = {
+      to: CONTRACTS.Trading,
+      data: trading.encodeFunctionData('closeTradeMarket', [1, 0, 100_000_000n]),
+    };
+
+    const error = await transactions.send(tx).catch((caught) => caught);
+    expect(error).toBeInstanceOf(Paused);
+    expect(error.message).toBe('Trading is paused (PAUSED)');
+    expect(methods).not.toContain('eth_sendRawTransaction');
+  });
+
+  it('describes panics', () => {
+    expect(decodeRevertData(builtin.encodeErrorResult('Panic', [0x11])).message).toBe(
+      'panic: arithmetic overflow or underflow'
+    );
+  });
+
+  it('recognizes reverts without data, raw or decoded', () => {
+    const revert = (data: string) =>
+      makeError('execution reverted', 'CALL_EXCEPTION', {
+        action: 'call',
+        data,
+        reason: null,
+        invocation: null,
+        revert: null,
+        transaction: { to: null, data: '' },
+      });
+
+    expect(isEmptyRevert(revert('0x'))).toBe(true);
+    expect(isEmptyRevert(decodeContractError(revert('0x')))).toBe(true);
+    expect(isEmptyRevert(revert(builtin.encodeErrorResult('Error', ['PAUSED'])))).toBe(false);
+    expect(isEmptyRevert(new Error('network down'))).toBe(false);
+  });
+});
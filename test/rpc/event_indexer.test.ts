@@ -0,0 +1,209 @@
+import { Filter, Log, Provider } from 'ethers';
+import { EventIndexer } from '../../src/rpc/event_indexer';
+import { TradingStorage__factory, Trading__factory } from '../../src/typechain';
+import { TradingEvent } from '../../src/types';
+
+const TRADING = '0x44914408af82bC9983bbb330e3578E1105e11d4e';
+const TRADING_STORAGE = '0x8a311D7048c35985aa31C131B9A13e03a5f7422d';
+const TRADER = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+const OTHER = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+
+const trading = Trading__factory.connect(TRADING);
+const tradingStorage = TradingStorage__factory.connect(TRADING_STORAGE);
+
+/**
+ * Fake node serving eth_getLogs from an in-memory log list
+ */
+class FakeNode {
+  logs: Log[] = [];
+  ranges: [number, number][] = [];
+  blockNumber = 0;
+  failBlockNumber = false;
+
+  add(address: string, encoded: { topics: string[]; data: string }, blockNumber: number) {
+    this.logs.push({
+      address,
+      ...encoded,
+      blockNumber,
+      transactionHash: `0x${blockNumber.toString(16).padStart(64, '0')}`,
+      index: this.logs.length,
+    } as unknown as Log);
+  }
+
+  async getBlockNumber(): Promise<number> {
+    if (this.failBlockNumber) throw new Error('node down');
+    return this.blockNumber;
+  }
+
+  async getLogs(filter: Filter): Promise<Log[]> {
+    const fromBlock = Number(filter.fromBlock);
+    const toBlock = Number(filter.toBlock);
+    this.ranges.push([fromBlock, toBlock]);
+    const [names, trader] = filter.topics as [string[], string | undefined];
+
+    return this.logs.filter(
+      (log) =>
+        log.address === filter.address &&
+        names.includes(log.topics[0]) &&
+        (!trader || log.topics[1] === trader) &&
+        log.blockNumber >= fromBlock &&
+        log.blockNumber <= toBlock
+    );
+  }
+}
+
+function marketOrder(trader: string, orderId: number) {
+  return trading.interface.encodeEventLog('MarketOrderInitiated', [
+    trader,
+    1,
+    true,
+    orderId,
+    1_700_000_000,
+    true,
+  ]);
+}
+
+describe('EventIndexer', () => {
+  let node: FakeNode;
+  let indexer: EventIndexer;
+
+  beforeEach(() => {
+    node = new FakeNode();
+    indexer = new EventIndexer(node as unknown as Provider, trading, tradingStorage, 100);
+  });
+
+  it('decodes logs into typed events with decimal values', () => {
+    node.add(
+      TRADING,
+      trading.interface.encodeEventLog('OpenLimitPlaced', [
+        TRADER,
+        2,
+        3,
+        false,
+        30_000_000_000_000n,
+        10n ** 15n,
+        1,
+        10_000_000_000n,
+        250_000_000n,
+      ]),
+      7
+    );
+    node.add(
+      TRADING_STORAGE,
+      tradingStorage.interface.encodeEventLog('OIUpdated', [
+        true,
+        false,
+        2,
+        2_500_000_000n,
+        30_000_000_000_000n,
+      ]),
+      7
+    );
+    node.add(TRADING, trading.interface.encodeEventLog('Paused', [TRADER]), 7);
+
+    const [placed, oi, paused] = node.logs.map((log) => indexer.decodeLog(log));
+
+    expect(placed).toEqual({
+      eventName: 'OpenLimitPlaced',
+      blockNumber: 7,
+      transactionHash: node.logs[0].transactionHash,
+      logIndex: 0,
+      address: TRADING,
+      trader: TRADER,
+      pairIndex: 2,
+      index: 3,
+      isBuy: false,
+      openPrice: 3000,
+      executionFee: 0.001,
+      orderType: 1,
+      slippageP: 1,
+      collateral: 250,
+    });
+    expect(oi).toMatchObject({
+      eventName: 'OIUpdated',
+      open: true,
+      long: false,
+      leveragedPos: 2500,
+      price: 3000,
+    });
+    expect(paused).toBeNull();
+  });
+
+  it('fetches ranges in chunks and orders events by block and log index', async () => {
+    node.add(TRADING, marketOrder(TRADER, 2), 250);
+    node.add(
+      TRADING_STORAGE,
+      tradingStorage.interface.encodeEventLog('FeesCharged', [TRADER, 1, true, 1_500_000n]),
+      5
+    );
+    node.add(TRADING, marketOrder(TRADER, 1), 5);
+
+    const events = await indexer.getEvents(0, 250);
+
+    expect(node.ranges).toEqual([
+      [0, 99],
+      [0, 99],
+      [100, 199],
+      [100, 199],
+      [200, 250],
+      [200, 250],
+    ]);
+    expect(events.map((event) => [event.blockNumber, event.logIndex, event.eventName])).toEqual([
+      [5, 1, 'FeesCharged'],
+      [5, 2, 'MarketOrderInitiated'],
+      [250, 0, 'MarketOrderInitiated'],
+    ]);
+  });
+
+  it('filters by event name and trader', async () => {
+    node.blockNumber = 20;
+    node.add(TRADING, marketOrder(TRADER, 1), 10);
+    node.add(TRADING, marketOrder(OTHER, 2), 10);
+    node.add(
+      TRADING_STORAGE,
+      tradingStorage.interface.encodeEventLog('FeesCharged', [OTHER, 1, true, 1_000_000n]),
+      10
+    );
+    node.add(
+      TRADING_STORAGE,
+      tradingStorage.interface.encodeEventLog('FeesCharged', [TRADER, 1, true, 2_000_000n]),
+      11
+    );
+
+    const mine = await indexer.getEvents(0, undefined, { trader: TRADER });
+    const fees = await indexer.getEvents(0, 20, { eventNames: ['FeesCharged'] });
+
+    expect(mine.map((event) => event.eventName)).toEqual(['MarketOrderInitiated', 'FeesCharged']);
+    expect(mine.every((event) => 'trader' in event && event.trader === TRADER)).toBe(true);
+    expect(fees).toHaveLength(2);
+  });
+
+  it('follows new blocks and reports errors on the error channel', async () => {
+    node.blockNumber = 10;
+    const received: TradingEvent[] = [];
+    const errors: Error[] = [];
+
+    const stop = indexer.follow(
+      (event) => {
+        received.push(event);
+        if (received.length === 1) throw new Error('callback failed');
+      },
+      { fromBlock: 5, pollInterval: 10, onError: (error) => errors.push(error) }
+    );
+
+    node.add(TRADING, marketOrder(TRADER, 1), 6);
+    node.add(TRADING, marketOrder(TRADER, 2), 12);
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    node.failBlockNumber = true;
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    node.failBlockNumber = false;
+    node.blockNumber = 12;
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    stop();
+
+    expect(received.map((event) => (event as { orderId: number }).orderId)).toEqual([1, 2]);
+    expect(errors[0].message).toBe('callback failed');
+    expect(errors.slice(1).every((error) => error.message === 'node down')).toBe(true);
+    expect(errors.length).toBeGreaterThan(1);
+  });
+});
@@ -0,0 +1,67 @@
+import { ZeroAddress } from 'ethers';
+import { FeeParametersRPC } from '../../src/rpc/fee_parameters';
+import { PairsCache } from '../../src/rpc/pairs_cache';
+import { PairInfos, PriceAggregator, Referral } from '../../src/typechain';
+import { TradeInput, TradeInputOrderType } from '../../src/types';
+
+const TRADER = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+const REFERRER = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+
+const marketOrder: TradeInput = {
+  pair: 'ETH/USD',
+  isLong: true,
+  collateralInTrade: 100,
+  leverage: 10,
+  openPrice: 0,
+  tp: 0,
+  sl: 0,
+  referrer: ZeroAddress,
+  orderType: TradeInputOrderType.MARKET,
+  maxSlippageP: 1,
+};
+
+/**
+ * Fake PriceAggregator / Referral views returning fixed contract values
+ */
+function setup(referrer: string) {
+  // openFeeP is a 12 decimal percentage: 0.08%
+  const priceAggregator = { openFeeP: jest.fn().mockResolvedValue(8n * 10n ** 10n) };
+  // 10% trader discount on the 0.8 USDC fee, 5% of the fee to the referrer
+  const traderReferralDiscount = jest.fn().mockResolvedValue({
+    traderFeesPostDiscount: 720_000n,
+    referrer,
+    rebateShare: 40_000n,
+  });
+  const referral = { traderReferralDiscount: { staticCall: traderReferralDiscount } };
+  const pairsCache = {
+    getPairIndex: async (pair: string) => (pair === 'ETH/USD' ? 1 : undefined),
+  };
+
+  const feeParams = new FeeParametersRPC(
+    {} as never,
+    {} as unknown as PairInfos,
+    priceAggregator as unknown as PriceAggregator,
+    pairsCache as unknown as PairsCache,
+    referral as unknown as Referral
+  );
+  return { feeParams, traderReferralDiscount };
+}
+
+describe('FeeParametersRPC', () => {
+  it('discounts the opening fee by the trader fees after discount, not the rebate share', async () => {
+    const { feeParams, traderReferralDiscount } = setup(REFERRER);
+
+    const fee = await feeParams.getNewTradeOpeningFee(marketOrder, TRADER, REFERRER);
+
+    expect(traderReferralDiscount).toHaveBeenCalledWith(TRADER, 800_000n);
+    expect(fee).toBeCloseTo(0.72);
+  });
+
+  it('ignores discounts from a different referrer', async () => {
+    const { feeParams } = setup(ZeroAddress);
+
+    const fee = await feeParams.getNewTradeOpeningFee(marketOrder, TRADER, REFERRER);
+
+    expect(fee).toBeCloseTo(0.8);
+  });
+});
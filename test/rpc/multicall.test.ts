@@ -0,0 +1,142 @@
+import { TransactionRequest } from 'ethers';
+import { MulticallRPC } from '../../src/rpc/multicall';
+import { Multicall__factory, TradingStorage__factory } from '../../src/typechain';
+
+const MULTICALL = '0xb7125506Ff25211c4C51DFD8DdED00BE6Fa8Cbf7';
+const TRADING_STORAGE = '0x8a311D7048c35985aa31C131B9A13e03a5f7422d';
+const TRADER = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+
+const multicall = Multicall__factory.createInterface();
+const tradingStorage = TradingStorage__factory.createInterface();
+
+const trade = {
+  trader: TRADER,
+  pairIndex: 1n,
+  index: 0n,
+  initialPosToken: 100_000_000n,
+  positionSizeUSDC: 100_000_000n,
+  openPrice: 3000n * 10n ** 10n,
+  buy: true,
+  leverage: 10n * 10n ** 10n,
+  tp: 3300n * 10n ** 10n,
+  sl: 2800n * 10n ** 10n,
+  timestamp: 1_700_000_000n,
+};
+
+/**
+ * Answers Multicall helper views and TradingStorage.openTrades, including when
+ * they are called through aggregate
+ */
+function fakeRunner() {
+  const respond = (data: string): string => {
+    const stored = tradingStorage.parseTransaction({ data });
+    if (stored?.name === 'openTrades') {
+      return tradingStorage.encodeFunctionResult('openTrades', [
+        { ...trade, index: stored.args[2] },
+      ]);
+    }
+
+    const { name, args } = multicall.parseTransaction({ data })!;
+    switch (name) {
+      case 'aggregate':
+        return multicall.encodeFunctionResult('aggregate', [
+          123n,
+          args[0].map((call: { callData: string }) => respond(call.callData)),
+        ]);
+      case 'getPositions':
+        return multicall.encodeFunctionResult('getPositions', [
+          [
+            {
+              trade,
+              tradeInfo: [100_000_000n, 0n, 0n, false, 1n],
+              rolloverFee: 250_000n,
+              liquidationPrice: 2730n * 10n ** 10n,
+              isPnl: false,
+            },
+          ],
+          [],
+        ]);
+      case 'getPendingOrder':
+        return multicall.encodeFunctionResult('getPendingOrder', [
+          [{ orderId: 7n, orderInfo: [trade, 99n, 3001n * 10n ** 10n, 10n ** 10n] }],
+        ]);
+      case 'getOpenLimitOrdersCounts':
+      case 'getFirstEmptyTradeIndexes':
+        return multicall.encodeFunctionResult(name, [[0n, 2n]]);
+      case 'getMargins':
+        return multicall.encodeFunctionResult('getMargins', [
+          [10n ** 6n, 2n * 10n ** 6n],
+          [0n, 0n],
+          [0n, 0n],
+          [5_000_000_000n, 7_000_000_000n],
+          [1_000_000_000n, 3_000_000_000n],
+        ]);
+      default:
+        throw new Error(`Unexpected call ${name}`);
+    }
+  };
+
+  const requests: TransactionRequest[] = [];
+  return {
+    requests,
+    provider: null,
+    call: async (tx: TransactionRequest) => {
+      requests.push(tx);
+      return respond(tx.data!);
+    },
+  };
+}
+
+describe('MulticallRPC helper views', () => {
+  it('normalizes positions to decimals', async () => {
+    const runner = fakeRunner();
+    const rpc = new MulticallRPC(Multicall__factory.connect(MULTICALL, runner));
+
+    const { positions, limitOrders } = await rpc.getPositions(TRADER);
+
+    expect(limitOrders).toEqual([]);
+    expect(positions[0]).toMatchObject({
+      trade: { pairIndex: 1, positionSizeUSDC: 100, openPrice: 3000, leverage: 10, tp: 3300 },
+      tradeInfo: { openInterestUSDC: 100, lossProtection: 1 },
+      rolloverFee: 0.25,
+      liquidationPrice: 2730,
+      isPnl: false,
+    });
+  });
+
+  it('reads a full account overview in one eth_call', async () => {
+    const runner = fakeRunner();
+    const rpc = new MulticallRPC(Multicall__factory.connect(MULTICALL, runner));
+
+    const overview = await rpc.getAccountOverview(TRADER);
+
+    expect(runner.requests).toHaveLength(1);
+    expect(overview.blockNumber).toBe(123);
+    expect(overview.positions).toHaveLength(1);
+    expect(overview.pendingOrders[0]).toMatchObject({
+      orderId: 7,
+      block: 99,
+      wantedPrice: 3001,
+      slippageP: 1,
+    });
+    expect(overview.openLimitOrdersCounts).toEqual([0, 2]);
+    expect(overview.firstEmptyTradeIndexes).toEqual([0, 2]);
+    expect(overview.margins[1]).toMatchObject({
+      pairIndex: 1,
+      openInterestLong: 7000,
+      openInterestShort: 3000,
+    });
+  });
+
+  it('batches raw storage reads into typed structs', async () => {
+    const runner = fakeRunner();
+    const rpc = new MulticallRPC(Multicall__factory.connect(MULTICALL, runner));
+    const storage = TradingStorage__factory.connect(TRADING_STORAGE, runner);
+
+    const trades = await rpc.batchGetOpenTrades(storage, TRADER, 1, [0, 3]);
+
+    expect(runner.requests).toHaveLength(1);
+    expect(trades.map((stored) => stored.index)).toEqual([0n, 3n]);
+    expect(trades[1].openPrice).toBe(trade.openPrice);
+  });
+});
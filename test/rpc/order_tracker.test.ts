@@ -0,0 +1,232 @@
+import { Filter, Provider, TransactionReceipt } from 'ethers';
+import { OrderResult, OrderTracker } from '../../src/rpc/order_tracker';
+import {
+  TradingStorage,
+  TradingStorage__factory,
+  Trading,
+  Trading__factory,
+} from '../../src/typechain';
+
+const TRADING = '0x44914408af82bC9983bbb330e3578E1105e11d4e';
+const TRADING_STORAGE = '0x8a311D7048c35985aa31C131B9A13e03a5f7422d';
+const TRADER = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+const BLOCK_TIMESTAMP = 1_700_000_000;
+
+const tradingInterface = Trading__factory.createInterface();
+const storageInterface = TradingStorage__factory.createInterface();
+
+const storedTrade = (index: number, timestamp: number) => ({
+  trader: TRADER,
+  pairIndex: 1n,
+  index: BigInt(index),
+  initialPosToken: 0n,
+  positionSizeUSDC: 100_000_000n,
+  openPrice: 30_000_000_000_000n,
+  buy: true,
+  leverage: 100_000_000_000n,
+  tp: 0n,
+  sl: 0n,
+  timestamp: BigInt(timestamp),
+});
+
+/**
+ * Fake chain: pending order registry, open trades and cancellation logs
+ */
+function setup() {
+  const state = {
+    pendingPolls: 2,
+    failPolls: 0,
+    limitOrderOpen: true,
+    trades: new Map<number, ReturnType<typeof storedTrade>>(),
+    canceledOrders: [] as number[],
+    canceledLimits: [] as number[],
+  };
+
+  const pending = async () => {
+    if (state.failPolls > 0) {
+      state.failPolls--;
+      throw new Error('rpc unavailable');
+    }
+    return state.pendingPolls-- > 0;
+  };
+
+  const tradingStorage = {
+    interface: storageInterface,
+    getAddress: async () => TRADING_STORAGE,
+    getPendingOrderIds: async () => ((await pending()) ? [42n] : []),
+    reqIDpendingMarketOrder: async () => ({ block: 0n }),
+    hasOpenLimitOrder: async () => (await pending()) && state.limitOrderOpen,
+    maxTradesPerPair: async () => 3n,
+    openTrades: async (_trader: string, _pairIndex: number, index: number) =>
+      state.trades.get(index) ?? { ...storedTrade(index, 0), leverage: 0n },
+  };
+
+  const trading = {
+    target: TRADING,
+    interface: tradingInterface,
+    filters: { OpenLimitCanceled: (trader: string) => ({ trader }) },
+    queryFilter: async () =>
+      state.canceledLimits.map((index) => ({ args: { pairIndex: 1n, index: BigInt(index) } })),
+  };
+
+  const provider = {
+    getBlock: async () => ({ timestamp: BLOCK_TIMESTAMP }),
+    getLogs: async (filter: Filter) => {
+      expect(filter.address).toBe(TRADING_STORAGE);
+      return state.canceledOrders.map((orderId) =>
+        storageInterface.encodeEventLog('MarketOpenCanceled', [orderId, TRADER, 1])
+      );
+    },
+  };
+
+  const tracker = new OrderTracker(
+    provider as unknown as Provider,
+    trading as unknown as Trading,
+    tradingStorage as unknown as TradingStorage
+  );
+  return { tracker, state };
+}
+
+const receipt = (event: 'MarketOrderInitiated' | 'OpenLimitPlaced', open = true) => {
+  const args =
+    event === 'MarketOrderInitiated'
+      ? [TRADER, 1, open, 42, BLOCK_TIMESTAMP, true]
+      : [TRADER, 1, 2, true, 30_000_000_000_000n, 0, 1, 0, 100_000_000n];
+  return {
+    hash: '0xabc',
+    blockNumber: 100,
+    logs: [{ address: TRADING, ...tradingInterface.encodeEventLog(event, args) }],
+  } as unknown as TransactionReceipt;
+};
+
+describe('OrderTracker', () => {
+  it('moves a market open from pending to executed with the stored trade', async () => {
+    const { tracker, state } = setup();
+    state.trades.set(0, storedTrade(0, BLOCK_TIMESTAMP + 4));
+
+    const handle = tracker.trackOrder(receipt('MarketOrderInitiated'), { pollInterval: 1 });
+    const events: string[] = [];
+    handle.on('pending', () => events.push('pending'));
+    handle.on('executed', () => events.push('executed'));
+    const result = await handle.wait();
+
+    expect(events).toEqual(['pending', 'executed']);
+    expect(handle.status).toBe('executed');
+    expect(result).toMatchObject({ status: 'executed', orderId: 42, index: 0 });
+    expect(result.trade).toMatchObject({ openPrice: 3000, leverage: 10, positionSizeUSDC: 100 });
+  });
+
+  it('finds the new trade at any index', async () => {
+    const { tracker, state } = setup();
+    state.trades.set(0, storedTrade(0, BLOCK_TIMESTAMP - 100));
+    state.trades.set(2, storedTrade(2, BLOCK_TIMESTAMP + 4));
+
+    const result = await tracker
+      .trackOrder(receipt('MarketOrderInitiated'), { pollInterval: 1 })
+      .wait();
+
+    expect(result).toMatchObject({ status: 'executed', index: 2 });
+  });
+
+  it('reports executed orders whose trade is already closed or ambiguous without a trade', async () => {
+    const closed = setup();
+    const concurrent = setup();
+    concurrent.state.trades.set(0, storedTrade(0, BLOCK_TIMESTAMP + 4));
+    concurrent.state.trades.set(1, storedTrade(1, BLOCK_TIMESTAMP + 8));
+
+    const results = await Promise.all(
+      [closed, concurrent].map(({ tracker }) =>
+        tracker.trackOrder(receipt('MarketOrderInitiated'), { pollInterval: 1 }).wait()
+      )
+    );
+
+    expect(results).toEqual([
+      { status: 'executed', trader: TRADER, pairIndex: 1, orderId: 42 },
+      { status: 'executed', trader: TRADER, pairIndex: 1, orderId: 42 },
+    ]);
+  });
+
+  it('reports market orders the keeper canceled', async () => {
+    const { tracker, state } = setup();
+    state.canceledOrders.push(7, 42);
+
+    const handle = tracker.trackOrder(receipt('MarketOrderInitiated'), { pollInterval: 1 });
+    const canceled = new Promise<OrderResult>((resolve) => handle.on('canceled', resolve));
+
+    expect((await canceled).status).toBe('canceled');
+  });
+
+  it('executes market closes once the order leaves the registry', async () => {
+    const { tracker } = setup();
+
+    const result = await tracker
+      .trackOrder(receipt('MarketOrderInitiated', false), { pollInterval: 1 })
+      .wait();
+
+    expect(result).toEqual({ status: 'executed', trader: TRADER, pairIndex: 1, orderId: 42 });
+  });
+
+  it('times out and stops while still pending', async () => {
+    const { tracker, state } = setup();
+    state.pendingPolls = Infinity;
+
+    const timedOut = await tracker
+      .trackOrder(receipt('MarketOrderInitiated'), { pollInterval: 1, timeout: 20 })
+      .wait();
+    const handle = tracker.trackOrder(receipt('OpenLimitPlaced'), { pollInterval: 1, timeout: 0 });
+    handle.stop();
+
+    expect(timedOut.status).toBe('timedOut');
+    expect((await handle.wait()).status).toBe('timedOut');
+  });
+
+  it('tracks limit orders to execution or cancellation', async () => {
+    const executed = setup();
+    executed.state.trades.set(2, storedTrade(2, BLOCK_TIMESTAMP + 60));
+    const canceled = setup();
+    canceled.state.canceledLimits.push(2);
+
+    const results = await Promise.all([
+      executed.tracker.trackOrder(receipt('OpenLimitPlaced'), { pollInterval: 1 }).wait(),
+      canceled.tracker.trackOrder(receipt('OpenLimitPlaced'), { pollInterval: 1 }).wait(),
+    ]);
+
+    expect(results.map((result) => result.status)).toEqual(['executed', 'canceled']);
+    expect(results[0]).toMatchObject({ index: 2, trade: { index: 2 } });
+  });
+
+  it('emits polling errors and keeps polling', async () => {
+    const { tracker, state } = setup();
+    state.failPolls = 2;
+    state.trades.set(0, storedTrade(0, BLOCK_TIMESTAMP));
+
+    const handle = tracker.trackOrder(receipt('MarketOrderInitiated'), { pollInterval: 1 });
+    const errors: Error[] = [];
+    handle.on('error', (error) => errors.push(error));
+
+    expect((await handle.wait()).status).toBe('executed');
+    expect(errors.map((error) => error.message)).toEqual(['rpc unavailable', 'rpc unavailable']);
+  });
+
+  it('rejects wait() on a polling error when no error listener is attached', async () => {
+    const { tracker, state } = setup();
+    state.failPolls = 1;
+
+    const handle = tracker.trackOrder(receipt('MarketOrderInitiated'), { pollInterval: 1 });
+
+    await expect(handle.wait()).rejects.toThrow('rpc unavailable');
+    expect(handle.status).toBe('pending');
+  });
+
+  it('rejects receipts without an order', () => {
+    const { tracker } = setup();
+
+    expect(() =>
+      tracker.trackOrder({
+        hash: '0xabc',
+        blockNumber: 1,
+        logs: [],
+      } as unknown as TransactionReceipt)
+    ).toThrow('No order found in transaction 0xabc');
+  });
+});
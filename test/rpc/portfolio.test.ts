@@ -0,0 +1,140 @@
+import { Interface, makeError } from 'ethers';
+import { Paused } from '../../src/errors';
+import { FeedClient } from '../../src/feed/feed_client';
+import { AccountOverview, MulticallRPC } from '../../src/rpc/multicall';
+import { PairsCache } from '../../src/rpc/pairs_cache';
+import { PortfolioRPC } from '../../src/rpc/portfolio';
+import { PositionAnalyticsRPC } from '../../src/rpc/position_analytics';
+import { ERC20 } from '../../src/typechain';
+import { Trade } from '../../src/types';
+
+const TRADER = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+const TRADING = '0x44914408af82bC9983bbb330e3578E1105e11d4e';
+const ETH_FEED = '0xff61491a931112ddf1bd8147cd1b641375f79f5825126d665480874634fd0ace';
+const BTC_FEED = '0xe62df6c8b4a85fe1a67db44dc12de5db330f7ac66b72dc658afedf0f4a415b43';
+
+const builtin = new Interface(['error Error(string)']);
+
+const trade = (pairIndex: number, buy: boolean): Trade => ({
+  trader: TRADER,
+  pairIndex,
+  index: 0,
+  initialPosToken: 0,
+  positionSizeUSDC: 100,
+  openPrice: 3000,
+  buy,
+  leverage: 10,
+  tp: 0,
+  sl: 0,
+  timestamp: 0,
+});
+
+const position = (pairIndex: number, buy: boolean) => ({
+  trade: trade(pairIndex, buy),
+  tradeInfo: {
+    openInterestUSDC: 1000,
+    tpLastUpdated: 0,
+    slLastUpdated: 0,
+    beingMarketClosed: false,
+    lossProtection: 0,
+  },
+  rolloverFee: 0.5,
+  liquidationPrice: 2730,
+  isPnl: false,
+});
+
+/**
+ * Fake account with a long on ETH/USD (pair 1) and a short on BTC/USD (pair 2);
+ * Hermes only knows the ETH price
+ */
+function setup() {
+  const overview: AccountOverview = {
+    blockNumber: 10,
+    positions: [position(1, true), position(2, false)],
+    limitOrders: [],
+    pendingOrders: [],
+    openLimitOrdersCounts: [],
+    firstEmptyTradeIndexes: [],
+    margins: [],
+  };
+  const multicall = { getAccountOverview: async () => overview };
+  const usdc = { balanceOf: async () => 500_000_000n, allowance: async () => 0n };
+  const provider = { getBalance: async () => 10n ** 17n };
+  const pairsCache = { getFeedId: async (pairIndex: number) => [, ETH_FEED, BTC_FEED][pairIndex] };
+  const feedClient = {
+    getLatestPriceUpdates: jest.fn().mockResolvedValue({
+      binary: { encoding: 'hex', data: [] },
+      parsed: [{ id: ETH_FEED.slice(2), price: { price: '315000000000', expo: -8 } }],
+    }),
+  };
+  const positionAnalytics = {
+    getPositionAnalytics: jest.fn().mockResolvedValue({ netPnl: 48.5 }),
+  };
+
+  const portfolio = new PortfolioRPC(
+    provider as any,
+    usdc as unknown as ERC20,
+    TRADING,
+    multicall as unknown as MulticallRPC,
+    positionAnalytics as unknown as PositionAnalyticsRPC,
+    pairsCache as unknown as PairsCache,
+    feedClient as unknown as FeedClient
+  );
+  return { portfolio, feedClient, positionAnalytics };
+}
+
+describe('PortfolioRPC', () => {
+  it('values priced positions and totals the account', async () => {
+    const { portfolio, positionAnalytics } = setup();
+
+    const result = await portfolio.getPortfolio(TRADER);
+
+    expect(positionAnalytics.getPositionAnalytics).toHaveBeenCalledWith(position(1, true), 3150);
+    expect(result.positions[0]).toMatchObject({ analytics: { netPnl: 48.5 } });
+    expect(result.positions[0].error).toBeUndefined();
+    expect(result).toMatchObject({ usdcBalance: 500, usdcAllowance: 0, ethBalance: 0.1 });
+    expect(result.totals).toEqual({
+      margin: 200,
+      exposure: 2000,
+      longExposure: 1000,
+      shortExposure: 1000,
+      unrealizedPnl: 48.5,
+      rolloverFees: 1,
+      limitOrderMargin: 0,
+    });
+  });
+
+  it('records why a position could not be valued', async () => {
+    const { portfolio, positionAnalytics } = setup();
+    positionAnalytics.getPositionAnalytics.mockRejectedValueOnce(
+      makeError('execution reverted', 'CALL_EXCEPTION', {
+        action: 'call',
+        data: builtin.encodeErrorResult('Error', ['PAUSED']),
+        reason: null,
+        invocation: null,
+        revert: null,
+        transaction: { to: null, data: '' },
+      })
+    );
+
+    const [eth, btc] = (await portfolio.getPortfolio(TRADER)).positions;
+
+    expect(eth.analytics).toBeUndefined();
+    expect(eth.error).toBeInstanceOf(Paused);
+    expect(btc.error?.message).toBe('No price returned for pair 2');
+  });
+
+  it('attaches a failed price request to every position', async () => {
+    const { portfolio, feedClient, positionAnalytics } = setup();
+    feedClient.getLatestPriceUpdates.mockRejectedValueOnce(new Error('Failed to fetch prices'));
+
+    const result = await portfolio.getPortfolio(TRADER);
+
+    expect(positionAnalytics.getPositionAnalytics).not.toHaveBeenCalled();
+    expect(result.positions.map(({ error }) => error?.message)).toEqual([
+      'Failed to fetch prices',
+      'Failed to fetch prices',
+    ]);
+    expect(result.totals.unrealizedPnl).toBe(0);
+  });
+});
@@ -0,0 +1,186 @@
+import { ZeroAddress } from 'ethers';
+import { FeedClient } from '../../src/feed/feed_client';
+import { PairsCache } from '../../src/rpc/pairs_cache';
+import { PositionAnalyticsRPC } from '../../src/rpc/position_analytics';
+import { PairInfos, PairStorage } from '../../src/typechain';
+import { Trade, TradeInput, TradeInputOrderType } from '../../src/types';
+
+const TRADER = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+const FEED_ID = '0xff61491a931112ddf1bd8147cd1b641375f79f5825126d665480874634fd0ace';
+
+const trade = (buy: boolean): Trade => ({
+  trader: TRADER,
+  pairIndex: 1,
+  index: 2,
+  initialPosToken: 0.3,
+  positionSizeUSDC: 100,
+  openPrice: 3000,
+  buy,
+  leverage: 10,
+  tp: 0,
+  sl: 0,
+  timestamp: 0,
+});
+
+const marketOrder = (pair: string): TradeInput => ({
+  pair,
+  isLong: true,
+  collateralInTrade: 100,
+  leverage: 10,
+  openPrice: 0,
+  tp: 0,
+  sl: 0,
+  referrer: ZeroAddress,
+  orderType: TradeInputOrderType.MARKET,
+  maxSlippageP: 1,
+});
+
+/**
+ * Fake PairInfos / PairStorage views returning fixed contract values
+ */
+function setup(liquidationPrice: bigint) {
+  const pairInfos = {
+    getTradeLiquidationPrice: jest.fn().mockResolvedValue(liquidationPrice),
+    getTradeLiquidationPricePure: jest.fn().mockResolvedValue(liquidationPrice),
+    getTradeRolloverFee: jest.fn().mockResolvedValue(1_500_000n),
+    getTradeValue: { staticCall: jest.fn().mockResolvedValue([148_500_000n, 0n]) },
+    getTradeValuePure: jest.fn().mockResolvedValue([149_500_000n, 0n]),
+  };
+  // 50% of collateral at 10x leverage
+  const pairStorage = { currentPercentProfit: jest.fn().mockResolvedValue(50n * 10n ** 10n) };
+  const pairsCache = {
+    getPairIndex: async (pair: string) => (pair === 'ETH/USD' ? 1 : undefined),
+    // closeFeeP is a 12 decimal percentage: 0.05%
+    getPairBackend: async () => ({
+      pair: { feed: { feedId: FEED_ID } },
+      fee: { closeFeeP: 5n * 10n ** 10n },
+    }),
+  };
+  const feedClient = {
+    getLatestPriceUpdates: jest.fn().mockResolvedValue({
+      parsed: [{ price: { price: '315000000000', expo: -8 } }],
+    }),
+  };
+
+  const analytics = new PositionAnalyticsRPC(
+    pairInfos as unknown as PairInfos,
+    pairStorage as unknown as PairStorage,
+    pairsCache as unknown as PairsCache,
+    feedClient as unknown as FeedClient
+  );
+  return { analytics, pairInfos, pairStorage, feedClient };
+}
+
+describe('PositionAnalyticsRPC', () => {
+  it('maps liquidation, rollover and PnL of an open trade', async () => {
+    const { analytics, pairInfos, pairStorage } = setup(2730n * 10n ** 10n);
+
+    const result = await analytics.getTradeAnalytics(trade(true), 3150);
+
+    expect(pairInfos.getTradeLiquidationPrice).toHaveBeenCalledWith(
+      TRADER,
+      1,
+      2,
+      3000n * 10n ** 10n,
+      true,
+      100_000_000n,
+      10n * 10n ** 10n
+    );
+    expect(pairStorage.currentPercentProfit).toHaveBeenCalledWith(
+      3000n * 10n ** 10n,
+      3150n * 10n ** 10n,
+      true,
+      10n * 10n ** 10n,
+      1
+    );
+    // Closing fee: 0.05% of the 1000 USDC position
+    const [struct, collateral, percentProfit, closingFee] =
+      pairInfos.getTradeValue.staticCall.mock.calls[0];
+    expect(struct).toMatchObject({ trader: TRADER, index: 2, initialPosToken: 300_000n });
+    expect([collateral, percentProfit, closingFee]).toEqual([
+      100_000_000n,
+      50n * 10n ** 10n,
+      500_000n,
+    ]);
+
+    expect(result).toEqual({
+      pairIndex: 1,
+      buy: true,
+      collateral: 100,
+      positionSize: 1000,
+      openPrice: 3000,
+      currentPrice: 3150,
+      liquidationPrice: 2730,
+      percentProfit: 50,
+      grossPnl: 50,
+      rolloverFee: 1.5,
+      closingFee: 0.5,
+      netPnl: 48.5,
+      value: 148.5,
+      distanceToLiquidationP: ((3150 - 2730) / 3150) * 100,
+    });
+  });
+
+  it('measures the liquidation distance of shorts upwards', async () => {
+    const { analytics } = setup(3270n * 10n ** 10n);
+
+    const result = await analytics.getTradeAnalytics(trade(false), 3000);
+
+    expect(result.distanceToLiquidationP).toBeCloseTo(9);
+  });
+
+  it('reuses the liquidation price and rollover fee of a Multicall position', async () => {
+    const { analytics, pairInfos } = setup(2730n * 10n ** 10n);
+    const position = {
+      trade: trade(true),
+      tradeInfo: {
+        openInterestUSDC: 1000,
+        tpLastUpdated: 0,
+        slLastUpdated: 0,
+        beingMarketClosed: false,
+        lossProtection: 0,
+      },
+      rolloverFee: 2,
+      liquidationPrice: 2700,
+      isPnl: false,
+    };
+
+    const result = await analytics.getPositionAnalytics(position, 3150);
+
+    expect(pairInfos.getTradeLiquidationPrice).not.toHaveBeenCalled();
+    expect(pairInfos.getTradeRolloverFee).not.toHaveBeenCalled();
+    expect(pairInfos.getTradeValue.staticCall).toHaveBeenCalledTimes(1);
+    expect(result).toMatchObject({ liquidationPrice: 2700, rolloverFee: 2, netPnl: 48.5 });
+  });
+
+  it('evaluates trade inputs at the live price without accrued rollover', async () => {
+    const { analytics, pairInfos, feedClient } = setup(2730n * 10n ** 10n);
+
+    const result = await analytics.getTradeInputAnalytics(marketOrder('ETH/USD'));
+
+    expect(feedClient.getLatestPriceUpdates).toHaveBeenCalledWith([FEED_ID]);
+    expect(pairInfos.getTradeLiquidationPricePure).toHaveBeenCalledWith(
+      3150n * 10n ** 10n,
+      true,
+      100_000_000n,
+      10n * 10n ** 10n,
+      0n
+    );
+    expect(pairInfos.getTradeValuePure).toHaveBeenCalledWith(
+      100_000_000n,
+      50n * 10n ** 10n,
+      0n,
+      500_000n,
+      0n
+    );
+    expect(result).toMatchObject({ openPrice: 3150, rolloverFee: 0, netPnl: 49.5 });
+  });
+
+  it('rejects unknown pairs', async () => {
+    const { analytics } = setup(0n);
+
+    await expect(analytics.getTradeInputAnalytics(marketOrder('FOO/USD'))).rejects.toThrow(
+      'Pair FOO/USD not found'
+    );
+  });
+});
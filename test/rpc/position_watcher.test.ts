@@ -0,0 +1,186 @@
+import { FeedClient, PairPriceUpdate } from '../../src/feed/feed_client';
+import { EventIndexer } from '../../src/rpc/event_indexer';
+import { AggregatedPosition, MulticallRPC } from '../../src/rpc/multicall';
+import { PairsCache } from '../../src/rpc/pairs_cache';
+import { PositionRiskEvent, PositionState, PositionWatcher } from '../../src/rpc/position_watcher';
+
+const TRADER = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+
+function position(index: number, buy: boolean): AggregatedPosition {
+  return {
+    trade: {
+      trader: TRADER,
+      pairIndex: 1,
+      index,
+      initialPosToken: 100,
+      positionSizeUSDC: 100,
+      openPrice: 3000,
+      buy,
+      leverage: 10,
+      tp: 0,
+      sl: 0,
+      timestamp: 0,
+    },
+    tradeInfo: {
+      openInterestUSDC: 1000,
+      tpLastUpdated: 0,
+      slLastUpdated: 0,
+      beingMarketClosed: false,
+      lossProtection: 0,
+    },
+    rolloverFee: 1,
+    liquidationPrice: buy ? 2730 : 3270,
+    isPnl: false,
+  };
+}
+
+describe('PositionWatcher', () => {
+  let positions: AggregatedPosition[];
+  let priceCallback: ((update: PairPriceUpdate) => void) | undefined;
+  let onEvent: (() => void) | undefined;
+  let failures: number;
+  let pairLookup: Promise<void>;
+  let subscribed: number;
+  let watcher: PositionWatcher;
+
+  const tick = (price: number) =>
+    priceCallback!({ pair: 'ETH/USD', pairIndex: 1, price, conf: 0, ema: price, publishTime: 0 });
+
+  beforeEach(async () => {
+    positions = [position(0, true), position(1, false)];
+    priceCallback = undefined;
+    failures = 0;
+    pairLookup = Promise.resolve();
+    subscribed = 0;
+
+    const multicall = {
+      getPositions: async () => {
+        if (failures-- > 0) throw new Error('RPC unavailable');
+        return { positions, limitOrders: [] };
+      },
+    };
+    const events = {
+      follow: (callback: () => void) => {
+        onEvent = callback;
+        return () => {
+          onEvent = undefined;
+        };
+      },
+    };
+    const pairsCache = {
+      getPairName: async () => {
+        await pairLookup;
+        return 'ETH/USD';
+      },
+    };
+    const feedClient = {
+      isConnected: () => true,
+      subscribePair: async (_pair: string, callback: (update: PairPriceUpdate) => void) => {
+        priceCallback = callback;
+        subscribed++;
+        return () => {
+          priceCallback = undefined;
+          subscribed--;
+        };
+      },
+    };
+
+    watcher = new PositionWatcher(
+      TRADER,
+      multicall as unknown as MulticallRPC,
+      events as unknown as EventIndexer,
+      feedClient as unknown as FeedClient,
+      pairsCache as unknown as PairsCache,
+      { thresholds: [0.5, 0.8], refreshInterval: 0 }
+    );
+    await watcher.start();
+  });
+
+  afterEach(() => watcher.stop());
+
+  it('recomputes PnL and liquidation distance on every tick', () => {
+    const updates: PositionState[] = [];
+    watcher.on('update', (state: PositionState) => updates.push(state));
+
+    tick(3030);
+
+    expect(updates).toHaveLength(2);
+    const [long, short] = watcher.getPositions();
+    expect(long.pnl).toBeCloseTo(100 * 0.01 * 10 - 1, 6);
+    expect(long.marginRatio).toBeCloseTo(1.09, 6);
+    expect(long.distanceToLiquidationP).toBeCloseTo(((3030 - 2730) / 3030) * 100, 6);
+    expect(short.pnl).toBeCloseTo(-11, 6);
+    expect(short.liquidationProgress).toBeCloseTo(30 / 270, 6);
+  });
+
+  it('emits risk events when thresholds are crossed in either direction', () => {
+    const risk: PositionRiskEvent[] = [];
+    const cleared: PositionRiskEvent[] = [];
+    watcher.on('risk', (event: PositionRiskEvent) => risk.push(event));
+    watcher.on('riskCleared', (event: PositionRiskEvent) => cleared.push(event));
+
+    tick(2800); // long is 200/270 of the way to liquidation
+    tick(2780); // still above 0.5, below 0.8
+    tick(2750); // crosses 0.8
+    tick(3000);
+
+    expect(risk.map(({ position, threshold }) => [position.trade.index, threshold])).toEqual([
+      [0, 0.5],
+      [0, 0.8],
+    ]);
+    expect(cleared.map(({ threshold }) => threshold)).toEqual([0.5, 0.8]);
+  });
+
+  it('reports trades that open and close between refreshes', async () => {
+    const opened = jest.fn();
+    const closed = jest.fn();
+    watcher.on('opened', opened);
+    watcher.on('closed', closed);
+
+    positions = [position(1, false), position(2, true)];
+    await watcher.refresh();
+
+    expect(opened.mock.calls[0][0].trade.index).toBe(2);
+    expect(closed.mock.calls[0][0].trade.index).toBe(0);
+    expect(watcher.getPositions().map(({ trade }) => trade.index)).toEqual([1, 2]);
+  });
+
+  it('can be started again after the first refresh fails', async () => {
+    watcher.stop();
+    failures = 1;
+
+    await expect(watcher.start()).rejects.toThrow('RPC unavailable');
+    expect(onEvent).toBeUndefined();
+
+    await watcher.start();
+    expect(onEvent).toBeDefined();
+    expect(priceCallback).toBeDefined();
+  });
+
+  it('leaves no subscription behind when stopped during a refresh', async () => {
+    let resolvePair!: () => void;
+    pairLookup = new Promise((resolve) => (resolvePair = resolve));
+    const btc = position(2, true);
+    positions = [...positions, { ...btc, trade: { ...btc.trade, pairIndex: 2 } }];
+
+    const refreshed = watcher.refresh();
+    await new Promise((resolve) => setImmediate(resolve));
+    watcher.stop();
+    resolvePair();
+    await refreshed;
+
+    expect(subscribed).toBe(0);
+  });
+
+  it('reports failed background refreshes as errors', async () => {
+    const errors: Error[] = [];
+    watcher.on('error', (error: Error) => errors.push(error));
+
+    failures = 1;
+    onEvent!();
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(errors.map(({ message }) => message)).toEqual(['RPC unavailable']);
+    expect(watcher.getPositions()).toHaveLength(2);
+  });
+});
@@ -0,0 +1,163 @@
+import { decodeTradingCall } from '../../src/encoding/trading_calls';
+import { FeedClient } from '../../src/feed/feed_client';
+import { PairsCache } from '../../src/rpc/pairs_cache';
+import { TradeBuilder } from '../../src/rpc/trade_builder';
+import { PairStorage, Trading, TradingStorage } from '../../src/typechain';
+import { TradeInputOrderType } from '../../src/types';
+
+const TRADER = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+const TRADING = '0x44914408af82bC9983bbb330e3578E1105e11d4e';
+const FEED_ID = '0xff61491a931112ddf1bd8147cd1b641375f79f5825126d665480874634fd0ace';
+
+const e10 = (value: number) => BigInt(value) * 10n ** 10n;
+const e6 = (value: number) => BigInt(value) * 10n ** 6n;
+
+/**
+ * Fake pair limits and open interest for ETH/USD (pair 1)
+ * Leverage 2x-50x, minimum position 1000 USDC, max gain 500%, max loss 80%,
+ * 90k of 100k long OI used, 5k of 10k wallet OI used.
+ */
+function setup(feedPrice = 3000) {
+  const backend = {
+    pair: {
+      feed: { feedId: FEED_ID },
+      leverages: {
+        minLeverage: e10(2),
+        maxLeverage: e10(50),
+        pnlMinLeverage: e10(75),
+        pnlMaxLeverage: e10(250),
+      },
+      values: { maxGainP: e10(500), maxSlP: e10(80) },
+    },
+    fee: { minLevPosUSDC: e6(1000) },
+  };
+  const pairsCache = {
+    getPairIndex: async (pair: string) => (pair === 'ETH/USD' ? 1 : undefined),
+    getPairBackend: async () => backend,
+  };
+  const tradingStorage = {
+    pairLongOI: async () => e6(90_000),
+    pairShortOI: async () => 0n,
+    walletOI: async () => e6(5_000),
+  };
+  const pairStorage = {
+    pairMaxLongOI: async () => e6(100_000),
+    pairMaxShortOI: async () => e6(100_000),
+    maxWalletOI: async () => e6(10_000),
+  };
+  const feedClient = {
+    getLatestPriceUpdates: jest.fn().mockResolvedValue({
+      parsed: [{ price: { price: String(feedPrice * 1e8), expo: -8 } }],
+    }),
+  };
+  const provider = { getFeeData: async () => ({ maxFeePerGas: 1n, gasPrice: null }) };
+  const trading = { getAddress: async () => TRADING };
+
+  return () =>
+    new TradeBuilder(
+      provider as any,
+      trading as unknown as Trading,
+      tradingStorage as unknown as TradingStorage,
+      pairStorage as unknown as PairStorage,
+      pairsCache as unknown as PairsCache,
+      feedClient as unknown as FeedClient
+    );
+}
+
+const codes = async (builder: TradeBuilder) =>
+  (await builder.validate()).errors.map((error) => error.code);
+
+describe('TradeBuilder', () => {
+  const builder = setup();
+  const eth = () => builder().pair('ETH/USD').long().collateral(100).leverage(20).trader(TRADER);
+
+  it('accepts a trade within the limits and prices market orders from the feed', async () => {
+    const result = await eth().takeProfitPercent(100).stopLossPercent(50).validate();
+
+    expect(result.errors).toEqual([]);
+    expect(result.valid).toBe(true);
+    expect(result.pairIndex).toBe(1);
+    expect(result.tradeInput).toMatchObject({ openPrice: 3000, tp: 3150, sl: 2925 });
+  });
+
+  it('reports missing fields and unknown pairs', async () => {
+    expect(await codes(builder())).toEqual([
+      'MISSING_FIELD',
+      'MISSING_FIELD',
+      'MISSING_FIELD',
+      'MISSING_FIELD',
+      'MISSING_FIELD',
+    ]);
+    expect(await codes(eth().pair('FOO/USD'))).toEqual(['PAIR_NOT_FOUND']);
+    expect(await codes(eth().orderType(TradeInputOrderType.LIMIT))).toEqual(['MISSING_FIELD']);
+  });
+
+  it('checks leverage against the pair limits', async () => {
+    const [low] = (await eth().collateral(1000).leverage(1).validate()).errors;
+    expect(low).toMatchObject({ code: 'LEVERAGE_TOO_LOW', value: 1, limit: 2 });
+
+    const [high] = (await eth().collateral(20).leverage(60).validate()).errors;
+    expect(high).toMatchObject({ code: 'LEVERAGE_TOO_HIGH', value: 60, limit: 50 });
+
+    // Zero-fee orders use the PnL leverage range
+    expect(await codes(eth().orderType(TradeInputOrderType.MARKET_ZERO_FEE))).toEqual([
+      'LEVERAGE_TOO_LOW',
+    ]);
+  });
+
+  it('checks the minimum position size', async () => {
+    const [error] = (await eth().collateral(40).validate()).errors;
+
+    expect(error).toMatchObject({ code: 'POSITION_TOO_SMALL', value: 800, limit: 1000 });
+  });
+
+  it('checks take profit and stop loss', async () => {
+    expect(await codes(eth().takeProfit(2900).stopLoss(3100))).toEqual([
+      'INVALID_TP',
+      'INVALID_SL',
+    ]);
+    expect(await codes(eth().short().takeProfit(3100).stopLoss(2900))).toEqual([
+      'INVALID_TP',
+      'INVALID_SL',
+    ]);
+
+    const { errors } = await eth().takeProfitPercent(600).stopLossPercent(90).validate();
+    expect(errors.map(({ code, limit }) => [code, limit])).toEqual([
+      ['TP_EXCEEDS_MAX_GAIN', 500],
+      ['SL_EXCEEDS_MAX_LOSS', 80],
+    ]);
+  });
+
+  it('checks pair and wallet open interest', async () => {
+    const [pair] = (await eth().collateral(600).validate()).errors;
+    expect(pair).toMatchObject({ code: 'PAIR_OI_EXCEEDED', value: 12_000, limit: 10_000 });
+
+    const [wallet] = (await eth().collateral(300).validate()).errors;
+    expect(wallet).toMatchObject({ code: 'WALLET_OI_EXCEEDED', value: 6000, limit: 5000 });
+  });
+
+  it('encodes the trader into the openTrade struct', async () => {
+    const tx = await eth().leverage(10).takeProfitPercent(100).build();
+
+    expect(tx.to).toBe(TRADING);
+    const call = decodeTradingCall(tx.data!);
+    expect(call).toMatchObject({ name: 'openTrade', slippageP: 1 });
+    if (call.name !== 'openTrade') throw new Error('expected openTrade');
+    expect(call.trade).toMatchObject({
+      trader: TRADER,
+      positionSizeUSDC: 100,
+      leverage: 10,
+      openPrice: 3000,
+      tp: 3300,
+    });
+  });
+
+  it('refuses to build an invalid trade', async () => {
+    await expect(eth().leverage(100).build()).rejects.toThrow(
+      'Invalid trade: leverage: Leverage 100x exceeds the maximum of 50x'
+    );
+    await expect(
+      builder().pair('ETH/USD').long().collateral(100).leverage(20).build()
+    ).rejects.toThrow('Invalid trade: trader: Trader is required');
+  });
+});
@@ -0,0 +1,218 @@
+import { JsonRpcProvider, MaxUint256, TransactionRequest, verifyTypedData } from 'ethers';
+import { AvantisError, SlippageTooHigh } from '../../src/errors';
+import { ApprovalMode, UsdcApprovalManager } from '../../src/rpc/usdc_approval';
+import { Erc20StateOverrides } from '../../src/simulation/state_overrides';
+import { LocalSigner } from '../../src/signers/local';
+import { TransactionManager } from '../../src/transactions/transaction_manager';
+import { ERC20__factory } from '../../src/typechain';
+
+const PRIVATE_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const TRADER = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+const OTHER = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const USDC = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913';
+const TRADING = '0x44914408af82bC9983bbb330e3578E1105e11d4e';
+
+const erc20 = ERC20__factory.createInterface();
+
+/**
+ * Answers the USDC views the manager reads
+ */
+function fakeRunner(balance: bigint, allowance: bigint) {
+  const respond = (data: string): string => {
+    const { name } = erc20.parseTransaction({ data })!;
+    switch (name) {
+      case 'balanceOf':
+        return erc20.encodeFunctionResult(name, [balance]);
+      case 'allowance':
+        return erc20.encodeFunctionResult(name, [allowance]);
+      case 'name':
+        return erc20.encodeFunctionResult(name, ['USD Coin']);
+      case 'version':
+        return erc20.encodeFunctionResult(name, ['2']);
+      case 'nonces':
+        return erc20.encodeFunctionResult(name, [3n]);
+      default:
+        throw new Error(`Unexpected call ${name}`);
+    }
+  };
+
+  return {
+    provider: { getNetwork: async () => ({ chainId: 8453n }) },
+    call: async (tx: TransactionRequest) => respond(tx.data!),
+  };
+}
+
+describe('UsdcApprovalManager', () => {
+  const provider = new JsonRpcProvider('http://127.0.0.1:1', 8453, { staticNetwork: true });
+  const signer = new LocalSigner(PRIVATE_KEY, provider);
+
+  afterAll(() => provider.destroy());
+
+  const setup = (
+    balance: bigint,
+    allowance: bigint,
+    autoApprove = false,
+    mode: ApprovalMode = 'exact'
+  ) => {
+    const sent: TransactionRequest[] = [];
+    const waited: number[] = [];
+    const failedNonces = new Set<number>();
+    const simulate = jest.fn().mockResolvedValue({ success: true, gasLimit: 450_000n });
+    const transactions = {
+      getSigner: () => signer,
+      sendAndWait: async (tx: TransactionRequest) => {
+        sent.push(tx);
+        return null;
+      },
+      simulate,
+      send: async (tx: TransactionRequest) => ({ nonce: sent.push(tx) + 6 }),
+      wait: async ({ nonce }: { nonce: number }) => {
+        waited.push(nonce);
+        if (failedNonces.has(nonce)) throw new Error('nonce too low');
+        return { status: 1, nonce };
+      },
+    } as unknown as TransactionManager;
+    const overrides = {
+      allowance: async (owner: string, spender: string, amount: bigint) => ({
+        [USDC]: { stateDiff: { [`${owner}:${spender}`]: amount } },
+      }),
+    };
+    const usdc = ERC20__factory.connect(USDC, fakeRunner(balance, allowance) as any);
+    const manager = new UsdcApprovalManager(
+      usdc,
+      TRADING,
+      transactions,
+      { autoApprove, mode },
+      overrides as unknown as Erc20StateOverrides
+    );
+    return { manager, sent, waited, simulate, failedNonces };
+  };
+
+  const decode = (tx: TransactionRequest) => erc20.parseTransaction({ data: tx.data! })!;
+
+  it('reports insufficient balance and allowance', async () => {
+    const { manager } = setup(50_000_000n, 10_000_000n);
+
+    const check = await manager.checkTrade(TRADER, 100);
+
+    expect(check).toEqual({
+      ok: false,
+      issues: ['insufficient balance', 'insufficient allowance'],
+      required: 100,
+      balance: 50,
+      allowance: 10,
+    });
+    await expect(manager.prepareTrade(TRADER, 100)).rejects.toThrow(
+      'insufficient balance: 50 USDC available, 100 required'
+    );
+  });
+
+  it('only approves before a trade when auto-approval is on', async () => {
+    const manual = setup(500_000_000n, 10_000_000n);
+    await expect(manual.manager.prepareTrade(TRADER, 100)).rejects.toThrow(
+      'insufficient allowance: 10 USDC approved, 100 required'
+    );
+    expect(manual.sent).toHaveLength(0);
+
+    const auto = setup(500_000_000n, 10_000_000n, true);
+    await expect(auto.manager.prepareTrade(OTHER, 100)).rejects.toThrow('insufficient allowance');
+    await auto.manager.prepareTrade(TRADER, 100);
+
+    expect(auto.sent).toHaveLength(1);
+    expect(auto.sent[0].to).toBe(USDC);
+    expect(decode(auto.sent[0]).args).toEqual([TRADING, 100_000_000n]);
+  });
+
+  it('sends exact, infinite and revoke approvals', async () => {
+    const { manager, sent } = setup(0n, 0n);
+
+    await manager.approve(25.5);
+    await manager.approveInfinite();
+    await manager.revoke();
+
+    expect(sent.map((tx) => decode(tx).args[1])).toEqual([25_500_000n, MaxUint256, 0n]);
+  });
+
+  it('signs a permit the USDC contract can verify', async () => {
+    const { manager, sent } = setup(0n, 0n);
+
+    const permit = await manager.signPermit(100, 1_800_000_000);
+    const signed = verifyTypedData(
+      { name: 'USD Coin', version: '2', chainId: 8453, verifyingContract: USDC },
+      {
+        Permit: [
+          { name: 'owner', type: 'address' },
+          { name: 'spender', type: 'address' },
+          { name: 'value', type: 'uint256' },
+          { name: 'nonce', type: 'uint256' },
+          { name: 'deadline', type: 'uint256' },
+        ],
+      },
+      { owner: TRADER, spender: TRADING, value: 100_000_000n, nonce: 3n, deadline: 1_800_000_000 },
+      permit.signature
+    );
+    expect(signed).toBe(TRADER);
+
+    await manager.ensureAllowance(100, 'permit');
+    const { name, args } = decode(sent[0]);
+    expect(name).toBe('permit');
+    expect(args.slice(0, 3)).toEqual([TRADER, TRADING, 100_000_000n]);
+  });
+
+  it('leaves a missing allowance to a permit sent with the trade', async () => {
+    const { manager, sent } = setup(500_000_000n, 0n, true, 'permit');
+    const approved = setup(500_000_000n, 100_000_000n, true, 'permit');
+
+    expect(await manager.prepareTrade(TRADER, 100)).toBe(true);
+    expect(sent).toHaveLength(0);
+    expect(await approved.manager.prepareTrade(TRADER, 100)).toBe(false);
+  });
+
+  it('sends a permit and the trade back to back', async () => {
+    const { manager, sent, waited, simulate } = setup(500_000_000n, 0n, true, 'permit');
+    const trade = { to: TRADING, data: '0x5bfcc4f8', value: 1n };
+
+    const { receipt, permitReceipt, permitError } = await manager.sendWithPermit(100, trade);
+
+    expect(simulate).toHaveBeenCalledWith(trade, {
+      stateOverrides: { [USDC]: { stateDiff: { [`${TRADER}:${TRADING}`]: 100_000_000n } } },
+    });
+    expect(decode(sent[0]).name).toBe('permit');
+    expect(sent[1]).toEqual({ ...trade, gasLimit: 450_000n });
+    expect(waited).toEqual([7, 8]);
+    expect(receipt).toEqual({ status: 1, nonce: 8 });
+    expect(permitReceipt).toEqual({ status: 1, nonce: 7 });
+    expect(permitError).toBeUndefined();
+  });
+
+  it('returns the trade receipt when the permit itself fails', async () => {
+    const { manager, failedNonces } = setup(500_000_000n, 0n, true, 'permit');
+    failedNonces.add(7);
+
+    const result = await manager.sendWithPermit(100, { to: TRADING, data: '0x5bfcc4f8' });
+
+    expect(result.receipt).toEqual({ status: 1, nonce: 8 });
+    expect(result.permitReceipt).toBeNull();
+    expect(result.permitError?.message).toBe('nonce too low');
+  });
+
+  it('sends nothing when the trade would revert with the permit', async () => {
+    const { manager, sent, simulate } = setup(500_000_000n, 0n, true, 'permit');
+    simulate.mockResolvedValueOnce({ success: false, error: new SlippageTooHigh('slippage') });
+
+    await expect(manager.sendWithPermit(100, { to: TRADING, data: '0x' })).rejects.toBeInstanceOf(
+      SlippageTooHigh
+    );
+    expect(sent).toHaveLength(0);
+  });
+
+  it('throws an SDK error when a failed simulation has no decoded error', async () => {
+    const { manager, sent, simulate } = setup(500_000_000n, 0n, true, 'permit');
+    simulate.mockResolvedValueOnce({ success: false });
+
+    await expect(manager.sendWithPermit(100, { to: TRADING, data: '0x' })).rejects.toBeInstanceOf(
+      AvantisError
+    );
+    expect(sent).toHaveLength(0);
+  });
+});
@@ -0,0 +1,217 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import {
+  JsonRpcProvider,
+  SigningKey,
+  TypedDataDomain,
+  concat,
+  getBytes,
+  toBeHex,
+  verifyMessage,
+  verifyTypedData,
+} from 'ethers';
+import { rawSignatureToDer } from '../../src/crypto/spki';
+import { AzureKeyVaultSigner } from '../../src/signers/azure_key_vault';
+import { GcpKmsSigner } from '../../src/signers/gcp_kms';
+import { Pkcs11Module, Pkcs11Signer } from '../../src/signers/pkcs11';
+import { RemoteDigestSigner } from '../../src/signers/remote';
+import { VaultTransitSigner } from '../../src/signers/vault_transit';
+
+const PRIVATE_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const ADDRESS = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+const SECP256K1_N = 0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141n;
+const SECP256K1_SPKI_PREFIX = '0x3056301006072a8648ce3d020106052b8104000a034200';
+const P256_SPKI_PREFIX = '0x3059301306072a8648ce3d020106082a8648ce3d030107034200';
+
+const key = new SigningKey(PRIVATE_KEY);
+const point = Buffer.from(getBytes(key.publicKey));
+const pem = (prefix: string) =>
+  `-----BEGIN PUBLIC KEY-----\n${Buffer.from(getBytes(concat([prefix, key.publicKey]))).toString(
+    'base64'
+  )}\n-----END PUBLIC KEY-----\n`;
+
+/**
+ * Sign like a remote key store would: raw (r || s), optionally with the high-s form
+ */
+function remoteSign(digest: Buffer, highS: boolean): Buffer {
+  const { r, s } = key.sign(digest);
+  const sValue = highS ? SECP256K1_N - BigInt(s) : BigInt(s);
+  return Buffer.from(getBytes(concat([r, toBeHex(sValue, 32)])));
+}
+
+const der = (raw: Buffer) => Buffer.from(rawSignatureToDer(new Uint8Array(raw)));
+
+/**
+ * Emulates the Cloud KMS, Key Vault and Vault Transit endpoints the signers call
+ */
+function handle(method: string, path: string, body: any): unknown {
+  const gcpKey = '/v1/projects/p/locations/global/keyRings/r/cryptoKeys/eth/cryptoKeyVersions/1';
+  if (method === 'GET' && path === `${gcpKey}/publicKey`) {
+    return { pem: pem(SECP256K1_SPKI_PREFIX), algorithm: 'EC_SIGN_SECP256K1_SHA256' };
+  }
+  if (method === 'POST' && path === `${gcpKey}:asymmetricSign`) {
+    const digest = Buffer.from(body.digest.sha256, 'base64');
+    return { signature: der(remoteSign(digest, true)).toString('base64') };
+  }
+
+  if (method === 'GET' && path === '/keys/eth') {
+    return {
+      key: {
+        kid: `${baseUrl}/keys/eth/v1`,
+        kty: 'EC',
+        crv: 'P-256K',
+        x: point.subarray(1, 33).toString('base64url'),
+        y: point.subarray(33).toString('base64url'),
+      },
+    };
+  }
+  if (method === 'POST' && path === '/keys/eth/v1/sign') {
+    const digest = Buffer.from(body.value, 'base64url');
+    return {
+      kid: `${baseUrl}/keys/eth/v1`,
+      value: remoteSign(digest, false).toString('base64url'),
+    };
+  }
+
+  if (method === 'GET' && path.startsWith('/v1/transit/keys/')) {
+    const prefix = path.endsWith('/p256') ? P256_SPKI_PREFIX : SECP256K1_SPKI_PREFIX;
+    const keys = { 1: { public_key: pem(prefix) }, 2: { public_key: pem(P256_SPKI_PREFIX) } };
+    return { data: { latest_version: vaultLatestVersion, keys } };
+  }
+  if (method === 'POST' && path === '/v1/transit/sign/eth') {
+    vaultSignVersions.push(body.key_version);
+    const digest = Buffer.from(body.input, 'base64');
+    return { data: { signature: `vault:v1:${der(remoteSign(digest, true)).toString('base64')}` } };
+  }
+
+  return undefined;
+}
+
+let server: http.Server;
+let baseUrl: string;
+let vaultLatestVersion = 1;
+const vaultSignVersions: unknown[] = [];
+
+const domain: TypedDataDomain = { name: 'Test', version: '1', chainId: 8453 };
+const types = { Order: [{ name: 'pairIndex', type: 'uint256' }] };
+const order = { pairIndex: 1 };
+
+describe('remote signers', () => {
+  const provider = new JsonRpcProvider('http://127.0.0.1:1', 8453, { staticNetwork: true });
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let data = '';
+      req.on('data', (chunk) => (data += chunk));
+      req.on('end', () => {
+        const url = new URL(req.url!, 'http://localhost');
+        const result = handle(req.method!, url.pathname, data ? JSON.parse(data) : undefined);
+        res.writeHead(result ? 200 : 404, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(result ?? { error: 'not found' }));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    provider.destroy();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const fakePkcs11 = (): Pkcs11Module => {
+    const handleFor = (label: string) => Buffer.from(label);
+    let findClass = 0;
+    return {
+      load: () => undefined,
+      C_Initialize: () => undefined,
+      C_Finalize: () => undefined,
+      C_GetSlotList: () => [Buffer.from([0])],
+      C_OpenSession: () => Buffer.from([1]),
+      C_CloseSession: () => undefined,
+      C_Login: () => undefined,
+      C_Logout: () => undefined,
+      C_FindObjectsInit: (_session, template) => {
+        findClass = template[0].value as number;
+      },
+      C_FindObjects: () => [handleFor(findClass === 2 ? 'public' : 'private')],
+      C_FindObjectsFinal: () => undefined,
+      C_GetAttributeValue: () => [
+        { type: 0x180, value: Buffer.from('06052b8104000a', 'hex') },
+        { type: 0x181, value: Buffer.concat([Buffer.from([0x04, 0x41]), point]) },
+      ],
+      C_SignInit: () => undefined,
+      C_Sign: (_session, data) => remoteSign(data, false),
+    };
+  };
+
+  it.each<[string, () => RemoteDigestSigner]>([
+    [
+      'GcpKmsSigner',
+      () =>
+        new GcpKmsSigner(
+          {
+            keyVersionName:
+              'projects/p/locations/global/keyRings/r/cryptoKeys/eth/cryptoKeyVersions/1',
+            accessToken: async () => 'token',
+            endpoint: baseUrl,
+          },
+          provider
+        ),
+    ],
+    [
+      'AzureKeyVaultSigner',
+      () =>
+        new AzureKeyVaultSigner(
+          { vaultUrl: baseUrl, keyName: 'eth', accessToken: 'token' },
+          provider
+        ),
+    ],
+    [
+      'VaultTransitSigner',
+      () => new VaultTransitSigner({ address: baseUrl, token: 'token', keyName: 'eth' }, provider),
+    ],
+    [
+      'Pkcs11Signer',
+      () =>
+        new Pkcs11Signer(
+          { pkcs11: fakePkcs11(), library: 'softhsm2.so', pin: '1234', keyLabel: 'eth' },
+          provider
+        ),
+    ],
+  ])('%s derives the address and signs with the remote key', async (_name, create) => {
+    const signer = create();
+
+    expect(await signer.getAddress()).toBe(ADDRESS);
+    expect(verifyMessage('hello', await signer.signMessage('hello'))).toBe(ADDRESS);
+    expect(
+      verifyTypedData(domain, types, order, await signer.signTypedData(domain, types, order))
+    ).toBe(ADDRESS);
+  });
+
+  it('rejects keys that are not on secp256k1', async () => {
+    const signer = new VaultTransitSigner(
+      { address: baseUrl, token: 'token', keyName: 'p256' },
+      provider
+    );
+
+    await expect(signer.getAddress()).rejects.toThrow('Remote key is not a secp256k1 key');
+  });
+
+  it('keeps signing with the Vault key version the address was derived from', async () => {
+    const signer = new VaultTransitSigner(
+      { address: baseUrl, token: 'token', keyName: 'eth' },
+      provider
+    );
+    expect(await signer.getAddress()).toBe(ADDRESS);
+    vaultLatestVersion = 2;
+    vaultSignVersions.length = 0;
+
+    try {
+      expect(verifyMessage('hello', await signer.signMessage('hello'))).toBe(ADDRESS);
+      expect(vaultSignVersions).toEqual([1]);
+    } finally {
+      vaultLatestVersion = 1;
+    }
+  });
+});
@@ -0,0 +1,126 @@
+import { GetPublicKeyCommand } from '@aws-sdk/client-kms';
+import {
+  Contract,
+  JsonRpcProvider,
+  SigningKey,
+  Transaction,
+  TypedDataDomain,
+  concat,
+  getBytes,
+  verifyMessage,
+  verifyTypedData,
+} from 'ethers';
+import { KMSSigner } from '../../src/signers/kms';
+import { LocalSigner } from '../../src/signers/local';
+import { toEthersSigner } from '../../src/signers/ethers_adapter';
+
+const PRIVATE_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const ADDRESS = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+// DER header of a secp256k1 SubjectPublicKeyInfo, as returned by KMS GetPublicKey
+const SPKI_PREFIX = '0x3056301006072a8648ce3d020106052b8104000a034200';
+
+const domain: TypedDataDomain = {
+  name: 'USD Coin',
+  version: '2',
+  chainId: 8453,
+  verifyingContract: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+};
+const types = {
+  Permit: [
+    { name: 'owner', type: 'address' },
+    { name: 'spender', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' },
+  ],
+};
+const permit = {
+  owner: ADDRESS,
+  spender: '0x44914408af82bC9983bbb330e3578E1105e11d4e',
+  value: 1_000_000n,
+  nonce: 0n,
+  deadline: 1_900_000_000n,
+};
+
+/**
+ * DER-encode an (r, s) signature the way KMS returns it
+ */
+function derSignature(r: string, s: string): Uint8Array {
+  const integer = (hex: string) => {
+    let bytes = Array.from(getBytes(hex));
+    while (bytes.length > 1 && bytes[0] === 0) bytes = bytes.slice(1);
+    if (bytes[0] & 0x80) bytes = [0, ...bytes];
+    return [0x02, bytes.length, ...bytes];
+  };
+  const body = [...integer(r), ...integer(s)];
+  return new Uint8Array([0x30, body.length, ...body]);
+}
+
+/**
+ * KMSSigner whose KMS client signs with a local key
+ */
+function fakeKmsSigner(provider: JsonRpcProvider): KMSSigner {
+  const key = new SigningKey(PRIVATE_KEY);
+  const signer = new KMSSigner('test-key', provider);
+  (signer as unknown as { kmsClient: unknown }).kmsClient = {
+    send: async (command: { input: { Message?: Uint8Array } }) => {
+      if (command instanceof GetPublicKeyCommand) {
+        return { PublicKey: getBytes(concat([SPKI_PREFIX, key.publicKey])) };
+      }
+      const { r, s } = key.sign(command.input.Message!);
+      return { Signature: derSignature(r, s) };
+    },
+  };
+  return signer;
+}
+
+describe('signers', () => {
+  const provider = new JsonRpcProvider('http://127.0.0.1:1', 8453, { staticNetwork: true });
+
+  afterAll(() => provider.destroy());
+
+  it.each([
+    ['LocalSigner', () => new LocalSigner(PRIVATE_KEY, provider)],
+    ['KMSSigner', () => fakeKmsSigner(provider)],
+  ])('%s signs EIP-712 typed data and messages', async (_name, create) => {
+    const signer = create();
+
+    const signature = await signer.signTypedData(domain, types, permit);
+    expect(verifyTypedData(domain, types, permit, signature)).toBe(ADDRESS);
+    expect(verifyMessage('hello', await signer.signMessage('hello'))).toBe(ADDRESS);
+  });
+
+  it('KMSSigner signs transactions with a resolved recipient', async () => {
+    const signer = fakeKmsSigner(provider);
+
+    const signed = await signer.signTransaction({
+      to: permit.spender,
+      data: '0x',
+      chainId: 8453n,
+      nonce: 0,
+      gasLimit: 21000n,
+      maxFeePerGas: 1_000_000_000n,
+      maxPriorityFeePerGas: 1_000_000n,
+    });
+
+    const tx = Transaction.from(signed);
+    expect(tx.from).toBe(ADDRESS);
+    expect(tx.to).toBe(permit.spender);
+  });
+
+  it('toEthersSigner exposes an SDK signer to ethers code', async () => {
+    const ethersSigner = toEthersSigner(fakeKmsSigner(provider), provider);
+    expect(await ethersSigner.getAddress()).toBe(ADDRESS);
+
+    const signature = await ethersSigner.signTypedData(domain, types, permit);
+    expect(verifyTypedData(domain, types, permit, signature)).toBe(ADDRESS);
+
+    const contract = new Contract(
+      domain.verifyingContract!,
+      ['function approve(address,uint256)'],
+      ethersSigner
+    );
+    expect(contract.runner).toBe(ethersSigner);
+    expect(ethersSigner.connect(null).provider).toBeNull();
+  });
+});
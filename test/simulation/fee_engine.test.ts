@@ -0,0 +1,256 @@
+import { LocalFeeEngine, PairMarketState } from '../../src/simulation/fee_engine';
+import { checkFeeParity, fetchSkewFeePairs } from '../../src/simulation/fee_parity';
+import { PairInfos, PairStorage, PriceAggregator } from '../../src/typechain';
+import { PairsBackendReturn, TradeInputOrderType } from '../../src/types';
+
+const e10 = (value: number) => BigInt(Math.round(value * 1e10));
+const e12 = (value: number) => BigInt(Math.round(value * 1e12));
+
+function backend(groupIndex: number, isSpreadDynamic = true): PairsBackendReturn {
+  return {
+    pair: {
+      feed: { maxOpenDeviationP: 0n, maxCloseDeviationP: 0n, feedId: '0x' },
+      backupFeed: { maxDeviationP: 0n, feedId: '0x' },
+      spreadP: e10(0.05),
+      pnlSpreadP: e10(0.1),
+      leverages: { minLeverage: 0n, maxLeverage: 0n, pnlMinLeverage: 0n, pnlMaxLeverage: 0n },
+      priceImpactMultiplier: e10(0.5),
+      skewImpactMultiplier: e10(0.2),
+      groupIndex: BigInt(groupIndex),
+      feeIndex: 0n,
+      values: {
+        maxGainP: 0n,
+        maxSlP: 0n,
+        maxLongOiP: 0n,
+        maxShortOiP: 0n,
+        groupOpenInterestPercentageP: 0n,
+        maxWalletOIP: 0n,
+        isUSDCAligned: false,
+      },
+    },
+    group: { name: 'crypto', maxOpenInterestP: 0n, isSpreadDynamic },
+    fee: {
+      openFeeP: e12(0.06),
+      closeFeeP: e12(0.06),
+      limitOrderFeeP: e12(0.04),
+      minLevPosUSDC: 0n,
+      pnlFees: { numTiers: 0n, tierP: [], feesP: [] },
+    },
+  };
+}
+
+const MARKET: PairMarketState = {
+  longOI: 600_000,
+  shortOI: 400_000,
+  onePercentDepthAbove: 2_000_000,
+  onePercentDepthBelow: 1_000_000,
+};
+
+const LOSS_PROTECTION = {
+  longSkewConfig: [50, 40],
+  shortSkewConfig: [50, 40],
+  tierP: [0, 10, 20],
+};
+
+function engine(market: PairMarketState = MARKET): LocalFeeEngine {
+  const engine = new LocalFeeEngine();
+  engine.setPair(0, backend(0), market, LOSS_PROTECTION);
+  return engine;
+}
+
+describe('LocalFeeEngine', () => {
+  it('quotes opening fees per order type', () => {
+    const fees = engine();
+
+    expect(fees.getOpeningFeeP(0)).toBeCloseTo(0.06);
+    expect(fees.getOpeningFeeP(0, TradeInputOrderType.LIMIT)).toBeCloseTo(0.04);
+    expect(fees.getOpeningFeeP(0, TradeInputOrderType.STOP_LIMIT)).toBeCloseTo(0.04);
+    expect(fees.getOpeningFeeP(0, TradeInputOrderType.MARKET_ZERO_FEE)).toBe(0);
+    expect(fees.getOpeningFee(0, 10_000)).toBeCloseTo(6);
+  });
+
+  it('scales price impact with side OI over depth', () => {
+    const fees = engine();
+
+    // (600k + 50k / 2) / 2M * 0.5
+    expect(fees.getPriceImpactSpread(0, true, 50_000)).toBeCloseTo(0.15625);
+    // (400k + 50k / 2) / 1M * 0.5
+    expect(fees.getPriceImpactSpread(0, false, 50_000)).toBeCloseTo(0.2125);
+    expect(fees.getPriceImpactSpread(0, true, 50_000, true)).toBe(0);
+
+    const flat = new LocalFeeEngine();
+    flat.setPair(0, backend(0, false), MARKET);
+    expect(flat.getPriceImpactSpread(0, true, 50_000)).toBe(0);
+  });
+
+  it('signs the skew impact by direction', () => {
+    const fees = engine();
+
+    // Skew after a 200k long: (800k - 400k) / 1.2M
+    expect(fees.getSkewImpactSpread(0, true, 200_000)).toBeCloseTo((400 / 1200) * 0.2);
+    // Skew after a 200k short: (600k - 600k) / 1.2M
+    expect(fees.getSkewImpactSpread(0, false, 200_000)).toBeCloseTo(0);
+    expect(fees.getSkewImpactSpread(0, false, 0)).toBeCloseTo(-0.2 * 0.2);
+  });
+
+  it('blends pair and group skew after the fill', () => {
+    const fees = engine({ ...MARKET, groupLongOI: 3_000_000, groupShortOI: 1_000_000 });
+
+    // Pair: 600k of 1M long, group: 3M of 4M long
+    expect(fees.getBlendedSkewP(0, true)).toBeCloseTo(0.25 * 60 + 0.75 * 75);
+    expect(fees.getBlendedSkewP(0, false)).toBeCloseTo(0.25 * 40 + 0.75 * 25);
+    // Without group OI the pair's OI stands in
+    expect(engine().getBlendedSkewP(0, false, 1_000_000)).toBeCloseTo(70);
+    expect(engine({ ...MARKET, longOI: 0, shortOI: 0 }).getBlendedSkewP(0, true)).toBe(50);
+  });
+
+  it('grants higher loss protection tiers to the smaller side', () => {
+    const fees = engine();
+
+    expect(fees.getLossProtectionTier(0, true)).toBe(0);
+    expect(fees.getLossProtectionTier(0, false)).toBe(2);
+    // A large short flips the skew and loses the protection
+    expect(fees.getLossProtectionTier(0, false, 300_000)).toBe(0);
+    expect(fees.getLossProtectionInfo(0, false, 5)).toEqual({ tier: 2, percentage: 20, amount: 1 });
+
+    const unprotected = new LocalFeeEngine();
+    unprotected.setPair(0, backend(0), MARKET);
+    expect(unprotected.getLossProtectionTier(0, false)).toBe(0);
+  });
+
+  it('tracks pair and group OI across fills', () => {
+    const fees = new LocalFeeEngine();
+    const grouped = { ...MARKET, groupLongOI: 1_000_000, groupShortOI: 1_000_000 };
+    fees.setPair(0, backend(0), grouped);
+    fees.setPair(1, backend(0), grouped);
+    fees.setPair(2, backend(1), grouped);
+
+    fees.applyOpen({ pairIndex: 0, isLong: true, collateral: 1_000, leverage: 100 });
+    fees.applyClose({ pairIndex: 0, isLong: false, collateral: 10_000, leverage: 100 });
+
+    expect(fees.getMarketState(0)).toMatchObject({
+      longOI: 700_000,
+      shortOI: 0,
+      groupLongOI: 1_100_000,
+      groupShortOI: 0,
+    });
+    expect(fees.getMarketState(1)).toMatchObject({ longOI: 600_000, groupLongOI: 1_100_000 });
+    expect(fees.getMarketState(2)).toMatchObject({ groupLongOI: 1_000_000 });
+  });
+
+  it('combines every component in a quote', () => {
+    const quote = engine().quote({ pairIndex: 0, isLong: false, collateral: 1_000, leverage: 10 });
+
+    expect(quote.positionSize).toBe(10_000);
+    expect(quote.openingFee).toBeCloseTo(6);
+    expect(quote.totalSpreadP).toBeCloseTo(
+      quote.constantSpreadP + quote.priceImpactP + quote.skewImpactP
+    );
+    // 410k of 1.01M short after the fill is above the 40% threshold
+    expect(quote.lossProtection).toMatchObject({ tier: 1, percentage: 10 });
+    expect(quote.lossProtection.amount).toBeCloseTo(0.6);
+    expect(() =>
+      engine().quote({ pairIndex: 9, isLong: true, collateral: 1, leverage: 1 })
+    ).toThrow('Pair 9 not loaded in fee engine');
+  });
+
+  it('marks market quotes on pairs with skew fees or unknown skew fee parameters', () => {
+    const fees = new LocalFeeEngine();
+    fees.setPair(0, backend(0), MARKET, undefined, true);
+    fees.setPair(1, backend(0), MARKET, undefined, false);
+    fees.setPair(2, backend(0), MARKET);
+    const quote = (pairIndex: number, orderType?: TradeInputOrderType) =>
+      fees.quote({ pairIndex, isLong: true, collateral: 1_000, leverage: 10, orderType }).unmodeled;
+
+    expect(quote(0)).toEqual(['openingFeeP: skew adjustment (PairStorage.getSkewParams)']);
+    expect(quote(0, TradeInputOrderType.LIMIT)).toEqual([]);
+    expect(quote(1)).toEqual([]);
+    expect(quote(2)).toEqual([
+      'openingFeeP: skew fee parameters not loaded (PairStorage.getSkewParams)',
+    ]);
+  });
+});
+
+describe('checkFeeParity', () => {
+  // On-chain values of a 50k short: 450k of 1.05M OI short after the fill
+  const contracts = (tier: bigint, openFeeP = 0.06, eqParams: [bigint, bigint][] = []) => ({
+    pairInfos: {
+      getPriceImpactSpread: jest.fn().mockResolvedValue(e10(0.2125)),
+      getSkewImpactSpread: jest.fn().mockResolvedValue(e10((-150 / 1050) * 0.2)),
+      lossProtectionTier: jest.fn().mockResolvedValue(tier),
+    } as unknown as PairInfos,
+    pairStorage: {
+      pairLimitOrderFeeP: jest.fn().mockResolvedValue(e12(0.04)),
+      getSkewParams: jest.fn().mockResolvedValue({ eqParams }),
+    } as unknown as PairStorage,
+    priceAggregator: {
+      openFeeP: jest.fn().mockResolvedValue(e12(openFeeP)),
+    } as unknown as PriceAggregator,
+  });
+
+  it('matches on-chain values at the same block', async () => {
+    const onChain = contracts(1n);
+    const cases = [
+      { pairIndex: 0, isLong: false, collateral: 5_000, leverage: 10 },
+      {
+        pairIndex: 0,
+        isLong: false,
+        collateral: 5_000,
+        leverage: 10,
+        orderType: TradeInputOrderType.LIMIT,
+      },
+    ];
+
+    const results = await checkFeeParity(engine(), onChain, cases, 1e-6, 123);
+
+    expect(results.map((result) => result.withinTolerance)).toEqual([true, true]);
+    expect(results[0].onChain).toMatchObject({
+      openingFeeP: 0.06,
+      priceImpactP: 0.2125,
+      lossProtectionTier: 1,
+    });
+    expect(results[1].onChain.openingFeeP).toBe(0.04);
+    expect(onChain.pairStorage.pairLimitOrderFeeP).toHaveBeenCalledWith(0, { blockTag: 123 });
+    expect(onChain.priceAggregator.openFeeP).toHaveBeenCalledWith(0, 50_000_000_000n, false, {
+      blockTag: 123,
+    });
+    expect(results[0].unmodeled).toEqual([]);
+    expect(onChain.pairInfos.getPriceImpactSpread).toHaveBeenCalledWith(
+      0,
+      false,
+      50_000_000_000n,
+      false,
+      { blockTag: 123 }
+    );
+  });
+
+  it('reports deltas beyond the tolerance', async () => {
+    const input = { pairIndex: 0, isLong: false, collateral: 5_000, leverage: 10 };
+    const local = engine().quote(input);
+
+    const [result] = await checkFeeParity(engine(), contracts(0n), [input]);
+
+    expect(result.local.lossProtectionTier).toBe(local.lossProtection.tier);
+    expect(result.deltas.lossProtectionTier).toBe(1);
+    expect(result.withinTolerance).toBe(false);
+  });
+
+  it('finds the pairs with skew fee parameters', async () => {
+    const pairStorage = {
+      getSkewParams: async (pairIndex: number) => ({ eqParams: pairIndex === 1 ? [[1n, 2n]] : [] }),
+    } as unknown as PairStorage;
+
+    expect(await fetchSkewFeePairs(pairStorage, [0, 1, 2])).toEqual(new Set([1]));
+  });
+
+  it('flags the unmodeled skew fee adjustment of PriceAggregator.openFeeP', async () => {
+    const input = { pairIndex: 0, isLong: false, collateral: 5_000, leverage: 10 };
+
+    const [result] = await checkFeeParity(engine(), contracts(1n, 0.07, [[1n, 2n]]), [input]);
+
+    expect(result.onChain.openingFeeP).toBeCloseTo(0.07);
+    expect(result.deltas.openingFeeP).toBeCloseTo(-0.01);
+    expect(result.withinTolerance).toBe(false);
+    expect(result.unmodeled).toEqual(['openingFeeP: skew adjustment (PairStorage.getSkewParams)']);
+  });
+});
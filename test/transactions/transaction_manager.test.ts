@@ -0,0 +1,213 @@
+import {
+  FeeData,
+  Interface,
+  Provider,
+  Transaction,
+  TransactionReceipt,
+  TransactionRequest,
+  TransactionResponse,
+  makeError,
+} from 'ethers';
+import { Paused } from '../../src/errors';
+import { LocalSigner } from '../../src/signers/local';
+import { TransactionManager } from '../../src/transactions/transaction_manager';
+
+const PRIVATE_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const TRADER = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+const TARGET = '0x44914408af82bC9983bbb330e3578E1105e11d4e';
+
+const MAX_FEE = 2_000_000_000n;
+const PRIORITY_FEE = 1_000_000n;
+const PAUSED = new Interface(['error Error(string)']).encodeErrorResult('Error', ['PAUSED']);
+
+/**
+ * Fake node: counts nonces, records broadcasts and answers waits from a script
+ */
+class FakeProvider {
+  pendingCount = 5;
+  latestCount = 5;
+  broadcasts: Transaction[] = [];
+  calls: TransactionRequest[] = [];
+  waitResult: (tx: Transaction) => Promise<TransactionReceipt | null> = async () => null;
+
+  async getNetwork() {
+    return { chainId: 8453n };
+  }
+
+  async estimateGas() {
+    return 60_000n;
+  }
+
+  async getFeeData() {
+    return new FeeData(null, MAX_FEE, PRIORITY_FEE);
+  }
+
+  async getTransactionCount(_address: string, blockTag: string) {
+    return blockTag === 'pending' ? this.pendingCount : this.latestCount;
+  }
+
+  async broadcastTransaction(signed: string): Promise<TransactionResponse> {
+    const tx = Transaction.from(signed);
+    // Later sends resolve first if the manager does not serialize them
+    await new Promise((resolve) => setTimeout(resolve, 10 - this.broadcasts.length));
+    this.broadcasts.push(tx);
+    return {
+      nonce: tx.nonce,
+      hash: tx.hash!,
+      to: tx.to,
+      from: tx.from!,
+      data: tx.data,
+      value: tx.value,
+      gasLimit: tx.gasLimit,
+      wait: () => this.waitResult(tx),
+    } as unknown as TransactionResponse;
+  }
+
+  async call(tx: TransactionRequest): Promise<string> {
+    this.calls.push(tx);
+    throw makeError('execution reverted', 'CALL_EXCEPTION', {
+      action: 'call',
+      data: PAUSED,
+      reason: null,
+      invocation: null,
+      revert: null,
+      transaction: { to: null, data: '' },
+    });
+  }
+}
+
+describe('TransactionManager', () => {
+  let provider: FakeProvider;
+  let transactions: TransactionManager;
+
+  beforeEach(() => {
+    provider = new FakeProvider();
+    transactions = new TransactionManager(
+      provider as unknown as Provider,
+      new LocalSigner(PRIVATE_KEY, provider as unknown as Provider)
+    );
+  });
+
+  const send = (data = '0x') => transactions.send({ to: TARGET, data });
+
+  it('hands out consecutive nonces to concurrent sends and broadcasts in order', async () => {
+    const count = jest.spyOn(provider, 'getTransactionCount');
+
+    const responses = await Promise.all([1, 2, 3, 4].map((i) => send(`0x0${i}`)));
+
+    expect(responses.map((response) => response.nonce)).toEqual([5, 6, 7, 8]);
+    expect(provider.broadcasts.map((tx) => [tx.nonce, tx.data])).toEqual([
+      [5, '0x01'],
+      [6, '0x02'],
+      [7, '0x03'],
+      [8, '0x04'],
+    ]);
+    // One sync for the pending and latest counts
+    expect(count).toHaveBeenCalledTimes(2);
+    expect(provider.broadcasts[0]).toMatchObject({
+      chainId: 8453n,
+      gasLimit: 60_000n,
+      maxFeePerGas: MAX_FEE,
+      maxPriorityFeePerGas: PRIORITY_FEE,
+    });
+    expect(transactions.getPendingTransactions().map((tx) => tx.nonce)).toEqual([5, 6, 7, 8]);
+  });
+
+  it('speeds up a pending transaction with bumped fees and the same nonce', async () => {
+    await send('0x01');
+
+    const replacement = await transactions.speedUp(5);
+
+    expect(replacement.nonce).toBe(5);
+    const [original, bumped] = provider.broadcasts;
+    expect(bumped.data).toBe(original.data);
+    expect(bumped.maxFeePerGas).toBe((MAX_FEE * 115n) / 100n + 1n);
+    expect(bumped.maxPriorityFeePerGas).toBe((PRIORITY_FEE * 115n) / 100n + 1n);
+    expect(transactions.getPendingTransactions()).toHaveLength(1);
+  });
+
+  it('cancels with an empty self-transfer and never bumps below 10%', async () => {
+    await send('0x01');
+
+    await transactions.cancel(5, 20);
+    await transactions.speedUp(5, 1);
+
+    const [, cancel, minimal] = provider.broadcasts;
+    expect(cancel).toMatchObject({ nonce: 5, to: TRADER, data: '0x', value: 0n, gasLimit: 21000n });
+    expect(cancel.maxFeePerGas).toBe((MAX_FEE * 120n) / 100n + 1n);
+    expect(minimal.maxFeePerGas).toBe((cancel.maxFeePerGas! * 110n) / 100n + 1n);
+    await expect(transactions.speedUp(9)).rejects.toThrow('No pending transaction with nonce 9');
+  });
+
+  it('resyncs the nonce and forgets mined and dropped transactions', async () => {
+    await send();
+    await send();
+    await send();
+
+    // Nonce 5 was mined, 6 and 7 were dropped from the mempool
+    provider.latestCount = 6;
+    provider.pendingCount = 6;
+    const next = await transactions.resync();
+    const response = await send('0x09');
+
+    expect(next).toBe(6);
+    expect(response.nonce).toBe(6);
+    expect(transactions.getPendingTransactions().map((tx) => tx.nonce)).toEqual([6, 7]);
+  });
+
+  it('resyncs after a failed broadcast', async () => {
+    const broadcast = provider.broadcastTransaction.bind(provider);
+    jest
+      .spyOn(provider, 'broadcastTransaction')
+      .mockRejectedValueOnce(new Error('nonce too low'))
+      .mockImplementation(broadcast);
+
+    await expect(send()).rejects.toThrow('nonce too low');
+    provider.pendingCount = 7;
+
+    expect((await send()).nonce).toBe(7);
+  });
+
+  it('decodes reverted receipts by replaying the transaction', async () => {
+    const receipt = { status: 0, blockNumber: 123 } as TransactionReceipt;
+    provider.waitResult = async (tx) => {
+      throw makeError('transaction execution reverted', 'CALL_EXCEPTION', {
+        action: 'sendTransaction',
+        data: null,
+        reason: null,
+        invocation: null,
+        revert: null,
+        transaction: { to: tx.to, from: tx.from!, data: '' },
+        receipt,
+      });
+    };
+
+    const error = await transactions.sendAndWait({ to: TARGET, data: '0x01' }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(Paused);
+    expect(error.revert.message).toBe('PAUSED');
+    expect(error.cause.receipt).toBe(receipt);
+    expect(provider.calls[0]).toMatchObject({
+      to: TARGET,
+      from: TRADER,
+      data: '0x01',
+      blockTag: 123,
+    });
+    expect(transactions.getPendingTransactions()).toHaveLength(0);
+  });
+
+  it('returns the receipt of a sped-up replacement', async () => {
+    const receipt = { status: 1, blockNumber: 123 } as TransactionReceipt;
+    provider.waitResult = async () => {
+      throw makeError('transaction was replaced', 'TRANSACTION_REPLACED', {
+        cancelled: false,
+        reason: 'repriced',
+        hash: '0x',
+        replacement: {} as TransactionResponse,
+        receipt,
+      });
+    };
+
+    expect(await transactions.sendAndWait({ to: TARGET })).toBe(receipt);
+  });
+});